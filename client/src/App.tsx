@@ -30,6 +30,7 @@ import NotFound from "@/pages/not-found";
 import GuaranteeSettings from "@/pages/guarantee/GuaranteeSettings";
 import GuaranteeReservations from "@/pages/guarantee/GuaranteeReservations";
 import GuaranteeHistory from "@/pages/guarantee/GuaranteeHistory";
+import GuaranteeCheckIn from "@/pages/guarantee/GuaranteeCheckIn";
 import GuaranteePage from "@/pages/guarantee/GuaranteePage";
 import GuaranteeConfirmation from "@/pages/guarantee/GuaranteeConfirmation";
 import GuaranteeCancellation from "@/pages/guarantee/GuaranteeCancellation";
@@ -57,6 +58,8 @@ import UnsubscribePage from "@/pages/marketing/UnsubscribePage";
 // Integration Hub Pages
 import IntegrationHub from "@/pages/integrations/IntegrationHub";
 import IntegrationCustomers from "@/pages/integrations/IntegrationCustomers";
+import WebhookMapping from "@/pages/integrations/WebhookMapping";
+import WebhookEndpoints from "@/pages/integrations/WebhookEndpoints";
 
 // Waitlist Pages
 import WaitlistConfirm from "@/pages/waitlist/WaitlistConfirm";
@@ -64,6 +67,8 @@ import WaitlistDashboard from "@/pages/waitlist/WaitlistDashboard";
 
 // Activity Pages
 import ActivityCalls from "@/pages/activity/ActivityCalls";
+import ActivityQuality from "@/pages/activity/ActivityQuality";
+import ActivityOutcomes from "@/pages/activity/ActivityOutcomes";
 
 // Recommendations Page
 import RecommendationsPage from "@/pages/recommendations/RecommendationsPage";
@@ -123,6 +128,22 @@ function Router() {
         </ProtectedRoute>
       </Route>
 
+      <Route path="/activity/quality">
+        <ProtectedRoute requireVerified={true} requireSubscription={true}>
+          <DashboardLayout>
+            <ActivityQuality />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/activity/outcomes">
+        <ProtectedRoute requireVerified={true} requireSubscription={true}>
+          <DashboardLayout>
+            <ActivityOutcomes />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+
       <Route path="/recommendations">
         <ProtectedRoute requireVerified={true} requireSubscription={true}>
           <DashboardLayout>
@@ -192,6 +213,14 @@ function Router() {
         </ProtectedRoute>
       </Route>
 
+      <Route path="/guarantee/checkin/:sessionId">
+        <ProtectedRoute requireVerified={true} requireSubscription={true}>
+          <DashboardLayout>
+            <GuaranteeCheckIn />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+
       {/* Guarantee CB - Public pages (no auth required) */}
       <Route path="/g/:sessionId" component={GuaranteePage} />
       <Route path="/guarantee/validate/:sessionId" component={GuaranteePage} />
@@ -331,6 +360,22 @@ function Router() {
         </ProtectedRoute>
       </Route>
 
+      <Route path="/integrations/webhooks/:id">
+        <ProtectedRoute requireVerified={true} requireSubscription={true}>
+          <DashboardLayout>
+            <WebhookMapping />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/integrations/outbound-webhooks">
+        <ProtectedRoute requireVerified={true} requireSubscription={true}>
+          <DashboardLayout>
+            <WebhookEndpoints />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+
       {/* Waitlist - Public confirmation page */}
       <Route path="/waitlist/:token" component={WaitlistConfirm} />
 
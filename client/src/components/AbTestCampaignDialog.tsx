@@ -0,0 +1,262 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+const MAX_VARIANTS = 5;
+
+const abTestFormSchema = z.object({
+  name: z.string().min(1, "Nom requis"),
+  audience: z.string().min(1),
+  variants: z.array(z.object({
+    emailSubject: z.string().min(1, "Sujet requis"),
+    emailContent: z.string().min(1, "Contenu requis"),
+  })).min(2).max(MAX_VARIANTS),
+  testPercentage: z.coerce.number().int().min(2, "2 % minimum").max(90, "90 % maximum"),
+  winnerMetric: z.enum(["opens", "clicks", "conversions"]),
+  testDurationHours: z.coerce.number().int().min(1, "1 h minimum").max(168, "168 h maximum"),
+  scheduledAt: z.string().optional(),
+});
+
+type AbTestFormData = z.infer<typeof abTestFormSchema>;
+
+const emptyVariant = { emailSubject: "", emailContent: "" };
+
+interface AbTestCampaignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AbTestCampaignDialog({ open, onOpenChange }: AbTestCampaignDialogProps) {
+  const { toast } = useToast();
+  const queryClientInst = useQueryClient();
+
+  const { data: segments } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['/api/marketing/segments'],
+    enabled: open,
+  });
+
+  const form = useForm<AbTestFormData>({
+    resolver: zodResolver(abTestFormSchema),
+    defaultValues: {
+      name: "",
+      audience: "all",
+      variants: [emptyVariant, emptyVariant],
+      testPercentage: 20,
+      winnerMetric: "opens",
+      testDurationHours: 4,
+      scheduledAt: "",
+    },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "variants" });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: AbTestFormData) => {
+      return apiRequest('POST', '/api/marketing/campaigns/ab-test', {
+        name: data.name,
+        targetAll: data.audience === 'all',
+        segmentId: data.audience === 'all' ? undefined : data.audience,
+        variants: data.variants,
+        testPercentage: data.testPercentage,
+        winnerMetric: data.winnerMetric,
+        testDurationHours: data.testDurationHours,
+        scheduledAt: data.scheduledAt ? new Date(data.scheduledAt).toISOString() : undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Test A/B créé" });
+      onOpenChange(false);
+      form.reset();
+      queryClientInst.invalidateQueries({ predicate: (query) => query.queryKey[0]?.toString().startsWith('/api/marketing/campaigns') || false });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nouveau test A/B</DialogTitle>
+          <DialogDescription>
+            Chaque variante est envoyée à une partie de l'audience, puis la meilleure part au reste des contacts
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nom de la campagne</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="ex: Newsletter de rentrée" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="audience"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Audience</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="all">Tous les contacts inscrits</SelectItem>
+                      {segments?.map((segment) => (
+                        <SelectItem key={segment.id} value={segment.id}>{segment.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {fields.map((variant, index) => (
+              <div key={variant.id} className="space-y-3 rounded-lg border border-border/40 p-4">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-semibold">Variante {String.fromCharCode(65 + index)}</h4>
+                  {fields.length > 2 && (
+                    <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => remove(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <FormField
+                  control={form.control}
+                  name={`variants.${index}.emailSubject`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sujet de l'email</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`variants.${index}.emailContent`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contenu de l'email</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} placeholder="Contenu HTML de l'email..." rows={4} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            ))}
+            {fields.length < MAX_VARIANTS && (
+              <Button type="button" variant="outline" size="sm" onClick={() => append(emptyVariant)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Ajouter une variante
+              </Button>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="testPercentage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Part testée (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={2} max={90} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="winnerMetric"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Critère gagnant</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="opens">Taux d'ouverture</SelectItem>
+                        <SelectItem value="clicks">Taux de clic</SelectItem>
+                        <SelectItem value="conversions">Taux de conversion</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="testDurationHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Durée du test (h)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={168} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="scheduledAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Programmer l'envoi (optionnel)</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Laissez vide pour enregistrer en brouillon
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="flex-wrap gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+                Créer le test A/B
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
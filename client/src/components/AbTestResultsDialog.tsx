@@ -0,0 +1,126 @@
+import { useQuery } from "@tanstack/react-query";
+import { Trophy } from "lucide-react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+
+type AbWinnerMetric = 'opens' | 'clicks' | 'conversions';
+
+interface AbVariantResult {
+  campaignId: string;
+  name: string;
+  emailSubject: string | null;
+  sent: number;
+  openRate: number;
+  clickRate: number;
+  conversionRate: number;
+}
+
+interface AbTestSummary {
+  status: 'pending' | 'testing' | 'winner_selected';
+  winnerMetric: AbWinnerMetric;
+  testPercentage: number;
+  testDurationHours: number;
+  testEndsAt: string | null;
+  winnerVariantId: string | null;
+  leadingVariantId: string | null;
+  variants: AbVariantResult[];
+}
+
+const statusLabels: Record<AbTestSummary['status'], string> = {
+  pending: "En attente d'envoi",
+  testing: "Test en cours",
+  winner_selected: "Gagnant envoyé",
+};
+
+const metricLabels: Record<AbWinnerMetric, string> = {
+  opens: "taux d'ouverture",
+  clicks: "taux de clic",
+  conversions: "taux de conversion",
+};
+
+interface AbTestResultsDialogProps {
+  campaign: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+export function AbTestResultsDialog({ campaign, onClose }: AbTestResultsDialogProps) {
+  const { data, isLoading } = useQuery<{ abTest: AbTestSummary | null }>({
+    queryKey: [`/api/marketing/analytics/campaigns/${campaign?.id}`],
+    enabled: !!campaign,
+  });
+  const abTest = data?.abTest;
+  // Tant que le gagnant n'est pas choisi, on met en avant la variante en tête
+  const highlightedId = abTest?.winnerVariantId || abTest?.leadingVariantId;
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Test A/B - {campaign?.name}</DialogTitle>
+          <DialogDescription>
+            {abTest
+              ? `${abTest.testPercentage} % de l'audience testée pendant ${abTest.testDurationHours} h, gagnant au ${metricLabels[abTest.winnerMetric]}`
+              : "Résultats des variantes"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !abTest ? (
+          <p className="text-sm text-muted-foreground">Aucun résultat disponible.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <Badge variant="outline">{statusLabels[abTest.status]}</Badge>
+              {abTest.status === 'testing' && abTest.testEndsAt && (
+                <span>
+                  Choix du gagnant le {format(new Date(abTest.testEndsAt), "d MMM 'à' HH:mm", { locale: fr })}
+                </span>
+              )}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variante</TableHead>
+                  <TableHead className="text-right">Envoyés</TableHead>
+                  <TableHead className="text-right">Ouverture</TableHead>
+                  <TableHead className="text-right">Clic</TableHead>
+                  <TableHead className="text-right">Conversion</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {abTest.variants.map((variant) => (
+                  <TableRow key={variant.campaignId} className={cn(variant.campaignId === highlightedId && "bg-[#4CEFAD]/5")}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {variant.campaignId === highlightedId && <Trophy className="h-4 w-4 text-[#4CEFAD]" />}
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{variant.name}</p>
+                          <p className="text-xs text-muted-foreground truncate">{variant.emailSubject}</p>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{variant.sent}</TableCell>
+                    <TableCell className="text-right">{variant.openRate} %</TableCell>
+                    <TableCell className="text-right">{variant.clickRate} %</TableCell>
+                    <TableCell className="text-right">{variant.conversionRate} %</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {abTest.status === 'testing' && highlightedId && (
+              <p className="text-xs text-muted-foreground">
+                La variante en tête à la fin du test sera envoyée au reste de l'audience.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
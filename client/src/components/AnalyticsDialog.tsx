@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, TrendingUp, TrendingDown, AlertTriangle, CheckCircle, Info } from "lucide-react";
+import { applyDateRangeParams, type DateRange } from "@/components/DateRangeFilter";
 
 type MetricType = 'volume' | 'conversion' | 'timeslots' | 'duration';
 type TimeFilter = 'hour' | 'today' | 'two_days' | 'week' | undefined;
@@ -14,7 +15,7 @@ interface DeepInsight {
   details: string[];
   recommendation: string;
   severity: Severity;
-  metrics: Array<{ label: string; value: string }>;
+  metrics: Array<{ label: string; value: string; change?: number }>;
 }
 
 interface AnalyticsDialogProps {
@@ -22,6 +23,8 @@ interface AnalyticsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   timeFilter?: TimeFilter;
+  dateRange?: DateRange;
+  compare?: 'previous_period' | 'previous_year';
 }
 
 const metricTitles: Record<MetricType, string> = {
@@ -50,13 +53,15 @@ const severityConfig: Record<Severity, { icon: typeof TrendingUp; variant: 'defa
   }
 };
 
-export function AnalyticsDialog({ metric, open, onOpenChange, timeFilter }: AnalyticsDialogProps) {
+export function AnalyticsDialog({ metric, open, onOpenChange, timeFilter, dateRange, compare }: AnalyticsDialogProps) {
   const { data: insight, isLoading } = useQuery<DeepInsight>({
-    queryKey: ['/api/analytics', metric, timeFilter],
+    queryKey: ['/api/analytics', metric, timeFilter, dateRange, compare],
     queryFn: async () => {
       if (!metric) throw new Error('Metric is required');
       const params = new URLSearchParams();
-      if (timeFilter) params.set('timeFilter', timeFilter);
+      const hasDateRange = applyDateRangeParams(params, dateRange);
+      if (!hasDateRange && timeFilter) params.set('timeFilter', timeFilter);
+      if (compare && (hasDateRange || timeFilter)) params.set('compare', compare);
       const url = `/api/analytics/${metric}${params.toString() ? `?${params.toString()}` : ''}`;
       const response = await fetch(url, { credentials: 'include' });
       if (!response.ok) throw new Error('Failed to fetch analytics');
@@ -105,6 +110,11 @@ export function AnalyticsDialog({ metric, open, onOpenChange, timeFilter }: Anal
                     <div key={idx} className="space-y-1">
                       <p className="text-sm text-muted-foreground">{m.label}</p>
                       <p className="text-2xl font-semibold" data-testid={`metric-${idx}`}>{m.value}</p>
+                      {m.change !== undefined && (
+                        <p className={`text-xs font-medium ${m.change >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>
+                          {m.change >= 0 ? '+' : ''}{Math.round(m.change)}%
+                        </p>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { AlertCircle, Ban, Copy, KeyRound, Loader2, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  rateLimitPerMinute: number;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  requestCount: number;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiKeysResponse {
+  apiKeys: ApiKey[];
+  scopes: string[];
+}
+
+const SCOPE_LABELS: Record<string, string> = {
+  "read:calls": "Lire les appels",
+  "write:calls": "Créer des appels",
+  "read:reservations": "Lire les réservations",
+  "write:reservations": "Modifier les réservations",
+  "read:reviews": "Lire les avis",
+  "write:reviews": "Modifier les avis",
+  "read:contacts": "Lire les contacts",
+  "write:contacts": "Gérer les contacts",
+};
+
+const formatDate = (dateStr: string | null) =>
+  dateStr ? format(new Date(dateStr), "dd/MM/yyyy HH:mm", { locale: fr }) : "—";
+
+export function ApiKeysSection() {
+  const { toast } = useToast();
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [rateLimit, setRateLimit] = useState("60");
+  const [expiresAt, setExpiresAt] = useState("");
+  // La clé complète n'est renvoyée qu'une seule fois, à la création
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<ApiKeysResponse>({
+    queryKey: ["/api/account/api-keys"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/account/api-keys", {
+        name: name.trim(),
+        scopes,
+        rateLimitPerMinute: parseInt(rateLimit) || 60,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      });
+      return res.json() as Promise<ApiKey & { apiKey: string }>;
+    },
+    onSuccess: (created) => {
+      setCreatedKey(created.apiKey);
+      setCreateOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/account/api-keys"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/account/api-keys/${id}/revoke`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/account/api-keys"] });
+      toast({ title: "Clé révoquée", description: "Elle ne peut plus être utilisée." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setName("");
+    setScopes(data?.scopes.filter(s => s.startsWith("read:")) || []);
+    setRateLimit("60");
+    setExpiresAt("");
+    setCreateOpen(true);
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const copyCreatedKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast({ title: "Clé copiée" });
+  };
+
+  const getKeyStatus = (apiKey: ApiKey) => {
+    if (apiKey.revokedAt) return <Badge variant="outline" className="text-red-500 border-red-500/20">Révoquée</Badge>;
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) return <Badge variant="outline">Expirée</Badge>;
+    return <Badge variant="outline" className="text-green-600 border-green-600/20">Active</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            API publique
+          </CardTitle>
+          <CardDescription>
+            Clés nommées pour l'API REST <code className="bg-muted px-1 py-0.5 rounded">/api/v1</code>, chacune avec ses permissions
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate} data-testid="button-create-api-key">
+          <Plus className="mr-2 h-4 w-4" />
+          Nouvelle clé
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {createdKey && (
+          <div className="space-y-3 rounded-lg bg-destructive/10 border border-destructive/20 p-4">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-destructive">
+                Copiez cette clé maintenant : elle ne sera plus jamais affichée.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Input readOnly value={createdKey} className="font-mono text-sm bg-muted/50" data-testid="input-created-api-key" />
+              <Button variant="outline" onClick={copyCreatedKey} data-testid="button-copy-created-api-key">
+                <Copy className="mr-2 h-4 w-4" />
+                Copier
+              </Button>
+              <Button variant="ghost" onClick={() => setCreatedKey(null)} data-testid="button-dismiss-created-api-key">
+                Masquer
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !data?.apiKeys.length ? (
+          <p className="text-sm text-muted-foreground">Aucune clé API publique. Créez-en une pour accéder à vos données depuis vos outils.</p>
+        ) : (
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nom</TableHead>
+                  <TableHead>Permissions</TableHead>
+                  <TableHead>Dernière utilisation</TableHead>
+                  <TableHead>Expiration</TableHead>
+                  <TableHead>Statut</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.apiKeys.map((apiKey) => (
+                  <TableRow key={apiKey.id} data-testid={`row-api-key-${apiKey.id}`}>
+                    <TableCell>
+                      <div className="text-sm font-medium">{apiKey.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{apiKey.keyPrefix}…</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1 max-w-[260px]">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="secondary" className="text-[10px] font-mono">{scope}</Badge>
+                        ))}
+                      </div>
+                      <div className="text-[10px] text-muted-foreground mt-1">{apiKey.rateLimitPerMinute} req/min</div>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <div>{formatDate(apiKey.lastUsedAt)}</div>
+                      {apiKey.lastUsedIp && <div className="text-muted-foreground">{apiKey.lastUsedIp}</div>}
+                      <div className="text-muted-foreground">{apiKey.requestCount} requête(s)</div>
+                    </TableCell>
+                    <TableCell className="text-xs">{apiKey.expiresAt ? formatDate(apiKey.expiresAt) : "Jamais"}</TableCell>
+                    <TableCell>{getKeyStatus(apiKey)}</TableCell>
+                    <TableCell className="text-right">
+                      {!apiKey.revokedAt && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button size="sm" variant="ghost" data-testid={`button-revoke-api-key-${apiKey.id}`}>
+                              <Ban className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Révoquer « {apiKey.name} » ?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Les intégrations utilisant cette clé seront immédiatement refusées. Cette action est irréversible.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Annuler</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => revokeMutation.mutate(apiKey.id)}>
+                                Révoquer
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Nouvelle clé API</DialogTitle>
+            <DialogDescription>Accordez uniquement les permissions nécessaires à l'intégration.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Nom <span className="text-destructive">*</span></Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="CRM, Zapier, BI..." data-testid="input-api-key-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {data?.scopes.map((scope) => (
+                  <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      data-testid={`checkbox-scope-${scope}`}
+                    />
+                    <span>
+                      <span className="font-mono text-xs">{scope}</span>
+                      <span className="block text-xs text-muted-foreground">{SCOPE_LABELS[scope]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Requêtes / minute</Label>
+                <Input type="number" min={1} max={1000} value={rateLimit} onChange={(e) => setRateLimit(e.target.value)} data-testid="input-api-key-rate-limit" />
+              </div>
+              <div className="space-y-2">
+                <Label>Expiration</Label>
+                <Input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} data-testid="input-api-key-expires-at" />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Annuler</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+              data-testid="button-confirm-create-api-key"
+            >
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Créer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -28,7 +28,10 @@ import {
   Banknote,
   ChevronDown,
   Plug,
-  CalendarClock
+  CalendarClock,
+  Webhook,
+  ClipboardCheck,
+  Tags
 } from "lucide-react";
 import {
   Sidebar,
@@ -59,6 +62,8 @@ const piloterItems = [
     icon: Phone,
     children: [
       { title: "Appels", url: "/activity", icon: Phone },
+      { title: "Qualité", url: "/activity/quality", icon: ClipboardCheck },
+      { title: "Résultats", url: "/activity/outcomes", icon: Tags },
       { title: "Liste d'attente", url: "/waitlist", icon: Clock },
     ],
   },
@@ -117,6 +122,7 @@ const systemeItems = [
     children: [
       { title: "Vue d'ensemble", url: "/integrations", icon: Database },
       { title: "Clients sync", url: "/integrations/customers", icon: Users },
+      { title: "Webhooks sortants", url: "/integrations/outbound-webhooks", icon: Webhook },
     ],
   },
   {
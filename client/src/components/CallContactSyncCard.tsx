@@ -0,0 +1,89 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { PhoneIncoming } from "lucide-react";
+import type { MarketingConfig } from "@shared/schema";
+
+type CallContactSyncSettings = Pick<MarketingConfig, 'autoCreateContactsFromCalls' | 'callContactsOptInEmail' | 'callContactsOptInSms'>;
+
+export function CallContactSyncCard() {
+  const { toast } = useToast();
+
+  const { data: config } = useQuery<MarketingConfig>({
+    queryKey: ['/api/marketing/config'],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: Partial<CallContactSyncSettings>) => {
+      const response = await apiRequest("PATCH", "/api/marketing/config", updates);
+      return response.json();
+    },
+    onSuccess: (updated: MarketingConfig) => {
+      queryClient.setQueryData(['/api/marketing/config'], updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const enabled = config?.autoCreateContactsFromCalls ?? false;
+
+  return (
+    <Card className="bg-gradient-to-br from-[#1A1C1F] to-[#151618] shadow-[0_0_12px_rgba(0,0,0,0.25)] border-white/[0.06]" data-testid="card-call-contact-sync">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 rounded-xl bg-[#4CEFAD]/10">
+              <PhoneIncoming className="h-5 w-5 text-[#4CEFAD]" />
+            </div>
+            <div>
+              <CardTitle className="text-base font-semibold">Contacts issus des appels</CardTitle>
+              <CardDescription className="text-xs">
+                Ajoute ou met à jour un contact à chaque appel reçu (doublons fusionnés par téléphone et email)
+              </CardDescription>
+            </div>
+          </div>
+          <Switch
+            checked={enabled}
+            disabled={!config || updateMutation.isPending}
+            onCheckedChange={(checked) => updateMutation.mutate({ autoCreateContactsFromCalls: checked })}
+            data-testid="switch-auto-create-contacts"
+          />
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="pt-0 space-y-3">
+          {/* Le consentement n'est accordé que si l'appel transmet l'accord explicite de l'appelant */}
+          <p className="text-xs text-muted-foreground">
+            Accordé uniquement quand votre agent a obtenu l'accord explicite de l'appelant. Il est tracé dans l'historique RGPD du contact et ne remplace jamais une désinscription.
+          </p>
+          <div className="flex flex-col md:flex-row gap-3 md:gap-6">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="call-contacts-opt-in-email"
+                checked={config?.callContactsOptInEmail ?? false}
+                disabled={updateMutation.isPending}
+                onCheckedChange={(checked) => updateMutation.mutate({ callContactsOptInEmail: checked })}
+                data-testid="switch-call-contacts-opt-in-email"
+              />
+              <Label htmlFor="call-contacts-opt-in-email" className="text-sm">Opt-in email</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="call-contacts-opt-in-sms"
+                checked={config?.callContactsOptInSms ?? false}
+                disabled={updateMutation.isPending}
+                onCheckedChange={(checked) => updateMutation.mutate({ callContactsOptInSms: checked })}
+                data-testid="switch-call-contacts-opt-in-sms"
+              />
+              <Label htmlFor="call-contacts-opt-in-sms" className="text-sm">Opt-in SMS</Label>
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { CalendarClock, Download, Loader2, Trash2 } from "lucide-react";
+import {
+  CALL_EXPORT_COLUMNS,
+  DEFAULT_CALL_EXPORT_COLUMNS,
+  type CallExportFilters,
+  type CallExportFormat,
+  type CallExportSchedule,
+  type PublicUser,
+} from "@shared/schema";
+
+const weekDays = ["Dimanche", "Lundi", "Mardi", "Mercredi", "Jeudi", "Vendredi", "Samedi"];
+
+interface CallExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Filtres de la liste affichée (période, statut...) repris tels quels dans l'export
+  params: URLSearchParams;
+  filters?: CallExportFilters;
+}
+
+export function CallExportDialog({ open, onOpenChange, params, filters = {} }: CallExportDialogProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<CallExportFormat>("csv");
+  const [columns, setColumns] = useState<string[]>(DEFAULT_CALL_EXPORT_COLUMNS);
+  const [scheduleName, setScheduleName] = useState("Export hebdomadaire");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [dayOfWeek, setDayOfWeek] = useState("1");
+  const [hour, setHour] = useState("8");
+
+  const { data: user } = useQuery<PublicUser>({
+    queryKey: ['/api/auth/me'],
+  });
+
+  const { data: schedules = [] } = useQuery<CallExportSchedule[]>({
+    queryKey: ['/api/call-export-schedules'],
+    enabled: open,
+  });
+
+  const toggleColumn = (column: string, checked: boolean) => {
+    setColumns(prev => checked ? [...prev, column] : prev.filter(c => c !== column));
+  };
+
+  // Le fichier est envoyé en pièce jointe : le navigateur le télécharge sans quitter la page
+  const handleDownload = () => {
+    const exportParams = new URLSearchParams(params);
+    exportParams.set('format', format);
+    // Ordre de la table pour des fichiers stables d'un export à l'autre
+    exportParams.set('columns', CALL_EXPORT_COLUMNS.filter(c => columns.includes(c)).join(','));
+    window.location.href = `/api/calls/export?${exportParams}`;
+  };
+
+  const createScheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/call-export-schedules", {
+        name: scheduleName.trim(),
+        format,
+        columns: CALL_EXPORT_COLUMNS.filter(c => columns.includes(c)),
+        filters,
+        recipientEmail: (recipientEmail || user?.email || "").trim(),
+        dayOfWeek: Number(dayOfWeek),
+        hour: Number(hour),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/call-export-schedules'] });
+      toast({ title: "Export planifié", description: "Vous le recevrez chaque semaine par email." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const toggleScheduleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/call-export-schedules/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/call-export-schedules'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/call-export-schedules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/call-export-schedules'] });
+      toast({ title: "Export planifié supprimé" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid="dialog-call-export">
+        <DialogHeader>
+          <DialogTitle>Exporter les appels</DialogTitle>
+          <DialogDescription>
+            L'export reprend les filtres de la liste. Choisissez le format et les colonnes à inclure.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Label className="w-20">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as CallExportFormat)}>
+              <SelectTrigger className="w-[160px]" data-testid="select-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Colonnes ({columns.length})</Label>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setColumns([...CALL_EXPORT_COLUMNS])} data-testid="button-export-all-columns">
+                  Tout
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setColumns(DEFAULT_CALL_EXPORT_COLUMNS)} data-testid="button-export-default-columns">
+                  Par défaut
+                </Button>
+              </div>
+            </div>
+            <ScrollArea className="h-48 rounded-md border p-3">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {CALL_EXPORT_COLUMNS.map(column => (
+                  <label key={column} className="flex items-center gap-2 text-xs cursor-pointer">
+                    <Checkbox
+                      checked={columns.includes(column)}
+                      onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                      data-testid={`checkbox-export-column-${column}`}
+                    />
+                    <span className="font-mono truncate">{column}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <CalendarClock className="w-4 h-4 text-muted-foreground" />
+              <p className="text-sm font-medium">M'envoyer cet export chaque semaine par email</p>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Chaque envoi couvre les 7 derniers jours, avec le format, les colonnes et les filtres de statut choisis ici.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <Input
+                value={scheduleName}
+                onChange={(e) => setScheduleName(e.target.value)}
+                placeholder="Nom de l'export"
+                data-testid="input-export-schedule-name"
+              />
+              <Input
+                type="email"
+                value={recipientEmail}
+                onChange={(e) => setRecipientEmail(e.target.value)}
+                placeholder={user?.email || "Email du destinataire"}
+                data-testid="input-export-schedule-email"
+              />
+              <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+                <SelectTrigger data-testid="select-export-schedule-day">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weekDays.map((day, idx) => (
+                    <SelectItem key={day} value={String(idx)}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={hour} onValueChange={setHour}>
+                <SelectTrigger data-testid="select-export-schedule-hour">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, h) => (
+                    <SelectItem key={h} value={String(h)}>{`${String(h).padStart(2, '0')}:00`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => createScheduleMutation.mutate()}
+              disabled={createScheduleMutation.isPending || columns.length === 0 || !scheduleName.trim()}
+              data-testid="button-create-export-schedule"
+            >
+              {createScheduleMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Planifier l'envoi hebdomadaire
+            </Button>
+
+            {schedules.length > 0 && (
+              <div className="space-y-2">
+                {schedules.map(schedule => (
+                  <div key={schedule.id} className="flex items-center justify-between gap-3 rounded-md border p-3" data-testid={`export-schedule-${schedule.id}`}>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium truncate">{schedule.name}</p>
+                        <Badge variant="outline" className="text-[10px] uppercase">{schedule.format}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {weekDays[schedule.dayOfWeek]} à {String(schedule.hour).padStart(2, '0')}:00 → {schedule.recipientEmail}
+                      </p>
+                      {schedule.lastError && (
+                        <p className="text-xs text-destructive truncate">Dernier envoi en échec : {schedule.lastError}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={schedule.isActive}
+                        onCheckedChange={(isActive) => toggleScheduleMutation.mutate({ id: schedule.id, isActive })}
+                        data-testid={`switch-export-schedule-${schedule.id}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                        data-testid={`button-delete-export-schedule-${schedule.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleDownload} disabled={columns.length === 0} data-testid="button-download-export">
+            <Download className="w-4 h-4 mr-2" />
+            Télécharger
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,352 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2, Trash2, MessageSquarePlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  CALL_QA_ANNOTATION_CATEGORIES,
+  CALL_QA_MAX_CRITERION_SCORE,
+  type Call,
+  type CallQaAnnotation,
+  type CallQaAnnotationCategory,
+  type CallQaCriterion,
+  type CallQaQueueReason,
+  type CallQaReview,
+} from "@shared/schema";
+
+export const qaReasonLabels: Record<CallQaQueueReason, string> = {
+  low_confidence: "Confiance faible",
+  failed: "Échec",
+  difficult: "Échange difficile",
+  interrupted: "Interrompu",
+};
+
+export const qaCategoryConfig: Record<CallQaAnnotationCategory, { label: string; className: string }> = {
+  error: { label: "Erreur", className: "bg-red-500/20 border-red-500/40" },
+  missed_opportunity: { label: "Opportunité manquée", className: "bg-orange-500/20 border-orange-500/40" },
+  prompt_fix: { label: "Prompt à corriger", className: "bg-blue-500/20 border-blue-500/40" },
+  good_practice: { label: "Bonne pratique", className: "bg-[#4CEFAD]/20 border-[#4CEFAD]/40" },
+};
+
+interface CallQaDetail {
+  call: Call;
+  reasons: CallQaQueueReason[];
+  criteria: CallQaCriterion[];
+  review: CallQaReview | null;
+  annotations: CallQaAnnotation[];
+}
+
+interface TranscriptSelection {
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * Découpe la transcription aux bornes des annotations pour surligner les passages (y compris chevauchants)
+ */
+function buildSegments(transcript: string, annotations: CallQaAnnotation[]) {
+  const bounds = new Set<number>([0, transcript.length]);
+  annotations.forEach(a => {
+    bounds.add(Math.min(a.startOffset, transcript.length));
+    bounds.add(Math.min(a.endOffset, transcript.length));
+  });
+  const sorted = Array.from(bounds).sort((a, b) => a - b);
+  return sorted.slice(0, -1).map((start, idx) => {
+    const end = sorted[idx + 1];
+    return {
+      start,
+      text: transcript.slice(start, end),
+      annotation: annotations.find(a => a.startOffset <= start && a.endOffset >= end),
+    };
+  });
+}
+
+interface CallQaReviewDialogProps {
+  callId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CallQaReviewDialog({ callId, onOpenChange }: CallQaReviewDialogProps) {
+  const { toast } = useToast();
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [notes, setNotes] = useState("");
+  const [selection, setSelection] = useState<TranscriptSelection | null>(null);
+  const [category, setCategory] = useState<CallQaAnnotationCategory>("error");
+  const [comment, setComment] = useState("");
+
+  const { data, isLoading } = useQuery<CallQaDetail>({
+    queryKey: [`/api/call-qa/calls/${callId}`],
+    enabled: !!callId,
+  });
+
+  // Pré-remplit la grille avec la revue existante
+  useEffect(() => {
+    setScores(data?.review?.scores || {});
+    setNotes(data?.review?.notes || "");
+    setSelection(null);
+    setComment("");
+  }, [data?.call.id, data?.review?.id]);
+
+  // La file, les tendances et le détail de l'appel dépendent tous des revues et annotations
+  const invalidate = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/call-qa/') });
+  };
+
+  const saveReviewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/call-qa/calls/${callId}/review`, { scores, notes: notes.trim() || null });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Évaluation enregistrée" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addAnnotationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/call-qa/calls/${callId}/annotations`, { ...selection, category, comment: comment.trim() });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setSelection(null);
+      setComment("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteAnnotationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/call-qa/annotations/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Convertit la sélection du navigateur en positions dans la transcription brute
+  const handleTranscriptSelection = () => {
+    const container = transcriptRef.current;
+    const browserSelection = window.getSelection();
+    if (!container || !browserSelection || browserSelection.isCollapsed || browserSelection.rangeCount === 0) return;
+    const range = browserSelection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+    const before = document.createRange();
+    before.selectNodeContents(container);
+    before.setEnd(range.startContainer, range.startOffset);
+    const startOffset = before.toString().length;
+    const endOffset = startOffset + range.toString().length;
+    if (endOffset > startOffset) {
+      setSelection({ startOffset, endOffset });
+    }
+  };
+
+  const transcript = data?.call.transcript || "";
+  const criteria = data?.criteria || [];
+  const allScored = criteria.length > 0 && criteria.every(c => scores[c.key] !== undefined);
+
+  return (
+    <Dialog open={!!callId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-call-qa-review">
+        <DialogHeader>
+          <DialogTitle>Revue qualité de l'appel</DialogTitle>
+          <DialogDescription>
+            {data
+              ? `${data.call.phoneNumber} · ${format(new Date(data.call.startTime), "dd MMM yyyy à HH:mm", { locale: fr })}`
+              : "Chargement..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-[#C8B88A]" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            {/* Transcription annotable */}
+            <div className="lg:col-span-3 space-y-3">
+              <div className="flex flex-wrap gap-1.5">
+                {data.reasons.map(reason => (
+                  <Badge key={reason} variant="outline" className="text-[10px] text-orange-400 border-orange-400/30">
+                    {qaReasonLabels[reason]}
+                  </Badge>
+                ))}
+                {data.call.bookingConfidence !== null && (
+                  <Badge variant="outline" className="text-[10px]">Confiance {data.call.bookingConfidence}%</Badge>
+                )}
+                {data.call.disconnectionReason && (
+                  <Badge variant="outline" className="text-[10px]">{data.call.disconnectionReason}</Badge>
+                )}
+              </div>
+
+              <p className="text-xs text-muted-foreground">Sélectionnez un passage pour l'annoter.</p>
+              {transcript ? (
+                <div
+                  ref={transcriptRef}
+                  onMouseUp={handleTranscriptSelection}
+                  className="max-h-[45vh] overflow-y-auto rounded-md border border-white/[0.06] p-3 text-sm whitespace-pre-wrap leading-relaxed"
+                  data-testid="qa-transcript"
+                >
+                  {buildSegments(transcript, data.annotations).map(segment => segment.annotation ? (
+                    <mark
+                      key={segment.start}
+                      className={cn("rounded-sm border-b text-foreground", qaCategoryConfig[segment.annotation.category as CallQaAnnotationCategory]?.className)}
+                      title={segment.annotation.comment}
+                    >
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <span key={segment.start}>{segment.text}</span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Aucune transcription pour cet appel.</p>
+              )}
+
+              {selection && (
+                <div className="rounded-md border border-[#C8B88A]/20 p-3 space-y-2" data-testid="qa-annotation-form">
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    « {transcript.slice(selection.startOffset, selection.endOffset)} »
+                  </p>
+                  <Select value={category} onValueChange={(value) => setCategory(value as CallQaAnnotationCategory)}>
+                    <SelectTrigger className="h-8" data-testid="select-qa-annotation-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CALL_QA_ANNOTATION_CATEGORIES.map(c => (
+                        <SelectItem key={c} value={c}>{qaCategoryConfig[c].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Commentaire"
+                    rows={2}
+                    data-testid="input-qa-annotation-comment"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setSelection(null)}>Annuler</Button>
+                    <Button
+                      size="sm"
+                      onClick={() => addAnnotationMutation.mutate()}
+                      disabled={!comment.trim() || addAnnotationMutation.isPending}
+                      data-testid="button-add-qa-annotation"
+                    >
+                      <MessageSquarePlus className="w-4 h-4 mr-1.5" />
+                      Annoter
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {data.annotations.length > 0 && (
+                <div className="space-y-2">
+                  {data.annotations.map(annotation => (
+                    <div key={annotation.id} className="flex items-start gap-2 text-xs" data-testid={`qa-annotation-${annotation.id}`}>
+                      <Badge variant="outline" className={cn("text-[10px] shrink-0", qaCategoryConfig[annotation.category as CallQaAnnotationCategory]?.className)}>
+                        {qaCategoryConfig[annotation.category as CallQaAnnotationCategory]?.label || annotation.category}
+                      </Badge>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-muted-foreground truncate">« {annotation.quote} »</p>
+                        <p>{annotation.comment}</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => deleteAnnotationMutation.mutate(annotation.id)}
+                        data-testid={`button-delete-qa-annotation-${annotation.id}`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Grille d'évaluation */}
+            <div className="lg:col-span-2 space-y-4">
+              {criteria.map(criterion => (
+                <div key={criterion.key} className="space-y-1.5">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm">{criterion.label}</Label>
+                    <span className="text-[10px] text-muted-foreground">×{criterion.weight}</span>
+                  </div>
+                  {criterion.description && (
+                    <p className="text-xs text-muted-foreground">{criterion.description}</p>
+                  )}
+                  <div className="flex gap-1">
+                    {Array.from({ length: CALL_QA_MAX_CRITERION_SCORE + 1 }, (_, score) => (
+                      <Button
+                        key={score}
+                        variant={scores[criterion.key] === score ? "default" : "outline"}
+                        size="sm"
+                        className="h-7 w-8 px-0"
+                        onClick={() => setScores(prev => ({ ...prev, [criterion.key]: score }))}
+                        data-testid={`button-qa-score-${criterion.key}-${score}`}
+                      >
+                        {score}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <Separator />
+
+              <div className="space-y-1.5">
+                <Label className="text-sm">Notes</Label>
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Ce qu'il faut corriger dans le prompt..."
+                  rows={4}
+                  data-testid="input-qa-notes"
+                />
+              </div>
+
+              {data.review && (
+                <p className="text-xs text-muted-foreground">
+                  Note actuelle : <span className="font-semibold text-foreground">{data.review.overallScore}/100</span>
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveReviewMutation.mutate()}
+            disabled={!allScored || saveReviewMutation.isPending}
+            data-testid="button-save-qa-review"
+          >
+            {saveReviewMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Enregistrer l'évaluation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { TranscriptTurn } from "@shared/schema";
+import { TRANSCRIPT_SPEAKER_LABELS, parseTranscriptText } from "@shared/transcript";
+
+const formatOffset = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+interface CallTranscriptProps {
+  transcript?: string | null;
+  turns?: TranscriptTurn[] | null;
+  recordingUrl?: string | null;
+}
+
+export function CallTranscript({ transcript, turns, recordingUrl }: CallTranscriptProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const turnRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+
+  // Les anciens appels n'ont que du texte : on retrouve les tours de parole à partir des préfixes "Client:" / "IA:"
+  const displayedTurns = turns && turns.length > 0 ? turns : parseTranscriptText(transcript);
+  const isTimed = displayedTurns.some(turn => turn.start !== null);
+
+  // Tour en cours de lecture : le dernier commencé avant la position de l'audio
+  let activeIndex = -1;
+  if (currentTime !== null) {
+    displayedTurns.forEach((turn, idx) => {
+      if (turn.start !== null && turn.start <= currentTime) activeIndex = idx;
+    });
+  }
+
+  useEffect(() => {
+    if (activeIndex >= 0) {
+      turnRefs.current[activeIndex]?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    }
+  }, [activeIndex]);
+
+  const seekTo = (turn: TranscriptTurn) => {
+    const audio = audioRef.current;
+    if (!audio || turn.start === null) return;
+    audio.currentTime = turn.start;
+    audio.play().catch(() => {});
+  };
+
+  return (
+    <div className="space-y-3" data-testid="call-transcript">
+      {recordingUrl && (
+        <audio
+          ref={audioRef}
+          src={recordingUrl}
+          controls
+          preload="metadata"
+          className="w-full h-9"
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          data-testid="audio-call-recording"
+        />
+      )}
+
+      {displayedTurns.length === 0 ? (
+        transcript && (
+          <div className="text-[13px] text-[#9A9A9A] p-4 rounded-lg border border-white/[0.04] max-h-48 overflow-y-auto whitespace-pre-wrap leading-relaxed">
+            {transcript}
+          </div>
+        )
+      ) : (
+        <div className="p-3 rounded-lg border border-white/[0.04] max-h-72 overflow-y-auto space-y-2">
+          {displayedTurns.map((turn, idx) => {
+            const isAgent = turn.speaker === 'agent';
+            const canSeek = !!recordingUrl && turn.start !== null;
+            return (
+              <div
+                key={idx}
+                ref={(el) => { turnRefs.current[idx] = el; }}
+                className={cn("flex", isAgent ? "justify-start" : "justify-end")}
+                data-testid={`transcript-turn-${idx}`}
+              >
+                <div
+                  onClick={() => canSeek && seekTo(turn)}
+                  className={cn(
+                    "max-w-[85%] rounded-lg px-3 py-2 text-[13px] leading-relaxed border transition-colors",
+                    isAgent
+                      ? "bg-[#C8B88A]/[0.06] border-[#C8B88A]/10 text-[#F5F5F5]"
+                      : "bg-white/[0.03] border-white/[0.06] text-[#D5D5D5]",
+                    canSeek && "cursor-pointer hover:border-[#C8B88A]/30",
+                    idx === activeIndex && "border-[#C8B88A]/60 ring-1 ring-[#C8B88A]/30",
+                  )}
+                >
+                  <div className="flex items-center gap-2 mb-0.5 text-[10px] uppercase tracking-wider text-[#9A9A9A]">
+                    <span>{TRANSCRIPT_SPEAKER_LABELS[turn.speaker]}</span>
+                    {isTimed && turn.start !== null && <span className="font-mono normal-case">{formatOffset(turn.start)}</span>}
+                  </div>
+                  <p className="whitespace-pre-wrap">{turn.text}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
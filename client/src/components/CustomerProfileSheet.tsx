@@ -0,0 +1,165 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  Phone,
+  CalendarCheck,
+  UserX,
+  MessageSquare,
+  Star,
+  ListOrdered,
+  Megaphone,
+  Loader2,
+  Mail,
+  Euro,
+  type LucideIcon,
+} from "lucide-react";
+import type { CustomerProfile, CustomerTimelineEventType } from "@shared/schema";
+
+const eventConfig: Record<CustomerTimelineEventType, { icon: LucideIcon; color: string; label: string }> = {
+  call: { icon: Phone, color: "text-[#C8B88A]", label: "Appel" },
+  reservation: { icon: CalendarCheck, color: "text-[#4CEFAD]", label: "Réservation" },
+  no_show: { icon: UserX, color: "text-red-400", label: "No-show" },
+  review_request: { icon: MessageSquare, color: "text-blue-400", label: "Demande d'avis" },
+  review: { icon: Star, color: "text-yellow-400", label: "Avis" },
+  waitlist: { icon: ListOrdered, color: "text-purple-400", label: "Liste d'attente" },
+  marketing_send: { icon: Megaphone, color: "text-orange-400", label: "Marketing" },
+};
+
+const formatEuros = (value: number) =>
+  value.toLocaleString("fr-FR", { style: "currency", currency: "EUR", maximumFractionDigits: 0 });
+
+interface CustomerProfileSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  phone?: string | null;
+  email?: string | null;
+}
+
+export function CustomerProfileSheet({ open, onOpenChange, phone, email }: CustomerProfileSheetProps) {
+  const params = new URLSearchParams();
+  if (phone) params.set("phone", phone);
+  if (email) params.set("email", email);
+
+  const { data: profile, isLoading, error } = useQuery<CustomerProfile>({
+    queryKey: [`/api/customers/profile?${params}`],
+    enabled: open && (!!phone || !!email),
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto" data-testid="sheet-customer-profile">
+        <SheetHeader>
+          <SheetTitle>{profile?.identity.name || phone || email || "Client"}</SheetTitle>
+          <SheetDescription>
+            Historique du client sur l'ensemble des modules (appels, réservations, avis, marketing).
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-[#C8B88A]" />
+          </div>
+        ) : error || !profile ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            Impossible de charger le profil de ce client.
+          </p>
+        ) : (
+          <div className="space-y-5 mt-4">
+            {/* Coordonnées */}
+            <div className="space-y-1 text-sm">
+              {profile.identity.phone && (
+                <p className="flex items-center gap-2" data-testid="text-customer-phone">
+                  <Phone className="w-3.5 h-3.5 text-muted-foreground" />
+                  {profile.identity.phone}
+                </p>
+              )}
+              {profile.identity.email && (
+                <p className="flex items-center gap-2" data-testid="text-customer-email">
+                  <Mail className="w-3.5 h-3.5 text-muted-foreground" />
+                  {profile.identity.email}
+                </p>
+              )}
+              {profile.stats.firstSeenAt && (
+                <p className="text-xs text-muted-foreground">
+                  Client depuis le {format(new Date(profile.stats.firstSeenAt), "d MMMM yyyy", { locale: fr })}
+                </p>
+              )}
+            </div>
+
+            {/* Valeur client estimée */}
+            <div className="rounded-lg border border-[#C8B88A]/20 bg-[#C8B88A]/5 p-4" data-testid="card-customer-ltv">
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">Valeur client estimée</p>
+                <Euro className="w-4 h-4 text-[#C8B88A]" />
+              </div>
+              <p className="text-2xl font-semibold text-[#C8B88A] mt-1">{formatEuros(profile.lifetimeValue.estimated)}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {profile.lifetimeValue.visits} visite{profile.lifetimeValue.visits > 1 ? "s" : ""} × {formatEuros(profile.lifetimeValue.averageTicket)}
+                {profile.lifetimeValue.recoveredNoShows > 0 && ` + ${formatEuros(profile.lifetimeValue.recoveredNoShows)} de no-shows récupérés`}
+                {profile.lifetimeValue.marketingConversions > 0 && ` + ${formatEuros(profile.lifetimeValue.marketingConversions)} de conversions marketing`}
+              </p>
+            </div>
+
+            {/* Compteurs */}
+            <div className="grid grid-cols-3 gap-2 text-center">
+              {[
+                { label: "Appels", value: profile.stats.calls },
+                { label: "Réservations", value: profile.stats.reservations },
+                { label: "No-shows", value: profile.stats.noShows },
+                { label: "Avis", value: profile.stats.averageRating !== null ? `${profile.stats.reviews} (${profile.stats.averageRating}★)` : profile.stats.reviews },
+                { label: "Liste d'attente", value: profile.stats.waitlistEntries },
+                { label: "Campagnes", value: profile.stats.marketingSends },
+              ].map(stat => (
+                <div key={stat.label} className="rounded-md border border-white/[0.06] p-2">
+                  <p className="text-base font-semibold">{stat.value}</p>
+                  <p className="text-[10px] text-muted-foreground">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            {/* Chronologie, du plus récent au plus ancien */}
+            <div className="space-y-3" data-testid="list-customer-timeline">
+              <p className="text-sm font-medium">Chronologie</p>
+              {profile.timeline.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Aucune interaction enregistrée.</p>
+              ) : (
+                profile.timeline.map(event => {
+                  const config = eventConfig[event.type];
+                  const EventIcon = config.icon;
+                  return (
+                    <div key={`${event.type}-${event.id}`} className="flex gap-3" data-testid={`timeline-event-${event.id}`}>
+                      <div className="p-1.5 h-fit rounded-md bg-white/[0.04]">
+                        <EventIcon className={`w-3.5 h-3.5 ${config.color}`} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm font-medium truncate">{event.title}</p>
+                          {event.status && (
+                            <Badge variant="outline" className="text-[10px]">{event.status}</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(event.date), "dd MMM yyyy à HH:mm", { locale: fr })}
+                          {event.amount ? ` · ${formatEuros(event.amount)}` : ""}
+                        </p>
+                        {event.description && (
+                          <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{event.description}</p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,84 @@
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import type { DateRange } from "react-day-picker";
+import { CalendarRange, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+export type { DateRange };
+
+export type ComparisonMode = 'none' | 'previous_period' | 'previous_year';
+
+export const comparisonOptions: { value: ComparisonMode; label: string }[] = [
+  { value: "none", label: "Sans comparaison" },
+  { value: "previous_period", label: "Période précédente" },
+  { value: "previous_year", label: "Année précédente" },
+];
+
+/**
+ * Ajoute startDate / endDate (AAAA-MM-JJ, interprétées dans le fuseau de l'établissement)
+ * Retourne false si la plage est incomplète pour que l'appelant retombe sur son filtre prédéfini
+ */
+export function applyDateRangeParams(params: URLSearchParams, range?: DateRange): boolean {
+  if (!range?.from) return false;
+  params.set('startDate', format(range.from, 'yyyy-MM-dd'));
+  params.set('endDate', format(range.to || range.from, 'yyyy-MM-dd'));
+  return true;
+}
+
+interface DateRangeFilterProps {
+  value?: DateRange;
+  onChange: (range: DateRange | undefined) => void;
+  className?: string;
+  "data-testid"?: string;
+}
+
+export function DateRangeFilter({ value, onChange, className, "data-testid": testId }: DateRangeFilterProps) {
+  const label = value?.from
+    ? value.to && value.to.getTime() !== value.from.getTime()
+      ? `${format(value.from, 'd MMM yyyy', { locale: fr })} – ${format(value.to, 'd MMM yyyy', { locale: fr })}`
+      : format(value.from, 'd MMM yyyy', { locale: fr })
+    : "Dates personnalisées";
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn("h-8 md:h-9 justify-start gap-2 text-xs md:text-[13px] font-normal", !value?.from && "text-muted-foreground")}
+            data-testid={testId}
+          >
+            <CalendarRange className="w-3.5 h-3.5" />
+            {label}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            locale={fr}
+            numberOfMonths={2}
+            defaultMonth={value?.from}
+            selected={value}
+            onSelect={onChange}
+            disabled={{ after: new Date() }}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {value?.from && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onChange(undefined)}
+          data-testid={testId ? `${testId}-clear` : undefined}
+        >
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Loader2, Send, Check } from 'lucide-react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { GuaranteeDisputeEvidence, GuaranteeDisputeStatus } from '@shared/schema';
+
+interface DisputeEvidenceResponse {
+  evidence: GuaranteeDisputeEvidence;
+  disputeStatus: GuaranteeDisputeStatus | null;
+  disputeReason: string | null;
+  evidenceDueBy: string | null;
+  submittedAt: string | null;
+  canSubmit: boolean;
+}
+
+// Champs du dossier dans l'ordre de lecture, avec leur libellé
+const evidenceFields: { key: keyof GuaranteeDisputeEvidence; label: string; rows: number }[] = [
+  { key: 'customer_name', label: 'Client', rows: 1 },
+  { key: 'customer_email_address', label: 'Email du client', rows: 1 },
+  { key: 'service_date', label: 'Date de la réservation', rows: 1 },
+  { key: 'product_description', label: 'Réservation et conditions de garantie', rows: 4 },
+  { key: 'cancellation_policy_disclosure', label: "Présentation de la politique d'annulation", rows: 3 },
+  { key: 'cancellation_rebuttal', label: 'Réponse au motif du litige', rows: 3 },
+  { key: 'uncategorized_text', label: 'Chronologie (carte, relances, no-show)', rows: 7 },
+];
+
+interface GuaranteeDisputeDialogProps {
+  chargeId: string | null;
+  onClose: () => void;
+}
+
+export function GuaranteeDisputeDialog({ chargeId, onClose }: GuaranteeDisputeDialogProps) {
+  const { toast } = useToast();
+  const [evidence, setEvidence] = useState<GuaranteeDisputeEvidence>({});
+
+  const { data, isLoading } = useQuery<DisputeEvidenceResponse>({
+    queryKey: ['/api/guarantee/disputes', chargeId, 'evidence'],
+    queryFn: async () => {
+      const response = await fetch(`/api/guarantee/disputes/${chargeId}/evidence`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Dossier indisponible');
+      return response.json();
+    },
+    enabled: !!chargeId,
+  });
+
+  useEffect(() => {
+    if (data) setEvidence(data.evidence);
+  }, [data]);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/guarantee/disputes/${chargeId}/evidence`, { evidence });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (!result.success) {
+        toast({
+          title: "Envoi refusé par Stripe",
+          description: result.error,
+          variant: "destructive",
+        });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/guarantee/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/guarantee/disputes', chargeId, 'evidence'] });
+      toast({
+        title: "Dossier envoyé",
+        description: "La banque du client va examiner vos preuves.",
+      });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Erreur",
+        description: "Impossible d'envoyer le dossier de preuves.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const readOnly = !data?.canSubmit;
+
+  return (
+    <Dialog open={!!chargeId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Dossier de preuves</DialogTitle>
+          <DialogDescription>
+            {data?.submittedAt
+              ? `Envoyé le ${format(new Date(data.submittedAt), 'dd/MM/yyyy à HH:mm', { locale: fr })}.`
+              : data?.evidenceDueBy
+              ? `Préparé automatiquement. À envoyer avant le ${format(new Date(data.evidenceDueBy), 'dd/MM/yyyy', { locale: fr })}.`
+              : 'Préparé automatiquement à partir de la réservation.'}
+            {data?.disputeReason && ` Motif : ${data.disputeReason}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-[#C8B88A]" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {evidenceFields.map(({ key, label, rows }) => (
+              <div key={key} className="space-y-1.5">
+                <Label htmlFor={`evidence-${key}`}>{label}</Label>
+                <Textarea
+                  id={`evidence-${key}`}
+                  rows={rows}
+                  value={evidence[key] || ''}
+                  readOnly={readOnly}
+                  onChange={(e) => setEvidence({ ...evidence, [key]: e.target.value || undefined })}
+                  data-testid={`textarea-evidence-${key}`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Fermer
+          </Button>
+          {data?.canSubmit && (
+            <Button
+              onClick={() => submitMutation.mutate()}
+              disabled={submitMutation.isPending}
+              className="bg-[#C8B88A] text-black hover:bg-[#C8B88A]/90"
+              data-testid="button-submit-evidence"
+            >
+              {submitMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 mr-2" />
+              )}
+              Envoyer à Stripe
+            </Button>
+          )}
+          {data?.submittedAt && (
+            <Button disabled variant="outline">
+              <Check className="h-4 w-4 mr-2" />
+              Envoyé
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState } from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  MAX_GUARANTEE_RULES,
+  type GuaranteeRule,
+  type GuaranteeRuleCondition,
+  type GuaranteeRuleConditionType,
+} from '@shared/schema';
+
+const MAX_CONDITIONS = 10;
+
+const conditionLabels: Record<GuaranteeRuleConditionType, string> = {
+  day_of_week: 'Jour de la semaine',
+  time_range: 'Plage horaire',
+  party_size: 'Nombre de personnes',
+  special_date: 'Dates spéciales',
+  service_type: 'Type de prestation',
+  customer: 'Client',
+};
+
+// Lundi en premier, valeurs JavaScript (0 = dimanche)
+const weekDays = [
+  { value: 1, label: 'L' },
+  { value: 2, label: 'M' },
+  { value: 3, label: 'M' },
+  { value: 4, label: 'J' },
+  { value: 5, label: 'V' },
+  { value: 6, label: 'S' },
+  { value: 0, label: 'D' },
+];
+
+// Dates fixes courantes ; les fêtes mobiles (Pâques, fête des mères) se saisissent en AAAA-MM-JJ
+const specialDatePresets: { label: string; dates: string[] }[] = [
+  { label: 'Saint-Valentin', dates: ['02-14'] },
+  { label: 'Réveillons', dates: ['12-24', '12-31'] },
+  { label: 'Jours fériés', dates: ['01-01', '05-01', '05-08', '07-14', '08-15', '11-01', '11-11', '12-25'] },
+];
+
+const DATE_PATTERN = /^(\d{4}-)?\d{2}-\d{2}$/;
+
+const defaultCondition = (type: GuaranteeRuleConditionType): GuaranteeRuleCondition => {
+  switch (type) {
+    case 'day_of_week': return { type, days: [5, 6] };
+    case 'time_range': return { type, from: '19:00', to: '23:00' };
+    case 'party_size': return { type, min: 6 };
+    case 'special_date': return { type, dates: ['02-14'] };
+    case 'service_type': return { type, values: [] };
+    case 'customer': return { type, value: 'new' };
+  }
+};
+
+interface TagListInputProps {
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+  validate?: (value: string) => boolean;
+  testId: string;
+}
+
+function TagListInput({ values, onChange, placeholder, validate, testId }: TagListInputProps) {
+  const [draft, setDraft] = useState('');
+  const value = draft.trim();
+  const canAdd = value.length > 0 && !values.includes(value) && (!validate || validate(value));
+
+  const add = () => {
+    if (!canAdd) return;
+    onChange([...values, value]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={draft}
+          placeholder={placeholder}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              add();
+            }
+          }}
+          className="flex-1 bg-white/5 border-white/10"
+          data-testid={`input-${testId}`}
+        />
+        <Button variant="outline" size="sm" onClick={add} disabled={!canAdd} data-testid={`button-add-${testId}`}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {values.map((item) => (
+            <Badge key={item} variant="outline" className="border-white/10 text-gray-300">
+              {item}
+              <button
+                type="button"
+                onClick={() => onChange(values.filter(v => v !== item))}
+                className="ml-1 text-gray-500 hover:text-red-400"
+                aria-label={`Retirer ${item}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ConditionEditorProps {
+  condition: GuaranteeRuleCondition;
+  onChange: (condition: GuaranteeRuleCondition) => void;
+  testId: string;
+}
+
+function ConditionEditor({ condition, onChange, testId }: ConditionEditorProps) {
+  switch (condition.type) {
+    case 'day_of_week':
+      return (
+        <div className="flex gap-1">
+          {weekDays.map(({ value, label }) => {
+            const selected = condition.days.includes(value);
+            return (
+              <Button
+                key={value}
+                variant={selected ? 'default' : 'outline'}
+                size="sm"
+                className="w-8 px-0"
+                onClick={() => onChange({
+                  ...condition,
+                  days: selected ? condition.days.filter(d => d !== value) : [...condition.days, value],
+                })}
+                data-testid={`${testId}-day-${value}`}
+              >
+                {label}
+              </Button>
+            );
+          })}
+        </div>
+      );
+    case 'time_range':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="time"
+            value={condition.from}
+            onChange={(e) => onChange({ ...condition, from: e.target.value })}
+            className="w-28 bg-white/5 border-white/10"
+            data-testid={`${testId}-from`}
+          />
+          <span className="text-gray-400 text-sm">à</span>
+          <Input
+            type="time"
+            value={condition.to}
+            onChange={(e) => onChange({ ...condition, to: e.target.value })}
+            className="w-28 bg-white/5 border-white/10"
+            data-testid={`${testId}-to`}
+          />
+        </div>
+      );
+    case 'party_size': {
+      const toBound = (value: string) => value === '' ? undefined : Math.min(100, Math.max(1, parseInt(value) || 1));
+      return (
+        <div className="flex items-center gap-2">
+          <span className="text-gray-400 text-sm">de</span>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={condition.min ?? ''}
+            placeholder="—"
+            onChange={(e) => onChange({ ...condition, min: toBound(e.target.value) })}
+            className="w-20 bg-white/5 border-white/10"
+            data-testid={`${testId}-min`}
+          />
+          <span className="text-gray-400 text-sm">à</span>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={condition.max ?? ''}
+            placeholder="—"
+            onChange={(e) => onChange({ ...condition, max: toBound(e.target.value) })}
+            className="w-20 bg-white/5 border-white/10"
+            data-testid={`${testId}-max`}
+          />
+          <span className="text-gray-400 text-sm">personnes</span>
+        </div>
+      );
+    }
+    case 'special_date':
+      return (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1.5">
+            {specialDatePresets.map((preset) => (
+              <Button
+                key={preset.label}
+                variant="outline"
+                size="sm"
+                onClick={() => onChange({ ...condition, dates: Array.from(new Set([...condition.dates, ...preset.dates])) })}
+                data-testid={`${testId}-preset-${preset.dates[0]}`}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <TagListInput
+            values={condition.dates}
+            onChange={(dates) => onChange({ ...condition, dates })}
+            placeholder="MM-JJ (chaque année) ou AAAA-MM-JJ"
+            validate={(value) => DATE_PATTERN.test(value)}
+            testId={`${testId}-dates`}
+          />
+        </div>
+      );
+    case 'service_type':
+      return (
+        <TagListInput
+          values={condition.values}
+          onChange={(values) => onChange({ ...condition, values })}
+          placeholder="Prestation transmise par l'agent (ex : privatisation)"
+          testId={`${testId}-services`}
+        />
+      );
+    case 'customer':
+      return (
+        <Select value={condition.value} onValueChange={(value) => onChange({ ...condition, value: value as 'new' | 'returning' })}>
+          <SelectTrigger className="w-48 bg-white/5 border-white/10" data-testid={`${testId}-customer`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="new">Nouveau client</SelectItem>
+            <SelectItem value="returning">Client déjà venu</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+  }
+}
+
+interface GuaranteeRulesEditorProps {
+  rules: GuaranteeRule[];
+  onChange: (rules: GuaranteeRule[]) => void;
+  defaultPenaltyAmount: number;
+  defaultCancellationDelay: number;
+}
+
+// Règles d'application de la garantie : la première règle active qui correspond à la réservation s'applique
+export function GuaranteeRulesEditor({ rules, onChange, defaultPenaltyAmount, defaultCancellationDelay }: GuaranteeRulesEditorProps) {
+  const updateRule = (index: number, updates: Partial<GuaranteeRule>) => {
+    onChange(rules.map((rule, i) => i === index ? { ...rule, ...updates } : rule));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, condition: GuaranteeRuleCondition) => {
+    const rule = rules[ruleIndex];
+    updateRule(ruleIndex, { conditions: rule.conditions.map((c, i) => i === conditionIndex ? condition : c) });
+  };
+
+  const addRule = () => {
+    onChange([...rules, {
+      id: `rule_${Date.now().toString(36)}`,
+      name: `Règle ${rules.length + 1}`,
+      enabled: true,
+      match: 'all',
+      conditions: [defaultCondition('day_of_week')],
+      penaltyAmount: defaultPenaltyAmount,
+      cancellationDelay: defaultCancellationDelay,
+    }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {rules.map((rule, ruleIndex) => (
+        <div key={rule.id} className="rounded-lg border border-white/10 p-4 space-y-4" data-testid={`guarantee-rule-${ruleIndex}`}>
+          <div className="flex items-center gap-2">
+            <Input
+              value={rule.name}
+              onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+              className="flex-1 bg-white/5 border-white/10"
+              data-testid={`input-rule-name-${ruleIndex}`}
+            />
+            <Switch
+              checked={rule.enabled}
+              onCheckedChange={(enabled) => updateRule(ruleIndex, { enabled })}
+              data-testid={`switch-rule-enabled-${ruleIndex}`}
+            />
+            <Button variant="ghost" size="icon" disabled={ruleIndex === 0} onClick={() => moveRule(ruleIndex, -1)} data-testid={`button-rule-up-${ruleIndex}`}>
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" disabled={ruleIndex === rules.length - 1} onClick={() => moveRule(ruleIndex, 1)} data-testid={`button-rule-down-${ruleIndex}`}>
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(rules.filter((_, i) => i !== ruleIndex))}
+              className="text-gray-400 hover:text-red-400"
+              data-testid={`button-remove-rule-${ruleIndex}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <span>S'applique si</span>
+            <Select value={rule.match} onValueChange={(match) => updateRule(ruleIndex, { match: match as GuaranteeRule['match'] })}>
+              <SelectTrigger className="w-40 bg-white/5 border-white/10" data-testid={`select-rule-match-${ruleIndex}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">toutes les conditions</SelectItem>
+                <SelectItem value="any">au moins une condition</SelectItem>
+              </SelectContent>
+            </Select>
+            <span>sont remplies :</span>
+          </div>
+
+          <div className="space-y-3">
+            {rule.conditions.map((condition, conditionIndex) => (
+              <div key={conditionIndex} className="flex flex-wrap items-start gap-3" data-testid={`rule-${ruleIndex}-condition-${conditionIndex}`}>
+                <Select
+                  value={condition.type}
+                  onValueChange={(type) => updateCondition(ruleIndex, conditionIndex, defaultCondition(type as GuaranteeRuleConditionType))}
+                >
+                  <SelectTrigger className="w-48 bg-white/5 border-white/10" data-testid={`select-condition-type-${ruleIndex}-${conditionIndex}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(conditionLabels) as GuaranteeRuleConditionType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{conditionLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex-1 min-w-[200px]">
+                  <ConditionEditor
+                    condition={condition}
+                    onChange={(updated) => updateCondition(ruleIndex, conditionIndex, updated)}
+                    testId={`condition-${ruleIndex}-${conditionIndex}`}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={rule.conditions.length <= 1}
+                  onClick={() => updateRule(ruleIndex, { conditions: rule.conditions.filter((_, i) => i !== conditionIndex) })}
+                  className="text-gray-400 hover:text-red-400"
+                  data-testid={`button-remove-condition-${ruleIndex}-${conditionIndex}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={rule.conditions.length >= MAX_CONDITIONS}
+              onClick={() => updateRule(ruleIndex, { conditions: [...rule.conditions, defaultCondition('party_size')] })}
+              data-testid={`button-add-condition-${ruleIndex}`}
+            >
+              <Plus className="h-4 w-4 mr-1.5" />
+              Ajouter une condition
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6 pt-2 border-t border-white/5">
+            <div className="flex items-center gap-2">
+              <Label className="text-gray-300 text-sm">Pénalité</Label>
+              <Input
+                type="number"
+                min={1}
+                max={200}
+                value={rule.penaltyAmount}
+                onChange={(e) => updateRule(ruleIndex, { penaltyAmount: Math.min(200, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className="w-20 bg-white/5 border-white/10"
+                data-testid={`input-rule-penalty-${ruleIndex}`}
+              />
+              <span className="text-gray-400 text-sm">€ / personne</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-gray-300 text-sm">Annulation</Label>
+              <Input
+                type="number"
+                min={1}
+                max={72}
+                value={rule.cancellationDelay}
+                onChange={(e) => updateRule(ruleIndex, { cancellationDelay: Math.min(72, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className="w-20 bg-white/5 border-white/10"
+                data-testid={`input-rule-delay-${ruleIndex}`}
+              />
+              <span className="text-gray-400 text-sm">h avant</span>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={rules.length >= MAX_GUARANTEE_RULES}
+        onClick={addRule}
+        data-testid="button-add-guarantee-rule"
+      >
+        <Plus className="h-4 w-4 mr-1.5" />
+        Ajouter une règle
+      </Button>
+    </div>
+  );
+}
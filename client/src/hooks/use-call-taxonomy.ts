@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Call, CallTaxonomyEntry, EffectiveCallTaxonomy } from "@shared/schema";
+
+// Libellés et couleurs des résultats d'appels configurés pour le compte
+export function useCallTaxonomy() {
+  const { data: taxonomy, isLoading } = useQuery<EffectiveCallTaxonomy>({
+    queryKey: ['/api/call-taxonomy'],
+  });
+
+  const getOutcome = (call: Pick<Call, 'outcome'>): CallTaxonomyEntry | undefined =>
+    call.outcome ? taxonomy?.outcomes.find(entry => entry.key === call.outcome) : undefined;
+
+  // Prestation reconnue : son libellé, sinon la valeur reçue telle quelle
+  const getServiceTypeLabel = (call: Pick<Call, 'serviceType' | 'serviceTypeKey'>): string | null =>
+    (call.serviceTypeKey && taxonomy?.serviceTypes.find(entry => entry.key === call.serviceTypeKey)?.label) || call.serviceType || null;
+
+  return { taxonomy, isLoading, getOutcome, getServiceTypeLabel };
+}
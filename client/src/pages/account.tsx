@@ -15,6 +15,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Loader2, Mail, Lock, Trash2, CreditCard, ChevronRight, Home, Bell, FileText, Download, Key, Copy, Eye, EyeOff, RefreshCw, AlertCircle, CheckCircle, X, Smartphone } from "lucide-react";
 import { NotificationSettings } from "@/components/NotificationSettings";
 import { BrandingSection } from "@/components/BrandingSection";
+import { ApiKeysSection } from "@/components/ApiKeysSection";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -60,6 +61,7 @@ const notificationPreferencesSchema = z.object({
   failedCallsEnabled: z.boolean(),
   activeCallEnabled: z.boolean(),
   subscriptionAlertsEnabled: z.boolean(),
+  anomalyAlertsEnabled: z.boolean(),
 });
 
 type User = {
@@ -90,6 +92,7 @@ type NotificationPreferences = {
   failedCallsEnabled: boolean;
   activeCallEnabled: boolean;
   subscriptionAlertsEnabled: boolean;
+  anomalyAlertsEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -170,6 +173,7 @@ export default function Account() {
       failedCallsEnabled: true,
       activeCallEnabled: true,
       subscriptionAlertsEnabled: true,
+      anomalyAlertsEnabled: true,
     },
   });
 
@@ -182,6 +186,7 @@ export default function Account() {
         failedCallsEnabled: notificationPreferences.failedCallsEnabled,
         activeCallEnabled: notificationPreferences.activeCallEnabled,
         subscriptionAlertsEnabled: notificationPreferences.subscriptionAlertsEnabled,
+        anomalyAlertsEnabled: notificationPreferences.anomalyAlertsEnabled,
       });
     }
   }, [notificationPreferences, notificationPreferencesForm]);
@@ -920,6 +925,9 @@ export default function Account() {
         </CardContent>
       </Card>
 
+      {/* Public API keys */}
+      <ApiKeysSection />
+
       {/* Push Notifications */}
       <NotificationSettings />
 
@@ -1012,6 +1020,28 @@ export default function Account() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={notificationPreferencesForm.control}
+                  name="anomalyAlertsEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Activité inhabituelle</FormLabel>
+                        <FormDescription>
+                          Alerte quand le volume d'appels, les échecs ou la conversion s'écartent nettement de vos semaines habituelles
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          disabled={preferencesLoading}
+                          data-testid="switch-anomaly-alerts"
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={notificationPreferencesForm.control}
                   name="subscriptionAlertsEnabled"
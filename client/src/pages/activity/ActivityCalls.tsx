@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -18,11 +18,44 @@ import {
   User,
   MessageSquare,
   Loader2,
-  ChevronRight
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  UserRound
 } from "lucide-react";
-import { format, formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow, startOfMonth } from "date-fns";
 import { fr } from "date-fns/locale";
-import type { Call } from "@shared/schema";
+import { CALL_SEARCH_FACETS, CALL_SEARCH_HIGHLIGHT, type Call, type CallSearchFacet, type CallSearchResponse } from "@shared/schema";
+import { DateRangeFilter, applyDateRangeParams, type DateRange } from "@/components/DateRangeFilter";
+import { CallExportDialog } from "@/components/CallExportDialog";
+import { CustomerProfileSheet } from "@/components/CustomerProfileSheet";
+import { useCallTaxonomy } from "@/hooks/use-call-taxonomy";
+
+const facetLabels: Record<CallSearchFacet, string> = {
+  eventType: "Type",
+  clientMood: "Humeur",
+  serviceType: "Service",
+  conversionResult: "Résultat",
+  tags: "Tags",
+};
+
+// Les termes trouvés arrivent entourés de marqueurs et sont rendus en <mark> sans passer par du HTML
+function HighlightedSnippet({ text }: { text: string }) {
+  const parts = text.split(new RegExp(`(${CALL_SEARCH_HIGHLIGHT.start}[^${CALL_SEARCH_HIGHLIGHT.stop}]*${CALL_SEARCH_HIGHLIGHT.stop})`));
+  return (
+    <>
+      {parts.map((part, idx) =>
+        part.startsWith(CALL_SEARCH_HIGHLIGHT.start) ? (
+          <mark key={idx} className="bg-[#C8B88A]/25 text-foreground rounded px-0.5">
+            {part.slice(1, -1)}
+          </mark>
+        ) : (
+          <span key={idx}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
 
 interface CallsResponse {
   calls: Call[];
@@ -34,17 +67,92 @@ interface CallsResponse {
 export default function ActivityCalls() {
   const [activeTab, setActiveTab] = useState("all");
   const [timeFilter, setTimeFilter] = useState("week");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [searchFacets, setSearchFacets] = useState<Partial<Record<CallSearchFacet, string>>>({});
+  const [searchPage, setSearchPage] = useState(1);
   const [selectedCall, setSelectedCall] = useState<Call | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [profileCall, setProfileCall] = useState<Call | null>(null);
+  const { getOutcome } = useCallTaxonomy();
 
   const statusFilter = activeTab === "all" ? undefined : 
                        activeTab === "converted" ? "converted" :
                        activeTab === "missed" ? "missed" : undefined;
 
+  // "Ce mois" n'est pas un filtre serveur : il devient une plage du 1er du mois à aujourd'hui
+  const periodRange: DateRange | undefined = dateRange?.from
+    ? dateRange
+    : timeFilter === "month" ? { from: startOfMonth(new Date()), to: new Date() } : undefined;
+
+  const periodParams = new URLSearchParams();
+  if (!applyDateRangeParams(periodParams, periodRange)) periodParams.set('timeFilter', timeFilter);
+
   const { data, isLoading } = useQuery<CallsResponse>({
-    queryKey: ['/api/calls', { timeFilter, statusFilter, page: 1, limit: 50 }],
+    queryKey: ['/api/calls', { timeFilter, dateRange, statusFilter, page: 1, limit: 50 }],
+    queryFn: async () => {
+      const params = new URLSearchParams(periodParams);
+      params.set('page', '1');
+      params.set('limit', '50');
+      const res = await fetch(`/api/calls?${params}`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch calls');
+      return res.json();
+    },
   });
 
+  // Recherche plein texte côté serveur dès 2 caractères, après une courte pause de frappe
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(searchQuery.trim());
+      setSearchFacets({});
+      setSearchPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const isSearching = debouncedSearch.length >= 2;
+
+  // La recherche garde l'onglet et la période de la liste
+  const { data: searchData, isLoading: searchLoading } = useQuery<CallSearchResponse>({
+    queryKey: ['/api/calls/search', debouncedSearch, searchFacets, statusFilter, timeFilter, dateRange, searchPage],
+    queryFn: async () => {
+      const params = new URLSearchParams(periodParams);
+      params.set('q', debouncedSearch);
+      params.set('page', String(searchPage));
+      params.set('limit', '50');
+      if (statusFilter) params.set('status', statusFilter);
+      Object.entries(searchFacets).forEach(([facet, value]) => {
+        if (value) params.set(facet, value);
+      });
+      const res = await fetch(`/api/calls/search?${params}`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to search calls');
+      return res.json();
+    },
+    enabled: isSearching,
+  });
+
+  const toggleFacet = (facet: CallSearchFacet, value: string) => {
+    setSearchFacets(prev => ({ ...prev, [facet]: prev[facet] === value ? undefined : value }));
+    setSearchPage(1);
+  };
+
+  const handleTimeFilterChange = (value: string) => {
+    setTimeFilter(value);
+    setDateRange(undefined);
+    setSearchPage(1);
+  };
+
+  const handleDateRangeChange = (range: DateRange | undefined) => {
+    setDateRange(range);
+    setSearchPage(1);
+  };
+
+  const handleTabChange = (value: string) => {
+    setActiveTab(value);
+    setSearchPage(1);
+  };
+
   const formatDuration = (seconds?: number | null) => {
     if (!seconds) return "—";
     const mins = Math.floor(seconds / 60);
@@ -85,14 +193,18 @@ export default function ActivityCalls() {
     };
   };
 
-  const filteredCalls = data?.calls?.filter(call => {
-    if (!searchQuery) return true;
-    const query = searchQuery.toLowerCase();
-    return (
-      call.phoneNumber?.toLowerCase().includes(query) ||
-      call.summary?.toLowerCase().includes(query)
-    );
-  }) || [];
+  const snippets = new Map(searchData?.results.map(result => [result.call.id, result.snippet]) || []);
+
+  const filteredCalls = isSearching
+    ? searchData?.results.map(result => result.call) || []
+    : data?.calls?.filter(call => {
+        if (!searchQuery) return true;
+        const query = searchQuery.toLowerCase();
+        return (
+          call.phoneNumber?.toLowerCase().includes(query) ||
+          call.summary?.toLowerCase().includes(query)
+        );
+      }) || [];
 
   const stats = {
     total: data?.total || 0,
@@ -161,14 +273,14 @@ export default function ActivityCalls() {
           <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
-              placeholder="Rechercher un appel..."
+              placeholder="Rechercher un numéro ou dans les transcriptions (ex : sans gluten)..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-9 bg-[#1A1C1F] border-white/[0.08]"
               data-testid="input-search-calls"
             />
           </div>
-          <Select value={timeFilter} onValueChange={setTimeFilter}>
+          <Select value={dateRange?.from ? "" : timeFilter} onValueChange={handleTimeFilterChange}>
             <SelectTrigger className="w-full md:w-[180px] bg-[#1A1C1F] border-white/[0.08]" data-testid="select-time-filter">
               <SelectValue placeholder="Période" />
             </SelectTrigger>
@@ -179,10 +291,58 @@ export default function ActivityCalls() {
               <SelectItem value="month" data-testid="option-filter-month">Ce mois</SelectItem>
             </SelectContent>
           </Select>
+          <DateRangeFilter
+            value={dateRange}
+            onChange={handleDateRangeChange}
+            data-testid="button-date-range"
+          />
+          <Button
+            variant="outline"
+            className="bg-[#1A1C1F] border-white/[0.08]"
+            onClick={() => setExportOpen(true)}
+            data-testid="button-export-calls"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Exporter
+          </Button>
         </div>
 
+        <CallExportDialog open={exportOpen} onOpenChange={setExportOpen} params={periodParams} />
+
+        <CustomerProfileSheet
+          open={!!profileCall}
+          onOpenChange={(open) => !open && setProfileCall(null)}
+          phone={profileCall?.phoneNumber}
+          email={profileCall?.clientEmail}
+        />
+
+        {/* Facettes de la recherche plein texte */}
+        {isSearching && searchData && (
+          <div className="mb-6 space-y-2" data-testid="search-facets">
+            <p className="text-xs text-muted-foreground">
+              {searchData.total} appel{searchData.total > 1 ? 's' : ''} trouvé{searchData.total > 1 ? 's' : ''} pour « {debouncedSearch} »
+            </p>
+            {CALL_SEARCH_FACETS.filter(facet => searchData.facets[facet]?.length > 0).map(facet => (
+              <div key={facet} className="flex flex-wrap items-center gap-1.5">
+                <span className="text-xs text-muted-foreground w-16">{facetLabels[facet]}</span>
+                {searchData.facets[facet].map(option => (
+                  <Badge
+                    key={option.value}
+                    variant={searchFacets[facet] === option.value ? "default" : "outline"}
+                    className="cursor-pointer text-[11px]"
+                    onClick={() => toggleFacet(facet, option.value)}
+                    data-testid={`facet-${facet}-${option.value}`}
+                  >
+                    {option.value} ({option.count})
+                  </Badge>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Tabs */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
           <TabsList className="w-full md:w-auto bg-[#1A1C1F] border border-white/[0.06] p-1 mb-6">
             <TabsTrigger value="all" className="flex-1 md:flex-none" data-testid="button-tab-all">
               Tous
@@ -196,7 +356,7 @@ export default function ActivityCalls() {
           </TabsList>
 
           <TabsContent value={activeTab} className="mt-0">
-            {isLoading ? (
+            {(isSearching ? searchLoading : isLoading) ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="w-6 h-6 animate-spin text-[#C8B88A]" />
               </div>
@@ -239,7 +399,11 @@ export default function ActivityCalls() {
                                 {statusConfig.label}
                               </Badge>
                             </div>
-                            {call.summary && (
+                            {snippets.get(call.id) ? (
+                              <p className="text-sm text-muted-foreground line-clamp-2 mt-1" data-testid={`search-snippet-${call.id}`}>
+                                <HighlightedSnippet text={snippets.get(call.id)!} />
+                              </p>
+                            ) : call.summary && (
                               <p className="text-sm text-muted-foreground truncate mt-1">
                                 {call.summary}
                               </p>
@@ -285,10 +449,10 @@ export default function ActivityCalls() {
                                 <p className="text-xs text-muted-foreground mb-1">Date et heure</p>
                                 <p>{format(new Date(call.startTime), 'dd MMM yyyy à HH:mm', { locale: fr })}</p>
                               </div>
-                              {call.eventType && (
+                              {(getOutcome(call) || call.eventType) && (
                                 <div>
                                   <p className="text-xs text-muted-foreground mb-1">Type</p>
-                                  <p className="capitalize">{call.eventType}</p>
+                                  <p className="capitalize">{getOutcome(call)?.label || call.eventType}</p>
                                 </div>
                               )}
                               {call.appointmentDate && (
@@ -298,12 +462,37 @@ export default function ActivityCalls() {
                                 </div>
                               )}
                             </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="border-white/[0.08]"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setProfileCall(call);
+                              }}
+                              data-testid={`button-customer-profile-${call.id}`}
+                            >
+                              <UserRound className="w-4 h-4 mr-2" />
+                              Profil client
+                            </Button>
                           </div>
                         )}
                       </CardContent>
                     </Card>
                   );
                 })}
+
+                {isSearching && searchData && searchData.totalPages > 1 && (
+                  <div className="flex items-center justify-center gap-3 pt-2">
+                    <Button variant="outline" size="icon" disabled={searchPage <= 1} onClick={() => setSearchPage(p => p - 1)} data-testid="button-search-prev-page">
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <span className="text-sm text-muted-foreground">Page {searchData.page} / {searchData.totalPages}</span>
+                    <Button variant="outline" size="icon" disabled={searchPage >= searchData.totalPages} onClick={() => setSearchPage(p => p + 1)} data-testid="button-search-next-page">
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
           </TabsContent>
@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2, Plus, Trash2, RotateCcw } from "lucide-react";
+import {
+  DEFAULT_CALL_TAXONOMIES,
+  type CallTaxonomyBusinessType,
+  type CallTaxonomyEntry,
+  type EffectiveCallTaxonomy,
+} from "@shared/schema";
+
+const cardClassName = "bg-gradient-to-br from-[#1A1C1F] to-[#151618] border-white/[0.06]";
+
+const businessTypeLabels: Record<CallTaxonomyBusinessType, string> = {
+  restaurant: "Restaurant",
+  garage: "Garage",
+  kine: "Kinésithérapie",
+  other: "Activité générale",
+};
+
+// Les synonymes sont saisis séparés par des virgules : on garde le texte tel quel pendant la saisie
+interface EntryRow extends Omit<CallTaxonomyEntry, 'synonyms'> {
+  synonymsText: string;
+}
+
+const toRows = (entries: CallTaxonomyEntry[]): EntryRow[] =>
+  entries.map(({ synonyms, ...entry }) => ({ ...entry, synonymsText: synonyms.join(', ') }));
+
+const toEntries = (rows: EntryRow[]): CallTaxonomyEntry[] =>
+  rows.map(({ synonymsText, ...entry }) => ({
+    ...entry,
+    synonyms: synonymsText.split(',').map(s => s.trim()).filter(Boolean),
+  }));
+
+interface EntriesEditorProps {
+  title: string;
+  description: string;
+  weightLabel: string;
+  rows: EntryRow[];
+  onChange: (rows: EntryRow[]) => void;
+  minRows: number;
+  testIdPrefix: string;
+}
+
+function EntriesEditor({ title, description, weightLabel, rows, onChange, minRows, testIdPrefix }: EntriesEditorProps) {
+  const updateRow = (index: number, updates: Partial<EntryRow>) => {
+    onChange(rows.map((row, i) => i === index ? { ...row, ...updates } : row));
+  };
+
+  return (
+    <Card className={cardClassName}>
+      <CardHeader>
+        <CardTitle className="text-base font-semibold">{title}</CardTitle>
+        <CardDescription className="text-xs">{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rows.length === 0 && (
+          <p className="text-sm text-muted-foreground">Aucune entrée configurée</p>
+        )}
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-end" data-testid={`${testIdPrefix}-row-${index}`}>
+            <div className="col-span-6 md:col-span-2 space-y-1">
+              <Label className="text-xs">Clé</Label>
+              <Input
+                value={row.key}
+                onChange={(e) => updateRow(index, { key: e.target.value })}
+                className="bg-[#1A1C1F] border-white/[0.08]"
+                data-testid={`input-${testIdPrefix}-key-${index}`}
+              />
+            </div>
+            <div className="col-span-6 md:col-span-3 space-y-1">
+              <Label className="text-xs">Libellé</Label>
+              <Input
+                value={row.label}
+                onChange={(e) => updateRow(index, { label: e.target.value })}
+                className="bg-[#1A1C1F] border-white/[0.08]"
+                data-testid={`input-${testIdPrefix}-label-${index}`}
+              />
+            </div>
+            <div className="col-span-3 md:col-span-1 space-y-1">
+              <Label className="text-xs">Couleur</Label>
+              <Input
+                type="color"
+                value={row.color}
+                onChange={(e) => updateRow(index, { color: e.target.value })}
+                className="bg-[#1A1C1F] border-white/[0.08] p-1 h-9"
+                data-testid={`input-${testIdPrefix}-color-${index}`}
+              />
+            </div>
+            <div className="col-span-4 md:col-span-1 space-y-1">
+              <Label className="text-xs">{weightLabel}</Label>
+              <Input
+                type="number"
+                min={0}
+                max={20}
+                step={0.1}
+                value={row.valueWeight}
+                onChange={(e) => updateRow(index, { valueWeight: Math.min(20, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                className="bg-[#1A1C1F] border-white/[0.08]"
+                data-testid={`input-${testIdPrefix}-weight-${index}`}
+              />
+            </div>
+            <div className="col-span-4 md:col-span-4 space-y-1">
+              <Label className="text-xs">Synonymes</Label>
+              <Input
+                value={row.synonymsText}
+                placeholder="rdv, booking, ..."
+                onChange={(e) => updateRow(index, { synonymsText: e.target.value })}
+                className="bg-[#1A1C1F] border-white/[0.08]"
+                data-testid={`input-${testIdPrefix}-synonyms-${index}`}
+              />
+            </div>
+            <div className="col-span-1 flex justify-end">
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={rows.length <= minRows}
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                data-testid={`button-remove-${testIdPrefix}-${index}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rows, { key: `valeur_${rows.length + 1}`, label: "", color: "#9A9A9A", valueWeight: 0, synonymsText: "" }])}
+          data-testid={`button-add-${testIdPrefix}`}
+        >
+          <Plus className="w-4 h-4 mr-1.5" />
+          Ajouter
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ActivityOutcomes() {
+  const { toast } = useToast();
+  const [outcomes, setOutcomes] = useState<EntryRow[]>([]);
+  const [serviceTypes, setServiceTypes] = useState<EntryRow[]>([]);
+
+  const { data, isLoading } = useQuery<EffectiveCallTaxonomy>({
+    queryKey: ['/api/call-taxonomy'],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setOutcomes(toRows(data.outcomes));
+      setServiceTypes(toRows(data.serviceTypes));
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/call-taxonomy", {
+        outcomes: toEntries(outcomes),
+        serviceTypes: toEntries(serviceTypes),
+      });
+      return response.json() as Promise<EffectiveCallTaxonomy & { reclassifiedCalls: number }>;
+    },
+    onSuccess: (result) => {
+      // Les appels passés sont reclassés : statistiques et listes doivent être rechargées
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/call') });
+      toast({
+        title: "Résultats enregistrés",
+        description: result.reclassifiedCalls > 0 ? `${result.reclassifiedCalls} appel(s) reclassé(s)` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetToDefaults = () => {
+    if (!data) return;
+    const defaults = DEFAULT_CALL_TAXONOMIES[data.businessType];
+    setOutcomes(toRows(defaults.outcomes));
+    setServiceTypes(toRows(defaults.serviceTypes));
+  };
+
+  const hasEmptyRow = [...outcomes, ...serviceTypes].some(row => !row.key || !row.label);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-screen-xl mx-auto px-4 md:px-6 py-6 md:py-8">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-semibold tracking-tight mb-1">Résultats d'appels</h1>
+          <p className="text-sm text-muted-foreground">
+            Le vocabulaire de votre activité : les valeurs reçues de l'agent sont rapprochées des clés, libellés et synonymes
+            {data && ` (modèle ${businessTypeLabels[data.businessType]}${data.isDefault ? ", valeurs par défaut" : ""})`}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-[#C8B88A]" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <EntriesEditor
+              title="Résultats"
+              description="Issue de l'appel. Un résultat avec une valeur supérieure à 0 compte comme une conversion ; la valeur est la part d'un panier moyen rapportée."
+              weightLabel="Valeur"
+              rows={outcomes}
+              onChange={setOutcomes}
+              minRows={1}
+              testIdPrefix="outcome"
+            />
+            <EntriesEditor
+              title="Prestations"
+              description="Type de service demandé. Le coefficient multiplie le panier moyen dans le chiffre d'affaires estimé."
+              weightLabel="Coef."
+              rows={serviceTypes}
+              onChange={setServiceTypes}
+              minRows={0}
+              testIdPrefix="service-type"
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={resetToDefaults} data-testid="button-reset-taxonomy">
+                <RotateCcw className="w-4 h-4 mr-1.5" />
+                Valeurs par défaut
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || hasEmptyRow}
+                data-testid="button-save-taxonomy"
+              >
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Enregistrer
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,525 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  ClipboardCheck,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
+  Star,
+  Gauge,
+  AlertTriangle,
+} from "lucide-react";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer } from "recharts";
+import {
+  CALL_QA_QUEUE_REASONS,
+  CALL_QA_ANNOTATION_CATEGORIES,
+  CALL_QA_MAX_CRITERION_SCORE,
+  type CallQaCriterion,
+  type CallQaQueueItem,
+  type CallQaQueueReason,
+  type CallQaTrends,
+} from "@shared/schema";
+import { DateRangeFilter, applyDateRangeParams, type DateRange } from "@/components/DateRangeFilter";
+import { CallQaReviewDialog, qaReasonLabels, qaCategoryConfig } from "@/components/CallQaReviewDialog";
+
+const QUEUE_PAGE_SIZE = 20;
+
+interface QueueResponse {
+  items: CallQaQueueItem[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+interface Scorecard {
+  criteria: CallQaCriterion[];
+  lowConfidenceThreshold: number;
+}
+
+type TrendsResponse = CallQaTrends & { criteria: CallQaCriterion[] };
+
+const cardClassName = "bg-gradient-to-br from-[#1A1C1F] to-[#151618] border-white/[0.06]";
+
+function QueueTab({ onReview }: { onReview: (callId: string) => void }) {
+  const [reason, setReason] = useState<CallQaQueueReason | "all">("all");
+  const [page, setPage] = useState(1);
+
+  const params = new URLSearchParams({ page: String(page), limit: String(QUEUE_PAGE_SIZE) });
+  if (reason !== "all") params.set("reason", reason);
+
+  const { data, isLoading } = useQuery<QueueResponse>({
+    queryKey: [`/api/call-qa/queue?${params}`],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground" data-testid="text-qa-queue-total">
+          {data ? `${data.total} appel${data.total > 1 ? "s" : ""} à revoir` : ""}
+        </p>
+        <Select value={reason} onValueChange={(value) => { setReason(value as CallQaQueueReason | "all"); setPage(1); }}>
+          <SelectTrigger className="w-[200px] bg-[#1A1C1F] border-white/[0.08]" data-testid="select-qa-reason">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tous les motifs</SelectItem>
+            {CALL_QA_QUEUE_REASONS.map(r => (
+              <SelectItem key={r} value={r}>{qaReasonLabels[r]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-[#C8B88A]" />
+        </div>
+      ) : !data || data.items.length === 0 ? (
+        <Card className="bg-[#1A1C1F] border-white/[0.06]">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <div className="p-4 rounded-full bg-[#C8B88A]/10 mb-4">
+              <ClipboardCheck className="w-8 h-8 text-[#C8B88A]/50" />
+            </div>
+            <p className="text-muted-foreground">Aucun appel à revoir</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {data.items.map(({ call, reasons }) => (
+            <Card
+              key={call.id}
+              className="bg-[#1A1C1F] border-white/[0.06] hover:border-white/[0.12] transition-all cursor-pointer"
+              onClick={() => onReview(call.id)}
+              data-testid={`qa-queue-item-${call.id}`}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className="font-medium text-foreground">{call.phoneNumber}</span>
+                      {reasons.map(r => (
+                        <Badge key={r} variant="outline" className="text-[10px] text-orange-400 border-orange-400/30">
+                          {qaReasonLabels[r]}
+                        </Badge>
+                      ))}
+                    </div>
+                    {call.summary && (
+                      <p className="text-sm text-muted-foreground truncate">{call.summary}</p>
+                    )}
+                  </div>
+                  <div className="hidden md:block text-sm text-muted-foreground text-right">
+                    {call.bookingConfidence !== null && <p>Confiance {call.bookingConfidence}%</p>}
+                    <p className="text-xs">
+                      {formatDistanceToNow(new Date(call.startTime), { addSuffix: true, locale: fr })}
+                    </p>
+                  </div>
+                  <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {data.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-3 pt-2">
+              <Button variant="outline" size="icon" disabled={page <= 1} onClick={() => setPage(p => p - 1)} data-testid="button-qa-prev-page">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {data.page} / {data.totalPages}</span>
+              <Button variant="outline" size="icon" disabled={page >= data.totalPages} onClick={() => setPage(p => p + 1)} data-testid="button-qa-next-page">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TopList({ title, items }: { title: string; items: { value: string; count: number }[] }) {
+  return (
+    <Card className={cardClassName}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1.5">
+        {items.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Aucune donnée</p>
+        ) : items.map(item => (
+          <div key={item.value} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate">{item.value}</span>
+            <span className="text-muted-foreground">{item.count}</span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TrendsTab() {
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+
+  // Sans plage choisie, le serveur renvoie les 12 dernières semaines
+  const params = new URLSearchParams();
+  applyDateRangeParams(params, dateRange);
+
+  const { data, isLoading } = useQuery<TrendsResponse>({
+    queryKey: [`/api/call-qa/trends?${params}`],
+  });
+
+  const formatPeriod = (period: string) =>
+    format(parseISO(period), data?.granularity === "week" ? "'S' d MMM" : "d MMM", { locale: fr });
+
+  // Moyennes par critère sur la période, pondérées par le nombre d'appels évalués
+  const criteriaAverages = (data?.criteria || []).map(criterion => {
+    let total = 0;
+    let reviewed = 0;
+    data?.points.forEach(point => {
+      const value = point.criteria[criterion.key];
+      if (value !== null && value !== undefined) {
+        total += value * point.reviewedCalls;
+        reviewed += point.reviewedCalls;
+      }
+    });
+    return { criterion, average: reviewed > 0 ? total / reviewed : null };
+  });
+
+  const reviewedCalls = data?.points.reduce((sum, p) => sum + p.reviewedCalls, 0) || 0;
+  const scoredPoints = data?.points.filter(p => p.averageScore !== null) || [];
+  const averageScore = reviewedCalls > 0
+    ? Math.round(scoredPoints.reduce((sum, p) => sum + p.averageScore! * p.reviewedCalls, 0) / reviewedCalls)
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <DateRangeFilter value={dateRange} onChange={setDateRange} data-testid="button-qa-date-range" />
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-[#C8B88A]" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 md:gap-4">
+            <Card className={cardClassName}>
+              <CardContent className="p-4 md:p-5 flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-[#C8B88A]/10">
+                  <Star className="w-4 h-4 text-[#C8B88A]" />
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Note moyenne</p>
+                  <p className="text-xl font-semibold" data-testid="stat-qa-average-score">
+                    {averageScore !== null ? `${averageScore}/100` : "—"}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card className={cardClassName}>
+              <CardContent className="p-4 md:p-5 flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-emerald-400/10">
+                  <ClipboardCheck className="w-4 h-4 text-emerald-400" />
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Appels évalués</p>
+                  <p className="text-xl font-semibold" data-testid="stat-qa-reviewed">{reviewedCalls}</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card className={cardClassName}>
+              <CardContent className="p-4 md:p-5 flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-red-400/10">
+                  <AlertTriangle className="w-4 h-4 text-red-400" />
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Appels en échec</p>
+                  <p className="text-xl font-semibold" data-testid="stat-qa-failed">
+                    {data.points.reduce((sum, p) => sum + p.failedCalls, 0)}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className={cardClassName}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base font-semibold">Évolution de la qualité</CardTitle>
+              <CardDescription className="text-xs">
+                Note des revues et confiance moyenne de l'agent, par {data.granularity === "week" ? "semaine" : "jour"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data.points}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.04)" />
+                  <XAxis dataKey="period" stroke="#666" fontSize={10} tickFormatter={formatPeriod} />
+                  <YAxis stroke="#666" fontSize={10} domain={[0, 100]} />
+                  <RechartsTooltip
+                    contentStyle={{
+                      backgroundColor: "#0E1015",
+                      border: "1px solid rgba(255,255,255,0.1)",
+                      borderRadius: "8px",
+                      fontSize: "12px",
+                    }}
+                    labelFormatter={formatPeriod}
+                  />
+                  <Line type="monotone" dataKey="averageScore" name="Note QA" stroke="#C8B88A" strokeWidth={2.5} dot={false} connectNulls />
+                  <Line type="monotone" dataKey="averageConfidence" name="Confiance" stroke="#4CEFAD" strokeWidth={2.5} dot={false} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
+            <Card className={cardClassName}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Moyenne par critère</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2.5">
+                {criteriaAverages.map(({ criterion, average }) => (
+                  <div key={criterion.key} className="space-y-1" data-testid={`qa-criterion-average-${criterion.key}`}>
+                    <div className="flex items-center justify-between text-sm">
+                      <span>{criterion.label}</span>
+                      <span className="text-muted-foreground">
+                        {average !== null ? `${average.toFixed(1)} / ${CALL_QA_MAX_CRITERION_SCORE}` : "—"}
+                      </span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-white/[0.06]">
+                      <div
+                        className="h-1.5 rounded-full bg-[#C8B88A]"
+                        style={{ width: `${((average || 0) / CALL_QA_MAX_CRITERION_SCORE) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className={cardClassName}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Annotations</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {CALL_QA_ANNOTATION_CATEGORIES.map(category => (
+                  <div key={category} className="flex items-center justify-between text-sm">
+                    <Badge variant="outline" className={qaCategoryConfig[category].className}>
+                      {qaCategoryConfig[category].label}
+                    </Badge>
+                    <span className="text-muted-foreground" data-testid={`qa-annotations-${category}`}>
+                      {data.annotationsByCategory[category] || 0}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 md:gap-4">
+            <TopList title="Objections fréquentes" items={data.topObjections} />
+            <TopList title="Points de friction" items={data.topPainPoints} />
+            <TopList title="Motifs de fin d'appel" items={data.topDisconnectionReasons} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function ScorecardTab() {
+  const { toast } = useToast();
+  const [criteria, setCriteria] = useState<CallQaCriterion[]>([]);
+  const [threshold, setThreshold] = useState(60);
+
+  const { data, isLoading } = useQuery<Scorecard>({
+    queryKey: ['/api/call-qa/scorecard'],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setCriteria(data.criteria);
+      setThreshold(data.lowConfidenceThreshold);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/call-qa/scorecard", { criteria, lowConfidenceThreshold: threshold });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/call-qa/') });
+      toast({ title: "Grille enregistrée" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateCriterion = (index: number, updates: Partial<CallQaCriterion>) => {
+    setCriteria(prev => prev.map((c, i) => i === index ? { ...c, ...updates } : c));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-[#C8B88A]" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className={cardClassName}>
+      <CardHeader>
+        <CardTitle className="text-base font-semibold">Grille d'évaluation</CardTitle>
+        <CardDescription className="text-xs">
+          Chaque critère est noté de 0 à {CALL_QA_MAX_CRITERION_SCORE}. Le poids détermine sa part dans la note sur 100.
+          Les appels déjà évalués conservent la grille utilisée lors de leur revue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {criteria.map((criterion, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-end" data-testid={`qa-criterion-row-${index}`}>
+            <div className="col-span-12 md:col-span-3 space-y-1">
+              <Label className="text-xs">Clé</Label>
+              <Input
+                value={criterion.key}
+                onChange={(e) => updateCriterion(index, { key: e.target.value })}
+                className="bg-[#1A1C1F] border-white/[0.08]"
+                data-testid={`input-qa-criterion-key-${index}`}
+              />
+            </div>
+            <div className="col-span-12 md:col-span-5 space-y-1">
+              <Label className="text-xs">Libellé</Label>
+              <Input
+                value={criterion.label}
+                onChange={(e) => updateCriterion(index, { label: e.target.value })}
+                className="bg-[#1A1C1F] border-white/[0.08]"
+                data-testid={`input-qa-criterion-label-${index}`}
+              />
+            </div>
+            <div className="col-span-8 md:col-span-3 space-y-1">
+              <Label className="text-xs">Poids</Label>
+              <Input
+                type="number"
+                min={1}
+                max={10}
+                value={criterion.weight}
+                onChange={(e) => updateCriterion(index, { weight: parseInt(e.target.value) || 1 })}
+                className="bg-[#1A1C1F] border-white/[0.08]"
+                data-testid={`input-qa-criterion-weight-${index}`}
+              />
+            </div>
+            <div className="col-span-4 md:col-span-1 flex justify-end">
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={criteria.length <= 1}
+                onClick={() => setCriteria(prev => prev.filter((_, i) => i !== index))}
+                data-testid={`button-remove-qa-criterion-${index}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setCriteria(prev => [...prev, { key: `critere_${prev.length + 1}`, label: "", weight: 1 }])}
+          data-testid="button-add-qa-criterion"
+        >
+          <Plus className="w-4 h-4 mr-1.5" />
+          Ajouter un critère
+        </Button>
+
+        <div className="flex items-center gap-3 pt-2 border-t border-white/[0.06]">
+          <Gauge className="w-4 h-4 text-muted-foreground" />
+          <Label htmlFor="qa-threshold" className="text-sm flex-1">
+            Mettre en file les appels dont la confiance est inférieure à (%)
+          </Label>
+          <Input
+            id="qa-threshold"
+            type="number"
+            min={0}
+            max={100}
+            value={threshold}
+            onChange={(e) => setThreshold(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+            className="w-20 bg-[#1A1C1F] border-white/[0.08]"
+            data-testid="input-qa-threshold"
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || criteria.some(c => !c.key || !c.label)}
+            data-testid="button-save-qa-scorecard"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Enregistrer
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ActivityQuality() {
+  const [activeTab, setActiveTab] = useState("queue");
+  const [reviewCallId, setReviewCallId] = useState<string | null>(null);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-screen-xl mx-auto px-4 md:px-6 py-6 md:py-8">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-semibold tracking-tight mb-1">Qualité des appels</h1>
+          <p className="text-sm text-muted-foreground">
+            Revoyez les appels difficiles, annotez les transcriptions et suivez la qualité de votre agent
+          </p>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="w-full md:w-auto bg-[#1A1C1F] border border-white/[0.06] p-1 mb-6">
+            <TabsTrigger value="queue" className="flex-1 md:flex-none" data-testid="button-tab-qa-queue">
+              À revoir
+            </TabsTrigger>
+            <TabsTrigger value="trends" className="flex-1 md:flex-none" data-testid="button-tab-qa-trends">
+              Tendances
+            </TabsTrigger>
+            <TabsTrigger value="scorecard" className="flex-1 md:flex-none" data-testid="button-tab-qa-scorecard">
+              Grille d'évaluation
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="queue" className="mt-0">
+            <QueueTab onReview={setReviewCallId} />
+          </TabsContent>
+          <TabsContent value="trends" className="mt-0">
+            <TrendsTab />
+          </TabsContent>
+          <TabsContent value="scorecard" className="mt-0">
+            <ScorecardTab />
+          </TabsContent>
+        </Tabs>
+
+        <CallQaReviewDialog callId={reviewCallId} onOpenChange={(open) => !open && setReviewCallId(null)} />
+      </div>
+    </div>
+  );
+}
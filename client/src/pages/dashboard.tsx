@@ -35,12 +35,17 @@ import {
   MessageSquare,
   Bell,
   Star,
-  CreditCard
+  CreditCard,
+  UserRound
 } from "lucide-react";
 import { Line, LineChart, XAxis, YAxis, Tooltip, ResponsiveContainer, Bar, BarChart, CartesianGrid, Area, AreaChart } from "recharts";
-import type { Call, PublicUser } from "@shared/schema";
+import type { Call, CallOutcomeCount, PublicUser, RevenueAttributionSummary } from "@shared/schema";
 import { TrialCountdown } from "@/components/TrialCountdown";
 import { AnalyticsDialog } from "@/components/AnalyticsDialog";
+import { CustomerProfileSheet } from "@/components/CustomerProfileSheet";
+import { CallTranscript } from "@/components/CallTranscript";
+import { useCallTaxonomy } from "@/hooks/use-call-taxonomy";
+import { DateRangeFilter, applyDateRangeParams, comparisonOptions, type ComparisonMode, type DateRange } from "@/components/DateRangeFilter";
 
 // Status badge variants with icons
 const statusConfig = {
@@ -59,6 +64,19 @@ const timeFilterOptions = [
   { value: "week", label: "Cette semaine" },
 ];
 
+// Variation par rapport à la période de comparaison
+function ChangeIndicator({ value }: { value?: number }) {
+  if (value === undefined) return null;
+  const positive = value >= 0;
+  const Icon = positive ? TrendingUp : TrendingDown;
+  return (
+    <div className={`flex items-center gap-0.5 md:gap-1 ${positive ? 'text-emerald-400' : 'text-rose-400'} text-[10px] md:text-xs font-medium`}>
+      <Icon className="w-3 h-3 md:w-3.5 md:h-3.5" />
+      <span>{positive ? '+' : ''}{Math.round(value)}%</span>
+    </div>
+  );
+}
+
 // Status filter options
 const statusFilterOptions = [
   { value: "all", label: "Tous les statuts" },
@@ -83,10 +101,14 @@ const iconMap: { [key: string]: any } = {
 
 export default function Dashboard() {
   const [globalTimeFilter, setGlobalTimeFilter] = useState<string>("all");
+  const [globalDateRange, setGlobalDateRange] = useState<DateRange | undefined>();
+  const [compareMode, setCompareMode] = useState<ComparisonMode>("none");
   const [callsTimeFilter, setCallsTimeFilter] = useState<string>("all");
+  const [callsDateRange, setCallsDateRange] = useState<DateRange | undefined>();
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [appointmentsOnly, setAppointmentsOnly] = useState<boolean>(false);
   const [selectedCall, setSelectedCall] = useState<Call | null>(null);
+  const [profileCall, setProfileCall] = useState<Call | null>(null);
   const [chartDialog, setChartDialog] = useState<'total' | 'conversion' | 'duration' | null>(null);
   const [analyticsMetric, setAnalyticsMetric] = useState<'volume' | 'conversion' | 'timeslots' | 'duration' | null>(null);
   const [isMobile, setIsMobile] = useState<boolean>(false);
@@ -115,11 +137,44 @@ export default function Dashboard() {
   // Reset page to 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [callsTimeFilter, statusFilter, appointmentsOnly]);
+  }, [callsTimeFilter, callsDateRange, statusFilter, appointmentsOnly]);
 
   // Auto-refresh interval (30 seconds)
   const REFRESH_INTERVAL = 30000;
 
+  // Une plage de dates personnalisée prime sur le filtre prédéfini
+  const hasGlobalPeriod = !!globalDateRange?.from || globalTimeFilter !== 'all';
+  const buildGlobalParams = (withComparison: boolean) => {
+    const params = new URLSearchParams();
+    if (!applyDateRangeParams(params, globalDateRange) && globalTimeFilter !== 'all') {
+      params.set('timeFilter', globalTimeFilter);
+    }
+    if (withComparison && hasGlobalPeriod && compareMode !== 'none') {
+      params.set('compare', compareMode);
+    }
+    return params;
+  };
+
+  const handleGlobalTimeFilterChange = (value: string) => {
+    setGlobalTimeFilter(value);
+    setGlobalDateRange(undefined);
+  };
+
+  const handleGlobalDateRangeChange = (range: DateRange | undefined) => {
+    setGlobalDateRange(range);
+    if (range?.from) setGlobalTimeFilter('all');
+  };
+
+  const handleCallsTimeFilterChange = (value: string) => {
+    setCallsTimeFilter(value);
+    setCallsDateRange(undefined);
+  };
+
+  const handleCallsDateRangeChange = (range: DateRange | undefined) => {
+    setCallsDateRange(range);
+    if (range?.from) setCallsTimeFilter('all');
+  };
+
   // Fetch stats with global time filter - auto-refreshes every 30 seconds
   const { data: stats, isLoading: statsLoading } = useQuery<{
     totalCalls: number;
@@ -129,11 +184,13 @@ export default function Dashboard() {
     averageDuration: number;
     hoursSaved: number;
     estimatedRevenue: number;
+    byOutcome?: CallOutcomeCount[];
+    revenueAttribution?: RevenueAttributionSummary;
+    changes?: Record<string, number>;
   }>({
-    queryKey: ['/api/calls/stats', globalTimeFilter],
+    queryKey: ['/api/calls/stats', globalTimeFilter, globalDateRange, compareMode],
     queryFn: async () => {
-      const params = new URLSearchParams();
-      if (globalTimeFilter && globalTimeFilter !== 'all') params.set('timeFilter', globalTimeFilter);
+      const params = buildGlobalParams(true);
       const res = await fetch(`/api/calls/stats?${params}`);
       if (!res.ok) throw new Error('Failed to fetch stats');
       return res.json();
@@ -149,10 +206,12 @@ export default function Dashboard() {
     page: number; 
     totalPages: number 
   }>({
-    queryKey: ['/api/calls', callsTimeFilter, statusFilter, appointmentsOnly, currentPage],
+    queryKey: ['/api/calls', callsTimeFilter, callsDateRange, statusFilter, appointmentsOnly, currentPage],
     queryFn: async () => {
       const params = new URLSearchParams();
-      if (callsTimeFilter && callsTimeFilter !== 'all') params.set('timeFilter', callsTimeFilter);
+      if (!applyDateRangeParams(params, callsDateRange) && callsTimeFilter !== 'all') {
+        params.set('timeFilter', callsTimeFilter);
+      }
       if (statusFilter && statusFilter !== 'all') params.set('statusFilter', statusFilter);
       if (appointmentsOnly) params.set('appointmentsOnly', 'true');
       params.set('page', currentPage.toString());
@@ -174,11 +233,12 @@ export default function Dashboard() {
     totalCalls: number;
     completedCalls: number;
     averageDuration: number;
+    outcomes?: Record<string, number>;
+    previous?: { date: string; totalCalls: number; completedCalls: number; averageDuration: number } | null;
   }[]>({
-    queryKey: ['/api/calls/chart-data', globalTimeFilter],
+    queryKey: ['/api/calls/chart-data', globalTimeFilter, globalDateRange, compareMode],
     queryFn: async () => {
-      const params = new URLSearchParams();
-      if (globalTimeFilter && globalTimeFilter !== 'all') params.set('timeFilter', globalTimeFilter);
+      const params = buildGlobalParams(true);
       const res = await fetch(`/api/calls/chart-data?${params}`);
       if (!res.ok) throw new Error('Failed to fetch chart data');
       return res.json();
@@ -187,6 +247,9 @@ export default function Dashboard() {
     refetchIntervalInBackground: false,
   });
 
+  // Résultats d'appels configurés (libellés, couleurs) pour les badges et la répartition
+  const { taxonomy, getOutcome, getServiceTypeLabel } = useCallTaxonomy();
+
   // Fetch AI-powered insights based on real call data - auto-refreshes every 60 seconds (less frequent for insights)
   const { data: aiInsights = [], isLoading: insightsLoading } = useQuery<{
     icon: string;
@@ -194,10 +257,9 @@ export default function Dashboard() {
     text: string;
     level?: 'good' | 'average' | 'warning';
   }[]>({
-    queryKey: ['/api/calls/ai-insights', globalTimeFilter],
+    queryKey: ['/api/calls/ai-insights', globalTimeFilter, globalDateRange],
     queryFn: async () => {
-      const params = new URLSearchParams();
-      if (globalTimeFilter && globalTimeFilter !== 'all') params.set('timeFilter', globalTimeFilter);
+      const params = buildGlobalParams(false);
       const res = await fetch(`/api/calls/ai-insights?${params}`);
       if (!res.ok) throw new Error('Failed to fetch AI insights');
       return res.json();
@@ -232,21 +294,46 @@ export default function Dashboard() {
   };
 
   // Prepare chart data for different metrics
+  // "previous" n'est renseigné que lorsqu'une comparaison est demandée
+  const conversionOf = (d: { totalCalls: number; completedCalls: number }) =>
+    d.totalCalls > 0 ? Math.round((d.completedCalls / d.totalCalls) * 100) : 0;
+  const hasComparison = chartData.some(d => d.previous);
+
   const totalCallsChartData = chartData.map(d => ({
     name: format(new Date(d.date), 'dd MMM', { locale: fr }),
     value: d.totalCalls,
+    previous: d.previous?.totalCalls,
   }));
 
   const conversionRateChartData = chartData.map(d => ({
     name: format(new Date(d.date), 'dd MMM', { locale: fr }),
-    value: d.totalCalls > 0 ? Math.round((d.completedCalls / d.totalCalls) * 100) : 0,
+    value: conversionOf(d),
+    previous: d.previous ? conversionOf(d.previous) : undefined,
+  }));
+
+  // Appels classés par résultat, empilés jour par jour
+  const outcomeChartData = chartData.map(d => ({
+    name: format(new Date(d.date), 'dd MMM', { locale: fr }),
+    ...d.outcomes,
   }));
+  const chartOutcomes = (taxonomy?.outcomes || []).filter(outcome =>
+    chartData.some(d => (d.outcomes?.[outcome.key] || 0) > 0)
+  );
 
   const averageDurationChartData = chartData.map(d => ({
     name: format(new Date(d.date), 'dd MMM', { locale: fr }),
     value: d.averageDuration,
+    previous: d.previous?.averageDuration,
   }));
 
+  const globalPeriodLabel = globalDateRange?.from
+    ? `${format(globalDateRange.from, 'dd/MM/yyyy')} – ${format(globalDateRange.to || globalDateRange.from, 'dd/MM/yyyy')}`
+    : globalTimeFilter === 'all' ? 'Toutes périodes' :
+      globalTimeFilter === 'hour' ? 'Dernière heure' :
+      globalTimeFilter === 'today' ? "Aujourd'hui" :
+      globalTimeFilter === 'two_days' ? '2 derniers jours' : 'Cette semaine';
+  const comparedSeriesName = 'Période comparée';
+
   return (
     <div className="min-h-screen bg-background">
       <div className="max-w-screen-2xl mx-auto px-4 md:px-6 py-4 md:py-8">
@@ -288,9 +375,9 @@ export default function Dashboard() {
         </Card>
 
         {/* Global Time Filter */}
-        <div className="mb-4 md:mb-6 flex items-center gap-2 md:gap-3">
+        <div className="mb-4 md:mb-6 flex flex-wrap items-center gap-2 md:gap-3">
           <span className="text-xs md:text-[13px] font-medium text-muted-foreground">Période :</span>
-          <Select value={globalTimeFilter} onValueChange={setGlobalTimeFilter}>
+          <Select value={globalTimeFilter} onValueChange={handleGlobalTimeFilterChange}>
             <SelectTrigger className="w-[140px] md:w-[180px] h-8 md:h-9 text-xs md:text-[13px]" data-testid="select-global-time-filter">
               <SelectValue placeholder="Toutes les périodes" />
             </SelectTrigger>
@@ -303,6 +390,23 @@ export default function Dashboard() {
               ))}
             </SelectContent>
           </Select>
+          <DateRangeFilter
+            value={globalDateRange}
+            onChange={handleGlobalDateRangeChange}
+            data-testid="button-global-date-range"
+          />
+          <Select value={compareMode} onValueChange={(value) => setCompareMode(value as ComparisonMode)} disabled={!hasGlobalPeriod}>
+            <SelectTrigger className="w-[160px] md:w-[190px] h-8 md:h-9 text-xs md:text-[13px]" data-testid="select-compare-mode">
+              <SelectValue placeholder="Sans comparaison" />
+            </SelectTrigger>
+            <SelectContent>
+              {comparisonOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {/* KPI Cards Grid - Premium Design */}
@@ -346,10 +450,7 @@ export default function Dashboard() {
                   <div className="text-xl md:text-[28px] font-semibold tracking-tight" data-testid="stat-total-calls">
                     {stats?.totalCalls || 0}
                   </div>
-                  <div className="flex items-center gap-0.5 md:gap-1 text-emerald-400 text-[10px] md:text-xs font-medium">
-                    <TrendingUp className="w-3 h-3 md:w-3.5 md:h-3.5" />
-                    <span>+12%</span>
-                  </div>
+                  <ChangeIndicator value={stats?.changes?.totalCalls} />
                 </div>
               </CardContent>
             </Card>
@@ -388,10 +489,7 @@ export default function Dashboard() {
                   <div className="text-xl md:text-[28px] font-semibold tracking-tight" data-testid="stat-conversion-rate">
                     {stats?.conversionRate || 0}%
                   </div>
-                  <div className="flex items-center gap-0.5 md:gap-1 text-rose-400 text-[10px] md:text-xs font-medium">
-                    <TrendingDown className="w-3 h-3 md:w-3.5 md:h-3.5" />
-                    <span>-3%</span>
-                  </div>
+                  <ChangeIndicator value={stats?.changes?.conversionRate} />
                 </div>
               </CardContent>
             </Card>
@@ -430,10 +528,7 @@ export default function Dashboard() {
                   <div className="text-xl md:text-[28px] font-semibold tracking-tight" data-testid="stat-average-duration">
                     {formatDuration(stats?.averageDuration)}
                   </div>
-                  <div className="flex items-center gap-0.5 md:gap-1 text-emerald-400 text-[10px] md:text-xs font-medium">
-                    <TrendingUp className="w-3 h-3 md:w-3.5 md:h-3.5" />
-                    <span>+8%</span>
-                  </div>
+                  <ChangeIndicator value={stats?.changes?.averageDuration} />
                 </div>
               </CardContent>
             </Card>
@@ -477,6 +572,18 @@ export default function Dashboard() {
                     <TrendingUp className="w-3 h-3 md:w-3.5 md:h-3.5" />
                   </div>
                 </div>
+                {/* Ventes réelles rattachées aux appels, dès qu'une caisse ou un CRM remonte des commandes */}
+                {stats?.revenueAttribution && stats.revenueAttribution.revenueSources > 0 ? (
+                  <div
+                    className="mt-2 text-[10px] md:text-xs text-muted-foreground"
+                    title={`Confiance élevée : ${formatCurrency(stats.revenueAttribution.byConfidence.high.amount)} · moyenne : ${formatCurrency(stats.revenueAttribution.byConfidence.medium.amount)} · possible : ${formatCurrency(stats.revenueAttribution.possibleRevenue)}`}
+                    data-testid="stat-measured-revenue"
+                  >
+                    Mesuré : <span className="text-foreground font-medium">{formatCurrency(stats.revenueAttribution.measuredRevenue)}</span>
+                  </div>
+                ) : (
+                  <div className="mt-2 hidden md:block text-xs text-muted-foreground">Estimé</div>
+                )}
               </CardContent>
             </Card>
 
@@ -1241,7 +1348,7 @@ export default function Dashboard() {
                 </CardDescription>
               </div>
               <div className="flex flex-col sm:flex-row gap-2">
-                <Select value={callsTimeFilter} onValueChange={setCallsTimeFilter}>
+                <Select value={callsTimeFilter} onValueChange={handleCallsTimeFilterChange}>
                   <SelectTrigger className="w-full sm:w-[160px] h-9 text-[13px]" data-testid="select-calls-time-filter">
                     <SelectValue placeholder="Toutes les périodes" />
                   </SelectTrigger>
@@ -1254,6 +1361,11 @@ export default function Dashboard() {
                     ))}
                   </SelectContent>
                 </Select>
+                <DateRangeFilter
+                  value={callsDateRange}
+                  onChange={handleCallsDateRangeChange}
+                  data-testid="button-calls-date-range"
+                />
                 <Select value={statusFilter} onValueChange={setStatusFilter}>
                   <SelectTrigger className="w-full sm:w-[160px] h-9 text-[13px]" data-testid="select-status-filter">
                     <SelectValue placeholder="Tous les statuts" />
@@ -1355,12 +1467,17 @@ export default function Dashboard() {
                             <div className="text-[11px] md:text-[13px] font-mono text-foreground/80 truncate max-w-[100px] md:max-w-none">{call.phoneNumber}</div>
                           </td>
                           <td className="py-5 px-4 hidden md:table-cell">
-                            {call.eventType ? (
+                            {getOutcome(call) ? (
+                              <span
+                                className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md text-[11px] font-medium bg-white/[0.06] text-foreground/70 border border-white/[0.08]"
+                                data-testid={`badge-outcome-${call.id}`}
+                              >
+                                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: getOutcome(call)!.color }} />
+                                {getOutcome(call)!.label}
+                              </span>
+                            ) : call.eventType ? (
                               <span className="inline-flex items-center px-2 py-0.5 rounded-md text-[11px] font-medium bg-white/[0.06] text-foreground/70 border border-white/[0.08]">
-                                {call.eventType === 'reservation' ? 'Réservation' : 
-                                 call.eventType === 'information' ? 'Info' :
-                                 call.eventType === 'complaint' ? 'Réclamation' :
-                                 call.eventType === 'other' ? 'Autre' : call.eventType}
+                                {call.eventType}
                               </span>
                             ) : (
                               <span className="text-[12px] text-muted-foreground">-</span>
@@ -1389,7 +1506,7 @@ export default function Dashboard() {
                                   )}
                                   {call.serviceType && (
                                     <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-white/[0.04] text-foreground/50 capitalize">
-                                      {call.serviceType}
+                                      {getServiceTypeLabel(call)}
                                     </span>
                                   )}
                                 </div>
@@ -1468,9 +1585,9 @@ export default function Dashboard() {
                     <Phone className="w-4 h-4 text-[#C8B88A]" />
                   </div>
                   Détail de l'appel
-                  {selectedCall?.eventType && (
+                  {selectedCall && (getOutcome(selectedCall) || selectedCall.eventType) && (
                     <Badge className="text-xs font-normal bg-[#C8B88A]/10 text-[#C8B88A] border-[#C8B88A]/20 shadow-[0_2px_4px_rgba(0,0,0,0.2)]">
-                      {selectedCall.eventType}
+                      {getOutcome(selectedCall)?.label || selectedCall.eventType}
                     </Badge>
                   )}
                 </DialogTitle>
@@ -1570,7 +1687,7 @@ export default function Dashboard() {
                         <div>
                           <div className="text-[10px] text-[#9A9A9A] mb-1">Type de service</div>
                           <Badge className="rounded-full px-2.5 py-0.5 bg-white/5 text-[#F5F5F5] border-white/10 shadow-[0_2px_4px_rgba(0,0,0,0.15)]">
-                            {selectedCall.serviceType}
+                            {getServiceTypeLabel(selectedCall)}
                           </Badge>
                         </div>
                       )}
@@ -1692,7 +1809,7 @@ export default function Dashboard() {
                 )}
 
                 {/* Section 6: Transcription (Collapsible) */}
-                {selectedCall.transcript && (
+                {(selectedCall.transcript || selectedCall.recordingUrl) && (
                   <div className="border-t border-white/[0.04] pt-4">
                     <button
                       onClick={() => setShowTranscript(!showTranscript)}
@@ -1710,8 +1827,12 @@ export default function Dashboard() {
                       )}
                     </button>
                     {showTranscript && (
-                      <div className="mt-3 text-[13px] text-[#9A9A9A] p-4 rounded-lg border border-white/[0.04] max-h-48 overflow-y-auto whitespace-pre-wrap leading-relaxed">
-                        {selectedCall.transcript}
+                      <div className="mt-3">
+                        <CallTranscript
+                          transcript={selectedCall.transcript}
+                          turns={selectedCall.transcriptTurns}
+                          recordingUrl={selectedCall.recordingUrl}
+                        />
                       </div>
                     )}
                   </div>
@@ -1732,12 +1853,33 @@ export default function Dashboard() {
                       <span className="opacity-60">Agent:</span> <span className="font-mono">{selectedCall.agentId.slice(0, 12)}...</span>
                     </div>
                   )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto h-7 text-[11px] border-[#C8B88A]/20 text-[#C8B88A]"
+                    onClick={() => {
+                      setProfileCall(selectedCall);
+                      setSelectedCall(null);
+                    }}
+                    data-testid="button-customer-profile"
+                  >
+                    <UserRound className="w-3.5 h-3.5 mr-1.5" />
+                    Profil client
+                  </Button>
                 </div>
               </div>
             )}
           </DialogContent>
         </Dialog>
 
+        {/* Profil client : historique tous modules confondus */}
+        <CustomerProfileSheet
+          open={!!profileCall}
+          onOpenChange={(open) => !open && setProfileCall(null)}
+          phone={profileCall?.phoneNumber}
+          email={profileCall?.clientEmail}
+        />
+
         {/* Chart Dialogs */}
         <Dialog open={chartDialog === 'total'} onOpenChange={() => setChartDialog(null)}>
           <DialogContent className="max-w-3xl" data-testid="dialog-chart-total">
@@ -1749,10 +1891,7 @@ export default function Dashboard() {
               <DialogDescription className="flex items-center gap-2">
                 Évolution du nombre d'appels 
                 <Badge variant="outline" className="ml-2 text-xs">
-                  {globalTimeFilter === 'all' ? 'Toutes périodes' : 
-                   globalTimeFilter === 'hour' ? 'Dernière heure' :
-                   globalTimeFilter === 'today' ? "Aujourd'hui" :
-                   globalTimeFilter === 'two_days' ? '2 derniers jours' : 'Cette semaine'}
+                  {globalPeriodLabel}
                 </Badge>
               </DialogDescription>
             </DialogHeader>
@@ -1794,7 +1933,7 @@ export default function Dashboard() {
                         color: '#fff'
                       }}
                       labelStyle={{ color: '#9A9A9A' }}
-                      formatter={(value: number) => [`${value} appels`, 'Total']}
+                      formatter={(value: number, name: string) => [`${value} appels`, name === comparedSeriesName ? name : 'Total']}
                     />
                     <Area 
                       type="monotone" 
@@ -1803,6 +1942,17 @@ export default function Dashboard() {
                       strokeWidth={2}
                       fill="url(#colorTotal)"
                     />
+                    {hasComparison && (
+                      <Area
+                        type="monotone"
+                        dataKey="previous"
+                        name={comparedSeriesName}
+                        stroke="#9A9A9A"
+                        strokeWidth={1.5}
+                        strokeDasharray="4 4"
+                        fill="none"
+                      />
+                    )}
                   </AreaChart>
                 </ResponsiveContainer>
               </div>
@@ -1820,10 +1970,7 @@ export default function Dashboard() {
               <DialogDescription className="flex items-center gap-2">
                 Évolution du taux de conversion (%)
                 <Badge variant="outline" className="ml-2 text-xs">
-                  {globalTimeFilter === 'all' ? 'Toutes périodes' : 
-                   globalTimeFilter === 'hour' ? 'Dernière heure' :
-                   globalTimeFilter === 'today' ? "Aujourd'hui" :
-                   globalTimeFilter === 'two_days' ? '2 derniers jours' : 'Cette semaine'}
+                  {globalPeriodLabel}
                 </Badge>
               </DialogDescription>
             </DialogHeader>
@@ -1866,17 +2013,75 @@ export default function Dashboard() {
                         color: '#fff'
                       }}
                       labelStyle={{ color: '#9A9A9A' }}
-                      formatter={(value: number) => [`${value}%`, 'Conversion']}
+                      formatter={(value: number, name: string) => [`${value}%`, name === comparedSeriesName ? name : 'Conversion']}
                     />
                     <Bar 
                       dataKey="value" 
                       fill="url(#colorConversion)"
                       radius={[4, 4, 0, 0]}
                     />
+                    {hasComparison && (
+                      <Bar
+                        dataKey="previous"
+                        name={comparedSeriesName}
+                        fill="rgba(154,154,154,0.4)"
+                        radius={[4, 4, 0, 0]}
+                      />
+                    )}
                   </BarChart>
                 </ResponsiveContainer>
               </div>
             )}
+
+            {/* Répartition des appels par résultat configuré */}
+            {!chartLoading && stats?.byOutcome && stats.byOutcome.some(row => row.count > 0) && (
+              <div className="mt-6 pt-4 border-t border-white/[0.06]" data-testid="section-outcome-breakdown">
+                <h4 className="text-sm font-medium mb-3">Répartition par résultat</h4>
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {stats.byOutcome.filter(row => row.count > 0).map(row => (
+                    <span
+                      key={row.outcome ?? 'unclassified'}
+                      className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md text-[11px] font-medium bg-white/[0.06] text-foreground/70 border border-white/[0.08]"
+                    >
+                      <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: row.color }} />
+                      {row.label}
+                      <span className="text-muted-foreground">{row.count}</span>
+                    </span>
+                  ))}
+                </div>
+                {chartOutcomes.length > 0 && (
+                  <div className="h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={outcomeChartData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+                        <XAxis 
+                          dataKey="name" 
+                          tick={{ fill: '#9A9A9A', fontSize: 11 }}
+                          axisLine={{ stroke: 'rgba(255,255,255,0.1)' }}
+                        />
+                        <YAxis 
+                          tick={{ fill: '#9A9A9A', fontSize: 11 }}
+                          axisLine={{ stroke: 'rgba(255,255,255,0.1)' }}
+                          allowDecimals={false}
+                        />
+                        <Tooltip 
+                          contentStyle={{ 
+                            backgroundColor: '#1A1C1F', 
+                            border: '1px solid rgba(255,255,255,0.1)',
+                            borderRadius: '8px',
+                            color: '#fff'
+                          }}
+                          labelStyle={{ color: '#9A9A9A' }}
+                        />
+                        {chartOutcomes.map(outcome => (
+                          <Bar key={outcome.key} dataKey={outcome.key} name={outcome.label} stackId="outcomes" fill={outcome.color} />
+                        ))}
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </div>
+            )}
           </DialogContent>
         </Dialog>
 
@@ -1890,10 +2095,7 @@ export default function Dashboard() {
               <DialogDescription className="flex items-center gap-2">
                 Évolution de la durée moyenne (en secondes)
                 <Badge variant="outline" className="ml-2 text-xs">
-                  {globalTimeFilter === 'all' ? 'Toutes périodes' : 
-                   globalTimeFilter === 'hour' ? 'Dernière heure' :
-                   globalTimeFilter === 'today' ? "Aujourd'hui" :
-                   globalTimeFilter === 'two_days' ? '2 derniers jours' : 'Cette semaine'}
+                  {globalPeriodLabel}
                 </Badge>
               </DialogDescription>
             </DialogHeader>
@@ -1935,10 +2137,10 @@ export default function Dashboard() {
                         color: '#fff'
                       }}
                       labelStyle={{ color: '#9A9A9A' }}
-                      formatter={(value: number) => {
+                      formatter={(value: number, name: string) => {
                         const minutes = Math.floor(value / 60);
                         const seconds = Math.round(value % 60);
-                        return [minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`, 'Durée'];
+                        return [minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`, name === comparedSeriesName ? name : 'Durée'];
                       }}
                     />
                     <Area 
@@ -1948,6 +2150,17 @@ export default function Dashboard() {
                       strokeWidth={2}
                       fill="url(#colorDuration)"
                     />
+                    {hasComparison && (
+                      <Area
+                        type="monotone"
+                        dataKey="previous"
+                        name={comparedSeriesName}
+                        stroke="#9A9A9A"
+                        strokeWidth={1.5}
+                        strokeDasharray="4 4"
+                        fill="none"
+                      />
+                    )}
                   </AreaChart>
                 </ResponsiveContainer>
               </div>
@@ -1965,6 +2178,8 @@ export default function Dashboard() {
             }
           }}
           timeFilter={globalTimeFilter !== 'all' ? globalTimeFilter as 'hour' | 'today' | 'two_days' | 'week' : undefined}
+          dateRange={globalDateRange}
+          compare={compareMode !== 'none' ? compareMode : undefined}
         />
       </div>
     </div>
@@ -0,0 +1,113 @@
+import { useRoute, useLocation } from 'wouter';
+import { useMutation } from '@tanstack/react-query';
+import { ScanLine, Check, Users, Calendar, Loader2, AlertCircle } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { queryClient } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+interface CheckInResponse {
+  success: boolean;
+  session: {
+    id: string;
+    customerName: string;
+    nbPersons: number;
+    reservationDate: string;
+    reservationTime: string | null;
+    checkedInAt: string | null;
+  };
+}
+
+// Ouverte en scannant le QR code de l'email de confirmation, depuis le téléphone de l'équipe connectée
+export default function GuaranteeCheckIn() {
+  const [, params] = useRoute('/guarantee/checkin/:sessionId');
+  const [, setLocation] = useLocation();
+  const sessionId = params?.sessionId;
+
+  const checkInMutation = useMutation<CheckInResponse, Error>({
+    mutationFn: async () => {
+      const response = await fetch(`/api/guarantee/reservations/${sessionId}/check-in`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Impossible d'enregistrer l'arrivée.");
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/guarantee/reservations'] });
+    },
+  });
+
+  const session = checkInMutation.data?.session;
+
+  return (
+    <div className="max-w-md mx-auto p-4 md:p-6">
+      <Card className="bg-gradient-to-br from-[#1A1C1F] to-[#151618] shadow-[0_0_12px_rgba(0,0,0,0.25)] border-white/[0.06]">
+        <CardContent className="p-6 text-center space-y-5">
+          {session ? (
+            <>
+              <div className="h-14 w-14 rounded-full bg-[#4CEFAD]/10 flex items-center justify-center mx-auto">
+                <Check className="h-7 w-7 text-[#4CEFAD]" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-white">Arrivée enregistrée</h1>
+                <p className="text-lg text-white mt-2">{session.customerName}</p>
+              </div>
+              <div className="flex items-center justify-center gap-4 text-sm text-gray-400">
+                <span className="flex items-center gap-1">
+                  <Users className="h-4 w-4" />
+                  {session.nbPersons} pers.
+                </span>
+                <span className="flex items-center gap-1">
+                  <Calendar className="h-4 w-4" />
+                  {format(new Date(session.reservationDate), 'd MMMM', { locale: fr })}
+                  {session.reservationTime && ` à ${session.reservationTime}`}
+                </span>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setLocation('/guarantee/reservations')}
+                data-testid="button-back-reservations"
+              >
+                Voir les réservations
+              </Button>
+            </>
+          ) : (
+            <>
+              <div className="h-14 w-14 rounded-full bg-[#C8B88A]/10 flex items-center justify-center mx-auto">
+                <ScanLine className="h-7 w-7 text-[#C8B88A]" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-white">Arrivée du client</h1>
+                <p className="text-sm text-gray-400 mt-1">
+                  Confirmez que le client est arrivé : la réservation sera marquée comme honorée.
+                </p>
+              </div>
+              {checkInMutation.isError && (
+                <p className="flex items-center justify-center gap-2 text-sm text-red-400" data-testid="text-checkin-error">
+                  <AlertCircle className="h-4 w-4" />
+                  {checkInMutation.error?.message}
+                </p>
+              )}
+              <Button
+                onClick={() => checkInMutation.mutate()}
+                disabled={!sessionId || checkInMutation.isPending}
+                className="w-full bg-[#C8B88A] text-black hover:bg-[#C8B88A]/90"
+                data-testid="button-confirm-checkin"
+              >
+                {checkInMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Check className="h-4 w-4 mr-2" />
+                )}
+                Confirmer l'arrivée
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -10,10 +10,12 @@ import {
   Check,
   X,
   Loader2,
-  Calendar
+  Calendar,
+  FileText
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { 
   Select, 
   SelectContent, 
@@ -32,6 +34,8 @@ import {
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { getDemoUrl } from '@/lib/demo-mode';
+import { GuaranteeDisputeDialog } from '@/components/GuaranteeDisputeDialog';
+import type { GuaranteeChargeType, GuaranteeDisputeStatus } from '@shared/schema';
 
 interface GuaranteeStats {
   noshowCount: number;
@@ -43,6 +47,7 @@ interface GuaranteeStats {
 interface NoshowCharge {
   id: string;
   guaranteeSessionId: string;
+  chargeType: GuaranteeChargeType;
   paymentIntentId: string | null;
   amount: number;
   currency: string;
@@ -50,6 +55,10 @@ interface NoshowCharge {
   failureReason: string | null;
   disputed: boolean;
   disputeReason: string | null;
+  disputeId: string | null;
+  disputeStatus: GuaranteeDisputeStatus | null;
+  disputeEvidenceDueBy: string | null;
+  disputeEvidenceSubmittedAt: string | null;
   createdAt: string;
   session?: {
     customerName: string;
@@ -58,8 +67,29 @@ interface NoshowCharge {
   };
 }
 
+// Libellé du mouvement, et du badge lorsqu'il a abouti
+const chargeTypeLabels: Record<GuaranteeChargeType, { label: string; succeeded: string }> = {
+  noshow_penalty: { label: 'Pénalité no-show', succeeded: 'Débité' },
+  deposit: { label: 'Acompte', succeeded: 'Payé' },
+  deposit_refund: { label: 'Remboursement acompte', succeeded: 'Remboursé' },
+  deposit_retained: { label: 'Acompte conservé', succeeded: 'Conservé' },
+  deposit_applied: { label: 'Acompte déduit', succeeded: 'Déduit' },
+};
+
+// Issue du litige telle que renvoyée par Stripe
+const disputeStatusBadges: Record<GuaranteeDisputeStatus, { label: string; className: string }> = {
+  warning_needs_response: { label: 'Demande banque – réponse requise', className: 'bg-orange-500/20 text-orange-300 border-orange-500/30' },
+  needs_response: { label: 'Litige – réponse requise', className: 'bg-orange-500/20 text-orange-300 border-orange-500/30' },
+  warning_under_review: { label: "En cours d'examen", className: 'bg-blue-500/20 text-blue-300 border-blue-500/30' },
+  under_review: { label: "En cours d'examen", className: 'bg-blue-500/20 text-blue-300 border-blue-500/30' },
+  warning_closed: { label: 'Demande clôturée', className: 'bg-[#4CEFAD]/20 text-[#4CEFAD] border-[#4CEFAD]/30' },
+  won: { label: 'Litige gagné', className: 'bg-[#4CEFAD]/20 text-[#4CEFAD] border-[#4CEFAD]/30' },
+  lost: { label: 'Litige perdu', className: 'bg-red-500/20 text-red-300 border-red-500/30' },
+};
+
 export default function GuaranteeHistory() {
   const [period, setPeriod] = useState<'week' | 'month' | 'year' | 'all'>('month');
+  const [disputeChargeId, setDisputeChargeId] = useState<string | null>(null);
 
   const { data: stats, isLoading: statsLoading } = useQuery<GuaranteeStats>({
     queryKey: ['/api/guarantee/stats', period],
@@ -192,6 +222,7 @@ export default function GuaranteeHistory() {
                   <TableHead className="text-gray-400">Date</TableHead>
                   <TableHead className="text-gray-400">Client</TableHead>
                   <TableHead className="text-gray-400">Personnes</TableHead>
+                  <TableHead className="text-gray-400">Type</TableHead>
                   <TableHead className="text-gray-400">Montant</TableHead>
                   <TableHead className="text-gray-400">Statut</TableHead>
                 </TableRow>
@@ -215,19 +246,42 @@ export default function GuaranteeHistory() {
                     <TableCell className="text-gray-300">
                       {charge.session?.nbPersons || 'N/A'}
                     </TableCell>
+                    <TableCell className="text-gray-300">
+                      {chargeTypeLabels[charge.chargeType]?.label || charge.chargeType}
+                    </TableCell>
                     <TableCell className="text-white font-semibold">
                       {formatCurrency(charge.amount)}
                     </TableCell>
                     <TableCell>
-                      {charge.status === 'succeeded' ? (
+                      {charge.disputed ? (
+                        <div className="flex flex-col items-start gap-1">
+                          <Badge className={disputeStatusBadges[charge.disputeStatus as GuaranteeDisputeStatus]?.className || 'bg-orange-500/20 text-orange-300 border-orange-500/30'}>
+                            <AlertCircle className="h-3 w-3 mr-1" />
+                            {disputeStatusBadges[charge.disputeStatus as GuaranteeDisputeStatus]?.label || 'Contesté'}
+                          </Badge>
+                          {charge.disputeEvidenceDueBy && !charge.disputeEvidenceSubmittedAt
+                            && charge.disputeStatus?.endsWith('needs_response') && (
+                            <span className="text-xs text-gray-400">
+                              Preuves avant le {format(new Date(charge.disputeEvidenceDueBy), 'dd/MM/yyyy', { locale: fr })}
+                            </span>
+                          )}
+                          {charge.disputeId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 px-2 text-[#C8B88A] hover:text-[#C8B88A]"
+                              onClick={() => setDisputeChargeId(charge.id)}
+                              data-testid={`button-dispute-evidence-${charge.id}`}
+                            >
+                              <FileText className="h-3 w-3 mr-1" />
+                              Dossier de preuves
+                            </Button>
+                          )}
+                        </div>
+                      ) : charge.status === 'succeeded' ? (
                         <Badge className="bg-[#4CEFAD]/20 text-[#4CEFAD] border-[#4CEFAD]/30">
                           <Check className="h-3 w-3 mr-1" />
-                          Débité
-                        </Badge>
-                      ) : charge.disputed ? (
-                        <Badge className="bg-orange-500/20 text-orange-300 border-orange-500/30">
-                          <AlertCircle className="h-3 w-3 mr-1" />
-                          Contesté
+                          {chargeTypeLabels[charge.chargeType]?.succeeded || 'Débité'}
                         </Badge>
                       ) : (
                         <Badge className="bg-red-500/20 text-red-300 border-red-500/30">
@@ -251,6 +305,8 @@ export default function GuaranteeHistory() {
           )}
         </CardContent>
       </Card>
+
+      <GuaranteeDisputeDialog chargeId={disputeChargeId} onClose={() => setDisputeChargeId(null)} />
     </div>
   );
 }
@@ -19,6 +19,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
+import type { GuaranteeMode } from '@shared/schema';
 
 interface PublicSession {
   id: string;
@@ -28,6 +29,9 @@ interface PublicSession {
   reservationDate: string;
   reservationTime: string | null;
   penaltyAmount: number;
+  guaranteeMode: GuaranteeMode;
+  depositAmount: number | null;
+  lateCancellationRefundPercent: number;
   cancellationDelay: number;
   logoUrl: string | null;
   brandColor: string;
@@ -121,6 +125,10 @@ export default function GuaranteePage() {
   }
 
   const brandColor = session.brandColor || '#C8B88A';
+  // Mode acompte : montant en euros, null pour une simple empreinte CB
+  const depositEur = session.guaranteeMode === 'deposit' && session.depositAmount
+    ? (session.depositAmount / 100).toLocaleString('fr-FR', { maximumFractionDigits: 2 })
+    : null;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-[#0a0b0e] to-[#0d0f12] flex items-center justify-center p-4 sm:p-6">
@@ -203,16 +211,33 @@ export default function GuaranteePage() {
             <div className="flex items-start gap-3">
               <Info className="h-5 w-5 text-[#C8B88A] flex-shrink-0 mt-0.5" />
               <div className="text-sm">
-                <p className="text-[#C8B88A] font-medium mb-1">Garantie carte bancaire</p>
-                <p className="text-gray-400">
-                  En validant votre carte, vous acceptez les conditions suivantes :
-                </p>
-                <ul className="mt-2 space-y-1 text-gray-400">
-                  <li>• Votre carte ne sera pas débitée</li>
-                  <li>• Annulation gratuite jusqu'à {session.cancellationDelay}h avant</li>
-                  <li>• En cas de no-show : pénalité de {session.penaltyAmount}€/pers.</li>
-                  <li>• Montant maximum : {session.penaltyAmount * session.nbPersons}€</li>
-                </ul>
+                {depositEur !== null ? (
+                  <>
+                    <p className="text-[#C8B88A] font-medium mb-1">Acompte de {depositEur}€</p>
+                    <p className="text-gray-400">
+                      En réglant l'acompte, vous acceptez les conditions suivantes :
+                    </p>
+                    <ul className="mt-2 space-y-1 text-gray-400">
+                      <li>• L'acompte est déduit de votre addition</li>
+                      <li>• Remboursé en totalité si vous annulez jusqu'à {session.cancellationDelay}h avant</li>
+                      <li>• Annulation plus tardive : {session.lateCancellationRefundPercent}% remboursé</li>
+                      <li>• En cas de no-show : acompte conservé</li>
+                    </ul>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-[#C8B88A] font-medium mb-1">Garantie carte bancaire</p>
+                    <p className="text-gray-400">
+                      En validant votre carte, vous acceptez les conditions suivantes :
+                    </p>
+                    <ul className="mt-2 space-y-1 text-gray-400">
+                      <li>• Votre carte ne sera pas débitée</li>
+                      <li>• Annulation gratuite jusqu'à {session.cancellationDelay}h avant</li>
+                      <li>• En cas de no-show : pénalité de {session.penaltyAmount}€/pers.</li>
+                      <li>• Montant maximum : {session.penaltyAmount * session.nbPersons}€</li>
+                    </ul>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -232,7 +257,7 @@ export default function GuaranteePage() {
             ) : (
               <>
                 <CreditCard className="h-5 w-5 mr-2" />
-                Valider ma carte bancaire
+                {depositEur !== null ? "Régler l'acompte" : 'Valider ma carte bancaire'}
               </>
             )}
           </Button>
@@ -28,6 +28,7 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { getDemoUrl } from '@/lib/demo-mode';
 import { formatDistanceToNow, format } from 'date-fns';
 import { fr } from 'date-fns/locale';
+import type { GuaranteeDepositStatus, GuaranteeMode } from '@shared/schema';
 
 interface GuaranteeSession {
   id: string;
@@ -40,18 +41,27 @@ interface GuaranteeSession {
   reservationTime: string | null;
   status: string;
   penaltyAmount: number;
+  guaranteeMode: GuaranteeMode;
+  depositAmount: number | null;
+  depositStatus: GuaranteeDepositStatus | null;
+  matchedRuleName: string | null;
   reminderCount: number;
+  noshowDetectedAt: string | null;
+  noshowAutoApplyAt: string | null;
   createdAt: string;
+  reminderSchedule?: { type: 'reminder' | 'auto_cancel'; dueAt: string }[];
 }
 
 interface ReservationsResponse {
   pending: GuaranteeSession[];
   validated: GuaranteeSession[];
   today: GuaranteeSession[];
+  reviewQueue: GuaranteeSession[];
   stats: {
     pendingCount: number;
     validatedCount: number;
     todayCount: number;
+    reviewCount: number;
     validationRate: number;
   };
 }
@@ -79,7 +89,12 @@ export default function GuaranteeReservations() {
       queryClient.invalidateQueries({ queryKey: ['/api/guarantee/reservations'] });
       
       if (variables.status === 'noshow') {
-        if (data.charged) {
+        if (data.deposit === 'retained') {
+          toast({
+            title: "No-show enregistré",
+            description: `Acompte de ${data.amount}€ conservé.`,
+          });
+        } else if (data.charged) {
           toast({
             title: "No-show enregistré",
             description: `Pénalité de ${data.amount}€ débitée avec succès.`,
@@ -91,10 +106,18 @@ export default function GuaranteeReservations() {
             variant: "destructive",
           });
         }
+      } else if (data.error) {
+        toast({
+          title: "Action impossible",
+          description: data.error,
+          variant: "destructive",
+        });
       } else {
         toast({
           title: "Présence confirmée",
-          description: "Le client est marqué comme présent.",
+          description: data.deposit === 'applied'
+            ? `Acompte de ${data.amount}€ à déduire de l'addition.`
+            : "Le client est marqué comme présent.",
         });
       }
     },
@@ -133,11 +156,13 @@ export default function GuaranteeReservations() {
       const response = await apiRequest('POST', `/api/guarantee/cancel/${id}`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/guarantee/reservations'] });
       toast({
         title: "Réservation annulée",
-        description: "La garantie CB a été annulée.",
+        description: data.deposit
+          ? `Acompte : ${data.deposit.refunded}€ remboursé, ${data.deposit.retained}€ conservé.`
+          : "La garantie CB a été annulée.",
       });
     },
     onError: () => {
@@ -193,6 +218,16 @@ export default function GuaranteeReservations() {
                 <Users className="h-3.5 w-3.5" />
                 {session.nbPersons} pers.
               </span>
+              {session.matchedRuleName && (
+                <span className="text-gray-500" data-testid={`matched-rule-${session.id}`}>
+                  {session.matchedRuleName}
+                </span>
+              )}
+              {session.guaranteeMode === 'deposit' && session.depositAmount && (
+                <span className="text-[#C8B88A]" data-testid={`deposit-${session.id}`}>
+                  Acompte {session.depositAmount / 100}€{session.depositStatus === 'paid' ? ' payé' : ''}
+                </span>
+              )}
               {session.customerPhone && (
                 <span className="flex items-center gap-1">
                   <Phone className="h-3.5 w-3.5" />
@@ -209,6 +244,28 @@ export default function GuaranteeReservations() {
               Créé {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true, locale: fr })}
               {session.reminderCount > 0 && ` • ${session.reminderCount} relance(s)`}
             </p>
+            {/* Relances automatiques restantes, puis annulation si la CB manque toujours */}
+            {session.reminderSchedule && session.reminderSchedule.length > 0 && (
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs" data-testid={`reminder-schedule-${session.id}`}>
+                {session.reminderSchedule.map((item) => (
+                  <span
+                    key={`${item.type}-${item.dueAt}`}
+                    className={`flex items-center gap-1 ${item.type === 'auto_cancel' ? 'text-red-400/80' : 'text-gray-400'}`}
+                  >
+                    {item.type === 'auto_cancel' ? <X className="h-3 w-3" /> : <RefreshCw className="h-3 w-3" />}
+                    {item.type === 'auto_cancel' ? 'Annulation' : 'Relance'} {format(new Date(item.dueAt), 'EEE d MMM HH:mm', { locale: fr })}
+                  </span>
+                ))}
+              </div>
+            )}
+            {/* No-show proposé par la détection automatique */}
+            {session.noshowDetectedAt && (
+              <p className="flex items-center gap-1 mt-1 text-xs text-orange-300" data-testid={`noshow-detected-${session.id}`}>
+                <AlertCircle className="h-3 w-3" />
+                Aucune arrivée détectée
+                {session.noshowAutoApplyAt && ` • no-show appliqué le ${format(new Date(session.noshowAutoApplyAt), 'EEE d MMM HH:mm', { locale: fr })} sans correction`}
+              </p>
+            )}
           </div>
         </div>
         
@@ -366,6 +423,32 @@ export default function GuaranteeReservations() {
         </Card>
       </div>
 
+      {data?.reviewQueue && data.reviewQueue.length > 0 && (
+        <Card className="bg-gradient-to-br from-[#1A1C1F] to-[#151618] shadow-[0_0_12px_rgba(0,0,0,0.25)] border-orange-500/20">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-orange-400" />
+              No-shows à vérifier
+              <Badge className="ml-2 bg-orange-500/20 text-orange-300 border-orange-500/30">
+                {data.reviewQueue.length}
+              </Badge>
+            </CardTitle>
+            <p className="text-sm text-gray-400">
+              Aucune arrivée détectée après le délai de grâce. Aucun débit n'est fait avant votre confirmation ou la fin du délai de vérification.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {data.reviewQueue.map((session) => (
+              <ReservationCard 
+                key={session.id} 
+                session={session} 
+                showTodayActions 
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {data?.today && data.today.length > 0 && (
         <Card className="bg-gradient-to-br from-[#1A1C1F] to-[#151618] shadow-[0_0_12px_rgba(0,0,0,0.25)] border-white/[0.06]">
           <CardHeader className="pb-4">
@@ -378,7 +461,7 @@ export default function GuaranteeReservations() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            {data.today.map((session) => (
+            {data.today.filter(s => !data.reviewQueue?.some(r => r.id === s.id)).map((session) => (
               <ReservationCard 
                 key={session.id} 
                 session={session} 
@@ -424,7 +507,7 @@ export default function GuaranteeReservations() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            {data.validated.filter(s => !data.today.some(t => t.id === s.id)).map((session) => (
+            {data.validated.filter(s => !data.today.some(t => t.id === s.id) && !data.reviewQueue?.some(r => r.id === s.id)).map((session) => (
               <ReservationCard 
                 key={session.id} 
                 session={session} 
@@ -22,7 +22,12 @@ import {
   AlertTriangle,
   MessageSquare,
   Bell,
-  Key
+  Key,
+  RefreshCw,
+  Plus,
+  Trash2,
+  Wallet,
+  ScanLine
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -30,15 +35,32 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
+import { GuaranteeRulesEditor } from '@/components/GuaranteeRulesEditor';
+import type {
+  GuaranteeCheckInSource,
+  GuaranteeDepositType,
+  GuaranteeMode,
+  GuaranteeReminderAnchor,
+  GuaranteeReminderStep,
+  GuaranteeRule,
+  NoshowDetectionMode,
+} from '@shared/schema';
 
 interface GuaranteeConfig {
   enabled: boolean;
   penaltyAmount: number;
   cancellationDelay: number;
+  guaranteeMode: GuaranteeMode;
+  depositType: GuaranteeDepositType;
+  depositAmount: number;
+  depositPercent: number;
+  lateCancellationRefundPercent: number;
   applyTo: 'all' | 'min_persons' | 'weekend';
   minPersons: number;
+  applicationRules: GuaranteeRule[];
   logoUrl: string | null;
   brandColor: string;
   senderEmail: string | null;
@@ -55,8 +77,26 @@ interface GuaranteeConfig {
   autoSendSmsOnCreate: boolean;
   autoSendEmailOnValidation: boolean;
   autoSendSmsOnValidation: boolean;
+  cardReminderEnabled: boolean;
+  cardReminderSteps: GuaranteeReminderStep[];
+  cardReminderEmail: boolean;
+  cardReminderSms: boolean;
+  autoCancelPendingHours: number | null;
+  noshowDetectionMode: NoshowDetectionMode;
+  noshowDetectionSources: GuaranteeCheckInSource[];
+  noshowGraceMinutes: number;
+  noshowReviewHours: number;
 }
 
+const MAX_REMINDER_STEPS = 5;
+
+// Preuves d'arrivée utilisables par la détection des no-shows
+const checkInSources: { value: GuaranteeCheckInSource; label: string; description: string }[] = [
+  { value: 'pos', label: 'Commande en caisse', description: 'Une commande du client synchronisée depuis votre caisse' },
+  { value: 'calendar', label: 'Agenda', description: "L'événement de la réservation marqué comme terminé (via N8N)" },
+  { value: 'qr', label: 'QR code', description: "Le QR code de l'email de confirmation scanné à l'accueil" },
+];
+
 interface ConfigResponse {
   config: GuaranteeConfig;
   stripeConnected: boolean;
@@ -72,7 +112,7 @@ interface StripeStatus {
   payoutsEnabled: boolean;
 }
 
-type SectionKey = 'stripe' | 'penalty' | 'delay' | 'conditions' | 'branding' | 'company' | 'email' | 'sms' | 'notifications' | null;
+type SectionKey = 'stripe' | 'mode' | 'penalty' | 'delay' | 'conditions' | 'branding' | 'company' | 'email' | 'sms' | 'notifications' | 'reminders' | 'detection' | null;
 
 export default function GuaranteeSettings() {
   const { toast } = useToast();
@@ -229,6 +269,11 @@ export default function GuaranteeSettings() {
     setHasChanges(true);
   };
 
+  const updateReminderStep = (index: number, updates: Partial<GuaranteeReminderStep>) => {
+    if (!localConfig) return;
+    handleConfigChange('cardReminderSteps', localConfig.cardReminderSteps.map((step, i) => i === index ? { ...step, ...updates } : step));
+  };
+
   const handleSave = () => {
     if (!localConfig) return;
     updateMutation.mutate(localConfig);
@@ -246,6 +291,8 @@ export default function GuaranteeSettings() {
     );
   }
 
+  const activeRulesCount = localConfig.applicationRules.filter(rule => rule.enabled).length;
+
   const sections = [
     {
       key: 'stripe' as SectionKey,
@@ -339,6 +386,112 @@ export default function GuaranteeSettings() {
         </div>
       ),
     },
+    {
+      key: 'mode' as SectionKey,
+      icon: Wallet,
+      iconColor: 'text-emerald-400',
+      title: 'Mode de garantie',
+      description: localConfig.guaranteeMode === 'penalty'
+        ? 'Empreinte CB, débitée en cas de no-show'
+        : localConfig.depositType === 'fixed'
+        ? `Acompte de ${localConfig.depositAmount}€ par personne`
+        : `Acompte de ${localConfig.depositPercent}% du montant estimé`,
+      content: (
+        <div className="space-y-4">
+          <RadioGroup
+            value={localConfig.guaranteeMode}
+            onValueChange={(value) => handleConfigChange('guaranteeMode', value)}
+            className="space-y-3"
+          >
+            <div className="flex items-center space-x-3">
+              <RadioGroupItem value="penalty" id="mode_penalty" data-testid="radio-mode-penalty" />
+              <Label htmlFor="mode_penalty" className="text-gray-300 cursor-pointer">
+                Empreinte CB (pénalité en cas de no-show)
+              </Label>
+            </div>
+            <div className="flex items-center space-x-3">
+              <RadioGroupItem value="deposit" id="mode_deposit" data-testid="radio-mode-deposit" />
+              <Label htmlFor="mode_deposit" className="text-gray-300 cursor-pointer">
+                Acompte payé à la réservation
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {localConfig.guaranteeMode === 'deposit' && (
+            <div className="space-y-4 pl-6">
+              <div>
+                <Label className="text-gray-300">Montant de l'acompte</Label>
+                <div className="flex items-center gap-3 mt-2">
+                  <Select
+                    value={localConfig.depositType}
+                    onValueChange={(value) => handleConfigChange('depositType', value as GuaranteeDepositType)}
+                  >
+                    <SelectTrigger className="w-44 bg-white/5 border-white/10" data-testid="select-deposit-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fixed">Fixe par personne</SelectItem>
+                      <SelectItem value="percentage">% du montant estimé</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {localConfig.depositType === 'fixed' ? (
+                    <>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={500}
+                        value={localConfig.depositAmount}
+                        onChange={(e) => handleConfigChange('depositAmount', Math.min(500, Math.max(1, parseInt(e.target.value) || 1)))}
+                        className="w-24 bg-white/5 border-white/10"
+                        data-testid="input-deposit-amount"
+                      />
+                      <span className="text-gray-400 text-sm">€ / personne</span>
+                    </>
+                  ) : (
+                    <>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={localConfig.depositPercent}
+                        onChange={(e) => handleConfigChange('depositPercent', Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
+                        className="w-24 bg-white/5 border-white/10"
+                        data-testid="input-deposit-percent"
+                      />
+                      <span className="text-gray-400 text-sm">%</span>
+                    </>
+                  )}
+                </div>
+                {localConfig.depositType === 'percentage' && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Calculé sur le montant estimé transmis par l'agent ; à défaut, {localConfig.depositAmount}€ par personne.
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label className="text-gray-300">Remboursement en cas d'annulation tardive</Label>
+                <div className="flex items-center gap-3 mt-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={localConfig.lateCancellationRefundPercent}
+                    onChange={(e) => handleConfigChange('lateCancellationRefundPercent', Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+                    className="w-24 bg-white/5 border-white/10"
+                    data-testid="input-late-refund-percent"
+                  />
+                  <span className="text-gray-400 text-sm">% de l'acompte</span>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                L'acompte est remboursé en totalité si le client annule au moins {localConfig.cancellationDelay}h avant la réservation,
+                à {localConfig.lateCancellationRefundPercent}% ensuite. Il est déduit de l'addition si le client vient et conservé en cas de no-show.
+              </p>
+            </div>
+          )}
+        </div>
+      ),
+    },
     {
       key: 'penalty' as SectionKey,
       icon: Shield,
@@ -402,7 +555,9 @@ export default function GuaranteeSettings() {
       icon: Users,
       iconColor: 'text-cyan-400',
       title: 'Conditions d\'application',
-      description: localConfig.applyTo === 'all' 
+      description: activeRulesCount > 0
+        ? `${activeRulesCount} règle(s) active(s)`
+        : localConfig.applyTo === 'all' 
         ? 'Toutes les réservations'
         : localConfig.applyTo === 'min_persons'
         ? `Minimum ${localConfig.minPersons} personnes`
@@ -448,6 +603,25 @@ export default function GuaranteeSettings() {
               />
             </div>
           )}
+
+          <hr className="border-white/10" />
+
+          <div className="space-y-3">
+            <div>
+              <Label className="text-gray-300">Règles avancées</Label>
+              <p className="text-xs text-gray-500">
+                Combinez jours, horaires, nombre de personnes, dates spéciales, prestation et type de client.
+                Dès qu'une règle est active, elle remplace le choix ci-dessus : la première règle qui correspond fixe la pénalité
+                et le délai d'annulation, sans règle correspondante aucune garantie n'est demandée.
+              </p>
+            </div>
+            <GuaranteeRulesEditor
+              rules={localConfig.applicationRules}
+              onChange={(rules) => handleConfigChange('applicationRules', rules)}
+              defaultPenaltyAmount={localConfig.penaltyAmount}
+              defaultCancellationDelay={localConfig.cancellationDelay}
+            />
+          </div>
         </div>
       ),
     },
@@ -765,6 +939,241 @@ export default function GuaranteeSettings() {
         </div>
       ),
     },
+    {
+      key: 'reminders' as SectionKey,
+      icon: RefreshCw,
+      iconColor: 'text-amber-400',
+      title: 'Relances CB',
+      description: localConfig.cardReminderEnabled
+        ? `${localConfig.cardReminderSteps.length} relance(s) automatique(s)`
+        : 'Relances manuelles uniquement',
+      content: (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-gray-300">Relances automatiques</Label>
+              <p className="text-xs text-gray-500">Renvoyer la demande de CB tant que le client ne l'a pas enregistrée</p>
+            </div>
+            <Switch
+              checked={localConfig.cardReminderEnabled}
+              onCheckedChange={(checked) => handleConfigChange('cardReminderEnabled', checked)}
+              data-testid="switch-card-reminder-enabled"
+            />
+          </div>
+
+          {localConfig.cardReminderEnabled && (
+            <>
+              <div className="space-y-3">
+                {localConfig.cardReminderSteps.map((step, index) => (
+                  <div key={index} className="flex items-center gap-3" data-testid={`reminder-step-${index}`}>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={168}
+                      value={step.hours}
+                      onChange={(e) => updateReminderStep(index, { hours: Math.min(168, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      className="w-20 bg-white/5 border-white/10"
+                      data-testid={`input-reminder-hours-${index}`}
+                    />
+                    <span className="text-gray-400 text-sm">heures</span>
+                    <Select
+                      value={step.anchor}
+                      onValueChange={(value) => updateReminderStep(index, { anchor: value as GuaranteeReminderAnchor })}
+                    >
+                      <SelectTrigger className="flex-1 bg-white/5 border-white/10" data-testid={`select-reminder-anchor-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="after_request">après la demande</SelectItem>
+                        <SelectItem value="before_reservation">avant la réservation</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleConfigChange('cardReminderSteps', localConfig.cardReminderSteps.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-red-400"
+                      data-testid={`button-remove-reminder-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={localConfig.cardReminderSteps.length >= MAX_REMINDER_STEPS}
+                  onClick={() => handleConfigChange('cardReminderSteps', [...localConfig.cardReminderSteps, { anchor: 'before_reservation', hours: 24 }])}
+                  data-testid="button-add-reminder"
+                >
+                  <Plus className="h-4 w-4 mr-1.5" />
+                  Ajouter une relance
+                </Button>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label className="text-gray-300">Relance par email</Label>
+                    <p className="text-xs text-gray-500">Renvoie l'email avec le lien de validation CB</p>
+                  </div>
+                  <Switch
+                    checked={localConfig.cardReminderEmail}
+                    onCheckedChange={(checked) => handleConfigChange('cardReminderEmail', checked)}
+                    data-testid="switch-card-reminder-email"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label className="text-gray-300">Relance par SMS</Label>
+                    <p className="text-xs text-gray-500">Renvoie le SMS avec le lien de validation CB</p>
+                  </div>
+                  <Switch
+                    checked={localConfig.cardReminderSms}
+                    onCheckedChange={(checked) => handleConfigChange('cardReminderSms', checked)}
+                    disabled={!localConfig.smsEnabled}
+                    data-testid="switch-card-reminder-sms"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <hr className="border-white/10" />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-gray-300">Annulation automatique</Label>
+                <p className="text-xs text-gray-500">Annuler la réservation si la CB n'est toujours pas enregistrée</p>
+              </div>
+              <Switch
+                checked={localConfig.autoCancelPendingHours !== null}
+                onCheckedChange={(checked) => handleConfigChange('autoCancelPendingHours', checked ? 2 : null)}
+                data-testid="switch-auto-cancel"
+              />
+            </div>
+            {localConfig.autoCancelPendingHours !== null && (
+              <div className="flex items-center gap-3">
+                <Input
+                  type="number"
+                  min={1}
+                  max={72}
+                  value={localConfig.autoCancelPendingHours}
+                  onChange={(e) => handleConfigChange('autoCancelPendingHours', Math.min(72, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="w-24 bg-white/5 border-white/10"
+                  data-testid="input-auto-cancel-hours"
+                />
+                <span className="text-gray-400 text-sm">heures avant la réservation</span>
+              </div>
+            )}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'detection' as SectionKey,
+      icon: ScanLine,
+      iconColor: 'text-orange-400',
+      title: 'Détection des no-shows',
+      description: localConfig.noshowDetectionMode === 'off'
+        ? 'Présence marquée manuellement'
+        : localConfig.noshowDetectionMode === 'review'
+        ? `No-shows proposés ${localConfig.noshowGraceMinutes} min après l'heure, à confirmer`
+        : `No-shows appliqués ${localConfig.noshowReviewHours}h après détection sans correction`,
+      content: (
+        <div className="space-y-6">
+          <RadioGroup
+            value={localConfig.noshowDetectionMode}
+            onValueChange={(value) => handleConfigChange('noshowDetectionMode', value as NoshowDetectionMode)}
+            className="space-y-3"
+          >
+            <div className="flex items-center space-x-3">
+              <RadioGroupItem value="off" id="detection_off" data-testid="radio-detection-off" />
+              <Label htmlFor="detection_off" className="text-gray-300 cursor-pointer">
+                Désactivée (présence marquée à la main)
+              </Label>
+            </div>
+            <div className="flex items-center space-x-3">
+              <RadioGroupItem value="review" id="detection_review" data-testid="radio-detection-review" />
+              <Label htmlFor="detection_review" className="text-gray-300 cursor-pointer">
+                Proposer les no-shows, débit après ma confirmation
+              </Label>
+            </div>
+            <div className="flex items-center space-x-3">
+              <RadioGroupItem value="auto" id="detection_auto" data-testid="radio-detection-auto" />
+              <Label htmlFor="detection_auto" className="text-gray-300 cursor-pointer">
+                Appliquer les no-shows automatiquement après un délai de vérification
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {localConfig.noshowDetectionMode !== 'off' && (
+            <>
+              <div className="space-y-3">
+                <Label className="text-gray-300">Preuves d'arrivée</Label>
+                {checkInSources.map((source) => (
+                  <div key={source.value} className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-gray-300">{source.label}</p>
+                      <p className="text-xs text-gray-500">{source.description}</p>
+                    </div>
+                    <Switch
+                      checked={localConfig.noshowDetectionSources.includes(source.value)}
+                      onCheckedChange={(checked) => handleConfigChange(
+                        'noshowDetectionSources',
+                        checked
+                          ? [...localConfig.noshowDetectionSources, source.value]
+                          : localConfig.noshowDetectionSources.filter(value => value !== source.value)
+                      )}
+                      data-testid={`switch-checkin-source-${source.value}`}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <Label className="text-gray-300">Délai de grâce</Label>
+                <div className="flex items-center gap-3 mt-2">
+                  <Input
+                    type="number"
+                    min={5}
+                    max={240}
+                    value={localConfig.noshowGraceMinutes}
+                    onChange={(e) => handleConfigChange('noshowGraceMinutes', Math.min(240, Math.max(5, parseInt(e.target.value) || 5)))}
+                    className="w-24 bg-white/5 border-white/10"
+                    data-testid="input-noshow-grace-minutes"
+                  />
+                  <span className="text-gray-400 text-sm">minutes après l'heure de réservation sans arrivée</span>
+                </div>
+              </div>
+
+              {localConfig.noshowDetectionMode === 'auto' && (
+                <div>
+                  <Label className="text-gray-300">Délai de vérification</Label>
+                  <div className="flex items-center gap-3 mt-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={168}
+                      value={localConfig.noshowReviewHours}
+                      onChange={(e) => handleConfigChange('noshowReviewHours', Math.min(168, Math.max(1, parseInt(e.target.value) || 1)))}
+                      className="w-24 bg-white/5 border-white/10"
+                      data-testid="input-noshow-review-hours"
+                    />
+                    <span className="text-gray-400 text-sm">heures pour corriger avant le débit</span>
+                  </div>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">
+                Les no-shows détectés apparaissent dans « No-shows à vérifier » sur la page des réservations. Aucun débit n'a lieu avant votre confirmation ou la fin du délai de vérification.
+              </p>
+            </>
+          )}
+        </div>
+      ),
+    },
   ];
 
   return (
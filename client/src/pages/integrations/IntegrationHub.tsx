@@ -1,14 +1,17 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { 
@@ -34,7 +37,9 @@ import {
   RefreshCw,
   Trash2,
   Clock,
-  Info
+  Info,
+  Eye,
+  FileSpreadsheet
 } from "lucide-react";
 import { 
   SiHubspot, 
@@ -61,7 +66,33 @@ interface Connection {
 }
 
 type IntegrationTier = "standard" | "premium" | "custom";
-type AuthMethod = "oauth" | "api_key" | "api_key_secret" | "credentials" | "csv_import" | "webhook";
+type AuthMethod = "oauth" | "api_key" | "api_key_secret" | "credentials" | "csv_import" | "webhook" | "spreadsheet";
+
+type SpreadsheetEntity = "contact" | "order";
+
+type DatabaseEntity = "contact" | "order" | "product";
+
+interface DatabaseTable {
+  name: string;
+  columns: { name: string; type: string }[];
+}
+
+interface DatabaseSource {
+  table: string;
+  idColumn: string;
+  updatedAtColumn: string;
+}
+
+const EMPTY_DATABASE_SOURCE: DatabaseSource = { table: "", idColumn: "", updatedAtColumn: "" };
+
+interface SpreadsheetPreview {
+  headers: string[];
+  headerRow: number;
+  rows: Record<string, string>[];
+  totalRows: number;
+  suggestedMappings: Record<string, string>;
+  suggestedKeyColumn: string | null;
+}
 
 interface Integration {
   id: string;
@@ -154,9 +185,12 @@ const INTEGRATIONS: Integration[] = [
     { key: "apiKey", label: "Integration Token", type: "password", placeholder: "secret_...", required: true },
     { key: "databaseId", label: "Database ID", type: "text", placeholder: "ID de la base Notion", required: true }
   ] },
-  { id: "googlesheets", name: "Google Sheets", description: "Feuilles de calcul Google", category: "database", tier: "standard", authMethod: "api_key", color: "#34A853", fields: [
-    { key: "apiKey", label: "Service Account JSON", type: "password", placeholder: "Clé JSON du compte de service", required: true },
-    { key: "spreadsheetId", label: "Spreadsheet ID", type: "text", placeholder: "ID de la feuille", required: true }
+  { id: "googlesheets", name: "Google Sheets", description: "Feuilles de calcul Google", category: "database", tier: "standard", authMethod: "spreadsheet", color: "#34A853", fields: [
+    { key: "instanceUrl", label: "URL de la feuille", type: "text", placeholder: "https://docs.google.com/spreadsheets/d/...", required: true },
+    { key: "apiKey", label: "Clé API ou JSON du compte de service", type: "password", placeholder: "Uniquement pour les feuilles privées", required: false }
+  ] },
+  { id: "csv_url", name: "Fichier CSV (URL)", description: "Fichier CSV publié depuis Google Sheets ou Drive", category: "database", tier: "standard", authMethod: "spreadsheet", color: "#0F766E", fields: [
+    { key: "instanceUrl", label: "URL du fichier CSV", type: "text", placeholder: "https://docs.google.com/spreadsheets/d/e/.../pub?output=csv", required: true }
   ] },
   { id: "postgresql", name: "PostgreSQL", description: "Base de données relationnelle", category: "database", tier: "premium", authMethod: "credentials", color: "#336791", fields: [
     { key: "host", label: "Host", type: "text", required: true },
@@ -164,14 +198,17 @@ const INTEGRATIONS: Integration[] = [
     { key: "database", label: "Database", type: "text", required: true },
     { key: "user", label: "User", type: "text", required: true },
     { key: "password", label: "Password", type: "password", required: true },
-    { key: "ssl", label: "SSL", type: "toggle", required: false }
+    { key: "ssl", label: "SSL", type: "toggle", required: false },
+    { key: "sslCa", label: "Certificat CA (PEM)", type: "textarea", placeholder: "Uniquement pour une autorité de certification privée", required: false }
   ] },
   { id: "mysql", name: "MySQL", description: "Base de données relationnelle", category: "database", tier: "premium", authMethod: "credentials", color: "#4479A1", fields: [
     { key: "host", label: "Host", type: "text", required: true },
     { key: "port", label: "Port", type: "text", placeholder: "3306", required: true },
     { key: "database", label: "Database", type: "text", required: true },
     { key: "user", label: "User", type: "text", required: true },
-    { key: "password", label: "Password", type: "password", required: true }
+    { key: "password", label: "Password", type: "password", required: true },
+    { key: "ssl", label: "SSL", type: "toggle", required: false },
+    { key: "sslCa", label: "Certificat CA (PEM)", type: "textarea", placeholder: "Uniquement pour une autorité de certification privée", required: false }
   ] },
 
   // Personnalisé
@@ -209,6 +246,7 @@ const ProviderLogo = ({ provider, color, size = "md" }: { provider: string; colo
       case "airtable": return <SiAirtable className={iconSizes[size]} />;
       case "notion": return <SiNotion className={iconSizes[size]} />;
       case "googlesheets": return <SiGooglesheets className={iconSizes[size]} />;
+      case "csv_url": return <FileSpreadsheet className={iconSizes[size]} />;
       case "pipedrive": return <span className="font-bold text-sm">P</span>;
       case "monday": return <span className="font-bold text-sm">M</span>;
       case "zoho": return <span className="font-bold text-sm">Z</span>;
@@ -253,14 +291,47 @@ export default function IntegrationHub() {
   const [formData, setFormData] = useState<Record<string, string>>({});
   const [isTesting, setIsTesting] = useState(false);
   const [testSuccess, setTestSuccess] = useState<boolean | null>(null);
+  const [spreadsheetEntity, setSpreadsheetEntity] = useState<SpreadsheetEntity>("contact");
+  const [spreadsheetPreview, setSpreadsheetPreview] = useState<SpreadsheetPreview | null>(null);
+  const [keyColumn, setKeyColumn] = useState<string>("");
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [databaseConnectionId, setDatabaseConnectionId] = useState<string | null>(null);
+  const [databaseEntity, setDatabaseEntity] = useState<DatabaseEntity>("contact");
+  const [databaseSource, setDatabaseSource] = useState<DatabaseSource>(EMPTY_DATABASE_SOURCE);
 
   const { data: connections, isLoading: loadingConnections } = useQuery<Connection[]>({
     queryKey: ["/api/integrations/connections"],
   });
 
+  const { data: databaseTables, isLoading: loadingDatabaseTables } = useQuery<DatabaseTable[]>({
+    queryKey: [`/api/integrations/connections/${databaseConnectionId}/database/tables`],
+    enabled: !!databaseConnectionId,
+  });
+  const selectedTable = databaseTables?.find(t => t.name === databaseSource.table);
+
+  const { data: oauthStatus } = useQuery<Record<string, boolean>>({
+    queryKey: ["/api/integrations/oauth-status"],
+  });
+
+  // Retour du flux OAuth (?success=... / ?error=...)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const success = params.get("success");
+    const error = params.get("error");
+    if (!success && !error) return;
+
+    if (success) {
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations/connections"] });
+      toast({ title: "Connexion réussie!", description: "L'intégration est maintenant active." });
+    } else {
+      toast({ title: "Erreur de connexion", description: `Échec de l'autorisation (${error})`, variant: "destructive" });
+    }
+    window.history.replaceState({}, "", window.location.pathname);
+  }, [toast]);
+
   const connectMutation = useMutation({
     mutationFn: async (data: { provider: string; credentials: Record<string, string> }) => {
-      const response = await apiRequest("POST", "/api/integrations/connect-apikey", {
+      const response = await apiRequest("POST", "/api/integrations/connections/create-and-connect", {
         provider: data.provider,
         name: `Mon ${data.provider}`,
         ...data.credentials
@@ -277,6 +348,103 @@ export default function IntegrationHub() {
     }
   });
 
+  // Feuilles / CSV : la connexion puis la source (colonne clé + mapping détecté) de l'entité choisie
+  const spreadsheetConnectMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedIntegration || !spreadsheetPreview) return null;
+      const response = await apiRequest("POST", "/api/integrations/connections/create-and-connect", {
+        provider: selectedIntegration.id,
+        name: selectedIntegration.name,
+        authType: "api_key",
+        apiKey: formData.apiKey || undefined,
+        instanceUrl: formData.instanceUrl
+      });
+      const result = await response.json();
+      await apiRequest("PUT", `/api/integrations/connections/${result.connection.id}/mappings/${spreadsheetEntity}`, {
+        mappings: spreadsheetPreview.suggestedMappings,
+        customFields: [],
+        sourceConfig: { keyColumn, headerRow: spreadsheetPreview.headerRow }
+      });
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations/connections"] });
+      toast({ title: "Connexion réussie!", description: "La feuille sera synchronisée automatiquement." });
+      closeConnectDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur de connexion", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Bases de données : la connexion est testée avec les identifiants, puis on choisit la table de chaque entité
+  const databaseConnectMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedIntegration) return null;
+      // Une tentative précédente échouée a déjà créé la connexion
+      let connectionId = getConnection(selectedIntegration.id)?.id;
+      if (!connectionId) {
+        const response = await apiRequest("POST", "/api/integrations/connections/create-and-connect", {
+          provider: selectedIntegration.id,
+          name: selectedIntegration.name,
+          authType: "database_credentials"
+        });
+        connectionId = (await response.json()).connection.id as string;
+      }
+      const response = await apiRequest("POST", `/api/integrations/connections/${connectionId}/connect-database`, {
+        host: formData.host,
+        port: formData.port,
+        database: formData.database,
+        username: formData.user,
+        password: formData.password,
+        ssl: formData.ssl !== "false",
+        sslCa: formData.sslCa || undefined
+      });
+      await response.json();
+      return connectionId;
+    },
+    onSuccess: (connectionId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations/connections"] });
+      toast({ title: "Connexion réussie!", description: "Choisissez maintenant les tables à synchroniser." });
+      setDatabaseConnectionId(connectionId);
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/integrations/connections"] });
+      toast({ title: "Erreur de connexion", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const databaseSourceMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", `/api/integrations/connections/${databaseConnectionId}/mappings/${databaseEntity}`, {
+        mappings: {},
+        customFields: [],
+        sourceConfig: {
+          table: databaseSource.table,
+          idColumn: databaseSource.idColumn,
+          updatedAtColumn: databaseSource.updatedAtColumn || undefined
+        }
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Table enregistrée", description: "Elle sera lue à la prochaine synchronisation." });
+      setDatabaseSource(EMPTY_DATABASE_SOURCE);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Colonnes suggérées d'après les noms usuels (id, updated_at)
+  const handleSelectTable = (name: string) => {
+    const columns = databaseTables?.find(t => t.name === name)?.columns.map(c => c.name) || [];
+    setDatabaseSource({
+      table: name,
+      idColumn: columns.includes("id") ? "id" : columns[0] || "",
+      updatedAtColumn: columns.find(c => ["updated_at", "updatedat", "modified_at"].includes(c.toLowerCase())) || ""
+    });
+  };
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => apiRequest("DELETE", `/api/integrations/connections/${id}`),
     onSuccess: () => {
@@ -301,17 +469,22 @@ export default function IntegrationHub() {
     setSelectedIntegration(null);
     setFormData({});
     setTestSuccess(null);
+    setSpreadsheetPreview(null);
+    setKeyColumn("");
+    setDatabaseConnectionId(null);
+    setDatabaseEntity("contact");
+    setDatabaseSource(EMPTY_DATABASE_SOURCE);
   };
 
-  // Liste des providers avec OAuth implémenté côté backend (aucun pour l'instant)
-  const OAUTH_IMPLEMENTED: string[] = [];
+  // Liste des providers avec OAuth implémenté côté backend (utilisé si les identifiants OAuth sont configurés)
+  const OAUTH_IMPLEMENTED: string[] = ["salesforce"];
   
   const handleConnect = (integration: Integration) => {
     setSelectedIntegration(integration);
     setFormData({});
     setTestSuccess(null);
     
-    if (integration.authMethod === "oauth" && OAUTH_IMPLEMENTED.includes(integration.id)) {
+    if (OAUTH_IMPLEMENTED.includes(integration.id) && oauthStatus?.[integration.id]) {
       // OAuth implémenté - redirection vers le flux OAuth
       window.location.href = `/api/integrations/oauth/${integration.id}/start`;
     } else {
@@ -346,8 +519,33 @@ export default function IntegrationHub() {
     }
   };
 
+  const handlePreviewSpreadsheet = async (entity: SpreadsheetEntity = spreadsheetEntity) => {
+    if (!formData.instanceUrl) return;
+    setIsPreviewing(true);
+
+    try {
+      const response = await apiRequest("POST", "/api/integrations/spreadsheet/preview", {
+        url: formData.instanceUrl,
+        apiKey: formData.apiKey || undefined,
+        entityType: entity
+      });
+      const preview: SpreadsheetPreview = await response.json();
+      setSpreadsheetPreview(preview);
+      setKeyColumn(preview.suggestedKeyColumn || "");
+    } catch (error) {
+      setSpreadsheetPreview(null);
+      toast({ title: "Aperçu impossible", description: error instanceof Error ? error.message : "Erreur de lecture", variant: "destructive" });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const handleSubmitConnection = () => {
     if (!selectedIntegration) return;
+    if (selectedIntegration.authMethod === "credentials") {
+      databaseConnectMutation.mutate();
+      return;
+    }
     connectMutation.mutate({ provider: selectedIntegration.id, credentials: formData });
   };
 
@@ -485,6 +683,14 @@ export default function IntegrationHub() {
                       <RefreshCw className={`h-3 w-3 mr-1 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
                       Sync
                     </Button>
+                    {conn.provider === "webhook" && (
+                      <Link href={`/integrations/webhooks/${conn.id}`}>
+                        <Button size="sm" variant="outline" data-testid={`button-webhook-mapping-${conn.id}`}>
+                          <Cog className="h-3 w-3 mr-1" />
+                          Mapping
+                        </Button>
+                      </Link>
+                    )}
                     <Button 
                       size="sm" 
                       variant="ghost" 
@@ -638,6 +844,102 @@ export default function IntegrationHub() {
                       C'est noté
                     </Button>
                   </div>
+                ) : selectedIntegration.authMethod === "credentials" && databaseConnectionId ? (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Importer comme</Label>
+                      <Select 
+                        value={databaseEntity} 
+                        onValueChange={(v) => {
+                          setDatabaseEntity(v as DatabaseEntity);
+                          setDatabaseSource(EMPTY_DATABASE_SOURCE);
+                        }}
+                      >
+                        <SelectTrigger data-testid="select-database-entity">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="contact">Clients</SelectItem>
+                          <SelectItem value="order">Commandes / réservations</SelectItem>
+                          <SelectItem value="product">Produits</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Table <span className="text-destructive">*</span></Label>
+                      <Select value={databaseSource.table} onValueChange={handleSelectTable} disabled={loadingDatabaseTables}>
+                        <SelectTrigger data-testid="select-database-table">
+                          <SelectValue placeholder={loadingDatabaseTables ? "Chargement des tables..." : "Sélectionner..."} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {databaseTables?.map((table) => (
+                            <SelectItem key={table.name} value={table.name}>{table.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {databaseTables?.length === 0 && (
+                        <p className="text-xs text-muted-foreground">Aucune table lisible avec cet utilisateur.</p>
+                      )}
+                    </div>
+
+                    {selectedTable && (
+                      <div className="grid gap-4 grid-cols-2">
+                        <div className="space-y-2">
+                          <Label>Colonne identifiant <span className="text-destructive">*</span></Label>
+                          <Select value={databaseSource.idColumn} onValueChange={(v) => setDatabaseSource(prev => ({ ...prev, idColumn: v }))}>
+                            <SelectTrigger data-testid="select-database-id-column">
+                              <SelectValue placeholder="Sélectionner..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {selectedTable.columns.map((column) => (
+                                <SelectItem key={column.name} value={column.name}>{column.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Date de mise à jour</Label>
+                          <Select 
+                            value={databaseSource.updatedAtColumn || "none"} 
+                            onValueChange={(v) => setDatabaseSource(prev => ({ ...prev, updatedAtColumn: v === "none" ? "" : v }))}
+                          >
+                            <SelectTrigger data-testid="select-database-updated-column">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Aucune (lecture complète)</SelectItem>
+                              {selectedTable.columns.map((column) => (
+                                <SelectItem key={column.name} value={column.name}>{column.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Les colonnes nommées comme les champs SpeedAI (email, first_name, phone...) sont reprises automatiquement.
+                    </p>
+
+                    <div className="flex gap-2 pt-4">
+                      <Button variant="outline" onClick={closeConnectDialog} className="flex-1" data-testid="button-close-database">
+                        Terminer
+                      </Button>
+                      <Button 
+                        onClick={() => databaseSourceMutation.mutate()}
+                        disabled={databaseSourceMutation.isPending || !databaseSource.table || !databaseSource.idColumn}
+                        className="flex-1"
+                        data-testid="button-save-database-source"
+                      >
+                        {databaseSourceMutation.isPending ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                        )}
+                        Enregistrer la table
+                      </Button>
+                    </div>
+                  </div>
                 ) : (
                   <>
                     {selectedIntegration.fields?.map((field) => (
@@ -676,12 +978,22 @@ export default function IntegrationHub() {
                         ) : field.type === "toggle" ? (
                           <div className="flex items-center gap-2">
                             <Switch 
-                              checked={formData[field.key] === "true"}
+                              checked={formData[field.key] !== "false"}
                               onCheckedChange={(v) => setFormData(prev => ({ ...prev, [field.key]: v ? "true" : "false" }))}
                               data-testid={`switch-${field.key}`}
                             />
                             <span className="text-sm text-muted-foreground">Activer SSL</span>
                           </div>
+                        ) : field.type === "textarea" ? (
+                          <Textarea
+                            id={field.key}
+                            placeholder={field.placeholder}
+                            value={formData[field.key] || ""}
+                            onChange={(e) => setFormData(prev => ({ ...prev, [field.key]: e.target.value }))}
+                            rows={3}
+                            className="font-mono text-xs"
+                            data-testid={`input-${field.key}`}
+                          />
                         ) : (
                           <Input
                             id={field.key}
@@ -695,32 +1007,137 @@ export default function IntegrationHub() {
                       </div>
                     ))}
 
-                    <div className="flex gap-2 pt-4">
-                      <Button 
-                        variant="outline" 
-                        onClick={handleTestConnection}
-                        disabled={isTesting}
-                        className="flex-1"
-                        data-testid="button-test-connection"
-                      >
-                        {isTesting ? (
-                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        ) : testSuccess === true ? (
-                          <CheckCircle className="h-4 w-4 mr-2 text-green-500" />
-                        ) : testSuccess === false ? (
-                          <AlertTriangle className="h-4 w-4 mr-2 text-destructive" />
-                        ) : (
-                          <Key className="h-4 w-4 mr-2" />
+                    {selectedIntegration.authMethod === "spreadsheet" ? (
+                      <>
+                        <div className="space-y-2">
+                          <Label>Importer comme</Label>
+                          <Select 
+                            value={spreadsheetEntity} 
+                            onValueChange={(v) => {
+                              setSpreadsheetEntity(v as SpreadsheetEntity);
+                              if (spreadsheetPreview) handlePreviewSpreadsheet(v as SpreadsheetEntity);
+                            }}
+                          >
+                            <SelectTrigger data-testid="select-spreadsheet-entity">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="contact">Clients</SelectItem>
+                              <SelectItem value="order">Commandes / réservations</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        {spreadsheetPreview && (
+                          <div className="space-y-3">
+                            <p className="text-xs text-muted-foreground">
+                              {spreadsheetPreview.totalRows} lignes détectées (en-têtes en ligne {spreadsheetPreview.headerRow})
+                            </p>
+                            <div className="border rounded-lg max-h-56 overflow-auto">
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    {spreadsheetPreview.headers.map((header) => (
+                                      <TableHead key={header} className="whitespace-nowrap text-xs">
+                                        {header}
+                                        {spreadsheetPreview.suggestedMappings[header] && (
+                                          <Badge variant="secondary" className="ml-1 text-[10px]">
+                                            {spreadsheetPreview.suggestedMappings[header]}
+                                          </Badge>
+                                        )}
+                                      </TableHead>
+                                    ))}
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {spreadsheetPreview.rows.slice(0, 5).map((row, index) => (
+                                    <TableRow key={index}>
+                                      {spreadsheetPreview.headers.map((header) => (
+                                        <TableCell key={header} className="whitespace-nowrap text-xs py-1">{row[header]}</TableCell>
+                                      ))}
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </div>
+                            <div className="space-y-2">
+                              <Label>Colonne clé <span className="text-destructive">*</span></Label>
+                              <Select value={keyColumn} onValueChange={setKeyColumn}>
+                                <SelectTrigger data-testid="select-key-column">
+                                  <SelectValue placeholder="Sélectionner..." />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {spreadsheetPreview.headers.map((header) => (
+                                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <p className="text-xs text-muted-foreground">
+                                Identifiant unique de chaque ligne : les lignes déjà importées sont mises à jour, jamais dupliquées.
+                              </p>
+                            </div>
+                          </div>
                         )}
-                        Tester
-                      </Button>
+
+                        <div className="flex gap-2 pt-4">
+                          <Button 
+                            variant="outline" 
+                            onClick={() => handlePreviewSpreadsheet()}
+                            disabled={isPreviewing || !formData.instanceUrl}
+                            className="flex-1"
+                            data-testid="button-preview-spreadsheet"
+                          >
+                            {isPreviewing ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Eye className="h-4 w-4 mr-2" />
+                            )}
+                            Aperçu
+                          </Button>
+                          <Button 
+                            onClick={() => spreadsheetConnectMutation.mutate()}
+                            disabled={spreadsheetConnectMutation.isPending || !spreadsheetPreview || !keyColumn}
+                            className="flex-1"
+                            data-testid="button-submit-spreadsheet"
+                          >
+                            {spreadsheetConnectMutation.isPending ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Plug className="h-4 w-4 mr-2" />
+                            )}
+                            Connecter
+                          </Button>
+                        </div>
+                      </>
+                    ) : (
+                    <div className="flex gap-2 pt-4">
+                      {selectedIntegration.authMethod !== "credentials" && (
+                        <Button 
+                          variant="outline" 
+                          onClick={handleTestConnection}
+                          disabled={isTesting}
+                          className="flex-1"
+                          data-testid="button-test-connection"
+                        >
+                          {isTesting ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : testSuccess === true ? (
+                            <CheckCircle className="h-4 w-4 mr-2 text-green-500" />
+                          ) : testSuccess === false ? (
+                            <AlertTriangle className="h-4 w-4 mr-2 text-destructive" />
+                          ) : (
+                            <Key className="h-4 w-4 mr-2" />
+                          )}
+                          Tester
+                        </Button>
+                      )}
                       <Button 
                         onClick={handleSubmitConnection}
-                        disabled={connectMutation.isPending || !selectedIntegration.fields?.every(f => !f.required || formData[f.key])}
+                        disabled={connectMutation.isPending || databaseConnectMutation.isPending || !selectedIntegration.fields?.every(f => !f.required || formData[f.key])}
                         className="flex-1"
                         data-testid="button-submit-connection"
                       >
-                        {connectMutation.isPending ? (
+                        {connectMutation.isPending || databaseConnectMutation.isPending ? (
                           <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                         ) : (
                           <Plug className="h-4 w-4 mr-2" />
@@ -728,6 +1145,7 @@ export default function IntegrationHub() {
                         Connecter
                       </Button>
                     </div>
+                    )}
                   </>
                 )}
               </div>
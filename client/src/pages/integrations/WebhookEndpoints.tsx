@@ -0,0 +1,502 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  Copy,
+  FileJson,
+  KeyRound,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Send,
+  Trash2,
+  Webhook
+} from "lucide-react";
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[];
+  isActive: boolean;
+  consecutiveFailures: number;
+  lastDeliveryAt: string | null;
+  lastDeliveryStatus: string | null;
+  createdAt: string;
+}
+
+interface WebhookEventOption {
+  event: string;
+  description: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  event: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+interface EndpointForm {
+  url: string;
+  description: string;
+  events: string[];
+}
+
+const EMPTY_FORM: EndpointForm = { url: "", description: "", events: [] };
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  success: { label: "Livré", className: "bg-green-500/10 text-green-500 border-green-500/20" },
+  pending: { label: "En cours", className: "bg-blue-500/10 text-blue-500 border-blue-500/20" },
+  retrying: { label: "Nouvel essai prévu", className: "bg-orange-500/10 text-orange-500 border-orange-500/20" },
+  failed: { label: "Échec", className: "bg-red-500/10 text-red-500 border-red-500/20" }
+};
+
+export default function WebhookEndpoints() {
+  const { toast } = useToast();
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookEndpoint | null>(null);
+  const [form, setForm] = useState<EndpointForm>(EMPTY_FORM);
+  // Le secret complet n'est renvoyé qu'à la création et à la rotation
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [selectedEndpointId, setSelectedEndpointId] = useState<string | null>(null);
+  const [selectedDelivery, setSelectedDelivery] = useState<WebhookDelivery | null>(null);
+
+  const { data: endpoints, isLoading } = useQuery<WebhookEndpoint[]>({
+    queryKey: ["/api/webhook-endpoints"]
+  });
+
+  const { data: eventOptions } = useQuery<WebhookEventOption[]>({
+    queryKey: ["/api/webhook-endpoints/events"]
+  });
+
+  const selectedEndpoint = endpoints?.find(e => e.id === selectedEndpointId) || endpoints?.[0];
+  const deliveriesKey = selectedEndpoint ? `/api/webhook-endpoints/${selectedEndpoint.id}/deliveries` : null;
+
+  const { data: deliveries, isLoading: deliveriesLoading, refetch: refetchDeliveries } = useQuery<WebhookDelivery[]>({
+    queryKey: [deliveriesKey],
+    enabled: !!deliveriesKey
+  });
+
+  const refreshAll = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/webhook-endpoints"] });
+    if (deliveriesKey) {
+      queryClient.invalidateQueries({ queryKey: [deliveriesKey] });
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { url: form.url.trim(), description: form.description.trim() || undefined, events: form.events };
+      const response = editing
+        ? await apiRequest("PATCH", `/api/webhook-endpoints/${editing.id}`, body)
+        : await apiRequest("POST", "/api/webhook-endpoints", body);
+      return response.json() as Promise<WebhookEndpoint>;
+    },
+    onSuccess: (endpoint) => {
+      if (!editing) {
+        setRevealedSecret(endpoint.secret);
+        setSelectedEndpointId(endpoint.id);
+      }
+      setFormOpen(false);
+      refreshAll();
+      toast({ title: editing ? "Webhook mis à jour" : "Webhook créé" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/webhook-endpoints/${id}`, { isActive }),
+    onSuccess: () => refreshAll(),
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/webhook-endpoints/${id}`),
+    onSuccess: () => {
+      setSelectedEndpointId(null);
+      refreshAll();
+      toast({ title: "Webhook supprimé" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/webhook-endpoints/${id}/rotate-secret`);
+      return response.json() as Promise<WebhookEndpoint>;
+    },
+    onSuccess: (endpoint) => {
+      setRevealedSecret(endpoint.secret);
+      refreshAll();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/webhook-endpoints/${id}/test`, {});
+      return response.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery, id) => {
+      setSelectedEndpointId(id);
+      refreshAll();
+      toast({
+        title: delivery.status === "success" ? "Événement test livré" : "Échec de la livraison test",
+        description: delivery.status === "success"
+          ? `Réponse HTTP ${delivery.responseStatus} en ${delivery.durationMs} ms`
+          : delivery.error || undefined,
+        variant: delivery.status === "success" ? undefined : "destructive"
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (delivery: WebhookDelivery) => {
+      const response = await apiRequest("POST", `/api/webhook-endpoints/${selectedEndpoint?.id}/deliveries/${delivery.id}/retry`);
+      return response.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      refreshAll();
+      toast({
+        title: delivery.status === "success" ? "Livraison réussie" : "Nouvel échec",
+        description: delivery.error || undefined,
+        variant: delivery.status === "success" ? undefined : "destructive"
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ ...EMPTY_FORM, events: eventOptions?.map(o => o.event) || [] });
+    setFormOpen(true);
+  };
+
+  const openEdit = (endpoint: WebhookEndpoint) => {
+    setEditing(endpoint);
+    setForm({ url: endpoint.url, description: endpoint.description || "", events: endpoint.events });
+    setFormOpen(true);
+  };
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event)
+    }));
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret);
+    toast({ title: "Secret copié" });
+  };
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return "—";
+    return new Date(dateStr).toLocaleString("fr-FR", { day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+  };
+
+  return (
+    <div className="space-y-4 md:space-y-6 p-4 md:p-0">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-lg flex items-center justify-center bg-[#C8B88A]/20">
+            <Webhook className="h-5 w-5 text-[#C8B88A]" />
+          </div>
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">Webhooks sortants</h1>
+            <p className="text-sm text-muted-foreground">Recevez les événements SpeedAI dans vos propres outils</p>
+          </div>
+        </div>
+        <Button onClick={openCreate} data-testid="button-add-endpoint">
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Endpoints</CardTitle>
+          <CardDescription>
+            Chaque livraison est signée : vérifiez l'en-tête X-SpeedAI-Signature (HMAC SHA-256 de "timestamp.corps" avec votre secret).
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !endpoints?.length ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Aucun webhook configuré</p>
+          ) : (
+            <div className="space-y-3">
+              {endpoints.map((endpoint) => (
+                <div
+                  key={endpoint.id}
+                  className={`border rounded-lg p-3 flex flex-col md:flex-row md:items-center gap-3 cursor-pointer ${selectedEndpoint?.id === endpoint.id ? "border-[#C8B88A]" : ""}`}
+                  onClick={() => setSelectedEndpointId(endpoint.id)}
+                  data-testid={`card-endpoint-${endpoint.id}`}
+                >
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm truncate">{endpoint.url}</span>
+                      {!endpoint.isActive && <Badge variant="outline">Désactivé</Badge>}
+                    </div>
+                    {endpoint.description && <p className="text-xs text-muted-foreground">{endpoint.description}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map((event) => (
+                        <Badge key={event} variant="secondary" className="text-[10px] font-mono">{event}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Dernière livraison : {formatDate(endpoint.lastDeliveryAt)}
+                      {endpoint.lastDeliveryStatus && ` (${STATUS_BADGES[endpoint.lastDeliveryStatus]?.label.toLowerCase() || endpoint.lastDeliveryStatus})`}
+                      {endpoint.consecutiveFailures > 0 && ` · ${endpoint.consecutiveFailures} échec(s) consécutif(s)`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <Switch
+                      checked={endpoint.isActive}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: endpoint.id, isActive })}
+                      data-testid={`switch-endpoint-${endpoint.id}`}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => testMutation.mutate(endpoint.id)}
+                      disabled={testMutation.isPending || !endpoint.isActive}
+                      title="Envoyer un événement test"
+                      data-testid={`button-test-endpoint-${endpoint.id}`}
+                    >
+                      {testMutation.isPending && testMutation.variables === endpoint.id
+                        ? <Loader2 className="h-4 w-4 animate-spin" />
+                        : <Send className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => rotateMutation.mutate(endpoint.id)}
+                      disabled={rotateMutation.isPending}
+                      title="Régénérer le secret"
+                      data-testid={`button-rotate-secret-${endpoint.id}`}
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => openEdit(endpoint)} data-testid={`button-edit-endpoint-${endpoint.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        if (confirm("Supprimer ce webhook ?")) deleteMutation.mutate(endpoint.id);
+                      }}
+                      data-testid={`button-delete-endpoint-${endpoint.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedEndpoint && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+            <div className="min-w-0">
+              <CardTitle className="text-base">Livraisons</CardTitle>
+              <CardDescription className="font-mono truncate">{selectedEndpoint.url}</CardDescription>
+            </div>
+            <Button variant="outline" size="icon" onClick={() => refetchDeliveries()} data-testid="button-refresh-deliveries">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {deliveriesLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : !deliveries?.length ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Aucune livraison pour le moment</p>
+            ) : (
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Événement</TableHead>
+                      <TableHead>Statut</TableHead>
+                      <TableHead>Réponse</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveries.map((delivery) => (
+                      <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                        <TableCell className="text-xs whitespace-nowrap">{formatDate(delivery.createdAt)}</TableCell>
+                        <TableCell className="text-xs font-mono">{delivery.event}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={STATUS_BADGES[delivery.status]?.className}>
+                            {STATUS_BADGES[delivery.status]?.label || delivery.status}
+                          </Badge>
+                          <div className="text-[10px] text-muted-foreground mt-1">
+                            {delivery.attempts} tentative(s)
+                            {delivery.status === "retrying" && ` · prochaine ${formatDate(delivery.nextAttemptAt)}`}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs max-w-[240px]">
+                          <div>{delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "—"}{delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}</div>
+                          {delivery.error && <div className="text-destructive truncate" title={delivery.error}>{delivery.error}</div>}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button size="sm" variant="ghost" onClick={() => setSelectedDelivery(delivery)} data-testid={`button-view-delivery-${delivery.id}`}>
+                            <FileJson className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => retryMutation.mutate(delivery)}
+                            disabled={retryMutation.isPending || delivery.status === "success"}
+                            title="Renvoyer"
+                            data-testid={`button-retry-delivery-${delivery.id}`}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Modifier le webhook" : "Nouveau webhook"}</DialogTitle>
+            <DialogDescription>Les événements sont envoyés en POST au format JSON.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>URL <span className="text-destructive">*</span></Label>
+              <Input
+                value={form.url}
+                onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                placeholder="https://exemple.com/webhooks/speedai"
+                data-testid="input-endpoint-url"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="CRM, Zapier..."
+                data-testid="input-endpoint-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Événements</Label>
+              {eventOptions?.map((option) => (
+                <label key={option.event} className="flex items-start gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={form.events.includes(option.event)}
+                    onCheckedChange={(checked) => toggleEvent(option.event, checked === true)}
+                    data-testid={`checkbox-event-${option.event}`}
+                  />
+                  <span>
+                    <span className="font-mono text-xs">{option.event}</span>
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Annuler</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.url || form.events.length === 0 || saveMutation.isPending}
+              data-testid="button-save-endpoint"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Secret de signature</DialogTitle>
+            <DialogDescription>Copiez-le maintenant : il ne sera plus affiché en entier.</DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={revealedSecret || ""} className="font-mono text-xs" data-testid="input-revealed-secret" />
+            <Button variant="outline" size="icon" onClick={copySecret} data-testid="button-copy-secret">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedDelivery} onOpenChange={(open) => !open && setSelectedDelivery(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Livraison {selectedDelivery?.event}</DialogTitle>
+          </DialogHeader>
+          <pre className="text-xs bg-muted rounded-lg p-3 max-h-[40vh] overflow-auto">
+            {selectedDelivery && JSON.stringify(selectedDelivery.payload, null, 2)}
+          </pre>
+          {selectedDelivery?.responseBody && (
+            <div className="space-y-1">
+              <Label>Réponse</Label>
+              <pre className="text-xs bg-muted rounded-lg p-3 max-h-40 overflow-auto whitespace-pre-wrap">{selectedDelivery.responseBody}</pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
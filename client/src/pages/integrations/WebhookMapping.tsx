@@ -0,0 +1,589 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  ArrowLeft,
+  Eye,
+  FileJson,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  Save,
+  Webhook
+} from "lucide-react";
+
+type WebhookEntity = "contact" | "order" | "reservation" | "activity";
+
+interface Connection {
+  id: string;
+  provider: string;
+  name: string;
+  webhookUrl: string | null;
+}
+
+interface FieldMapping {
+  id: string;
+  entityType: string;
+  mappings: Record<string, string>;
+  customFields: string[] | null;
+  sourceConfig: WebhookSourceConfig | null;
+}
+
+interface WebhookSourceConfig {
+  recordsPath?: string;
+  idPath: string;
+  eventPath?: string;
+  eventValues?: string[];
+}
+
+interface JsonPathInfo {
+  path: string;
+  type: string;
+  sample?: string;
+}
+
+interface MappingPreview {
+  payloadPaths: JsonPathInfo[];
+  recordPaths: JsonPathInfo[];
+  records: Record<string, unknown>[];
+  errors: string[];
+}
+
+interface WebhookEvent {
+  id: string;
+  eventType: string | null;
+  payload: unknown;
+  status: string;
+  result: Record<string, number> | null;
+  error: string | null;
+  attempts: number;
+  receivedAt: string;
+  processedAt: string | null;
+}
+
+const ENTITY_LABELS: Record<WebhookEntity, string> = {
+  contact: "Contact",
+  order: "Commande",
+  reservation: "Réservation",
+  activity: "Activité"
+};
+
+// Champs canoniques proposés par entité (cible du mapping)
+const TARGET_FIELDS: Record<WebhookEntity, { key: string; label: string }[]> = {
+  contact: [
+    { key: "email", label: "Email" },
+    { key: "firstName", label: "Prénom" },
+    { key: "lastName", label: "Nom" },
+    { key: "phone", label: "Téléphone" },
+    { key: "company", label: "Entreprise" },
+    { key: "address", label: "Adresse" },
+    { key: "city", label: "Ville" },
+    { key: "country", label: "Pays" },
+    { key: "totalSpent", label: "Total dépensé" }
+  ],
+  order: [
+    { key: "customerExternalId", label: "ID client" },
+    { key: "totalAmount", label: "Montant" },
+    { key: "currency", label: "Devise" },
+    { key: "status", label: "Statut" },
+    { key: "orderDate", label: "Date" },
+    { key: "paymentMethod", label: "Moyen de paiement" }
+  ],
+  reservation: [
+    { key: "customerExternalId", label: "ID client" },
+    { key: "customerName", label: "Nom du client" },
+    { key: "customerEmail", label: "Email du client" },
+    { key: "customerPhone", label: "Téléphone du client" },
+    { key: "reservationDate", label: "Date de réservation" },
+    { key: "partySize", label: "Nombre de personnes" },
+    { key: "status", label: "Statut" },
+    { key: "totalAmount", label: "Montant" },
+    { key: "notes", label: "Notes" }
+  ],
+  activity: [
+    { key: "customerExternalId", label: "ID client" },
+    { key: "activityType", label: "Type" },
+    { key: "subject", label: "Sujet" },
+    { key: "description", label: "Description" },
+    { key: "outcome", label: "Résultat" },
+    { key: "staffName", label: "Collaborateur" },
+    { key: "activityDate", label: "Date" },
+    { key: "duration", label: "Durée (min)" }
+  ]
+};
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  processed: { label: "Traité", className: "bg-green-500/10 text-green-500 border-green-500/20" },
+  ignored: { label: "Ignoré", className: "bg-muted text-muted-foreground" },
+  failed: { label: "Échec", className: "bg-red-500/10 text-red-500 border-red-500/20" },
+  received: { label: "Reçu", className: "bg-blue-500/10 text-blue-500 border-blue-500/20" }
+};
+
+// Valeur sentinelle des Select (une valeur vide n'est pas autorisée)
+const NONE = "__none__";
+
+export default function WebhookMapping() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+
+  const [entity, setEntity] = useState<WebhookEntity>("contact");
+  const [samplePayload, setSamplePayload] = useState("");
+  const [sourceConfig, setSourceConfig] = useState<Partial<WebhookSourceConfig>>({});
+  const [eventValues, setEventValues] = useState("");
+  // Édition cible -> chemin, stocké côté serveur en chemin -> cible
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<MappingPreview | null>(null);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEvent | null>(null);
+
+  const { data: connection } = useQuery<Connection>({
+    queryKey: [`/api/integrations/connections/${id}`]
+  });
+
+  const { data: mappings } = useQuery<FieldMapping[]>({
+    queryKey: [`/api/integrations/connections/${id}/mappings`]
+  });
+
+  const eventsUrl = `/api/integrations/connections/${id}/webhook-events${statusFilter !== "all" ? `?status=${statusFilter}` : ""}`;
+  const { data: events, isLoading: eventsLoading, refetch: refetchEvents } = useQuery<WebhookEvent[]>({
+    queryKey: [eventsUrl]
+  });
+
+  // Charger le mapping enregistré de l'entité sélectionnée
+  useEffect(() => {
+    const saved = mappings?.find(m => m.entityType === entity);
+    const config: Partial<WebhookSourceConfig> = saved?.sourceConfig || {};
+    setSourceConfig(config);
+    setEventValues(config.eventValues?.join(", ") || "");
+    setTargets(Object.fromEntries(Object.entries(saved?.mappings || {}).map(([path, target]) => [target, path])));
+    setPreview(null);
+  }, [mappings, entity]);
+
+  // Exemple par défaut : le dernier payload reçu
+  useEffect(() => {
+    if (!samplePayload && events?.length) {
+      setSamplePayload(JSON.stringify(events[0].payload, null, 2));
+    }
+  }, [events, samplePayload]);
+
+  const buildMapping = () => {
+    const mapping: Record<string, string> = {};
+    Object.entries(targets).forEach(([target, path]) => {
+      if (path) mapping[path] = target;
+    });
+    return mapping;
+  };
+
+  const buildSourceConfig = () => ({
+    recordsPath: sourceConfig.recordsPath || undefined,
+    idPath: sourceConfig.idPath,
+    eventPath: sourceConfig.eventPath || undefined,
+    eventValues: eventValues.split(",").map(v => v.trim()).filter(Boolean)
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(samplePayload);
+      } catch {
+        throw new Error("Le payload d'exemple n'est pas un JSON valide");
+      }
+      const response = await apiRequest("POST", `/api/integrations/connections/${id}/webhook-mapping/preview`, {
+        payload,
+        entityType: entity,
+        mappings: buildMapping(),
+        sourceConfig: buildSourceConfig()
+      });
+      return response.json() as Promise<MappingPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({ title: "Aperçu impossible", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => apiRequest("PUT", `/api/integrations/connections/${id}/mappings/${entity}`, {
+      mappings: buildMapping(),
+      customFields: [],
+      sourceConfig: buildSourceConfig()
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/integrations/connections/${id}/mappings`] });
+      toast({ title: "Mapping enregistré", description: "Les prochains webhooks utiliseront ce mapping." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const reprocessMutation = useMutation({
+    mutationFn: async (eventId: string) => {
+      const response = await apiRequest("POST", `/api/integrations/connections/${id}/webhook-events/${eventId}/reprocess`);
+      return response.json() as Promise<WebhookEvent>;
+    },
+    onSuccess: (event) => {
+      refetchEvents();
+      toast({
+        title: event.status === "processed" ? "Événement retraité" : "Retraitement terminé",
+        description: event.error || undefined,
+        variant: event.status === "failed" ? "destructive" : undefined
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return "—";
+    return new Date(dateStr).toLocaleString("fr-FR", { day: "2-digit", month: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+  };
+
+  const formatResult = (result: Record<string, number> | null) => {
+    const entries = Object.entries(result || {});
+    if (entries.length === 0) return "—";
+    return entries.map(([key, count]) => `${count} ${ENTITY_LABELS[key as WebhookEntity]?.toLowerCase() || key}`).join(", ");
+  };
+
+  const payloadPaths = preview?.payloadPaths || [];
+  const recordPaths = preview?.recordPaths.filter(p => p.type !== "object" && p.type !== "array") || [];
+
+  return (
+    <div className="space-y-4 md:space-y-6 p-4 md:p-0">
+      <div className="flex items-center gap-3">
+        <Link href="/integrations">
+          <Button variant="ghost" size="icon" data-testid="button-back">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div className="h-10 w-10 rounded-lg flex items-center justify-center bg-[#C8B88A]/20">
+          <Webhook className="h-5 w-5 text-[#C8B88A]" />
+        </div>
+        <div className="min-w-0">
+          <h1 className="text-xl md:text-2xl font-bold truncate">{connection?.name || "Webhook"}</h1>
+          <p className="text-xs text-muted-foreground font-mono truncate">{connection?.webhookUrl}</p>
+        </div>
+      </div>
+
+      <Tabs defaultValue="mapping">
+        <TabsList>
+          <TabsTrigger value="mapping" data-testid="tab-mapping">Mapping</TabsTrigger>
+          <TabsTrigger value="events" data-testid="tab-events">Journal</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="mapping" className="mt-4 space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Payload d'exemple</CardTitle>
+              <CardDescription>Collez un JSON reçu de votre outil, puis associez ses champs aux données SpeedAI.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-[200px_1fr]">
+                <div className="space-y-2">
+                  <Label>Entité</Label>
+                  <Select value={entity} onValueChange={(v) => setEntity(v as WebhookEntity)}>
+                    <SelectTrigger data-testid="select-entity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ENTITY_LABELS) as WebhookEntity[]).map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {ENTITY_LABELS[key]}
+                          {mappings?.some(m => m.entityType === key) && " ✓"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>JSON</Label>
+                  <Textarea
+                    value={samplePayload}
+                    onChange={(e) => setSamplePayload(e.target.value)}
+                    placeholder='{ "type": "booking.created", "data": { ... } }'
+                    className="font-mono text-xs min-h-[160px]"
+                    data-testid="textarea-sample-payload"
+                  />
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={!samplePayload || previewMutation.isPending}
+                data-testid="button-analyze-payload"
+              >
+                {previewMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                Analyser
+              </Button>
+            </CardContent>
+          </Card>
+
+          {preview && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Mapping {ENTITY_LABELS[entity].toLowerCase()}</CardTitle>
+                <CardDescription>Les chemins des champs sont relatifs à chaque enregistrement.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Enregistrements</Label>
+                    <Select
+                      value={sourceConfig.recordsPath || NONE}
+                      onValueChange={(v) => setSourceConfig(prev => ({ ...prev, recordsPath: v === NONE ? undefined : v }))}
+                    >
+                      <SelectTrigger data-testid="select-records-path">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Payload entier</SelectItem>
+                        {payloadPaths.filter(p => p.type === "array" || p.type === "object").map((p) => (
+                          <SelectItem key={p.path} value={p.path}>{p.path} {p.type === "array" && "[ ]"}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Identifiant unique <span className="text-destructive">*</span></Label>
+                    <Select
+                      value={sourceConfig.idPath || NONE}
+                      onValueChange={(v) => setSourceConfig(prev => ({ ...prev, idPath: v === NONE ? undefined : v }))}
+                    >
+                      <SelectTrigger data-testid="select-id-path">
+                        <SelectValue placeholder="Sélectionner..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>—</SelectItem>
+                        {recordPaths.map((p) => (
+                          <SelectItem key={p.path} value={p.path}>{p.path}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Champ d'événement</Label>
+                    <Select
+                      value={sourceConfig.eventPath || NONE}
+                      onValueChange={(v) => setSourceConfig(prev => ({ ...prev, eventPath: v === NONE ? undefined : v }))}
+                    >
+                      <SelectTrigger data-testid="select-event-path">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>type / event</SelectItem>
+                        {payloadPaths.filter(p => p.type === "string").map((p) => (
+                          <SelectItem key={p.path} value={p.path}>{p.path}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Événements concernés</Label>
+                    <Input
+                      value={eventValues}
+                      onChange={(e) => setEventValues(e.target.value)}
+                      placeholder="booking.created, booking.updated (tous si vide)"
+                      data-testid="input-event-values"
+                    />
+                  </div>
+                </div>
+
+                <div className="border rounded-lg">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Champ SpeedAI</TableHead>
+                        <TableHead>Chemin JSON</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {TARGET_FIELDS[entity].map((field) => (
+                        <TableRow key={field.key}>
+                          <TableCell className="text-sm">{field.label}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={targets[field.key] || NONE}
+                              onValueChange={(v) => setTargets(prev => ({ ...prev, [field.key]: v === NONE ? "" : v }))}
+                            >
+                              <SelectTrigger className="h-8" data-testid={`select-target-${field.key}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NONE}>—</SelectItem>
+                                {recordPaths.map((p) => (
+                                  <SelectItem key={p.path} value={p.path}>
+                                    {p.path}{p.sample && <span className="text-muted-foreground ml-2">{p.sample}</span>}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {(preview.records.length > 0 || preview.errors.length > 0) && (
+                  <div className="space-y-2">
+                    <Label>Résultat</Label>
+                    {preview.errors.map((error, index) => (
+                      <p key={index} className="text-xs text-destructive">{error}</p>
+                    ))}
+                    {preview.records.length > 0 && (
+                      <pre className="text-xs bg-muted rounded-lg p-3 max-h-64 overflow-auto">
+                        {JSON.stringify(preview.records, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => previewMutation.mutate()}
+                    disabled={previewMutation.isPending}
+                    data-testid="button-test-mapping"
+                  >
+                    <Eye className="h-4 w-4 mr-2" />
+                    Tester
+                  </Button>
+                  <Button
+                    onClick={() => saveMutation.mutate()}
+                    disabled={!sourceConfig.idPath || saveMutation.isPending}
+                    data-testid="button-save-mapping"
+                  >
+                    {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    Enregistrer
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="events" className="mt-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+              <div>
+                <CardTitle className="text-base">Payloads reçus</CardTitle>
+                <CardDescription>Corrigez le mapping puis retraitez les événements en échec.</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-[140px]" data-testid="select-status-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Tous</SelectItem>
+                    <SelectItem value="processed">Traités</SelectItem>
+                    <SelectItem value="failed">Échecs</SelectItem>
+                    <SelectItem value="ignored">Ignorés</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" onClick={() => refetchEvents()} data-testid="button-refresh-events">
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {eventsLoading ? (
+                <Skeleton className="h-32 w-full" />
+              ) : !events?.length ? (
+                <p className="text-sm text-muted-foreground text-center py-8">Aucun payload reçu pour le moment</p>
+              ) : (
+                <div className="border rounded-lg overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Reçu le</TableHead>
+                        <TableHead>Événement</TableHead>
+                        <TableHead>Statut</TableHead>
+                        <TableHead>Résultat</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {events.map((event) => (
+                        <TableRow key={event.id} data-testid={`row-event-${event.id}`}>
+                          <TableCell className="text-xs whitespace-nowrap">{formatDate(event.receivedAt)}</TableCell>
+                          <TableCell className="text-xs font-mono">{event.eventType || "—"}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={STATUS_BADGES[event.status]?.className}>
+                              {STATUS_BADGES[event.status]?.label || event.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-xs max-w-[280px]">
+                            <div>{formatResult(event.result)}</div>
+                            {event.error && <div className="text-destructive truncate" title={event.error}>{event.error}</div>}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button size="sm" variant="ghost" onClick={() => setSelectedEvent(event)} data-testid={`button-view-event-${event.id}`}>
+                              <FileJson className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => reprocessMutation.mutate(event.id)}
+                              disabled={reprocessMutation.isPending}
+                              title="Retraiter"
+                              data-testid={`button-reprocess-event-${event.id}`}
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEvent(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Payload {selectedEvent?.eventType || ""}</DialogTitle>
+          </DialogHeader>
+          <pre className="text-xs bg-muted rounded-lg p-3 max-h-[60vh] overflow-auto">
+            {selectedEvent && JSON.stringify(selectedEvent.payload, null, 2)}
+          </pre>
+          <div className="flex justify-between gap-2 text-xs text-muted-foreground">
+            <span>{selectedEvent?.attempts} traitement(s), dernier le {formatDate(selectedEvent?.processedAt || null)}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                if (!selectedEvent) return;
+                setSamplePayload(JSON.stringify(selectedEvent.payload, null, 2));
+                setSelectedEvent(null);
+                toast({ title: "Payload chargé comme exemple" });
+              }}
+              data-testid="button-use-as-sample"
+            >
+              Utiliser comme exemple
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
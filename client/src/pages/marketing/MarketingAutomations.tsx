@@ -97,6 +97,55 @@ const actionOptions = [
   { value: 'remove_tag', label: 'Retirer un tag', icon: UserMinus },
 ];
 
+// The form edits a single action; the API stores it as workflow steps run by the automation engine
+function toAutomationPayload(data: AutomationFormData) {
+  const { actionType, actionConfig, delayMinutes, ...rest } = data;
+  const delay = delayMinutes > 0 ? `${delayMinutes}m` : undefined;
+  const templateId = actionConfig.templateId || undefined;
+  const actions: Record<string, unknown>[] = [];
+
+  if (actionType === 'send_email' || actionType === 'send_both') {
+    actions.push({ type: 'email', templateId, subject: actionConfig.emailSubject, content: actionConfig.emailContent, delay });
+  }
+  if (actionType === 'send_sms' || actionType === 'send_both') {
+    actions.push({ type: 'sms', templateId, content: actionConfig.smsContent, delay: actions.length ? undefined : delay });
+  }
+  if (actionType === 'add_tag' || actionType === 'remove_tag') {
+    actions.push({ type: 'tag', action: actionType === 'add_tag' ? 'add' : 'remove', tag: actionConfig.tagName, delay });
+  }
+
+  return { ...rest, actions };
+}
+
+function fromAutomationSteps(automation: any): Pick<AutomationFormData, 'actionType' | 'actionConfig' | 'delayMinutes'> {
+  const steps: any[] = Array.isArray(automation.actions) ? automation.actions : [];
+  const email = steps.find(s => s.type === 'email');
+  const sms = steps.find(s => s.type === 'sms');
+  const tag = steps.find(s => s.type === 'tag');
+  const first = steps.find(s => s.type !== 'wait');
+
+  const actionType: AutomationFormData['actionType'] = email && sms ? 'send_both'
+    : sms ? 'send_sms'
+    : tag ? (tag.action === 'remove' ? 'remove_tag' : 'add_tag')
+    : 'send_email';
+
+  const delay = String(first?.delay || '0');
+  const amount = parseInt(delay, 10) || 0;
+  const delayMinutes = delay.endsWith('d') ? amount * 1440 : delay.endsWith('h') ? amount * 60 : amount;
+
+  return {
+    actionType,
+    actionConfig: {
+      templateId: email?.templateId || sms?.templateId,
+      emailSubject: email?.subject,
+      emailContent: email?.content,
+      smsContent: sms?.content,
+      tagName: tag?.tag,
+    },
+    delayMinutes,
+  };
+}
+
 export default function MarketingAutomations() {
   const { toast } = useToast();
   const queryClientInst = useQueryClient();
@@ -135,10 +184,11 @@ export default function MarketingAutomations() {
 
   const createMutation = useMutation({
     mutationFn: async (data: AutomationFormData) => {
+      const payload = toAutomationPayload(data);
       if (editingAutomation) {
-        return apiRequest('PATCH', `/api/marketing/automations/${editingAutomation.id}`, data);
+        return apiRequest('PATCH', `/api/marketing/automations/${editingAutomation.id}`, payload);
       }
-      return apiRequest('POST', '/api/marketing/automations', data);
+      return apiRequest('POST', '/api/marketing/automations', payload);
     },
     onSuccess: () => {
       toast({ title: editingAutomation ? "Automation modifiée" : "Automation créée" });
@@ -186,9 +236,7 @@ export default function MarketingAutomations() {
       description: automation.description || "",
       triggerType: automation.triggerType,
       triggerConfig: automation.triggerConfig || {},
-      actionType: automation.actionType,
-      actionConfig: automation.actionConfig || {},
-      delayMinutes: automation.delayMinutes || 0,
+      ...fromAutomationSteps(automation),
     });
     setIsCreateOpen(true);
   };
@@ -284,7 +332,8 @@ export default function MarketingAutomations() {
             <div className="space-y-3">
               {filteredAutomations.map((automation: any) => {
                 const trigger = triggerOptions.find(t => t.value === automation.triggerType);
-                const action = actionOptions.find(a => a.value === automation.actionType);
+                const { actionType, delayMinutes } = fromAutomationSteps(automation);
+                const action = actionOptions.find(a => a.value === actionType);
                 const TriggerIcon = trigger?.icon || Zap;
                 const ActionIcon = action?.icon || Mail;
 
@@ -326,21 +375,21 @@ export default function MarketingAutomations() {
                           <ActionIcon className="h-3.5 w-3.5" />
                           {action?.label}
                         </span>
-                        {automation.delayMinutes > 0 && (
+                        {delayMinutes > 0 && (
                           <>
                             <span className="text-muted-foreground/50">•</span>
                             <span className="flex items-center gap-1.5">
                               <Clock className="h-3.5 w-3.5" />
-                              {automation.delayMinutes >= 60 
-                                ? `${Math.floor(automation.delayMinutes / 60)}h` 
-                                : `${automation.delayMinutes}min`}
+                              {delayMinutes >= 60 
+                                ? `${Math.floor(delayMinutes / 60)}h` 
+                                : `${delayMinutes}min`}
                             </span>
                           </>
                         )}
                       </div>
-                      {automation.totalExecutions > 0 && (
+                      {automation.totalTriggered > 0 && (
                         <p className="text-xs text-muted-foreground mt-1.5">
-                          {automation.totalExecutions} exécutions • {automation.totalSuccessful} réussies
+                          {automation.totalTriggered} exécutions • {automation.totalCompleted} réussies
                         </p>
                       )}
                     </div>
@@ -48,6 +48,9 @@ import {
   Sparkles,
   FileText,
   HelpCircle,
+  Pause,
+  XCircle,
+  FlaskConical,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -57,6 +60,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { AbTestCampaignDialog } from "@/components/AbTestCampaignDialog";
+import { AbTestResultsDialog } from "@/components/AbTestResultsDialog";
 
 const campaignFormSchema = z.object({
   name: z.string().min(1, "Nom requis"),
@@ -80,6 +85,7 @@ const statusColors: Record<string, { bg: string; text: string; label: string }>
   sent: { bg: "bg-[#4CEFAD]/10", text: "text-[#4CEFAD]", label: "Envoyée" },
   paused: { bg: "bg-orange-500/10", text: "text-orange-400", label: "En pause" },
   cancelled: { bg: "bg-red-500/10", text: "text-red-400", label: "Annulée" },
+  failed: { bg: "bg-red-500/10", text: "text-red-400", label: "Échec" },
 };
 
 const sampleContact = {
@@ -106,6 +112,8 @@ export default function MarketingCampaigns() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [selectedCampaign, setSelectedCampaign] = useState<any>(null);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isAbTestOpen, setIsAbTestOpen] = useState(false);
+  const [abTestCampaign, setAbTestCampaign] = useState<{ id: string; name: string } | null>(null);
 
   const { data: campaignsData, isLoading } = useQuery<{ campaigns: any[] }>({
     queryKey: [`/api/marketing/campaigns`],
@@ -176,6 +184,20 @@ export default function MarketingCampaigns() {
     },
   });
 
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'pause' | 'resume' | 'cancel' }) => {
+      return apiRequest('POST', `/api/marketing/campaigns/${id}/${action}`);
+    },
+    onSuccess: (_data, { action }) => {
+      const titles = { pause: "Campagne mise en pause", resume: "Envoi repris", cancel: "Campagne annulée" };
+      toast({ title: titles[action] });
+      queryClientInst.invalidateQueries({ predicate: (query) => query.queryKey[0]?.toString().startsWith('/api/marketing/campaigns') || false });
+    },
+    onError: (error: any) => {
+      toast({ title: "Erreur", description: error.message, variant: "destructive" });
+    },
+  });
+
   const onSubmit = (data: CampaignFormData) => {
     createMutation.mutate(data);
   };
@@ -190,7 +212,8 @@ export default function MarketingCampaigns() {
 
   // Organiser les campagnes par statut
   const drafts = filteredCampaigns.filter(c => c.status === 'draft');
-  const scheduled = filteredCampaigns.filter(c => c.status === 'scheduled');
+  // Les campagnes en pause ou en échec restent à traiter avec les programmées
+  const scheduled = filteredCampaigns.filter(c => ['scheduled', 'paused', 'failed'].includes(c.status));
   const sent = filteredCampaigns.filter(c => c.status === 'sent' || c.status === 'sending');
 
   // Calculer les KPIs
@@ -246,6 +269,9 @@ export default function MarketingCampaigns() {
             <Badge className={cn("text-[10px] border-0", status.bg, status.text)}>
               {status.label}
             </Badge>
+            {campaign.isAbTest && (
+              <Badge variant="outline" className="text-[10px]">A/B</Badge>
+            )}
           </div>
           <div className="flex items-center gap-4 text-xs text-muted-foreground">
             <span className="flex items-center gap-1">
@@ -269,6 +295,11 @@ export default function MarketingCampaigns() {
               </span>
             )}
           </div>
+          {campaign.status === 'failed' && campaign.lastError && (
+            <p className="text-xs text-red-400 mt-1 truncate" title={campaign.lastError}>
+              {campaign.lastError}
+            </p>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {campaign.status === 'draft' && (
@@ -283,11 +314,39 @@ export default function MarketingCampaigns() {
               Envoyer
             </Button>
           )}
+          {(campaign.status === 'scheduled' || campaign.status === 'sending') && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => statusMutation.mutate({ id: campaign.id, action: 'pause' })}
+              disabled={statusMutation.isPending}
+              className="text-xs h-7"
+            >
+              <Pause className="h-3 w-3 mr-1" />
+              Pause
+            </Button>
+          )}
+          {(campaign.status === 'paused' || campaign.status === 'failed') && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => statusMutation.mutate({ id: campaign.id, action: 'resume' })}
+              disabled={statusMutation.isPending}
+              className="text-xs h-7"
+            >
+              <Play className="h-3 w-3 mr-1" />
+              Reprendre
+            </Button>
+          )}
           <Button 
             variant="ghost" 
             size="sm" 
             className="text-xs h-7 opacity-0 group-hover:opacity-100 transition-opacity"
             onClick={() => {
+              if (campaign.isAbTest) {
+                setAbTestCampaign({ id: campaign.id, name: campaign.name });
+                return;
+              }
               // TODO: Ouvrir un dialog de détails ou rediriger vers une page de détails
               toast({ title: "Détails", description: `Détails de la campagne ${campaign.name}` });
             }}
@@ -306,6 +365,12 @@ export default function MarketingCampaigns() {
                 <Copy className="h-4 w-4 mr-2" />
                 Dupliquer
               </DropdownMenuItem>
+              {['scheduled', 'sending', 'paused', 'failed'].includes(campaign.status) && (
+                <DropdownMenuItem onClick={() => statusMutation.mutate({ id: campaign.id, action: 'cancel' })}>
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Annuler l'envoi
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem
                 className="text-red-400"
@@ -329,6 +394,10 @@ export default function MarketingCampaigns() {
           <h1 className="text-xl md:text-lg font-semibold text-foreground">Campagnes</h1>
           <p className="text-sm md:text-xs text-muted-foreground mt-0.5">Gérez vos campagnes marketing</p>
         </div>
+        <Button variant="outline" size="sm" onClick={() => setIsAbTestOpen(true)}>
+          <FlaskConical className="h-4 w-4 mr-2" />
+          Test A/B
+        </Button>
       </div>
 
       {/* ZONE A — PILOTAGE RAPIDE */}
@@ -773,6 +842,9 @@ export default function MarketingCampaigns() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      <AbTestCampaignDialog open={isAbTestOpen} onOpenChange={setIsAbTestOpen} />
+      <AbTestResultsDialog campaign={abTestCampaign} onClose={() => setAbTestCampaign(null)} />
     </div>
   );
 }
@@ -53,6 +53,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { CallContactSyncCard } from "@/components/CallContactSyncCard";
 
 const contactFormSchema = z.object({
   firstName: z.string().min(1, "Prénom requis"),
@@ -123,7 +124,7 @@ export default function MarketingContacts() {
       toast({ title: "Contact ajouté" });
       setIsAddOpen(false);
       form.reset();
-      queryClientInst.invalidateQueries({ predicate: (query) => query.queryKey[0]?.toString().startsWith('/api/marketing/contacts') });
+      queryClientInst.invalidateQueries({ predicate: (query) => query.queryKey[0]?.toString().startsWith('/api/marketing/contacts') || false });
     },
     onError: (error: any) => {
       toast({ title: "Erreur", description: error.message, variant: "destructive" });
@@ -140,7 +141,7 @@ export default function MarketingContacts() {
     onSuccess: () => {
       toast({ title: "Contact mis à jour" });
       setEditingContact(null);
-      queryClientInst.invalidateQueries({ predicate: (query) => query.queryKey[0]?.toString().startsWith('/api/marketing/contacts') });
+      queryClientInst.invalidateQueries({ predicate: (query) => query.queryKey[0]?.toString().startsWith('/api/marketing/contacts') || false });
     },
     onError: (error: any) => {
       toast({ title: "Erreur", description: error.message, variant: "destructive" });
@@ -153,7 +154,7 @@ export default function MarketingContacts() {
     },
     onSuccess: () => {
       toast({ title: "Contact supprimé" });
-      queryClientInst.invalidateQueries({ predicate: (query) => query.queryKey[0]?.toString().startsWith('/api/marketing/contacts') });
+      queryClientInst.invalidateQueries({ predicate: (query) => query.queryKey[0]?.toString().startsWith('/api/marketing/contacts') || false });
     },
     onError: (error: any) => {
       toast({ title: "Erreur", description: error.message, variant: "destructive" });
@@ -320,6 +321,9 @@ export default function MarketingContacts() {
         </Card>
       </div>
 
+      {/* Alimentation automatique depuis les appels */}
+      <CallContactSyncCard />
+
       {/* ZONE B — BASE DE CONTACTS */}
       <Card className="bg-gradient-to-br from-[#1A1C1F] to-[#151618] shadow-[0_0_12px_rgba(0,0,0,0.25)] border-white/[0.06]">
         <CardHeader className="pb-3">
@@ -28,8 +28,11 @@ type NotificationType =
   | 'automation_triggered'
   | 'guarantee_noshow_charged'
   | 'guarantee_card_validated'
+  | 'guarantee_dispute'
+  | 'guarantee_noshow_detected'
   | 'integration_sync_complete'
-  | 'integration_error';
+  | 'integration_error'
+  | 'call_anomaly';
 
 type Notification = {
   id: string;
@@ -59,8 +62,11 @@ const notificationTypeLabels: Record<NotificationType, string> = {
   automation_triggered: "Automatisation déclenchée",
   guarantee_noshow_charged: "No-show facturé",
   guarantee_card_validated: "Carte validée",
+  guarantee_dispute: "Litige garantie",
+  guarantee_noshow_detected: "No-show à vérifier",
   integration_sync_complete: "Synchronisation terminée",
   integration_error: "Erreur d'intégration",
+  call_anomaly: "Activité inhabituelle",
 };
 
 const notificationTypeVariants: Record<NotificationType, "default" | "secondary" | "destructive"> = {
@@ -80,8 +86,11 @@ const notificationTypeVariants: Record<NotificationType, "default" | "secondary"
   automation_triggered: "secondary",
   guarantee_noshow_charged: "destructive",
   guarantee_card_validated: "default",
+  guarantee_dispute: "destructive",
+  guarantee_noshow_detected: "secondary",
   integration_sync_complete: "default",
   integration_error: "destructive",
+  call_anomaly: "destructive",
 };
 
 export default function Notifications() {
@@ -266,8 +275,11 @@ export default function Notifications() {
                       <SelectItem value="automation_triggered">Automatisations</SelectItem>
                       <SelectItem value="guarantee_noshow_charged">No-shows facturés</SelectItem>
                       <SelectItem value="guarantee_card_validated">Cartes validées</SelectItem>
+                      <SelectItem value="guarantee_dispute">Litiges garantie</SelectItem>
+                      <SelectItem value="guarantee_noshow_detected">No-shows à vérifier</SelectItem>
                       <SelectItem value="integration_sync_complete">Synchros terminées</SelectItem>
                       <SelectItem value="integration_error">Erreurs intégration</SelectItem>
+                      <SelectItem value="call_anomaly">Activités inhabituelles</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -2,14 +2,16 @@ import { db } from "./db";
 import { calls } from "@shared/schema";
 import { eq, and, gte, desc, lte } from "drizzle-orm";
 import {
-  getTimeFilterDate,
+  resolveTimePeriod,
   getPreviousPeriod,
   formatDuration,
   calculatePercentageChange,
   aggregateCallsByHour,
   aggregateCallsByTimeSlot,
   findPeakHour,
-  type TimeFilter
+  type AnalyticsRange,
+  type ComparisonMode,
+  type TimePeriod
 } from "./call-analytics.utils";
 
 export interface DeepInsight {
@@ -25,34 +27,37 @@ export interface DeepInsight {
   }[];
 }
 
+export interface AnalyticsOptions {
+  compare?: ComparisonMode;
+  timeZone?: string;
+}
+
 export class AIAnalyticsService {
-  
-  /**
-   * Analyse approfondie du volume d'appels
-   */
-  async analyzeCallVolume(userId: string, timeFilter?: TimeFilter): Promise<DeepInsight> {
-    const timeDate = getTimeFilterDate(timeFilter);
+
+  private async getCallsInPeriod(userId: string, period: TimePeriod | null) {
     const conditions = [eq(calls.userId, userId)];
-    if (timeDate) {
-      conditions.push(gte(calls.startTime, timeDate));
+    if (period) {
+      conditions.push(gte(calls.startTime, period.start), lte(calls.startTime, period.end));
     }
 
-    const userCalls = await db
+    return db
       .select()
       .from(calls)
       .where(and(...conditions))
       .orderBy(desc(calls.startTime));
+  }
+  
+  /**
+   * Analyse approfondie du volume d'appels
+   */
+  async analyzeCallVolume(userId: string, range?: AnalyticsRange, options: AnalyticsOptions = {}): Promise<DeepInsight> {
+    const userCalls = await this.getCallsInPeriod(userId, resolveTimePeriod(range, options.timeZone));
 
-    // Compare avec la période précédente
-    const previousPeriod = getPreviousPeriod(timeFilter);
-    const previousCalls = previousPeriod ? await db
-      .select()
-      .from(calls)
-      .where(and(
-        eq(calls.userId, userId),
-        gte(calls.startTime, previousPeriod.start),
-        lte(calls.startTime, previousPeriod.end)
-      )).then(c => c.length) : 0;
+    // Compare avec la période précédente (ou la même période l'an dernier)
+    const previousPeriod = getPreviousPeriod(range, options.compare, options.timeZone);
+    const previousCalls = previousPeriod
+      ? (await this.getCallsInPeriod(userId, previousPeriod)).length
+      : 0;
 
     const currentCount = userCalls.length;
     const change = calculatePercentageChange(currentCount, previousCalls);
@@ -121,18 +126,8 @@ export class AIAnalyticsService {
   /**
    * Analyse approfondie du taux de conversion/RDV
    */
-  async analyzeConversionRate(userId: string, timeFilter?: TimeFilter): Promise<DeepInsight> {
-    const timeDate = getTimeFilterDate(timeFilter);
-    const conditions = [eq(calls.userId, userId)];
-    if (timeDate) {
-      conditions.push(gte(calls.startTime, timeDate));
-    }
-
-    const userCalls = await db
-      .select()
-      .from(calls)
-      .where(and(...conditions))
-      .orderBy(desc(calls.startTime));
+  async analyzeConversionRate(userId: string, range?: AnalyticsRange, options: AnalyticsOptions = {}): Promise<DeepInsight> {
+    const userCalls = await this.getCallsInPeriod(userId, resolveTimePeriod(range, options.timeZone));
 
     const totalCalls = userCalls.length;
     const completedCalls = userCalls.filter(c => c.status === 'completed').length;
@@ -142,6 +137,17 @@ export class AIAnalyticsService {
     const conversionRate = totalCalls > 0 ? (completedCalls / totalCalls) * 100 : 0;
     const failureRate = totalCalls > 0 ? (failedCalls / totalCalls) * 100 : 0;
 
+    // Évolution par rapport à la période de comparaison demandée
+    let conversionChange: number | undefined;
+    const comparisonPeriod = options.compare ? getPreviousPeriod(range, options.compare, options.timeZone) : null;
+    if (comparisonPeriod) {
+      const previousCalls = await this.getCallsInPeriod(userId, comparisonPeriod);
+      const previousRate = previousCalls.length > 0
+        ? (previousCalls.filter(c => c.status === 'completed').length / previousCalls.length) * 100
+        : 0;
+      conversionChange = calculatePercentageChange(conversionRate, previousRate);
+    }
+
     const details: string[] = [];
 
     // Analyse par plage horaire
@@ -216,7 +222,7 @@ export class AIAnalyticsService {
       recommendation,
       severity,
       metrics: [
-        { label: "Taux de conversion", value: `${Math.round(conversionRate)}%` },
+        { label: "Taux de conversion", value: `${Math.round(conversionRate)}%`, change: conversionChange },
         { label: "RDV pris", value: completedCalls },
         { label: "Appels échoués", value: `${Math.round(failureRate)}%` }
       ]
@@ -226,18 +232,8 @@ export class AIAnalyticsService {
   /**
    * Analyse approfondie des plages horaires
    */
-  async analyzeTimeSlots(userId: string, timeFilter?: TimeFilter): Promise<DeepInsight> {
-    const timeDate = getTimeFilterDate(timeFilter);
-    const conditions = [eq(calls.userId, userId)];
-    if (timeDate) {
-      conditions.push(gte(calls.startTime, timeDate));
-    }
-
-    const userCalls = await db
-      .select()
-      .from(calls)
-      .where(and(...conditions))
-      .orderBy(desc(calls.startTime));
+  async analyzeTimeSlots(userId: string, range?: AnalyticsRange, options: AnalyticsOptions = {}): Promise<DeepInsight> {
+    const userCalls = await this.getCallsInPeriod(userId, resolveTimePeriod(range, options.timeZone));
 
     const timeSlotStats = aggregateCallsByTimeSlot(userCalls);
 
@@ -287,18 +283,8 @@ export class AIAnalyticsService {
   /**
    * Analyse approfondie de la durée moyenne
    */
-  async analyzeAverageDuration(userId: string, timeFilter?: TimeFilter): Promise<DeepInsight> {
-    const timeDate = getTimeFilterDate(timeFilter);
-    const conditions = [eq(calls.userId, userId)];
-    if (timeDate) {
-      conditions.push(gte(calls.startTime, timeDate));
-    }
-
-    const userCalls = await db
-      .select()
-      .from(calls)
-      .where(and(...conditions))
-      .orderBy(desc(calls.startTime));
+  async analyzeAverageDuration(userId: string, range?: AnalyticsRange, options: AnalyticsOptions = {}): Promise<DeepInsight> {
+    const userCalls = await this.getCallsInPeriod(userId, resolveTimePeriod(range, options.timeZone));
 
     const callsWithDuration = userCalls.filter(c => c.duration && c.duration > 0);
     const completedCalls = callsWithDuration.filter(c => c.status === 'completed');
@@ -321,6 +307,16 @@ export class AIAnalyticsService {
       ? failedCalls.reduce((sum, c) => sum + c.duration!, 0) / failedCalls.length
       : 0;
 
+    let durationChange: number | undefined;
+    const comparisonPeriod = options.compare ? getPreviousPeriod(range, options.compare, options.timeZone) : null;
+    if (comparisonPeriod) {
+      const previousDurations = (await this.getCallsInPeriod(userId, comparisonPeriod)).filter(c => c.duration && c.duration > 0);
+      const previousAvg = previousDurations.length > 0
+        ? previousDurations.reduce((sum, c) => sum + c.duration!, 0) / previousDurations.length
+        : 0;
+      durationChange = calculatePercentageChange(avgDuration, previousAvg);
+    }
+
     const details: string[] = [];
 
     const formatDuration = (seconds: number) => {
@@ -374,7 +370,7 @@ export class AIAnalyticsService {
       recommendation,
       severity,
       metrics: [
-        { label: "Durée moyenne", value: formatDuration(avgDuration) },
+        { label: "Durée moyenne", value: formatDuration(avgDuration), change: durationChange },
         { label: "RDV pris", value: completedCalls.length > 0 ? formatDuration(avgCompletedDuration) : 'N/A' },
         { label: "Appels échoués", value: failedCalls.length > 0 ? formatDuration(avgFailedDuration) : 'N/A' }
       ]
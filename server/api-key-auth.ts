@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { storage } from "./storage";
-import { isValidApiKeyFormat, verifyApiKey } from "./api-key";
+import { isValidApiKeyFormat, isValidScopedApiKeyFormat, getScopedApiKeyPrefix, verifyApiKey } from "./api-key";
+import type { ApiKey, ApiKeyScope } from "@shared/schema";
 
 // N8N Master API Key - allows N8N to create sessions for any client by specifying client_id
 // Format: speedai_n8n_xxxxxxxx (different prefix to distinguish from user keys)
@@ -274,4 +275,137 @@ export async function requireApiKey(req: Request, res: Response, next: NextFunct
       message: "Erreur lors de l'authentification" 
     });
   }
-}
\ No newline at end of file
+}
+
+// ===== PUBLIC API (/api/v1) =====
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Fixed one-minute window per key prefix, stored in the database so every instance shares it
+async function consumeRateLimit(keyPrefix: string, limit: number): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
+  const window = await storage.consumeApiRateLimit(keyPrefix, RATE_LIMIT_WINDOW_MS);
+  return {
+    allowed: window.count <= limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAt: window.windowStart.getTime() + RATE_LIMIT_WINDOW_MS,
+  };
+}
+
+/**
+ * Middleware for the public API: authenticates a named key (Authorization: Bearer speedai_api_xxx),
+ * rejects expired or revoked keys and applies the key's rate limit.
+ * Scopes are checked per route with requireScope.
+ */
+export async function requireScopedApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const authHeader = req.headers.authorization;
+    const apiKey = authHeader?.startsWith("Bearer ")
+      ? authHeader.slice(7).trim()
+      : (req.headers['x-api-key'] as string | undefined)?.trim();
+
+    if (!apiKey) {
+      return res.status(401).json({
+        error: "Missing API key",
+        message: "Veuillez fournir une clé API via Authorization: Bearer YOUR_API_KEY"
+      });
+    }
+
+    if (!isValidScopedApiKeyFormat(apiKey)) {
+      return res.status(401).json({
+        error: "Invalid API key format",
+        message: "La clé API doit commencer par 'speedai_api_' et avoir 64 caractères hexadécimaux"
+      });
+    }
+
+    const keyPrefix = getScopedApiKeyPrefix(apiKey);
+    const candidates = await storage.getActiveApiKeysByPrefix(keyPrefix);
+    if (candidates.length === 0) {
+      return res.status(401).json({
+        error: "Invalid API key",
+        message: "Clé API invalide ou révoquée"
+      });
+    }
+
+    // Counted before the bcrypt comparison, so guesses against a known prefix are throttled too
+    const limit = Math.max(...candidates.map(candidate => candidate.rateLimitPerMinute));
+    const rateLimit = await consumeRateLimit(keyPrefix, limit);
+    res.setHeader('X-RateLimit-Limit', String(limit));
+    res.setHeader('X-RateLimit-Remaining', String(rateLimit.remaining));
+    res.setHeader('X-RateLimit-Reset', String(Math.ceil(rateLimit.resetAt / 1000)));
+    if (!rateLimit.allowed) {
+      res.setHeader('Retry-After', String(Math.max(1, Math.ceil((rateLimit.resetAt - Date.now()) / 1000))));
+      return res.status(429).json({
+        error: "Rate limit exceeded",
+        message: `Limite de ${limit} requêtes par minute atteinte`
+      });
+    }
+
+    let matchedKey: ApiKey | null = null;
+    for (const candidate of candidates) {
+      if (await verifyApiKey(apiKey, candidate.keyHash)) {
+        matchedKey = candidate;
+        break;
+      }
+    }
+
+    if (!matchedKey) {
+      return res.status(401).json({
+        error: "Invalid API key",
+        message: "Clé API invalide ou révoquée"
+      });
+    }
+
+    if (matchedKey.expiresAt && matchedKey.expiresAt <= new Date()) {
+      return res.status(401).json({
+        error: "Expired API key",
+        message: "Cette clé API a expiré"
+      });
+    }
+
+    const user = await storage.getUser(matchedKey.userId);
+    if (!user?.isVerified) {
+      return res.status(403).json({
+        error: "Email not verified",
+        message: "Veuillez vérifier votre email avant d'utiliser l'API"
+      });
+    }
+
+    const accountStatus = (user as any).accountStatus || 'expired';
+    if (accountStatus !== 'trial' && user.subscriptionStatus !== 'active') {
+      return res.status(403).json({
+        error: "No active subscription",
+        message: "Un abonnement actif ou période d'essai est requis pour utiliser l'API"
+      });
+    }
+
+    storage.recordApiKeyUsage(matchedKey.id, req.ip || null).catch(error => {
+      console.error("[PublicAPI] Error recording key usage:", error);
+    });
+
+    (req as any).user = user;
+    (req as any).apiKey = matchedKey;
+    next();
+  } catch (error) {
+    console.error("[PublicAPI] Authentication error:", error);
+    res.status(500).json({
+      error: "Authentication error",
+      message: "Erreur lors de l'authentification"
+    });
+  }
+}
+
+/**
+ * Must run after requireScopedApiKey
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const apiKey = (req as any).apiKey as ApiKey | undefined;
+    if (!apiKey?.scopes.includes(scope)) {
+      return res.status(403).json({
+        error: "Insufficient scope",
+        message: `Cette clé API n'a pas la permission ${scope}`
+      });
+    }
+    next();
+  };
+}
@@ -33,3 +33,29 @@ export function isValidApiKeyFormat(apiKey: string): boolean {
 export async function verifyApiKey(apiKey: string, apiKeyHash: string): Promise<boolean> {
   return bcrypt.compare(apiKey, apiKeyHash);
 }
+
+// Public API keys (/api/v1) - distinct prefix so they are never mistaken for the N8N ingest key
+const SCOPED_KEY_PREFIX = 'speedai_api_';
+const SCOPED_KEY_LOOKUP_LENGTH = SCOPED_KEY_PREFIX.length + 8;
+
+/**
+ * Generate a named public API key
+ * Format: speedai_api_[64 hex characters]
+ * 
+ * keyPrefix is stored in clear to find the candidate keys (and to show the key in the UI),
+ * only the bcrypt hash of the full key is stored
+ */
+export async function generateScopedApiKey(): Promise<{ apiKey: string; keyPrefix: string; keyHash: string }> {
+  const apiKey = `${SCOPED_KEY_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+  const keyHash = await bcrypt.hash(apiKey, 10);
+
+  return { apiKey, keyPrefix: getScopedApiKeyPrefix(apiKey), keyHash };
+}
+
+export function isValidScopedApiKeyFormat(apiKey: string): boolean {
+  return /^speedai_api_[0-9a-f]{64}$/.test(apiKey);
+}
+
+export function getScopedApiKeyPrefix(apiKey: string): string {
+  return apiKey.slice(0, SCOPED_KEY_LOOKUP_LENGTH);
+}
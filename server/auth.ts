@@ -103,27 +103,26 @@ export async function requireVerified(req: Request, res: Response, next: NextFun
   next();
 }
 
-// Require active subscription or trial middleware
-export async function requireSubscription(req: Request, res: Response, next: NextFunction) {
-  const user = (req as any).user as User;
-  
+// Why a user cannot use paid features, or null when the subscription or trial is valid.
+// Shared by requireSubscription and the crons that act on behalf of a user.
+export function getSubscriptionBlockReason(user: User): string | null {
   // Admins bypass subscription requirement
   if (user.role === 'admin') {
-    return next();
+    return null;
   }
   
   // Get accountStatus (default to 'expired' for legacy records or null values)
-  const accountStatus = (user as any).accountStatus || 'expired';
+  const accountStatus = user.accountStatus || 'expired';
   
   // Allow trial and active users
   if (accountStatus === 'trial') {
-    return next();
+    return null;
   }
   
   if (accountStatus === 'active') {
     // For active users, perform Stripe sanity check to detect billing regressions
     if (!user.subscriptionStatus || user.subscriptionStatus !== 'active') {
-      return res.status(403).json({ message: "Abonnement requis" });
+      return "Abonnement requis";
     }
     
     // Check if subscription period is still valid
@@ -131,22 +130,32 @@ export async function requireSubscription(req: Request, res: Response, next: Nex
       const now = new Date();
       const expiry = new Date(user.subscriptionCurrentPeriodEnd);
       if (now > expiry) {
-        return res.status(403).json({ message: "Abonnement expiré" });
+        return "Abonnement expiré";
       }
     }
     
-    return next();
+    return null;
   }
   
   // Block expired, suspended, or any other status
   if (accountStatus === 'expired') {
-    return res.status(403).json({ message: "Période d'essai expirée" });
+    return "Période d'essai expirée";
   }
   
   if (accountStatus === 'suspended') {
-    return res.status(403).json({ message: "Compte suspendu" });
+    return "Compte suspendu";
   }
   
   // Fallback for any unexpected status
-  return res.status(403).json({ message: "Abonnement requis" });
+  return "Abonnement requis";
+}
+
+// Require active subscription or trial middleware
+export async function requireSubscription(req: Request, res: Response, next: NextFunction) {
+  const user = (req as any).user as User;
+  const blockReason = getSubscriptionBlockReason(user);
+  if (blockReason) {
+    return res.status(403).json({ message: blockReason });
+  }
+  next();
 }
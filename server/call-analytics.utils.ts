@@ -2,6 +2,7 @@
  * Shared utilities for call analytics and AI insights
  * Used by both AIInsightsService and AIAnalyticsService
  */
+import { sql, type AnyColumn, type SQL } from 'drizzle-orm';
 
 export interface TimePeriod {
   start: Date;
@@ -10,10 +11,130 @@ export interface TimePeriod {
 
 export type TimeFilter = 'hour' | 'today' | 'two_days' | 'week';
 
+// Period compared with the selected range
+export type ComparisonMode = 'previous_period' | 'previous_year';
+
+// Range of an analytics request: a preset relative to now, or an explicit period
+export type AnalyticsRange = TimeFilter | TimePeriod;
+
+export const DEFAULT_TIMEZONE = 'Europe/Paris';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Offset (ms) between UTC and the wall clock of a time zone at a given instant
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant of a wall-clock time in a time zone (month is 0-based, overflowing values roll over like Date.UTC)
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, timeZone: string, ms: number = 0): Date {
+  const wallClock = Date.UTC(year, month, day) + ms;
+  const offset = getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  // A second pass settles ranges crossing a DST change
+  const correctedOffset = getTimeZoneOffsetMs(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - correctedOffset);
+}
+
+function getZonedParts(date: Date, timeZone: string): { year: number; month: number; day: number; ms: number } {
+  const wallClock = new Date(date.getTime() + getTimeZoneOffsetMs(date, timeZone));
+  return {
+    year: wallClock.getUTCFullYear(),
+    month: wallClock.getUTCMonth(),
+    day: wallClock.getUTCDate(),
+    ms: wallClock.getTime() - Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate()),
+  };
+}
+
+/**
+ * Move an instant by whole years/days on the wall clock of a time zone (keeps the local time across DST).
+ * Feb 29 moved to a non-leap year lands on Feb 28.
+ */
+export function shiftInTimeZone(date: Date, shift: { years?: number; days?: number }, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const { year, month, day, ms } = getZonedParts(date, timeZone);
+  const targetYear = year + (shift.years || 0);
+  const lastDayOfMonth = new Date(Date.UTC(targetYear, month + 1, 0)).getUTCDate();
+  return zonedTimeToUtc(targetYear, month, Math.min(day, lastDayOfMonth) + (shift.days || 0), timeZone, ms);
+}
+
+export function startOfDayInTimeZone(date: Date, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, month, day, timeZone);
+}
+
+export function startOfHourInTimeZone(date: Date, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const { year, month, day, ms } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, month, day, timeZone, ms - (ms % HOUR_MS));
+}
+
+/**
+ * Instant of a wall-clock time (hours, minutes) on the local calendar day of a date
+ */
+export function atTimeOfDayInTimeZone(date: Date, hours: number, minutes: number, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, month, day, timeZone, (hours * 60 + minutes) * 60 * 1000);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+export function formatDateInTimeZone(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Wall-clock time of a UTC timestamp column in a time zone, to group by local day or hour.
+ * The time zone is a bound parameter, so repeating this expression in GROUP BY would not match
+ * the selected one: group by its position with FIRST_COLUMN instead.
+ */
+export function localTimestampSql(column: AnyColumn, timeZone: string): SQL {
+  return sql`timezone(${timeZone}, timezone('UTC', ${column}))`;
+}
+
+export const FIRST_COLUMN = sql`1`;
+
+/**
+ * Period covering whole calendar days in a time zone: from 00:00 on startDate to 23:59:59.999 on endDate
+ */
+export function getDateRangePeriod(startDate: string, endDate: string, timeZone: string = DEFAULT_TIMEZONE): TimePeriod {
+  const start = DATE_PATTERN.exec(startDate);
+  const end = DATE_PATTERN.exec(endDate);
+  if (!start || !end) {
+    throw new Error('Les dates doivent être au format AAAA-MM-JJ');
+  }
+
+  const period = {
+    start: zonedTimeToUtc(Number(start[1]), Number(start[2]) - 1, Number(start[3]), timeZone),
+    end: new Date(zonedTimeToUtc(Number(end[1]), Number(end[2]) - 1, Number(end[3]) + 1, timeZone).getTime() - 1),
+  };
+  if (period.end < period.start) {
+    throw new Error('La date de fin doit être postérieure à la date de début');
+  }
+  return period;
+}
+
 /**
  * Get the start date for a time filter
  */
-export function getTimeFilterDate(timeFilter?: TimeFilter): Date | null {
+export function getTimeFilterDate(timeFilter?: TimeFilter, timeZone?: string): Date | null {
   if (!timeFilter) return null;
   
   const now = new Date();
@@ -22,6 +143,9 @@ export function getTimeFilterDate(timeFilter?: TimeFilter): Date | null {
     case 'hour':
       return new Date(now.getTime() - 60 * 60 * 1000);
     case 'today':
+      if (timeZone) {
+        return startOfDayInTimeZone(now, timeZone);
+      }
       const today = new Date(now);
       today.setHours(0, 0, 0, 0);
       return today;
@@ -35,38 +159,92 @@ export function getTimeFilterDate(timeFilter?: TimeFilter): Date | null {
 }
 
 /**
- * Get the previous period (same duration) for comparison
+ * Resolve a range to a period - presets end now
  */
-export function getPreviousPeriod(timeFilter?: TimeFilter): TimePeriod | null {
-  if (!timeFilter) return null;
+export function resolveTimePeriod(range?: AnalyticsRange, timeZone?: string): TimePeriod | null {
+  if (!range) return null;
+  if (typeof range !== 'string') return range;
 
-  const now = new Date();
-  
-  switch (timeFilter) {
-    case 'hour': {
-      const end = new Date(now.getTime() - 60 * 60 * 1000);
-      const start = new Date(end.getTime() - 60 * 60 * 1000);
-      return { start, end };
-    }
-    case 'today': {
-      const end = new Date(now);
-      end.setHours(0, 0, 0, 0);
-      const start = new Date(end.getTime() - 24 * 60 * 60 * 1000);
-      return { start, end };
-    }
-    case 'two_days': {
-      const end = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
-      const start = new Date(end.getTime() - 2 * 24 * 60 * 60 * 1000);
-      return { start, end };
-    }
-    case 'week': {
-      const end = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      const start = new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
-      return { start, end };
+  const start = getTimeFilterDate(range, timeZone);
+  return start ? { start, end: new Date() } : null;
+}
+
+/**
+ * Get the period to compare a range with.
+ * - previous_period: the same length right before. Ranges starting at midnight are shifted by whole days,
+ *   so "today" is compared with the whole of yesterday and a month of 31 days with the 31 days before.
+ * - previous_year: the same dates one year earlier.
+ */
+export function getPreviousPeriod(
+  range?: AnalyticsRange,
+  mode: ComparisonMode = 'previous_period',
+  timeZone: string = DEFAULT_TIMEZONE
+): TimePeriod | null {
+  const period = resolveTimePeriod(range, timeZone);
+  if (!period) return null;
+
+  if (mode === 'previous_year') {
+    return {
+      start: shiftInTimeZone(period.start, { years: -1 }, timeZone),
+      end: shiftInTimeZone(period.end, { years: -1 }, timeZone),
+    };
+  }
+
+  if (startOfDayInTimeZone(period.start, timeZone).getTime() === period.start.getTime()) {
+    const days = Math.max(1, Math.round((period.end.getTime() - period.start.getTime()) / DAY_MS));
+    return { start: shiftInTimeZone(period.start, { days: -days }, timeZone), end: new Date(period.start.getTime() - 1) };
+  }
+
+  const duration = period.end.getTime() - period.start.getTime();
+  return { start: new Date(period.start.getTime() - duration), end: new Date(period.start.getTime() - 1) };
+}
+
+/**
+ * Calendar dates (YYYY-MM-DD) covered by a period in a time zone, used to align chart series day by day
+ */
+export function listDaysInPeriod(period: TimePeriod, timeZone: string = DEFAULT_TIMEZONE): string[] {
+  const days: string[] = [];
+  const lastDay = formatDateInTimeZone(period.end, timeZone);
+  let cursor = startOfDayInTimeZone(period.start, timeZone);
+  // Bounded so a malformed period can't loop for ever (about 3 years of days)
+  while (days.length < 1100) {
+    const day = formatDateInTimeZone(cursor, timeZone);
+    if (day > lastDay) break;
+    days.push(day);
+    cursor = shiftInTimeZone(cursor, { days: 1 }, timeZone);
+  }
+  return days;
+}
+
+const TIME_FILTERS: TimeFilter[] = ['hour', 'today', 'two_days', 'week'];
+const COMPARISON_MODES: ComparisonMode[] = ['previous_period', 'previous_year'];
+
+/**
+ * Read the range of an analytics request: ?startDate=&endDate= (YYYY-MM-DD, in the tenant's time zone)
+ * take precedence over ?timeFilter=. ?compare= selects the comparison period.
+ * Throws with a user-facing message on invalid input.
+ */
+export function parseAnalyticsQuery(
+  query: Record<string, unknown>,
+  timeZone: string = DEFAULT_TIMEZONE
+): { range?: AnalyticsRange; compare?: ComparisonMode } {
+  const { timeFilter, startDate, endDate, compare } = query;
+
+  if (compare !== undefined && !COMPARISON_MODES.includes(compare as ComparisonMode)) {
+    throw new Error(`Comparaison invalide. Valeurs acceptées: ${COMPARISON_MODES.join(', ')}`);
+  }
+
+  if (startDate !== undefined || endDate !== undefined) {
+    if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+      throw new Error('startDate et endDate doivent être fournis ensemble');
     }
-    default:
-      return null;
+    return { range: getDateRangePeriod(startDate, endDate, timeZone), compare: compare as ComparisonMode | undefined };
+  }
+
+  if (timeFilter !== undefined && !TIME_FILTERS.includes(timeFilter as TimeFilter)) {
+    throw new Error(`Filtre de période invalide. Valeurs acceptées: ${TIME_FILTERS.join(', ')}`);
   }
+  return { range: timeFilter as TimeFilter | undefined, compare: compare as ComparisonMode | undefined };
 }
 
 /**
@@ -189,6 +189,114 @@ export function registerCronApiRoutes(app: Express): void {
     }
   });
 
+  app.post("/api/cron/marketing-automations", requireCronApiKey, async (req, res) => {
+    console.log("[CronAPI] Triggering marketing automations...");
+    try {
+      const { processMarketingAutomations } = await import("./crons/marketing-automation.cron");
+      const result = await processMarketingAutomations();
+      res.json({ success: true, message: "Marketing automations processed", result });
+    } catch (error: any) {
+      console.error("[CronAPI] Marketing automations error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/cron/campaign-dispatch", requireCronApiKey, async (req, res) => {
+    console.log("[CronAPI] Triggering scheduled campaign dispatch...");
+    try {
+      const { dispatchScheduledCampaigns } = await import("./crons/campaign-dispatch.cron");
+      const result = await dispatchScheduledCampaigns();
+      res.json({ success: true, message: "Scheduled campaigns dispatched", result });
+    } catch (error: any) {
+      console.error("[CronAPI] Campaign dispatch error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/cron/webhook-retries", requireCronApiKey, async (req, res) => {
+    console.log("[CronAPI] Triggering outbound webhook retries...");
+    try {
+      const { retryWebhookDeliveries } = await import("./crons/outbound-webhook.cron");
+      const result = await retryWebhookDeliveries();
+      res.json({ success: true, message: "Webhook deliveries retried", result });
+    } catch (error: any) {
+      console.error("[CronAPI] Webhook retry error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/cron/call-exports", requireCronApiKey, async (req, res) => {
+    console.log("[CronAPI] Triggering scheduled call exports...");
+    try {
+      const { sendScheduledCallExports } = await import("./crons/call-export.cron");
+      const result = await sendScheduledCallExports();
+      res.json({ success: true, message: "Scheduled call exports sent", result });
+    } catch (error: any) {
+      console.error("[CronAPI] Call export error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/cron/call-anomalies", requireCronApiKey, async (req, res) => {
+    console.log("[CronAPI] Triggering call anomaly detection...");
+    try {
+      const { detectCallAnomalies } = await import("./crons/call-anomaly.cron");
+      const result = await detectCallAnomalies();
+      res.json({ success: true, message: "Call anomaly detection completed", result });
+    } catch (error: any) {
+      console.error("[CronAPI] Call anomaly error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/cron/revenue-attribution", requireCronApiKey, async (req, res) => {
+    console.log("[CronAPI] Triggering revenue attribution...");
+    try {
+      const { attributeRecentRevenue } = await import("./crons/revenue-attribution.cron");
+      const result = await attributeRecentRevenue();
+      res.json({ success: true, message: "Revenue attribution completed", result });
+    } catch (error: any) {
+      console.error("[CronAPI] Revenue attribution error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/cron/guarantee-reminders", requireCronApiKey, async (req, res) => {
+    console.log("[CronAPI] Triggering guarantee card reminders...");
+    try {
+      const { processGuaranteeReminders } = await import("./crons/guarantee-reminder.cron");
+      const result = await processGuaranteeReminders();
+      res.json({ success: true, message: "Guarantee reminders processed", result });
+    } catch (error: any) {
+      console.error("[CronAPI] Guarantee reminder error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/cron/guarantee-noshows", requireCronApiKey, async (req, res) => {
+    console.log("[CronAPI] Triggering guarantee no-show detection...");
+    try {
+      const { detectGuaranteeNoshows } = await import("./crons/guarantee-noshow.cron");
+      const result = await detectGuaranteeNoshows();
+      res.json({ success: true, message: "Guarantee no-show detection completed", result });
+    } catch (error: any) {
+      console.error("[CronAPI] Guarantee no-show detection error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/cron/guarantee-refunds", requireCronApiKey, async (req, res) => {
+    console.log("[CronAPI] Triggering guarantee deposit refund retries...");
+    try {
+      const { processGuaranteeRefunds } = await import("./crons/guarantee-refund.cron");
+      const result = await processGuaranteeRefunds();
+      res.json({ success: true, message: "Guarantee refund retries processed", result });
+    } catch (error: any) {
+      console.error("[CronAPI] Guarantee refund retry error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   app.get("/api/cron/health", requireCronApiKey, async (req, res) => {
     res.json({ 
       status: "ok", 
@@ -199,7 +307,16 @@ export function registerCronApiRoutes(app: Express): void {
         "POST /api/cron/daily-summary",
         "POST /api/cron/trial-expiring-notifications",
         "POST /api/cron/review-sync",
-        "POST /api/cron/integration-sync"
+        "POST /api/cron/integration-sync",
+        "POST /api/cron/marketing-automations",
+        "POST /api/cron/campaign-dispatch",
+        "POST /api/cron/webhook-retries",
+        "POST /api/cron/call-exports",
+        "POST /api/cron/call-anomalies",
+        "POST /api/cron/revenue-attribution",
+        "POST /api/cron/guarantee-reminders",
+        "POST /api/cron/guarantee-noshows",
+        "POST /api/cron/guarantee-refunds"
       ]
     });
   });
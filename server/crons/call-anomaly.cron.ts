@@ -0,0 +1,44 @@
+// Call Anomaly Detection Cron Job - Checks the last complete hour of every active account
+import cron from 'node-cron';
+import { runCallAnomalyDetection } from '../services/call-anomaly.service';
+
+let isRunning = false;
+
+export async function detectCallAnomalies(): Promise<{ users: number; alerts: number; failed: number }> {
+  if (isRunning) {
+    console.log('[CallAnomalyCron] Already running, skipping...');
+    return { users: 0, alerts: 0, failed: 0 };
+  }
+
+  isRunning = true;
+
+  try {
+    const stats = await runCallAnomalyDetection();
+
+    if (stats.alerts > 0 || stats.failed > 0) {
+      console.log(`[CallAnomalyCron] ${stats.users} accounts checked, ${stats.alerts} anomalies, ${stats.failed} failed`);
+    }
+
+    return stats;
+  } catch (error: any) {
+    console.error('[CallAnomalyCron] Fatal error:', error.message);
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startCallAnomalyCron() {
+  // A few minutes past the hour, so late call webhooks of the previous hour are in
+  cron.schedule('5 * * * *', async () => {
+    try {
+      await detectCallAnomalies();
+    } catch (error) {
+      console.error('[CallAnomalyCron] Scheduled run failed:', error);
+    }
+  }, {
+    timezone: 'Europe/Paris'
+  });
+
+  console.log('[CallAnomalyCron] Cron job started - checks call activity anomalies every hour');
+}
@@ -0,0 +1,43 @@
+// Scheduled Call Export Cron Job - Emails the weekly call exports that are due
+import cron from 'node-cron';
+import { processDueCallExportSchedules } from '../services/call-export.service';
+
+let isRunning = false;
+
+export async function sendScheduledCallExports(): Promise<{ sent: number; failed: number }> {
+  if (isRunning) {
+    console.log('[CallExportCron] Already running, skipping...');
+    return { sent: 0, failed: 0 };
+  }
+
+  isRunning = true;
+
+  try {
+    const stats = await processDueCallExportSchedules();
+
+    if (stats.sent > 0 || stats.failed > 0) {
+      console.log(`[CallExportCron] ${stats.sent} exports sent, ${stats.failed} failed`);
+    }
+
+    return stats;
+  } catch (error: any) {
+    console.error('[CallExportCron] Fatal error:', error.message);
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startCallExportCron() {
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      await sendScheduledCallExports();
+    } catch (error) {
+      console.error('[CallExportCron] Scheduled run failed:', error);
+    }
+  }, {
+    timezone: 'Europe/Paris'
+  });
+
+  console.log('[CallExportCron] Cron job started - sends due call exports every 15 minutes');
+}
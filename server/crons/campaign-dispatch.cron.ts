@@ -0,0 +1,91 @@
+// Campaign Dispatch Cron Job - Sends scheduled marketing campaigns once they are due
+import cron from 'node-cron';
+import { storage } from '../storage';
+import { sendCampaignToRecipients } from '../marketing-email.service';
+import { dispatchAbTestCampaign } from '../services/marketing-ab-test.service';
+
+let isRunning = false;
+
+// A 'sending' campaign not updated for this long was interrupted (restart, crash) and is resumed
+const STALLED_SENDING_MS = 15 * 60 * 1000;
+
+export async function dispatchScheduledCampaigns(): Promise<{ dispatched: number; completed: number; interrupted: number; failed: number }> {
+  if (isRunning) {
+    console.log('[CampaignDispatchCron] Already running, skipping...');
+    return { dispatched: 0, completed: 0, interrupted: 0, failed: 0 };
+  }
+
+  isRunning = true;
+  const stats = { dispatched: 0, completed: 0, interrupted: 0, failed: 0 };
+
+  try {
+    const stalledBefore = new Date(Date.now() - STALLED_SENDING_MS);
+    const dueCampaigns = await storage.getScheduledCampaigns();
+    const stalledCampaigns = await storage.getStalledSendingCampaigns(stalledBefore);
+    const campaigns = [...dueCampaigns, ...stalledCampaigns];
+
+    if (campaigns.length > 0) {
+      console.log(`[CampaignDispatchCron] Found ${dueCampaigns.length} due and ${stalledCampaigns.length} stalled campaigns`);
+    }
+
+    for (const candidate of campaigns) {
+      // A/B test variants are only ever sent by their parent campaign
+      if (candidate.abVariantOf) {
+        continue;
+      }
+
+      // Another run (or instance) may have taken it, or it was paused/cancelled since the listing
+      const campaign = await storage.claimCampaignForSending(candidate.id, stalledBefore);
+      if (!campaign) {
+        continue;
+      }
+
+      stats.dispatched++;
+      try {
+        console.log(`[CampaignDispatchCron] Dispatching campaign "${campaign.name}" (${campaign.id})`);
+        const result = campaign.isAbTest
+          ? await dispatchAbTestCampaign(campaign)
+          : await sendCampaignToRecipients(campaign.id, campaign.userId);
+
+        if (result.status === 'testing') {
+          console.log(`[CampaignDispatchCron] A/B test slices sent for campaign ${campaign.id}: ${result.sent} sent, ${result.failed} failed`);
+        } else if (result.status === 'sent') {
+          stats.completed++;
+          console.log(`✅ [CampaignDispatchCron] Campaign ${campaign.id} sent: ${result.sent} sent, ${result.failed} failed`);
+        } else {
+          stats.interrupted++;
+          console.log(`[CampaignDispatchCron] Campaign ${campaign.id} ${result.status} mid-send after ${result.sent + result.failed} recipients`);
+        }
+      } catch (error: any) {
+        stats.failed++;
+        console.error(`❌ [CampaignDispatchCron] Campaign ${campaign.id} failed:`, error.message);
+        // Flag it instead of leaving it scheduled so it is not retried every minute
+        await storage.updateMarketingCampaign(campaign.id, campaign.userId, {
+          status: 'failed',
+          lastError: error.message,
+        });
+      }
+    }
+
+    return stats;
+  } catch (error: any) {
+    console.error('[CampaignDispatchCron] Fatal error:', error.message);
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startCampaignDispatchCron() {
+  cron.schedule('* * * * *', async () => {
+    try {
+      await dispatchScheduledCampaigns();
+    } catch (error) {
+      console.error('[CampaignDispatchCron] Scheduled run failed:', error);
+    }
+  }, {
+    timezone: 'Europe/Paris'
+  });
+
+  console.log('[CampaignDispatchCron] Cron job started - checks for due campaigns every minute');
+}
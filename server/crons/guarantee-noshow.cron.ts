@@ -0,0 +1,42 @@
+// Guarantee No-show Cron Job - Check-in from POS orders and no-show detection after the grace period
+import cron from 'node-cron';
+import Stripe from 'stripe';
+import { processNoshowDetection } from '../services/guarantee-noshow.service';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+let isRunning = false;
+
+export async function detectGuaranteeNoshows(): Promise<{ checkedIn: number; detected: number; charged: number; failed: number }> {
+  if (isRunning) {
+    console.log('[GuaranteeNoshowCron] Already running, skipping...');
+    return { checkedIn: 0, detected: 0, charged: 0, failed: 0 };
+  }
+
+  isRunning = true;
+
+  try {
+    const stats = await processNoshowDetection(stripe);
+    console.log(`[GuaranteeNoshowCron] ${stats.checkedIn} check-ins, ${stats.detected} no-shows to review, ${stats.charged} applied, ${stats.failed} failed`);
+    return stats;
+  } catch (error: any) {
+    console.error('[GuaranteeNoshowCron] Fatal error:', error.message);
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startGuaranteeNoshowCron() {
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      await detectGuaranteeNoshows();
+    } catch (error) {
+      console.error('[GuaranteeNoshowCron] Scheduled run failed:', error);
+    }
+  }, {
+    timezone: 'Europe/Paris'
+  });
+
+  console.log('[GuaranteeNoshowCron] Cron job started - detects no-shows every 15 minutes');
+}
@@ -0,0 +1,42 @@
+// Guarantee Refund Cron Job - Retries the deposit refunds that failed when a reservation was cancelled
+import cron from 'node-cron';
+import Stripe from 'stripe';
+import { retryFailedDepositRefunds } from '../services/guarantee-deposit.service';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+let isRunning = false;
+
+export async function processGuaranteeRefunds(): Promise<{ settled: number; failed: number; abandoned: number }> {
+  if (isRunning) {
+    console.log('[GuaranteeRefundCron] Already running, skipping...');
+    return { settled: 0, failed: 0, abandoned: 0 };
+  }
+
+  isRunning = true;
+
+  try {
+    const stats = await retryFailedDepositRefunds(stripe);
+    console.log(`[GuaranteeRefundCron] ${stats.settled} deposits settled, ${stats.failed} refunds failed again, ${stats.abandoned} past the last attempt`);
+    return stats;
+  } catch (error: any) {
+    console.error('[GuaranteeRefundCron] Fatal error:', error.message);
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startGuaranteeRefundCron() {
+  cron.schedule('0 * * * *', async () => {
+    try {
+      await processGuaranteeRefunds();
+    } catch (error) {
+      console.error('[GuaranteeRefundCron] Scheduled run failed:', error);
+    }
+  }, {
+    timezone: 'Europe/Paris'
+  });
+
+  console.log('[GuaranteeRefundCron] Cron job started - retries failed deposit refunds every hour');
+}
@@ -0,0 +1,39 @@
+// Guarantee Reminder Cron Job - Card request reminders and auto-cancel of pending guarantee sessions
+import cron from 'node-cron';
+import { processCardReminders } from '../services/guarantee-reminder.service';
+
+let isRunning = false;
+
+export async function processGuaranteeReminders(): Promise<{ reminded: number; cancelled: number; failed: number }> {
+  if (isRunning) {
+    console.log('[GuaranteeReminderCron] Already running, skipping...');
+    return { reminded: 0, cancelled: 0, failed: 0 };
+  }
+
+  isRunning = true;
+
+  try {
+    const stats = await processCardReminders();
+    console.log(`[GuaranteeReminderCron] ${stats.reminded} reminders sent, ${stats.cancelled} sessions auto-cancelled, ${stats.failed} failed`);
+    return stats;
+  } catch (error: any) {
+    console.error('[GuaranteeReminderCron] Fatal error:', error.message);
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startGuaranteeReminderCron() {
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      await processGuaranteeReminders();
+    } catch (error) {
+      console.error('[GuaranteeReminderCron] Scheduled run failed:', error);
+    }
+  }, {
+    timezone: 'Europe/Paris'
+  });
+
+  console.log('[GuaranteeReminderCron] Cron job started - processes card reminders every 15 minutes');
+}
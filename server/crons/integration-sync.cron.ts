@@ -19,7 +19,9 @@ async function syncAllActiveConnections() {
     failed: 0,
     customersImported: 0,
     ordersImported: 0,
-    transactionsImported: 0
+    transactionsImported: 0,
+    activitiesImported: 0,
+    productsImported: 0
   };
   
   for (const connection of connections) {
@@ -48,7 +50,9 @@ async function syncAllActiveConnections() {
         stats.customersImported += result.customersImported;
         stats.ordersImported += result.ordersImported;
         stats.transactionsImported += result.transactionsImported;
-        console.log(`[IntegrationSyncCron] Successfully synced ${connection.name}: ${result.customersImported} customers, ${result.ordersImported} orders, ${result.transactionsImported} transactions`);
+        stats.activitiesImported += result.activitiesImported;
+        stats.productsImported += result.productsImported;
+        console.log(`[IntegrationSyncCron] Successfully synced ${connection.name}: ${result.customersImported} customers, ${result.ordersImported} orders, ${result.transactionsImported} transactions, ${result.activitiesImported} activities, ${result.productsImported} products`);
       } else {
         stats.failed++;
         console.error(`[IntegrationSyncCron] Failed to sync ${connection.name}: ${result.errors.join(', ')}`);
@@ -60,7 +64,7 @@ async function syncAllActiveConnections() {
   }
   
   console.log(`[IntegrationSyncCron] Sync completed: ${stats.synced} synced, ${stats.skipped} skipped, ${stats.failed} failed`);
-  console.log(`[IntegrationSyncCron] Total imported: ${stats.customersImported} customers, ${stats.ordersImported} orders, ${stats.transactionsImported} transactions`);
+  console.log(`[IntegrationSyncCron] Total imported: ${stats.customersImported} customers, ${stats.ordersImported} orders, ${stats.transactionsImported} transactions, ${stats.activitiesImported} activities, ${stats.productsImported} products`);
   
   return stats;
 }
@@ -0,0 +1,38 @@
+// Marketing Automation Cron Job - Enrolls triggered contacts and executes due workflow steps
+import cron from 'node-cron';
+import { runMarketingAutomations, type AutomationRunStats } from '../services/marketing-automation.service';
+
+let isRunning = false;
+
+export async function processMarketingAutomations(): Promise<AutomationRunStats | { skipped: true }> {
+  if (isRunning) {
+    console.log('[MarketingAutomationCron] Already running, skipping...');
+    return { skipped: true };
+  }
+
+  isRunning = true;
+  try {
+    const stats = await runMarketingAutomations();
+    console.log(`[MarketingAutomationCron] Completed: ${stats.enrolled} enrolled, ${stats.processed} processed, ${stats.completed} completed, ${stats.failed} failed`);
+    return stats;
+  } catch (error: any) {
+    console.error('[MarketingAutomationCron] Fatal error:', error.message);
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startMarketingAutomationCron() {
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      await processMarketingAutomations();
+    } catch (error) {
+      console.error('[MarketingAutomationCron] Scheduled run failed:', error);
+    }
+  }, {
+    timezone: 'Europe/Paris'
+  });
+
+  console.log('[MarketingAutomationCron] Cron job started - runs every 5 minutes');
+}
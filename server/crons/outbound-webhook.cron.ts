@@ -0,0 +1,43 @@
+// Outbound Webhook Retry Cron Job - Retries failed deliveries once their backoff delay has passed
+import cron from 'node-cron';
+import { processDueWebhookDeliveries } from '../services/outbound-webhook.service';
+
+let isRunning = false;
+
+export async function retryWebhookDeliveries(): Promise<{ retried: number; succeeded: number; failed: number }> {
+  if (isRunning) {
+    console.log('[OutboundWebhookCron] Already running, skipping...');
+    return { retried: 0, succeeded: 0, failed: 0 };
+  }
+
+  isRunning = true;
+
+  try {
+    const stats = await processDueWebhookDeliveries();
+
+    if (stats.retried > 0) {
+      console.log(`[OutboundWebhookCron] Retried ${stats.retried} deliveries: ${stats.succeeded} succeeded, ${stats.failed} given up`);
+    }
+
+    return stats;
+  } catch (error: any) {
+    console.error('[OutboundWebhookCron] Fatal error:', error.message);
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startOutboundWebhookCron() {
+  cron.schedule('* * * * *', async () => {
+    try {
+      await retryWebhookDeliveries();
+    } catch (error) {
+      console.error('[OutboundWebhookCron] Scheduled run failed:', error);
+    }
+  }, {
+    timezone: 'Europe/Paris'
+  });
+
+  console.log('[OutboundWebhookCron] Cron job started - retries due webhook deliveries every minute');
+}
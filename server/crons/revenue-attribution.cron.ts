@@ -0,0 +1,40 @@
+// Revenue Attribution Cron Job - Links recent orders and payments to the calls and reservations behind them
+import cron from 'node-cron';
+import { runRevenueAttribution } from '../services/revenue-attribution.service';
+
+let isRunning = false;
+
+export async function attributeRecentRevenue(): Promise<{ users: number; attributed: number; failed: number }> {
+  if (isRunning) {
+    console.log('[RevenueAttributionCron] Already running, skipping...');
+    return { users: 0, attributed: 0, failed: 0 };
+  }
+
+  isRunning = true;
+
+  try {
+    const stats = await runRevenueAttribution();
+    console.log(`[RevenueAttributionCron] ${stats.users} accounts processed, ${stats.attributed} orders attributed, ${stats.failed} failed`);
+    return stats;
+  } catch (error: any) {
+    console.error('[RevenueAttributionCron] Fatal error:', error.message);
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startRevenueAttributionCron() {
+  // Once a night - integrations sync hourly, so the orders of the day are in
+  cron.schedule('30 4 * * *', async () => {
+    try {
+      await attributeRecentRevenue();
+    } catch (error) {
+      console.error('[RevenueAttributionCron] Scheduled run failed:', error);
+    }
+  }, {
+    timezone: 'Europe/Paris'
+  });
+
+  console.log('[RevenueAttributionCron] Cron job started - attributes revenue every day at 04:30');
+}
@@ -63,6 +63,21 @@ async function ensureSchemaConsistency() {
       console.log('✅ [SCHEMA GUARD] Column users.account_status exists');
     }
     
+    // Full-text search index on calls. concat_ws and array_to_string are only STABLE, so the document
+    // goes through an IMMUTABLE wrapper - storage.searchCalls must use the exact same expression
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION call_search_document(summary text, transcript text, keywords text[], tags text[], client_name text)
+      RETURNS text LANGUAGE sql IMMUTABLE PARALLEL SAFE
+      AS $$ SELECT concat_ws(' ', summary, transcript, array_to_string(keywords, ' '), array_to_string(tags, ' '), client_name) $$
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS calls_search_idx ON calls USING gin ((
+        to_tsvector('french', call_search_document(summary, transcript, keywords, tags, client_name))
+        || to_tsvector('english', call_search_document(summary, transcript, keywords, tags, client_name))
+      ))
+    `);
+    console.log('✅ [SCHEMA GUARD] Call search index exists');
+    
     console.log('✅ [SCHEMA GUARD] Schema consistency check completed');
   } catch (e) {
     console.error('❌ [SCHEMA GUARD] Error ensuring schema consistency:', e);
@@ -267,7 +267,8 @@ export function registerDemoRoutes(app: Express) {
         const today = new Date();
         return resDate.toDateString() === today.toDateString();
       }),
-      stats: demoGuaranteeStats,
+      reviewQueue: [],
+      stats: { ...demoGuaranteeStats, reviewCount: 0 },
     });
   });
 
@@ -290,8 +291,39 @@ export function registerDemoRoutes(app: Express) {
         enabled: true,
         penaltyAmount: 25,
         cancellationDelay: 24,
+        guaranteeMode: 'penalty',
+        depositType: 'fixed',
+        depositAmount: 20,
+        depositPercent: 30,
+        lateCancellationRefundPercent: 50,
         applyTo: 'min_persons',
         minPersons: 4,
+        applicationRules: [
+          {
+            id: 'rule_weekend_soir',
+            name: 'Week-end soir, grandes tables',
+            enabled: true,
+            match: 'all',
+            conditions: [
+              { type: 'day_of_week', days: [5, 6] },
+              { type: 'time_range', from: '19:00', to: '23:30' },
+              { type: 'party_size', min: 4 },
+            ],
+            penaltyAmount: 25,
+            cancellationDelay: 24,
+          },
+          {
+            id: 'rule_fetes',
+            name: 'Saint-Valentin et réveillons',
+            enabled: true,
+            match: 'any',
+            conditions: [
+              { type: 'special_date', dates: ['02-14', '12-24', '12-31'] },
+            ],
+            penaltyAmount: 50,
+            cancellationDelay: 48,
+          },
+        ],
         logoUrl: null,
         brandColor: "#C8B88A",
         senderEmail: "demo@lepetitbistrot.fr",
@@ -308,6 +340,18 @@ export function registerDemoRoutes(app: Express) {
         autoSendSmsOnCreate: true,
         autoSendEmailOnValidation: true,
         autoSendSmsOnValidation: true,
+        cardReminderEnabled: true,
+        cardReminderSteps: [
+          { anchor: 'after_request', hours: 2 },
+          { anchor: 'before_reservation', hours: 12 },
+        ],
+        cardReminderEmail: true,
+        cardReminderSms: true,
+        autoCancelPendingHours: 4,
+        noshowDetectionMode: 'review',
+        noshowDetectionSources: ['pos', 'qr'],
+        noshowGraceMinutes: 30,
+        noshowReviewHours: 24,
       },
       stripeConnected: true,
       user: {
@@ -11,6 +11,15 @@ import { initPushNotificationCrons } from "./push-notification.cron";
 import { startReviewSyncCron } from "./crons/review-sync.cron";
 import { startIntegrationSyncCron } from "./crons/integration-sync.cron";
 import { startAppointmentReminderCron } from "./crons/appointment-reminder.cron";
+import { startMarketingAutomationCron } from "./crons/marketing-automation.cron";
+import { startCampaignDispatchCron } from "./crons/campaign-dispatch.cron";
+import { startOutboundWebhookCron } from "./crons/outbound-webhook.cron";
+import { startCallExportCron } from "./crons/call-export.cron";
+import { startCallAnomalyCron } from "./crons/call-anomaly.cron";
+import { startRevenueAttributionCron } from "./crons/revenue-attribution.cron";
+import { startGuaranteeReminderCron } from "./crons/guarantee-reminder.cron";
+import { startGuaranteeNoshowCron } from "./crons/guarantee-noshow.cron";
+import { startGuaranteeRefundCron } from "./crons/guarantee-refund.cron";
 import { waitlistScheduler } from "./services/waitlist-scheduler.service";
 
 const DISABLE_INTERNAL_CRONS = process.env.DISABLE_INTERNAL_CRONS === 'true';
@@ -103,6 +112,42 @@ app.use((req, res, next) => {
     startAppointmentReminderCron();
     console.log('[Server] Appointment reminder cron job initialized');
 
+    // Start marketing automation cron job
+    startMarketingAutomationCron();
+    console.log('[Server] Marketing automation cron job initialized');
+
+    // Start scheduled campaign dispatch cron job
+    startCampaignDispatchCron();
+    console.log('[Server] Campaign dispatch cron job initialized');
+
+    // Start outbound webhook retry cron job
+    startOutboundWebhookCron();
+    console.log('[Server] Outbound webhook cron job initialized');
+
+    // Start scheduled call export cron job
+    startCallExportCron();
+    console.log('[Server] Call export cron job initialized');
+
+    // Start call anomaly detection cron job
+    startCallAnomalyCron();
+    console.log('[Server] Call anomaly cron job initialized');
+
+    // Start revenue attribution cron job
+    startRevenueAttributionCron();
+    console.log('[Server] Revenue attribution cron job initialized');
+
+    // Start guarantee card reminder cron job
+    startGuaranteeReminderCron();
+    console.log('[Server] Guarantee reminder cron job initialized');
+
+    // Start guarantee no-show detection cron job
+    startGuaranteeNoshowCron();
+    console.log('[Server] Guarantee no-show cron job initialized');
+
+    // Start guarantee deposit refund retry cron job
+    startGuaranteeRefundCron();
+    console.log('[Server] Guarantee refund cron job initialized');
+
     // Initialize waitlist scheduler (rehydrates active slots)
     waitlistScheduler.initialize();
     console.log('[Server] Waitlist scheduler initialized');
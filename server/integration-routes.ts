@@ -1,12 +1,15 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { storage } from "./storage";
-import { createConnectionSchema, User } from "@shared/schema";
+import { createConnectionSchema, databaseConnectionSchema, databaseSourceConfigSchema, spreadsheetSourceConfigSchema, webhookSourceConfigSchema, User } from "@shared/schema";
 import { z } from "zod";
 import crypto from "crypto";
 import { requireAuth } from "./auth";
 import { integrationService } from "./integrations/integration-service";
 import { isProviderSupported, getSupportedProviders } from "./integrations/adapter-factory";
 import { hubspotOAuthRouter, getHubSpotAuthUrl, isHubSpotConfigured } from "./integrations/oauth/hubspot-oauth";
+import { salesforceOAuthRouter, startSalesforceAuthorization, isSalesforceConfigured } from "./integrations/oauth/salesforce-oauth";
+import { previewSpreadsheet } from "./integrations/adapters/spreadsheet-adapter";
+import { WEBHOOK_ENTITIES, isWebhookEntity, getWebhookEventType, previewWebhookMapping } from "./integrations/webhook-mapping";
 
 const router = Router();
 
@@ -16,6 +19,25 @@ const getUserId = (req: Request): string => {
   return user.id;
 };
 
+// Connectors reading a customer-owned source describe it per entity (table, query, sheet...)
+const parseSourceConfig = (provider: string, sourceConfig: unknown) => {
+  if (!sourceConfig) return undefined;
+  
+  switch (provider.toLowerCase()) {
+    case 'postgresql':
+    case 'mysql':
+      return databaseSourceConfigSchema.parse(sourceConfig);
+    case 'google_sheets':
+    case 'googlesheets':
+    case 'csv_url':
+      return spreadsheetSourceConfigSchema.parse(sourceConfig);
+    case 'webhook':
+      return webhookSourceConfigSchema.parse(sourceConfig);
+    default:
+      return undefined;
+  }
+};
+
 // ===== PROVIDER CONFIGS =====
 
 // Get all available integration providers
@@ -123,8 +145,8 @@ router.post("/connections/create-and-connect", requireAuth, async (req: Request,
       status: "pending"
     });
     
-    // If we have API credentials, test and activate
-    if (apiKey && isProviderSupported(provider)) {
+    // If we have API credentials (or a public sheet URL), test and activate
+    if ((apiKey || instanceUrl) && isProviderSupported(provider)) {
       const testResult = await integrationService.testConnection(connection.id, userId);
       
       if (testResult.success) {
@@ -368,6 +390,89 @@ router.post("/connections/:id/connect-apikey", requireAuth, async (req: Request,
   }
 });
 
+// Connect with database credentials (PostgreSQL / MySQL)
+router.post("/connections/:id/connect-database", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { id } = req.params;
+    const data = databaseConnectionSchema.parse({
+      ...req.body,
+      port: req.body.port !== undefined ? Number(req.body.port) : undefined
+    });
+    
+    const connection = await storage.getExternalConnectionById(id, userId);
+    if (!connection) {
+      return res.status(404).json({ error: "Connexion non trouvée" });
+    }
+    
+    // Storage layer encrypts the password
+    await storage.updateExternalConnection(id, userId, {
+      dbHost: data.host,
+      dbPort: data.port,
+      dbName: data.database,
+      dbUser: data.username,
+      dbPassword: data.password,
+      dbSsl: data.ssl,
+      dbSslCa: data.sslCa || null,
+      authType: "database_credentials",
+      status: "pending"
+    });
+    
+    const testResult = await integrationService.testConnection(id, userId);
+    
+    if (testResult.success) {
+      const updated = await storage.updateExternalConnection(id, userId, {
+        status: "active",
+        connectedAt: new Date(),
+        accountId: testResult.accountInfo?.id,
+        lastError: null
+      });
+      
+      res.json({
+        success: true,
+        message: testResult.message,
+        connection: {
+          ...updated,
+          dbPassword: updated?.dbPassword ? "[SECURED]" : null,
+        }
+      });
+    } else {
+      await storage.updateExternalConnection(id, userId, {
+        status: "error",
+        lastError: testResult.message
+      });
+      
+      res.status(400).json({
+        success: false,
+        message: testResult.message
+      });
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Données invalides", details: error.errors });
+    }
+    console.error("Error connecting database:", error);
+    res.status(500).json({ error: "Erreur lors de la connexion à la base de données" });
+  }
+});
+
+// List the tables of a database connection (source picker)
+router.get("/connections/:id/database/tables", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const tables = await integrationService.listDatabaseTables(req.params.id, userId);
+    
+    if (!tables) {
+      return res.status(404).json({ error: "Connexion non trouvée" });
+    }
+    
+    res.json(tables);
+  } catch (error) {
+    console.error("Error listing database tables:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Erreur lors de la lecture des tables" });
+  }
+});
+
 // Test an existing connection
 router.post("/connections/:id/test", requireAuth, async (req: Request, res: Response) => {
   try {
@@ -462,12 +567,14 @@ router.post("/connections/:id/sync", requireAuth, async (req: Request, res: Resp
     res.json({
       success: result.success,
       message: result.success 
-        ? `Synchronisation réussie: ${result.customersImported} clients, ${result.ordersImported} commandes, ${result.transactionsImported} transactions`
+        ? `Synchronisation réussie: ${result.customersImported} clients, ${result.ordersImported} commandes, ${result.transactionsImported} transactions, ${result.activitiesImported} activités, ${result.productsImported} produits`
         : `Synchronisation avec erreurs: ${result.errors.join(', ')}`,
       details: {
         customersImported: result.customersImported,
         ordersImported: result.ordersImported,
         transactionsImported: result.transactionsImported,
+        activitiesImported: result.activitiesImported,
+        productsImported: result.productsImported,
         errors: result.errors
       }
     });
@@ -496,6 +603,35 @@ router.post("/sync-all", requireAuth, async (req: Request, res: Response) => {
 
 // ===== FIELD MAPPINGS =====
 
+// Preview a Google Sheet / CSV URL before connecting it: detected header, first rows and suggested mappings
+const spreadsheetPreviewSchema = z.object({
+  url: z.string().min(1),
+  apiKey: z.string().optional(),
+  sheet: z.string().optional(),
+  headerRow: z.number().int().min(1).max(50).optional(),
+  entityType: z.enum(['contact', 'order']).default('contact'),
+});
+
+router.post("/spreadsheet/preview", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const data = spreadsheetPreviewSchema.parse(req.body);
+    
+    const preview = await previewSpreadsheet(data.url, data.entityType, {
+      credential: data.apiKey || undefined,
+      sheet: data.sheet || undefined,
+      headerRow: data.headerRow
+    });
+    
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Données invalides", details: error.errors });
+    }
+    console.error("Error previewing spreadsheet:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Impossible de lire la feuille" });
+  }
+});
+
 // Get field mappings for a connection
 router.get("/connections/:id/mappings", requireAuth, async (req: Request, res: Response) => {
   try {
@@ -527,9 +663,18 @@ router.put("/connections/:id/mappings/:entityType", requireAuth, async (req: Req
       return res.status(404).json({ error: "Connexion non trouvée" });
     }
     
-    const mapping = await storage.upsertFieldMapping(id, entityType, mappings, customFields);
+    if (connection.provider === "webhook" && !isWebhookEntity(entityType)) {
+      return res.status(400).json({ error: `Entité invalide (${WEBHOOK_ENTITIES.join(", ")})` });
+    }
+    
+    const sourceConfig = parseSourceConfig(connection.provider, req.body.sourceConfig);
+    
+    const mapping = await storage.upsertFieldMapping(id, entityType, mappings, customFields, sourceConfig);
     res.json(mapping);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Données invalides", details: error.errors });
+    }
     console.error("Error updating mapping:", error);
     res.status(500).json({ error: "Erreur lors de la mise à jour du mapping" });
   }
@@ -1089,6 +1234,7 @@ function getDefaultProviders() {
 
 // Mount OAuth callback routers
 router.use("/oauth/hubspot", hubspotOAuthRouter);
+router.use("/oauth/salesforce", salesforceOAuthRouter);
 
 // Initiate OAuth flow
 router.post("/connections/:id/oauth-start", requireAuth, async (req: Request, res: Response) => {
@@ -1112,6 +1258,16 @@ router.post("/connections/:id/oauth-start", requireAuth, async (req: Request, re
         const authUrl = getHubSpotAuthUrl(id, userId);
         res.json({ authUrl, provider: 'hubspot' });
         break;
+
+      case 'salesforce':
+        if (!isSalesforceConfigured()) {
+          return res.status(400).json({ 
+            error: "OAuth Salesforce non configuré",
+            message: "Veuillez configurer SALESFORCE_CLIENT_ID et SALESFORCE_CLIENT_SECRET dans les variables d'environnement"
+          });
+        }
+        res.json({ authUrl: startSalesforceAuthorization(res, id, userId), provider: 'salesforce' });
+        break;
         
       default:
         res.status(400).json({ error: `OAuth non supporté pour ${connection.provider}` });
@@ -1126,7 +1282,7 @@ router.post("/connections/:id/oauth-start", requireAuth, async (req: Request, re
 router.get("/oauth-status", requireAuth, async (req: Request, res: Response) => {
   res.json({
     hubspot: isHubSpotConfigured(),
-    salesforce: false,
+    salesforce: isSalesforceConfigured(),
     zoho: false,
     google: false
   });
@@ -1257,6 +1413,88 @@ router.post("/connections/create-webhook", requireAuth, async (req: Request, res
   }
 });
 
+// ===== WEBHOOK MAPPING & EVENT LOG =====
+
+const webhookMappingPreviewSchema = z.object({
+  payload: z.unknown(),
+  entityType: z.enum(['contact', 'order', 'reservation', 'activity']),
+  mappings: z.record(z.string()).default({}),
+  customFields: z.array(z.string()).default([]),
+  sourceConfig: webhookSourceConfigSchema.partial().optional(),
+});
+
+// Try a mapping on a sample payload: JSON paths found and records it would import
+router.post("/connections/:id/webhook-mapping/preview", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { id } = req.params;
+    
+    const connection = await storage.getExternalConnectionById(id, userId);
+    if (!connection || connection.provider !== "webhook") {
+      return res.status(404).json({ error: "Connexion webhook non trouvée" });
+    }
+    
+    const data = webhookMappingPreviewSchema.parse(req.body);
+    
+    const preview = previewWebhookMapping(data.payload, data.entityType, {
+      mappings: data.mappings,
+      customFields: data.customFields
+    }, data.sourceConfig);
+    
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Données invalides", details: error.errors });
+    }
+    console.error("Error previewing webhook mapping:", error);
+    res.status(500).json({ error: "Erreur lors de l'aperçu du mapping" });
+  }
+});
+
+// Received payloads with their processing result
+router.get("/connections/:id/webhook-events", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { id } = req.params;
+    const { status, limit } = req.query;
+    
+    const connection = await storage.getExternalConnectionById(id, userId);
+    if (!connection) {
+      return res.status(404).json({ error: "Connexion non trouvée" });
+    }
+    
+    const events = await storage.getWebhookEvents(id, userId, {
+      status: status as string | undefined,
+      limit: limit ? Math.min(parseInt(limit as string) || 50, 200) : 50
+    });
+    
+    res.json(events);
+  } catch (error) {
+    console.error("Error fetching webhook events:", error);
+    res.status(500).json({ error: "Erreur lors de la récupération des événements" });
+  }
+});
+
+// Replay a logged payload, typically after fixing the mapping
+router.post("/connections/:id/webhook-events/:eventId/reprocess", requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { id, eventId } = req.params;
+    
+    const event = await storage.getWebhookEventById(eventId, userId);
+    if (!event || event.connectionId !== id) {
+      return res.status(404).json({ error: "Événement non trouvé" });
+    }
+    
+    const processed = await integrationService.processWebhookEvent(event);
+    
+    res.json(processed);
+  } catch (error) {
+    console.error("Error reprocessing webhook event:", error);
+    res.status(500).json({ error: "Erreur lors du retraitement de l'événement" });
+  }
+});
+
 // ===== INCOMING WEBHOOK ENDPOINT (NO AUTH - receives external data) =====
 
 // Receive incoming webhook data from external systems
@@ -1315,28 +1553,31 @@ router.post("/webhooks/incoming/:webhookId", async (req: Request, res: Response)
       }
     }
     
-    // Log the webhook data
-    console.log(`[Webhook] Processing data from ${connection.name}:`, {
-      type: payload.type || payload.event || 'unknown',
-      data: payload.data ? 'present' : 'none'
+    // Every payload is logged first so it can be replayed once the mapping is fixed
+    const event = await storage.createWebhookEvent({
+      connectionId: connection.id,
+      userId: connection.userId,
+      eventType: getWebhookEventType(payload) || null,
+      payload: payload ?? {}
     });
     
+    const processed = await integrationService.processWebhookEvent(event);
+    const records = Object.values((processed.result || {}) as Record<string, number>).reduce((sum, count) => sum + count, 0);
+    
+    console.log(`[Webhook] Event ${event.id} from ${connection.name}: ${processed.status} (${records} records)`);
+    
     // Update last sync time
     await storage.updateExternalConnection(connection.id, connection.userId, {
       lastSyncAt: new Date()
     });
     
-    // Process the webhook data based on type
-    const entityType = payload.type || payload.event || 'custom';
-    const records = Array.isArray(payload.data) ? payload.data : [payload.data || payload];
-    
-    // Log received data for now (can be extended to store in external_orders, external_contacts, etc.)
-    console.log(`[Webhook] Processed ${records.length} records of type: ${entityType}`);
-    
+    // Mapping errors are not the sender's fault - the event stays in the log for reprocessing
     res.json({ 
       success: true, 
       message: "Webhook received",
-      processed: records.length 
+      eventId: event.id,
+      status: processed.status,
+      processed: records 
     });
   } catch (error) {
     console.error("Error processing webhook:", error);
@@ -2,6 +2,10 @@ import { ExternalConnection } from "@shared/schema";
 import { BaseIntegrationAdapter } from "./adapters/base-adapter";
 import { HubSpotAdapter } from "./adapters/hubspot-adapter";
 import { StripeIntegrationAdapter } from "./adapters/stripe-adapter";
+import { PipedriveAdapter } from "./adapters/pipedrive-adapter";
+import { SalesforceAdapter } from "./adapters/salesforce-adapter";
+import { DatabaseAdapter } from "./adapters/database-adapter";
+import { SpreadsheetAdapter } from "./adapters/spreadsheet-adapter";
 
 export type SupportedProvider = 'hubspot' | 'stripe' | 'salesforce' | 'zoho' | 'pipedrive' | 'monday';
 
@@ -13,6 +17,7 @@ export function createAdapter(
     accessToken?: string;
     refreshToken?: string;
     instanceUrl?: string;
+    dbPassword?: string;
   }
 ): BaseIntegrationAdapter {
   const provider = connection.provider.toLowerCase();
@@ -26,13 +31,22 @@ export function createAdapter(
       return new StripeIntegrationAdapter(connection, decryptedCredentials);
     
     case 'salesforce':
-      throw new Error("Salesforce adapter coming soon - requires OAuth configuration");
+      return new SalesforceAdapter(connection, decryptedCredentials);
     
     case 'zoho':
       throw new Error("Zoho adapter coming soon - requires OAuth configuration");
     
     case 'pipedrive':
-      throw new Error("Pipedrive adapter coming soon");
+      return new PipedriveAdapter(connection, decryptedCredentials);
+    
+    case 'postgresql':
+    case 'mysql':
+      return new DatabaseAdapter(connection, decryptedCredentials);
+    
+    case 'google_sheets':
+    case 'googlesheets':
+    case 'csv_url':
+      return new SpreadsheetAdapter(connection, decryptedCredentials);
     
     case 'monday':
       throw new Error("Monday.com adapter coming soon");
@@ -43,7 +57,7 @@ export function createAdapter(
 }
 
 export function isProviderSupported(provider: string): boolean {
-  const supported = ['hubspot', 'stripe', 'stripe_integration'];
+  const supported = ['hubspot', 'stripe', 'stripe_integration', 'pipedrive', 'salesforce', 'postgresql', 'mysql', 'google_sheets', 'googlesheets', 'csv_url'];
   return supported.includes(provider.toLowerCase());
 }
 
@@ -51,15 +65,19 @@ export function getSupportedProviders(): Array<{
   id: string;
   name: string;
   category: string;
-  authType: 'api_key' | 'oauth' | 'both';
+  authType: 'api_key' | 'oauth' | 'both' | 'credentials';
   status: 'active' | 'coming_soon';
 }> {
   return [
     { id: 'stripe', name: 'Stripe', category: 'payment', authType: 'api_key', status: 'active' },
     { id: 'hubspot', name: 'HubSpot', category: 'crm', authType: 'both', status: 'active' },
-    { id: 'salesforce', name: 'Salesforce', category: 'crm', authType: 'oauth', status: 'coming_soon' },
+    { id: 'salesforce', name: 'Salesforce', category: 'crm', authType: 'both', status: 'active' },
     { id: 'zoho', name: 'Zoho CRM', category: 'crm', authType: 'oauth', status: 'coming_soon' },
-    { id: 'pipedrive', name: 'Pipedrive', category: 'crm', authType: 'api_key', status: 'coming_soon' },
+    { id: 'pipedrive', name: 'Pipedrive', category: 'crm', authType: 'api_key', status: 'active' },
     { id: 'monday', name: 'Monday.com', category: 'crm', authType: 'api_key', status: 'coming_soon' },
+    { id: 'postgresql', name: 'PostgreSQL', category: 'database', authType: 'credentials', status: 'active' },
+    { id: 'mysql', name: 'MySQL', category: 'database', authType: 'credentials', status: 'active' },
+    { id: 'google_sheets', name: 'Google Sheets', category: 'database', authType: 'api_key', status: 'active' },
+    { id: 'csv_url', name: 'Fichier CSV (URL)', category: 'database', authType: 'api_key', status: 'active' },
   ];
 }
@@ -5,6 +5,8 @@ export interface SyncResult {
   customersImported: number;
   ordersImported: number;
   transactionsImported: number;
+  activitiesImported: number;
+  productsImported: number;
   errors: string[];
   lastSyncedAt: Date;
 }
@@ -43,7 +45,7 @@ export interface OrderData {
   totalAmount: string;
   currency?: string;
   status?: string;
-  orderDate: Date;
+  orderDate?: Date; // Unset when the source has no date, the first import date is then kept
   items?: Array<{
     name: string;
     quantity: number;
@@ -53,6 +55,14 @@ export interface OrderData {
   shippingAddress?: string;
   billingAddress?: string;
   paymentMethod?: string;
+  // Reservations and appointments are orders too
+  orderType?: string;
+  reservationDate?: Date;
+  partySize?: number;
+  customerName?: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  notes?: string;
   metadata?: Record<string, unknown>;
 }
 
@@ -73,6 +83,32 @@ export interface TransactionData {
   metadata?: Record<string, unknown>;
 }
 
+export interface ActivityData {
+  externalId: string;
+  customerExternalId?: string;
+  activityType: string;
+  subject?: string;
+  description?: string;
+  outcome?: string;
+  staffName?: string;
+  staffId?: string;
+  activityDate: Date;
+  duration?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ProductData {
+  externalId: string;
+  name: string;
+  description?: string;
+  category?: string;
+  sku?: string;
+  price?: string;
+  currency?: string;
+  isActive?: boolean;
+  metadata?: Record<string, unknown>;
+}
+
 export abstract class BaseIntegrationAdapter {
   protected connection: ExternalConnection;
   protected credentials: {
@@ -81,6 +117,7 @@ export abstract class BaseIntegrationAdapter {
     accessToken?: string;
     refreshToken?: string;
     instanceUrl?: string;
+    dbPassword?: string;
   };
 
   constructor(connection: ExternalConnection, decryptedCredentials: {
@@ -89,6 +126,7 @@ export abstract class BaseIntegrationAdapter {
     accessToken?: string;
     refreshToken?: string;
     instanceUrl?: string;
+    dbPassword?: string;
   }) {
     this.connection = connection;
     this.credentials = decryptedCredentials;
@@ -102,12 +140,23 @@ export abstract class BaseIntegrationAdapter {
   
   abstract fetchTransactions(since?: Date): Promise<TransactionData[]>;
 
+  // Only CRM adapters expose activities (calls, meetings, tasks...)
+  async fetchActivities(since?: Date): Promise<ActivityData[]> {
+    return [];
+  }
+
+  async fetchProducts(since?: Date): Promise<ProductData[]> {
+    return [];
+  }
+
   async sync(since?: Date): Promise<SyncResult> {
     const result: SyncResult = {
       success: false,
       customersImported: 0,
       ordersImported: 0,
       transactionsImported: 0,
+      activitiesImported: 0,
+      productsImported: 0,
       errors: [],
       lastSyncedAt: new Date()
     };
@@ -133,6 +182,20 @@ export abstract class BaseIntegrationAdapter {
       result.errors.push(`Transactions: ${error instanceof Error ? error.message : String(error)}`);
     }
 
+    try {
+      const activities = await this.fetchActivities(since);
+      result.activitiesImported = activities.length;
+    } catch (error) {
+      result.errors.push(`Activities: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    try {
+      const products = await this.fetchProducts(since);
+      result.productsImported = products.length;
+    } catch (error) {
+      result.errors.push(`Products: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
     result.success = result.errors.length === 0;
     return result;
   }
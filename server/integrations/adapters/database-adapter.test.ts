@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import type { ExternalConnection, ExternalFieldMapping } from "@shared/schema";
+import { storage } from "../../storage";
+import { resolvePublicAddress } from "../../utils/network-guard";
+import { DatabaseAdapter } from "./database-adapter";
+
+vi.mock("../../storage", () => ({
+  storage: { getFieldMappings: vi.fn() },
+}));
+
+// The local server lives on loopback, which the guard rejects for tenants
+vi.mock("../../utils/network-guard", async (importOriginal) => ({
+  ...await importOriginal<typeof import("../../utils/network-guard")>(),
+  resolvePublicAddress: vi.fn(),
+}));
+
+const db = new PGlite();
+const server = new PGLiteSocketServer({ db, port: 0, maxConnections: 4 });
+let port: number;
+
+function createAdapter(overrides: Partial<ExternalConnection> = {}) {
+  const connection = {
+    id: "conn-1",
+    userId: "user-1",
+    provider: "postgresql",
+    dbHost: "db.client.example",
+    dbPort: port,
+    dbName: "postgres",
+    dbUser: "postgres",
+    dbSsl: false,
+    dbSslCa: null,
+    ...overrides,
+  } as ExternalConnection;
+  return new DatabaseAdapter(connection, { dbPassword: "postgres" });
+}
+
+function withSources(...sources: { entityType: string; sourceConfig: unknown; mappings?: Record<string, string> }[]) {
+  vi.mocked(storage.getFieldMappings).mockResolvedValue(sources.map(source => ({
+    mappings: {},
+    customFields: null,
+    isActive: true,
+    ...source,
+  })) as ExternalFieldMapping[]);
+}
+
+beforeAll(async () => {
+  await db.exec(`
+    CREATE TABLE clients (
+      id integer PRIMARY KEY,
+      email text,
+      first_name text,
+      telephone text,
+      updated_at timestamp NOT NULL
+    );
+    INSERT INTO clients VALUES
+      (1, 'camille@exemple.fr', 'Camille', '+33611223344', '2025-03-01 10:00:00'),
+      (2, 'hugo@exemple.fr', 'Hugo', NULL, '2025-03-10 10:00:00');
+    CREATE SCHEMA ventes;
+    CREATE TABLE ventes.commandes (
+      ref text PRIMARY KEY,
+      client_id integer,
+      total numeric,
+      passee_le timestamp
+    );
+    INSERT INTO ventes.commandes VALUES ('CMD-1', 1, 42.5, '2025-02-14 19:30:00');
+  `);
+  await server.start();
+  port = Number(server.getServerConn().split(":").pop());
+});
+
+afterAll(async () => {
+  await server.stop();
+  await db.close();
+});
+
+beforeEach(() => {
+  vi.mocked(resolvePublicAddress).mockResolvedValue("127.0.0.1");
+});
+
+describe("DatabaseAdapter against a local PostgreSQL", () => {
+  it("connects to the resolved address", async () => {
+    const result = await createAdapter().testConnection();
+
+    expect(result).toMatchObject({ success: true, message: "Connexion PostgreSQL réussie" });
+    expect(resolvePublicAddress).toHaveBeenCalledWith("db.client.example");
+  });
+
+  it("lists tables and columns for the source picker", async () => {
+    const tables = await createAdapter().listTables();
+
+    expect(tables.map(t => t.name)).toEqual(["clients", "ventes.commandes"]);
+    expect(tables[0].columns.map(c => c.name)).toEqual(["id", "email", "first_name", "telephone", "updated_at"]);
+  });
+
+  it("maps rows of a table, by column name and explicit mapping", async () => {
+    withSources({
+      entityType: "contact",
+      sourceConfig: { table: "clients", idColumn: "id", updatedAtColumn: "updated_at" },
+      mappings: { telephone: "phone" },
+    });
+
+    const customers = await createAdapter().fetchCustomers();
+
+    expect(customers).toEqual([
+      expect.objectContaining({ externalId: "1", email: "camille@exemple.fr", firstName: "Camille", phone: "+33611223344" }),
+      expect.objectContaining({ externalId: "2", email: "hugo@exemple.fr", firstName: "Hugo" }),
+    ]);
+  });
+
+  it("only reads rows updated since the last sync", async () => {
+    withSources({ entityType: "contact", sourceConfig: { table: "clients", idColumn: "id", updatedAtColumn: "updated_at" } });
+
+    const customers = await createAdapter().fetchCustomers(new Date("2025-03-05T00:00:00"));
+
+    expect(customers.map(c => c.externalId)).toEqual(["2"]);
+  });
+
+  it("reads orders from a read-only query", async () => {
+    withSources({
+      entityType: "order",
+      sourceConfig: { query: "SELECT ref, client_id, total, passee_le FROM ventes.commandes", idColumn: "ref" },
+      mappings: { client_id: "customerExternalId", total: "totalAmount", passee_le: "orderDate" },
+    });
+
+    const [order] = await createAdapter().fetchOrders();
+
+    expect(order).toMatchObject({ externalId: "CMD-1", customerExternalId: "1", totalAmount: "42.5" });
+  });
+
+  it("refuses to write through a query", async () => {
+    withSources({ entityType: "contact", sourceConfig: { query: "SELECT 1 AS id; DELETE FROM clients", idColumn: "id" } });
+
+    await expect(createAdapter().fetchCustomers()).rejects.toThrow("Seules les requêtes SELECT uniques sont autorisées");
+  });
+
+  it("does not fall back to plain text when SSL is required", async () => {
+    const result = await createAdapter({ dbSsl: true }).testConnection();
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("does not support SSL");
+  });
+
+  it("rejects hosts on the private network", async () => {
+    const actual = await vi.importActual<typeof import("../../utils/network-guard")>("../../utils/network-guard");
+    vi.mocked(resolvePublicAddress).mockImplementation(actual.resolvePublicAddress);
+
+    const result = await createAdapter({ dbHost: "169.254.169.254" }).testConnection();
+
+    expect(result).toEqual({
+      success: false,
+      message: "Échec de connexion PostgreSQL: Les adresses locales ou privées ne sont pas autorisées",
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import net from "net";
+import pg from "pg";
+import mysql from "mysql2/promise";
+import { databaseSourceConfigSchema, DatabaseSourceConfig } from "@shared/schema";
+import { storage } from "../../storage";
+import { resolvePublicAddress } from "../../utils/network-guard";
+import { EntityMapping, FieldKind, CUSTOMER_TARGETS, ORDER_TARGETS, PRODUCT_TARGETS, parseFieldMapping, applyFieldMapping } from "../field-mapping";
+import { BaseIntegrationAdapter, TestConnectionResult, CustomerData, OrderData, TransactionData, ProductData } from "./base-adapter";
+
+type Row = Record<string, unknown>;
+
+// Entity types of externalFieldMappings a database source can feed
+type DatabaseEntity = 'contact' | 'order' | 'product';
+
+type Dialect = 'postgresql' | 'mysql';
+
+interface SqlClient {
+  query(sql: string, params?: unknown[]): Promise<Row[]>;
+  close(): Promise<void>;
+}
+
+export interface DatabaseTable {
+  name: string;
+  columns: { name: string; type: string }[];
+}
+
+interface EntitySource {
+  config: DatabaseSourceConfig;
+  mapping: EntityMapping;
+}
+
+const PAGE_SIZE = 1000;
+const CONNECT_TIMEOUT_MS = 10 * 1000;
+const STATEMENT_TIMEOUT_MS = 60 * 1000;
+
+const COLUMN_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Reads customers, orders and products from a customer's PostgreSQL or MySQL database.
+ * Each entity comes from a table or a read-only query configured in its field mapping (sourceConfig),
+ * and every session runs inside a READ ONLY transaction.
+ */
+export class DatabaseAdapter extends BaseIntegrationAdapter {
+  private sources: Map<string, EntitySource> | null = null;
+
+  private get dialect(): Dialect {
+    return this.connection.provider.toLowerCase() === 'mysql' ? 'mysql' : 'postgresql';
+  }
+
+  /**
+   * Connects to the address resolved and checked up front, certificates are verified against the host name
+   * with the system CAs or the one configured on the connection
+   */
+  private async connect(): Promise<SqlClient> {
+    const host = this.connection.dbHost;
+    if (!host) {
+      throw new Error("Hôte de la base de données manquant");
+    }
+    const address = await resolvePublicAddress(host);
+    const ca = this.connection.dbSslCa || undefined;
+    const useSsl = this.connection.dbSsl !== false;
+
+    if (this.dialect === 'mysql') {
+      const port = this.connection.dbPort || 3306;
+      const connection = await mysql.createConnection({
+        host,
+        port,
+        stream: () => net.connect(port, address),
+        database: this.connection.dbName || undefined,
+        user: this.connection.dbUser || undefined,
+        password: this.credentials.dbPassword,
+        ssl: useSsl ? { ca, rejectUnauthorized: true, verifyIdentity: true } : undefined,
+        connectTimeout: CONNECT_TIMEOUT_MS,
+      });
+      await connection.query(`SET SESSION MAX_EXECUTION_TIME = ${STATEMENT_TIMEOUT_MS}`).catch(() => undefined);
+      await connection.query("START TRANSACTION READ ONLY");
+
+      return {
+        query: async (sql, params = []) => {
+          const [rows] = await connection.query(sql, params);
+          return rows as Row[];
+        },
+        close: async () => {
+          await connection.query("ROLLBACK").catch(() => undefined);
+          await connection.end();
+        },
+      };
+    }
+
+    const client = new pg.Client({
+      host: address,
+      port: this.connection.dbPort || 5432,
+      database: this.connection.dbName || undefined,
+      user: this.connection.dbUser || undefined,
+      password: this.credentials.dbPassword,
+      ssl: useSsl ? { ca, rejectUnauthorized: true, servername: net.isIP(host) ? undefined : host } : false,
+      connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+      statement_timeout: STATEMENT_TIMEOUT_MS,
+    });
+    await client.connect();
+    await client.query("BEGIN READ ONLY");
+
+    return {
+      query: async (sql, params = []) => (await client.query(sql, params)).rows,
+      close: async () => {
+        await client.query("ROLLBACK").catch(() => undefined);
+        await client.end();
+      },
+    };
+  }
+
+  async testConnection(): Promise<TestConnectionResult> {
+    const label = this.dialect === 'mysql' ? "MySQL" : "PostgreSQL";
+    let client: SqlClient | undefined;
+
+    try {
+      client = await this.connect();
+      await client.query("SELECT 1");
+
+      return {
+        success: true,
+        message: `Connexion ${label} réussie`,
+        accountInfo: {
+          name: this.connection.dbName || undefined,
+          id: `${this.connection.dbHost}/${this.connection.dbName}`
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Échec de connexion ${label}: ${error instanceof Error ? error.message : String(error)}`
+      };
+    } finally {
+      await client?.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Tables and columns readable by the connection user, for the source picker
+   */
+  async listTables(): Promise<DatabaseTable[]> {
+    const sql = this.dialect === 'mysql'
+      ? `SELECT table_name AS table_name, column_name AS column_name, data_type AS data_type
+         FROM information_schema.columns WHERE table_schema = DATABASE()
+         ORDER BY table_name, ordinal_position`
+      : `SELECT CASE WHEN table_schema = 'public' THEN table_name ELSE table_schema || '.' || table_name END AS table_name,
+           column_name, data_type
+         FROM information_schema.columns WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+         ORDER BY table_schema, table_name, ordinal_position`;
+
+    const client = await this.connect();
+    try {
+      const tables = new Map<string, DatabaseTable>();
+      for (const row of await client.query(sql)) {
+        const name = String(row.table_name);
+        if (!tables.has(name)) {
+          tables.set(name, { name, columns: [] });
+        }
+        tables.get(name)!.columns.push({ name: String(row.column_name), type: String(row.data_type) });
+      }
+      return Array.from(tables.values());
+    } finally {
+      await client.close().catch(() => undefined);
+    }
+  }
+
+  private async getSource(entity: DatabaseEntity): Promise<EntitySource | undefined> {
+    if (!this.sources) {
+      this.sources = new Map();
+      const rows = await storage.getFieldMappings(this.connection.id);
+
+      for (const row of rows.filter(r => r.isActive && r.sourceConfig)) {
+        const config = databaseSourceConfigSchema.safeParse(row.sourceConfig);
+        if (!config.success) {
+          console.error(`Database source for ${row.entityType} is invalid:`, config.error.errors);
+          continue;
+        }
+        this.sources.set(row.entityType, {
+          config: config.data,
+          mapping: parseFieldMapping(row, field => COLUMN_NAME_PATTERN.test(field)),
+        });
+      }
+    }
+
+    return this.sources.get(entity);
+  }
+
+  private quoteIdentifier(identifier: string): string {
+    const quote = this.dialect === 'mysql' ? '`' : '"';
+    return identifier.split(".").map(part => `${quote}${part}${quote}`).join(".");
+  }
+
+  /**
+   * Queries are wrapped as a subquery so incremental filters and paging apply to tables and queries alike
+   */
+  private buildSelect(config: DatabaseSourceConfig, since?: Date): { sql: string; params: unknown[] } {
+    let from: string;
+    if (config.table) {
+      from = this.quoteIdentifier(config.table);
+    } else {
+      const query = (config.query || "").trim().replace(/;+\s*$/, "");
+      if (!/^(select|with)\s/i.test(query) || query.includes(";")) {
+        throw new Error("Seules les requêtes SELECT uniques sont autorisées");
+      }
+      from = `(${query}) AS source`;
+    }
+
+    let sql = `SELECT * FROM ${from}`;
+    const params: unknown[] = [];
+
+    if (since && config.updatedAtColumn) {
+      params.push(since);
+      sql += ` WHERE ${this.quoteIdentifier(config.updatedAtColumn)} > ${this.dialect === 'mysql' ? '?' : '$1'}`;
+    }
+
+    const orderBy = [config.updatedAtColumn, config.idColumn].filter(Boolean) as string[];
+    sql += ` ORDER BY ${orderBy.map(column => this.quoteIdentifier(column)).join(", ")}`;
+
+    return { sql, params };
+  }
+
+  private async readRows(entity: DatabaseEntity, since?: Date): Promise<{ rows: Row[]; source: EntitySource } | null> {
+    const source = await this.getSource(entity);
+    if (!source) {
+      return null;
+    }
+
+    const { sql, params } = this.buildSelect(source.config, since);
+    const client = await this.connect();
+    const rows: Row[] = [];
+
+    try {
+      let offset = 0;
+      while (true) {
+        const page = await client.query(`${sql} LIMIT ${PAGE_SIZE} OFFSET ${offset}`, params);
+        rows.push(...page);
+        if (page.length < PAGE_SIZE) break;
+        offset += PAGE_SIZE;
+      }
+    } finally {
+      await client.close().catch(() => undefined);
+    }
+
+    const idColumn = source.config.idColumn;
+    return { rows: rows.filter(row => row[idColumn] !== null && row[idColumn] !== undefined), source };
+  }
+
+  /**
+   * Columns named after a canonical field (first_name, email...) are mapped without configuration,
+   * explicit mappings win over them
+   */
+  private mapRow<T extends { metadata?: Record<string, unknown> }>(
+    row: Row,
+    base: T,
+    source: EntitySource,
+    targets: Record<string, FieldKind>
+  ): T {
+    const fields: Record<string, string> = {};
+    for (const column of Object.keys(row)) {
+      const camel = column.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+      if (targets[camel]) {
+        fields[column] = camel;
+      }
+    }
+
+    return applyFieldMapping(row, base, {
+      fields: { ...fields, ...source.mapping.fields },
+      customFields: source.mapping.customFields,
+    }, targets);
+  }
+
+  private getUpdatedAt(row: Row, config: DatabaseSourceConfig): Date | undefined {
+    const value = config.updatedAtColumn ? row[config.updatedAtColumn] : undefined;
+    if (!value) return undefined;
+    const date = value instanceof Date ? value : new Date(String(value));
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  async fetchCustomers(since?: Date): Promise<CustomerData[]> {
+    const result = await this.readRows('contact', since);
+    if (!result) return [];
+
+    const { rows, source } = result;
+    return rows.map(row => this.mapRow<CustomerData>(row, {
+      externalId: String(row[source.config.idColumn]),
+      email: "",
+    }, source, CUSTOMER_TARGETS));
+  }
+
+  async fetchOrders(since?: Date): Promise<OrderData[]> {
+    const result = await this.readRows('order', since);
+    if (!result) return [];
+
+    const { rows, source } = result;
+    return rows.map(row => this.mapRow<OrderData>(row, {
+      externalId: String(row[source.config.idColumn]),
+      totalAmount: "0",
+      orderDate: this.getUpdatedAt(row, source.config),
+    }, source, ORDER_TARGETS));
+  }
+
+  async fetchTransactions(since?: Date): Promise<TransactionData[]> {
+    return [];
+  }
+
+  async fetchProducts(since?: Date): Promise<ProductData[]> {
+    const result = await this.readRows('product', since);
+    if (!result) return [];
+
+    const { rows, source } = result;
+    return rows.map(row => {
+      const externalId = String(row[source.config.idColumn]);
+      return this.mapRow<ProductData>(row, { externalId, name: externalId }, source, PRODUCT_TARGETS);
+    });
+  }
+}
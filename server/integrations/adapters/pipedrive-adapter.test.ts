@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ExternalConnection } from "@shared/schema";
+import { PipedriveAdapter } from "./pipedrive-adapter";
+import personsPage1 from "./__fixtures__/pipedrive/persons-page-1.json";
+import personsPage2 from "./__fixtures__/pipedrive/persons-page-2.json";
+import deals from "./__fixtures__/pipedrive/deals.json";
+import recentsDeals from "./__fixtures__/pipedrive/recents-deals.json";
+import rateLimited from "./__fixtures__/pipedrive/rate-limited.json";
+import unauthorized from "./__fixtures__/pipedrive/unauthorized.json";
+
+interface RecordedResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+const connection = { id: "conn-1", userId: "user-1", provider: "pipedrive" } as ExternalConnection;
+
+// Replays the recorded responses in order and keeps the requested URLs
+function replay(...responses: RecordedResponse[]) {
+  const requests: URL[] = [];
+  const fetchMock = vi.fn(async (input: string | URL) => {
+    requests.push(new URL(String(input)));
+    const next = responses.shift();
+    if (!next) throw new Error(`Unexpected request: ${input}`);
+    return new Response(JSON.stringify(next.body), {
+      status: next.status ?? 200,
+      statusText: next.status === 429 ? "Too Many Requests" : next.status === 401 ? "Unauthorized" : "OK",
+      headers: { "Content-Type": "application/json", ...next.headers },
+    });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return requests;
+}
+
+describe("PipedriveAdapter", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe("pagination", () => {
+    it("follows next_start until the collection has no more items", async () => {
+      const requests = replay({ body: personsPage1 }, { body: personsPage2 });
+      const adapter = new PipedriveAdapter(connection, { apiKey: "token" });
+
+      const customers = await adapter.fetchCustomers();
+
+      expect(requests).toHaveLength(2);
+      expect(requests[0].pathname).toBe("/v1/persons");
+      expect(requests[0].searchParams.get("start")).toBe("0");
+      expect(requests[0].searchParams.get("limit")).toBe("500");
+      expect(requests[0].searchParams.get("api_token")).toBe("token");
+      expect(requests[1].searchParams.get("start")).toBe("500");
+      // The inactive person of the first page is left out
+      expect(customers.map(c => c.externalId)).toEqual(["101", "103"]);
+    });
+
+    it("maps persons with their primary email and phone", async () => {
+      replay({ body: personsPage1 }, { body: personsPage2 });
+      const adapter = new PipedriveAdapter(connection, { apiKey: "token" });
+
+      const [camille, hugo] = await adapter.fetchCustomers();
+
+      expect(camille).toMatchObject({
+        externalId: "101",
+        email: "camille@exemple.fr",
+        firstName: "Camille",
+        lastName: "Laurent",
+        phone: "+33611223344",
+        company: "Bistrot Laurent",
+        orderCount: 3,
+      });
+      expect(camille.metadata).toMatchObject({ ownerId: "12", openDealsCount: 1 });
+      expect(hugo).toMatchObject({ email: "", phone: "+33144556677", company: undefined, orderCount: 0 });
+    });
+
+    it("uses the company domain and OAuth token when configured", async () => {
+      const requests = replay({ body: personsPage2 });
+      const adapter = new PipedriveAdapter(connection, {
+        accessToken: "oauth-token",
+        instanceUrl: "https://acme.pipedrive.com/",
+      });
+
+      await adapter.fetchCustomers();
+
+      const [, init] = vi.mocked(fetch).mock.calls[0] as [string, RequestInit];
+      expect(requests[0].origin + requests[0].pathname).toBe("https://acme.pipedrive.com/api/v1/persons");
+      expect(requests[0].searchParams.has("api_token")).toBe(false);
+      expect(init.headers).toEqual({ Authorization: "Bearer oauth-token" });
+    });
+
+    it("refuses an instance URL outside the Pipedrive company domains", async () => {
+      const requests = replay({ body: personsPage2 });
+      const adapter = new PipedriveAdapter(connection, {
+        apiKey: "token",
+        instanceUrl: "https://acme.pipedrive.com.attacker.example",
+      });
+
+      await expect(adapter.fetchCustomers()).rejects.toThrow("https://<entreprise>.pipedrive.com");
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe("deal to order mapping", () => {
+    it("maps won and open deals and skips deleted ones", async () => {
+      const requests = replay({ body: deals });
+      const adapter = new PipedriveAdapter(connection, { apiKey: "token" });
+
+      const orders = await adapter.fetchOrders();
+
+      expect(requests[0].searchParams.get("status")).toBe("all_not_deleted");
+      expect(orders).toHaveLength(2);
+      expect(orders[0]).toMatchObject({
+        externalId: "501",
+        customerExternalId: "101",
+        totalAmount: "1850",
+        currency: "EUR",
+        status: "won",
+        orderDate: new Date("2025-02-14T18:30:00Z"),
+      });
+      expect(orders[0].metadata).toMatchObject({ title: "Privatisation soirée", stageId: 4, pipelineId: 1 });
+      // No value nor currency yet, dated by creation until it is closed
+      expect(orders[1]).toMatchObject({
+        externalId: "502",
+        customerExternalId: "103",
+        totalAmount: "0",
+        currency: "EUR",
+        status: "open",
+        orderDate: new Date("2025-03-05T08:45:00Z"),
+      });
+    });
+
+    it("reads incremental changes from the recents endpoint", async () => {
+      const requests = replay({ body: recentsDeals });
+      const adapter = new PipedriveAdapter(connection, { apiKey: "token" });
+
+      const orders = await adapter.fetchOrders(new Date("2025-03-01T00:00:00Z"));
+
+      expect(requests[0].pathname).toBe("/v1/recents");
+      expect(requests[0].searchParams.get("since_timestamp")).toBe("2025-03-01 00:00:00");
+      expect(requests[0].searchParams.get("items")).toBe("deal");
+      expect(orders).toEqual([
+        expect.objectContaining({
+          externalId: "504",
+          totalAmount: "640.5",
+          status: "lost",
+          orderDate: new Date("2025-03-12T09:00:00Z"),
+        }),
+      ]);
+    });
+  });
+
+  describe("errors and rate limits", () => {
+    it("waits for the rate limit window and retries the same page", async () => {
+      vi.useFakeTimers();
+      const requests = replay(
+        { body: personsPage1 },
+        { status: 429, headers: { "Retry-After": "2" }, body: rateLimited },
+        { body: personsPage2 },
+      );
+      const adapter = new PipedriveAdapter(connection, { apiKey: "token" });
+
+      const pending = adapter.fetchCustomers();
+      await vi.advanceTimersByTimeAsync(2000);
+      const customers = await pending;
+
+      expect(requests.map(r => r.searchParams.get("start"))).toEqual(["0", "500", "500"]);
+      expect(customers).toHaveLength(2);
+    });
+
+    it("gives up after repeated rate limiting", async () => {
+      vi.useFakeTimers();
+      const limited = { status: 429, headers: { "x-ratelimit-reset": "1" }, body: rateLimited };
+      const requests = replay(limited, limited, limited, limited);
+      const adapter = new PipedriveAdapter(connection, { apiKey: "token" });
+
+      const pending = adapter.fetchOrders();
+      const assertion = expect(pending).rejects.toThrow("Pipedrive API error: Too Many Requests");
+      await vi.advanceTimersByTimeAsync(3000);
+      await assertion;
+
+      expect(requests).toHaveLength(4);
+    });
+
+    it("fails the sync on an API error", async () => {
+      replay({ status: 401, body: unauthorized });
+      const adapter = new PipedriveAdapter(connection, { apiKey: "wrong" });
+
+      await expect(adapter.fetchActivities()).rejects.toThrow("Pipedrive API error: Unauthorized");
+    });
+
+    it("reports the API error message on connection test", async () => {
+      replay({ status: 401, body: unauthorized });
+      const adapter = new PipedriveAdapter(connection, { apiKey: "wrong" });
+
+      const result = await adapter.testConnection();
+
+      expect(result).toEqual({ success: false, message: "Échec de connexion Pipedrive: unauthorized access" });
+    });
+  });
+});
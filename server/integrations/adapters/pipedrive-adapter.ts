@@ -0,0 +1,290 @@
+import { BaseIntegrationAdapter, TestConnectionResult, CustomerData, OrderData, TransactionData, ActivityData } from "./base-adapter";
+
+type PipedriveRecord = Record<string, any>;
+
+type PipedriveItemType = 'person' | 'deal' | 'activity';
+
+const PAGE_LIMIT = 500;
+// Pipedrive rate limits per token over a rolling 2s window: wait it out a few times before giving up
+const MAX_RATE_LIMIT_RETRIES = 3;
+const DEFAULT_RATE_LIMIT_WAIT_MS = 2000;
+// Every request carries the API token, so it is only ever sent to a Pipedrive company domain
+const COMPANY_DOMAIN_PATTERN = /^[a-z0-9-]+\.pipedrive\.com$/i;
+
+export class PipedriveAdapter extends BaseIntegrationAdapter {
+  // Company domains (https://acme.pipedrive.com) are accepted as instance URL
+  private get baseUrl(): string {
+    const instanceUrl = this.credentials.instanceUrl?.trim();
+    if (!instanceUrl) {
+      return "https://api.pipedrive.com/v1";
+    }
+
+    const companyDomain = getCompanyDomain(instanceUrl);
+    if (!companyDomain) {
+      throw new Error("L'URL d'instance Pipedrive doit être de la forme https://<entreprise>.pipedrive.com");
+    }
+    return `https://${companyDomain}/api/v1`;
+  }
+
+  private async makeRequest(endpoint: string, params: Record<string, string> = {}): Promise<Response> {
+    const query = new URLSearchParams(params);
+
+    if (this.credentials.accessToken) {
+      return fetch(`${this.baseUrl}${endpoint}?${query}`, {
+        headers: { "Authorization": `Bearer ${this.credentials.accessToken}` },
+      });
+    }
+
+    query.set("api_token", this.credentials.apiKey || "");
+    return fetch(`${this.baseUrl}${endpoint}?${query}`);
+  }
+
+  async testConnection(): Promise<TestConnectionResult> {
+    try {
+      const response = await this.makeRequest("/users/me");
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        return {
+          success: false,
+          message: `Échec de connexion Pipedrive: ${error.error || response.statusText}`
+        };
+      }
+
+      const { data } = await response.json();
+
+      return {
+        success: true,
+        message: "Connexion Pipedrive réussie",
+        accountInfo: {
+          name: data?.company_name || data?.name,
+          email: data?.email,
+          id: data?.company_id?.toString()
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Erreur de connexion: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * Walk a paginated collection endpoint (start / next_start)
+   */
+  private async fetchCollection(endpoint: string, params: Record<string, string> = {}): Promise<PipedriveRecord[]> {
+    const items: PipedriveRecord[] = [];
+    let start = 0;
+    let hasMore = true;
+    let rateLimitRetries = 0;
+
+    while (hasMore) {
+      const response = await this.makeRequest(endpoint, { ...params, start: String(start), limit: String(PAGE_LIMIT) });
+
+      if (response.status === 429 && rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+        rateLimitRetries++;
+        await new Promise(resolve => setTimeout(resolve, getRateLimitWaitMs(response)));
+        continue;
+      }
+      rateLimitRetries = 0;
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Pipedrive ${endpoint} error:`, errorText);
+        throw new Error(`Pipedrive API error: ${response.statusText}`);
+      }
+
+      const body = await response.json();
+      items.push(...(body.data || []));
+
+      const pagination = body.additional_data?.pagination;
+      hasMore = !!pagination?.more_items_in_collection;
+      start = pagination?.next_start ?? start + PAGE_LIMIT;
+    }
+
+    return items;
+  }
+
+  /**
+   * Incremental sync uses the recents endpoint, which returns every item changed since a timestamp
+   */
+  private async fetchRecents(item: PipedriveItemType, since: Date): Promise<PipedriveRecord[]> {
+    const recents = await this.fetchCollection("/recents", {
+      since_timestamp: formatPipedriveTimestamp(since),
+      items: item,
+    });
+
+    return recents
+      .filter(recent => recent.item === item && recent.data)
+      .map(recent => recent.data as PipedriveRecord);
+  }
+
+  async fetchCustomers(since?: Date): Promise<CustomerData[]> {
+    try {
+      const persons = since
+        ? await this.fetchRecents('person', since)
+        : await this.fetchCollection("/persons");
+
+      return persons
+        .filter(person => person.active_flag !== false)
+        .map(person => this.mapPerson(person));
+    } catch (error) {
+      console.error("Pipedrive fetchCustomers error:", error);
+      throw error;
+    }
+  }
+
+  private mapPerson(person: PipedriveRecord): CustomerData {
+    return {
+      externalId: String(person.id),
+      email: getPrimaryValue(person.email) || "",
+      firstName: person.first_name || undefined,
+      lastName: person.last_name || undefined,
+      phone: getPrimaryValue(person.phone),
+      company: person.org_name || person.org_id?.name || undefined,
+      orderCount: person.won_deals_count ?? undefined,
+      metadata: {
+        name: person.name,
+        ownerId: getReferenceId(person.owner_id),
+        label: person.label,
+        openDealsCount: person.open_deals_count,
+        addTime: person.add_time,
+        updateTime: person.update_time
+      }
+    };
+  }
+
+  async fetchOrders(since?: Date): Promise<OrderData[]> {
+    try {
+      const deals = since
+        ? await this.fetchRecents('deal', since)
+        : await this.fetchCollection("/deals", { status: "all_not_deleted" });
+
+      return deals
+        .filter(deal => deal.status !== 'deleted')
+        .map(deal => this.mapDeal(deal));
+    } catch (error) {
+      console.error("Pipedrive fetchOrders error:", error);
+      throw error;
+    }
+  }
+
+  private mapDeal(deal: PipedriveRecord): OrderData {
+    const personId = getReferenceId(deal.person_id);
+
+    return {
+      externalId: String(deal.id),
+      customerExternalId: personId,
+      totalAmount: String(deal.value ?? 0),
+      currency: deal.currency || "EUR",
+      status: deal.status || "unknown",
+      orderDate: parsePipedriveDate(deal.won_time || deal.close_time || deal.add_time) || new Date(),
+      metadata: {
+        title: deal.title,
+        stageId: deal.stage_id,
+        pipelineId: deal.pipeline_id,
+        expectedCloseDate: deal.expected_close_date,
+        lostReason: deal.lost_reason,
+        updateTime: deal.update_time
+      }
+    };
+  }
+
+  async fetchTransactions(since?: Date): Promise<TransactionData[]> {
+    return [];
+  }
+
+  async fetchActivities(since?: Date): Promise<ActivityData[]> {
+    try {
+      // user_id=0 returns the activities of every user of the company, not only the token owner
+      const activities = since
+        ? await this.fetchRecents('activity', since)
+        : await this.fetchCollection("/activities", { user_id: "0" });
+
+      return activities
+        .filter(activity => activity.active_flag !== false)
+        .map(activity => this.mapActivity(activity));
+    } catch (error) {
+      console.error("Pipedrive fetchActivities error:", error);
+      throw error;
+    }
+  }
+
+  private mapActivity(activity: PipedriveRecord): ActivityData {
+    const dueDate = activity.due_date
+      ? parsePipedriveDate(`${activity.due_date} ${activity.due_time || "00:00"}:00`)
+      : null;
+
+    return {
+      externalId: String(activity.id),
+      customerExternalId: getReferenceId(activity.person_id),
+      activityType: activity.type || "task",
+      subject: activity.subject || undefined,
+      description: activity.note || activity.public_description || undefined,
+      outcome: activity.done ? "completed" : "scheduled",
+      staffName: activity.owner_name || undefined,
+      staffId: getReferenceId(activity.user_id),
+      activityDate: dueDate || parsePipedriveDate(activity.add_time) || new Date(),
+      duration: parseDuration(activity.duration),
+      metadata: {
+        dealId: getReferenceId(activity.deal_id),
+        orgId: getReferenceId(activity.org_id),
+        markedAsDoneTime: activity.marked_as_done_time,
+        updateTime: activity.update_time
+      }
+    };
+  }
+}
+
+// Host of an https://<company>.pipedrive.com URL, or null for any other URL
+function getCompanyDomain(instanceUrl: string): string | null {
+  try {
+    const url = new URL(instanceUrl);
+    return url.protocol === "https:" && !url.port && COMPANY_DOMAIN_PATTERN.test(url.hostname) ? url.hostname : null;
+  } catch {
+    return null;
+  }
+}
+
+// Retry-After is in seconds; x-ratelimit-reset is the time left in the window, also in seconds
+function getRateLimitWaitMs(response: Response): number {
+  const seconds = Number(response.headers.get("retry-after") ?? response.headers.get("x-ratelimit-reset"));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_RATE_LIMIT_WAIT_MS;
+}
+
+// Pipedrive timestamps are UTC, formatted "YYYY-MM-DD HH:MM:SS"
+function formatPipedriveTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function parsePipedriveDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(`${value.replace(" ", "T")}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Durations are "HH:MM" strings, stored in minutes
+function parseDuration(value?: string | null): number | undefined {
+  if (!value) return undefined;
+  const [hours, minutes] = value.split(":").map(Number);
+  if (isNaN(hours) || isNaN(minutes)) return undefined;
+  return hours * 60 + minutes;
+}
+
+// Email and phone fields are arrays of { value, primary }
+function getPrimaryValue(values?: Array<{ value: string; primary?: boolean }> | null): string | undefined {
+  if (!Array.isArray(values)) return undefined;
+  const primary = values.find(v => v.primary && v.value) || values.find(v => v.value);
+  return primary?.value || undefined;
+}
+
+// Related records are either plain ids or expanded objects ({ value, name })
+function getReferenceId(reference: unknown): string | undefined {
+  if (reference === null || reference === undefined) return undefined;
+  if (typeof reference === "object") {
+    const value = (reference as { value?: unknown; id?: unknown }).value ?? (reference as { id?: unknown }).id;
+    return value !== null && value !== undefined ? String(value) : undefined;
+  }
+  return String(reference);
+}
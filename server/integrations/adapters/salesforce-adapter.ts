@@ -0,0 +1,282 @@
+import { storage } from "../../storage";
+import { refreshSalesforceToken } from "../oauth/salesforce-oauth";
+import { EntityMapping, EMPTY_MAPPING, CUSTOMER_TARGETS, ORDER_TARGETS, ACTIVITY_TARGETS, parseFieldMapping, applyFieldMapping } from "../field-mapping";
+import { BaseIntegrationAdapter, TestConnectionResult, CustomerData, OrderData, TransactionData, ActivityData } from "./base-adapter";
+
+type SalesforceRecord = Record<string, any>;
+
+// Entity types of externalFieldMappings, one per synced Salesforce object
+type SalesforceEntity = 'contact' | 'company' | 'deal' | 'activity';
+
+const API_VERSION = "v59.0";
+
+const DEFAULT_FIELDS: Record<SalesforceEntity, string[]> = {
+  contact: ["Id", "Email", "FirstName", "LastName", "Phone", "MobilePhone", "MailingStreet", "MailingCity", "MailingCountry", "AccountId", "Account.Name", "LastModifiedDate"],
+  company: ["Id", "Name", "Phone", "BillingStreet", "BillingCity", "BillingCountry", "Industry", "Website", "LastModifiedDate"],
+  deal: ["Id", "Name", "Amount", "StageName", "IsClosed", "IsWon", "CloseDate", "AccountId", "ContactId", "CreatedDate", "LastModifiedDate"],
+  activity: ["Id", "Subject", "Description", "Status", "TaskSubtype", "ActivityDate", "CallDurationInSeconds", "CallDisposition", "WhoId", "WhatId", "AccountId", "OwnerId", "Owner.Name", "CreatedDate", "LastModifiedDate"],
+};
+
+const SOBJECTS: Record<SalesforceEntity, string> = {
+  contact: "Contact",
+  company: "Account",
+  deal: "Opportunity",
+  activity: "Task",
+};
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+export class SalesforceAdapter extends BaseIntegrationAdapter {
+  private mappings: Map<string, EntityMapping> | null = null;
+
+  private get instanceUrl(): string {
+    if (!this.credentials.instanceUrl) {
+      throw new Error("Instance URL Salesforce manquante");
+    }
+    return this.credentials.instanceUrl.replace(/\/+$/, "");
+  }
+
+  // OAuth connections carry an access token, manual connections store it as API key
+  private get token(): string | undefined {
+    return this.credentials.accessToken || this.credentials.apiKey;
+  }
+
+  private async refreshAccessToken(): Promise<boolean> {
+    if (!this.credentials.refreshToken) {
+      return false;
+    }
+
+    const refreshed = await refreshSalesforceToken(this.connection.id, this.connection.userId, this.credentials.refreshToken);
+    if (!refreshed) {
+      return false;
+    }
+
+    this.credentials.accessToken = refreshed.accessToken;
+    this.credentials.instanceUrl = refreshed.instanceUrl || this.credentials.instanceUrl;
+    this.connection.tokenExpiresAt = refreshed.expiresAt;
+    return true;
+  }
+
+  private async makeRequest(path: string, retry: boolean = true): Promise<Response> {
+    const expiresAt = this.connection.tokenExpiresAt;
+    if (expiresAt && new Date(expiresAt).getTime() - Date.now() < 60 * 1000) {
+      await this.refreshAccessToken();
+    }
+
+    const url = path.startsWith("http") ? path : `${this.instanceUrl}${path}`;
+    const response = await fetch(url, {
+      headers: {
+        "Authorization": `Bearer ${this.token}`,
+        "Accept": "application/json",
+      },
+    });
+
+    // Sessions can be revoked before their expected expiry
+    if (response.status === 401 && retry && await this.refreshAccessToken()) {
+      return this.makeRequest(path, false);
+    }
+
+    return response;
+  }
+
+  async testConnection(): Promise<TestConnectionResult> {
+    try {
+      const response = await this.makeRequest("/services/oauth2/userinfo");
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        const message = Array.isArray(error) ? error[0]?.message : error.error_description || error.message;
+        return {
+          success: false,
+          message: `Échec de connexion Salesforce: ${message || response.statusText}`
+        };
+      }
+
+      const data = await response.json();
+
+      return {
+        success: true,
+        message: "Connexion Salesforce réussie",
+        accountInfo: {
+          name: data.name,
+          email: data.email,
+          id: data.organization_id
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Erreur de connexion: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  private async getMapping(entity: SalesforceEntity): Promise<EntityMapping> {
+    if (!this.mappings) {
+      this.mappings = new Map();
+      const rows = await storage.getFieldMappings(this.connection.id);
+      for (const row of rows.filter(r => r.isActive)) {
+        this.mappings.set(row.entityType, parseFieldMapping(row, field => FIELD_NAME_PATTERN.test(field)));
+      }
+    }
+
+    return this.mappings.get(entity) || EMPTY_MAPPING;
+  }
+
+  /**
+   * Run a SOQL query and follow nextRecordsUrl until every batch is read
+   */
+  private async query(entity: SalesforceEntity, since?: Date): Promise<{ records: SalesforceRecord[]; mapping: EntityMapping }> {
+    const mapping = await this.getMapping(entity);
+    const fields = Array.from(new Set([
+      ...DEFAULT_FIELDS[entity],
+      ...Object.keys(mapping.fields),
+      ...mapping.customFields,
+    ]));
+
+    let soql = `SELECT ${fields.join(", ")} FROM ${SOBJECTS[entity]}`;
+    if (since) {
+      soql += ` WHERE LastModifiedDate >= ${since.toISOString().replace(/\.\d{3}Z$/, "Z")}`;
+    }
+    soql += " ORDER BY LastModifiedDate ASC";
+
+    const records: SalesforceRecord[] = [];
+    let next: string | undefined = `/services/data/${API_VERSION}/query?q=${encodeURIComponent(soql)}`;
+
+    while (next) {
+      const response = await this.makeRequest(next);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Salesforce ${SOBJECTS[entity]} query error:`, errorText);
+        throw new Error(`Salesforce API error: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      records.push(...(data.records || []));
+      next = data.done ? undefined : data.nextRecordsUrl;
+    }
+
+    return { records, mapping };
+  }
+
+  async fetchCustomers(since?: Date): Promise<CustomerData[]> {
+    try {
+      // Accounts are imported as customers too, so opportunities without a contact keep a customer
+      const contacts = await this.query('contact', since);
+      const accounts = await this.query('company', since);
+
+      return [
+        ...contacts.records.map(contact => applyFieldMapping(contact, this.mapContact(contact), contacts.mapping, CUSTOMER_TARGETS)),
+        ...accounts.records.map(account => applyFieldMapping(account, this.mapAccount(account), accounts.mapping, CUSTOMER_TARGETS)),
+      ];
+    } catch (error) {
+      console.error("Salesforce fetchCustomers error:", error);
+      throw error;
+    }
+  }
+
+  private mapContact(contact: SalesforceRecord): CustomerData {
+    return {
+      externalId: contact.Id,
+      email: contact.Email || "",
+      firstName: contact.FirstName || undefined,
+      lastName: contact.LastName || undefined,
+      phone: contact.Phone || contact.MobilePhone || undefined,
+      company: contact.Account?.Name || undefined,
+      address: contact.MailingStreet || undefined,
+      city: contact.MailingCity || undefined,
+      country: contact.MailingCountry || undefined,
+      metadata: {
+        objectType: "Contact",
+        accountId: contact.AccountId,
+        lastModifiedDate: contact.LastModifiedDate
+      }
+    };
+  }
+
+  private mapAccount(account: SalesforceRecord): CustomerData {
+    return {
+      externalId: account.Id,
+      email: "",
+      company: account.Name || undefined,
+      phone: account.Phone || undefined,
+      address: account.BillingStreet || undefined,
+      city: account.BillingCity || undefined,
+      country: account.BillingCountry || undefined,
+      metadata: {
+        objectType: "Account",
+        industry: account.Industry,
+        website: account.Website,
+        lastModifiedDate: account.LastModifiedDate
+      }
+    };
+  }
+
+  async fetchOrders(since?: Date): Promise<OrderData[]> {
+    try {
+      const { records, mapping } = await this.query('deal', since);
+      return records.map(opportunity => applyFieldMapping(opportunity, this.mapOpportunity(opportunity), mapping, ORDER_TARGETS));
+    } catch (error) {
+      console.error("Salesforce fetchOrders error:", error);
+      throw error;
+    }
+  }
+
+  private mapOpportunity(opportunity: SalesforceRecord): OrderData {
+    const status = opportunity.IsWon ? "won" : opportunity.IsClosed ? "lost" : "open";
+
+    return {
+      externalId: opportunity.Id,
+      customerExternalId: opportunity.ContactId || opportunity.AccountId || undefined,
+      totalAmount: String(opportunity.Amount ?? 0),
+      currency: "EUR",
+      status,
+      orderDate: new Date(opportunity.CloseDate || opportunity.CreatedDate),
+      metadata: {
+        name: opportunity.Name,
+        stageName: opportunity.StageName,
+        accountId: opportunity.AccountId,
+        lastModifiedDate: opportunity.LastModifiedDate
+      }
+    };
+  }
+
+  async fetchTransactions(since?: Date): Promise<TransactionData[]> {
+    return [];
+  }
+
+  async fetchActivities(since?: Date): Promise<ActivityData[]> {
+    try {
+      const { records, mapping } = await this.query('activity', since);
+      return records.map(task => applyFieldMapping(task, this.mapTask(task), mapping, ACTIVITY_TARGETS));
+    } catch (error) {
+      console.error("Salesforce fetchActivities error:", error);
+      throw error;
+    }
+  }
+
+  private mapTask(task: SalesforceRecord): ActivityData {
+    const activityType = task.TaskSubtype === "Call" ? "call"
+      : task.TaskSubtype === "Email" ? "email"
+      : "task";
+
+    return {
+      externalId: task.Id,
+      customerExternalId: task.WhoId || task.AccountId || undefined,
+      activityType,
+      subject: task.Subject || undefined,
+      description: task.Description || undefined,
+      outcome: task.CallDisposition || (task.Status === "Completed" ? "completed" : "scheduled"),
+      staffName: task.Owner?.Name || undefined,
+      staffId: task.OwnerId || undefined,
+      activityDate: new Date(task.ActivityDate || task.CreatedDate),
+      duration: task.CallDurationInSeconds ? Math.round(task.CallDurationInSeconds / 60) : undefined,
+      metadata: {
+        status: task.Status,
+        whatId: task.WhatId,
+        lastModifiedDate: task.LastModifiedDate
+      }
+    };
+  }
+}
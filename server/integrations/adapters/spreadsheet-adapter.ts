@@ -0,0 +1,479 @@
+import crypto from "crypto";
+import { spreadsheetSourceConfigSchema, SpreadsheetSourceConfig } from "@shared/schema";
+import { storage } from "../../storage";
+import { fetchPublicUrl, PublicRequestInit } from "../../utils/network-guard";
+import { EntityMapping, FieldKind, CUSTOMER_TARGETS, ORDER_TARGETS, parseFieldMapping, applyFieldMapping } from "../field-mapping";
+import { BaseIntegrationAdapter, TestConnectionResult, CustomerData, OrderData, TransactionData } from "./base-adapter";
+
+type Row = Record<string, string>;
+
+// Entity types of externalFieldMappings a sheet can feed
+export type SpreadsheetEntity = 'contact' | 'order';
+
+export interface SpreadsheetTable {
+  headers: string[];
+  headerRow: number;
+  rows: Row[];
+}
+
+export interface SpreadsheetPreview extends SpreadsheetTable {
+  totalRows: number;
+  suggestedMappings: Record<string, string>;
+  suggestedKeyColumn: string | null;
+}
+
+interface EntitySource {
+  config: SpreadsheetSourceConfig;
+  mapping: EntityMapping;
+}
+
+const HEADER_SCAN_ROWS = 10;
+const PREVIEW_ROWS = 10;
+const MAX_REDIRECTS = 5;
+
+const UNSUPPORTED_URL_MESSAGE = "URL invalide: indiquez un lien Google Sheets ou l'adresse HTTPS d'un fichier CSV";
+
+// Column names (normalized: lowercase, no accents) recognized without any mapping
+const COLUMN_SYNONYMS: Record<SpreadsheetEntity, Record<string, string[]>> = {
+  contact: {
+    email: ["email", "e mail", "mail", "courriel", "adresse email", "adresse mail"],
+    firstName: ["prenom", "first name", "firstname"],
+    lastName: ["nom", "nom de famille", "last name", "lastname", "surname"],
+    phone: ["telephone", "tel", "phone", "mobile", "portable", "numero de telephone"],
+    company: ["entreprise", "societe", "company", "raison sociale"],
+    address: ["adresse", "address", "rue"],
+    city: ["ville", "city"],
+    country: ["pays", "country"],
+    totalSpent: ["total depense", "depense totale", "chiffre d affaires", "total spent"],
+    orderCount: ["nombre de commandes", "nb commandes", "order count", "commandes"],
+  },
+  order: {
+    customerExternalId: ["client", "id client", "customer id", "email", "e mail", "mail", "courriel", "email client"],
+    totalAmount: ["montant", "montant total", "total", "prix", "prix total", "amount", "total amount"],
+    currency: ["devise", "monnaie", "currency"],
+    status: ["statut", "etat", "status"],
+    orderDate: ["date", "date commande", "date de commande", "date reservation", "date de reservation", "order date"],
+    paymentMethod: ["paiement", "moyen de paiement", "mode de paiement", "payment method"],
+  },
+};
+
+const ENTITY_TARGETS: Record<SpreadsheetEntity, Record<string, FieldKind>> = {
+  contact: CUSTOMER_TARGETS,
+  order: ORDER_TARGETS,
+};
+
+function normalizeHeader(header: string): string {
+  return header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * RFC 4180 parser - the delimiter (comma or semicolon, common in French exports) is guessed from the first line
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] || "";
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+}
+
+/**
+ * Sheets often start with a title or blank lines: the header is the first row made of distinct text labels
+ */
+export function detectHeaderRow(values: string[][]): number {
+  const width = Math.max(0, ...values.slice(0, HEADER_SCAN_ROWS).map(r => r.length));
+
+  for (let index = 0; index < Math.min(values.length, HEADER_SCAN_ROWS); index++) {
+    const cells = values[index].map(value => value.trim()).filter(Boolean);
+    const labels = cells.filter(value => isNaN(Number(value.replace(",", "."))) && !/^\d{1,4}[\/.-]\d{1,2}[\/.-]\d{1,4}/.test(value));
+    const distinct = new Set(cells.map(value => value.toLowerCase())).size === cells.length;
+
+    if (labels.length >= Math.max(1, Math.ceil(width * 0.6)) && distinct) {
+      return index;
+    }
+  }
+
+  return 0;
+}
+
+export function toTable(values: string[][], headerRow?: number): SpreadsheetTable {
+  const headerIndex = headerRow !== undefined ? headerRow - 1 : detectHeaderRow(values);
+  const seen = new Map<string, number>();
+
+  const headers = (values[headerIndex] || []).map((value, index) => {
+    const base = value.trim() || `Colonne ${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  const rows = values.slice(headerIndex + 1).map(cells => {
+    const row: Row = {};
+    headers.forEach((header, index) => {
+      row[header] = (cells[index] || "").trim();
+    });
+    return row;
+  });
+
+  return { headers, headerRow: headerIndex + 1, rows };
+}
+
+export function suggestColumnMappings(headers: string[], entity: SpreadsheetEntity): Record<string, string> {
+  const suggestions: Record<string, string> = {};
+  const used = new Set<string>();
+
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    for (const [target, synonyms] of Object.entries(COLUMN_SYNONYMS[entity])) {
+      if (!used.has(target) && synonyms.includes(normalized)) {
+        suggestions[header] = target;
+        used.add(target);
+        break;
+      }
+    }
+  }
+
+  return suggestions;
+}
+
+function suggestKeyColumn(headers: string[], mappings: Record<string, string>, entity: SpreadsheetEntity): string | null {
+  if (entity === 'contact') {
+    const byTarget = (target: string) => Object.keys(mappings).find(header => mappings[header] === target);
+    return byTarget('email') || byTarget('phone') || headers[0] || null;
+  }
+  return headers.find(header => /^(id|ref|reference|numero|n|no|order id|id commande|id reservation)$/.test(normalizeHeader(header)))
+    || headers[0] || null;
+}
+
+// "1 234,50 €" -> "1234.50"
+function normalizeAmount(value?: string): string | undefined {
+  if (!value) return value;
+  const cleaned = value.replace(/[^\d,.-]/g, "");
+  const decimal = cleaned.includes(",") && !cleaned.includes(".") ? cleaned.replace(",", ".") : cleaned.replace(/,/g, "");
+  return isNaN(Number(decimal)) || decimal === "" ? undefined : decimal;
+}
+
+/**
+ * fetch restricted to public HTTPS hosts. Redirects are followed by hand so every hop is resolved and
+ * checked before the server connects to it: a sheet URL must never reach the platform's own network.
+ */
+async function fetchPublic(url: string, init: PublicRequestInit = {}): Promise<Response> {
+  let current: URL;
+  try {
+    current = new URL(url);
+  } catch {
+    throw new Error(UNSUPPORTED_URL_MESSAGE);
+  }
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    if (current.protocol !== "https:") {
+      throw new Error(UNSUPPORTED_URL_MESSAGE);
+    }
+
+    const response = await fetchPublicUrl(current, init);
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    current = new URL(location, current);
+  }
+
+  throw new Error("Feuille inaccessible: trop de redirections");
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Exchange a service account key for an access token (JWT bearer grant)
+ */
+async function getServiceAccountToken(serviceAccount: { client_email: string; private_key: string; token_uri?: string }): Promise<string> {
+  const tokenUri = serviceAccount.token_uri || "https://oauth2.googleapis.com/token";
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }))}.${base64url(JSON.stringify({
+    iss: serviceAccount.client_email,
+    scope: "https://www.googleapis.com/auth/spreadsheets.readonly",
+    aud: tokenUri,
+    iat: now,
+    exp: now + 3600,
+  }))}`;
+  const signature = crypto.createSign("RSA-SHA256").update(unsigned).sign(serviceAccount.private_key, "base64url");
+
+  const response = await fetchPublic(tokenUri, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: `${unsigned}.${signature}`,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Authentification Google refusée: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+function parseSheetUrl(url: string): { spreadsheetId: string; gid?: string } | null {
+  const match = url.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+  if (match) {
+    const gid = url.match(/[#&?]gid=(\d+)/)?.[1];
+    return { spreadsheetId: match[1], gid };
+  }
+  // Bare spreadsheet id
+  if (/^[a-zA-Z0-9_-]{25,}$/.test(url)) {
+    return { spreadsheetId: url };
+  }
+  return null;
+}
+
+/**
+ * Read raw cell values from a Google Sheet or any CSV URL served over HTTPS.
+ * The credential is optional (public sheets) and is either a Sheets API key or a service account JSON key.
+ */
+export async function fetchSpreadsheetValues(url: string, credential?: string, sheet?: string): Promise<string[][]> {
+  const sheetRef = parseSheetUrl(url.trim());
+
+  if (!sheetRef || /\/pub\?|output=csv|format=csv/.test(url)) {
+    const response = await fetchPublic(url.trim());
+    if (!response.ok) {
+      throw new Error(`Fichier CSV inaccessible: ${response.statusText}`);
+    }
+    return parseCsv(await response.text());
+  }
+
+  const { spreadsheetId, gid } = sheetRef;
+
+  if (!credential) {
+    // Link-shared sheets can be exported without authentication
+    const exportUrl = sheet
+      ? `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/tq?tqx=out:csv&sheet=${encodeURIComponent(sheet)}`
+      : `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv${gid ? `&gid=${gid}` : ""}`;
+    const response = await fetchPublic(exportUrl);
+    if (!response.ok || !(response.headers.get("content-type") || "").includes("csv")) {
+      throw new Error("Feuille inaccessible: partagez-la en lecture ou fournissez une clé d'accès");
+    }
+    return parseCsv(await response.text());
+  }
+
+  let authQuery = "";
+  const headers: Record<string, string> = {};
+  if (credential.trim().startsWith("{")) {
+    headers["Authorization"] = `Bearer ${await getServiceAccountToken(JSON.parse(credential))}`;
+  } else {
+    authQuery = `key=${encodeURIComponent(credential)}`;
+  }
+
+  const apiBase = `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`;
+  let range = sheet;
+
+  if (!range) {
+    const metaResponse = await fetchPublic(`${apiBase}?fields=sheets.properties&${authQuery}`, { headers });
+    if (!metaResponse.ok) {
+      throw new Error(`Google Sheets API error: ${metaResponse.statusText}`);
+    }
+    const meta = await metaResponse.json();
+    const sheets: Array<{ properties: { sheetId: number; title: string } }> = meta.sheets || [];
+    range = (sheets.find(s => gid !== undefined && String(s.properties.sheetId) === gid) || sheets[0])?.properties.title;
+  }
+
+  const response = await fetchPublic(`${apiBase}/values/${encodeURIComponent(range || "A:ZZ")}?${authQuery}`, { headers });
+  if (!response.ok) {
+    throw new Error(`Google Sheets API error: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return ((data.values || []) as unknown[][])
+    .map(row => row.map(value => (value === null || value === undefined ? "" : String(value))))
+    .filter(row => row.some(value => value.trim() !== ""));
+}
+
+export async function previewSpreadsheet(
+  url: string,
+  entity: SpreadsheetEntity,
+  options: { credential?: string; sheet?: string; headerRow?: number } = {}
+): Promise<SpreadsheetPreview> {
+  const values = await fetchSpreadsheetValues(url, options.credential, options.sheet);
+  const table = toTable(values, options.headerRow);
+  const suggestedMappings = suggestColumnMappings(table.headers, entity);
+
+  return {
+    headers: table.headers,
+    headerRow: table.headerRow,
+    rows: table.rows.slice(0, PREVIEW_ROWS),
+    totalRows: table.rows.length,
+    suggestedMappings,
+    suggestedKeyColumn: suggestKeyColumn(table.headers, suggestedMappings, entity),
+  };
+}
+
+/**
+ * Google Sheets and published CSV files. Sheets carry no modification date, so every sync
+ * reads the whole sheet and relies on upserts keyed on the configured key column.
+ */
+export class SpreadsheetAdapter extends BaseIntegrationAdapter {
+  private sources: Map<string, EntitySource> | null = null;
+
+  private get credential(): string | undefined {
+    return this.credentials.apiKey || undefined;
+  }
+
+  async testConnection(): Promise<TestConnectionResult> {
+    try {
+      if (!this.credentials.instanceUrl) {
+        return { success: false, message: "URL de la feuille manquante" };
+      }
+
+      const table = toTable(await fetchSpreadsheetValues(this.credentials.instanceUrl, this.credential));
+
+      return {
+        success: true,
+        message: `Feuille accessible: ${table.rows.length} lignes, colonnes ${table.headers.join(", ")}`,
+        accountInfo: {
+          name: this.connection.name,
+          id: parseSheetUrl(this.credentials.instanceUrl)?.spreadsheetId
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Erreur de connexion: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  private async getSource(entity: SpreadsheetEntity): Promise<EntitySource | undefined> {
+    if (!this.sources) {
+      this.sources = new Map();
+      const rows = await storage.getFieldMappings(this.connection.id);
+
+      for (const row of rows.filter(r => r.isActive && r.sourceConfig)) {
+        const config = spreadsheetSourceConfigSchema.safeParse(row.sourceConfig);
+        if (!config.success) {
+          console.error(`Spreadsheet source for ${row.entityType} is invalid:`, config.error.errors);
+          continue;
+        }
+        this.sources.set(row.entityType, {
+          config: config.data,
+          mapping: parseFieldMapping(row, field => field.length > 0),
+        });
+      }
+    }
+
+    return this.sources.get(entity);
+  }
+
+  /**
+   * Rows sharing a key are collapsed (last one wins) so a sync never imports the same record twice
+   */
+  private async readEntity<T extends { metadata?: Record<string, unknown> }>(
+    entity: SpreadsheetEntity,
+    buildBase: (key: string) => T
+  ): Promise<T[]> {
+    const source = await this.getSource(entity);
+    if (!source) {
+      return [];
+    }
+
+    const url = source.config.url || this.credentials.instanceUrl;
+    if (!url) {
+      throw new Error("URL de la feuille manquante");
+    }
+
+    const table = toTable(await fetchSpreadsheetValues(url, this.credential, source.config.sheet), source.config.headerRow);
+    if (!table.headers.includes(source.config.keyColumn)) {
+      throw new Error(`Colonne clé "${source.config.keyColumn}" introuvable`);
+    }
+
+    const targets = ENTITY_TARGETS[entity];
+    const mapping: EntityMapping = {
+      fields: { ...suggestColumnMappings(table.headers, entity), ...source.mapping.fields },
+      customFields: source.mapping.customFields,
+    };
+
+    const byKey = new Map<string, T>();
+    for (const row of table.rows) {
+      const rawKey = row[source.config.keyColumn];
+      if (!rawKey) continue;
+      const key = rawKey.includes("@") ? rawKey.toLowerCase() : rawKey;
+      byKey.set(key, applyFieldMapping(row, buildBase(key), mapping, targets));
+    }
+
+    return Array.from(byKey.values());
+  }
+
+  async fetchCustomers(since?: Date): Promise<CustomerData[]> {
+    const customers = await this.readEntity<CustomerData>('contact', key => ({
+      externalId: key,
+      email: key.includes("@") ? key : "",
+    }));
+
+    return customers.map(customer => ({ ...customer, totalSpent: normalizeAmount(customer.totalSpent) }));
+  }
+
+  /**
+   * Without a date column the order date stays unset, so the date of the first import is kept
+   */
+  async fetchOrders(since?: Date): Promise<OrderData[]> {
+    const orders = await this.readEntity<OrderData>('order', key => ({
+      externalId: key,
+      totalAmount: "0",
+    }));
+
+    return orders.map(order => ({
+      ...order,
+      customerExternalId: order.customerExternalId?.includes("@") ? order.customerExternalId.toLowerCase() : order.customerExternalId,
+      totalAmount: normalizeAmount(order.totalAmount) || "0",
+    }));
+  }
+
+  async fetchTransactions(since?: Date): Promise<TransactionData[]> {
+    return [];
+  }
+}
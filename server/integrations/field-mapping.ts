@@ -0,0 +1,117 @@
+import { ExternalFieldMapping } from "@shared/schema";
+
+export type FieldKind = 'string' | 'number' | 'date' | 'boolean';
+
+export interface EntityMapping {
+  fields: Record<string, string>;
+  customFields: string[];
+}
+
+// Fields of the canonical data a mapping may target - anything else lands in metadata
+export const CUSTOMER_TARGETS: Record<string, FieldKind> = {
+  email: 'string', firstName: 'string', lastName: 'string', phone: 'string', company: 'string',
+  address: 'string', city: 'string', country: 'string', totalSpent: 'string', orderCount: 'number',
+};
+export const ORDER_TARGETS: Record<string, FieldKind> = {
+  customerExternalId: 'string', totalAmount: 'string', currency: 'string', status: 'string', orderDate: 'date',
+  shippingAddress: 'string', billingAddress: 'string', paymentMethod: 'string',
+};
+export const RESERVATION_TARGETS: Record<string, FieldKind> = {
+  ...ORDER_TARGETS, reservationDate: 'date', partySize: 'number', customerName: 'string', customerEmail: 'string',
+  customerPhone: 'string', notes: 'string',
+};
+export const ACTIVITY_TARGETS: Record<string, FieldKind> = {
+  customerExternalId: 'string', activityType: 'string', subject: 'string', description: 'string', outcome: 'string',
+  staffName: 'string', staffId: 'string', activityDate: 'date', duration: 'number',
+};
+export const PRODUCT_TARGETS: Record<string, FieldKind> = {
+  name: 'string', description: 'string', category: 'string', sku: 'string', price: 'string',
+  currency: 'string', isActive: 'boolean',
+};
+
+export const EMPTY_MAPPING: EntityMapping = { fields: {}, customFields: [] };
+
+/**
+ * Mappings are stored as { sourceField: targetField }; custom fields as a list of extra source fields.
+ * Source fields failing `isValidField` are dropped since connectors put them in their queries.
+ */
+export function parseFieldMapping(row: Pick<ExternalFieldMapping, 'mappings' | 'customFields'>, isValidField: (field: string) => boolean): EntityMapping {
+  const fields: Record<string, string> = {};
+  const rawMappings = (row.mappings || {}) as Record<string, unknown>;
+
+  for (const [source, target] of Object.entries(rawMappings)) {
+    if (typeof target === "string" && isValidField(source)) {
+      fields[source] = target;
+    }
+  }
+
+  const rawCustomFields = Array.isArray(row.customFields) ? row.customFields : [];
+  const customFields = rawCustomFields.filter((field): field is string =>
+    typeof field === "string" && isValidField(field)
+  );
+
+  return { fields, customFields };
+}
+
+// Dotted paths read related records (Account.Name)
+export function getFieldValue(record: Record<string, unknown>, path: string): unknown {
+  if (path in record) return record[path];
+  return path.split(".").reduce<unknown>((value, key) =>
+    value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined, record);
+}
+
+// Spreadsheets use day-first dates (18/10/2025 14:30), everything else ISO strings
+function parseDate(value: string): Date {
+  const match = value.trim().match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})(?:[ T](\d{1,2}):(\d{2}))?/);
+  if (match) {
+    const [, day, month, year, hours = "0", minutes = "0"] = match;
+    return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+  }
+  return new Date(value);
+}
+
+function coerce(value: unknown, kind: FieldKind): unknown {
+  if (kind === 'number') {
+    const num = Number(value);
+    return isNaN(num) ? undefined : num;
+  }
+  if (kind === 'date') {
+    const date = value instanceof Date ? value : parseDate(String(value));
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  if (kind === 'boolean') {
+    return value === true || value === 1 || ['true', '1', 'yes', 'oui'].includes(String(value).toLowerCase());
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Override the provider's default mapping with the user's one
+ */
+export function applyFieldMapping<T extends { metadata?: Record<string, unknown> }>(
+  record: Record<string, unknown>,
+  data: T,
+  mapping: EntityMapping,
+  targets: Record<string, FieldKind>
+): T {
+  const result: Record<string, unknown> = { ...data, metadata: { ...data.metadata } };
+  const metadata = result.metadata as Record<string, unknown>;
+
+  for (const [source, target] of Object.entries(mapping.fields)) {
+    const value = getFieldValue(record, source);
+    if (value === null || value === undefined) continue;
+
+    if (targets[target]) {
+      const coerced = coerce(value, targets[target]);
+      if (coerced !== undefined) result[target] = coerced;
+    } else {
+      metadata[target] = value;
+    }
+  }
+
+  for (const field of mapping.customFields) {
+    metadata[field] = getFieldValue(record, field) ?? null;
+  }
+
+  return result as T;
+}
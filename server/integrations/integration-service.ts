@@ -1,6 +1,9 @@
+import { ExternalConnection, IntegrationWebhookEvent } from "@shared/schema";
 import { storage } from "../storage";
 import { createAdapter, isProviderSupported } from "./adapter-factory";
-import { TestConnectionResult, SyncResult, CustomerData, OrderData, TransactionData } from "./adapters/base-adapter";
+import { parseWebhookSources, mapWebhookPayload } from "./webhook-mapping";
+import { DatabaseAdapter, DatabaseTable } from "./adapters/database-adapter";
+import { TestConnectionResult, SyncResult, CustomerData, OrderData, TransactionData, ActivityData, ProductData } from "./adapters/base-adapter";
 
 export class IntegrationService {
   
@@ -20,13 +23,30 @@ export class IntegrationService {
       apiSecret: connection.apiSecret || undefined,
       accessToken: connection.accessToken || undefined,
       refreshToken: connection.refreshToken || undefined,
-      instanceUrl: connection.instanceUrl || undefined
+      instanceUrl: connection.instanceUrl || undefined,
+      dbPassword: connection.dbPassword || undefined
     };
 
     const adapter = createAdapter(connection, decrypted);
     return adapter.testConnection();
   }
 
+  /**
+   * Tables of a database connection, to pick where each entity is read from
+   */
+  async listDatabaseTables(connectionId: string, userId: string): Promise<DatabaseTable[] | null> {
+    const connection = await storage.getExternalConnectionWithCredentials(connectionId, userId);
+    if (!connection) {
+      return null;
+    }
+
+    const adapter = createAdapter(connection, { dbPassword: connection.dbPassword || undefined });
+    if (!(adapter instanceof DatabaseAdapter)) {
+      throw new Error(`Provider ${connection.provider} n'est pas une base de données`);
+    }
+    return adapter.listTables();
+  }
+
   async testCredentials(
     provider: string, 
     credentials: { apiKey?: string; apiSecret?: string; instanceUrl?: string }
@@ -56,9 +76,8 @@ export class IntegrationService {
       tokenExpiresAt: null,
       apiKey: null,
       apiSecret: null,
-      accountId: null,
-      metadata: null
-    };
+      accountId: null
+    } as ExternalConnection;
 
     const decrypted = {
       apiKey: credentials.apiKey,
@@ -79,6 +98,8 @@ export class IntegrationService {
         customersImported: 0,
         ordersImported: 0,
         transactionsImported: 0,
+        activitiesImported: 0,
+        productsImported: 0,
         errors: ["Connexion non trouvée"],
         lastSyncedAt: new Date()
       };
@@ -90,6 +111,8 @@ export class IntegrationService {
         customersImported: 0,
         ordersImported: 0,
         transactionsImported: 0,
+        activitiesImported: 0,
+        productsImported: 0,
         errors: [`Provider ${connection.provider} non supporté pour le moment`],
         lastSyncedAt: new Date()
       };
@@ -109,7 +132,8 @@ export class IntegrationService {
         apiSecret: connection.apiSecret || undefined,
         accessToken: connection.accessToken || undefined,
         refreshToken: connection.refreshToken || undefined,
-        instanceUrl: connection.instanceUrl || undefined
+        instanceUrl: connection.instanceUrl || undefined,
+        dbPassword: connection.dbPassword || undefined
       };
 
       const adapter = createAdapter(connection, decrypted);
@@ -121,6 +145,8 @@ export class IntegrationService {
         customersImported: 0,
         ordersImported: 0,
         transactionsImported: 0,
+        activitiesImported: 0,
+        productsImported: 0,
         errors: [],
         lastSyncedAt: new Date()
       };
@@ -155,13 +181,33 @@ export class IntegrationService {
         result.errors.push(`Transactions: ${error instanceof Error ? error.message : String(error)}`);
       }
 
+      try {
+        const activities = await adapter.fetchActivities(since);
+        for (const activity of activities) {
+          await this.upsertActivity(userId, connection.id, connection.provider, activity);
+          result.activitiesImported++;
+        }
+      } catch (error) {
+        result.errors.push(`Activities: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      try {
+        const products = await adapter.fetchProducts(since);
+        for (const product of products) {
+          await this.upsertProduct(userId, connection.id, connection.provider, product);
+          result.productsImported++;
+        }
+      } catch (error) {
+        result.errors.push(`Products: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
       result.success = result.errors.length === 0;
 
       await storage.updateSyncJob(syncJob.id, {
         status: result.success ? 'completed' : 'completed_with_errors',
         completedAt: new Date(),
-        processedRecords: result.customersImported + result.ordersImported + result.transactionsImported,
-        createdRecords: result.customersImported + result.ordersImported + result.transactionsImported,
+        processedRecords: result.customersImported + result.ordersImported + result.transactionsImported + result.activitiesImported + result.productsImported,
+        createdRecords: result.customersImported + result.ordersImported + result.transactionsImported + result.activitiesImported + result.productsImported,
         errors: result.errors.length > 0 ? result.errors : null
       });
 
@@ -191,12 +237,69 @@ export class IntegrationService {
         customersImported: 0,
         ordersImported: 0,
         transactionsImported: 0,
+        activitiesImported: 0,
+        productsImported: 0,
         errors: [errorMessage],
         lastSyncedAt: new Date()
       };
     }
   }
 
+  /**
+   * Import a received webhook payload with the connection's mappings.
+   * Runs on reception and again when a logged event is reprocessed after a mapping fix.
+   */
+  async processWebhookEvent(event: IntegrationWebhookEvent): Promise<IntegrationWebhookEvent> {
+    const connection = await storage.getExternalConnectionById(event.connectionId, event.userId);
+    let status: string;
+    let result: Record<string, number> | null = null;
+    let error: string | null = null;
+
+    if (!connection) {
+      status = 'failed';
+      error = "Connexion non trouvée";
+    } else {
+      const mapped = mapWebhookPayload(event.payload, parseWebhookSources(await storage.getFieldMappings(connection.id)), event.receivedAt);
+      const errors = [...mapped.errors];
+
+      // Customers first so orders and activities can be linked to them
+      for (const customer of mapped.customers) {
+        try {
+          await this.upsertCustomer(event.userId, connection.provider, customer);
+        } catch (e) {
+          errors.push(`contact ${customer.externalId}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+      for (const order of mapped.orders) {
+        try {
+          await this.upsertOrder(event.userId, connection.provider, order, event.receivedAt);
+        } catch (e) {
+          errors.push(`order ${order.externalId}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+      for (const activity of mapped.activities) {
+        try {
+          await this.upsertActivity(event.userId, connection.id, connection.provider, activity);
+        } catch (e) {
+          errors.push(`activity ${activity.externalId}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+
+      result = mapped.counts;
+      status = errors.length > 0 ? 'failed' : mapped.matchedSources === 0 ? 'ignored' : 'processed';
+      error = errors.length > 0 ? errors.slice(0, 20).join('; ') : mapped.matchedSources === 0 ? "Aucun mapping ne correspond à ce payload" : null;
+    }
+
+    const updated = await storage.updateWebhookEvent(event.id, {
+      status,
+      result,
+      error,
+      attempts: event.attempts + 1,
+      processedAt: new Date()
+    });
+    return updated || event;
+  }
+
   private async upsertCustomer(userId: string, source: string, data: CustomerData): Promise<void> {
     const existing = await storage.getExternalCustomerByExternalId(userId, data.externalId, source);
     
@@ -232,7 +335,7 @@ export class IntegrationService {
     }
   }
 
-  private async upsertOrder(userId: string, source: string, data: OrderData): Promise<void> {
+  private async upsertOrder(userId: string, source: string, data: OrderData, firstSeenAt: Date = new Date()): Promise<void> {
     const existing = await storage.getExternalOrderByExternalId(userId, data.externalId, source);
     
     let customerId: string | undefined;
@@ -246,10 +349,18 @@ export class IntegrationService {
       currency: data.currency || 'EUR',
       status: data.status || 'unknown',
       orderDate: data.orderDate,
+      orderDateFromSource: !!data.orderDate,
       items: data.items,
       shippingAddress: data.shippingAddress,
       billingAddress: data.billingAddress,
       paymentMethod: data.paymentMethod,
+      orderType: data.orderType,
+      reservationDate: data.reservationDate,
+      partySize: data.partySize,
+      customerName: data.customerName,
+      customerEmail: data.customerEmail,
+      customerPhone: data.customerPhone,
+      notes: data.notes,
       customerId
     };
 
@@ -260,7 +371,8 @@ export class IntegrationService {
         userId,
         externalId: data.externalId,
         externalSource: source,
-        ...orderData
+        ...orderData,
+        orderDate: data.orderDate || firstSeenAt
       });
     }
   }
@@ -297,6 +409,55 @@ export class IntegrationService {
     });
   }
 
+  private async upsertActivity(userId: string, connectionId: string, source: string, data: ActivityData): Promise<void> {
+    let customerId: string | undefined;
+    if (data.customerExternalId) {
+      const customer = await storage.getExternalCustomerByExternalId(userId, data.customerExternalId, source);
+      customerId = customer?.id;
+    }
+
+    const activityData = {
+      customerId,
+      activityType: data.activityType,
+      subject: data.subject,
+      description: data.description,
+      outcome: data.outcome,
+      staffName: data.staffName,
+      staffId: data.staffId,
+      activityDate: data.activityDate,
+      duration: data.duration,
+      metadata: data.metadata
+    };
+
+    const existing = await storage.getExternalActivityByExternalId(userId, data.externalId, source);
+
+    if (existing) {
+      await storage.updateExternalActivity(existing.id, userId, activityData);
+    } else {
+      await storage.createExternalActivity({
+        userId,
+        connectionId,
+        externalId: data.externalId,
+        externalSource: source,
+        ...activityData
+      });
+    }
+  }
+
+  private async upsertProduct(userId: string, connectionId: string, source: string, data: ProductData): Promise<void> {
+    await storage.upsertExternalProduct(userId, data.externalId, source, {
+      connectionId,
+      name: data.name,
+      description: data.description,
+      category: data.category,
+      sku: data.sku,
+      price: data.price,
+      currency: data.currency,
+      isActive: data.isActive,
+      metadata: data.metadata
+    });
+  }
+
   async syncAllConnections(userId: string): Promise<{ synced: number; errors: string[] }> {
     const connections = await storage.getExternalConnections(userId);
     const activeConnections = connections.filter(c => c.status === 'active');
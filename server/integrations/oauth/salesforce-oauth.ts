@@ -0,0 +1,247 @@
+import { Router, Request, Response } from "express";
+import crypto from "crypto";
+import { storage } from "../../storage";
+import { requireAuth } from "../../auth";
+import { User } from "@shared/schema";
+
+const router = Router();
+
+const SALESFORCE_CLIENT_ID = process.env.SALESFORCE_CLIENT_ID;
+const SALESFORCE_CLIENT_SECRET = process.env.SALESFORCE_CLIENT_SECRET;
+// Sandboxes authenticate against https://test.salesforce.com
+const SALESFORCE_LOGIN_URL = process.env.SALESFORCE_LOGIN_URL || 'https://login.salesforce.com';
+const SALESFORCE_REDIRECT_URI = process.env.SALESFORCE_REDIRECT_URI || `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : 'http://localhost:5000'}/api/integrations/oauth/salesforce/callback`;
+
+const SALESFORCE_SCOPES = ['api', 'refresh_token', 'offline_access'].join(' ');
+
+// Salesforce does not return expires_in - the default session timeout is 2 hours
+const SALESFORCE_SESSION_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// The state is signed and bound to the browser that started the flow through a nonce cookie,
+// so a callback cannot attach someone else's Salesforce tokens to a connection
+const STATE_COOKIE = 'salesforce_oauth_state';
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+function signState(payload: string): string {
+  return crypto
+    .createHmac('sha256', process.env.SESSION_SECRET!)
+    .update(`salesforce-oauth:${payload}`)
+    .digest('base64url');
+}
+
+export function createSalesforceState(connectionId: string, userId: string, nonce: string): string {
+  const payload = Buffer.from(JSON.stringify({
+    connectionId,
+    userId,
+    nonce,
+    expiresAt: Date.now() + STATE_TTL_MS
+  })).toString('base64url');
+  return `${payload}.${signState(payload)}`;
+}
+
+export function verifySalesforceState(state: string, nonce?: string): { connectionId: string; userId: string } | null {
+  const [payload, signature] = state.split('.');
+  if (!payload || !signature || !nonce) return null;
+
+  const expected = Buffer.from(signState(payload));
+  const received = Buffer.from(signature);
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) return null;
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (data.nonce !== nonce || typeof data.expiresAt !== 'number' || data.expiresAt < Date.now()) return null;
+    return { connectionId: data.connectionId, userId: data.userId };
+  } catch {
+    return null;
+  }
+}
+
+export function getSalesforceAuthUrl(state: string): string {
+  if (!SALESFORCE_CLIENT_ID) {
+    throw new Error("Salesforce OAuth not configured - missing SALESFORCE_CLIENT_ID");
+  }
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: SALESFORCE_CLIENT_ID,
+    redirect_uri: SALESFORCE_REDIRECT_URI,
+    scope: SALESFORCE_SCOPES,
+    state: state
+  });
+
+  return `${SALESFORCE_LOGIN_URL}/services/oauth2/authorize?${params.toString()}`;
+}
+
+/**
+ * Sets the nonce cookie on the user's browser and returns the authorization URL to send them to
+ */
+export function startSalesforceAuthorization(res: Response, connectionId: string, userId: string): string {
+  const nonce = crypto.randomBytes(32).toString('hex');
+  res.cookie(STATE_COOKIE, nonce, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax: the cookie comes back on the top-level redirect from Salesforce
+    sameSite: 'lax',
+    maxAge: STATE_TTL_MS,
+    path: '/api/integrations/oauth/salesforce'
+  });
+
+  return getSalesforceAuthUrl(createSalesforceState(connectionId, userId, nonce));
+}
+
+router.get("/start", requireAuth, async (req: Request, res: Response) => {
+  try {
+    if (!SALESFORCE_CLIENT_ID || !SALESFORCE_CLIENT_SECRET) {
+      return res.redirect('/integrations?error=oauth_not_configured');
+    }
+
+    const userId = ((req as any).user as User).id;
+
+    let connection = await storage.getExternalConnectionByProvider(userId, 'salesforce');
+    if (!connection) {
+      connection = await storage.createExternalConnection({
+        userId,
+        provider: 'salesforce',
+        name: 'Salesforce',
+        authType: 'oauth2',
+        status: 'pending'
+      });
+    }
+
+    res.redirect(startSalesforceAuthorization(res, connection.id, userId));
+  } catch (error) {
+    console.error("Salesforce OAuth start error:", error);
+    res.redirect('/integrations?error=oauth_start_failed');
+  }
+});
+
+router.get("/callback", async (req: Request, res: Response) => {
+  try {
+    const { code, state, error } = req.query;
+
+    if (error) {
+      console.error("Salesforce OAuth error:", error, req.query.error_description);
+      return res.redirect('/integrations?error=oauth_denied');
+    }
+
+    if (!code || !state) {
+      return res.redirect('/integrations?error=missing_params');
+    }
+
+    if (!SALESFORCE_CLIENT_ID || !SALESFORCE_CLIENT_SECRET) {
+      return res.redirect('/integrations?error=oauth_not_configured');
+    }
+
+    const stateData = verifySalesforceState(String(state), req.cookies?.[STATE_COOKIE]);
+    res.clearCookie(STATE_COOKIE, { path: '/api/integrations/oauth/salesforce' });
+    if (!stateData) {
+      return res.redirect('/integrations?error=invalid_state');
+    }
+
+    const { connectionId, userId } = stateData;
+
+    const connection = await storage.getExternalConnectionById(connectionId, userId);
+    if (!connection || connection.provider.toLowerCase() !== 'salesforce') {
+      return res.redirect('/integrations?error=invalid_state');
+    }
+
+    const tokenResponse = await fetch(`${SALESFORCE_LOGIN_URL}/services/oauth2/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        client_id: SALESFORCE_CLIENT_ID,
+        client_secret: SALESFORCE_CLIENT_SECRET,
+        redirect_uri: SALESFORCE_REDIRECT_URI,
+        code: code as string
+      })
+    });
+
+    if (!tokenResponse.ok) {
+      const errorData = await tokenResponse.json().catch(() => ({}));
+      console.error("Salesforce token exchange error:", errorData);
+      return res.redirect('/integrations?error=token_exchange_failed');
+    }
+
+    const tokens = await tokenResponse.json();
+
+    // The instance URL is org specific (https://acme.my.salesforce.com) and every API call goes through it
+    await storage.updateExternalConnection(connectionId, userId, {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      instanceUrl: tokens.instance_url,
+      tokenExpiresAt: new Date(Date.now() + SALESFORCE_SESSION_DURATION_MS),
+      accountId: extractOrganizationId(tokens.id),
+      status: 'active',
+      lastError: null,
+      connectedAt: new Date()
+    });
+
+    res.redirect('/integrations?success=salesforce_connected');
+  } catch (error) {
+    console.error("Salesforce OAuth callback error:", error);
+    res.redirect('/integrations?error=callback_error');
+  }
+});
+
+export async function refreshSalesforceToken(connectionId: string, userId: string, refreshToken: string): Promise<{ accessToken: string; instanceUrl: string; expiresAt: Date } | null> {
+  if (!SALESFORCE_CLIENT_ID || !SALESFORCE_CLIENT_SECRET) {
+    console.error("Salesforce OAuth not configured");
+    return null;
+  }
+
+  try {
+    const response = await fetch(`${SALESFORCE_LOGIN_URL}/services/oauth2/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        client_id: SALESFORCE_CLIENT_ID,
+        client_secret: SALESFORCE_CLIENT_SECRET,
+        refresh_token: refreshToken
+      })
+    });
+
+    if (!response.ok) {
+      console.error("Salesforce token refresh failed:", await response.text());
+      return null;
+    }
+
+    // The refresh token is only returned when refresh token rotation is enabled
+    const tokens = await response.json();
+    const expiresAt = new Date(Date.now() + SALESFORCE_SESSION_DURATION_MS);
+
+    await storage.updateExternalConnection(connectionId, userId, {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token || refreshToken,
+      instanceUrl: tokens.instance_url,
+      tokenExpiresAt: expiresAt
+    });
+
+    return {
+      accessToken: tokens.access_token,
+      instanceUrl: tokens.instance_url,
+      expiresAt
+    };
+  } catch (error) {
+    console.error("Salesforce token refresh error:", error);
+    return null;
+  }
+}
+
+// The identity URL ends with /id/<organizationId>/<userId>
+function extractOrganizationId(identityUrl?: string): string | undefined {
+  if (!identityUrl) return undefined;
+  const parts = identityUrl.split('/');
+  return parts.length >= 2 ? parts[parts.length - 2] : undefined;
+}
+
+export function isSalesforceConfigured(): boolean {
+  return !!(SALESFORCE_CLIENT_ID && SALESFORCE_CLIENT_SECRET);
+}
+
+export const salesforceOAuthRouter = router;
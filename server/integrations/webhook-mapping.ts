@@ -0,0 +1,219 @@
+import { ExternalFieldMapping, WebhookSourceConfig, webhookSourceConfigSchema } from "@shared/schema";
+import { CustomerData, OrderData, ActivityData } from "./adapters/base-adapter";
+import { EntityMapping, CUSTOMER_TARGETS, ORDER_TARGETS, RESERVATION_TARGETS, ACTIVITY_TARGETS, parseFieldMapping, getFieldValue, applyFieldMapping } from "./field-mapping";
+
+// Canonical entities a webhook payload can feed (entityType of externalFieldMappings)
+export type WebhookEntity = 'contact' | 'order' | 'reservation' | 'activity';
+
+export const WEBHOOK_ENTITIES: WebhookEntity[] = ['contact', 'order', 'reservation', 'activity'];
+
+export interface WebhookEntitySource {
+  entity: WebhookEntity;
+  config: WebhookSourceConfig;
+  mapping: EntityMapping;
+}
+
+export interface MappedWebhookPayload {
+  customers: CustomerData[];
+  orders: OrderData[];
+  activities: ActivityData[];
+  counts: Partial<Record<WebhookEntity, number>>;
+  matchedSources: number;
+  errors: string[];
+}
+
+export interface JsonPathInfo {
+  path: string;
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+  sample?: string;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+const JSON_PATH_PATTERN = /^[A-Za-z0-9_$@-]+(\.[A-Za-z0-9_$@-]+)*$/;
+const MAX_PATH_DEPTH = 6;
+const MAX_PATHS = 300;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+export function isWebhookEntity(value: string): value is WebhookEntity {
+  return (WEBHOOK_ENTITIES as string[]).includes(value);
+}
+
+// Senders usually name the event in "type" or "event"
+export function getWebhookEventType(payload: unknown): string | undefined {
+  if (!isRecord(payload)) return undefined;
+  const value = payload.type ?? payload.event;
+  return typeof value === "string" ? value : undefined;
+}
+
+export function parseWebhookSources(rows: ExternalFieldMapping[]): WebhookEntitySource[] {
+  const sources: WebhookEntitySource[] = [];
+
+  for (const row of rows.filter(r => r.isActive && r.sourceConfig && isWebhookEntity(r.entityType))) {
+    const config = webhookSourceConfigSchema.safeParse(row.sourceConfig);
+    if (!config.success) {
+      console.error(`Webhook source for ${row.entityType} is invalid:`, config.error.errors);
+      continue;
+    }
+    sources.push({
+      entity: row.entityType as WebhookEntity,
+      config: config.data,
+      mapping: parseFieldMapping(row, field => JSON_PATH_PATTERN.test(field)),
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Records are the items of recordsPath when it points to an array, the object itself otherwise
+ */
+export function extractRecords(payload: unknown, config: Pick<WebhookSourceConfig, 'recordsPath'>): JsonRecord[] {
+  const root = config.recordsPath && isRecord(payload) ? getFieldValue(payload, config.recordsPath) : payload;
+  const items = Array.isArray(root) ? root : [root];
+  return items.filter(isRecord);
+}
+
+function matchesEvent(payload: unknown, config: WebhookSourceConfig): boolean {
+  if (!config.eventValues?.length) return true;
+  const event = config.eventPath && isRecord(payload) ? getFieldValue(payload, config.eventPath) : getWebhookEventType(payload);
+  return event !== undefined && event !== null && config.eventValues.includes(String(event));
+}
+
+/**
+ * Orders without a mapped date stay undated so an update or a replay keeps the date they were first seen with,
+ * activities default to when the payload was received
+ */
+function mapRecord(record: JsonRecord, externalId: string, source: WebhookEntitySource, receivedAt: Date, eventType?: string): CustomerData | OrderData | ActivityData {
+  const metadata = { webhookEvent: eventType };
+
+  switch (source.entity) {
+    case 'contact':
+      return applyFieldMapping<CustomerData>(record, { externalId, email: "", metadata }, source.mapping, CUSTOMER_TARGETS);
+    case 'order':
+      return applyFieldMapping<OrderData>(record, { externalId, totalAmount: "0", metadata }, source.mapping, ORDER_TARGETS);
+    case 'reservation': {
+      const reservation = applyFieldMapping<OrderData>(record, {
+        externalId,
+        totalAmount: "0",
+        orderType: "reservation",
+        metadata
+      }, source.mapping, RESERVATION_TARGETS);
+      // A reservation without an explicit order date is dated by its slot
+      if (reservation.reservationDate && !Object.values(source.mapping.fields).includes('orderDate')) {
+        reservation.orderDate = reservation.reservationDate;
+      }
+      return reservation;
+    }
+    case 'activity':
+      return applyFieldMapping<ActivityData>(record, { externalId, activityType: "note", activityDate: receivedAt, metadata }, source.mapping, ACTIVITY_TARGETS);
+  }
+}
+
+/**
+ * Turn a payload into canonical records with the connection's webhook mappings.
+ * Sources whose event filter does not match the payload are skipped.
+ */
+export function mapWebhookPayload(payload: unknown, sources: WebhookEntitySource[], receivedAt: Date = new Date()): MappedWebhookPayload {
+  const result: MappedWebhookPayload = { customers: [], orders: [], activities: [], counts: {}, matchedSources: 0, errors: [] };
+  const eventType = getWebhookEventType(payload);
+
+  for (const source of sources.filter(s => matchesEvent(payload, s.config))) {
+    result.matchedSources++;
+    const records = extractRecords(payload, source.config);
+
+    if (records.length === 0) {
+      result.errors.push(`${source.entity}: aucun enregistrement trouvé${source.config.recordsPath ? ` dans "${source.config.recordsPath}"` : ""}`);
+      continue;
+    }
+
+    for (const record of records) {
+      const id = getFieldValue(record, source.config.idPath);
+      if (id === null || id === undefined || id === "" || typeof id === "object") {
+        result.errors.push(`${source.entity}: identifiant "${source.config.idPath}" manquant`);
+        continue;
+      }
+
+      const mapped = mapRecord(record, String(id), source, receivedAt, eventType);
+      if (source.entity === 'contact') {
+        result.customers.push(mapped as CustomerData);
+      } else if (source.entity === 'activity') {
+        result.activities.push(mapped as ActivityData);
+      } else {
+        result.orders.push(mapped as OrderData);
+      }
+      result.counts[source.entity] = (result.counts[source.entity] || 0) + 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Every path of a sample payload, for the mapping editor. Arrays are described by their first item (items.0.sku).
+ */
+export function listJsonPaths(value: unknown, prefix: string = "", depth: number = 0, paths: JsonPathInfo[] = []): JsonPathInfo[] {
+  if (paths.length >= MAX_PATHS) return paths;
+
+  if (Array.isArray(value)) {
+    if (prefix) paths.push({ path: prefix, type: 'array' });
+    if (value.length > 0 && depth < MAX_PATH_DEPTH) {
+      listJsonPaths(value[0], prefix ? `${prefix}.0` : "0", depth + 1, paths);
+    }
+    return paths;
+  }
+
+  if (isRecord(value)) {
+    if (prefix) paths.push({ path: prefix, type: 'object' });
+    if (depth < MAX_PATH_DEPTH) {
+      for (const key of Object.keys(value).filter(k => JSON_PATH_PATTERN.test(k))) {
+        listJsonPaths(value[key], prefix ? `${prefix}.${key}` : key, depth + 1, paths);
+      }
+    }
+    return paths;
+  }
+
+  if (!prefix) return paths;
+
+  const type = value === null ? 'null' : typeof value;
+  paths.push({
+    path: prefix,
+    type: type === 'number' || type === 'boolean' || type === 'null' ? type : 'string',
+    sample: value === null || value === undefined ? undefined : String(value).slice(0, 80),
+  });
+  return paths;
+}
+
+/**
+ * Dry run of a mapping on a sample payload for the editor: available paths and the records it would import
+ */
+export function previewWebhookMapping(
+  payload: unknown,
+  entity: WebhookEntity,
+  row: Pick<ExternalFieldMapping, 'mappings' | 'customFields'>,
+  config?: Partial<WebhookSourceConfig>
+): { payloadPaths: JsonPathInfo[]; recordPaths: JsonPathInfo[]; records: unknown[]; errors: string[] } {
+  const records = extractRecords(payload, { recordsPath: config?.recordsPath });
+  const preview = {
+    payloadPaths: listJsonPaths(payload),
+    recordPaths: listJsonPaths(records[0]),
+    records: [] as unknown[],
+    errors: [] as string[],
+  };
+
+  if (!config?.idPath) {
+    return preview;
+  }
+
+  const mapped = mapWebhookPayload(payload, [{
+    entity,
+    config: { ...config, idPath: config.idPath, eventValues: undefined },
+    mapping: parseFieldMapping(row, field => JSON_PATH_PATTERN.test(field)),
+  }]);
+
+  preview.records = [...mapped.customers, ...mapped.orders, ...mapped.activities].slice(0, 10);
+  preview.errors = mapped.errors;
+  return preview;
+}
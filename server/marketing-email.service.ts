@@ -1,5 +1,8 @@
 import { Resend } from 'resend';
 import { storage } from './storage';
+import { emitWebhookEvent } from './services/outbound-webhook.service';
+import { getTwilioService } from './services/twilio-sms.service';
+import type { MarketingCampaign, MarketingContact } from '@shared/schema';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -43,6 +46,15 @@ export function replaceVariables(content: string, variables: TemplateVariables):
   return result;
 }
 
+export function getContactVariables(contact: MarketingContact): TemplateVariables {
+  return {
+    prenom: contact.firstName || '',
+    nom: contact.lastName || '',
+    email: contact.email || '',
+    telephone: contact.phone || '',
+  };
+}
+
 export function injectTrackingPixel(html: string, trackingId: string): string {
   const baseUrl = getBaseUrl();
   const pixelUrl = `${baseUrl}/api/marketing/track/open/${trackingId}`;
@@ -120,111 +132,270 @@ export async function sendMarketingEmail(options: EmailOptions): Promise<{ succe
   }
 }
 
+export type CampaignSendStatus = 'sent' | 'paused' | 'cancelled';
+export type CampaignChannel = 'email' | 'sms';
+
+export interface CampaignSendOptions {
+  // Number of messages sent concurrently before re-checking the campaign status
+  batchSize?: number;
+  // Pause between two batches to stay under the provider rate limit
+  batchDelayMs?: number;
+  onProgress?: (sent: number, total: number) => void;
+  // Explicit audience, used for A/B test slices instead of the campaign targeting
+  recipients?: MarketingContact[];
+  // Contacts to leave out, e.g. those who already received an A/B test variant
+  excludeContactIds?: Set<string>;
+  // Recipients reached outside this send (the A/B test slices), kept in the campaign total
+  previousRecipients?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_BATCH_DELAY_MS = 1000;
+
+export function getCampaignChannels(campaign: MarketingCampaign): CampaignChannel[] {
+  if (campaign.channel === 'both') return ['email', 'sms'];
+  return campaign.channel === 'sms' ? ['sms'] : ['email'];
+}
+
+function isReachableBy(contact: MarketingContact, channel: CampaignChannel): boolean {
+  return channel === 'sms'
+    ? !!contact.phone && contact.optInSms
+    : !!contact.email && contact.optInEmail;
+}
+
+export async function resolveCampaignRecipients(
+  campaign: MarketingCampaign,
+  userId: string,
+  channel: CampaignChannel = 'email'
+): Promise<MarketingContact[]> {
+  if (campaign.targetAll) {
+    return channel === 'sms'
+      ? await storage.getMarketingContacts(userId, { optInSms: true, hasPhone: true })
+      : await storage.getMarketingContacts(userId, { optInEmail: true, hasEmail: true });
+  }
+  
+  if (campaign.segmentId) {
+    const segment = await storage.getMarketingSegmentById(campaign.segmentId, userId);
+    if (segment?.filters) {
+      const segmentContacts = await storage.getMarketingContactsBySegmentFilters(userId, segment.filters as any);
+      return segmentContacts.filter(c => isReachableBy(c, channel));
+    }
+    return [];
+  }
+  
+  if (campaign.customFilters) {
+    const filterContacts = await storage.getMarketingContactsBySegmentFilters(userId, campaign.customFilters as any);
+    return filterContacts.filter(c => isReachableBy(c, channel));
+  }
+  
+  return [];
+}
+
+async function sendCampaignEmailToContact(
+  campaign: MarketingCampaign,
+  contact: MarketingContact
+): Promise<{ success: boolean; error?: string }> {
+  const send = await storage.createMarketingSend({
+    campaignId: campaign.id,
+    contactId: contact.id,
+    channel: 'email',
+    status: 'pending',
+    recipientEmail: contact.email,
+  });
+  
+  const variables = getContactVariables(contact);
+  
+  const personalizedSubject = replaceVariables(campaign.emailSubject || '', variables);
+  const personalizedContent = replaceVariables(campaign.emailContent || '', variables);
+  
+  const result = await sendMarketingEmail({
+    to: contact.email!,
+    subject: personalizedSubject,
+    html: personalizedContent,
+    previewText: campaign.emailPreviewText || undefined,
+    trackingId: send.trackingId,
+  });
+  
+  if (result.success) {
+    await storage.updateMarketingSend(send.id, {
+      status: 'sent',
+      sentAt: new Date(),
+      externalMessageId: result.messageId,
+    });
+    await storage.incrementContactEmailStats(contact.id, 'sent');
+  } else {
+    await storage.updateMarketingSend(send.id, {
+      status: 'failed',
+      failedAt: new Date(),
+      errorMessage: result.error,
+    });
+  }
+  
+  return result;
+}
+
+async function sendCampaignSmsToContact(
+  campaign: MarketingCampaign,
+  contact: MarketingContact
+): Promise<{ success: boolean; error?: string }> {
+  const send = await storage.createMarketingSend({
+    campaignId: campaign.id,
+    contactId: contact.id,
+    channel: 'sms',
+    status: 'pending',
+    recipientPhone: contact.phone,
+  });
+  
+  const result = await getTwilioService().sendSms({
+    to: contact.phone!,
+    message: replaceVariables(campaign.smsContent || '', getContactVariables(contact)),
+  });
+  
+  if (result.success) {
+    await storage.updateMarketingSend(send.id, {
+      status: 'sent',
+      sentAt: new Date(),
+      externalMessageId: result.messageId,
+    });
+    await storage.incrementContactSmsStats(contact.id);
+  } else {
+    await storage.updateMarketingSend(send.id, {
+      status: 'failed',
+      failedAt: new Date(),
+      errorMessage: result.error,
+    });
+  }
+  
+  return result;
+}
+
+/**
+ * Send a campaign to its audience in throttled batches, on each of its channels.
+ * The campaign status is re-read between batches so that a campaign switched
+ * to 'paused' or 'cancelled' stops mid-send. Contacts that already have a send
+ * for this campaign on a channel are skipped on it, which makes a paused campaign resumable.
+ */
 export async function sendCampaignToRecipients(
   campaignId: string,
   userId: string,
-  onProgress?: (sent: number, total: number) => void
-): Promise<{ sent: number; failed: number; errors: string[] }> {
+  options: CampaignSendOptions = {}
+): Promise<{ sent: number; failed: number; errors: string[]; status: CampaignSendStatus }> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const batchDelayMs = options.batchDelayMs ?? DEFAULT_BATCH_DELAY_MS;
+  
   const campaign = await storage.getMarketingCampaignById(campaignId, userId);
   if (!campaign) {
     throw new Error('Campaign not found');
   }
   
-  if (campaign.channel !== 'email' && campaign.channel !== 'both') {
-    throw new Error('Campaign is not configured for email');
+  const channels = getCampaignChannels(campaign);
+  if (channels.includes('sms') && !campaign.smsContent) {
+    throw new Error('Campaign has no SMS content');
   }
   
-  let contacts: any[] = [];
+  if (campaign.status === 'paused' || campaign.status === 'cancelled') {
+    return { sent: 0, failed: 0, errors: [], status: campaign.status };
+  }
   
-  if (campaign.targetAll) {
-    contacts = await storage.getMarketingContacts(userId, { optInEmail: true, hasEmail: true });
-  } else if (campaign.segmentId) {
-    const segment = await storage.getMarketingSegmentById(campaign.segmentId, userId);
-    if (segment?.filters) {
-      const segmentContacts = await storage.getMarketingContactsBySegmentFilters(userId, segment.filters as any);
-      contacts = segmentContacts.filter(c => c.email && c.optInEmail);
-    }
-  } else if (campaign.customFilters) {
-    const filterContacts = await storage.getMarketingContactsBySegmentFilters(userId, campaign.customFilters as any);
-    contacts = filterContacts.filter(c => c.email && c.optInEmail);
+  // Skip contacts already handled on a channel by a previous (interrupted) run
+  const existingSends = await storage.getMarketingSendsByCampaign(campaignId);
+  const alreadySent = new Set(existingSends.map(s => `${s.channel}:${s.contactId}`));
+  
+  let totalRecipients = options.previousRecipients ?? 0;
+  const pending: { channel: CampaignChannel; contact: MarketingContact }[] = [];
+  for (const channel of channels) {
+    const audience = options.recipients
+      ? options.recipients.filter(c => isReachableBy(c, channel))
+      : await resolveCampaignRecipients(campaign, userId, channel);
+    const contacts = options.excludeContactIds
+      ? audience.filter(c => !options.excludeContactIds!.has(c.id))
+      : audience;
+    
+    totalRecipients += contacts.length;
+    contacts
+      .filter(c => !alreadySent.has(`${channel}:${c.id}`))
+      .forEach(contact => pending.push({ channel, contact }));
   }
   
   await storage.updateMarketingCampaign(campaignId, userId, {
     status: 'sending',
-    sendingStartedAt: new Date(),
-    totalRecipients: contacts.length,
+    sendingStartedAt: campaign.sendingStartedAt || new Date(),
+    totalRecipients,
   });
   
+  const baseSent = campaign.totalSent || 0;
+  const baseFailed = campaign.totalFailed || 0;
   let sent = 0;
   let failed = 0;
   const errors: string[] = [];
   
-  for (const contact of contacts) {
-    try {
-      const send = await storage.createMarketingSend({
-        campaignId,
-        contactId: contact.id,
-        channel: 'email',
-        status: 'pending',
-        recipientEmail: contact.email,
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const current = await storage.getMarketingCampaignById(campaignId, userId);
+    if (!current || current.status === 'paused' || current.status === 'cancelled') {
+      const status = current?.status === 'paused' ? 'paused' : 'cancelled';
+      await storage.updateCampaignStats(campaignId, {
+        totalSent: baseSent + sent,
+        totalFailed: baseFailed + failed,
       });
-      
-      const variables: TemplateVariables = {
-        prenom: contact.firstName || '',
-        nom: contact.lastName || '',
-        email: contact.email || '',
-        telephone: contact.phone || '',
-      };
-      
-      const personalizedSubject = replaceVariables(campaign.emailSubject || '', variables);
-      const personalizedContent = replaceVariables(campaign.emailContent || '', variables);
-      
-      const result = await sendMarketingEmail({
-        to: contact.email,
-        subject: personalizedSubject,
-        html: personalizedContent,
-        previewText: campaign.emailPreviewText || undefined,
-        trackingId: send.trackingId,
-      });
-      
+      console.log(`[MarketingEmail] Campaign ${campaignId} ${status} after ${sent + failed}/${pending.length} recipients`);
+      return { sent, failed, errors, status };
+    }
+    
+    const batch = pending.slice(i, i + batchSize);
+    const results = await Promise.all(batch.map(async ({ channel, contact }) => {
+      try {
+        return channel === 'sms'
+          ? await sendCampaignSmsToContact(campaign, contact)
+          : await sendCampaignEmailToContact(campaign, contact);
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }));
+    
+    results.forEach((result, index) => {
       if (result.success) {
-        await storage.updateMarketingSend(send.id, {
-          status: 'sent',
-          sentAt: new Date(),
-          externalMessageId: result.messageId,
-        });
-        await storage.incrementContactEmailStats(contact.id, 'sent');
         sent++;
       } else {
-        await storage.updateMarketingSend(send.id, {
-          status: 'failed',
-          failedAt: new Date(),
-          errorMessage: result.error,
-        });
         failed++;
-        errors.push(`${contact.email}: ${result.error}`);
-      }
-      
-      if (onProgress) {
-        onProgress(sent + failed, contacts.length);
+        const { channel, contact } = batch[index];
+        errors.push(`${channel === 'sms' ? contact.phone : contact.email}: ${result.error}`);
       }
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-    } catch (error: any) {
-      failed++;
-      errors.push(`${contact.email}: ${error.message}`);
+    });
+    
+    await storage.updateCampaignStats(campaignId, {
+      totalSent: baseSent + sent,
+      totalFailed: baseFailed + failed,
+    });
+    
+    if (options.onProgress) {
+      options.onProgress(totalRecipients - pending.length + sent + failed, totalRecipients);
+    }
+    
+    if (i + batchSize < pending.length) {
+      await new Promise(resolve => setTimeout(resolve, batchDelayMs));
     }
   }
   
   await storage.updateMarketingCampaign(campaignId, userId, {
     status: 'sent',
     sentAt: new Date(),
-    totalSent: sent,
-    totalFailed: failed,
+    totalSent: baseSent + sent,
+    totalFailed: baseFailed + failed,
   });
   
-  return { sent, failed, errors };
+  // A/B variants are reported through their parent campaign once the winner is sent
+  if (!campaign.abVariantOf) {
+    emitWebhookEvent(userId, 'campaign.sent', {
+      campaignId,
+      name: campaign.name,
+      channel: campaign.channel,
+      totalRecipients,
+      totalSent: baseSent + sent,
+      totalFailed: baseFailed + failed,
+    });
+  }
+  
+  return { sent, failed, errors, status: 'sent' };
 }
 
 export function createBaseEmailTemplate(content: string, companyName: string = 'SpeedAI'): string {
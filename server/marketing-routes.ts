@@ -3,15 +3,20 @@ import { storage } from "./storage";
 import { requireAuth, requireVerified, requireSubscription } from "./auth";
 import { z } from "zod";
 import OpenAI from "openai";
+import { createAbTestCampaign, getAbTestSummary } from "./services/marketing-ab-test.service";
 import {
   insertMarketingContactSchema,
   insertMarketingSegmentSchema,
   insertMarketingTemplateSchema,
   insertMarketingCampaignSchema,
   insertMarketingAutomationSchema,
+  insertMarketingConfigSchema,
   segmentFiltersSchema,
   importContactsSchema,
   createQuickCampaignSchema,
+  createAbTestCampaignSchema,
+  type MarketingContact,
+  type MarketingSend,
 } from "@shared/schema";
 
 // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
@@ -232,6 +237,39 @@ export function registerMarketingRoutes(app: Express) {
     }
   });
 
+  // ===== MARKETING CONFIG =====
+
+  // Get config (created with defaults on first access)
+  app.get("/api/marketing/config", requireAuth, requireVerified, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      let config = await storage.getMarketingConfig(userId);
+      if (!config) {
+        config = await storage.upsertMarketingConfig(userId, {});
+      }
+      res.json(config);
+    } catch (error: any) {
+      console.error("[Marketing] Get config error:", error);
+      res.status(500).json({ error: "Erreur lors de la récupération de la configuration" });
+    }
+  });
+
+  // Update config
+  app.patch("/api/marketing/config", requireAuth, requireVerified, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const updates = insertMarketingConfigSchema.partial().parse(req.body);
+      const config = await storage.upsertMarketingConfig(userId, updates);
+      res.json(config);
+    } catch (error: any) {
+      console.error("[Marketing] Update config error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Données invalides", details: error.errors });
+      }
+      res.status(500).json({ error: "Erreur lors de la mise à jour de la configuration" });
+    }
+  });
+
   // ===== MARKETING SEGMENTS =====
 
   // Get all segments
@@ -736,6 +774,30 @@ ${channelType === 'sms' ? 'Pour un SMS, limite le contenu à 160 caractères max
     }
   });
 
+  // Create an A/B tested campaign with its variants
+  app.post("/api/marketing/campaigns/ab-test", requireAuth, requireVerified, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const data = createAbTestCampaignSchema.parse(req.body);
+      
+      if (data.segmentId) {
+        const segment = await storage.getMarketingSegmentById(data.segmentId, userId);
+        if (!segment) {
+          return res.status(404).json({ error: "Segment non trouvé" });
+        }
+      }
+      
+      const result = await createAbTestCampaign(userId, data);
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("[Marketing] Create A/B test campaign error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Données invalides", details: error.errors });
+      }
+      res.status(500).json({ error: "Erreur lors de la création du test A/B" });
+    }
+  });
+
   // Update campaign
   app.patch("/api/marketing/campaigns/:id", requireAuth, requireVerified, async (req: Request, res: Response) => {
     try {
@@ -758,6 +820,121 @@ ${channelType === 'sms' ? 'Pour un SMS, limite le contenu à 160 caractères max
     }
   });
 
+  // Send campaign now (picked up by the campaign dispatch cron)
+  app.post("/api/marketing/campaigns/:id/send", requireAuth, requireVerified, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      
+      if (!isValidUUID(id)) {
+        return res.status(400).json({ error: "ID de campagne invalide" });
+      }
+      
+      const existing = await storage.getMarketingCampaignById(id, userId);
+      if (!existing) {
+        return res.status(404).json({ error: "Campagne non trouvée" });
+      }
+      if (existing.status !== 'draft' && existing.status !== 'scheduled') {
+        return res.status(409).json({ error: "Cette campagne ne peut pas être envoyée dans son état actuel" });
+      }
+      if (existing.abVariantOf) {
+        return res.status(409).json({ error: "Une variante de test A/B est envoyée par sa campagne parente" });
+      }
+      
+      const campaign = await storage.updateMarketingCampaign(id, userId, {
+        status: 'scheduled',
+        scheduledAt: new Date(),
+      });
+      
+      res.json(campaign);
+    } catch (error: any) {
+      console.error("[Marketing] Send campaign error:", error);
+      res.status(500).json({ error: "Erreur lors de l'envoi de la campagne" });
+    }
+  });
+
+  // Pause a scheduled or sending campaign (the dispatcher stops after the current batch)
+  app.post("/api/marketing/campaigns/:id/pause", requireAuth, requireVerified, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      
+      if (!isValidUUID(id)) {
+        return res.status(400).json({ error: "ID de campagne invalide" });
+      }
+      
+      const existing = await storage.getMarketingCampaignById(id, userId);
+      if (!existing) {
+        return res.status(404).json({ error: "Campagne non trouvée" });
+      }
+      if (existing.status !== 'scheduled' && existing.status !== 'sending') {
+        return res.status(409).json({ error: "Seule une campagne programmée ou en cours d'envoi peut être mise en pause" });
+      }
+      
+      const campaign = await storage.updateMarketingCampaign(id, userId, { status: 'paused' });
+      res.json(campaign);
+    } catch (error: any) {
+      console.error("[Marketing] Pause campaign error:", error);
+      res.status(500).json({ error: "Erreur lors de la mise en pause de la campagne" });
+    }
+  });
+
+  // Resume a paused or failed campaign - recipients already reached are skipped
+  app.post("/api/marketing/campaigns/:id/resume", requireAuth, requireVerified, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      
+      if (!isValidUUID(id)) {
+        return res.status(400).json({ error: "ID de campagne invalide" });
+      }
+      
+      const existing = await storage.getMarketingCampaignById(id, userId);
+      if (!existing) {
+        return res.status(404).json({ error: "Campagne non trouvée" });
+      }
+      if (existing.status !== 'paused' && existing.status !== 'failed') {
+        return res.status(409).json({ error: "Seule une campagne en pause ou en échec peut être reprise" });
+      }
+      
+      const campaign = await storage.updateMarketingCampaign(id, userId, {
+        status: 'scheduled',
+        lastError: null,
+        scheduledAt: existing.scheduledAt && existing.scheduledAt > new Date() ? existing.scheduledAt : new Date(),
+      });
+      res.json(campaign);
+    } catch (error: any) {
+      console.error("[Marketing] Resume campaign error:", error);
+      res.status(500).json({ error: "Erreur lors de la reprise de la campagne" });
+    }
+  });
+
+  // Cancel a campaign that has not finished sending
+  app.post("/api/marketing/campaigns/:id/cancel", requireAuth, requireVerified, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      
+      if (!isValidUUID(id)) {
+        return res.status(400).json({ error: "ID de campagne invalide" });
+      }
+      
+      const existing = await storage.getMarketingCampaignById(id, userId);
+      if (!existing) {
+        return res.status(404).json({ error: "Campagne non trouvée" });
+      }
+      if (existing.status === 'sent' || existing.status === 'cancelled') {
+        return res.status(409).json({ error: "Cette campagne est déjà terminée" });
+      }
+      
+      const campaign = await storage.updateMarketingCampaign(id, userId, { status: 'cancelled' });
+      res.json(campaign);
+    } catch (error: any) {
+      console.error("[Marketing] Cancel campaign error:", error);
+      res.status(500).json({ error: "Erreur lors de l'annulation de la campagne" });
+    }
+  });
+
   // Delete campaign
   app.delete("/api/marketing/campaigns/:id", requireAuth, requireVerified, async (req: Request, res: Response) => {
     try {
@@ -947,6 +1124,7 @@ ${channelType === 'sms' ? 'Pour un SMS, limite le contenu à 160 caractères max
       
       const sends = await storage.getMarketingSendsByCampaign(id);
       const sendStats = await storage.getCampaignSendStats(id);
+      const abTest = campaign.isAbTest ? await getAbTestSummary(campaign) : null;
       
       // Calculate rates
       const openRate = sendStats.sent > 0 ? (sendStats.opened / sendStats.sent) * 100 : 0;
@@ -964,6 +1142,7 @@ ${channelType === 'sms' ? 'Pour un SMS, limite le contenu à 160 caractères max
           unsubRate: Math.round(unsubRate * 100) / 100,
         },
         recentSends: sends.slice(0, 50),
+        abTest,
       });
     } catch (error: any) {
       console.error("[Marketing] Get campaign analytics error:", error);
@@ -1081,13 +1260,12 @@ ${channelType === 'sms' ? 'Pour un SMS, limite le contenu à 160 caractères max
         return res.status(400).json({ error: "Lien invalide" });
       }
       
-      const send = await storage.getMarketingSendByTrackingId(trackingId);
-      if (!send) {
+      const target = await resolveUnsubscribeTarget(trackingId);
+      if (!target) {
         return res.status(404).json({ error: "Lien de désinscription invalide ou expiré" });
       }
       
-      // Get contact info for the page
-      const contact = await storage.getMarketingContactById(send.contactId, '');
+      const { contact } = target;
       
       res.json({
         email: contact?.email ? maskEmail(contact.email) : null,
@@ -1112,13 +1290,12 @@ ${channelType === 'sms' ? 'Pour un SMS, limite le contenu à 160 caractères max
         return res.status(400).json({ error: "Lien invalide" });
       }
       
-      const send = await storage.getMarketingSendByTrackingId(trackingId);
-      if (!send) {
+      const target = await resolveUnsubscribeTarget(trackingId);
+      if (!target) {
         return res.status(404).json({ error: "Lien invalide" });
       }
       
-      // Get contact to find userId
-      const contact = await storage.getMarketingContactById(send.contactId, '');
+      const { send, contact } = target;
       if (!contact) {
         return res.status(404).json({ error: "Contact non trouvé" });
       }
@@ -1135,11 +1312,11 @@ ${channelType === 'sms' ? 'Pour un SMS, limite le contenu à 160 caractères max
         updates.optInSms = false;
       }
       
-      await storage.updateMarketingContact(send.contactId, contact.userId, updates);
+      await storage.updateMarketingContact(contact.id, contact.userId, updates);
       
       // Log consent change
       await storage.createConsentHistory(
-        send.contactId,
+        contact.id,
         'opt_out',
         channel || 'both',
         'unsubscribe_link',
@@ -1147,18 +1324,21 @@ ${channelType === 'sms' ? 'Pour un SMS, limite le contenu à 160 caractères max
         req.headers['user-agent']
       );
       
-      // Update send status
-      await storage.updateMarketingSend(send.id, {
-        status: 'unsubscribed',
-        unsubscribedAt: new Date(),
-      });
-      
-      // Update campaign stats
-      const campaign = await storage.getMarketingCampaignById(send.campaignId, '');
-      if (campaign) {
-        await storage.updateCampaignStats(send.campaignId, {
-          totalUnsubscribed: (campaign.totalUnsubscribed || 0) + 1,
+      // Automation emails have no send record to update
+      if (send) {
+        // Update send status
+        await storage.updateMarketingSend(send.id, {
+          status: 'unsubscribed',
+          unsubscribedAt: new Date(),
         });
+        
+        // Update campaign stats
+        const campaign = await storage.getMarketingCampaignById(send.campaignId, '');
+        if (campaign) {
+          await storage.updateCampaignStats(send.campaignId, {
+            totalUnsubscribed: (campaign.totalUnsubscribed || 0) + 1,
+          });
+        }
       }
       
       res.json({ success: true, message: "Vous avez été désinscrit avec succès" });
@@ -1171,6 +1351,29 @@ ${channelType === 'sms' ? 'Pour un SMS, limite le contenu à 160 caractères max
 
 // Helper functions for tracking
 
+// Campaign emails are tracked by send, automation emails by automation log ID
+async function resolveUnsubscribeTarget(trackingId: string): Promise<{
+  send?: MarketingSend;
+  contact?: MarketingContact;
+} | null> {
+  const send = await storage.getMarketingSendByTrackingId(trackingId);
+  if (send) {
+    const contact = await storage.getMarketingContactById(send.contactId, '');
+    return { send, contact };
+  }
+  
+  const log = await storage.getAutomationLogById(trackingId);
+  if (log) {
+    const automation = await storage.getMarketingAutomationByIdAdmin(log.automationId);
+    const contact = automation
+      ? await storage.getMarketingContactById(log.contactId, automation.userId)
+      : undefined;
+    return { contact };
+  }
+  
+  return null;
+}
+
 function sendTrackingPixel(res: Response) {
   // 1x1 transparent GIF
   const pixel = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
@@ -0,0 +1,23 @@
+/**
+ * Migration Script: call outcome taxonomy backfill
+ *
+ * Classifies the calls ingested before the taxonomy existed (outcome and service_type_key),
+ * each with the taxonomy of its user and tenant. Raw values are left untouched, so the script
+ * can be run again safely.
+ *
+ * Run with: npx tsx server/migrations/backfill-call-classification.ts
+ */
+
+import { backfillCallClassification } from '../services/call-taxonomy.service';
+
+console.log('🚀 Starting backfill: call outcome taxonomy');
+
+backfillCallClassification()
+  .then((updated) => {
+    console.log(`✅ Backfill completed: ${updated} calls classified`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  });
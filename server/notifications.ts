@@ -1,5 +1,5 @@
 import type { IStorage } from "./storage";
-import type { Call } from "@shared/schema";
+import type { Call, Notification } from "@shared/schema";
 
 /**
  * Helper functions to create notifications based on user preferences
@@ -269,6 +269,53 @@ export async function notifyCardValidated(
   });
 }
 
+/**
+ * Notify user when no arrival was detected for a guaranteed reservation after the grace period
+ */
+export async function notifyNoshowDetected(
+  storage: IStorage,
+  userId: string,
+  detection: { customerName: string; reservationDate: string; autoApplyAt: Date | null }
+): Promise<void> {
+  const nextStep = detection.autoApplyAt
+    ? `Le no-show sera appliqué automatiquement le ${detection.autoApplyAt.toLocaleString('fr-FR', { timeZone: 'Europe/Paris', dateStyle: 'short', timeStyle: 'short' })} sauf correction.`
+    : "Confirmez le no-show ou la venue du client depuis les réservations.";
+
+  await storage.createNotification({
+    userId,
+    type: "guarantee_noshow_detected",
+    title: "No-show à vérifier",
+    message: `Aucune arrivée détectée pour ${detection.customerName} (réservation du ${detection.reservationDate}). ${nextStep}`,
+    isRead: false,
+  });
+}
+
+/**
+ * Notify user when a customer disputes a guarantee charge, and when the dispute is decided
+ */
+export async function notifyGuaranteeDispute(
+  storage: IStorage,
+  userId: string,
+  dispute: { customerName: string; amount: number; status: string; chargeId: string }
+): Promise<void> {
+  const { title, message } = dispute.status === 'won'
+    ? { title: "Litige gagné", message: `Le litige de ${dispute.customerName} (${dispute.amount}€) a été tranché en votre faveur.` }
+    : dispute.status === 'lost'
+    ? { title: "Litige perdu", message: `Le litige de ${dispute.customerName} (${dispute.amount}€) a été tranché en faveur du client, le montant a été remboursé.` }
+    : dispute.status === 'warning_closed'
+    ? { title: "Demande d'information clôturée", message: `La demande de la banque de ${dispute.customerName} (${dispute.amount}€) a été clôturée sans litige.` }
+    : { title: "Litige sur une garantie", message: `${dispute.customerName} conteste le prélèvement de ${dispute.amount}€. Vérifiez et envoyez le dossier de preuves depuis l'historique des garanties.` };
+
+  await storage.createNotification({
+    userId,
+    type: "guarantee_dispute",
+    title,
+    message,
+    metadata: JSON.stringify({ chargeId: dispute.chargeId, status: dispute.status }),
+    isRead: false,
+  });
+}
+
 // ===== INTEGRATION NOTIFICATIONS =====
 
 /**
@@ -304,3 +351,31 @@ export async function notifyIntegrationError(
     isRead: false,
   });
 }
+
+// ===== CALL ACTIVITY NOTIFICATIONS =====
+
+/**
+ * Notify user of an unusual call activity detected by the anomaly detector
+ * Returns null when the user turned anomaly alerts off
+ */
+export async function notifyCallAnomaly(
+  storage: IStorage,
+  userId: string,
+  anomaly: { title: string; explanation: string; metadata: Record<string, unknown> }
+): Promise<Notification | null> {
+  const preferences = await storage.getNotificationPreferences(userId);
+
+  // Enabled by default - only an explicit opt-out silences them
+  if (preferences && !preferences.anomalyAlertsEnabled) {
+    return null;
+  }
+
+  return storage.createNotification({
+    userId,
+    type: "call_anomaly",
+    title: anomaly.title,
+    message: anomaly.explanation,
+    metadata: JSON.stringify(anomaly.metadata),
+    isRead: false,
+  });
+}
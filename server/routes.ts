@@ -4,10 +4,18 @@ import { createServer, type Server } from "http";
 import Stripe from "stripe";
 import fs from "fs";
 import path from "path";
+import QRCode from "qrcode";
 import { storage } from "./storage";
 import { fileStorage } from "./file-storage.service";
 import { aiInsightsService } from "./ai-insights.service";
 import { aiAnalyticsService } from "./ai-analytics.service";
+import {
+  parseAnalyticsQuery,
+  getPreviousPeriod,
+  calculatePercentageChange,
+  listDaysInPeriod,
+  resolveTimePeriod,
+} from "./call-analytics.utils";
 import {
   hashPassword,
   comparePassword,
@@ -20,6 +28,7 @@ import {
   requireSubscription,
 } from "./auth";
 import { requireApiKey } from "./api-key-auth";
+import { generateScopedApiKey } from "./api-key";
 import {
   sendVerificationEmail,
   sendPasswordResetEmail,
@@ -38,6 +47,22 @@ import {
   onboardingFormSchema,
   brandingUpdateSchema,
   clientProfiles,
+  createApiKeySchema,
+  updateApiKeySchema,
+  API_KEY_SCOPES,
+  callSearchQuerySchema,
+  CALL_EXPORT_FORMATS,
+  guaranteeReminderStepSchema,
+  DEFAULT_GUARANTEE_REMINDER_STEPS,
+  GUARANTEE_MODES,
+  GUARANTEE_DEPOSIT_TYPES,
+  guaranteeRuleSchema,
+  MAX_GUARANTEE_RULES,
+  NOSHOW_DETECTION_MODES,
+  GUARANTEE_CHECK_IN_SOURCES,
+  type CallExportFormat,
+  type ApiKey,
+  type GuaranteeSession,
 } from "@shared/schema";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
@@ -51,7 +76,36 @@ import { registerMarketingRoutes } from "./marketing-routes";
 import integrationRoutes from "./integration-routes";
 import waitlistRoutes from "./routes/waitlist.routes";
 import waitlistCalendarRoutes from "./routes/waitlist-calendar.routes";
+import webhookEndpointsRoutes from "./routes/webhook-endpoints.routes";
+import publicApiRoutes from "./routes/public-api.routes";
+import callExportSchedulesRoutes from "./routes/call-export-schedules.routes";
+import customersRoutes from "./routes/customers.routes";
+import callQaRoutes from "./routes/call-qa.routes";
+import callTaxonomyRoutes from "./routes/call-taxonomy.routes";
+import revenueAttributionRoutes from "./routes/revenue-attribution.routes";
+import {
+  writeCallExport,
+  resolveExportColumns,
+  getCallExportFileName,
+  CALL_EXPORT_CONTENT_TYPES,
+} from "./services/call-export.service";
+import { emitWebhookEvent, callEventData, guaranteeEventData } from "./services/outbound-webhook.service";
+import { queueMarketingContactSync } from "./services/marketing-contact-sync.service";
+import { getEffectiveTaxonomy, classifyIncomingCall, buildOutcomeBreakdown } from "./services/call-taxonomy.service";
+import { getRevenueAttributionSummary } from "./services/revenue-attribution.service";
+import { resolveTranscript } from "./utils/transcript";
 import { sendCardRequestEmail, sendConfirmationEmail, isEmailConfigured } from "./services/guarantee-email.service";
+import { getRemainingReminderSchedule } from "./services/guarantee-reminder.service";
+import {
+  isDepositSession,
+  computeDepositAmount,
+  guaranteeCheckoutModeParams,
+  recordDepositPayment,
+  cancelReservation,
+} from "./services/guarantee-deposit.service";
+import { resolveGuaranteeRule, getActiveGuaranteeRules } from "./services/guarantee-rules.service";
+import { handleGuaranteeDisputeEvent, buildDisputeEvidence, submitDisputeEvidence, isDisputeOpen } from "./services/guarantee-dispute.service";
+import { applyReservationOutcome, recordCheckIn, hasPaidDeposit } from "./services/guarantee-noshow.service";
 import { sendGuaranteeCardRequestSms, sendGuaranteeConfirmationSms, isSmsConfigured } from "./services/twilio-sms.service";
 import { sendThankYouMessage } from "./services/review-thank-you.service";
 
@@ -783,11 +837,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Use raw body for webhook verification
       const rawBody = (req as any).rawBody || req.body;
-      event = stripe.webhooks.constructEvent(
-        rawBody,
-        sig,
-        STRIPE_WEBHOOK_SECRET,
-      );
+      try {
+        event = stripe.webhooks.constructEvent(
+          rawBody,
+          sig,
+          STRIPE_WEBHOOK_SECRET,
+        );
+      } catch (err) {
+        // Events of connected accounts (guarantee disputes) may come from a separate Connect endpoint
+        if (!process.env.STRIPE_CONNECT_WEBHOOK_SECRET) throw err;
+        event = stripe.webhooks.constructEvent(
+          rawBody,
+          sig,
+          process.env.STRIPE_CONNECT_WEBHOOK_SECRET,
+        );
+      }
     } catch (err: any) {
       console.error("Webhook signature verification failed:", err.message);
       return res.status(400).json({ message: `Webhook Error: ${err.message}` });
@@ -930,8 +994,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         case "checkout.session.completed": {
           const checkoutSession = event.data.object as Stripe.Checkout.Session;
           
-          // Only handle CB Guarantee sessions (mode: setup)
-          if (checkoutSession.mode === 'setup') {
+          // Only handle CB Guarantee sessions (mode: setup, or payment for a deposit)
+          if (checkoutSession.mode === 'setup' || checkoutSession.mode === 'payment') {
             console.log('🔔 [Stripe Webhook] CB Guarantee checkout completed:', checkoutSession.id);
             
             try {
@@ -968,6 +1032,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 }
               }
               
+              // Deposit paid at checkout: log it and keep the card saved with the payment
+              let depositUpdates = {};
+              if (checkoutSession.mode === 'payment' && checkoutSession.payment_intent) {
+                const config = await storage.getGuaranteeConfig(guaranteeSession.userId);
+                if (config?.stripeAccountId) {
+                  depositUpdates = await recordDepositPayment(
+                    stripe,
+                    config.stripeAccountId,
+                    guaranteeSession,
+                    checkoutSession.payment_intent as string
+                  );
+                }
+              }
+              
               // Update session to validated status
               const updatedSession = await storage.updateGuaranteeSession(guaranteeSession.id, {
                 status: 'validated',
@@ -975,6 +1053,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 setupIntentId: checkoutSession.setup_intent as string,
                 customerStripeId: checkoutSession.customer as string,
                 paymentMethodId: paymentMethodId,
+                ...depositUpdates,
               });
               
               if (!updatedSession) {
@@ -984,6 +1063,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               }
               
               console.log('✅ [Stripe Webhook] Session validated:', guaranteeSession.id);
+              emitWebhookEvent(updatedSession.userId, 'guarantee.validated', guaranteeEventData(updatedSession));
               
               // Get config for sending confirmation notifications
               const config = await storage.getGuaranteeConfig(guaranteeSession.userId);
@@ -1110,6 +1190,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
           break;
         }
+
+        case "charge.dispute.created":
+        case "charge.dispute.updated":
+        case "charge.dispute.closed": {
+          try {
+            await handleGuaranteeDisputeEvent(event);
+          } catch (disputeError) {
+            console.error('❌ [Stripe Webhook] Error processing guarantee dispute:', disputeError);
+          }
+          break;
+        }
       }
 
       res.json({ received: true });
@@ -1130,16 +1221,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req, res) => {
       try {
         const userId = req.user!.id;
-        const timeFilter = req.query.timeFilter as
-          | "hour"
-          | "today"
-          | "two_days"
-          | "week"
-          | undefined;
+        const timeZone = await storage.getUserTimezone(userId);
+        let analyticsQuery: ReturnType<typeof parseAnalyticsQuery>;
+        try {
+          analyticsQuery = parseAnalyticsQuery(req.query, timeZone);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        const { range, compare } = analyticsQuery;
 
-        const stats = await storage.getStats(userId, timeFilter);
+        const taxonomy = await getEffectiveTaxonomy({ userId });
+        const stats = await storage.getStats(userId, range, timeZone, taxonomy);
         const remindersSent = await storage.getRemindersSentCount(userId);
-        res.json({ ...stats, remindersSent });
+        const byOutcome = buildOutcomeBreakdown(taxonomy, await storage.getCallOutcomeCounts(userId, range, timeZone));
+        // Revenue measured from real orders, next to the estimate
+        const revenueAttribution = await getRevenueAttributionSummary(userId, resolveTimePeriod(range, timeZone));
+
+        const previousPeriod = compare ? getPreviousPeriod(range, compare, timeZone) : null;
+        if (!previousPeriod) {
+          return res.json({ ...stats, remindersSent, byOutcome, revenueAttribution });
+        }
+
+        const previousStats = await storage.getStats(userId, previousPeriod, timeZone, taxonomy);
+        const changes = Object.fromEntries(
+          (Object.keys(stats) as (keyof typeof stats)[]).map((key) => [
+            key,
+            Math.round(calculatePercentageChange(stats[key], previousStats[key]) * 10) / 10,
+          ]),
+        );
+        res.json({
+          ...stats,
+          remindersSent,
+          byOutcome,
+          revenueAttribution,
+          comparison: {
+            mode: compare,
+            period: previousPeriod,
+            ...previousStats,
+          },
+          changes,
+        });
       } catch (error) {
         console.error("Error fetching stats:", error);
         res
@@ -1158,14 +1279,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req, res) => {
       try {
         const userId = req.user!.id;
-        const timeFilter = req.query.timeFilter as
-          | "hour"
-          | "today"
-          | "two_days"
-          | "week"
-          | undefined;
-
-        const { calls } = await storage.getCalls(userId, { timeFilter, limit: 1000 });
+        const timeZone = await storage.getUserTimezone(userId);
+        let analyticsQuery: ReturnType<typeof parseAnalyticsQuery>;
+        try {
+          analyticsQuery = parseAnalyticsQuery(req.query, timeZone);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        const { range } = analyticsQuery;
+        const period = typeof range === "string" ? undefined : range;
+
+        const { calls } = await storage.getCalls(userId, {
+          timeFilter: typeof range === "string" ? range : undefined,
+          startDate: period?.start,
+          endDate: period?.end,
+          limit: 1000,
+        });
         
         // Calculate enriched metrics from N8N data
         const totalCalls = calls.length;
@@ -1576,12 +1705,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       try {
         const userId = req.user!.id;
         const metric = req.params.metric as string;
-        const timeFilter = req.query.timeFilter as
-          | "hour"
-          | "today"
-          | "two_days"
-          | "week"
-          | undefined;
+        const timeZone = await storage.getUserTimezone(userId);
+        let analyticsQuery: ReturnType<typeof parseAnalyticsQuery>;
+        try {
+          analyticsQuery = parseAnalyticsQuery(req.query, timeZone);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        const { range, compare } = analyticsQuery;
 
         // Validate metric parameter
         const validMetrics = ["volume", "conversion", "timeslots", "duration"];
@@ -1597,25 +1728,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
           case "volume":
             insight = await aiAnalyticsService.analyzeCallVolume(
               userId,
-              timeFilter,
+              range,
+              { compare, timeZone },
             );
             break;
           case "conversion":
             insight = await aiAnalyticsService.analyzeConversionRate(
               userId,
-              timeFilter,
+              range,
+              { compare, timeZone },
             );
             break;
           case "timeslots":
             insight = await aiAnalyticsService.analyzeTimeSlots(
               userId,
-              timeFilter,
+              range,
+              { compare, timeZone },
             );
             break;
           case "duration":
             insight = await aiAnalyticsService.analyzeAverageDuration(
               userId,
-              timeFilter,
+              range,
+              { compare, timeZone },
             );
             break;
         }
@@ -1642,12 +1777,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req, res) => {
       try {
         const userId = req.user!.id;
-        const timeFilter = req.query.timeFilter as
-          | "hour"
-          | "today"
-          | "two_days"
-          | "week"
-          | undefined;
+        const timeZone = await storage.getUserTimezone(userId);
+        let analyticsQuery: ReturnType<typeof parseAnalyticsQuery>;
+        try {
+          analyticsQuery = parseAnalyticsQuery(req.query, timeZone);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        const { range, compare } = analyticsQuery;
+        const period = typeof range === "string" ? undefined : range;
         const statusFilter = req.query.statusFilter as string | undefined;
         const appointmentsOnly = req.query.appointmentsOnly === "true";
         const hidePastAppointments = req.query.hidePastAppointments !== "false"; // Default to true
@@ -1655,7 +1793,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
 
         const result = await storage.getCalls(userId, {
-          timeFilter,
+          timeFilter: typeof range === "string" ? range : undefined,
+          startDate: period?.start,
+          endDate: period?.end,
           statusFilter,
           appointmentsOnly,
           hidePastAppointments,
@@ -1672,6 +1812,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // Full-text search over transcripts, summaries, keywords and tags
+  app.get(
+    "/api/calls/search",
+    requireAuth,
+    requireVerified,
+    requireSubscription,
+    async (req, res) => {
+      try {
+        const userId = req.user!.id;
+        const validation = callSearchQuerySchema.safeParse(req.query);
+        if (!validation.success) {
+          return res.status(400).json({
+            message: validation.error.errors[0]?.message || "Paramètres de recherche invalides",
+          });
+        }
+
+        // Same period filters as /api/calls
+        const timeZone = await storage.getUserTimezone(userId);
+        let analyticsQuery: ReturnType<typeof parseAnalyticsQuery>;
+        try {
+          analyticsQuery = parseAnalyticsQuery(req.query, timeZone);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        const { range } = analyticsQuery;
+        const period = typeof range === "string" ? undefined : range;
+
+        const results = await storage.searchCalls(userId, validation.data, {
+          timeFilter: typeof range === "string" ? range : undefined,
+          startDate: period?.start,
+          endDate: period?.end,
+        });
+        res.json(results);
+      } catch (error) {
+        console.error("Error searching calls:", error);
+        res
+          .status(500)
+          .json({ message: "Erreur lors de la recherche des appels" });
+      }
+    },
+  );
+
+  // Export calls as CSV or XLSX - same filters as /api/calls, streamed batch by batch
+  app.get(
+    "/api/calls/export",
+    requireAuth,
+    requireVerified,
+    requireSubscription,
+    async (req, res) => {
+      try {
+        const userId = req.user!.id;
+        const timeZone = await storage.getUserTimezone(userId);
+        const format = (req.query.format || "csv") as CallExportFormat;
+        if (!CALL_EXPORT_FORMATS.includes(format)) {
+          return res.status(400).json({
+            message: `Format invalide. Valeurs acceptées: ${CALL_EXPORT_FORMATS.join(", ")}`,
+          });
+        }
+
+        let columns: ReturnType<typeof resolveExportColumns>;
+        let analyticsQuery: ReturnType<typeof parseAnalyticsQuery>;
+        try {
+          columns = resolveExportColumns(req.query.columns);
+          analyticsQuery = parseAnalyticsQuery(req.query, timeZone);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        const { range } = analyticsQuery;
+        const period = typeof range === "string" ? undefined : range;
+
+        res.setHeader("Content-Type", CALL_EXPORT_CONTENT_TYPES[format]);
+        res.setHeader("Content-Disposition", `attachment; filename="${getCallExportFileName(format)}"`);
+
+        await writeCallExport(userId, res, {
+          format,
+          columns,
+          timeZone,
+          filters: {
+            timeFilter: typeof range === "string" ? range : undefined,
+            startDate: period?.start,
+            endDate: period?.end,
+            statusFilter: req.query.statusFilter as string | undefined,
+            appointmentsOnly: req.query.appointmentsOnly === "true",
+            hidePastAppointments: req.query.hidePastAppointments !== "false",
+          },
+        });
+      } catch (error) {
+        console.error("Error exporting calls:", error);
+        // Once the file has started, the only way to signal the failure is to cut the download
+        if (res.headersSent) {
+          return res.destroy();
+        }
+        res
+          .status(500)
+          .json({ message: "Erreur lors de l'export des appels" });
+      }
+    },
+  );
+
   // Get call detail by ID
   app.get(
     "/api/calls/:id",
@@ -1707,15 +1946,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req, res) => {
       try {
         const userId = req.user!.id;
-        const timeFilter = req.query.timeFilter as
-          | "hour"
-          | "today"
-          | "two_days"
-          | "week"
-          | undefined;
+        const timeZone = await storage.getUserTimezone(userId);
+        let analyticsQuery: ReturnType<typeof parseAnalyticsQuery>;
+        try {
+          analyticsQuery = parseAnalyticsQuery(req.query, timeZone);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+        const { range, compare } = analyticsQuery;
 
-        const chartData = await storage.getChartData(userId, timeFilter);
-        res.json(chartData);
+        const chartData = await storage.getChartData(userId, range, timeZone);
+        const currentPeriod = resolveTimePeriod(range, timeZone);
+        const previousPeriod = compare ? getPreviousPeriod(range, compare, timeZone) : null;
+        if (!currentPeriod || !previousPeriod) {
+          return res.json(chartData);
+        }
+
+        // Series aligned day by day: the n-th day of the range next to the n-th day of the comparison period
+        const previousData = await storage.getChartData(userId, previousPeriod, timeZone);
+        const emptyDay = { totalCalls: 0, completedCalls: 0, averageDuration: 0, outcomes: {} };
+        const currentByDate = new Map(chartData.map((row) => [row.date, row]));
+        const previousByDate = new Map(previousData.map((row) => [row.date, row]));
+        const previousDays = listDaysInPeriod(previousPeriod, timeZone);
+
+        res.json(
+          listDaysInPeriod(currentPeriod, timeZone).map((date, index) => {
+            const previousDate = previousDays[index];
+            return {
+              ...emptyDay,
+              ...currentByDate.get(date),
+              date,
+              previous: previousDate
+                ? { ...emptyDay, ...previousByDate.get(previousDate), date: previousDate }
+                : null,
+            };
+          }),
+        );
       } catch (error) {
         console.error("Error fetching chart data:", error);
         res.status(500).json({
@@ -1960,6 +2226,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // ===== PUBLIC API KEYS (/api/v1) =====
+
+  // The hash never leaves the server, the full key is only returned on creation
+  const serializeApiKey = ({ keyHash, ...apiKey }: ApiKey) => apiKey;
+
+  app.get(
+    "/api/account/api-keys",
+    requireAuth,
+    requireVerified,
+    requireSubscription,
+    async (req, res) => {
+      try {
+        const apiKeys = await storage.getApiKeys(req.user!.id);
+        res.json({ apiKeys: apiKeys.map(serializeApiKey), scopes: API_KEY_SCOPES });
+      } catch (error) {
+        console.error("Error fetching API keys:", error);
+        res.status(500).json({ message: "Erreur lors de la récupération des clés API" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/account/api-keys",
+    requireAuth,
+    requireVerified,
+    requireSubscription,
+    async (req, res) => {
+      try {
+        const data = createApiKeySchema.parse(req.body);
+        const { apiKey, keyPrefix, keyHash } = await generateScopedApiKey();
+
+        const created = await storage.createApiKey({
+          userId: req.user!.id,
+          name: data.name,
+          scopes: data.scopes,
+          rateLimitPerMinute: data.rateLimitPerMinute,
+          expiresAt: data.expiresAt ?? null,
+          keyPrefix,
+          keyHash,
+        });
+
+        res.status(201).json({
+          ...serializeApiKey(created),
+          apiKey, // Plain text - shown ONLY this one time
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Données invalides", errors: error.errors });
+        }
+        console.error("Error creating API key:", error);
+        res.status(500).json({ message: "Erreur lors de la création de la clé API" });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/account/api-keys/:id",
+    requireAuth,
+    requireVerified,
+    requireSubscription,
+    async (req, res) => {
+      try {
+        const updates = updateApiKeySchema.parse(req.body);
+
+        const existing = await storage.getApiKeyById(req.params.id, req.user!.id);
+        if (!existing) {
+          return res.status(404).json({ message: "Clé API non trouvée" });
+        }
+        if (existing.revokedAt) {
+          return res.status(409).json({ message: "Cette clé API est révoquée" });
+        }
+
+        const updated = await storage.updateApiKey(existing.id, req.user!.id, updates);
+        res.json(serializeApiKey(updated || existing));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Données invalides", errors: error.errors });
+        }
+        console.error("Error updating API key:", error);
+        res.status(500).json({ message: "Erreur lors de la mise à jour de la clé API" });
+      }
+    },
+  );
+
+  // Revocation is immediate and final - the key stays listed for its usage history
+  app.post(
+    "/api/account/api-keys/:id/revoke",
+    requireAuth,
+    requireVerified,
+    requireSubscription,
+    async (req, res) => {
+      try {
+        const existing = await storage.getApiKeyById(req.params.id, req.user!.id);
+        if (!existing) {
+          return res.status(404).json({ message: "Clé API non trouvée" });
+        }
+
+        const revoked = existing.revokedAt
+          ? existing
+          : await storage.updateApiKey(existing.id, req.user!.id, { revokedAt: new Date() });
+        res.json(serializeApiKey(revoked || existing));
+      } catch (error) {
+        console.error("Error revoking API key:", error);
+        res.status(500).json({ message: "Erreur lors de la révocation de la clé API" });
+      }
+    },
+  );
+
   // Get payment history
   app.get(
     "/api/account/payments",
@@ -2381,6 +2755,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           failedCallsEnabled: z.boolean().optional(),
           activeCallEnabled: z.boolean().optional(),
           subscriptionAlertsEnabled: z.boolean().optional(),
+          anomalyAlertsEnabled: z.boolean().optional(),
         });
 
         const data = schema.parse(req.body);
@@ -2590,6 +2965,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!report) {
           return res.status(404).json({ message: "Rapport introuvable" });
         }
+        if (!report.pdfPath) {
+          return res.status(404).json({ message: "PDF du rapport non disponible" });
+        }
 
         // Read PDF file
         const pdfBuffer = await fileStorage.read(report.pdfPath);
@@ -2646,7 +3024,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: report.status,
         pdfPath: report.pdfPath,
         emailedAt: report.emailedAt,
-        createdAt: report.createdAt,
+        createdAt: report.generatedAt,
         mbrData,
       });
     } catch (error) {
@@ -2713,6 +3091,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         startTime: new Date(),
         eventType: 'reservation',
         conversionResult: 'rdv',
+        ...(await classifyIncomingCall(userId, { eventType: 'reservation', conversionResult: 'rdv' })),
         callSuccessful: true,
         callAnswered: true,
         
@@ -2744,6 +3123,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Create call record
       const call = await storage.createCall(callData);
+      emitWebhookEvent(call.userId, 'call.created', callEventData(call));
+      queueMarketingContactSync(call);
 
       console.log(`✅ N8N Reservation: Créé avec succès - ID: ${call.id}`);
 
@@ -2826,7 +3207,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Content
         summary: data.summary,
-        transcript: data.transcript,
+        ...resolveTranscript(data.transcript, data.transcript_turns),
         tags: data.tags,
         
         // Appointment details (nullable for non-booking calls)
@@ -2876,6 +3257,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         wantsWaitlist: data.wants_waitlist ?? meta.wants_waitlist,
         waitlistSlotRequested: parseFlexibleDate(data.waitlist_slot_requested ?? meta.waitlist_slot_requested),
         
+        // Marketing consent asked during the call
+        marketingConsentEmail: data.marketing_consent_email ?? meta.marketing_consent_email,
+        marketingConsentSms: data.marketing_consent_sms ?? meta.marketing_consent_sms,
+        
         // Technical from metadata
         calendarId: meta.calendar_id,
         timezone: meta.timezone,
@@ -2886,6 +3271,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         metadata: data.metadata,
       };
       
+      // Canonical outcome and service type from the tenant's taxonomy
+      Object.assign(callData, await classifyIncomingCall(userId, callData));
+
       // Remove undefined values to avoid DB issues
       Object.keys(callData).forEach(key => {
         if (callData[key] === undefined) {
@@ -2894,6 +3282,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const call = await storage.createCall(callData);
+      emitWebhookEvent(call.userId, 'call.created', callEventData(call));
+      queueMarketingContactSync(call);
 
       // Auto-create or update SpeedAI client record based on agent_id
       if (data.agent_id) {
@@ -4074,6 +4464,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     companyAddress: z.string().max(500).nullable().optional(),
     companyPhone: z.string().max(20).nullable().optional(),
     smsEnabled: z.boolean().optional(), // Toggle SMS notifications
+    cardReminderEnabled: z.boolean().optional(),
+    cardReminderSteps: z.array(guaranteeReminderStepSchema).max(5).optional(),
+    cardReminderEmail: z.boolean().optional(),
+    cardReminderSms: z.boolean().optional(),
+    autoCancelPendingHours: z.number().int().min(1).max(72).nullable().optional(),
+    guaranteeMode: z.enum(GUARANTEE_MODES).optional(),
+    depositType: z.enum(GUARANTEE_DEPOSIT_TYPES).optional(),
+    depositAmount: z.number().int().min(1).max(500).optional(), // € par personne
+    depositPercent: z.number().int().min(1).max(100).optional(),
+    lateCancellationRefundPercent: z.number().int().min(0).max(100).optional(),
+    applicationRules: z.array(guaranteeRuleSchema).max(MAX_GUARANTEE_RULES).optional(),
+    noshowDetectionMode: z.enum(NOSHOW_DETECTION_MODES).optional(),
+    noshowDetectionSources: z.array(z.enum(GUARANTEE_CHECK_IN_SOURCES)).optional(),
+    noshowGraceMinutes: z.number().int().min(5).max(240).optional(),
+    noshowReviewHours: z.number().int().min(1).max(168).optional(),
   });
 
   const guaranteeSessionCreateSchema = z.object({
@@ -4095,16 +4500,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     company_email: z.string().email().optional(),
     timezone: z.string().default("Europe/Paris"),
     duration: z.number().int().optional(), // Durée en minutes
+    estimated_amount: z.number().positive().optional(), // Montant estimé en € (acompte en pourcentage)
     
     // Champs spécifiques garage
     vehicule: z.string().optional(),
     type_service: z.string().optional(),
   });
 
+  const guaranteeStatusQuerySchema = z.object({
+    reservation_date: z.string().min(1).optional(),
+    reservation_time: z.string().optional(),
+    timezone: z.string().optional(),
+    nb_persons: z.coerce.number().int().min(1).max(100).default(1),
+    type_service: z.string().optional(),
+    customer_email: z.string().optional(),
+    customer_phone: z.string().optional(),
+  });
+
   const guaranteeStatusUpdateSchema = z.object({
     status: z.enum(['attended', 'noshow']),
   });
 
+  // Arrival reported by N8N: calendar event marked done, or a POS pushing its check-ins
+  const guaranteeCheckInSchema = z.object({
+    session_id: z.string().optional(),
+    reservation_id: z.string().optional(),
+    calendar_event_id: z.string().optional(),
+    source: z.enum(['calendar', 'pos']).default('calendar'),
+    reference: z.string().max(200).optional(),
+  }).refine(data => data.session_id || data.reservation_id || data.calendar_event_id, {
+    message: "session_id, reservation_id ou calendar_event_id requis",
+  });
+
+  // Evidence fields the business may edit before submitting a dispute response
+  const guaranteeDisputeEvidenceSchema = z.object({
+    evidence: z.object({
+      customer_name: z.string().max(5000).optional(),
+      customer_email_address: z.string().max(5000).optional(),
+      service_date: z.string().max(5000).optional(),
+      product_description: z.string().max(20000).optional(),
+      cancellation_policy_disclosure: z.string().max(20000).optional(),
+      cancellation_rebuttal: z.string().max(20000).optional(),
+      uncategorized_text: z.string().max(20000).optional(),
+    }).optional(),
+  });
+
   // ===== EMAIL LOOKUP ENDPOINT (N8N) =====
   // Cascading email search: external_customers → marketing_contacts
   // GET /api/lookup-email?phone=+33612345678&agent_id=xxx
@@ -4170,6 +4610,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Check if guarantee is enabled for an agent (called by N8N before creating session)
   // GET /api/guarantee/status/:agent_id
+  // Optional reservation details (?reservation_date=&reservation_time=&nb_persons=&type_service=&customer_phone=&customer_email=)
+  // evaluate the application rules: the response then says whether a guarantee is required and which rule matched
   app.get("/api/guarantee/status/:agent_id", async (req, res) => {
     try {
       const { agent_id } = req.params;
@@ -4209,16 +4651,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      const activeRules = getActiveGuaranteeRules(config);
+      
+      let evaluation = null;
+      const reservationParams = guaranteeStatusQuerySchema.safeParse(req.query);
+      if (reservationParams.success && reservationParams.data.reservation_date) {
+        const query = reservationParams.data;
+        const resolution = await resolveGuaranteeRule(config, {
+          reservationDate: parseFrenchDate(query.reservation_date!),
+          reservationTime: query.reservation_time,
+          timezone: query.timezone,
+          nbPersons: query.nb_persons,
+          serviceType: query.type_service,
+          customerEmail: query.customer_email,
+          customerPhone: query.customer_phone,
+        });
+        evaluation = resolution.required
+          ? {
+              guarantee_required: true,
+              penalty_amount: resolution.penaltyAmount,
+              cancellation_delay: resolution.cancellationDelay,
+              matched_rule: resolution.rule && { id: resolution.rule.id, name: resolution.rule.name },
+            }
+          : { guarantee_required: false, reason: resolution.reason, message: resolution.message };
+      }
+      
       // Return enabled with config details
       res.json({
         guarantee_enabled: true,
         config: {
           penalty_amount: config.penaltyAmount,
           cancellation_delay: config.cancellationDelay,
-          apply_to: config.applyTo,
+          apply_to: activeRules.length > 0 ? 'rules' : config.applyTo,
           min_persons: config.minPersons,
           company_name: config.companyName,
-        }
+          rules: activeRules.map(rule => ({
+            id: rule.id,
+            name: rule.name,
+            penalty_amount: rule.penaltyAmount,
+            cancellation_delay: rule.cancellationDelay,
+          })),
+        },
+        ...(evaluation && { evaluation }),
       });
     } catch (error: any) {
       console.error('[Guarantee] Error checking status:', error);
@@ -4246,6 +4720,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
           applyTo: 'all',
           minPersons: 1,
           brandColor: '#C8B88A',
+          cardReminderEnabled: false,
+          cardReminderSteps: DEFAULT_GUARANTEE_REMINDER_STEPS,
+          cardReminderEmail: true,
+          cardReminderSms: false,
+          autoCancelPendingHours: null,
+          guaranteeMode: 'penalty',
+          depositType: 'fixed',
+          depositAmount: 20,
+          depositPercent: 30,
+          lateCancellationRefundPercent: 0,
+          applicationRules: [],
+          noshowDetectionMode: 'off',
+          noshowDetectionSources: ['qr'],
+          noshowGraceMinutes: 30,
+          noshowReviewHours: 24,
         },
         stripeConnected: !!config?.stripeAccountId,
         user: {
@@ -4362,18 +4851,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         nbPersons: 2,
         reservationDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Dans 7 jours
         reservationTime: '19:30',
-        status: 'pending' as const,
-        stripeSetupIntentId: null,
-        stripePaymentMethodId: null,
-        cardLast4: null,
-        cardBrand: null,
+        status: 'pending',
         penaltyAmount: config.penaltyAmount,
-        chargeAttempts: 0,
         chargedAt: null,
-        chargeAmount: null,
-        chargeError: null,
-        emailSentAt: null,
-        smsSentAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         agentId: null,
@@ -4385,7 +4865,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         duration: null,
         vehicule: null,
         typeService: null,
-      };
+      } as GuaranteeSession;
       
       const { sendCardRequestEmail } = await import('./services/guarantee-email.service');
       const testUrl = `${getFrontendUrl()}/guarantee/validate/test-session`;
@@ -4733,30 +5213,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Check applyTo conditions
+      // Check application rules (or the simple applyTo setting)
       const reservationDate = parseFrenchDate(data.reservation_date);
-      const dayOfWeek = reservationDate.getDay(); // 0 = Sunday, 6 = Saturday
-      const isWeekend = dayOfWeek === 0 || dayOfWeek === 5 || dayOfWeek === 6; // Fri, Sat, Sun
-      
-      if (config.applyTo === 'min_persons' && nbPersons < (config.minPersons || 4)) {
-        return res.json({
-          success: true,
-          guaranteeRequired: false,
-          reason: "min_persons_not_met",
-          message: `Garantie applicable à partir de ${config.minPersons} personnes`,
-          minPersonsRequired: config.minPersons,
-          actualPersons: nbPersons
-        });
-      }
+      const resolution = await resolveGuaranteeRule(config, {
+        reservationDate,
+        reservationTime: data.reservation_time,
+        timezone: data.timezone,
+        nbPersons,
+        serviceType: data.type_service,
+        customerEmail: data.customer_email,
+        customerPhone: data.customer_phone,
+      });
       
-      if (config.applyTo === 'weekend' && !isWeekend) {
+      if (!resolution.required) {
         return res.json({
           success: true,
           guaranteeRequired: false,
-          reason: "not_weekend",
-          message: "Garantie applicable uniquement les week-ends (vendredi, samedi, dimanche)"
+          reason: resolution.reason,
+          message: resolution.message,
+          ...(resolution.reason === 'min_persons_not_met' && {
+            minPersonsRequired: config.minPersons,
+            actualPersons: nbPersons,
+          }),
         });
       }
+      const { penaltyAmount, cancellationDelay } = resolution;
       
       if (!config.stripeAccountId) {
         return res.json({ 
@@ -4794,8 +5275,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         companyPhone: config.companyPhone || null,
         logoUrl: config.logoUrl || null,
         brandColor: config.brandColor || "#C8B88A",
-        penaltyAmount: config.penaltyAmount || 30,
-        cancellationDelay: config.cancellationDelay || 24,
+        penaltyAmount,
+        cancellationDelay,
         gmailSenderName: config.gmailSenderName || config.companyName || "Réservation",
         gmailSenderEmail: config.gmailSenderEmail || user?.email || null,
         termsUrl: config.termsUrl || null,
@@ -4822,17 +5303,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
             reservationTime: existingSession.reservationTime,
           },
           config: configResponse,
+          matchedRule: existingSession.matchedRuleId
+            ? { id: existingSession.matchedRuleId, name: existingSession.matchedRuleName }
+            : null,
           penalty: {
-            amountPerPerson: config.penaltyAmount || 30,
-            totalAmount: (config.penaltyAmount || 30) * existingSession.nbPersons,
+            amountPerPerson: existingSession.penaltyAmount,
+            totalAmount: existingSession.penaltyAmount * existingSession.nbPersons,
             currency: "EUR",
           },
+          deposit: isDepositSession(existingSession) ? {
+            amount: existingSession.depositAmount! / 100,
+            status: existingSession.depositStatus,
+            currency: "EUR",
+          } : null,
         });
       }
       
-      // Create Stripe Checkout session in setup mode
+      // Deposit mode: amount frozen on the session, paid at checkout
+      const depositAmount = computeDepositAmount(config, nbPersons, data.estimated_amount);
+      const guaranteeMode = depositAmount ? 'deposit' : 'penalty';
+      
+      // Create Stripe Checkout session (setup mode, or payment mode for a deposit)
       const checkoutSession = await stripe.checkout.sessions.create({
-        mode: 'setup',
+        ...guaranteeCheckoutModeParams(
+          { guaranteeMode, depositAmount, reservationDate },
+          config.companyName || 'Établissement',
+          { speedai_user_id: userId, reservation_id: data.reservation_id }
+        ),
         payment_method_types: ['card'],
         customer_email: data.customer_email,
         success_url: `${frontendUrl}/guarantee/confirmation?session_id={CHECKOUT_SESSION_ID}`,
@@ -4861,7 +5358,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reservationDate: parseFrenchDate(data.reservation_date),
         reservationTime: data.reservation_time,
         checkoutSessionId: checkoutSession.id,
-        penaltyAmount: config.penaltyAmount,
+        penaltyAmount,
+        cancellationDelay,
+        matchedRuleId: resolution.rule?.id,
+        matchedRuleName: resolution.rule?.name,
+        guaranteeMode,
+        depositAmount,
+        depositStatus: depositAmount ? 'pending' : null,
         shortCode: guaranteeShortCode,
         status: 'pending',
         // Agent/Business info for N8N callback
@@ -4918,7 +5421,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             config.companyName || 'Établissement',
             shortValidationUrl,
             parseFrenchDate(data.reservation_date),
-            nbPersons
+            nbPersons,
+            false,
+            session.depositAmount
           );
           notificationResults.smsSent = smsResult.success;
           if (!smsResult.success) {
@@ -4967,11 +5472,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
           reservationTime: data.reservation_time,
         },
         config: configResponse,
+        matchedRule: resolution.rule ? {
+          id: resolution.rule.id,
+          name: resolution.rule.name,
+          penaltyAmount: resolution.rule.penaltyAmount,
+          cancellationDelay: resolution.rule.cancellationDelay,
+        } : null,
         penalty: {
-          amountPerPerson: config.penaltyAmount || 30,
-          totalAmount: (config.penaltyAmount || 30) * nbPersons,
+          amountPerPerson: penaltyAmount,
+          totalAmount: penaltyAmount * nbPersons,
           currency: "EUR",
         },
+        deposit: depositAmount ? {
+          amount: depositAmount / 100,
+          status: 'pending',
+          currency: "EUR",
+        } : null,
         notifications: notificationResults,
       });
     } catch (error: any) {
@@ -4990,11 +5506,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user!.id;
       const period = (req.query.period as 'today' | 'week' | 'month') || 'week';
       
-      // Get all sessions
-      const allSessions = await storage.getGuaranteeSessions(userId, { period });
-      
-      // Separate by status
-      const pending = allSessions.filter(s => s.status === 'pending');
+      // Get all sessions - the no-shows to review are listed whatever the period
+      const [allSessions, config, reviewQueue] = await Promise.all([
+        storage.getGuaranteeSessions(userId, { period }),
+        storage.getGuaranteeConfig(userId),
+        storage.getNoshowReviewQueue(userId),
+      ]);
+      
+      // Separate by status - pending sessions come with their upcoming reminders / auto-cancel
+      const pending = allSessions
+        .filter(s => s.status === 'pending')
+        .map(s => ({ ...s, reminderSchedule: config ? getRemainingReminderSchedule(config, s) : [] }));
       const validated = allSessions.filter(s => s.status === 'validated');
       
       // Get today's validated reservations
@@ -5018,10 +5540,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         pending,
         validated,
         today: todayReservations,
+        reviewQueue,
         stats: {
           pendingCount: pending.length,
           validatedCount: validated.length,
           todayCount: todayReservations.length,
+          reviewCount: reviewQueue.length,
           validationRate,
         }
       });
@@ -5059,103 +5583,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Session non validée" });
       }
       
-      if (status === 'attended') {
-        // Mark as completed
-        await storage.updateGuaranteeSession(sessionId, {
-          status: 'completed',
-        });
-        
-        return res.json({ success: true, charged: false });
+      const config = await storage.getGuaranteeConfig(userId);
+      if (status === 'noshow' && !hasPaidDeposit(session) && !config?.stripeAccountId) {
+        return res.status(400).json({ message: "Compte Stripe non connecté" });
       }
       
-      if (status === 'noshow') {
-        // Get config for Stripe account
-        const config = await storage.getGuaranteeConfig(userId);
-        
-        if (!config?.stripeAccountId) {
-          return res.status(400).json({ message: "Compte Stripe non connecté" });
-        }
-        
-        try {
-          // Get the setup intent to retrieve payment method
-          const setupIntent = await stripe.setupIntents.retrieve(
-            session.setupIntentId!,
-            { stripeAccount: config.stripeAccountId }
-          );
-          
-          const paymentMethodId = setupIntent.payment_method as string;
-          
-          // Calculate amount in cents
-          const amountCents = session.penaltyAmount * session.nbPersons * 100;
-          
-          // Create and confirm PaymentIntent
-          const paymentIntent = await stripe.paymentIntents.create({
-            amount: amountCents,
-            currency: 'eur',
-            customer: session.customerStripeId || undefined,
-            payment_method: paymentMethodId,
-            confirm: true,
-            off_session: true,
-            description: `Pénalité no-show - Réservation du ${new Date(session.reservationDate).toLocaleDateString('fr-FR')}`,
-            metadata: {
-              reservation_id: session.reservationId,
-              session_id: sessionId,
-            },
-          }, {
-            stripeAccount: config.stripeAccountId,
-          });
-          
-          // Update session
-          await storage.updateGuaranteeSession(sessionId, {
-            status: 'noshow_charged',
-            chargedAmount: amountCents,
-            chargedAt: new Date(),
-            paymentMethodId,
-          });
-          
-          // Log charge
-          await storage.createNoshowCharge({
-            guaranteeSessionId: sessionId,
-            userId,
-            paymentIntentId: paymentIntent.id,
-            amount: amountCents,
-            currency: 'eur',
-            status: 'succeeded',
-          });
-          
-          return res.json({ 
-            success: true, 
-            charged: true,
-            amount: amountCents / 100,
-          });
-        } catch (stripeError: any) {
-          console.error('[Guarantee] Stripe charge failed:', stripeError);
-          
-          // Update session as failed
-          await storage.updateGuaranteeSession(sessionId, {
-            status: 'noshow_failed',
-          });
-          
-          // Log failed charge
-          await storage.createNoshowCharge({
-            guaranteeSessionId: sessionId,
-            userId,
-            amount: session.penaltyAmount * session.nbPersons * 100,
-            currency: 'eur',
-            status: 'failed',
-            failureReason: stripeError.message,
-          });
-          
-          return res.json({ 
-            success: false, 
-            error: stripeError.message,
-          });
-        }
+      res.json(await applyReservationOutcome(stripe, config, session, status));
+    } catch (error: any) {
+      console.error('[Guarantee] Error updating reservation status:', error);
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Customer arrival confirmed by scanning the QR code of the confirmation email
+  app.post("/api/guarantee/reservations/:id/check-in", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const session = await storage.getGuaranteeSessionById(req.params.id);
+      
+      if (!session || session.userId !== userId) {
+        return res.status(404).json({ message: "Session non trouvée" });
+      }
+      
+      const config = await storage.getGuaranteeConfig(userId);
+      if (!config || config.noshowDetectionMode === 'off' || !config.noshowDetectionSources.includes('qr')) {
+        return res.status(400).json({ message: "Le check-in par QR code n'est pas activé" });
       }
       
-      res.status(400).json({ message: "Statut invalide" });
+      const checkedIn = await recordCheckIn(session, 'qr');
+      if (!checkedIn) {
+        return res.status(400).json({ message: "Cette réservation est déjà clôturée" });
+      }
+      
+      res.json({ success: true, session: checkedIn });
     } catch (error: any) {
-      console.error('[Guarantee] Error updating reservation status:', error);
+      console.error('[Guarantee] Error checking in reservation:', error);
       res.status(500).json({ message: "Erreur serveur" });
     }
   });
@@ -5180,7 +5642,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Create new Stripe Checkout session
       const checkoutSession = await stripe.checkout.sessions.create({
-        mode: 'setup',
+        ...guaranteeCheckoutModeParams(session, config.companyName || 'Établissement', {
+          speedai_user_id: userId,
+          reservation_id: session.reservationId,
+        }),
         payment_method_types: ['card'],
         customer_email: session.customerEmail || undefined,
         success_url: `${process.env.PUBLIC_URL || process.env.FRONTEND_URL || 'https://vocaledash.com'}/guarantee/confirmation?session_id={CHECKOUT_SESSION_ID}`,
@@ -5225,11 +5690,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Session non trouvée" });
       }
       
-      await storage.updateGuaranteeSession(sessionId, {
-        status: 'cancelled',
-      });
+      // A paid deposit is refunded, in full or in part depending on how late the cancellation is
+      const cancellation = await cancelReservation(stripe, session);
+      if (!cancellation) {
+        return res.status(409).json({ message: "Cette réservation ne peut plus être annulée" });
+      }
       
-      res.json({ success: true });
+      res.json({
+        success: true,
+        deposit: cancellation.deposit && {
+          refunded: cancellation.deposit.refunded / 100,
+          retained: cancellation.deposit.retained / 100,
+        },
+      });
     } catch (error: any) {
       console.error('[Guarantee] Error cancelling session:', error);
       res.status(500).json({ message: "Erreur serveur" });
@@ -5279,6 +5752,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Evidence packet of a disputed charge, as stored (or rebuilt when it was never assembled)
+  app.get("/api/guarantee/disputes/:chargeId/evidence", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const charge = await storage.getNoshowChargeById(req.params.chargeId);
+
+      if (!charge || charge.userId !== userId || !charge.disputeId) {
+        return res.status(404).json({ message: "Litige non trouvé" });
+      }
+
+      let evidence = charge.disputeEvidence;
+      if (!evidence) {
+        const [session, config] = await Promise.all([
+          storage.getGuaranteeSessionById(charge.guaranteeSessionId),
+          storage.getGuaranteeConfig(userId),
+        ]);
+        evidence = session && config ? buildDisputeEvidence(charge, session, config) : {};
+      }
+
+      res.json({
+        evidence,
+        disputeStatus: charge.disputeStatus,
+        disputeReason: charge.disputeReason,
+        evidenceDueBy: charge.disputeEvidenceDueBy,
+        submittedAt: charge.disputeEvidenceSubmittedAt,
+        canSubmit: isDisputeOpen(charge.disputeStatus) && !charge.disputeEvidenceSubmittedAt,
+      });
+    } catch (error: any) {
+      console.error('[Guarantee] Error getting dispute evidence:', error);
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
+  // Submit the evidence packet (optionally edited) to Stripe
+  app.post("/api/guarantee/disputes/:chargeId/evidence", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const validationResult = guaranteeDisputeEvidenceSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Données invalides",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const charge = await storage.getNoshowChargeById(req.params.chargeId);
+      if (!charge || charge.userId !== userId || !charge.disputeId) {
+        return res.status(404).json({ message: "Litige non trouvé" });
+      }
+      if (!isDisputeOpen(charge.disputeStatus) || charge.disputeEvidenceSubmittedAt) {
+        return res.status(400).json({ message: "Ce litige n'attend plus de réponse" });
+      }
+
+      const [session, config] = await Promise.all([
+        storage.getGuaranteeSessionById(charge.guaranteeSessionId),
+        storage.getGuaranteeConfig(userId),
+      ]);
+      if (!config?.stripeAccountId) {
+        return res.status(400).json({ message: "Compte Stripe non connecté" });
+      }
+
+      const evidence = validationResult.data.evidence
+        || charge.disputeEvidence
+        || (session ? buildDisputeEvidence(charge, session, config) : null);
+      if (!evidence) {
+        return res.status(400).json({ message: "Dossier de preuves indisponible" });
+      }
+
+      try {
+        const updatedCharge = await submitDisputeEvidence(stripe, config, charge, evidence);
+        res.json({ success: true, charge: updatedCharge });
+      } catch (stripeError: any) {
+        console.error('[Guarantee] Stripe error submitting dispute evidence:', stripeError.message);
+        res.json({
+          success: false,
+          error: stripeError.message,
+        });
+      }
+    } catch (error: any) {
+      console.error('[Guarantee] Error submitting dispute evidence:', error);
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
   // ===== N8N GUARANTEE SESSION DETAILS (for workflow after CB validation) =====
   
   // Get session details for N8N workflow (after CB validation)
@@ -5370,8 +5927,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           companyPhone: config.companyPhone || null,
           logoUrl: config.logoUrl || null,
           brandColor: config.brandColor || '#C8B88A',
-          penaltyAmount: config.penaltyAmount,
-          cancellationDelay: config.cancellationDelay,
+          penaltyAmount: session.penaltyAmount,
+          cancellationDelay: session.cancellationDelay ?? config.cancellationDelay,
+          matchedRule: session.matchedRuleName,
           gmailSenderName: config.gmailSenderName || null,
           gmailSenderEmail: config.gmailSenderEmail || user?.email || null,
           calendarId: null, // Will be added when user connects their Google Calendar
@@ -5459,7 +6017,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // If booking was successful, update status to 'completed' (meaning full flow done)
       if (booking_status === 'success' || booking_status === 'booked') {
         // Note: We keep status as 'validated' since the CB is validated
-        // The calendar_event_id could be stored if we add that field to schema later
+        // The event id lets N8N report the arrival later (event marked done)
+        if (typeof calendar_event_id === 'string' && calendar_event_id) {
+          await storage.updateGuaranteeSession(session_id, { calendarEventId: calendar_event_id });
+        }
         console.log(`✅ [N8N] Calendar event created: ${calendar_event_id}`);
       } else if (booking_status === 'failed') {
         console.error(`❌ [N8N] Calendar booking failed for session ${session_id}:`, error_message);
@@ -5483,6 +6044,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ===== N8N CALLBACK: CUSTOMER ARRIVAL =====
+  // Called by N8N when the calendar event of a reservation is marked done (or a POS reports the check-in)
+  app.post("/api/guarantee/check-in", async (req, res) => {
+    try {
+      const authHeader = req.headers.authorization;
+      const N8N_MASTER_KEY = process.env.N8N_MASTER_API_KEY;
+      
+      if (!authHeader?.startsWith('Bearer ') || !N8N_MASTER_KEY || authHeader.substring(7) !== N8N_MASTER_KEY) {
+        return res.status(401).json({ 
+          success: false, 
+          error: "Invalid API key" 
+        });
+      }
+      
+      const validationResult = guaranteeCheckInSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          success: false, 
+          error: validationResult.error.errors[0]?.message || "Invalid payload" 
+        });
+      }
+      
+      const { session_id, reservation_id, calendar_event_id, source, reference } = validationResult.data;
+      const session = session_id
+        ? await storage.getGuaranteeSessionById(session_id)
+        : reservation_id
+        ? await storage.getGuaranteeSessionByReservationId(reservation_id)
+        : await storage.getGuaranteeSessionByCalendarEventId(calendar_event_id!);
+      
+      if (!session) {
+        return res.status(404).json({ 
+          success: false, 
+          error: "Session not found" 
+        });
+      }
+      
+      const config = await storage.getGuaranteeConfig(session.userId);
+      if (!config || config.noshowDetectionMode === 'off' || !config.noshowDetectionSources.includes(source)) {
+        return res.json({ success: false, error: `Check-in source ${source} not enabled` });
+      }
+      
+      const checkedIn = await recordCheckIn(session, source, reference || calendar_event_id || null);
+      if (!checkedIn) {
+        return res.json({ success: false, error: `Session is ${session.status}, check-in ignored` });
+      }
+      
+      console.log(`✅ [N8N] Session ${session.id} checked in (${source})`);
+      res.json({ 
+        success: true, 
+        session_id: checkedIn.id,
+        status: checkedIn.status,
+      });
+    } catch (error: any) {
+      console.error('[N8N] Error checking in reservation:', error);
+      res.status(500).json({ 
+        success: false, 
+        error: "Server error" 
+      });
+    }
+  });
+
   // ===== PUBLIC GUARANTEE PAGE =====
   
   // Get public session info (no auth required)
@@ -5521,7 +6143,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reservationDate: session.reservationDate,
         reservationTime: session.reservationTime,
         penaltyAmount: session.penaltyAmount,
-        cancellationDelay: config?.cancellationDelay || 24,
+        guaranteeMode: session.guaranteeMode,
+        depositAmount: session.depositAmount,
+        lateCancellationRefundPercent: config?.lateCancellationRefundPercent ?? 0,
+        cancellationDelay: session.cancellationDelay ?? config?.cancellationDelay ?? 24,
         logoUrl: config?.logoUrl,
         brandColor: config?.brandColor || '#C8B88A',
         companyName: config?.companyName,
@@ -5534,6 +6159,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Check-in QR code of the confirmation email (image, no auth): it opens the staff check-in page
+  app.get("/api/guarantee/public/session/:sessionId/check-in-qr", async (req, res) => {
+    try {
+      const session = await storage.getGuaranteeSessionById(req.params.sessionId);
+      
+      if (!session) {
+        return res.status(404).json({ message: "Session non trouvée" });
+      }
+      
+      const png = await QRCode.toBuffer(`${getFrontendUrl()}/guarantee/checkin/${session.id}`, { width: 320, margin: 1 });
+      res.set('Content-Type', 'image/png');
+      res.set('Cache-Control', 'public, max-age=86400');
+      res.send(png);
+    } catch (error: any) {
+      console.error('[Guarantee] Error generating check-in QR code:', error);
+      res.status(500).json({ message: "Erreur serveur" });
+    }
+  });
+
   // Get checkout URL for public page
   app.post("/api/guarantee/public/checkout/:sessionId", async (req, res) => {
     try {
@@ -5605,7 +6249,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         const newCheckoutSession = await stripe.checkout.sessions.create({
           payment_method_types: ['card'],
-          mode: 'setup',
           customer_email: session.customerEmail || undefined,
           success_url: `${frontendUrl}/guarantee/confirmation?session_id={CHECKOUT_SESSION_ID}`,
           cancel_url: `${frontendUrl}/guarantee/annulation?session_id=${sessionId}`,
@@ -5615,13 +6258,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             nb_persons: String(session.nbPersons || 1),
             total_penalty: String(totalAmount),
           },
-          setup_intent_data: {
-            metadata: {
-              guarantee_session_id: sessionId,
-              penalty_amount: String(session.penaltyAmount || 30),
-              nb_persons: String(session.nbPersons || 1),
-            },
-          },
+          ...guaranteeCheckoutModeParams(session, config.companyName || 'Établissement', {
+            guarantee_session_id: sessionId,
+            penalty_amount: String(session.penaltyAmount || 30),
+            nb_persons: String(session.nbPersons || 1),
+          }),
         }, {
           stripeAccount: config.stripeAccountId,
         });
@@ -5703,14 +6344,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const paymentMethodId = setupIntent?.payment_method?.id || setupIntent?.payment_method;
       const customerStripeId = stripeCheckoutSession.customer as string;
       
+      // Deposit mode: the checkout was a payment, the card comes with the PaymentIntent
+      const depositUpdates = stripeCheckoutSession.mode === 'payment' && stripeCheckoutSession.payment_intent
+        ? await recordDepositPayment(stripe, config.stripeAccountId, session, stripeCheckoutSession.payment_intent as string)
+        : {};
+      
       // Update session as validated with Stripe-verified data
-      await storage.updateGuaranteeSession(session.id, {
+      const validatedSession = await storage.updateGuaranteeSession(session.id, {
         status: 'validated',
         validatedAt: new Date(),
         setupIntentId: setupIntent?.id,
         customerStripeId: customerStripeId || null,
         paymentMethodId: paymentMethodId || null,
+        ...depositUpdates,
       });
+      if (validatedSession) {
+        emitWebhookEvent(validatedSession.userId, 'guarantee.validated', guaranteeEventData(validatedSession));
+      }
       
       // Send confirmation email and SMS
       try {
@@ -5751,7 +6401,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         // Calculate datetime for Google Calendar
-        const timezone = session.timezone || config.timezone || speedaiClient?.timezone || 'Europe/Paris';
+        const timezone = session.timezone || speedaiClient?.timezone || 'Europe/Paris';
         const reservationDate = new Date(session.reservationDate);
         
         // Parse reservation time (format: "HH:MM" or "HHhMM")
@@ -5791,7 +6441,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           payment_method_id: paymentMethodId,
           
           // ===== GOOGLE CALENDAR REQUIRED FIELDS =====
-          calendar_id: session.calendarId || config.calendarId || null,
+          calendar_id: session.calendarId || null,
           timeMin: dayStart.toISOString(),
           timeMax: dayEnd.toISOString(),
           timeZone: timezone,
@@ -5841,8 +6491,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // ===== TIMEZONE & CAPACITY =====
           timezone: timezone,
           max_capacity: config.minPersons || 1,
-          penalty_amount: config.penaltyAmount || 30,
-          cancellation_delay: config.cancellationDelay || 24,
+          penalty_amount: session.penaltyAmount,
+          cancellation_delay: session.cancellationDelay ?? config.cancellationDelay ?? 24,
+          matched_rule: session.matchedRuleName,
           
           // ===== BRANDING =====
           logo_url: config.logoUrl,
@@ -5859,14 +6510,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           // ===== SPEEDAI DASHBOARD ACCESS =====
           // Each client has their own API key and dashboard access
-          api_key: user?.apiKey || null, // Client's SpeedAI API key for N8N callbacks
+          api_key: null, // Only the key's hash is stored, N8N callbacks use the account's ingest key
           dashboard_url: process.env.FRONTEND_URL || 'https://vocaledash.com',
           user_id: session.userId,
           user_email: user?.email,
         };
         
         console.log(`[Guarantee] Triggering N8N Workflow 2 for calendar booking: ${session.id}`);
-        console.log(`[Guarantee] Calendar ID: ${session.calendarId || config.calendarId}, TimeZone: ${timezone}, Business: ${webhookPayload.business_type}`);
+        console.log(`[Guarantee] Calendar ID: ${session.calendarId}, TimeZone: ${timezone}, Business: ${webhookPayload.business_type}`);
         
         const n8nResponse = await fetch(n8nWebhookUrl, {
           method: 'POST',
@@ -5941,7 +6592,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Find and update the session
-      const session = await storage.getGuaranteeSession(session_id);
+      const session = await storage.getGuaranteeSessionById(session_id);
       
       if (!session) {
         console.error(`[Guarantee] Session not found: ${session_id}`);
@@ -6244,7 +6895,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               request.customerName || 'Client',
               companyName,
               reviewLink,
-              incentive?.displayMessage
+              incentive?.displayMessage || undefined
             );
             
             if (smsResult.success) {
@@ -7010,7 +7661,7 @@ Réponds en JSON avec ce format exact:
       const config = await storage.getReviewConfig(request.userId);
       if (config) {
         const updatedRequest = { ...request, promoCode };
-        sendThankYouMessage(updatedRequest, config, incentive).catch((err) => {
+        sendThankYouMessage(updatedRequest, config, incentive || null).catch((err) => {
           console.error("[Reviews] Thank you message failed:", err);
         });
       }
@@ -7070,11 +7721,11 @@ Réponds en JSON avec ce format exact:
       res.json({
         reviews: reviews.map(r => ({
           id: r.id,
-          authorName: r.authorName,
+          authorName: r.reviewerName,
           rating: r.rating,
           content: r.content,
           platform: r.platform,
-          publishedAt: r.publishedAt,
+          publishedAt: r.reviewDate,
         })),
         stats: {
           globalScore: stats.globalScore,
@@ -7514,10 +8165,7 @@ Réponds en JSON avec ce format exact:
   // Get all connected review sources for user
   app.get("/api/reviews/sources", requireAuth, async (req, res) => {
     try {
-      const userId = req.session?.userId;
-      if (!userId) {
-        return res.status(401).json({ message: "Non authentifié" });
-      }
+      const userId = req.user!.id;
 
       const sources = await storage.getReviewSources(userId);
       res.json(sources);
@@ -7530,10 +8178,7 @@ Réponds en JSON avec ce format exact:
   // Connect TripAdvisor (URL-based, no OAuth)
   app.post("/api/reviews/sources/tripadvisor/connect", requireAuth, async (req, res) => {
     try {
-      const userId = req.session?.userId;
-      if (!userId) {
-        return res.status(401).json({ message: "Non authentifié" });
-      }
+      const userId = req.user!.id;
 
       const { tripadvisorUrl, displayName } = req.body;
 
@@ -7624,10 +8269,7 @@ Réponds en JSON avec ce format exact:
   // Disconnect a review source
   app.delete("/api/reviews/sources/:sourceId", requireAuth, async (req, res) => {
     try {
-      const userId = req.session?.userId;
-      if (!userId) {
-        return res.status(401).json({ message: "Non authentifié" });
-      }
+      const userId = req.user!.id;
 
       const { sourceId } = req.params;
       
@@ -7650,10 +8292,7 @@ Réponds en JSON avec ce format exact:
   // Trigger manual sync for a source
   app.post("/api/reviews/sources/:sourceId/sync", requireAuth, async (req, res) => {
     try {
-      const userId = req.session?.userId;
-      if (!userId) {
-        return res.status(401).json({ message: "Non authentifié" });
-      }
+      const userId = req.user!.id;
 
       const { sourceId } = req.params;
       
@@ -7688,10 +8327,7 @@ Réponds en JSON avec ce format exact:
   // Get sync logs for a source
   app.get("/api/reviews/sources/:sourceId/logs", requireAuth, async (req, res) => {
     try {
-      const userId = req.session?.userId;
-      if (!userId) {
-        return res.status(401).json({ message: "Non authentifié" });
-      }
+      const userId = req.user!.id;
 
       const { sourceId } = req.params;
       
@@ -7711,10 +8347,7 @@ Réponds en JSON avec ce format exact:
   // Get all recent sync logs for user
   app.get("/api/reviews/sync-logs", requireAuth, async (req, res) => {
     try {
-      const userId = req.session?.userId;
-      if (!userId) {
-        return res.status(401).json({ message: "Non authentifié" });
-      }
+      const userId = req.user!.id;
 
       const sources = await storage.getReviewSources(userId);
       const allLogs = [];
@@ -7725,7 +8358,7 @@ Réponds en JSON avec ce format exact:
       }
 
       // Sort by date descending
-      allLogs.sort((a, b) => new Date(b.syncedAt).getTime() - new Date(a.syncedAt).getTime());
+      allLogs.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
       
       res.json(allLogs.slice(0, 20));
     } catch (error: any) {
@@ -7737,10 +8370,7 @@ Réponds en JSON avec ce format exact:
   // Sync all sources at once
   app.post("/api/reviews/sources/sync-all", requireAuth, async (req, res) => {
     try {
-      const userId = req.session?.userId;
-      if (!userId) {
-        return res.status(401).json({ message: "Non authentifié" });
-      }
+      const userId = req.user!.id;
 
       const sources = await storage.getReviewSources(userId);
       const activeSources = sources.filter(s => s.connectionStatus === 'connected');
@@ -8258,6 +8888,27 @@ Réponds en JSON avec ce format exact:
   // Register waitlist calendar routes
   app.use("/api/waitlist/calendar", waitlistCalendarRoutes);
 
+  // Register outbound webhook endpoints routes
+  app.use("/api/webhook-endpoints", webhookEndpointsRoutes);
+
+  // Register public REST API (named API keys with scopes)
+  app.use("/api/v1", publicApiRoutes);
+
+  // Register scheduled call export routes
+  app.use("/api/call-export-schedules", callExportSchedulesRoutes);
+
+  // Register customer profile routes (cross-module timeline)
+  app.use("/api/customers", customersRoutes);
+
+  // Register call QA routes (reviewer queue, scorecards, trends)
+  app.use("/api/call-qa", callQaRoutes);
+
+  // Register call outcome taxonomy routes (per-tenant outcomes and service types)
+  app.use("/api/call-taxonomy", callTaxonomyRoutes);
+
+  // Register revenue attribution routes (calls and reservations linked to real orders)
+  app.use("/api/revenue-attribution", revenueAttributionRoutes);
+
   const httpServer = createServer(app);
 
   return httpServer;
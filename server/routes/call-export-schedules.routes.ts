@@ -0,0 +1,104 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth, requireVerified, requireSubscription } from '../auth';
+import { callExportScheduleSchema } from '@shared/schema';
+import { getNextWeeklyRun } from '../services/call-export.service';
+
+const router = Router();
+
+const RECIPIENT_NOT_IN_TEAM = 'Le destinataire doit être un membre vérifié de votre équipe';
+
+// Exports carry call data: they can only be sent to a verified address of the account or its team
+async function isTeamRecipient(userId: string, email: string): Promise<boolean> {
+  const teamEmails = await storage.getVerifiedTeamEmails(userId);
+  return teamEmails.includes(email.toLowerCase());
+}
+
+router.get('/', requireAuth, requireVerified, requireSubscription, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const schedules = await storage.getCallExportSchedules(userId);
+    res.json(schedules);
+  } catch (error: any) {
+    console.error('[CallExportSchedulesAPI] Error listing schedules:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.post('/', requireAuth, requireVerified, requireSubscription, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const data = callExportScheduleSchema.parse(req.body);
+    if (!await isTeamRecipient(userId, data.recipientEmail)) {
+      return res.status(400).json({ error: RECIPIENT_NOT_IN_TEAM });
+    }
+    const timeZone = await storage.getUserTimezone(userId);
+
+    const schedule = await storage.createCallExportSchedule({
+      userId,
+      name: data.name,
+      format: data.format,
+      columns: data.columns,
+      filters: data.filters,
+      recipientEmail: data.recipientEmail,
+      dayOfWeek: data.dayOfWeek,
+      hour: data.hour,
+      isActive: data.isActive ?? true,
+      nextRunAt: getNextWeeklyRun(data.dayOfWeek, data.hour, timeZone),
+    });
+
+    res.status(201).json(schedule);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Données invalides', details: error.errors });
+    }
+    console.error('[CallExportSchedulesAPI] Error creating schedule:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.patch('/:id', requireAuth, requireVerified, requireSubscription, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const data = callExportScheduleSchema.partial().parse(req.body);
+    if (data.recipientEmail && !await isTeamRecipient(userId, data.recipientEmail)) {
+      return res.status(400).json({ error: RECIPIENT_NOT_IN_TEAM });
+    }
+
+    const existing = await storage.getCallExportScheduleById(req.params.id, userId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Export planifié non trouvé' });
+    }
+
+    // Moving the day or hour reschedules the next delivery
+    const dayOfWeek = data.dayOfWeek ?? existing.dayOfWeek;
+    const hour = data.hour ?? existing.hour;
+    const rescheduled = dayOfWeek !== existing.dayOfWeek || hour !== existing.hour || (data.isActive && !existing.isActive);
+    const nextRunAt = rescheduled
+      ? getNextWeeklyRun(dayOfWeek, hour, await storage.getUserTimezone(userId))
+      : existing.nextRunAt;
+
+    const schedule = await storage.updateCallExportSchedule(req.params.id, userId, { ...data, nextRunAt });
+    res.json(schedule);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Données invalides', details: error.errors });
+    }
+    console.error('[CallExportSchedulesAPI] Error updating schedule:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.delete('/:id', requireAuth, requireVerified, requireSubscription, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    await storage.deleteCallExportSchedule(req.params.id, userId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[CallExportSchedulesAPI] Error deleting schedule:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+export default router;
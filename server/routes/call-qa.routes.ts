@@ -0,0 +1,211 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth } from '../auth';
+import {
+  CALL_QA_QUEUE_REASONS,
+  callQaScorecardSchema,
+  callQaReviewSchema,
+  callQaAnnotationSchema,
+  type CallQaQueueReason,
+} from '@shared/schema';
+import { parseAnalyticsQuery, resolveTimePeriod } from '../call-analytics.utils';
+import {
+  getEffectiveScorecard,
+  getCallQaReasons,
+  computeOverallScore,
+  getCallQaTrends,
+  getDefaultTrendPeriod,
+} from '../services/call-qa.service';
+
+const router = Router();
+
+const MAX_QUEUE_PAGE_SIZE = 100;
+
+router.get('/scorecard', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    res.json(await getEffectiveScorecard(userId));
+  } catch (error: any) {
+    console.error('[CallQaAPI] Error fetching scorecard:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.put('/scorecard', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const data = callQaScorecardSchema.parse(req.body);
+    const tenantId = await storage.getEffectiveTenantId({ userId });
+    const scorecard = await storage.upsertCallQaScorecard({ userId, tenantId }, data);
+    res.json({ criteria: scorecard.criteria, lowConfidenceThreshold: scorecard.lowConfidenceThreshold });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Données invalides', details: error.errors });
+    }
+    console.error('[CallQaAPI] Error saving scorecard:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.get('/queue', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const reason = req.query.reason as CallQaQueueReason | undefined;
+    if (reason !== undefined && !CALL_QA_QUEUE_REASONS.includes(reason)) {
+      return res.status(400).json({ error: `Motif invalide. Valeurs acceptées: ${CALL_QA_QUEUE_REASONS.join(', ')}` });
+    }
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(MAX_QUEUE_PAGE_SIZE, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+    const { lowConfidenceThreshold } = await getEffectiveScorecard(userId);
+    const { calls, total } = await storage.getCallQaQueue(userId, {
+      threshold: lowConfidenceThreshold,
+      reason,
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    res.json({
+      items: calls.map(call => ({ call, reasons: getCallQaReasons(call, lowConfidenceThreshold) })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error: any) {
+    console.error('[CallQaAPI] Error fetching queue:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.get('/trends', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const timeZone = await storage.getUserTimezone(userId);
+    let period;
+    try {
+      period = resolveTimePeriod(parseAnalyticsQuery(req.query, timeZone).range, timeZone) || getDefaultTrendPeriod(timeZone);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const { criteria } = await getEffectiveScorecard(userId);
+    res.json({ criteria, ...(await getCallQaTrends(userId, period, timeZone, criteria)) });
+  } catch (error: any) {
+    console.error('[CallQaAPI] Error computing trends:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.get('/calls/:callId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const call = await storage.getCallById(req.params.callId, userId);
+    if (!call) {
+      return res.status(404).json({ error: 'Appel non trouvé' });
+    }
+
+    const [scorecard, review, annotations] = await Promise.all([
+      getEffectiveScorecard(userId),
+      storage.getCallQaReview(call.id, userId),
+      storage.getCallQaAnnotations(call.id, userId),
+    ]);
+    res.json({
+      call,
+      reasons: getCallQaReasons(call, scorecard.lowConfidenceThreshold),
+      // A reviewed call keeps the rubric it was scored with
+      criteria: review?.criteria || scorecard.criteria,
+      review: review || null,
+      annotations,
+    });
+  } catch (error: any) {
+    console.error('[CallQaAPI] Error fetching call review:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.put('/calls/:callId/review', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const data = callQaReviewSchema.parse(req.body);
+    const call = await storage.getCallById(req.params.callId, userId);
+    if (!call) {
+      return res.status(404).json({ error: 'Appel non trouvé' });
+    }
+
+    // Re-scoring a reviewed call keeps its original rubric, as shown in the review screen
+    const existing = await storage.getCallQaReview(call.id, userId);
+    const criteria = existing?.criteria || (await getEffectiveScorecard(userId)).criteria;
+    let overallScore: number;
+    try {
+      overallScore = computeOverallScore(criteria, data.scores);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const review = await storage.upsertCallQaReview({
+      callId: call.id,
+      userId,
+      reviewerId: userId,
+      criteria,
+      scores: data.scores,
+      overallScore,
+      notes: data.notes ?? null,
+    });
+    res.json(review);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Données invalides', details: error.errors });
+    }
+    console.error('[CallQaAPI] Error saving review:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.post('/calls/:callId/annotations', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const data = callQaAnnotationSchema.parse(req.body);
+    const call = await storage.getCallById(req.params.callId, userId);
+    if (!call) {
+      return res.status(404).json({ error: 'Appel non trouvé' });
+    }
+    if (!call.transcript || data.endOffset > call.transcript.length) {
+      return res.status(400).json({ error: 'Le passage ne correspond pas à la transcription' });
+    }
+
+    const annotation = await storage.createCallQaAnnotation({
+      callId: call.id,
+      userId,
+      authorId: userId,
+      startOffset: data.startOffset,
+      endOffset: data.endOffset,
+      quote: call.transcript.slice(data.startOffset, data.endOffset),
+      category: data.category,
+      comment: data.comment,
+    });
+    res.status(201).json(annotation);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Données invalides', details: error.errors });
+    }
+    console.error('[CallQaAPI] Error creating annotation:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.delete('/annotations/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const deleted = await storage.deleteCallQaAnnotation(req.params.id, userId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Annotation non trouvée' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[CallQaAPI] Error deleting annotation:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+export default router;
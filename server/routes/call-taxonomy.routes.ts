@@ -0,0 +1,40 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth } from '../auth';
+import { callTaxonomySchema } from '@shared/schema';
+import { getEffectiveTaxonomy, reclassifyCalls } from '../services/call-taxonomy.service';
+
+const router = Router();
+
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    res.json(await getEffectiveTaxonomy({ userId }));
+  } catch (error: any) {
+    console.error('[CallTaxonomyAPI] Error fetching taxonomy:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+// Saving re-applies the taxonomy to past calls, so stats and charts use the new outcomes right away
+router.put('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const data = callTaxonomySchema.parse(req.body);
+    const tenantId = await storage.getEffectiveTenantId({ userId });
+    await storage.upsertCallTaxonomy({ userId, tenantId }, data);
+
+    const taxonomy = await getEffectiveTaxonomy({ userId, tenantId });
+    const reclassifiedCalls = await reclassifyCalls({ userId, tenantId }, taxonomy);
+    res.json({ ...taxonomy, reclassifiedCalls });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Données invalides', details: error.errors });
+    }
+    console.error('[CallTaxonomyAPI] Error saving taxonomy:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+export default router;
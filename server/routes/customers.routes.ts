@@ -0,0 +1,25 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../auth';
+import { getCustomerProfile } from '../services/customer-profile.service';
+
+const router = Router();
+
+router.get('/profile', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const phone = typeof req.query.phone === 'string' ? req.query.phone : undefined;
+    const email = typeof req.query.email === 'string' ? req.query.email : undefined;
+
+    const profile = await getCustomerProfile(userId, { phone, email });
+    if (!profile) {
+      return res.status(400).json({ error: 'Un numéro de téléphone ou un email valide est requis' });
+    }
+
+    res.json(profile);
+  } catch (error: any) {
+    console.error('[CustomersAPI] Error building customer profile:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+export default router;
@@ -0,0 +1,372 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireScopedApiKey, requireScope } from '../api-key-auth';
+import { stripe } from './middleware';
+import { insertMarketingContactSchema, type Call, type GuaranteeSession, type MarketingContact, type Review } from '@shared/schema';
+import { emitWebhookEvent, callEventData } from '../services/outbound-webhook.service';
+import { queueMarketingContactSync } from '../services/marketing-contact-sync.service';
+import { classifyIncomingCall } from '../services/call-taxonomy.service';
+import { cancelReservation } from '../services/guarantee-deposit.service';
+import { applyReservationOutcome } from '../services/guarantee-noshow.service';
+
+// Public REST API (v1) - authenticated with named API keys, each route requires a scope
+const router = Router();
+
+router.use(requireScopedApiKey);
+
+const MAX_PAGE_SIZE = 100;
+
+const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(20),
+});
+
+const createCallSchema = z.object({
+  phoneNumber: z.string().min(1, "Numéro de téléphone requis"),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date().optional(),
+  duration: z.number().int().min(0).optional(),
+  status: z.enum(['active', 'completed', 'failed', 'canceled', 'no_answer']),
+  callId: z.string().optional(),
+  agentId: z.string().optional(),
+  eventType: z.string().optional(),
+  conversionResult: z.string().optional(),
+  serviceType: z.string().optional(),
+  summary: z.string().optional(),
+  transcript: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  clientName: z.string().optional(),
+  clientEmail: z.string().email().optional(),
+  appointmentDate: z.coerce.date().optional(),
+  nbPersonnes: z.number().int().min(1).optional(),
+  recordingUrl: z.string().url().optional(),
+  marketingConsentEmail: z.boolean().optional(), // Only when the caller was explicitly asked
+  marketingConsentSms: z.boolean().optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+const reservationActionSchema = z.object({
+  action: z.enum(['attended', 'cancel']),
+});
+
+const updateReviewSchema = z.object({
+  isRead: z.boolean().optional(),
+  isFlagged: z.boolean().optional(),
+  responseText: z.string().max(4000).optional(),
+});
+
+const contactWriteSchema = insertMarketingContactSchema.omit({ userId: true, tenantId: true });
+
+// Internal columns (owner, Stripe references) are never exposed
+const serializeCall = ({ userId, tenantId, ...call }: Call) => call;
+
+const serializeReservation = ({
+  userId, tenantId, checkoutSessionId, setupIntentId, paymentMethodId, customerStripeId, ...session
+}: GuaranteeSession) => session;
+
+const serializeReview = ({ userId, tenantId, ...review }: Review) => review;
+
+const serializeContact = ({ userId, tenantId, ...contact }: MarketingContact) => contact;
+
+function handleError(res: Response, error: any, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Données invalides', details: error.errors });
+  }
+  console.error(`[PublicAPI] ${context}:`, error);
+  res.status(500).json({ error: 'Erreur serveur' });
+}
+
+// ===== CALLS =====
+
+router.get('/calls', requireScope('read:calls'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { page, limit } = paginationSchema.parse(req.query);
+    const filters = z.object({
+      status: z.string().optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+    }).parse(req.query);
+
+    const result = await storage.getCalls(userId, {
+      statusFilter: filters.status,
+      startDate: filters.from,
+      endDate: filters.to,
+      page,
+      limit,
+    });
+
+    res.json({
+      data: result.calls.map(serializeCall),
+      page,
+      limit,
+      total: result.total,
+      hasMore: page < result.totalPages,
+    });
+  } catch (error: any) {
+    handleError(res, error, 'Error listing calls');
+  }
+});
+
+router.get('/calls/:id', requireScope('read:calls'), async (req: Request, res: Response) => {
+  try {
+    const call = await storage.getCallById(req.params.id, (req as any).user.id);
+    if (!call) {
+      return res.status(404).json({ error: 'Appel non trouvé' });
+    }
+    res.json({ data: serializeCall(call) });
+  } catch (error: any) {
+    handleError(res, error, 'Error fetching call');
+  }
+});
+
+router.post('/calls', requireScope('write:calls'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const data = createCallSchema.parse(req.body);
+
+    const call = await storage.createCall({ ...data, ...(await classifyIncomingCall(userId, data)), userId });
+    emitWebhookEvent(userId, 'call.created', callEventData(call));
+    queueMarketingContactSync(call);
+
+    res.status(201).json({ data: serializeCall(call) });
+  } catch (error: any) {
+    handleError(res, error, 'Error creating call');
+  }
+});
+
+// ===== RESERVATIONS (guarantee sessions) =====
+
+router.get('/reservations', requireScope('read:reservations'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { page, limit } = paginationSchema.parse(req.query);
+    const filters = z.object({
+      status: z.string().optional(),
+      period: z.enum(['today', 'week', 'month']).optional(),
+    }).parse(req.query);
+
+    const sessions = await storage.getGuaranteeSessions(userId, filters);
+    const offset = (page - 1) * limit;
+
+    res.json({
+      data: sessions.slice(offset, offset + limit).map(serializeReservation),
+      page,
+      limit,
+      total: sessions.length,
+      hasMore: offset + limit < sessions.length,
+    });
+  } catch (error: any) {
+    handleError(res, error, 'Error listing reservations');
+  }
+});
+
+router.get('/reservations/:id', requireScope('read:reservations'), async (req: Request, res: Response) => {
+  try {
+    const session = await storage.getGuaranteeSessionById(req.params.id);
+    if (!session || session.userId !== (req as any).user.id) {
+      return res.status(404).json({ error: 'Réservation non trouvée' });
+    }
+    res.json({ data: serializeReservation(session) });
+  } catch (error: any) {
+    handleError(res, error, 'Error fetching reservation');
+  }
+});
+
+// No-show penalties are charged from the dashboard only - the API can close or cancel a reservation
+router.post('/reservations/:id/status', requireScope('write:reservations'), async (req: Request, res: Response) => {
+  try {
+    const { action } = reservationActionSchema.parse(req.body);
+
+    const session = await storage.getGuaranteeSessionById(req.params.id);
+    if (!session || session.userId !== (req as any).user.id) {
+      return res.status(404).json({ error: 'Réservation non trouvée' });
+    }
+
+    // Same settlement as the dashboard: the paid deposit is deducted from the bill, or refunded per the cancellation rules
+    if (action === 'attended') {
+      if (session.status !== 'validated') {
+        return res.status(409).json({ error: 'Seule une réservation validée peut être marquée comme honorée' });
+      }
+      const config = await storage.getGuaranteeConfig(session.userId);
+      await applyReservationOutcome(stripe, config, session, 'attended');
+      const updated = await storage.getGuaranteeSessionById(session.id);
+      return res.json({ data: serializeReservation(updated || session) });
+    }
+
+    const cancellation = await cancelReservation(stripe, session);
+    if (!cancellation) {
+      return res.status(409).json({ error: 'Cette réservation ne peut plus être annulée' });
+    }
+    res.json({ data: serializeReservation(cancellation.session) });
+  } catch (error: any) {
+    handleError(res, error, 'Error updating reservation');
+  }
+});
+
+// ===== REVIEWS =====
+
+router.get('/reviews', requireScope('read:reviews'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { page, limit } = paginationSchema.parse(req.query);
+    const filters = z.object({
+      platform: z.string().optional(),
+      ratingMin: z.coerce.number().int().min(1).max(5).optional(),
+      ratingMax: z.coerce.number().int().min(1).max(5).optional(),
+      sentiment: z.string().optional(),
+    }).parse(req.query);
+
+    // One extra row tells whether another page exists
+    const reviews = await storage.getReviews(userId, { ...filters, limit: limit + 1, offset: (page - 1) * limit });
+
+    res.json({
+      data: reviews.slice(0, limit).map(serializeReview),
+      page,
+      limit,
+      hasMore: reviews.length > limit,
+    });
+  } catch (error: any) {
+    handleError(res, error, 'Error listing reviews');
+  }
+});
+
+router.get('/reviews/:id', requireScope('read:reviews'), async (req: Request, res: Response) => {
+  try {
+    const review = await storage.getReviewById(req.params.id, (req as any).user.id);
+    if (!review) {
+      return res.status(404).json({ error: 'Avis non trouvé' });
+    }
+    res.json({ data: serializeReview(review) });
+  } catch (error: any) {
+    handleError(res, error, 'Error fetching review');
+  }
+});
+
+// A response written through the API is saved as a draft, publishing stays in the dashboard
+router.patch('/reviews/:id', requireScope('write:reviews'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { responseText, ...flags } = updateReviewSchema.parse(req.body);
+
+    const review = await storage.updateReview(req.params.id, userId, {
+      ...flags,
+      ...(responseText !== undefined ? { responseText, responseStatus: 'draft' } : {}),
+    });
+    if (!review) {
+      return res.status(404).json({ error: 'Avis non trouvé' });
+    }
+    res.json({ data: serializeReview(review) });
+  } catch (error: any) {
+    handleError(res, error, 'Error updating review');
+  }
+});
+
+// ===== CONTACTS =====
+
+router.get('/contacts', requireScope('read:contacts'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { page, limit } = paginationSchema.parse(req.query);
+    const { search, source } = z.object({
+      search: z.string().optional(),
+      source: z.string().optional(),
+    }).parse(req.query);
+
+    const contacts = await storage.getMarketingContacts(userId, { search, source, limit: limit + 1, offset: (page - 1) * limit });
+
+    res.json({
+      data: contacts.slice(0, limit).map(serializeContact),
+      page,
+      limit,
+      hasMore: contacts.length > limit,
+    });
+  } catch (error: any) {
+    handleError(res, error, 'Error listing contacts');
+  }
+});
+
+router.get('/contacts/:id', requireScope('read:contacts'), async (req: Request, res: Response) => {
+  try {
+    const contact = await storage.getMarketingContactById(req.params.id, (req as any).user.id);
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact non trouvé' });
+    }
+    res.json({ data: serializeContact(contact) });
+  } catch (error: any) {
+    handleError(res, error, 'Error fetching contact');
+  }
+});
+
+router.post('/contacts', requireScope('write:contacts'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const data = contactWriteSchema.parse({ source: 'api', ...req.body });
+
+    if (!data.email && !data.phone) {
+      return res.status(400).json({ error: 'Un email ou un téléphone est requis' });
+    }
+    if (data.email && await storage.getMarketingContactByEmail(userId, data.email)) {
+      return res.status(409).json({ error: 'Un contact avec cet email existe déjà' });
+    }
+    if (data.phone && await storage.getMarketingContactByPhone(userId, data.phone)) {
+      return res.status(409).json({ error: 'Un contact avec ce numéro existe déjà' });
+    }
+
+    const contact = await storage.createMarketingContact({ ...data, userId });
+
+    if (contact.optInEmail) {
+      await storage.createConsentHistory(contact.id, 'opt_in', 'email', 'api', req.ip, req.headers['user-agent']);
+    }
+    if (contact.optInSms) {
+      await storage.createConsentHistory(contact.id, 'opt_in', 'sms', 'api', req.ip, req.headers['user-agent']);
+    }
+
+    res.status(201).json({ data: serializeContact(contact) });
+  } catch (error: any) {
+    handleError(res, error, 'Error creating contact');
+  }
+});
+
+router.patch('/contacts/:id', requireScope('write:contacts'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const updates = contactWriteSchema.partial().parse(req.body);
+
+    const existing = await storage.getMarketingContactById(req.params.id, userId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Contact non trouvé' });
+    }
+
+    // Same consent audit trail as the dashboard
+    if (updates.optInEmail !== undefined && updates.optInEmail !== existing.optInEmail) {
+      await storage.createConsentHistory(existing.id, updates.optInEmail ? 'opt_in' : 'opt_out', 'email', 'api', req.ip, req.headers['user-agent']);
+    }
+    if (updates.optInSms !== undefined && updates.optInSms !== existing.optInSms) {
+      await storage.createConsentHistory(existing.id, updates.optInSms ? 'opt_in' : 'opt_out', 'sms', 'api', req.ip, req.headers['user-agent']);
+    }
+
+    const contact = await storage.updateMarketingContact(existing.id, userId, updates);
+    res.json({ data: serializeContact(contact || existing) });
+  } catch (error: any) {
+    handleError(res, error, 'Error updating contact');
+  }
+});
+
+router.delete('/contacts/:id', requireScope('write:contacts'), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const existing = await storage.getMarketingContactById(req.params.id, userId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Contact non trouvé' });
+    }
+
+    await storage.deleteMarketingContact(existing.id, userId);
+    res.status(204).end();
+  } catch (error: any) {
+    handleError(res, error, 'Error deleting contact');
+  }
+});
+
+export default router;
@@ -0,0 +1,64 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { requireAuth } from '../auth';
+import { parseAnalyticsQuery, resolveTimePeriod } from '../call-analytics.utils';
+import {
+  attributeRevenue,
+  getDefaultAttributionPeriod,
+  getRevenueAttributions,
+  getRevenueAttributionSummary,
+} from '../services/revenue-attribution.service';
+
+const router = Router();
+
+const MAX_LIST_SIZE = 200;
+// A manual run recomputes at most a year of orders
+const MAX_RUN_DAYS = 366;
+
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const timeZone = await storage.getUserTimezone(userId);
+    let period;
+    try {
+      period = resolveTimePeriod(parseAnalyticsQuery(req.query, timeZone).range, timeZone);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    const limit = Math.min(MAX_LIST_SIZE, Math.max(1, parseInt(req.query.limit as string) || 50));
+
+    const [summary, attributions] = await Promise.all([
+      getRevenueAttributionSummary(userId, period),
+      getRevenueAttributions(userId, period, limit),
+    ]);
+    res.json({ summary, attributions });
+  } catch (error: any) {
+    console.error('[RevenueAttributionAPI] Error fetching attributions:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+// Recomputes on demand, e.g. right after connecting a POS or importing orders
+router.post('/run', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const timeZone = await storage.getUserTimezone(userId);
+    let period;
+    try {
+      period = resolveTimePeriod(parseAnalyticsQuery(req.query, timeZone).range, timeZone) || getDefaultAttributionPeriod();
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (period.end.getTime() - period.start.getTime() > MAX_RUN_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ error: `La période ne peut pas dépasser ${MAX_RUN_DAYS} jours` });
+    }
+
+    const result = await attributeRevenue(userId, period);
+    res.json({ ...result, summary: await getRevenueAttributionSummary(userId, period) });
+  } catch (error: any) {
+    console.error('[RevenueAttributionAPI] Error running attribution:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+export default router;
@@ -0,0 +1,187 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth } from '../auth';
+import { webhookEndpointSchema, OUTBOUND_WEBHOOK_EVENTS, type WebhookEndpoint } from '@shared/schema';
+import {
+  generateWebhookSecret,
+  validateWebhookUrl,
+  sendTestWebhookEvent,
+  redeliverWebhook,
+} from '../services/outbound-webhook.service';
+
+const router = Router();
+
+const EVENT_DESCRIPTIONS: Record<string, string> = {
+  'call.created': 'Un appel a été enregistré',
+  'guarantee.validated': 'Un client a validé sa garantie CB',
+  'guarantee.noshow_charged': 'Une pénalité de no-show a été débitée',
+  'review.received': 'Un nouvel avis a été collecté',
+  'waitlist.confirmed': "Un client a confirmé son inscription en liste d'attente",
+  'campaign.sent': 'Une campagne marketing a été envoyée',
+};
+
+// The secret is only returned in full on creation and rotation
+const maskEndpoint = (endpoint: WebhookEndpoint) => ({
+  ...endpoint,
+  secret: `${endpoint.secret.slice(0, 10)}…`,
+});
+
+// List the events an endpoint can subscribe to
+router.get('/events', requireAuth, (req: Request, res: Response) => {
+  res.json(OUTBOUND_WEBHOOK_EVENTS.map(event => ({ event, description: EVENT_DESCRIPTIONS[event] })));
+});
+
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const endpoints = await storage.getWebhookEndpoints(userId);
+    res.json(endpoints.map(maskEndpoint));
+  } catch (error: any) {
+    console.error('[WebhookEndpointsAPI] Error listing endpoints:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.post('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const data = webhookEndpointSchema.parse(req.body);
+
+    const urlError = validateWebhookUrl(data.url);
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+
+    const endpoint = await storage.createWebhookEndpoint({
+      userId,
+      url: data.url,
+      description: data.description,
+      events: data.events,
+      isActive: data.isActive ?? true,
+      secret: generateWebhookSecret(),
+    });
+
+    res.status(201).json(endpoint);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Données invalides', details: error.errors });
+    }
+    console.error('[WebhookEndpointsAPI] Error creating endpoint:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.patch('/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const data = webhookEndpointSchema.partial().parse(req.body);
+
+    if (data.url) {
+      const urlError = validateWebhookUrl(data.url);
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+    }
+
+    // Re-enabling an endpoint gives it a fresh failure budget
+    const updates = data.isActive ? { ...data, consecutiveFailures: 0 } : data;
+    const endpoint = await storage.updateWebhookEndpoint(req.params.id, userId, updates);
+    if (!endpoint) {
+      return res.status(404).json({ error: 'Endpoint non trouvé' });
+    }
+
+    res.json(maskEndpoint(endpoint));
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Données invalides', details: error.errors });
+    }
+    console.error('[WebhookEndpointsAPI] Error updating endpoint:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.delete('/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    await storage.deleteWebhookEndpoint(req.params.id, userId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[WebhookEndpointsAPI] Error deleting endpoint:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.post('/:id/rotate-secret', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const endpoint = await storage.updateWebhookEndpoint(req.params.id, userId, { secret: generateWebhookSecret() });
+    if (!endpoint) {
+      return res.status(404).json({ error: 'Endpoint non trouvé' });
+    }
+
+    res.json(endpoint);
+  } catch (error: any) {
+    console.error('[WebhookEndpointsAPI] Error rotating secret:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+// Send a sample event right away and return the delivery result
+router.post('/:id/test', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const { event } = z.object({ event: z.enum(OUTBOUND_WEBHOOK_EVENTS).optional() }).parse(req.body || {});
+
+    const endpoint = await storage.getWebhookEndpointById(req.params.id, userId);
+    if (!endpoint) {
+      return res.status(404).json({ error: 'Endpoint non trouvé' });
+    }
+
+    const delivery = await sendTestWebhookEvent(endpoint, event);
+    res.json(delivery);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Données invalides', details: error.errors });
+    }
+    console.error('[WebhookEndpointsAPI] Error sending test event:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.get('/:id/deliveries', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const endpoint = await storage.getWebhookEndpointById(req.params.id, userId);
+    if (!endpoint) {
+      return res.status(404).json({ error: 'Endpoint non trouvé' });
+    }
+
+    const deliveries = await storage.getWebhookDeliveries(endpoint.id, userId, limit);
+    res.json(deliveries);
+  } catch (error: any) {
+    console.error('[WebhookEndpointsAPI] Error listing deliveries:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+router.post('/:id/deliveries/:deliveryId/retry', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    const delivery = await storage.getWebhookDeliveryById(req.params.deliveryId, userId);
+    if (!delivery || delivery.endpointId !== req.params.id) {
+      return res.status(404).json({ error: 'Livraison non trouvée' });
+    }
+
+    const result = await redeliverWebhook(delivery);
+    res.json(result);
+  } catch (error: any) {
+    console.error('[WebhookEndpointsAPI] Error retrying delivery:', error);
+    res.status(500).json({ error: 'Erreur serveur' });
+  }
+});
+
+export default router;
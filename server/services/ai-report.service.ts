@@ -107,6 +107,7 @@ Période: ${tenant.period.start} au ${tenant.period.end}
 - Appels totaux: ${kpis.calls_total}
 - Réservations: ${kpis.reservations_total}
 - Valeur estimée: ${kpis.estimated_value_eur ? `${kpis.estimated_value_eur}€` : "Non disponible"}
+- Ventes mesurées (commandes réelles rattachées): ${kpis.measured_value_eur !== null ? `${kpis.measured_value_eur}€` : "Non disponible"}
 - Note moyenne avis: ${kpis.reviews_avg_rating ?? "Non disponible"}
 - Taux no-show: ${kpis.no_show_rate ? `${kpis.no_show_rate}%` : "Non disponible"}
 - ROI: ${kpis.roi_x ? `${kpis.roi_x}x` : "Non disponible"}
@@ -0,0 +1,307 @@
+// Call Anomaly Detection - Compares each hour of call activity to the same weekday/hour of past weeks
+import { db } from '../db';
+import { storage } from '../storage';
+import { pushNotificationService } from '../push-notification.service';
+import { notifyCallAnomaly } from '../notifications';
+import { calls, type CallAnomalyMetric, type CallAnomalyDirection } from '@shared/schema';
+import { eq, and, gte, lt, sql, count, min } from 'drizzle-orm';
+import {
+  DAYS_OF_WEEK,
+  FIRST_COLUMN,
+  formatDateInTimeZone,
+  localTimestampSql,
+  shiftInTimeZone,
+  startOfHourInTimeZone,
+} from '../call-analytics.utils';
+
+// Baseline: the same weekday and hour over the previous weeks
+const BASELINE_WEEKS = 8;
+const MIN_BASELINE_WEEKS = 4;
+// Deviation (in standard deviations) beyond which an hour is flagged, and beyond which an adverse one is critical
+const Z_SCORE_THRESHOLD = 3;
+const CRITICAL_Z_SCORE = 5;
+// A spike of a few calls is never worth an alert, whatever the baseline
+const MIN_SPIKE_COUNT = 5;
+// Conversion rates are only compared on enough calls
+const MIN_RATE_CALLS = 5;
+const MIN_BASELINE_RATE_CALLS = 20;
+// The same metric/direction notifies at most once per cooldown (still recorded)
+const ALERT_COOLDOWN_HOURS = 6;
+const HOUR_MS = 60 * 60 * 1000;
+
+type Severity = 'info' | 'warning' | 'critical';
+
+interface HourCounts {
+  total: number;
+  failed: number;
+  outOfScope: number;
+  completed: number;
+}
+
+interface DetectedAnomaly {
+  metric: CallAnomalyMetric;
+  direction: CallAnomalyDirection;
+  observed: number;
+  expected: number;
+  standardDeviation: number;
+  zScore: number;
+  baselineWeeks: number;
+  explanation: string;
+}
+
+const metricLabels: Record<CallAnomalyMetric, { name: string; unit: string }> = {
+  call_volume: { name: "du volume d'appels", unit: 'appels' },
+  failed_calls: { name: 'des appels échoués', unit: 'appels échoués' },
+  out_of_scope_calls: { name: 'des appels hors périmètre', unit: 'appels hors périmètre' },
+  conversion_rate: { name: 'du taux de conversion', unit: '%' },
+};
+
+// Volume and conversion going down, failures and out-of-scope calls going up
+const ADVERSE_DIRECTION: Record<CallAnomalyMetric, CallAnomalyDirection> = {
+  call_volume: 'drop',
+  failed_calls: 'spike',
+  out_of_scope_calls: 'spike',
+  conversion_rate: 'drop',
+};
+
+const EMPTY_COUNTS: HourCounts = { total: 0, failed: 0, outOfScope: 0, completed: 0 };
+
+const formatNumber = (value: number) => value.toLocaleString('fr-FR', { maximumFractionDigits: 1 });
+
+function describeSlot(weekday: number, hour: number): { slot: string; baseline: string } {
+  const day = DAYS_OF_WEEK[weekday];
+  return {
+    slot: `le ${day} de ${hour}h à ${(hour + 1) % 24}h`,
+    baseline: `les ${day}s précédents à la même heure`,
+  };
+}
+
+/**
+ * Count metrics: z-score against the mean of the baseline weeks.
+ * The standard deviation is floored at the square root of the mean (the natural noise of a count),
+ * so a quiet, very regular hour doesn't raise alerts on a one-call difference.
+ */
+function detectCountAnomaly(
+  metric: CallAnomalyMetric,
+  observed: number,
+  samples: number[],
+  slot: { slot: string; baseline: string },
+): DetectedAnomaly | null {
+  const mean = samples.reduce((sum, v) => sum + v, 0) / samples.length;
+  const variance = samples.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (samples.length - 1);
+  const standardDeviation = Math.max(Math.sqrt(variance), Math.sqrt(Math.max(mean, 1)));
+  const zScore = (observed - mean) / standardDeviation;
+
+  if (Math.abs(zScore) < Z_SCORE_THRESHOLD) return null;
+  if (zScore > 0 && observed < MIN_SPIKE_COUNT) return null;
+
+  const { unit } = metricLabels[metric];
+  const explanation = `${formatNumber(observed)} ${unit} ${slot.slot}, contre ${formatNumber(mean)} en moyenne ${slot.baseline} `
+    + `(${samples.length} semaines, écart-type retenu ${formatNumber(standardDeviation)}). `
+    + `Écart de ${zScore > 0 ? '+' : ''}${formatNumber(zScore)} σ : une alerte est levée au-delà de ±${Z_SCORE_THRESHOLD} σ. `
+    + `L'écart-type retenu vaut au moins la racine de la moyenne`
+    + (zScore > 0 ? `, et une hausse doit atteindre ${MIN_SPIKE_COUNT} ${unit}.` : '.');
+
+  return {
+    metric,
+    direction: zScore > 0 ? 'spike' : 'drop',
+    observed,
+    expected: mean,
+    standardDeviation,
+    zScore,
+    baselineWeeks: samples.length,
+    explanation,
+  };
+}
+
+/**
+ * Conversion rate: one-proportion z-test of the hour against the pooled rate of the baseline weeks
+ */
+function detectRateAnomaly(
+  observed: HourCounts,
+  baseline: HourCounts[],
+  slot: { slot: string; baseline: string },
+): DetectedAnomaly | null {
+  const baselineTotal = baseline.reduce((sum, h) => sum + h.total, 0);
+  const baselineCompleted = baseline.reduce((sum, h) => sum + h.completed, 0);
+  if (observed.total < MIN_RATE_CALLS || baselineTotal < MIN_BASELINE_RATE_CALLS) return null;
+
+  const expectedRate = baselineCompleted / baselineTotal;
+  // A baseline of 0% or 100% has no variance to compare against
+  if (expectedRate === 0 || expectedRate === 1) return null;
+
+  const observedRate = observed.completed / observed.total;
+  const standardError = Math.sqrt(expectedRate * (1 - expectedRate) / observed.total);
+  const zScore = (observedRate - expectedRate) / standardError;
+  if (Math.abs(zScore) < Z_SCORE_THRESHOLD) return null;
+
+  const explanation = `${formatNumber(observedRate * 100)} % de conversion sur ${observed.total} appels ${slot.slot}, `
+    + `contre ${formatNumber(expectedRate * 100)} % sur ${baselineTotal} appels ${slot.baseline} (${baseline.length} semaines). `
+    + `Écart de ${zScore > 0 ? '+' : ''}${formatNumber(zScore)} erreurs-types : une alerte est levée au-delà de ±${Z_SCORE_THRESHOLD}, `
+    + `avec au moins ${MIN_RATE_CALLS} appels sur l'heure et ${MIN_BASELINE_RATE_CALLS} appels de référence.`;
+
+  return {
+    metric: 'conversion_rate',
+    direction: zScore > 0 ? 'spike' : 'drop',
+    observed: observedRate * 100,
+    expected: expectedRate * 100,
+    standardDeviation: standardError * 100,
+    zScore,
+    baselineWeeks: baseline.length,
+    explanation,
+  };
+}
+
+function getSeverity(anomaly: DetectedAnomaly): Severity {
+  if (anomaly.direction !== ADVERSE_DIRECTION[anomaly.metric]) return 'info';
+  return Math.abs(anomaly.zScore) >= CRITICAL_Z_SCORE ? 'critical' : 'warning';
+}
+
+/**
+ * Per local day counts of the given local hour, from the oldest baseline window to the end of the observed one
+ */
+async function getHourCounts(userId: string, timeZone: string, hour: number, start: Date, end: Date): Promise<Map<string, HourCounts>> {
+  const localTime = localTimestampSql(calls.startTime, timeZone);
+  const rows = await db
+    .select({
+      day: sql<string>`TO_CHAR(${localTime}, 'YYYY-MM-DD')`,
+      total: count(),
+      failed: sql<number>`count(*) filter (where ${calls.status} = 'failed')`.mapWith(Number),
+      outOfScope: sql<number>`count(*) filter (where ${calls.isOutOfScope} = true)`.mapWith(Number),
+      completed: sql<number>`count(*) filter (where ${calls.status} = 'completed')`.mapWith(Number),
+    })
+    .from(calls)
+    .where(and(
+      eq(calls.userId, userId),
+      gte(calls.startTime, start),
+      lt(calls.startTime, end),
+      sql`extract(hour from ${localTime}) = ${hour}`,
+    ))
+    .groupBy(FIRST_COLUMN);
+
+  return new Map(rows.map(row => [row.day, { total: row.total, failed: row.failed, outOfScope: row.outOfScope, completed: row.completed }]));
+}
+
+/**
+ * Detect anomalies on the last complete local hour of a user's calls
+ */
+export async function detectCallAnomalies(userId: string, now: Date = new Date()): Promise<{ windowStart: Date; windowEnd: Date; anomalies: DetectedAnomaly[] }> {
+  const timeZone = await storage.getUserTimezone(userId);
+  const windowStart = startOfHourInTimeZone(new Date(now.getTime() - HOUR_MS), timeZone);
+  const windowEnd = new Date(windowStart.getTime() + HOUR_MS);
+
+  const hour = Number(new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', hourCycle: 'h23' }).format(windowStart));
+  const windowDay = formatDateInTimeZone(windowStart, timeZone);
+  const weekday = new Date(`${windowDay}T00:00:00Z`).getUTCDay();
+
+  // Baseline weeks only count once the user was receiving calls
+  const [{ firstCallAt }] = await db.select({ firstCallAt: min(calls.startTime) }).from(calls).where(eq(calls.userId, userId));
+  const firstDay = firstCallAt ? formatDateInTimeZone(firstCallAt, timeZone) : windowDay;
+  const baselineDays = Array.from({ length: BASELINE_WEEKS }, (_, i) =>
+    formatDateInTimeZone(shiftInTimeZone(windowStart, { days: -7 * (i + 1) }, timeZone), timeZone)
+  ).filter(day => day >= firstDay);
+
+  if (baselineDays.length < MIN_BASELINE_WEEKS) {
+    return { windowStart, windowEnd, anomalies: [] };
+  }
+
+  const oldestStart = shiftInTimeZone(windowStart, { days: -7 * BASELINE_WEEKS }, timeZone);
+  const countsByDay = await getHourCounts(userId, timeZone, hour, oldestStart, windowEnd);
+  const observed = countsByDay.get(windowDay) || EMPTY_COUNTS;
+  const baseline = baselineDays.map(day => countsByDay.get(day) || EMPTY_COUNTS);
+  const slot = describeSlot(weekday, hour);
+
+  const anomalies = [
+    detectCountAnomaly('call_volume', observed.total, baseline.map(h => h.total), slot),
+    detectCountAnomaly('failed_calls', observed.failed, baseline.map(h => h.failed), slot),
+    detectCountAnomaly('out_of_scope_calls', observed.outOfScope, baseline.map(h => h.outOfScope), slot),
+    detectRateAnomaly(observed, baseline, slot),
+  ].filter((anomaly): anomaly is DetectedAnomaly => anomaly !== null);
+
+  return { windowStart, windowEnd, anomalies };
+}
+
+/**
+ * Record and deliver (in-app notification + push) the anomalies of a user's last hour
+ */
+export async function processCallAnomalies(userId: string, now: Date = new Date()): Promise<number> {
+  const { windowStart, windowEnd, anomalies } = await detectCallAnomalies(userId, now);
+  let alerted = 0;
+
+  for (const anomaly of anomalies) {
+    // Already handled by a previous run on this hour
+    if (await storage.getCallAnomalyAlert(userId, anomaly.metric, windowStart)) continue;
+
+    const severity = getSeverity(anomaly);
+    const title = `${anomaly.direction === 'drop' ? 'Baisse' : 'Hausse'} inhabituelle ${metricLabels[anomaly.metric].name}`;
+    const previous = await storage.getLatestCallAnomalyAlert(userId, anomaly.metric, anomaly.direction);
+    const inCooldown = !!previous && windowStart.getTime() - previous.windowStart.getTime() < ALERT_COOLDOWN_HOURS * HOUR_MS;
+
+    let notificationId: string | null = null;
+    if (!inCooldown) {
+      const notification = await notifyCallAnomaly(storage, userId, {
+        title,
+        explanation: anomaly.explanation,
+        metadata: {
+          metric: anomaly.metric,
+          direction: anomaly.direction,
+          severity,
+          windowStart: windowStart.toISOString(),
+          windowEnd: windowEnd.toISOString(),
+          observed: anomaly.observed,
+          expected: anomaly.expected,
+          zScore: anomaly.zScore,
+        },
+      });
+      if (notification) {
+        notificationId = notification.id;
+        await pushNotificationService.sendToUser(userId, pushNotificationService.createAlertNotification({
+          title,
+          message: anomaly.explanation,
+          severity,
+        }));
+      }
+    }
+
+    await storage.createCallAnomalyAlert({
+      userId,
+      notificationId,
+      metric: anomaly.metric,
+      direction: anomaly.direction,
+      severity,
+      windowStart,
+      windowEnd,
+      observed: anomaly.observed,
+      expected: anomaly.expected,
+      standardDeviation: anomaly.standardDeviation,
+      zScore: anomaly.zScore,
+      baselineWeeks: anomaly.baselineWeeks,
+      explanation: anomaly.explanation,
+    });
+    alerted++;
+  }
+
+  return alerted;
+}
+
+/**
+ * Run the detector for every user who received calls during the baseline window
+ */
+export async function runCallAnomalyDetection(now: Date = new Date()): Promise<{ users: number; alerts: number; failed: number }> {
+  const since = new Date(now.getTime() - (BASELINE_WEEKS * 7 + 1) * 24 * HOUR_MS);
+  const activeUsers = await db
+    .selectDistinct({ userId: calls.userId })
+    .from(calls)
+    .where(gte(calls.startTime, since));
+
+  const stats = { users: activeUsers.length, alerts: 0, failed: 0 };
+  for (const { userId } of activeUsers) {
+    try {
+      stats.alerts += await processCallAnomalies(userId, now);
+    } catch (error) {
+      stats.failed++;
+      console.error(`[CallAnomaly] Error detecting anomalies for user ${userId}:`, error);
+    }
+  }
+  return stats;
+}
@@ -0,0 +1,238 @@
+// Call Exports - Streams the calls list as CSV or XLSX and emails scheduled weekly exports
+import { PassThrough, type Writable } from 'stream';
+import { finished } from 'stream/promises';
+import ExcelJS from 'exceljs';
+import { storage, type CallListFilters } from '../storage';
+import { sendEmail } from '../gmail-email';
+import { getSubscriptionBlockReason } from '../auth';
+import { formatDateInTimeZone, shiftInTimeZone, startOfDayInTimeZone } from '../call-analytics.utils';
+import {
+  CALL_EXPORT_COLUMNS,
+  DEFAULT_CALL_EXPORT_COLUMNS,
+  type Call,
+  type CallExportFormat,
+  type CallExportSchedule,
+} from '@shared/schema';
+
+const BATCH_SIZE = 500;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CALL_EXPORT_CONTENT_TYPES: Record<CallExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface CallExportOptions {
+  format: CallExportFormat;
+  columns: (keyof Call)[];
+  filters: CallListFilters;
+  timeZone: string;
+}
+
+/**
+ * Read ?columns=a,b,c - unknown columns are rejected rather than silently dropped
+ */
+export function resolveExportColumns(columns: unknown): (keyof Call)[] {
+  if (columns === undefined || columns === '') return DEFAULT_CALL_EXPORT_COLUMNS;
+  if (typeof columns !== 'string') {
+    throw new Error('Le paramètre columns doit être une liste séparée par des virgules');
+  }
+
+  const requested = columns.split(',').map(column => column.trim()).filter(Boolean);
+  const unknown = requested.filter(column => !(CALL_EXPORT_COLUMNS as string[]).includes(column));
+  if (unknown.length > 0) {
+    throw new Error(`Colonnes inconnues : ${unknown.join(', ')}`);
+  }
+  return requested as (keyof Call)[];
+}
+
+export function getCallExportFileName(format: CallExportFormat, date: Date = new Date()): string {
+  return `appels-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+// "sv-SE" formats as YYYY-MM-DD HH:mm:ss, which both Excel and spreadsheets parse as a date
+function formatDateTime(date: Date, timeZone: string): string {
+  return date.toLocaleString('sv-SE', { timeZone });
+}
+
+function toCellValue(value: unknown, timeZone: string): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return formatDateTime(value, timeZone);
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as string | number | boolean;
+}
+
+function escapeCsv(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  // Keep spreadsheets from evaluating cells as formulas (phone numbers like +336... stay untouched)
+  if (/^[=@\t\r]/.test(text) || /^[+-][^\d\s]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function waitForDrain(stream: Writable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onDrain = () => { cleanup(); resolve(); };
+    const onClose = () => { cleanup(); reject(new Error('Export interrompu')); };
+    const cleanup = () => {
+      stream.off('drain', onDrain);
+      stream.off('close', onClose);
+      stream.off('error', onClose);
+    };
+    stream.on('drain', onDrain);
+    stream.on('close', onClose);
+    stream.on('error', onClose);
+  });
+}
+
+async function* iterateCallBatches(userId: string, filters: CallListFilters): AsyncGenerator<Call[]> {
+  let after: { startTime: Date; id: string } | null = null;
+  while (true) {
+    const batch = await storage.getCallsExportBatch(userId, filters, after, BATCH_SIZE);
+    if (batch.length === 0) return;
+    yield batch;
+    if (batch.length < BATCH_SIZE) return;
+    const last = batch[batch.length - 1];
+    after = { startTime: last.startTime, id: last.id };
+  }
+}
+
+/**
+ * Write the export to a stream, reading calls batch by batch and waiting for the stream
+ * to drain so memory stays flat whatever the range. Ends the stream and returns the row count.
+ */
+export async function writeCallExport(userId: string, stream: Writable, options: CallExportOptions): Promise<number> {
+  const { columns, timeZone } = options;
+  const toRow = (call: Call) => columns.map(column => toCellValue(call[column], timeZone));
+  let rowCount = 0;
+
+  if (options.format === 'csv') {
+    // BOM + semicolons: what Excel expects for UTF-8 CSV with French regional settings
+    stream.write('\uFEFF' + columns.join(';') + '\r\n');
+    for await (const batch of iterateCallBatches(userId, options.filters)) {
+      const chunk = batch.map(call => toRow(call).map(escapeCsv).join(';')).join('\r\n') + '\r\n';
+      rowCount += batch.length;
+      if (!stream.write(chunk)) {
+        await waitForDrain(stream);
+      }
+    }
+    stream.end();
+    return rowCount;
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: false, useSharedStrings: false });
+  const worksheet = workbook.addWorksheet('Appels');
+  worksheet.addRow(columns).commit();
+  for await (const batch of iterateCallBatches(userId, options.filters)) {
+    for (const call of batch) {
+      worksheet.addRow(toRow(call)).commit();
+    }
+    rowCount += batch.length;
+    if (stream.writableNeedDrain) {
+      await waitForDrain(stream);
+    }
+  }
+  worksheet.commit();
+  await workbook.commit();
+  return rowCount;
+}
+
+async function buildCallExportBuffer(userId: string, options: CallExportOptions): Promise<{ content: Buffer; rowCount: number }> {
+  const stream = new PassThrough();
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
+  const rowCount = await writeCallExport(userId, stream, options);
+  await finished(stream);
+  return { content: Buffer.concat(chunks), rowCount };
+}
+
+/**
+ * Next run of a weekly schedule, at the given hour on the wall clock of the time zone
+ */
+export function getNextWeeklyRun(dayOfWeek: number, hour: number, timeZone: string, from: Date = new Date()): Date {
+  const today = startOfDayInTimeZone(from, timeZone);
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = shiftInTimeZone(today, { days: offset }, timeZone);
+    const weekday = new Date(`${formatDateInTimeZone(day, timeZone)}T00:00:00Z`).getUTCDay();
+    const run = new Date(day.getTime() + hour * HOUR_MS);
+    if (weekday === dayOfWeek && run > from) {
+      return run;
+    }
+  }
+  return shiftInTimeZone(today, { days: 7 }, timeZone);
+}
+
+async function sendScheduledExport(schedule: CallExportSchedule): Promise<number> {
+  // Same access rules as the routes: the account must still be verified and subscribed,
+  // and the recipient still a verified member of its team
+  const user = await storage.getUser(schedule.userId);
+  if (!user) {
+    throw new Error('Utilisateur non trouvé');
+  }
+  if (user.role !== 'admin' && !user.isVerified) {
+    throw new Error('Email non vérifié');
+  }
+  const blockReason = getSubscriptionBlockReason(user);
+  if (blockReason) {
+    throw new Error(blockReason);
+  }
+  const teamEmails = await storage.getVerifiedTeamEmails(schedule.userId);
+  if (!teamEmails.includes(schedule.recipientEmail.toLowerCase())) {
+    throw new Error('Le destinataire doit être un membre vérifié de votre équipe');
+  }
+
+  const timeZone = await storage.getUserTimezone(schedule.userId);
+  const now = new Date();
+  const periodStart = shiftInTimeZone(now, { days: -7 }, timeZone);
+  const format = schedule.format as CallExportFormat;
+
+  const { content, rowCount } = await buildCallExportBuffer(schedule.userId, {
+    format,
+    columns: schedule.columns as (keyof Call)[],
+    filters: { ...schedule.filters, startDate: periodStart, endDate: now },
+    timeZone,
+  });
+
+  const period = `du ${formatDateInTimeZone(periodStart, timeZone)} au ${formatDateInTimeZone(now, timeZone)}`;
+  await sendEmail({
+    to: schedule.recipientEmail,
+    subject: `Export hebdomadaire des appels - ${schedule.name}`,
+    text: `Bonjour,\n\nVeuillez trouver ci-joint l'export "${schedule.name}" (${rowCount} appel${rowCount > 1 ? 's' : ''} ${period}).\n\nL'équipe SpeedAI`,
+    html: `<p>Bonjour,</p><p>Veuillez trouver ci-joint l'export <strong>${schedule.name.replace(/[<>&"]/g, '')}</strong> (${rowCount} appel${rowCount > 1 ? 's' : ''} ${period}).</p><p>L'équipe SpeedAI</p>`,
+    attachments: [
+      {
+        filename: getCallExportFileName(format, now),
+        content,
+        contentType: CALL_EXPORT_CONTENT_TYPES[format],
+      },
+    ],
+  });
+
+  return rowCount;
+}
+
+export async function processDueCallExportSchedules(): Promise<{ sent: number; failed: number }> {
+  const stats = { sent: 0, failed: 0 };
+  const schedules = await storage.getDueCallExportSchedules();
+
+  for (const schedule of schedules) {
+    const timeZone = await storage.getUserTimezone(schedule.userId);
+    const nextRunAt = getNextWeeklyRun(schedule.dayOfWeek, schedule.hour, timeZone);
+
+    try {
+      await sendScheduledExport(schedule);
+      await storage.updateCallExportSchedule(schedule.id, schedule.userId, { lastSentAt: new Date(), lastError: null, nextRunAt });
+      stats.sent++;
+    } catch (error: any) {
+      // Not retried before the next week - the error stays visible on the schedule
+      console.error(`[CallExport] Scheduled export ${schedule.id} failed:`, error);
+      await storage.updateCallExportSchedule(schedule.id, schedule.userId, { lastError: error?.message || String(error), nextRunAt });
+      stats.failed++;
+    }
+  }
+
+  return stats;
+}
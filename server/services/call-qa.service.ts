@@ -0,0 +1,167 @@
+// Call QA - Reviewer queue, scorecards and quality trends of the voice agent
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  calls,
+  callQaReviews,
+  callQaAnnotations,
+  CALL_QA_ANNOTATION_CATEGORIES,
+  CALL_QA_MAX_CRITERION_SCORE,
+  DEFAULT_CALL_QA_CRITERIA,
+  type Call,
+  type CallQaCriterion,
+  type CallQaQueueReason,
+  type CallQaAnnotationCategory,
+  type CallQaTrends,
+  type CallQaTrendPoint,
+} from '@shared/schema';
+import { eq, and, gte, lte, sql, desc, count, isNotNull } from 'drizzle-orm';
+import { listDaysInPeriod, shiftInTimeZone, startOfDayInTimeZone, localTimestampSql, FIRST_COLUMN, type TimePeriod } from '../call-analytics.utils';
+
+const DEFAULT_LOW_CONFIDENCE_THRESHOLD = 60;
+// Daily points up to a month, weekly beyond
+const MAX_DAILY_BUCKETS = 31;
+// Without an explicit range, trends cover the last 12 weeks
+const DEFAULT_TREND_DAYS = 84;
+const TOP_VALUES_LIMIT = 10;
+
+export interface ResolvedScorecard {
+  criteria: CallQaCriterion[];
+  lowConfidenceThreshold: number;
+}
+
+/**
+ * Scorecard of the user's tenant, or the default rubric while none was configured
+ */
+export async function getEffectiveScorecard(userId: string): Promise<ResolvedScorecard> {
+  const tenantId = await storage.getEffectiveTenantId({ userId });
+  const scorecard = await storage.getCallQaScorecard({ userId, tenantId });
+  return {
+    criteria: scorecard?.criteria || DEFAULT_CALL_QA_CRITERIA,
+    lowConfidenceThreshold: scorecard?.lowConfidenceThreshold ?? DEFAULT_LOW_CONFIDENCE_THRESHOLD,
+  };
+}
+
+export function getCallQaReasons(call: Call, threshold: number): CallQaQueueReason[] {
+  const reasons: CallQaQueueReason[] = [];
+  if (call.bookingConfidence !== null && call.bookingConfidence < threshold) reasons.push('low_confidence');
+  if (call.status === 'failed' || call.callSuccessful === false) reasons.push('failed');
+  if (call.callQuality === 'difficile') reasons.push('difficult');
+  if (call.callQuality === 'interrompu') reasons.push('interrupted');
+  return reasons;
+}
+
+/**
+ * Weighted score out of 100. Every criterion of the rubric must be scored, and only those.
+ * Throws with a user-facing message otherwise.
+ */
+export function computeOverallScore(criteria: CallQaCriterion[], scores: Record<string, number>): number {
+  const keys = criteria.map(c => c.key);
+  const unknown = Object.keys(scores).filter(key => !keys.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Critères inconnus : ${unknown.join(', ')}`);
+  }
+  const missing = keys.filter(key => scores[key] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Critères non notés : ${missing.join(', ')}`);
+  }
+
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const weighted = criteria.reduce((sum, c) => sum + (scores[c.key] / CALL_QA_MAX_CRITERION_SCORE) * c.weight, 0);
+  return Math.round((weighted / totalWeight) * 100);
+}
+
+// First day (YYYY-MM-DD) of the ISO week of a day
+function weekStart(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  const offset = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return date.toISOString().slice(0, 10);
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10 : null;
+
+export function getDefaultTrendPeriod(timeZone: string, now: Date = new Date()): TimePeriod {
+  return { start: shiftInTimeZone(startOfDayInTimeZone(now, timeZone), { days: -(DEFAULT_TREND_DAYS - 1) }, timeZone), end: now };
+}
+
+export async function getCallQaTrends(userId: string, period: TimePeriod, timeZone: string, criteria: CallQaCriterion[]): Promise<CallQaTrends> {
+  const days = listDaysInPeriod(period, timeZone);
+  const granularity: CallQaTrends['granularity'] = days.length <= MAX_DAILY_BUCKETS ? 'day' : 'week';
+  const bucket = sql<string>`TO_CHAR(date_trunc(${granularity}, ${localTimestampSql(calls.startTime, timeZone)}), 'YYYY-MM-DD')`;
+  const inPeriod = and(eq(calls.userId, userId), gte(calls.startTime, period.start), lte(calls.startTime, period.end));
+
+  const [callRows, reviewRows, annotationRows, objectionRows, painPointRows, disconnectionRows] = await Promise.all([
+    db.select({
+      period: bucket,
+      calls: count(),
+      failedCalls: sql<number>`count(*) filter (where ${calls.status} = 'failed' or ${calls.callSuccessful} = false)`,
+      averageConfidence: sql<string | null>`avg(${calls.bookingConfidence})`,
+    })
+      .from(calls)
+      .where(inPeriod)
+      .groupBy(FIRST_COLUMN),
+    db.select({ period: bucket, overallScore: callQaReviews.overallScore, scores: callQaReviews.scores })
+      .from(callQaReviews)
+      .innerJoin(calls, eq(callQaReviews.callId, calls.id))
+      .where(inPeriod),
+    db.select({ category: callQaAnnotations.category, count: count() })
+      .from(callQaAnnotations)
+      .innerJoin(calls, eq(callQaAnnotations.callId, calls.id))
+      .where(inPeriod)
+      .groupBy(callQaAnnotations.category),
+    topArrayValues(calls.objections, inPeriod),
+    topArrayValues(calls.painPoints, inPeriod),
+    db.select({ value: sql<string>`${calls.disconnectionReason}`, count: count() })
+      .from(calls)
+      .where(and(inPeriod, isNotNull(calls.disconnectionReason)))
+      .groupBy(calls.disconnectionReason)
+      .orderBy(desc(count()))
+      .limit(TOP_VALUES_LIMIT),
+  ]);
+
+  // Every bucket of the period is returned, so charts show gaps as zeros
+  const periods = granularity === 'day' ? days : Array.from(new Set(days.map(weekStart)));
+  const points: CallQaTrendPoint[] = periods.map(key => {
+    const callStats = callRows.find(row => row.period === key);
+    const reviews = reviewRows.filter(row => row.period === key);
+    return {
+      period: key,
+      calls: Number(callStats?.calls || 0),
+      failedCalls: Number(callStats?.failedCalls || 0),
+      averageConfidence: callStats?.averageConfidence != null ? Math.round(Number(callStats.averageConfidence)) : null,
+      reviewedCalls: reviews.length,
+      averageScore: average(reviews.map(r => r.overallScore)),
+      criteria: Object.fromEntries(criteria.map(c => [
+        c.key,
+        average(reviews.map(r => r.scores[c.key]).filter((score): score is number => typeof score === 'number')),
+      ])),
+    };
+  });
+
+  const annotationsByCategory = Object.fromEntries(
+    CALL_QA_ANNOTATION_CATEGORIES.map(category => [category, Number(annotationRows.find(row => row.category === category)?.count || 0)])
+  ) as Record<CallQaAnnotationCategory, number>;
+
+  const toTopValues = (rows: { value: string; count: number }[]) => rows.map(row => ({ value: row.value, count: Number(row.count) }));
+
+  return {
+    granularity,
+    points,
+    annotationsByCategory,
+    topObjections: toTopValues(objectionRows),
+    topPainPoints: toTopValues(painPointRows),
+    topDisconnectionReasons: toTopValues(disconnectionRows),
+  };
+}
+
+function topArrayValues(column: typeof calls.objections | typeof calls.painPoints, where: ReturnType<typeof and>) {
+  const value = sql<string>`lower(trim(unnest(${column})))`;
+  return db.select({ value, count: count() })
+    .from(calls)
+    .where(where)
+    .groupBy(sql`1`)
+    .orderBy(desc(count()))
+    .limit(TOP_VALUES_LIMIT);
+}
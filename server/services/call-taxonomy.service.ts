@@ -0,0 +1,210 @@
+// Call outcome taxonomy - Canonical outcomes and service types per tenant
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  calls,
+  tenantUserRoles,
+  CALL_TAXONOMY_BUSINESS_TYPES,
+  DEFAULT_CALL_TAXONOMIES,
+  type Call,
+  type CallTaxonomyBusinessType,
+  type CallTaxonomyDefaults,
+  type CallTaxonomyEntry,
+  type CallOutcomeCount,
+  type EffectiveCallTaxonomy,
+} from '@shared/schema';
+import { eq, and, or, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+
+const UNCLASSIFIED_LABEL = 'Non classé';
+const UNCLASSIFIED_COLOR = '#4A4A4A';
+
+// Same comparison key for keys, labels, synonyms and ingested values: "Rendez-vous" -> "rendez_vous"
+export function normalizeTaxonomyValue(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s\-']+/g, '_');
+}
+
+function findEntry(entries: CallTaxonomyEntry[], value: string | null | undefined): CallTaxonomyEntry | undefined {
+  if (!value || !value.trim()) return undefined;
+  const normalized = normalizeTaxonomyValue(value);
+  return entries.find(entry =>
+    [entry.key, entry.label, ...entry.synonyms].some(candidate => normalizeTaxonomyValue(candidate) === normalized)
+  );
+}
+
+function toBusinessType(value: string | null | undefined): CallTaxonomyBusinessType {
+  return (CALL_TAXONOMY_BUSINESS_TYPES as readonly string[]).includes(value || '')
+    ? value as CallTaxonomyBusinessType
+    : 'other';
+}
+
+/**
+ * Taxonomy of the tenant (given, or the user's default one), or the defaults of its business type while none was configured
+ */
+export async function getEffectiveTaxonomy(owner: { userId: string; tenantId?: string | null }): Promise<EffectiveCallTaxonomy> {
+  const userId = owner.userId;
+  const tenantId = await storage.getEffectiveTenantId(owner);
+  const [taxonomy, tenant] = await Promise.all([
+    storage.getCallTaxonomy({ userId, tenantId }),
+    tenantId ? storage.getTenant(tenantId) : undefined,
+  ]);
+  const businessType = toBusinessType(tenant?.businessType);
+  const defaults = DEFAULT_CALL_TAXONOMIES[businessType];
+
+  return {
+    businessType,
+    outcomes: taxonomy?.outcomes || defaults.outcomes,
+    serviceTypes: taxonomy?.serviceTypes || defaults.serviceTypes,
+    isDefault: !taxonomy,
+  };
+}
+
+/**
+ * Canonical outcome and service type of a call. The event type is matched first
+ * (it describes the request), then the conversion result. The raw values are never changed,
+ * so editing the taxonomy can always classify them again.
+ */
+export function classifyCall(
+  taxonomy: CallTaxonomyDefaults,
+  call: Pick<Call, 'eventType' | 'conversionResult' | 'serviceType'>
+): { outcome: string | null; serviceTypeKey: string | null } {
+  const outcome = findEntry(taxonomy.outcomes, call.eventType) || findEntry(taxonomy.outcomes, call.conversionResult);
+  const serviceType = findEntry(taxonomy.serviceTypes, call.serviceType);
+  return {
+    outcome: outcome?.key || null,
+    serviceTypeKey: serviceType?.key || null,
+  };
+}
+
+/**
+ * Classification fields to merge into a call being ingested
+ */
+export async function classifyIncomingCall(
+  userId: string,
+  call: { eventType?: string | null; conversionResult?: string | null; serviceType?: string | null }
+): Promise<{ outcome: string | null; serviceTypeKey: string | null }> {
+  const taxonomy = await getEffectiveTaxonomy({ userId });
+  return classifyCall(taxonomy, {
+    eventType: call.eventType ?? null,
+    conversionResult: call.conversionResult ?? null,
+    serviceType: call.serviceType ?? null,
+  });
+}
+
+/**
+ * Classifies the calls of a scope with the taxonomy.
+ * Calls are grouped by their raw values so each combination is classified once.
+ */
+async function applyTaxonomy(scope: SQL, taxonomy: CallTaxonomyDefaults): Promise<number> {
+  const combinations = await db
+    .selectDistinct({
+      eventType: calls.eventType,
+      conversionResult: calls.conversionResult,
+      serviceType: calls.serviceType,
+      outcome: calls.outcome,
+      serviceTypeKey: calls.serviceTypeKey,
+    })
+    .from(calls)
+    .where(scope);
+
+  let updated = 0;
+  for (const combination of combinations) {
+    const classification = classifyCall(taxonomy, combination);
+    if (classification.outcome === combination.outcome && classification.serviceTypeKey === combination.serviceTypeKey) continue;
+
+    const result = await db.update(calls)
+      .set(classification)
+      .where(and(
+        scope,
+        sql`${calls.eventType} IS NOT DISTINCT FROM ${combination.eventType}`,
+        sql`${calls.conversionResult} IS NOT DISTINCT FROM ${combination.conversionResult}`,
+        sql`${calls.serviceType} IS NOT DISTINCT FROM ${combination.serviceType}`,
+        sql`${calls.outcome} IS NOT DISTINCT FROM ${combination.outcome}`,
+        sql`${calls.serviceTypeKey} IS NOT DISTINCT FROM ${combination.serviceTypeKey}`,
+      ))
+      .returning({ id: calls.id });
+    updated += result.length;
+  }
+  return updated;
+}
+
+/**
+ * Re-applies the taxonomy to every call it governs, after it was edited: all the calls of the tenant,
+ * including those ingested without a tenant by its members, or the user's calls without a tenant
+ */
+export async function reclassifyCalls(owner: { userId: string; tenantId?: string | null }, taxonomy: CallTaxonomyDefaults): Promise<number> {
+  const scope = owner.tenantId
+    ? or(
+        eq(calls.tenantId, owner.tenantId),
+        and(
+          isNull(calls.tenantId),
+          inArray(calls.userId, db.select({ userId: tenantUserRoles.userId }).from(tenantUserRoles).where(eq(tenantUserRoles.tenantId, owner.tenantId)))
+        )
+      )!
+    : eq(calls.userId, owner.userId);
+  return applyTaxonomy(scope, taxonomy);
+}
+
+/**
+ * One-off classification of all existing calls, each with the taxonomy its user and tenant resolve to
+ * (see server/migrations/backfill-call-classification.ts)
+ */
+export async function backfillCallClassification(): Promise<number> {
+  const owners = await db.selectDistinct({ userId: calls.userId, tenantId: calls.tenantId }).from(calls);
+
+  let updated = 0;
+  for (const owner of owners) {
+    const taxonomy = await getEffectiveTaxonomy(owner);
+    updated += await applyTaxonomy(and(
+      eq(calls.userId, owner.userId),
+      owner.tenantId ? eq(calls.tenantId, owner.tenantId) : isNull(calls.tenantId)
+    )!, taxonomy);
+  }
+  return updated;
+}
+
+/**
+ * Call counts per canonical outcome, in taxonomy order, unclassified calls last
+ */
+export function buildOutcomeBreakdown(
+  taxonomy: CallTaxonomyDefaults,
+  counts: { outcome: string | null; count: number }[]
+): CallOutcomeCount[] {
+  const countByOutcome = new Map(counts.map(row => [row.outcome, row.count]));
+  const breakdown: CallOutcomeCount[] = taxonomy.outcomes.map(entry => ({
+    outcome: entry.key,
+    label: entry.label,
+    color: entry.color,
+    count: countByOutcome.get(entry.key) || 0,
+  }));
+
+  // Outcomes removed from the taxonomy since the calls were classified
+  const known = new Set(taxonomy.outcomes.map(entry => entry.key));
+  const unknownCount = counts
+    .filter(row => row.outcome !== null && !known.has(row.outcome))
+    .reduce((sum, row) => sum + row.count, 0);
+  const unclassified = (countByOutcome.get(null) || 0) + unknownCount;
+  if (unclassified > 0) {
+    breakdown.push({ outcome: null, label: UNCLASSIFIED_LABEL, color: UNCLASSIFIED_COLOR, count: unclassified });
+  }
+  return breakdown;
+}
+
+/**
+ * Whether a call counts as a conversion: value weight of its outcome once classified,
+ * the historical N8N rules otherwise
+ */
+export function isConvertedCall(
+  taxonomy: CallTaxonomyDefaults,
+  call: Pick<Call, 'outcome' | 'conversionResult' | 'callSuccessful' | 'appointmentDate'>
+): boolean {
+  if (call.outcome) {
+    const entry = taxonomy.outcomes.find(o => o.key === call.outcome);
+    return !!entry && entry.valueWeight > 0;
+  }
+  return call.conversionResult === 'converted' || call.callSuccessful === true || call.appointmentDate !== null;
+}
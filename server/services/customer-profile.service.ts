@@ -0,0 +1,215 @@
+// Customer Profile - Links the records of a same customer across modules and builds their timeline
+import { db } from '../db';
+import {
+  calls,
+  guaranteeSessions,
+  noshowCharges,
+  reviewRequests,
+  reviews,
+  waitlistEntries,
+  marketingContacts,
+  marketingSends,
+  marketingCampaigns,
+  clientNotificationData,
+  type CustomerProfile,
+  type CustomerTimelineEvent,
+} from '@shared/schema';
+import { eq, and, inArray, desc } from 'drizzle-orm';
+import { getPhoneKey, normalizeEmail, identityCondition } from '../utils/customer-identity';
+
+const MAX_RECORDS_PER_SOURCE = 200;
+// Used when the business hasn't set its average ticket
+const DEFAULT_AVERAGE_TICKET = 50;
+
+const NO_SHOW_STATUSES = ['noshow_charged', 'noshow_failed'];
+const ATTENDED_STATUSES = ['completed', 'validated'];
+
+export interface CustomerIdentity {
+  phone?: string | null;
+  email?: string | null;
+}
+
+export async function getCustomerProfile(userId: string, identity: CustomerIdentity): Promise<CustomerProfile | null> {
+  const phoneKey = getPhoneKey(identity.phone);
+  const email = normalizeEmail(identity.email);
+  if (!phoneKey && !email) {
+    return null;
+  }
+
+  const [callRows, sessionRows, requestRows, waitlistRows, contactRows, [businessData]] = await Promise.all([
+    db.select().from(calls)
+      .where(and(eq(calls.userId, userId), identityCondition(phoneKey, email, calls.phoneNumber, calls.clientEmail)))
+      .orderBy(desc(calls.startTime))
+      .limit(MAX_RECORDS_PER_SOURCE),
+    db.select().from(guaranteeSessions)
+      .where(and(eq(guaranteeSessions.userId, userId), identityCondition(phoneKey, email, guaranteeSessions.customerPhone, guaranteeSessions.customerEmail)))
+      .orderBy(desc(guaranteeSessions.reservationDate))
+      .limit(MAX_RECORDS_PER_SOURCE),
+    db.select().from(reviewRequests)
+      .where(and(eq(reviewRequests.userId, userId), identityCondition(phoneKey, email, reviewRequests.customerPhone, reviewRequests.customerEmail)))
+      .orderBy(desc(reviewRequests.createdAt))
+      .limit(MAX_RECORDS_PER_SOURCE),
+    db.select().from(waitlistEntries)
+      .where(and(eq(waitlistEntries.userId, userId), identityCondition(phoneKey, email, waitlistEntries.phone, waitlistEntries.email)))
+      .orderBy(desc(waitlistEntries.createdAt))
+      .limit(MAX_RECORDS_PER_SOURCE),
+    db.select().from(marketingContacts)
+      .where(and(eq(marketingContacts.userId, userId), identityCondition(phoneKey, email, marketingContacts.phone, marketingContacts.email))),
+    db.select({ avgTicket: clientNotificationData.avgTicket }).from(clientNotificationData)
+      .where(eq(clientNotificationData.userId, userId)),
+  ]);
+
+  // Reviews, charges and sends carry no contact details: they are reached through the records above
+  const sessionIds = sessionRows.map(s => s.id);
+  const requestIds = requestRows.map(r => r.id);
+  const contactIds = contactRows.map(c => c.id);
+
+  const [reviewRows, chargeRows, sendRows] = await Promise.all([
+    requestIds.length > 0
+      ? db.select().from(reviews)
+          .where(and(eq(reviews.userId, userId), inArray(reviews.matchedRequestId, requestIds)))
+      : Promise.resolve([]),
+    sessionIds.length > 0
+      ? db.select().from(noshowCharges)
+          .where(and(eq(noshowCharges.userId, userId), inArray(noshowCharges.guaranteeSessionId, sessionIds)))
+      : Promise.resolve([]),
+    contactIds.length > 0
+      ? db.select({ send: marketingSends, campaignName: marketingCampaigns.name })
+          .from(marketingSends)
+          .innerJoin(marketingCampaigns, eq(marketingSends.campaignId, marketingCampaigns.id))
+          .where(and(eq(marketingCampaigns.userId, userId), inArray(marketingSends.contactId, contactIds)))
+          .orderBy(desc(marketingSends.createdAt))
+          .limit(MAX_RECORDS_PER_SOURCE)
+      : Promise.resolve([]),
+  ]);
+
+  const timeline: CustomerTimelineEvent[] = [];
+
+  for (const call of callRows) {
+    timeline.push({
+      id: call.id,
+      type: 'call',
+      date: call.startTime.toISOString(),
+      title: call.eventType ? `Appel - ${call.eventType}` : 'Appel',
+      description: call.summary,
+      status: call.conversionResult || call.status,
+    });
+  }
+
+  for (const session of sessionRows) {
+    timeline.push({
+      id: session.id,
+      type: 'reservation',
+      date: session.reservationDate.toISOString(),
+      title: `Réservation pour ${session.nbPersons} personne${session.nbPersons > 1 ? 's' : ''}`,
+      description: session.reservationTime ? `À ${session.reservationTime}` : null,
+      status: session.status,
+    });
+    if (NO_SHOW_STATUSES.includes(session.status)) {
+      timeline.push({
+        id: `${session.id}:noshow`,
+        type: 'no_show',
+        date: (session.chargedAt || session.reservationDate).toISOString(),
+        title: 'No-show',
+        description: session.status === 'noshow_charged' ? 'Pénalité débitée' : 'Débit de la pénalité échoué',
+        status: session.status,
+        amount: session.chargedAmount ? session.chargedAmount / 100 : null,
+      });
+    }
+  }
+
+  for (const request of requestRows) {
+    timeline.push({
+      id: request.id,
+      type: 'review_request',
+      date: (request.sentAt || request.createdAt).toISOString(),
+      title: "Demande d'avis",
+      description: request.platformClicked ? `Lien ${request.platformClicked} ouvert` : null,
+      status: request.status,
+    });
+  }
+
+  for (const review of reviewRows) {
+    timeline.push({
+      id: review.id,
+      type: 'review',
+      date: (review.reviewDate || review.createdAt).toISOString(),
+      title: `Avis ${review.platform} - ${review.rating}/5`,
+      description: review.content,
+      status: review.responseStatus,
+    });
+  }
+
+  for (const entry of waitlistRows) {
+    timeline.push({
+      id: entry.id,
+      type: 'waitlist',
+      date: entry.createdAt.toISOString(),
+      title: "Liste d'attente",
+      description: `Créneau demandé : ${entry.requestedSlot.toISOString()}`,
+      status: entry.status,
+    });
+  }
+
+  for (const { send, campaignName } of sendRows) {
+    timeline.push({
+      id: send.id,
+      type: 'marketing_send',
+      date: (send.sentAt || send.createdAt).toISOString(),
+      title: `Campagne ${send.channel === 'sms' ? 'SMS' : 'email'} - ${campaignName}`,
+      status: send.status,
+      amount: send.conversionValue ? Number(send.conversionValue) : null,
+    });
+  }
+
+  timeline.sort((a, b) => b.date.localeCompare(a.date));
+
+  // Lifetime value: visits at the average ticket, plus recovered no-show penalties and marketing conversions.
+  // Visits are counted from reservations or converted calls, whichever is higher, as both usually track the same booking.
+  const now = new Date();
+  const attendedReservations = sessionRows.filter(s => ATTENDED_STATUSES.includes(s.status) && s.reservationDate <= now).length;
+  const pastConvertedCalls = callRows.filter(c => c.conversionResult === 'converted' && c.appointmentDate && c.appointmentDate <= now).length;
+  const visits = Math.max(attendedReservations, pastConvertedCalls);
+  const averageTicket = businessData?.avgTicket ?? DEFAULT_AVERAGE_TICKET;
+  const recoveredNoShows = chargeRows
+    // Deposits, refunds and retained deposits share the table: only penalties charged on the card count
+    .filter(charge => charge.chargeType === 'noshow_penalty' && charge.status === 'succeeded')
+    .reduce((sum, charge) => sum + charge.amount, 0) / 100;
+  const marketingConversions = sendRows.reduce((sum, { send }) => sum + Number(send.conversionValue || 0), 0);
+
+  const ratings = reviewRows.map(r => r.rating);
+  const dates = timeline.map(event => event.date);
+  const latestCall = callRows[0];
+  const contact = contactRows[0];
+  const session = sessionRows[0];
+
+  return {
+    identity: {
+      name: latestCall?.clientName
+        || session?.customerName
+        || (contact ? [contact.firstName, contact.lastName].filter(Boolean).join(' ') || null : null),
+      phone: identity.phone || latestCall?.phoneNumber || session?.customerPhone || contact?.phone || null,
+      email: email || latestCall?.clientEmail || session?.customerEmail || contact?.email || null,
+    },
+    stats: {
+      calls: callRows.length,
+      reservations: sessionRows.length,
+      noShows: sessionRows.filter(s => NO_SHOW_STATUSES.includes(s.status)).length,
+      reviewRequests: requestRows.length,
+      reviews: reviewRows.length,
+      averageRating: ratings.length > 0 ? Math.round((ratings.reduce((a, b) => a + b, 0) / ratings.length) * 10) / 10 : null,
+      waitlistEntries: waitlistRows.length,
+      marketingSends: sendRows.length,
+      firstSeenAt: dates.length > 0 ? dates[dates.length - 1] : null,
+      lastSeenAt: dates.length > 0 ? dates[0] : null,
+    },
+    lifetimeValue: {
+      estimated: Math.round(visits * averageTicket + recoveredNoShows + marketingConversions),
+      visits,
+      averageTicket,
+      recoveredNoShows,
+      marketingConversions,
+    },
+    timeline,
+  };
+}
@@ -0,0 +1,272 @@
+// Guarantee deposits - Upfront deposit mode of the CB guarantee: amount, checkout, refunds and audit trail
+import type Stripe from 'stripe';
+import { storage } from '../storage';
+import type { ClientGuaranteeConfig, GuaranteeSession } from '@shared/schema';
+import { getReservationStart } from './guarantee-reminder.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+// A refund still missing this long after the cancellation failed and is retried, a few times at most
+const REFUND_RETRY_DELAY_MS = 15 * 60 * 1000;
+const MAX_REFUND_ATTEMPTS = 5;
+
+type DepositConfig = Pick<ClientGuaranteeConfig, 'guaranteeMode' | 'depositType' | 'depositAmount' | 'depositPercent'>;
+type DepositSession = Pick<GuaranteeSession, 'guaranteeMode' | 'depositAmount'>;
+
+export function isDepositSession(session: DepositSession): boolean {
+  return session.guaranteeMode === 'deposit' && !!session.depositAmount;
+}
+
+/**
+ * Deposit (cents) asked for a new reservation, null in penalty mode.
+ * A percentage applies to the estimated amount sent with the reservation;
+ * without an estimate the fixed amount per person is used.
+ */
+export function computeDepositAmount(config: DepositConfig, nbPersons: number, estimatedAmount?: number | null): number | null {
+  if (config.guaranteeMode !== 'deposit') return null;
+
+  if (config.depositType === 'percentage' && estimatedAmount && estimatedAmount > 0) {
+    return Math.round(estimatedAmount * config.depositPercent);
+  }
+  return config.depositAmount * nbPersons * 100;
+}
+
+/**
+ * Stripe Checkout mode of a session: card setup for the penalty mode,
+ * deposit payment for the deposit mode (the card is kept for the balance)
+ */
+export function guaranteeCheckoutModeParams(
+  session: DepositSession & Pick<GuaranteeSession, 'reservationDate'>,
+  companyName: string,
+  metadata: Record<string, string>
+): Pick<Stripe.Checkout.SessionCreateParams, 'mode' | 'line_items' | 'payment_intent_data' | 'setup_intent_data'> {
+  if (!isDepositSession(session)) {
+    return { mode: 'setup', setup_intent_data: { metadata } };
+  }
+
+  return {
+    mode: 'payment',
+    line_items: [{
+      quantity: 1,
+      price_data: {
+        currency: 'eur',
+        unit_amount: session.depositAmount!,
+        product_data: {
+          name: `Acompte - ${companyName}`,
+          description: `Réservation du ${new Date(session.reservationDate).toLocaleDateString('fr-FR')}, déduit de votre addition`,
+        },
+      },
+    }],
+    payment_intent_data: { setup_future_usage: 'off_session', metadata },
+  };
+}
+
+/**
+ * Session fields once the deposit checkout completed, with the payment logged in the audit trail
+ */
+export async function recordDepositPayment(
+  stripe: Stripe,
+  stripeAccountId: string,
+  session: GuaranteeSession,
+  paymentIntentId: string
+): Promise<Partial<GuaranteeSession>> {
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId, { stripeAccount: stripeAccountId });
+
+  await storage.createNoshowCharge({
+    guaranteeSessionId: session.id,
+    userId: session.userId,
+    chargeType: 'deposit',
+    paymentIntentId,
+    amount: paymentIntent.amount,
+    currency: paymentIntent.currency,
+    status: paymentIntent.status,
+  });
+
+  return {
+    depositStatus: paymentIntent.status === 'succeeded' ? 'paid' : 'pending',
+    depositPaymentIntentId: paymentIntentId,
+    paymentMethodId: typeof paymentIntent.payment_method === 'string'
+      ? paymentIntent.payment_method
+      : paymentIntent.payment_method?.id || null,
+  };
+}
+
+/**
+ * Share of a paid deposit refunded on cancellation: all of it up to the cancellation delay
+ * before the reservation, the configured late share after
+ */
+export function getDepositRefundAmount(
+  config: Pick<ClientGuaranteeConfig, 'cancellationDelay' | 'lateCancellationRefundPercent'>,
+  session: GuaranteeSession,
+  cancelledAt: Date
+): number {
+  const deposit = session.depositAmount || 0;
+  // The delay of the rule that matched at creation wins over the config's
+  const cancellationDelay = session.cancellationDelay ?? config.cancellationDelay;
+  const deadline = getReservationStart(session).getTime() - cancellationDelay * HOUR_MS;
+  if (cancelledAt.getTime() <= deadline) return deposit;
+  return Math.round(deposit * config.lateCancellationRefundPercent / 100);
+}
+
+/**
+ * Refund made by an earlier attempt whose answer was lost, recorded by a retry instead of refunding twice
+ */
+async function findDepositRefund(stripe: Stripe, stripeAccountId: string, paymentIntentId: string): Promise<Stripe.Refund | undefined> {
+  const refunds = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 10 }, { stripeAccount: stripeAccountId });
+  return refunds.data.find(refund => refund.status !== 'failed' && refund.status !== 'canceled');
+}
+
+/**
+ * Refunds a cancelled reservation's deposit through the connected account, per the refund rules.
+ * The kept part is logged as retained. On failure the deposit stays "paid" for retryFailedDepositRefunds.
+ */
+export async function settleCancelledDeposit(
+  stripe: Stripe,
+  config: ClientGuaranteeConfig,
+  session: GuaranteeSession,
+  cancelledAt: Date = session.cancelledAt || new Date()
+): Promise<{ refunded: number; retained: number }> {
+  if (session.depositStatus !== 'paid' || !session.depositPaymentIntentId || !config.stripeAccountId) {
+    return { refunded: 0, retained: 0 };
+  }
+
+  const deposit = session.depositAmount || 0;
+  const refundAmount = getDepositRefundAmount(config, session, cancelledAt);
+  let refunded = 0;
+  let refundStatus = 'pending';
+
+  if (refundAmount > 0) {
+    try {
+      // Stripe replays the error of a key it already answered, so each retry gets its own key
+      const failedAttempts = await storage.countFailedDepositRefunds(session.id);
+      const refund = (failedAttempts > 0 ? await findDepositRefund(stripe, config.stripeAccountId, session.depositPaymentIntentId) : undefined)
+        || await stripe.refunds.create({
+          payment_intent: session.depositPaymentIntentId,
+          amount: refundAmount,
+          metadata: { reservation_id: session.reservationId, session_id: session.id },
+        }, {
+          stripeAccount: config.stripeAccountId,
+          idempotencyKey: `deposit-refund-${session.id}-${failedAttempts}`,
+        });
+      refunded = refund.amount;
+      refundStatus = refund.status || 'pending';
+    } catch (stripeError: any) {
+      console.error(`[GuaranteeDeposit] Refund failed for session ${session.id}:`, stripeError.message);
+      await storage.createNoshowCharge({
+        guaranteeSessionId: session.id,
+        userId: session.userId,
+        chargeType: 'deposit_refund',
+        paymentIntentId: session.depositPaymentIntentId,
+        amount: refundAmount,
+        currency: 'eur',
+        status: 'failed',
+        failureReason: stripeError.message,
+      });
+      return { refunded: 0, retained: 0 };
+    }
+  }
+
+  const retained = Math.max(0, deposit - refunded);
+  const settled = await storage.updateGuaranteeSessionIfDepositPaid(session.id, {
+    depositStatus: retained === 0 ? 'refunded' : refunded > 0 ? 'partially_refunded' : 'retained',
+    depositRefundedAmount: refunded,
+  });
+  // Already settled by a concurrent retry, which logged the same refund
+  if (!settled) return { refunded: 0, retained: 0 };
+
+  if (refunded > 0) {
+    await storage.createNoshowCharge({
+      guaranteeSessionId: session.id,
+      userId: session.userId,
+      chargeType: 'deposit_refund',
+      paymentIntentId: session.depositPaymentIntentId,
+      amount: refunded,
+      currency: 'eur',
+      status: refundStatus,
+    });
+  }
+  if (retained > 0) {
+    await storage.createNoshowCharge({
+      guaranteeSessionId: session.id,
+      userId: session.userId,
+      chargeType: 'deposit_retained',
+      paymentIntentId: session.depositPaymentIntentId,
+      amount: retained,
+      currency: 'eur',
+      status: 'succeeded',
+    });
+  }
+  return { refunded, retained };
+}
+
+/**
+ * Retries the refunds of cancelled reservations whose deposit is still paid. The reservation is cancelled
+ * before its refund is attempted, so a failed refund would otherwise keep the customer's money.
+ */
+export async function retryFailedDepositRefunds(stripe: Stripe): Promise<{ settled: number; failed: number; abandoned: number }> {
+  const stats = { settled: 0, failed: 0, abandoned: 0 };
+  const sessions = await storage.getCancelledSessionsWithPaidDeposit(new Date(Date.now() - REFUND_RETRY_DELAY_MS));
+
+  for (const { config, ...session } of sessions) {
+    // Past the last attempt the failed refunds stay in the audit trail for the restaurant to handle
+    if (await storage.countFailedDepositRefunds(session.id) >= MAX_REFUND_ATTEMPTS) {
+      stats.abandoned++;
+      continue;
+    }
+
+    const result = await settleCancelledDeposit(stripe, config, session, session.cancelledAt || session.updatedAt);
+    if (result.refunded > 0 || result.retained > 0) {
+      stats.settled++;
+    } else {
+      stats.failed++;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Cancels a pending or validated reservation, then settles its paid deposit.
+ * Undefined when the reservation was already closed, by a concurrent request included.
+ */
+export async function cancelReservation(
+  stripe: Stripe,
+  session: GuaranteeSession
+): Promise<{ session: GuaranteeSession; deposit: { refunded: number; retained: number } | null } | undefined> {
+  const cancelled = await storage.updateGuaranteeSessionIfStatus(session.id, ['pending', 'validated'], { status: 'cancelled', cancelledAt: new Date() });
+  if (!cancelled) return undefined;
+  if (!isDepositSession(cancelled) || cancelled.depositStatus !== 'paid') {
+    return { session: cancelled, deposit: null };
+  }
+
+  const config = await storage.getGuaranteeConfig(cancelled.userId);
+  if (!config) return { session: cancelled, deposit: null };
+
+  const deposit = await settleCancelledDeposit(stripe, config, cancelled);
+  const settled = await storage.getGuaranteeSessionById(cancelled.id);
+  return { session: settled || cancelled, deposit };
+}
+
+/**
+ * Closes the deposit of a reservation that took place: deducted from the bill when the customer came,
+ * kept in place of the penalty on a no-show
+ */
+export async function settleDepositAtCompletion(
+  session: GuaranteeSession,
+  outcome: 'attended' | 'noshow'
+): Promise<Partial<GuaranteeSession>> {
+  const deposit = session.depositAmount || 0;
+
+  await storage.createNoshowCharge({
+    guaranteeSessionId: session.id,
+    userId: session.userId,
+    chargeType: outcome === 'attended' ? 'deposit_applied' : 'deposit_retained',
+    paymentIntentId: session.depositPaymentIntentId,
+    amount: deposit,
+    currency: 'eur',
+    status: 'succeeded',
+  });
+
+  return outcome === 'attended'
+    ? { status: 'completed', depositStatus: 'applied' }
+    : { status: 'noshow_charged', depositStatus: 'retained', chargedAmount: deposit, chargedAt: new Date() };
+}
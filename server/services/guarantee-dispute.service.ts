@@ -0,0 +1,184 @@
+// Guarantee disputes - Chargebacks on no-show penalties and deposits: tracking, alerts and evidence packet
+import type Stripe from 'stripe';
+import { storage } from '../storage';
+import { notifyGuaranteeDispute } from '../notifications';
+import type {
+  ClientGuaranteeConfig,
+  GuaranteeDisputeEvidence,
+  GuaranteeDisputeStatus,
+  GuaranteeSession,
+  NoshowCharge,
+} from '@shared/schema';
+import { DEFAULT_TIMEZONE } from '../call-analytics.utils';
+import { sendDisputeAlertEmail, isEmailConfigured } from './guarantee-email.service';
+
+const CLOSED_STATUSES: GuaranteeDisputeStatus[] = ['won', 'lost', 'warning_closed'];
+
+export const isDisputeOpen = (status: GuaranteeDisputeStatus | null) => !!status && !CLOSED_STATUSES.includes(status);
+
+function formatDateTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('fr-FR', {
+    dateStyle: 'long',
+    timeStyle: 'short',
+    timeZone,
+  }).format(date);
+}
+
+function formatAmount(cents: number): string {
+  return `${(cents / 100).toLocaleString('fr-FR', { maximumFractionDigits: 2 })} €`;
+}
+
+/**
+ * Evidence for the bank, from what the platform recorded: reservation, policy shown before the card
+ * was saved, card consent time, reminders sent and the no-show itself
+ */
+export function buildDisputeEvidence(
+  charge: NoshowCharge,
+  session: GuaranteeSession,
+  config: ClientGuaranteeConfig
+): GuaranteeDisputeEvidence {
+  const timeZone = session.timezone || DEFAULT_TIMEZONE;
+  const companyName = config.companyName || session.companyName || 'Établissement';
+  const cancellationDelay = session.cancellationDelay ?? config.cancellationDelay;
+  const reservationDate = new Intl.DateTimeFormat('fr-FR', { dateStyle: 'long', timeZone }).format(session.reservationDate);
+  const reservationLabel = `${reservationDate}${session.reservationTime ? ` à ${session.reservationTime}` : ''}`;
+  const isDeposit = charge.chargeType === 'deposit';
+
+  const guaranteeTerms = isDeposit
+    ? `Acompte de ${formatAmount(session.depositAmount || charge.amount)} réglé à la réservation, déduit de l'addition et conservé en cas de non-présentation ou d'annulation moins de ${cancellationDelay}h avant.`
+    : `Garantie par carte bancaire : en cas de non-présentation sans annulation au moins ${cancellationDelay}h avant, une pénalité de ${session.penaltyAmount} € par personne est prélevée.`;
+
+  const timeline = [
+    `Référence de réservation : ${session.reservationId}`,
+    `Demande de réservation : ${formatDateTime(session.createdAt, timeZone)}`,
+    session.validatedAt
+      ? `Carte enregistrée et conditions acceptées par le client : ${formatDateTime(session.validatedAt, timeZone)}`
+        + (session.setupIntentId ? ` (autorisation Stripe ${session.setupIntentId})` : '')
+        + (session.depositPaymentIntentId ? ` (paiement Stripe ${session.depositPaymentIntentId})` : '')
+      : null,
+    session.reminderCount > 0
+      ? `Relances envoyées au client : ${session.reminderCount}`
+        + (session.lastReminderAt ? `, dernière le ${formatDateTime(session.lastReminderAt, timeZone)}` : '')
+      : null,
+    session.chargedAt
+      ? `Non-présentation constatée, ${isDeposit ? 'acompte conservé' : 'pénalité prélevée'} le ${formatDateTime(session.chargedAt, timeZone)} : ${formatAmount(charge.amount)}`
+      : null,
+    config.termsUrl ? `Conditions générales : ${config.termsUrl}` : null,
+  ].filter(Boolean).join('\n');
+
+  const rebuttal = session.status === 'noshow_charged'
+    ? `Aucune annulation n'a été reçue. Le client ne s'est pas présenté à sa réservation du ${reservationLabel}.`
+    : session.status === 'cancelled'
+    ? `La réservation a été annulée moins de ${cancellationDelay}h avant son horaire : l'acompte a été conservé comme prévu par les conditions acceptées.`
+    : undefined;
+
+  return {
+    customer_name: session.customerName,
+    customer_email_address: session.customerEmail || undefined,
+    service_date: reservationLabel,
+    product_description: `Réservation de ${session.nbPersons} personne(s) chez ${companyName} le ${reservationLabel}. ${guaranteeTerms}`,
+    cancellation_policy_disclosure: `Les conditions d'annulation sont affichées au client sur la page de validation avant l'enregistrement de sa carte, et rappelées dans l'email de demande.`
+      + (config.termsUrl ? ` Conditions générales : ${config.termsUrl}` : ''),
+    cancellation_rebuttal: rebuttal,
+    uncategorized_text: timeline,
+  };
+}
+
+/**
+ * Ingests a charge.dispute.* event: finds the disputed charge through its PaymentIntent, keeps its
+ * dispute status up to date and alerts the business when the dispute opens and when it is closed.
+ * The evidence packet is assembled as soon as the dispute is known.
+ */
+export async function handleGuaranteeDisputeEvent(event: Stripe.Event): Promise<NoshowCharge | null> {
+  const dispute = event.data.object as Stripe.Dispute;
+  const paymentIntentId = typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id;
+  if (!paymentIntentId) return null;
+
+  const charge = await storage.getDisputableChargeByPaymentIntentId(paymentIntentId);
+  if (!charge) {
+    console.log(`[GuaranteeDispute] No guarantee charge for dispute ${dispute.id} (${paymentIntentId})`);
+    return null;
+  }
+
+  const [session, config] = await Promise.all([
+    storage.getGuaranteeSessionById(charge.guaranteeSessionId),
+    storage.getGuaranteeConfig(charge.userId),
+  ]);
+  // Guarantee charges live on the business's connected account: an event from any other account is not theirs
+  if (!config?.stripeAccountId || event.account !== config.stripeAccountId) {
+    console.warn(`[GuaranteeDispute] Dispute ${dispute.id} from account ${event.account || 'platform'} ignored, charge ${charge.id} belongs to ${config?.stripeAccountId || 'no account'}`);
+    return null;
+  }
+
+  const isNew = !charge.disputeId;
+  const status = dispute.status as GuaranteeDisputeStatus;
+  // Events may arrive out of order: a late update must not reopen a closed dispute
+  const wasClosed = CLOSED_STATUSES.includes(charge.disputeStatus as GuaranteeDisputeStatus);
+  if (wasClosed && !CLOSED_STATUSES.includes(status)) {
+    console.log(`[GuaranteeDispute] Dispute ${dispute.id} already ${charge.disputeStatus}, ${status} ignored`);
+    return charge;
+  }
+
+  const updated = await storage.updateNoshowCharge(charge.id, {
+    disputed: true,
+    disputeId: dispute.id,
+    disputeReason: dispute.reason,
+    disputeStatus: status,
+    disputeEvidenceDueBy: dispute.evidence_details?.due_by ? new Date(dispute.evidence_details.due_by * 1000) : null,
+    ...(isNew && session && config && { disputeEvidence: buildDisputeEvidence(charge, session, config) }),
+  });
+
+  const becameClosed = CLOSED_STATUSES.includes(status) && !wasClosed;
+  if (isNew || becameClosed) {
+    const customerName = session?.customerName || 'Client';
+    await notifyGuaranteeDispute(storage, charge.userId, {
+      customerName,
+      amount: dispute.amount / 100,
+      status,
+      chargeId: charge.id,
+    });
+
+    if (isNew && config && isEmailConfigured()) {
+      const user = await storage.getUser(charge.userId);
+      if (user?.email) {
+        const result = await sendDisputeAlertEmail({
+          to: user.email,
+          companyName: config.companyName || 'Votre établissement',
+          customerName,
+          amount: dispute.amount,
+          reason: dispute.reason,
+          evidenceDueBy: updated?.disputeEvidenceDueBy || null,
+        });
+        if (!result.success) {
+          console.error(`[GuaranteeDispute] Alert email failed for dispute ${dispute.id}: ${result.error}`);
+        }
+      }
+    }
+  }
+
+  console.log(`[GuaranteeDispute] Dispute ${dispute.id} on charge ${charge.id}: ${status}`);
+  return updated || null;
+}
+
+/**
+ * Sends the evidence packet to Stripe and submits it: the dispute then goes under review by the bank
+ */
+export async function submitDisputeEvidence(
+  stripe: Stripe,
+  config: ClientGuaranteeConfig,
+  charge: NoshowCharge,
+  evidence: GuaranteeDisputeEvidence
+): Promise<NoshowCharge | undefined> {
+  const dispute = await stripe.disputes.update(charge.disputeId!, {
+    evidence,
+    submit: true,
+  }, {
+    stripeAccount: config.stripeAccountId!,
+  });
+
+  return storage.updateNoshowCharge(charge.id, {
+    disputeEvidence: evidence,
+    disputeEvidenceSubmittedAt: new Date(),
+    disputeStatus: dispute.status as GuaranteeDisputeStatus,
+  });
+}
@@ -11,11 +11,12 @@ interface GuaranteeEmailOptions {
   config: ClientGuaranteeConfig;
   session: GuaranteeSession;
   checkoutUrl?: string;
+  isReminder?: boolean; // Automatic reminder of an unanswered card request
 }
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
-function getFrontendUrl(): string {
+export function getFrontendUrl(): string {
   if (process.env.FRONTEND_URL) {
     return process.env.FRONTEND_URL;
   }
@@ -50,7 +51,7 @@ function getDefaultFromAddress(): string {
 }
 
 export async function sendCardRequestEmail(options: GuaranteeEmailOptions): Promise<EmailResult> {
-  const { config, session, checkoutUrl } = options;
+  const { config, session, checkoutUrl, isReminder } = options;
   
   if (!session.customerEmail) {
     return { success: false, error: 'Pas d\'email client' };
@@ -67,7 +68,12 @@ export async function sendCardRequestEmail(options: GuaranteeEmailOptions): Prom
   const brandColor = config.brandColor || '#C8B88A';
   const companyName = config.companyName || 'Notre établissement';
   const reservationDate = formatDate(new Date(session.reservationDate));
-  const totalPenalty = (config.penaltyAmount || 30) * session.nbPersons;
+  const totalPenalty = session.penaltyAmount * session.nbPersons;
+  const cancellationDelay = session.cancellationDelay ?? config.cancellationDelay;
+  // Deposit mode: the card is debited right away, the amount is deducted from the bill
+  const deposit = session.guaranteeMode === 'deposit' && session.depositAmount
+    ? (session.depositAmount / 100).toLocaleString('fr-FR', { maximumFractionDigits: 2 })
+    : null;
   
   const html = `
 <!DOCTYPE html>
@@ -103,11 +109,11 @@ export async function sendCardRequestEmail(options: GuaranteeEmailOptions): Prom
           <tr>
             <td style="background: #ffffff; padding: 40px;">
               <h1 style="margin: 0 0 8px; font-size: 24px; font-weight: 700; color: #18181b; line-height: 1.3;">Confirmez votre réservation</h1>
-              <p style="margin: 0 0 28px; font-size: 15px; color: #71717a; line-height: 1.5;">Une garantie par carte bancaire est requise pour finaliser votre demande.</p>
+              <p style="margin: 0 0 28px; font-size: 15px; color: #71717a; line-height: 1.5;">${deposit ? 'Un acompte est requis pour finaliser votre demande.' : 'Une garantie par carte bancaire est requise pour finaliser votre demande.'}</p>
               
               <p style="margin: 0 0 24px; font-size: 15px; color: #3f3f46; line-height: 1.6;">Bonjour <strong style="color: #18181b;">${session.customerName}</strong>,</p>
               
-              <p style="margin: 0 0 28px; font-size: 15px; color: #3f3f46; line-height: 1.6;">Merci pour votre demande de réservation. Afin de la confirmer, nous vous invitons à enregistrer une carte bancaire.</p>
+              <p style="margin: 0 0 28px; font-size: 15px; color: #3f3f46; line-height: 1.6;">Merci pour votre demande de réservation. Afin de la confirmer, nous vous invitons à ${deposit ? `régler un acompte de ${deposit} EUR` : 'enregistrer une carte bancaire'}.</p>
               
               <!-- Reservation Details Box -->
               <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background: #fafafa; border: 1px solid #e4e4e7; border-radius: 8px; margin-bottom: 24px;">
@@ -137,8 +143,13 @@ export async function sendCardRequestEmail(options: GuaranteeEmailOptions): Prom
               <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background: #fffbeb; border-left: 3px solid ${brandColor}; margin-bottom: 28px;">
                 <tr>
                   <td style="padding: 16px 20px;">
+                    ${deposit ? `
+                    <div style="font-size: 14px; font-weight: 600; color: #92400e; margin-bottom: 6px;">Acompte de ${deposit} EUR</div>
+                    <div style="font-size: 14px; color: #a16207; line-height: 1.5;">L'acompte est deduit de votre addition. Il est conserve en cas de non-presentation sans annulation prealable.</div>
+                    ` : `
                     <div style="font-size: 14px; font-weight: 600; color: #92400e; margin-bottom: 6px;">Garantie sans engagement</div>
                     <div style="font-size: 14px; color: #a16207; line-height: 1.5;">Votre carte ne sera pas debitee. Elle sert uniquement de garantie en cas de non-presentation sans annulation prealable (${totalPenalty} EUR).</div>
+                    `}
                   </td>
                 </tr>
               </table>
@@ -147,15 +158,15 @@ export async function sendCardRequestEmail(options: GuaranteeEmailOptions): Prom
               <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
                 <tr>
                   <td style="text-align: center; padding-bottom: 24px;">
-                    <a href="${checkoutUrl}" style="display: inline-block; background: ${brandColor}; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 6px; font-size: 15px; font-weight: 600; letter-spacing: -0.2px;">Enregistrer ma carte</a>
+                    <a href="${checkoutUrl}" style="display: inline-block; background: ${brandColor}; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 6px; font-size: 15px; font-weight: 600; letter-spacing: -0.2px;">${deposit ? 'Regler l\'acompte' : 'Enregistrer ma carte'}</a>
                   </td>
                 </tr>
               </table>
               
               <p style="margin: 0 0 4px; font-size: 12px; color: #a1a1aa; text-align: center;">Paiement securise par Stripe</p>
               
-              ${config.cancellationDelay ? `
-              <p style="margin: 24px 0 0; font-size: 13px; color: #71717a; line-height: 1.5; text-align: center;">Annulation gratuite jusqu'a ${config.cancellationDelay}h avant votre reservation.</p>
+              ${cancellationDelay ? `
+              <p style="margin: 24px 0 0; font-size: 13px; color: #71717a; line-height: 1.5; text-align: center;">Annulation gratuite jusqu'a ${cancellationDelay}h avant votre reservation${deposit ? ', acompte rembourse' : ''}.</p>
               ` : ''}
             </td>
           </tr>
@@ -184,15 +195,17 @@ export async function sendCardRequestEmail(options: GuaranteeEmailOptions): Prom
     const { data, error } = await resend.emails.send({
       from: fromAddress,
       to: session.customerEmail,
-      subject: `${companyName} - Confirmez votre reservation du ${reservationDate}`,
+      subject: `${isReminder ? 'Rappel : ' : ''}${companyName} - Confirmez votre reservation du ${reservationDate}`,
       html,
       text: `Bonjour ${session.customerName},
 
-Pour confirmer votre reservation du ${reservationDate} pour ${session.nbPersons} personne(s), veuillez enregistrer votre carte bancaire en cliquant sur ce lien :
+Pour confirmer votre reservation du ${reservationDate} pour ${session.nbPersons} personne(s), veuillez ${deposit ? `regler un acompte de ${deposit} EUR` : 'enregistrer votre carte bancaire'} en cliquant sur ce lien :
 
 ${checkoutUrl}
 
-Votre carte ne sera pas debitee. Elle servira uniquement de garantie en cas de non-presentation.
+${deposit
+  ? 'L\'acompte est deduit de votre addition. Il est conserve en cas de non-presentation sans annulation prealable.'
+  : 'Votre carte ne sera pas debitee. Elle servira uniquement de garantie en cas de non-presentation.'}
 
 ${companyName}`,
     });
@@ -224,6 +237,11 @@ export async function sendConfirmationEmail(options: GuaranteeEmailOptions): Pro
   const brandColor = config.brandColor || '#C8B88A';
   const companyName = config.companyName || 'Notre établissement';
   const reservationDate = formatDate(new Date(session.reservationDate));
+  const cancellationDelay = session.cancellationDelay ?? config.cancellationDelay;
+  // QR code shown at the desk: scanned by the staff, it checks the customer in
+  const checkInQrUrl = config.noshowDetectionMode !== 'off' && config.noshowDetectionSources.includes('qr')
+    ? `${getFrontendUrl()}/api/guarantee/public/session/${session.id}/check-in-qr`
+    : null;
   
   const html = `
 <!DOCTYPE html>
@@ -317,6 +335,18 @@ export async function sendConfirmationEmail(options: GuaranteeEmailOptions): Pro
                 </tr>
               </table>
               
+              ${checkInQrUrl ? `
+              <!-- Check-in QR Code -->
+              <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="margin-bottom: 24px;">
+                <tr>
+                  <td style="padding: 8px 24px; text-align: center;">
+                    <img src="${checkInQrUrl}" width="160" height="160" alt="QR code d'arrivee" style="display: block; margin: 0 auto 8px;">
+                    <div style="font-size: 13px; color: #71717a;">Presentez ce QR code a votre arrivee</div>
+                  </td>
+                </tr>
+              </table>
+              ` : ''}
+              
               <!-- Info Box -->
               <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background: #f0f9ff; border-radius: 8px; margin-bottom: 24px;">
                 <tr>
@@ -324,7 +354,7 @@ export async function sendConfirmationEmail(options: GuaranteeEmailOptions): Pro
                     <div style="font-size: 13px; font-weight: 600; color: #0369a1; margin-bottom: 12px;">A retenir</div>
                     <div style="font-size: 13px; color: #0c4a6e; line-height: 1.7;">
                       <div style="margin-bottom: 6px;">- Votre carte ne sera pas debitee si vous honorez votre reservation</div>
-                      ${config.cancellationDelay ? `<div style="margin-bottom: 6px;">- Annulation gratuite jusqu'a ${config.cancellationDelay}h avant</div>` : ''}
+                      ${cancellationDelay ? `<div style="margin-bottom: 6px;">- Annulation gratuite jusqu'a ${cancellationDelay}h avant</div>` : ''}
                       <div>- En cas de retard, prevenez-nous pour conserver votre table</div>
                     </div>
                   </td>
@@ -387,6 +417,141 @@ ${companyName}`,
   }
 }
 
+/**
+ * Tells the customer their reservation was cancelled because the card was never provided
+ */
+export async function sendAutoCancelEmail(options: GuaranteeEmailOptions): Promise<EmailResult> {
+  const { config, session } = options;
+
+  if (!session.customerEmail) {
+    return { success: false, error: 'Pas d\'email client' };
+  }
+
+  if (!process.env.RESEND_API_KEY) {
+    return { success: false, error: 'Resend non configuré' };
+  }
+
+  const companyName = config.companyName || 'Notre etablissement';
+  const dateStr = formatDate(session.reservationDate);
+  const timeStr = session.reservationTime ? ` a ${session.reservationTime}` : '';
+
+  const html = `
+<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Reservation annulee</title>
+</head>
+<body style="margin: 0; padding: 24px; background-color: #f4f4f5; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <div style="max-width: 560px; margin: 0 auto; background-color: #ffffff; border-radius: 12px; padding: 32px;">
+    <h1 style="margin: 0 0 16px; font-size: 20px; color: #18181b;">Reservation annulee</h1>
+    <p style="margin: 0 0 12px; font-size: 15px; color: #3f3f46;">Bonjour ${session.customerName},</p>
+    <p style="margin: 0 0 12px; font-size: 15px; color: #3f3f46;">Votre reservation chez ${companyName} du ${dateStr}${timeStr} a ete annulee, la carte bancaire demandee en garantie n'ayant pas ete enregistree a temps.</p>
+    <p style="margin: 0; font-size: 15px; color: #3f3f46;">Pour reserver a nouveau, contactez directement l'etablissement.</p>
+  </div>
+</body>
+</html>
+`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: getFromAddress(config),
+      to: session.customerEmail,
+      subject: `Reservation annulee - ${companyName}`,
+      html,
+      text: `Bonjour ${session.customerName},
+
+Votre reservation chez ${companyName} du ${dateStr}${timeStr} a ete annulee, la carte bancaire demandee en garantie n'ayant pas ete enregistree a temps.
+
+Pour reserver a nouveau, contactez directement l'etablissement.
+
+${companyName}`,
+    });
+
+    if (error) {
+      console.error('[GuaranteeEmail] Resend error:', error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`[GuaranteeEmail] Auto-cancel email sent via Resend to ${session.customerEmail}, ID: ${data?.id}`);
+    return { success: true, messageId: data?.id };
+  } catch (error: any) {
+    console.error('[GuaranteeEmail] Error sending auto-cancel email:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+interface DisputeAlertEmailOptions {
+  to: string;
+  companyName: string;
+  customerName: string;
+  amount: number; // Cents
+  reason: string;
+  evidenceDueBy: Date | null;
+}
+
+/**
+ * Alert sent to the business when a customer disputes a guarantee charge
+ */
+export async function sendDisputeAlertEmail(options: DisputeAlertEmailOptions): Promise<EmailResult> {
+  const { to, companyName, customerName, amount, reason, evidenceDueBy } = options;
+
+  if (!process.env.RESEND_API_KEY) {
+    return { success: false, error: 'Resend non configuré' };
+  }
+
+  const amountLabel = `${(amount / 100).toFixed(2)} EUR`;
+  const historyUrl = `${getFrontendUrl()}/guarantee/history`;
+  const deadline = evidenceDueBy ? `avant le ${formatDate(evidenceDueBy)}` : 'au plus vite';
+
+  const html = `
+<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Litige sur une garantie</title>
+</head>
+<body style="margin: 0; padding: 24px; background-color: #f4f4f5; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <div style="max-width: 560px; margin: 0 auto; background-color: #ffffff; border-radius: 12px; padding: 32px;">
+    <h1 style="margin: 0 0 16px; font-size: 20px; color: #18181b;">Litige sur une garantie</h1>
+    <p style="margin: 0 0 12px; font-size: 15px; color: #3f3f46;">${customerName} conteste aupres de sa banque le prelevement de <strong>${amountLabel}</strong> effectue pour ${companyName}.</p>
+    <p style="margin: 0 0 12px; font-size: 15px; color: #3f3f46;">Motif indique par la banque : ${reason}</p>
+    <p style="margin: 0 0 24px; font-size: 15px; color: #3f3f46;">Un dossier de preuves a ete prepare automatiquement (validation de la carte, details de la reservation, conditions, relances). Verifiez-le et envoyez-le ${deadline}.</p>
+    <a href="${historyUrl}" style="display: inline-block; padding: 12px 24px; background-color: #18181b; color: #ffffff; text-decoration: none; border-radius: 8px; font-size: 15px;">Voir le dossier</a>
+  </div>
+</body>
+</html>
+`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: getDefaultFromAddress(),
+      to,
+      subject: `Litige sur une garantie - ${customerName} - ${amountLabel}`,
+      html,
+      text: `${customerName} conteste aupres de sa banque le prelevement de ${amountLabel} effectue pour ${companyName}.
+
+Motif indique par la banque : ${reason}
+
+Un dossier de preuves a ete prepare automatiquement. Verifiez-le et envoyez-le ${deadline} :
+${historyUrl}`,
+    });
+
+    if (error) {
+      console.error('[GuaranteeEmail] Resend error:', error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`[GuaranteeEmail] Dispute alert sent via Resend to ${to}, ID: ${data?.id}`);
+    return { success: true, messageId: data?.id };
+  } catch (error: any) {
+    console.error('[GuaranteeEmail] Error sending dispute alert email:', error);
+    return { success: false, error: error.message };
+  }
+}
+
 export function isEmailConfigured(): boolean {
   return !!process.env.RESEND_API_KEY;
 }
@@ -0,0 +1,242 @@
+// Guarantee no-shows - Attendance outcome of a reservation, customer check-in and automatic no-show detection
+import type Stripe from 'stripe';
+import { storage } from '../storage';
+import { notifyNoshowDetected } from '../notifications';
+import type { ClientGuaranteeConfig, GuaranteeCheckInSource, GuaranteeSession } from '@shared/schema';
+import { DEFAULT_TIMEZONE } from '../call-analytics.utils';
+import { getReservationStart } from './guarantee-reminder.service';
+import { isDepositSession, settleDepositAtCompletion } from './guarantee-deposit.service';
+import { emitWebhookEvent, guaranteeEventData } from './outbound-webhook.service';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+// Customers often order a drink at the bar before being seated
+const CHECK_IN_EARLY_MINUTES = 60;
+
+export type ReservationOutcomeResult =
+  | { success: true; charged: boolean; amount?: number; deposit?: 'retained' | 'applied' }
+  | { success: false; error: string };
+
+export const hasPaidDeposit = (session: GuaranteeSession) => isDepositSession(session) && session.depositStatus === 'paid';
+
+/**
+ * Closes a validated reservation: attended, or no-show with the penalty charged on the saved card
+ * (the paid deposit is kept instead in deposit mode). A failed charge is logged and leaves the session in noshow_failed.
+ * The session is claimed by a conditional update first, so concurrent requests and the detection job close it once.
+ */
+export async function applyReservationOutcome(
+  stripe: Stripe,
+  config: ClientGuaranteeConfig | undefined,
+  session: GuaranteeSession,
+  status: 'attended' | 'noshow'
+): Promise<ReservationOutcomeResult> {
+  const stripeAccount = config?.stripeAccountId;
+  if (status === 'noshow' && !hasPaidDeposit(session) && !stripeAccount) {
+    return { success: false, error: 'Compte Stripe non connecté' };
+  }
+
+  const claimed = await storage.updateGuaranteeSessionIfStatus(session.id, 'validated', {
+    status: status === 'attended' ? 'completed' : 'noshow_processing',
+  });
+  if (!claimed) {
+    return { success: false, error: 'Réservation déjà traitée' };
+  }
+
+  // Deposit mode: the deposit is deducted from the bill, or kept instead of a penalty charge
+  if (hasPaidDeposit(session)) {
+    const updatedSession = await storage.updateGuaranteeSession(
+      session.id,
+      await settleDepositAtCompletion(session, status)
+    );
+    if (status === 'noshow' && updatedSession) {
+      emitWebhookEvent(session.userId, 'guarantee.noshow_charged', guaranteeEventData(updatedSession));
+    }
+
+    return {
+      success: true,
+      charged: status === 'noshow',
+      deposit: status === 'noshow' ? 'retained' : 'applied',
+      amount: session.depositAmount! / 100,
+    };
+  }
+
+  if (status === 'attended') {
+    return { success: true, charged: false };
+  }
+
+  const amountCents = session.penaltyAmount * session.nbPersons * 100;
+
+  try {
+    // Get the setup intent to retrieve payment method
+    const setupIntent = await stripe.setupIntents.retrieve(
+      session.setupIntentId!,
+      { stripeAccount: stripeAccount! }
+    );
+
+    const paymentMethodId = setupIntent.payment_method as string;
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: amountCents,
+      currency: 'eur',
+      customer: session.customerStripeId || undefined,
+      payment_method: paymentMethodId,
+      confirm: true,
+      off_session: true,
+      description: `Pénalité no-show - Réservation du ${new Date(session.reservationDate).toLocaleDateString('fr-FR')}`,
+      metadata: {
+        reservation_id: session.reservationId,
+        session_id: session.id,
+      },
+    }, {
+      stripeAccount: stripeAccount!,
+      idempotencyKey: `noshow-${session.id}`,
+    });
+
+    const chargedSession = await storage.updateGuaranteeSession(session.id, {
+      status: 'noshow_charged',
+      chargedAmount: amountCents,
+      chargedAt: new Date(),
+      paymentMethodId,
+    });
+    if (chargedSession) {
+      emitWebhookEvent(session.userId, 'guarantee.noshow_charged', guaranteeEventData(chargedSession));
+    }
+
+    await storage.createNoshowCharge({
+      guaranteeSessionId: session.id,
+      userId: session.userId,
+      chargeType: 'noshow_penalty',
+      paymentIntentId: paymentIntent.id,
+      amount: amountCents,
+      currency: 'eur',
+      status: 'succeeded',
+    });
+
+    return { success: true, charged: true, amount: amountCents / 100 };
+  } catch (stripeError: any) {
+    console.error('[Guarantee] Stripe charge failed:', stripeError);
+
+    await storage.updateGuaranteeSession(session.id, {
+      status: 'noshow_failed',
+    });
+    await storage.createNoshowCharge({
+      guaranteeSessionId: session.id,
+      userId: session.userId,
+      chargeType: 'noshow_penalty',
+      amount: amountCents,
+      currency: 'eur',
+      status: 'failed',
+      failureReason: stripeError.message,
+    });
+
+    return { success: false, error: stripeError.message };
+  }
+}
+
+/**
+ * Records the customer's arrival and closes the reservation as attended, taking it out of the review queue.
+ * A second check-in of the same reservation is a no-op; null when the reservation can no longer be checked in.
+ */
+export async function recordCheckIn(
+  session: GuaranteeSession,
+  source: GuaranteeCheckInSource,
+  reference: string | null = null,
+  checkedInAt: Date = new Date()
+): Promise<GuaranteeSession | null> {
+  if (session.status === 'completed' && session.checkedInAt) return session;
+
+  // Arrival and outcome in one claim: a reservation the no-show job took in the meantime is left alone
+  const checkedIn = await storage.updateGuaranteeSessionIfStatus(session.id, 'validated', {
+    status: 'completed',
+    checkedInAt,
+    checkInSource: source,
+    checkInReference: reference,
+    noshowDetectedAt: null,
+    noshowAutoApplyAt: null,
+  });
+  if (!checkedIn) return null;
+
+  if (hasPaidDeposit(checkedIn)) {
+    return (await storage.updateGuaranteeSession(checkedIn.id, await settleDepositAtCompletion(checkedIn, 'attended'))) || checkedIn;
+  }
+  return checkedIn;
+}
+
+/**
+ * Grace-period job over past validated reservations of businesses with detection on:
+ * an order at the POS checks the customer in; without any arrival after the grace period the no-show
+ * goes to the review queue, and in auto mode is charged once the review delay is over.
+ */
+export async function processNoshowDetection(
+  stripe: Stripe,
+  now: Date = new Date()
+): Promise<{ checkedIn: number; detected: number; charged: number; failed: number }> {
+  const sessions = await storage.getSessionsForNoshowDetection();
+  let checkedIn = 0;
+  let detected = 0;
+  let charged = 0;
+  let failed = 0;
+
+  for (const { config, ...session } of sessions) {
+    try {
+      const reservationStart = getReservationStart(session);
+      if (now < reservationStart) continue;
+
+      if (config.noshowDetectionSources.includes('pos')) {
+        const order = await storage.findCheckInOrder(
+          session.userId,
+          { email: session.customerEmail, phone: session.customerPhone },
+          new Date(reservationStart.getTime() - CHECK_IN_EARLY_MINUTES * MINUTE_MS),
+          now
+        );
+        if (order) {
+          if (await recordCheckIn(session, 'pos', order.id, order.orderDate)) {
+            checkedIn++;
+            console.log(`[GuaranteeNoshow] Session ${session.id} checked in from POS order ${order.id}`);
+          }
+          continue;
+        }
+      }
+
+      if (!session.noshowDetectedAt) {
+        if (now.getTime() < reservationStart.getTime() + config.noshowGraceMinutes * MINUTE_MS) continue;
+
+        const autoApplyAt = config.noshowDetectionMode === 'auto'
+          ? new Date(now.getTime() + config.noshowReviewHours * HOUR_MS)
+          : null;
+        await storage.updateGuaranteeSession(session.id, {
+          noshowDetectedAt: now,
+          noshowAutoApplyAt: autoApplyAt,
+        });
+        await notifyNoshowDetected(storage, session.userId, {
+          customerName: session.customerName,
+          reservationDate: new Intl.DateTimeFormat('fr-FR', {
+            dateStyle: 'short',
+            timeStyle: 'short',
+            timeZone: session.timezone || DEFAULT_TIMEZONE,
+          }).format(reservationStart),
+          autoApplyAt,
+        });
+        detected++;
+        continue;
+      }
+
+      // The mode may have been switched back to review since the detection
+      if (config.noshowDetectionMode !== 'auto' || !session.noshowAutoApplyAt || now < session.noshowAutoApplyAt) continue;
+
+      const result = await applyReservationOutcome(stripe, config, session, 'noshow');
+      if (result.success) {
+        charged++;
+        console.log(`[GuaranteeNoshow] Session ${session.id} applied as no-show after review delay`);
+      } else {
+        failed++;
+        console.error(`[GuaranteeNoshow] No-show charge failed for session ${session.id}: ${result.error}`);
+      }
+    } catch (error: any) {
+      failed++;
+      console.error(`[GuaranteeNoshow] Error processing session ${session.id}:`, error.message);
+    }
+  }
+
+  return { checkedIn, detected, charged, failed };
+}
@@ -0,0 +1,173 @@
+// Guarantee reminders - Automatic card request reminders and auto-cancel of pending sessions
+import { storage } from '../storage';
+import {
+  type ClientGuaranteeConfig,
+  type GuaranteeSession,
+  type GuaranteeReminderScheduleItem,
+} from '@shared/schema';
+import { atTimeOfDayInTimeZone, DEFAULT_TIMEZONE } from '../call-analytics.utils';
+import { sendCardRequestEmail, sendAutoCancelEmail, isEmailConfigured, getFrontendUrl } from './guarantee-email.service';
+import { sendGuaranteeCardRequestSms, isSmsConfigured } from './twilio-sms.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const TIME_PATTERN = /^(\d{1,2})[:hH](\d{2})/;
+
+type ReminderConfig = Pick<ClientGuaranteeConfig, 'cardReminderEnabled' | 'cardReminderSteps' | 'autoCancelPendingHours'>;
+type ScheduledSession = Pick<GuaranteeSession, 'createdAt' | 'reservationDate' | 'reservationTime' | 'timezone'>;
+
+interface ReminderPlan {
+  reservationStart: Date;
+  reminders: Date[];
+  autoCancelAt: Date | null;
+}
+
+/**
+ * Start of the reservation: its date at the booked time in the session's time zone,
+ * the stored date alone when no valid time was given
+ */
+export function getReservationStart(session: Pick<GuaranteeSession, 'reservationDate' | 'reservationTime' | 'timezone'>): Date {
+  const match = session.reservationTime ? TIME_PATTERN.exec(session.reservationTime.trim()) : null;
+  if (!match) return session.reservationDate;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return session.reservationDate;
+  return atTimeOfDayInTimeZone(session.reservationDate, hours, minutes, session.timezone || DEFAULT_TIMEZONE);
+}
+
+/**
+ * Reminder times of a session, in order. Steps falling before the request
+ * or after the auto-cancel/reservation deadline are dropped.
+ */
+function planReminders(config: ReminderConfig, session: ScheduledSession): ReminderPlan {
+  const reservationStart = getReservationStart(session);
+  const autoCancelAt = config.autoCancelPendingHours
+    ? new Date(reservationStart.getTime() - config.autoCancelPendingHours * HOUR_MS)
+    : null;
+  const deadline = autoCancelAt || reservationStart;
+
+  const times = config.cardReminderEnabled
+    ? (config.cardReminderSteps || []).map(step => step.anchor === 'after_request'
+        ? session.createdAt.getTime() + step.hours * HOUR_MS
+        : reservationStart.getTime() - step.hours * HOUR_MS)
+    : [];
+  const reminders = Array.from(new Set(times))
+    .filter(time => time > session.createdAt.getTime() && time < deadline.getTime())
+    .sort((a, b) => a - b)
+    .map(time => new Date(time));
+
+  return { reservationStart, reminders, autoCancelAt };
+}
+
+/**
+ * Automatic actions still ahead for a pending session, shown next to the reservation
+ */
+export function getRemainingReminderSchedule(
+  config: ReminderConfig,
+  session: ScheduledSession,
+  now: Date = new Date()
+): GuaranteeReminderScheduleItem[] {
+  const { reminders, autoCancelAt } = planReminders(config, session);
+  const schedule: GuaranteeReminderScheduleItem[] = reminders
+    .filter(dueAt => dueAt > now)
+    .map(dueAt => ({ type: 'reminder', dueAt }));
+  if (autoCancelAt && autoCancelAt > now) {
+    schedule.push({ type: 'auto_cancel', dueAt: autoCancelAt });
+  }
+  return schedule;
+}
+
+/**
+ * Sends the card request again by email and/or SMS, as enabled in the config.
+ * 'sent' as soon as one channel delivered, 'skipped' when no channel applies to the session.
+ */
+async function sendCardReminder(config: ClientGuaranteeConfig, session: GuaranteeSession): Promise<'sent' | 'failed' | 'skipped'> {
+  const validationUrl = `${getFrontendUrl()}/guarantee/validate/${session.id}`;
+  let attempted = false;
+  let delivered = false;
+
+  if (config.cardReminderEmail && session.customerEmail && isEmailConfigured()) {
+    attempted = true;
+    const result = await sendCardRequestEmail({ config, session, checkoutUrl: validationUrl, isReminder: true });
+    if (result.success) {
+      delivered = true;
+    } else {
+      console.error(`[GuaranteeReminder] Email failed for session ${session.id}: ${result.error}`);
+    }
+  }
+
+  if (config.cardReminderSms && session.customerPhone && isSmsConfigured()) {
+    attempted = true;
+    const result = await sendGuaranteeCardRequestSms(
+      session.customerPhone,
+      session.customerName,
+      config.companyName || 'Établissement',
+      validationUrl,
+      session.reservationDate,
+      session.nbPersons,
+      true,
+      session.guaranteeMode === 'deposit' ? session.depositAmount : null
+    );
+    if (result.success) {
+      delivered = true;
+    } else {
+      console.error(`[GuaranteeReminder] SMS failed for session ${session.id}: ${result.error}`);
+    }
+  }
+
+  if (!attempted) return 'skipped';
+  return delivered ? 'sent' : 'failed';
+}
+
+/**
+ * Applies the cadence to every pending session: cancels the ones past their deadline,
+ * sends the reminder whose time has come. Several missed steps (downtime) give a single reminder,
+ * and a manual resend made after a step's time counts for that step.
+ */
+export async function processCardReminders(now: Date = new Date()): Promise<{ reminded: number; cancelled: number; failed: number }> {
+  const sessions = await storage.getPendingSessionsForCardReminder();
+  let reminded = 0;
+  let cancelled = 0;
+  let failed = 0;
+
+  for (const { config, ...session } of sessions) {
+    try {
+      const { reservationStart, reminders, autoCancelAt } = planReminders(config, session);
+
+      if (autoCancelAt && now >= autoCancelAt) {
+        // The card may have been validated since the sessions were read: only a still pending one is cancelled
+        const cancelledSession = await storage.updateGuaranteeSessionIfStatus(session.id, 'pending', { status: 'cancelled' });
+        if (!cancelledSession) continue;
+        cancelled++;
+        console.log(`[GuaranteeReminder] Session ${session.id} auto-cancelled, card still missing`);
+        if (config.cardReminderEmail && cancelledSession.customerEmail && isEmailConfigured()) {
+          const result = await sendAutoCancelEmail({ config, session: cancelledSession });
+          if (!result.success) {
+            console.error(`[GuaranteeReminder] Cancellation email failed for session ${session.id}: ${result.error}`);
+          }
+        }
+        continue;
+      }
+      if (now >= reservationStart) continue;
+
+      const dueReminder = reminders.filter(dueAt => dueAt <= now).pop();
+      if (!dueReminder || (session.lastReminderAt && session.lastReminderAt >= dueReminder)) continue;
+
+      const outcome = await sendCardReminder(config, session);
+      if (outcome === 'sent') {
+        await storage.updateGuaranteeSession(session.id, {
+          reminderCount: session.reminderCount + 1,
+          lastReminderAt: now,
+        });
+        reminded++;
+      } else if (outcome === 'failed') {
+        failed++;
+      }
+    } catch (error: any) {
+      failed++;
+      console.error(`[GuaranteeReminder] Error processing session ${session.id}:`, error.message);
+    }
+  }
+
+  return { reminded, cancelled, failed };
+}
@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ClientGuaranteeConfig, GuaranteeRule, GuaranteeRuleCondition } from "@shared/schema";
+import { storage } from "../storage";
+import { findMatchingGuaranteeRule, matchesGuaranteeRule, resolveGuaranteeRule, type GuaranteeRuleContext } from "./guarantee-rules.service";
+
+vi.mock("../storage", () => ({
+  storage: { isReturningGuaranteeCustomer: vi.fn() },
+}));
+
+// Reached through the reminder service, whose email client needs an API key on load
+vi.mock("./guarantee-email.service", () => ({}));
+
+// Friday 16 October 2026, 20:00 in Paris
+const friday: GuaranteeRuleContext = {
+  reservationDate: new Date("2026-10-16T00:00:00Z"),
+  reservationTime: "20:00",
+  timezone: "Europe/Paris",
+  nbPersons: 6,
+  serviceType: "Dîner",
+  isReturningCustomer: false,
+};
+
+// Wednesday 14 October 2026, 12:30 in Paris
+const wednesday: GuaranteeRuleContext = {
+  ...friday,
+  reservationDate: new Date("2026-10-14T00:00:00Z"),
+  reservationTime: "12:30",
+  nbPersons: 2,
+};
+
+const weekend: GuaranteeRuleCondition = { type: "day_of_week", days: [5, 6, 0] };
+const largeGroup: GuaranteeRuleCondition = { type: "party_size", min: 6 };
+
+function rule(overrides: Partial<GuaranteeRule> = {}): GuaranteeRule {
+  return {
+    id: "rule-1",
+    name: "Week-end",
+    enabled: true,
+    match: "all",
+    conditions: [weekend],
+    penaltyAmount: 30,
+    cancellationDelay: 24,
+    ...overrides,
+  };
+}
+
+function config(overrides: Partial<ClientGuaranteeConfig> = {}): ClientGuaranteeConfig {
+  return {
+    userId: "user-1",
+    applyTo: "all",
+    minPersons: 4,
+    penaltyAmount: 20,
+    cancellationDelay: 12,
+    applicationRules: [],
+    ...overrides,
+  } as ClientGuaranteeConfig;
+}
+
+describe("matchesGuaranteeRule", () => {
+  it("requires every condition with match all", () => {
+    const guarded = rule({ conditions: [weekend, largeGroup] });
+
+    expect(matchesGuaranteeRule(guarded, friday)).toBe(true);
+    expect(matchesGuaranteeRule(guarded, { ...friday, nbPersons: 2 })).toBe(false);
+  });
+
+  it("requires a single condition with match any", () => {
+    const guarded = rule({ match: "any", conditions: [weekend, largeGroup] });
+
+    expect(matchesGuaranteeRule(guarded, { ...friday, nbPersons: 2 })).toBe(true);
+    expect(matchesGuaranteeRule(guarded, { ...wednesday, nbPersons: 8 })).toBe(true);
+    expect(matchesGuaranteeRule(guarded, wednesday)).toBe(false);
+  });
+
+  it("never matches a rule without conditions", () => {
+    expect(matchesGuaranteeRule(rule({ match: "all", conditions: [] }), friday)).toBe(false);
+    expect(matchesGuaranteeRule(rule({ match: "any", conditions: [] }), friday)).toBe(false);
+  });
+
+  it("reads the day and time in the reservation's time zone", () => {
+    // 00:30 on Saturday in Paris is still Friday in UTC
+    const lateNight = { ...friday, reservationDate: new Date("2026-10-17T00:00:00Z"), reservationTime: "00:30" };
+
+    expect(matchesGuaranteeRule(rule({ conditions: [{ type: "day_of_week", days: [6] }] }), lateNight)).toBe(true);
+    expect(matchesGuaranteeRule(rule({ conditions: [{ type: "time_range", from: "22:00", to: "02:00" }] }), lateNight)).toBe(true);
+    expect(matchesGuaranteeRule(rule({ conditions: [{ type: "time_range", from: "22:00", to: "02:00" }] }), friday)).toBe(false);
+  });
+
+  it("does not match a condition on an unknown fact", () => {
+    const evening = rule({ conditions: [{ type: "time_range", from: "19:00", to: "23:00" }] });
+    const dinner = rule({ conditions: [{ type: "service_type", values: ["dîner "] }] });
+
+    expect(matchesGuaranteeRule(evening, { ...friday, reservationTime: null })).toBe(false);
+    expect(matchesGuaranteeRule(dinner, friday)).toBe(true);
+    expect(matchesGuaranteeRule(dinner, { ...friday, serviceType: null })).toBe(false);
+  });
+
+  it("matches special dates every year or on a single day", () => {
+    expect(matchesGuaranteeRule(rule({ conditions: [{ type: "special_date", dates: ["10-16"] }] }), friday)).toBe(true);
+    expect(matchesGuaranteeRule(rule({ conditions: [{ type: "special_date", dates: ["2025-10-16"] }] }), friday)).toBe(false);
+  });
+});
+
+describe("findMatchingGuaranteeRule", () => {
+  it("returns the first matching rule in the configured order", () => {
+    const groups = rule({ id: "groups", conditions: [largeGroup], penaltyAmount: 50 });
+    const weekends = rule({ id: "weekends", penaltyAmount: 30 });
+
+    expect(findMatchingGuaranteeRule([groups, weekends], friday)?.id).toBe("groups");
+    expect(findMatchingGuaranteeRule([weekends, groups], friday)?.id).toBe("weekends");
+  });
+
+  it("skips disabled rules", () => {
+    const disabled = rule({ id: "disabled", enabled: false });
+    const groups = rule({ id: "groups", conditions: [largeGroup] });
+
+    expect(findMatchingGuaranteeRule([disabled, groups], friday)?.id).toBe("groups");
+  });
+
+  it("returns null when no rule matches", () => {
+    expect(findMatchingGuaranteeRule([rule()], wednesday)).toBeNull();
+  });
+});
+
+describe("resolveGuaranteeRule", () => {
+  beforeEach(() => {
+    vi.mocked(storage.isReturningGuaranteeCustomer).mockReset();
+  });
+
+  it("applies the penalty and delay of the matching rule", async () => {
+    const resolution = await resolveGuaranteeRule(config({ applicationRules: [rule()] }), friday);
+
+    expect(resolution).toEqual({ required: true, rule: expect.objectContaining({ id: "rule-1" }), penaltyAmount: 30, cancellationDelay: 24 });
+    expect(storage.isReturningGuaranteeCustomer).not.toHaveBeenCalled();
+  });
+
+  it("does not require the guarantee when rules exist but none matches", async () => {
+    const resolution = await resolveGuaranteeRule(config({ applyTo: "all", applicationRules: [rule()] }), wednesday);
+
+    expect(resolution).toMatchObject({ required: false, reason: "no_rule_matched" });
+  });
+
+  it("looks up the customer history only for a customer condition", async () => {
+    vi.mocked(storage.isReturningGuaranteeCustomer).mockResolvedValue(true);
+    const returning = rule({ conditions: [{ type: "customer", value: "returning" }] });
+
+    const resolution = await resolveGuaranteeRule(
+      config({ applicationRules: [returning] }),
+      { ...wednesday, customerEmail: "camille@exemple.fr", customerPhone: null }
+    );
+
+    expect(resolution.required).toBe(true);
+    expect(storage.isReturningGuaranteeCustomer).toHaveBeenCalledWith("user-1", { email: "camille@exemple.fr", phone: null });
+  });
+
+  describe("without enabled rules, falls back to the global setting", () => {
+    const disabledRules = [rule({ enabled: false })];
+
+    it("requires the guarantee for every reservation", async () => {
+      const resolution = await resolveGuaranteeRule(config({ applicationRules: disabledRules }), wednesday);
+
+      expect(resolution).toEqual({ required: true, rule: null, penaltyAmount: 20, cancellationDelay: 12 });
+    });
+
+    it("applies the minimum party size", async () => {
+      const minPersons = config({ applyTo: "min_persons", minPersons: 4 });
+
+      expect(await resolveGuaranteeRule(minPersons, wednesday)).toMatchObject({ required: false, reason: "min_persons_not_met" });
+      expect(await resolveGuaranteeRule(minPersons, friday)).toMatchObject({ required: true, rule: null });
+    });
+
+    it("applies the weekend from Friday to Sunday", async () => {
+      const weekendOnly = config({ applyTo: "weekend" });
+
+      expect(await resolveGuaranteeRule(weekendOnly, wednesday)).toMatchObject({ required: false, reason: "not_weekend" });
+      expect(await resolveGuaranteeRule(weekendOnly, friday)).toMatchObject({ required: true, rule: null });
+    });
+  });
+});
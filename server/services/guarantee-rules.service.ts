@@ -0,0 +1,151 @@
+// Guarantee rules - Decides whether a reservation needs the CB guarantee, and with which penalty and delay
+import { storage } from '../storage';
+import type { ClientGuaranteeConfig, GuaranteeRule, GuaranteeRuleCondition } from '@shared/schema';
+import { formatDateInTimeZone, DEFAULT_TIMEZONE } from '../call-analytics.utils';
+import { getReservationStart } from './guarantee-reminder.service';
+
+const TIME_PATTERN = /^(\d{1,2})[:hH](\d{2})/;
+
+export interface GuaranteeRuleContext {
+  reservationDate: Date;
+  reservationTime?: string | null;
+  timezone?: string | null;
+  nbPersons: number;
+  serviceType?: string | null;
+  isReturningCustomer: boolean;
+}
+
+/**
+ * What the conditions are checked against, in the reservation's time zone
+ */
+interface ReservationFacts {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number; // 0 = Sunday
+  minutes: number | null; // Minutes since midnight, null without a valid time
+  nbPersons: number;
+  serviceType: string | null;
+  isReturningCustomer: boolean;
+}
+
+export type GuaranteeRuleResolution =
+  | { required: true; rule: GuaranteeRule | null; penaltyAmount: number; cancellationDelay: number }
+  | { required: false; reason: 'min_persons_not_met' | 'not_weekend' | 'no_rule_matched'; message: string };
+
+function toMinutes(time: string): number | null {
+  const match = TIME_PATTERN.exec(time.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours > 23 || minutes > 59 ? null : hours * 60 + minutes;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+function getReservationFacts(context: GuaranteeRuleContext): ReservationFacts {
+  const timezone = context.timezone || DEFAULT_TIMEZONE;
+  const date = formatDateInTimeZone(getReservationStart({
+    reservationDate: context.reservationDate,
+    reservationTime: context.reservationTime ?? null,
+    timezone,
+  }), timezone);
+  const [year, month, day] = date.split('-').map(Number);
+
+  return {
+    date,
+    dayOfWeek: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    minutes: context.reservationTime ? toMinutes(context.reservationTime) : null,
+    nbPersons: context.nbPersons,
+    serviceType: context.serviceType ? normalize(context.serviceType) : null,
+    isReturningCustomer: context.isReturningCustomer,
+  };
+}
+
+/**
+ * A condition on an unknown fact (no time, no service type) does not match
+ */
+function matchesCondition(condition: GuaranteeRuleCondition, facts: ReservationFacts): boolean {
+  switch (condition.type) {
+    case 'day_of_week':
+      return condition.days.includes(facts.dayOfWeek);
+    case 'time_range': {
+      const from = toMinutes(condition.from);
+      const to = toMinutes(condition.to);
+      if (facts.minutes === null || from === null || to === null) return false;
+      // A range ending before it starts runs past midnight (22:00 - 02:00)
+      return from <= to
+        ? facts.minutes >= from && facts.minutes <= to
+        : facts.minutes >= from || facts.minutes <= to;
+    }
+    case 'party_size':
+      return (condition.min === undefined || facts.nbPersons >= condition.min)
+        && (condition.max === undefined || facts.nbPersons <= condition.max);
+    case 'special_date':
+      // MM-DD repeats every year, YYYY-MM-DD is a single day
+      return condition.dates.some(date => date.length === 5 ? facts.date.slice(5) === date : facts.date === date);
+    case 'service_type':
+      return facts.serviceType !== null && condition.values.some(value => normalize(value) === facts.serviceType);
+    case 'customer':
+      return (condition.value === 'returning') === facts.isReturningCustomer;
+  }
+}
+
+/**
+ * A rule without conditions (saved before they were required) matches nothing
+ */
+export function matchesGuaranteeRule(rule: GuaranteeRule, context: GuaranteeRuleContext): boolean {
+  if (rule.conditions.length === 0) return false;
+  const facts = getReservationFacts(context);
+  return rule.match === 'all'
+    ? rule.conditions.every(condition => matchesCondition(condition, facts))
+    : rule.conditions.some(condition => matchesCondition(condition, facts));
+}
+
+/**
+ * First enabled rule matching the reservation, in the configured order
+ */
+export function findMatchingGuaranteeRule(rules: GuaranteeRule[], context: GuaranteeRuleContext): GuaranteeRule | null {
+  return rules.find(rule => rule.enabled && matchesGuaranteeRule(rule, context)) || null;
+}
+
+export function getActiveGuaranteeRules(config: Pick<ClientGuaranteeConfig, 'applicationRules'>): GuaranteeRule[] {
+  return (config.applicationRules || []).filter(rule => rule.enabled);
+}
+
+/**
+ * Applies the configured rules to a reservation. Without any enabled rule the simple
+ * applyTo setting still decides (all, min persons, weekend from Friday to Sunday).
+ * The returning-customer lookup only runs when a rule needs it.
+ */
+export async function resolveGuaranteeRule(
+  config: ClientGuaranteeConfig,
+  reservation: Omit<GuaranteeRuleContext, 'isReturningCustomer'> & { customerEmail?: string | null; customerPhone?: string | null }
+): Promise<GuaranteeRuleResolution> {
+  const rules = getActiveGuaranteeRules(config);
+
+  if (rules.length > 0) {
+    const needsCustomerHistory = rules.some(rule => rule.conditions.some(condition => condition.type === 'customer'));
+    const isReturningCustomer = needsCustomerHistory
+      ? await storage.isReturningGuaranteeCustomer(config.userId, {
+          email: reservation.customerEmail,
+          phone: reservation.customerPhone,
+        })
+      : false;
+
+    const rule = findMatchingGuaranteeRule(rules, { ...reservation, isReturningCustomer });
+    if (!rule) {
+      return { required: false, reason: 'no_rule_matched', message: "Aucune règle de garantie ne s'applique à cette réservation" };
+    }
+    return { required: true, rule, penaltyAmount: rule.penaltyAmount, cancellationDelay: rule.cancellationDelay };
+  }
+
+  if (config.applyTo === 'min_persons' && reservation.nbPersons < (config.minPersons || 4)) {
+    return { required: false, reason: 'min_persons_not_met', message: `Garantie applicable à partir de ${config.minPersons} personnes` };
+  }
+  if (config.applyTo === 'weekend') {
+    const { dayOfWeek } = getReservationFacts({ ...reservation, isReturningCustomer: false });
+    if (dayOfWeek !== 0 && dayOfWeek !== 5 && dayOfWeek !== 6) {
+      return { required: false, reason: 'not_weekend', message: "Garantie applicable uniquement les week-ends (vendredi, samedi, dimanche)" };
+    }
+  }
+  return { required: true, rule: null, penaltyAmount: config.penaltyAmount, cancellationDelay: config.cancellationDelay };
+}
@@ -0,0 +1,275 @@
+// Marketing A/B Testing - Splits a test slice of the audience between variants,
+// then sends the best performing variant to the rest of the audience
+import { storage } from '../storage';
+import { sendCampaignToRecipients, resolveCampaignRecipients, type CampaignSendStatus } from '../marketing-email.service';
+import type { CreateAbTestCampaign, MarketingCampaign, MarketingContact } from '@shared/schema';
+
+export type AbWinnerMetric = 'opens' | 'clicks' | 'conversions';
+
+export interface AbVariantResult {
+  campaignId: string;
+  name: string;
+  emailSubject: string | null;
+  sent: number;
+  opened: number;
+  clicked: number;
+  converted: number;
+  openRate: number;
+  clickRate: number;
+  conversionRate: number;
+}
+
+export interface AbTestSummary {
+  parentCampaignId: string;
+  status: 'pending' | 'testing' | 'winner_selected';
+  winnerMetric: AbWinnerMetric;
+  testPercentage: number;
+  testDurationHours: number;
+  testEndsAt: Date | null;
+  winnerVariantId: string | null;
+  leadingVariantId: string | null;
+  variants: AbVariantResult[];
+}
+
+const DEFAULT_TEST_PERCENTAGE = 20;
+const DEFAULT_TEST_DURATION_HOURS = 4;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function getWinnerMetric(campaign: MarketingCampaign): AbWinnerMetric {
+  const metric = campaign.abWinnerMetric;
+  return metric === 'clicks' || metric === 'conversions' ? metric : 'opens';
+}
+
+/**
+ * Create the parent campaign (which later carries the winning content) and one child campaign per variant
+ */
+export async function createAbTestCampaign(
+  userId: string,
+  data: CreateAbTestCampaign
+): Promise<{ campaign: MarketingCampaign; variants: MarketingCampaign[] }> {
+  const [first] = data.variants;
+  const scheduledAt = data.scheduledAt ? new Date(data.scheduledAt) : undefined;
+
+  const campaign = await storage.createMarketingCampaign({
+    userId,
+    name: data.name,
+    type: data.type,
+    status: scheduledAt ? 'scheduled' : 'draft',
+    channel: 'email',
+    emailSubject: first.emailSubject,
+    emailContent: first.emailContent,
+    emailPreviewText: first.emailPreviewText,
+    segmentId: data.segmentId,
+    targetAll: data.targetAll,
+    scheduledAt,
+    isAbTest: true,
+    abTestPercentage: data.testPercentage,
+    abWinnerMetric: data.winnerMetric,
+    abTestDurationHours: data.testDurationHours,
+  });
+
+  const variants: MarketingCampaign[] = [];
+  for (let index = 0; index < data.variants.length; index++) {
+    const variant = data.variants[index];
+    const letter = String.fromCharCode(65 + index);
+    variants.push(await storage.createMarketingCampaign({
+      userId,
+      name: variant.name || `${data.name} - Variante ${letter}`,
+      type: data.type,
+      status: 'draft',
+      channel: 'email',
+      emailSubject: variant.emailSubject,
+      emailContent: variant.emailContent,
+      emailPreviewText: variant.emailPreviewText,
+      segmentId: data.segmentId,
+      targetAll: data.targetAll,
+      isAbTest: true,
+      abVariantOf: campaign.id,
+      abTestPercentage: Math.floor(data.testPercentage / data.variants.length),
+    }));
+  }
+
+  return { campaign, variants };
+}
+
+async function getVariantResults(variants: MarketingCampaign[]): Promise<AbVariantResult[]> {
+  const results: AbVariantResult[] = [];
+
+  for (const variant of variants) {
+    const stats = await storage.getCampaignSendStats(variant.id);
+    results.push({
+      campaignId: variant.id,
+      name: variant.name,
+      emailSubject: variant.emailSubject,
+      sent: stats.sent,
+      opened: stats.opened,
+      clicked: stats.clicked,
+      converted: stats.converted,
+      openRate: stats.sent > 0 ? round((stats.opened / stats.sent) * 100) : 0,
+      clickRate: stats.sent > 0 ? round((stats.clicked / stats.sent) * 100) : 0,
+      conversionRate: stats.sent > 0 ? round((stats.converted / stats.sent) * 100) : 0,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Rank variants on the chosen metric. Ties fall back to clicks, then opens,
+ * then creation order, so the result is deterministic.
+ */
+export function pickAbTestWinner(results: AbVariantResult[], metric: AbWinnerMetric): AbVariantResult | undefined {
+  const rateOf = (result: AbVariantResult, m: AbWinnerMetric) =>
+    m === 'conversions' ? result.conversionRate : m === 'clicks' ? result.clickRate : result.openRate;
+  const order: AbWinnerMetric[] = [metric, 'clicks', 'opens'];
+
+  return results
+    .filter(result => result.sent > 0)
+    .reduce<AbVariantResult | undefined>((best, current) => {
+      if (!best) return current;
+      for (const m of order) {
+        const diff = rateOf(current, m) - rateOf(best, m);
+        if (diff > 0) return current;
+        if (diff < 0) return best;
+      }
+      return best;
+    }, undefined);
+}
+
+/**
+ * A/B test results for a parent campaign or one of its variants
+ */
+export async function getAbTestSummary(campaign: MarketingCampaign): Promise<AbTestSummary | null> {
+  const parent = campaign.abVariantOf
+    ? await storage.getMarketingCampaignById(campaign.abVariantOf, campaign.userId)
+    : campaign;
+
+  if (!parent?.isAbTest) {
+    return null;
+  }
+
+  const variants = await storage.getAbTestVariants(parent.id);
+  const results = await getVariantResults(variants);
+  const metric = getWinnerMetric(parent);
+
+  return {
+    parentCampaignId: parent.id,
+    status: parent.abWinnerVariantId ? 'winner_selected' : parent.abTestEndsAt ? 'testing' : 'pending',
+    winnerMetric: metric,
+    testPercentage: parent.abTestPercentage ?? DEFAULT_TEST_PERCENTAGE,
+    testDurationHours: parent.abTestDurationHours ?? DEFAULT_TEST_DURATION_HOURS,
+    testEndsAt: parent.abTestEndsAt,
+    winnerVariantId: parent.abWinnerVariantId,
+    leadingVariantId: pickAbTestWinner(results, metric)?.campaignId ?? null,
+    variants: results,
+  };
+}
+
+/**
+ * Send each variant to its random share of the test slice, then reschedule
+ * the parent campaign for the end of the observation window.
+ */
+async function runTestPhase(parent: MarketingCampaign, variants: MarketingCampaign[]): Promise<{ sent: number; failed: number }> {
+  const alreadyStarted = variants.some(v => v.status !== 'draft');
+  let sent = 0;
+  let failed = 0;
+
+  await storage.updateMarketingCampaign(parent.id, parent.userId, {
+    status: 'sending',
+    sendingStartedAt: new Date(),
+  });
+
+  // After an interrupted test phase the slices cannot be rebuilt - keep what was sent
+  if (!alreadyStarted) {
+    const audience = shuffle<MarketingContact>(await resolveCampaignRecipients(parent, parent.userId));
+    const percentage = parent.abTestPercentage ?? DEFAULT_TEST_PERCENTAGE;
+    const testSize = Math.min(audience.length, Math.max(variants.length, Math.round(audience.length * percentage / 100)));
+    const sliceSize = Math.floor(testSize / variants.length);
+
+    for (let index = 0; index < variants.length; index++) {
+      const variant = variants[index];
+      const slice = audience.slice(index * sliceSize, (index + 1) * sliceSize);
+      const result = await sendCampaignToRecipients(variant.id, variant.userId, { recipients: slice });
+      sent += result.sent;
+      failed += result.failed;
+    }
+
+    await storage.updateMarketingCampaign(parent.id, parent.userId, { totalRecipients: audience.length });
+  }
+
+  const testEndsAt = new Date(Date.now() + (parent.abTestDurationHours ?? DEFAULT_TEST_DURATION_HOURS) * 60 * 60 * 1000);
+  await storage.updateMarketingCampaign(parent.id, parent.userId, {
+    status: 'scheduled',
+    scheduledAt: testEndsAt,
+    abTestEndsAt: testEndsAt,
+  });
+
+  console.log(`[MarketingABTest] Test phase sent for campaign ${parent.id}, winner selection at ${testEndsAt.toISOString()}`);
+  return { sent, failed };
+}
+
+/**
+ * Pick the winner (once) and send its content to every contact who did not receive a variant
+ */
+async function runWinnerPhase(
+  parent: MarketingCampaign,
+  variants: MarketingCampaign[]
+): Promise<{ sent: number; failed: number; status: CampaignSendStatus }> {
+  if (!parent.abWinnerVariantId) {
+    const results = await getVariantResults(variants);
+    const winnerResult = pickAbTestWinner(results, getWinnerMetric(parent));
+    const winner = variants.find(v => v.id === winnerResult?.campaignId) ?? variants[0];
+
+    await storage.updateMarketingCampaign(parent.id, parent.userId, {
+      emailSubject: winner.emailSubject,
+      emailContent: winner.emailContent,
+      emailPreviewText: winner.emailPreviewText,
+      abWinnerVariantId: winner.id,
+    });
+
+    console.log(`[MarketingABTest] Campaign ${parent.id}: variant "${winner.name}" wins on ${getWinnerMetric(parent)}`);
+  }
+
+  const excludeContactIds = new Set<string>();
+  for (const variant of variants) {
+    const sends = await storage.getMarketingSendsByCampaign(variant.id);
+    sends.forEach(send => excludeContactIds.add(send.contactId));
+  }
+
+  const result = await sendCampaignToRecipients(parent.id, parent.userId, {
+    excludeContactIds,
+    previousRecipients: excludeContactIds.size,
+  });
+  return { sent: result.sent, failed: result.failed, status: result.status };
+}
+
+/**
+ * Entry point for the campaign dispatcher when a due campaign is an A/B test parent
+ */
+export async function dispatchAbTestCampaign(
+  parent: MarketingCampaign
+): Promise<{ sent: number; failed: number; status: CampaignSendStatus | 'testing' }> {
+  const variants = await storage.getAbTestVariants(parent.id);
+  if (variants.length < 2) {
+    throw new Error('A/B test requires at least two variants');
+  }
+
+  if (!parent.abTestEndsAt) {
+    const result = await runTestPhase(parent, variants);
+    return { ...result, status: 'testing' };
+  }
+
+  return await runWinnerPhase(parent, variants);
+}
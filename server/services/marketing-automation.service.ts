@@ -0,0 +1,399 @@
+// Marketing Automation Engine - Detects triggers, enrolls contacts and runs workflow steps
+import { storage } from '../storage';
+import { sendMarketingEmail, replaceVariables, getContactVariables } from '../marketing-email.service';
+import { getTwilioService } from './twilio-sms.service';
+import {
+  marketingAutomationStepSchema,
+  type MarketingAutomation,
+  type MarketingAutomationLog,
+  type MarketingAutomationStep,
+  type MarketingContact,
+} from '@shared/schema';
+
+// The automation form uses a few legacy trigger names - map them to the canonical enum values
+const TRIGGER_ALIASES: Record<string, string> = {
+  inactive: 'inactive_custom',
+  segment_enter: 'segment_entered',
+  segment_joined: 'segment_entered',
+};
+
+// Contacts created within this window are eligible for `new_contact` automations
+const NEW_CONTACT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+// Visits within this window are eligible for `post_visit` automations
+const POST_VISIT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+// A contact can only receive a given birthday automation once per year
+const BIRTHDAY_COOLDOWN_MS = 300 * 24 * 60 * 60 * 1000;
+// A claimed enrollment is left to the run that claimed it for this long before another run may resume it
+const STEP_LEASE_MS = 15 * 60 * 1000;
+
+export interface AutomationRunStats {
+  enrolled: number;
+  processed: number;
+  completed: number;
+  failed: number;
+}
+
+/**
+ * Parse a compact duration ('30m', '2h', '7d', or a raw number of minutes) into milliseconds
+ */
+export function parseDelay(delay: string | number | undefined | null): number {
+  if (delay === undefined || delay === null || delay === '') return 0;
+  if (typeof delay === 'number') return Math.max(0, delay) * 60 * 1000;
+
+  const match = String(delay).trim().match(/^(\d+)\s*([mhd]?)$/i);
+  if (!match) return 0;
+
+  const value = parseInt(match[1], 10);
+  switch (match[2].toLowerCase()) {
+    case 'd':
+      return value * 24 * 60 * 60 * 1000;
+    case 'h':
+      return value * 60 * 60 * 1000;
+    default:
+      return value * 60 * 1000;
+  }
+}
+
+/**
+ * Normalize the stored `actions` JSON into a flat list of executable steps.
+ * A delay set on an email/sms/tag step is expanded into a preceding wait step so
+ * that `currentStep` always points to a single unit of work.
+ */
+export function getAutomationSteps(automation: MarketingAutomation): MarketingAutomationStep[] {
+  const rawActions = Array.isArray(automation.actions) ? automation.actions : [];
+  const steps: MarketingAutomationStep[] = [];
+
+  for (const raw of rawActions) {
+    const parsed = marketingAutomationStepSchema.safeParse(raw);
+    if (!parsed.success) {
+      console.warn(`[MarketingAutomation] Ignoring invalid step in automation ${automation.id}:`, raw);
+      continue;
+    }
+
+    const step = parsed.data;
+    if (step.type !== 'wait' && step.delay && parseDelay(step.delay) > 0) {
+      steps.push({ type: 'wait', delay: step.delay });
+    }
+    steps.push(step);
+  }
+
+  return steps;
+}
+
+function getTriggerConfig(automation: MarketingAutomation): Record<string, any> {
+  return (automation.triggerConfig as Record<string, any>) || {};
+}
+
+function resolveTriggerType(triggerType: string): string {
+  return TRIGGER_ALIASES[triggerType] || triggerType;
+}
+
+/**
+ * Find the contacts that currently satisfy an automation's trigger and have
+ * not already been enrolled for the same occurrence.
+ */
+async function findTriggeredContacts(automation: MarketingAutomation, now: Date): Promise<MarketingContact[]> {
+  const config = getTriggerConfig(automation);
+  const userId = automation.userId;
+
+  switch (resolveTriggerType(automation.triggerType)) {
+    case 'new_contact': {
+      const lookback = new Date(now.getTime() - NEW_CONTACT_LOOKBACK_MS);
+      const since = automation.createdAt > lookback ? automation.createdAt : lookback;
+      const contacts = await storage.getMarketingContactsCreatedSince(userId, since);
+      return filterNeverEnrolled(automation, contacts);
+    }
+
+    case 'birthday': {
+      const daysBefore = Number(config.days_before ?? config.daysBeforeBirthday ?? 0) || 0;
+      const target = new Date(now);
+      target.setDate(target.getDate() + daysBefore);
+      const contacts = await storage.getMarketingContactsByBirthday(userId, target.getMonth() + 1, target.getDate());
+      return filterEnrolledBefore(automation, contacts, () => new Date(now.getTime() - BIRTHDAY_COOLDOWN_MS));
+    }
+
+    case 'inactive_30d':
+    case 'inactive_60d':
+    case 'inactive_custom': {
+      const days = automation.triggerType === 'inactive_30d' ? 30
+        : automation.triggerType === 'inactive_60d' ? 60
+        : Number(config.inactive_days ?? config.inactiveDays ?? 30) || 30;
+      const before = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+      const contacts = await storage.getMarketingContactsByLastVisit(userId, { before });
+      // Re-enroll only once the contact has visited again since the last enrollment
+      return filterEnrolledBefore(automation, contacts, (contact) => contact.lastVisitAt!);
+    }
+
+    case 'post_visit': {
+      const after = new Date(now.getTime() - POST_VISIT_LOOKBACK_MS);
+      const contacts = await storage.getMarketingContactsByLastVisit(userId, { after, before: now });
+      return filterEnrolledBefore(automation, contacts, (contact) => contact.lastVisitAt!);
+    }
+
+    case 'tag_added': {
+      const tag = config.tag ?? config.tagName;
+      if (!tag) return [];
+      // Only tags added once the automation exists, each tagging enrolling the contact once
+      return storage.getMarketingContactsTaggedSince(userId, automation.id, tag, automation.createdAt);
+    }
+
+    case 'segment_entered': {
+      const segmentId = config.segment_id ?? config.segmentId;
+      if (!segmentId) return [];
+      const segment = await storage.getMarketingSegmentById(segmentId, userId);
+      if (!segment?.filters) return [];
+      const contacts = await storage.getMarketingContactsBySegmentFilters(userId, segment.filters as any);
+      return filterNeverEnrolled(automation, contacts);
+    }
+
+    default:
+      // 'manual' and custom events are enrolled explicitly through enrollContactInAutomation
+      return [];
+  }
+}
+
+async function getLatestLogsByContact(
+  automation: MarketingAutomation,
+  contacts: MarketingContact[]
+): Promise<Map<string, MarketingAutomationLog>> {
+  const logs = await storage.getLatestAutomationLogs(automation.id, contacts.map(contact => contact.id));
+  return new Map(logs.map(log => [log.contactId, log]));
+}
+
+async function filterNeverEnrolled(automation: MarketingAutomation, contacts: MarketingContact[]): Promise<MarketingContact[]> {
+  const latestLogs = await getLatestLogsByContact(automation, contacts);
+  return contacts.filter(contact => !latestLogs.has(contact.id));
+}
+
+async function filterEnrolledBefore(
+  automation: MarketingAutomation,
+  contacts: MarketingContact[],
+  getThreshold: (contact: MarketingContact) => Date
+): Promise<MarketingContact[]> {
+  const latestLogs = await getLatestLogsByContact(automation, contacts);
+  return contacts.filter(contact => {
+    const latest = latestLogs.get(contact.id);
+    return !latest || (latest.status !== 'running' && latest.triggeredAt < getThreshold(contact));
+  });
+}
+
+/**
+ * Enroll a contact in an automation. The first step runs on the next pass of the engine.
+ */
+export async function enrollContactInAutomation(
+  automation: MarketingAutomation,
+  contact: MarketingContact,
+  contextData?: Record<string, any>
+): Promise<MarketingAutomationLog> {
+  const log = await storage.createAutomationLog({
+    automationId: automation.id,
+    contactId: contact.id,
+    status: 'running',
+    currentStep: 0,
+    nextStepAt: new Date(),
+    contextData: { triggerType: automation.triggerType, ...contextData },
+  });
+
+  await storage.incrementAutomationStats(automation.id, 'triggered');
+  return log;
+}
+
+/**
+ * Scan all active automations and enroll newly triggered contacts
+ */
+export async function detectAutomationTriggers(now: Date = new Date()): Promise<number> {
+  const automations = await storage.getActiveMarketingAutomations();
+  let enrolled = 0;
+
+  for (const automation of automations) {
+    try {
+      if (getAutomationSteps(automation).length === 0) {
+        continue;
+      }
+
+      const contacts = await findTriggeredContacts(automation, now);
+      for (const contact of contacts) {
+        await enrollContactInAutomation(automation, contact);
+        enrolled++;
+      }
+
+      if (contacts.length > 0) {
+        console.log(`[MarketingAutomation] Enrolled ${contacts.length} contacts in "${automation.name}" (${automation.triggerType})`);
+      }
+    } catch (error: any) {
+      console.error(`[MarketingAutomation] Trigger detection failed for automation ${automation.id}:`, error.message);
+    }
+  }
+
+  return enrolled;
+}
+
+async function loadStepContent(
+  step: Extract<MarketingAutomationStep, { type: 'email' | 'sms' }>,
+  userId: string
+): Promise<{ subject: string; content: string }> {
+  if (step.templateId) {
+    const template = await storage.getMarketingTemplateById(step.templateId, userId);
+    if (!template) {
+      throw new Error(`Template ${step.templateId} not found`);
+    }
+    if (step.type === 'email') {
+      return { subject: step.subject || template.emailSubject || '', content: step.content || template.emailContent || '' };
+    }
+    return { subject: '', content: step.content || template.smsContent || '' };
+  }
+
+  return { subject: step.type === 'email' ? step.subject || '' : '', content: step.content || '' };
+}
+
+/**
+ * Execute a single send/tag step. Throws when the provider rejects the message.
+ */
+async function executeStep(
+  step: MarketingAutomationStep,
+  automation: MarketingAutomation,
+  contact: MarketingContact,
+  log: MarketingAutomationLog
+): Promise<void> {
+  const variables = { ...getContactVariables(contact), ...((log.contextData as Record<string, any>) || {}) };
+
+  if (step.type === 'tag') {
+    const tags = new Set(contact.tags || []);
+    if (step.action === 'add') tags.add(step.tag);
+    else tags.delete(step.tag);
+    await storage.updateMarketingContact(contact.id, automation.userId, { tags: Array.from(tags) });
+    return;
+  }
+
+  if (step.type === 'email') {
+    if (!contact.email || !contact.optInEmail) {
+      console.log(`[MarketingAutomation] Skipping email step for contact ${contact.id} (no email or no consent)`);
+      return;
+    }
+
+    const { subject, content } = await loadStepContent(step, automation.userId);
+    const result = await sendMarketingEmail({
+      to: contact.email,
+      subject: replaceVariables(subject, variables),
+      html: replaceVariables(content, variables),
+      // The log ID doubles as the tracking ID so unsubscribe links resolve to the contact
+      trackingId: log.id,
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || 'Email send failed');
+    }
+    await storage.incrementContactEmailStats(contact.id, 'sent');
+    return;
+  }
+
+  if (step.type === 'sms') {
+    if (!contact.phone || !contact.optInSms) {
+      console.log(`[MarketingAutomation] Skipping SMS step for contact ${contact.id} (no phone or no consent)`);
+      return;
+    }
+
+    const { content } = await loadStepContent(step, automation.userId);
+    const result = await getTwilioService().sendSms({
+      to: contact.phone,
+      message: replaceVariables(content, variables),
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || 'SMS send failed');
+    }
+    await storage.incrementContactSmsStats(contact.id);
+  }
+}
+
+/**
+ * Advance one enrollment as far as possible: runs steps until a wait is
+ * reached, the workflow completes, or a step fails.
+ */
+async function advanceAutomationLog(log: MarketingAutomationLog, stats: AutomationRunStats): Promise<void> {
+  const automation = await storage.getMarketingAutomationByIdAdmin(log.automationId);
+  if (!automation || !automation.isActive) {
+    await storage.updateAutomationLog(log.id, { status: 'cancelled', completedAt: new Date(), nextStepAt: null });
+    return;
+  }
+
+  const contact = await storage.getMarketingContactById(log.contactId, automation.userId);
+  if (!contact) {
+    await storage.updateAutomationLog(log.id, { status: 'cancelled', completedAt: new Date(), nextStepAt: null });
+    return;
+  }
+
+  const steps = getAutomationSteps(automation);
+  let stepIndex = log.currentStep || 0;
+
+  try {
+    while (stepIndex < steps.length) {
+      const step = steps[stepIndex];
+      stepIndex++;
+
+      if (step.type === 'wait') {
+        const delayMs = parseDelay(step.delay);
+        if (delayMs > 0) {
+          await storage.updateAutomationLog(log.id, {
+            currentStep: stepIndex,
+            nextStepAt: new Date(Date.now() + delayMs),
+          });
+          return;
+        }
+        continue;
+      }
+
+      await executeStep(step, automation, contact, log);
+      // Persist progress after each send so a crash never replays a delivered step
+      await storage.updateAutomationLog(log.id, { currentStep: stepIndex });
+    }
+
+    await storage.updateAutomationLog(log.id, {
+      status: 'completed',
+      currentStep: stepIndex,
+      completedAt: new Date(),
+      nextStepAt: null,
+    });
+    await storage.incrementAutomationStats(automation.id, 'completed');
+    stats.completed++;
+  } catch (error: any) {
+    console.error(`[MarketingAutomation] Step ${stepIndex} failed for log ${log.id}:`, error.message);
+    await storage.updateAutomationLog(log.id, {
+      status: 'failed',
+      currentStep: stepIndex - 1,
+      errorMessage: error.message,
+      completedAt: new Date(),
+      nextStepAt: null,
+    });
+    await storage.incrementAutomationStats(automation.id, 'failed');
+    stats.failed++;
+  }
+}
+
+/**
+ * Run every enrollment whose next step is due
+ */
+export async function processPendingAutomationSteps(stats: AutomationRunStats): Promise<void> {
+  const pendingLogs = await storage.claimDueAutomationLogs(new Date(Date.now() + STEP_LEASE_MS));
+
+  for (const log of pendingLogs) {
+    try {
+      await advanceAutomationLog(log, stats);
+      stats.processed++;
+    } catch (error: any) {
+      console.error(`[MarketingAutomation] Error processing log ${log.id}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Full engine pass: detect triggers, then execute due steps
+ */
+export async function runMarketingAutomations(): Promise<AutomationRunStats> {
+  const stats: AutomationRunStats = { enrolled: 0, processed: 0, completed: 0, failed: 0 };
+
+  stats.enrolled = await detectAutomationTriggers();
+  await processPendingAutomationSteps(stats);
+
+  return stats;
+}
@@ -0,0 +1,192 @@
+// Marketing Contact Sync - Upserts marketing contacts from ingested calls (opt-in per user)
+import { db } from '../db';
+import { storage } from '../storage';
+import { calls, type Call, type MarketingContact, type MarketingConfig } from '@shared/schema';
+import { eq, and, desc, isNotNull } from 'drizzle-orm';
+import { getPhoneKey, normalizeEmail, identityCondition } from '../utils/customer-identity';
+
+// Reservations used to infer the preferred day/time of a contact
+const PREFERENCE_HISTORY_LIMIT = 100;
+const RESERVATION_RESULTS = ['converted', 'rdv'];
+const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export type ContactSyncResult =
+  | { action: 'skipped'; reason: string }
+  | { action: 'created' | 'updated'; contactId: string };
+
+function isReservation(call: Pick<Call, 'appointmentDate' | 'conversionResult' | 'eventType'>): boolean {
+  return !!call.appointmentDate
+    && (RESERVATION_RESULTS.includes(call.conversionResult || '') || call.eventType === 'reservation');
+}
+
+function splitName(fullName?: string | null): { firstName: string | null; lastName: string | null } {
+  const parts = (fullName || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return { firstName: null, lastName: null };
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') || null };
+}
+
+function mostFrequent<T>(values: T[]): T | null {
+  const counts = new Map<T, number>();
+  let best: T | null = null;
+  let bestCount = 0;
+  values.forEach(value => {
+    const count = (counts.get(value) || 0) + 1;
+    counts.set(value, count);
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Most frequent reservation day ('monday'...) and hour ('20:00') in the business time zone
+ */
+async function inferPreferences(userId: string, phoneKey: string | null, email: string | null): Promise<{ preferredDay: string | null; preferredTime: string | null }> {
+  const history = await db
+    .select({ appointmentDate: calls.appointmentDate, conversionResult: calls.conversionResult, eventType: calls.eventType })
+    .from(calls)
+    .where(and(
+      eq(calls.userId, userId),
+      isNotNull(calls.appointmentDate),
+      identityCondition(phoneKey, email, calls.phoneNumber, calls.clientEmail),
+    ))
+    .orderBy(desc(calls.startTime))
+    .limit(PREFERENCE_HISTORY_LIMIT);
+
+  const timeZone = await storage.getUserTimezone(userId);
+  const formatter = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'long', hour: '2-digit', hourCycle: 'h23' });
+  const slots = history.filter(isReservation).map(call => {
+    const parts = formatter.formatToParts(call.appointmentDate!);
+    return {
+      day: (parts.find(p => p.type === 'weekday')?.value || '').toLowerCase(),
+      hour: parts.find(p => p.type === 'hour')?.value || '',
+    };
+  });
+
+  const day = mostFrequent(slots.map(slot => slot.day).filter(d => WEEK_DAYS.includes(d)));
+  const hour = mostFrequent(slots.map(slot => slot.hour).filter(Boolean));
+  return { preferredDay: day, preferredTime: hour ? `${hour}:00` : null };
+}
+
+async function recordCallConsent(contactId: string, channels: ('email' | 'sms')[], callId: string): Promise<void> {
+  for (const channel of channels) {
+    await storage.createConsentHistory(contactId, 'opt_in', channel, 'call', undefined, undefined, callId);
+  }
+}
+
+// Consent is only granted when the call payload says the caller explicitly agreed,
+// and on channels the business enabled
+function getCallConsent(call: Call, config: MarketingConfig): { email: boolean; sms: boolean } {
+  return {
+    email: config.callContactsOptInEmail && call.marketingConsentEmail === true,
+    sms: config.callContactsOptInSms && call.marketingConsentSms === true,
+  };
+}
+
+async function updateContactFromCall(contact: MarketingContact, call: Call, config: MarketingConfig, email: string | null, phoneKey: string | null): Promise<void> {
+  const { firstName, lastName } = splitName(call.clientName);
+  const updates: Partial<MarketingContact> = {};
+
+  // Fill the gaps only - details entered by the business are never overwritten
+  if (!contact.firstName && firstName) updates.firstName = firstName;
+  if (!contact.lastName && lastName) updates.lastName = lastName;
+  if (!contact.email && email) updates.email = email;
+  if (!contact.phone && phoneKey) updates.phone = call.phoneNumber;
+
+  if (isReservation(call)) {
+    Object.assign(updates, await inferPreferences(call.userId, getPhoneKey(contact.phone) || phoneKey, normalizeEmail(contact.email) || email));
+  }
+
+  // Consent collected on this call - never overrides a withdrawal
+  const consent = getCallConsent(call, config);
+  const granted: ('email' | 'sms')[] = [];
+  if (!contact.consentWithdrawnAt) {
+    if (consent.email && !contact.optInEmail && (contact.email || email)) {
+      updates.optInEmail = true;
+      updates.consentEmailAt = new Date();
+      granted.push('email');
+    }
+    if (consent.sms && !contact.optInSms && (contact.phone || phoneKey)) {
+      updates.optInSms = true;
+      updates.consentSmsAt = new Date();
+      granted.push('sms');
+    }
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await storage.updateMarketingContact(contact.id, contact.userId, updates);
+  }
+  await recordCallConsent(contact.id, granted, call.id);
+}
+
+async function createContactFromCall(call: Call, config: MarketingConfig, email: string | null, phoneKey: string | null): Promise<{ contact: MarketingContact; created: boolean }> {
+  const consent = getCallConsent(call, config);
+  const optInEmail = consent.email && !!email;
+  const optInSms = consent.sms && !!phoneKey;
+  const preferences = isReservation(call) ? await inferPreferences(call.userId, phoneKey, email) : {};
+
+  const result = await storage.upsertMarketingContactByPhone({
+    userId: call.userId,
+    email,
+    phone: phoneKey ? call.phoneNumber : null,
+    ...splitName(call.clientName),
+    source: 'speedai',
+    // Contact columns default to opted in: without explicit consent on the call, both stay off
+    optInEmail,
+    optInSms,
+    consentEmailAt: optInEmail ? new Date() : null,
+    consentSmsAt: optInSms ? new Date() : null,
+    ...preferences,
+  });
+
+  if (result.created) {
+    await recordCallConsent(result.contact.id, [
+      ...(optInEmail ? ['email' as const] : []),
+      ...(optInSms ? ['sms' as const] : []),
+    ], call.id);
+  } else {
+    // The same number was created by a concurrent sync: merge this call into it
+    await updateContactFromCall(result.contact, call, config, email, phoneKey);
+  }
+
+  return result;
+}
+
+export async function syncMarketingContactFromCall(call: Call): Promise<ContactSyncResult> {
+  const config = await storage.getMarketingConfig(call.userId);
+  if (!config?.autoCreateContactsFromCalls) {
+    return { action: 'skipped', reason: 'disabled' };
+  }
+
+  // Hidden numbers ('Numéro masqué', 'N/A') have no phone key
+  const phoneKey = getPhoneKey(call.phoneNumber);
+  const email = normalizeEmail(call.clientEmail);
+  if (!phoneKey && !email) {
+    return { action: 'skipped', reason: 'no_identity' };
+  }
+
+  let contact = await storage.findMarketingContactByIdentity(call.userId, { phone: call.phoneNumber, email });
+  let created = false;
+  if (contact) {
+    await updateContactFromCall(contact, call, config, email, phoneKey);
+  } else {
+    ({ contact, created } = await createContactFromCall(call, config, email, phoneKey));
+  }
+
+  if (isReservation(call)) {
+    await storage.recordMarketingContactVisit(contact.id, call.id, call.appointmentDate!);
+  }
+
+  return { action: created ? 'created' : 'updated', contactId: contact.id };
+}
+
+/**
+ * Fire-and-forget variant for the ingestion endpoints - a sync failure never fails the call ingestion
+ */
+export function queueMarketingContactSync(call: Call): void {
+  syncMarketingContactFromCall(call).catch(error => {
+    console.error(`[MarketingContactSync] Error syncing contact from call ${call.id}:`, error);
+  });
+}
@@ -9,14 +9,16 @@
  */
 
 import { db } from "../db";
-import { calls, tenants, tenantSettings, reviews, guaranteeSessions } from "@shared/schema";
+import { calls, tenants, tenantSettings, reviews, guaranteeSessions, type CallTaxonomyDefaults, type Review } from "@shared/schema";
 import { and, eq, gte, lte, sql } from "drizzle-orm";
 import { ReportDataService, MonthlyReportMetrics } from "../report-data.service";
+import { getEffectiveTaxonomy, buildOutcomeBreakdown, isConvertedCall } from "./call-taxonomy.service";
+import { attributeRevenue, getRevenueAttributionSummary } from "./revenue-attribution.service";
 import { 
   MbrV1, MbrTenant, MbrKpis, MbrCalls, MbrReservations, MbrFinance, 
   MbrReputation, MbrPerformanceScore, MbrSummaryBullet, MbrCallSlot, 
-  MbrWeeklyTrend, MbrPartySizeDistribution, MbrLeadTimeDistribution, 
-  MbrNoShow, MbrPartySizeVsNoShow, MbrReviewKeyword, MbrMeta, 
+  MbrWeeklyTrend, MbrCallOutcome, MbrPartySizeDistribution, MbrLeadTimeDistribution, 
+  MbrNoShow, MbrPartySizeVsNoShow, MbrReviewKeyword, MbrMeta, MbrMeasuredRevenue,
   ReportingInputs, DataCompleteness, createEmptyMbrV1
 } from "@shared/mbr-types";
 
@@ -61,10 +63,11 @@ export class MbrBuilderService {
     const tenant = await this.buildTenant(ctx);
     const mbr = createEmptyMbrV1(tenant);
 
-    const [callsData, reservationsData, reputationData] = await Promise.all([
+    const [callsData, reservationsData, reputationData, measuredRevenue] = await Promise.all([
       this.buildCalls(ctx),
       this.buildReservations(ctx),
-      this.buildReputation(ctx)
+      this.buildReputation(ctx),
+      this.buildMeasuredRevenue(ctx)
     ]);
 
     mbr.calls = callsData.calls;
@@ -72,7 +75,13 @@ export class MbrBuilderService {
     mbr.reputation = reputationData;
 
     mbr.kpis = this.buildKpis(ctx, callsData, reservationsData, reputationData);
+    mbr.kpis.measured_value_eur = measuredRevenue ? measuredRevenue.measured_eur : null;
     mbr.finance = this.buildFinance(ctx, callsData, reservationsData);
+    mbr.finance.measured_revenue = measuredRevenue;
+    if (measuredRevenue && measuredRevenue.measured_eur > 0) {
+      const matchedOrders = measuredRevenue.by_confidence.high.count + measuredRevenue.by_confidence.medium.count;
+      mbr.finance.notes.push(`${measuredRevenue.measured_eur.toLocaleString('fr-FR')} € de ventes réelles rattachées aux appels et réservations (${matchedOrders} commandes)`);
+    }
     mbr.kpis.roi_x = mbr.finance.roi_x;
     
     mbr.performance_score = this.buildPerformanceScore(mbr.kpis, callsData, reservationsData);
@@ -147,11 +156,15 @@ export class MbrBuilderService {
       ? and(eq(calls.tenantId, ctx.tenantId), gte(calls.createdAt, ctx.periodStart), lte(calls.createdAt, ctx.periodEnd))
       : and(eq(calls.userId, ctx.userId), gte(calls.createdAt, ctx.periodStart), lte(calls.createdAt, ctx.periodEnd));
 
-    const rawCalls = await db.select().from(calls).where(whereClause);
+    const [rawCalls, taxonomy] = await Promise.all([
+      db.select().from(calls).where(whereClause),
+      getEffectiveTaxonomy({ userId: ctx.userId, tenantId: ctx.tenantId })
+    ]);
 
     const heatmap = this.buildHeatmap(rawCalls);
-    const bySlot = this.buildCallSlots(rawCalls, metrics);
-    const weeklyTrend = this.buildWeeklyTrend(rawCalls, ctx.periodStart, ctx.periodEnd);
+    const bySlot = this.buildCallSlots(rawCalls, metrics, taxonomy);
+    const byOutcome = this.buildCallOutcomes(rawCalls, taxonomy);
+    const weeklyTrend = this.buildWeeklyTrend(rawCalls, ctx.periodStart, ctx.periodEnd, taxonomy);
     const insights = this.generateCallInsights(metrics, rawCalls);
 
     return {
@@ -160,6 +173,7 @@ export class MbrBuilderService {
         after_hours: metrics.afterHoursCalls,
         by_day_hour_heatmap: heatmap,
         by_slot: bySlot,
+        by_outcome: byOutcome,
         weekly_trend: weeklyTrend,
         insights
       },
@@ -189,7 +203,7 @@ export class MbrBuilderService {
     return { hours, days, matrix };
   }
 
-  private static buildCallSlots(rawCalls: any[], metrics: MonthlyReportMetrics): MbrCallSlot[] {
+  private static buildCallSlots(rawCalls: any[], metrics: MonthlyReportMetrics, taxonomy: CallTaxonomyDefaults): MbrCallSlot[] {
     const slots = [
       { label: 'Matin (9h-12h)', start: 9, end: 12 },
       { label: 'Midi (12h-14h)', start: 12, end: 14 },
@@ -212,11 +226,7 @@ export class MbrBuilderService {
         });
       }
 
-      const converted = slotCalls.filter(c => 
-        c.conversionResult === 'converted' || 
-        c.callSuccessful || 
-        c.appointmentDate !== null
-      ).length;
+      const converted = slotCalls.filter(c => isConvertedCall(taxonomy, c)).length;
       
       const withDuration = slotCalls.filter(c => c.duration && c.duration > 0);
       const avgDuration = withDuration.length > 0
@@ -234,7 +244,22 @@ export class MbrBuilderService {
     });
   }
 
-  private static buildWeeklyTrend(rawCalls: any[], periodStart: Date, periodEnd: Date): MbrWeeklyTrend[] {
+  /**
+   * Calls grouped by the canonical outcomes of the tenant's taxonomy
+   */
+  private static buildCallOutcomes(rawCalls: any[], taxonomy: CallTaxonomyDefaults): MbrCallOutcome[] {
+    const counts = new Map<string | null, number>();
+    rawCalls.forEach(c => counts.set(c.outcome, (counts.get(c.outcome) || 0) + 1));
+
+    return buildOutcomeBreakdown(taxonomy, Array.from(counts, ([outcome, count]) => ({ outcome, count })))
+      .filter(row => row.count > 0)
+      .map(row => ({
+        ...row,
+        percent: Math.round((row.count / rawCalls.length) * 100 * 10) / 10
+      }));
+  }
+
+  private static buildWeeklyTrend(rawCalls: any[], periodStart: Date, periodEnd: Date, taxonomy: CallTaxonomyDefaults): MbrWeeklyTrend[] {
     const weeks: MbrWeeklyTrend[] = [];
     const current = new Date(periodStart);
 
@@ -249,11 +274,7 @@ export class MbrBuilderService {
         return callDate >= weekStart && callDate <= weekEnd;
       });
 
-      const converted = weekCalls.filter(c => 
-        c.conversionResult === 'converted' || 
-        c.callSuccessful || 
-        c.appointmentDate !== null
-      ).length;
+      const converted = weekCalls.filter(c => isConvertedCall(taxonomy, c)).length;
       const weekLabel = `S${this.getWeekNumber(weekStart)}`;
 
       weeks.push({
@@ -542,8 +563,8 @@ export class MbrBuilderService {
     });
 
     const topKeywords = this.extractKeywords(rawReviews);
-    const strengths = rawReviews.filter(r => r.rating >= 4).slice(0, 3).map(r => r.text?.substring(0, 100) || '').filter(Boolean);
-    const improvements = rawReviews.filter(r => r.rating <= 2).slice(0, 3).map(r => r.text?.substring(0, 100) || '').filter(Boolean);
+    const strengths = rawReviews.filter(r => r.rating >= 4).slice(0, 3).map(r => r.content?.substring(0, 100) || '').filter(Boolean);
+    const improvements = rawReviews.filter(r => r.rating <= 2).slice(0, 3).map(r => r.content?.substring(0, 100) || '').filter(Boolean);
 
     const valuePerReview = 150;
     const annualValueEst = newCount > 0 ? newCount * valuePerReview * 12 : null;
@@ -567,12 +588,12 @@ export class MbrBuilderService {
     };
   }
 
-  private static extractKeywords(rawReviews: any[]): MbrReviewKeyword[] {
+  private static extractKeywords(rawReviews: Pick<Review, 'content' | 'rating'>[]): MbrReviewKeyword[] {
     const keywords: Record<string, { count: number; sentimentSum: number }> = {};
 
     rawReviews.forEach(review => {
-      if (!review.text) return;
-      const words = review.text.toLowerCase().split(/\s+/);
+      if (!review.content) return;
+      const words = review.content.toLowerCase().split(/\s+/);
       const sentiment = (review.rating || 3) >= 4 ? 1 : (review.rating || 3) <= 2 ? -1 : 0;
 
       words.forEach(word => {
@@ -613,6 +634,7 @@ export class MbrBuilderService {
       calls_total: callsData.calls.total,
       reservations_total: reservationsData.reservations.total,
       estimated_value_eur: estimatedValue > 0 ? Math.round(estimatedValue) : null,
+      measured_value_eur: null,
       reviews_avg_rating: reputationData.reviews.avg_rating,
       no_show_rate: reservationsData.reservations.no_show.rate,
       roi_x: null
@@ -702,6 +724,31 @@ export class MbrBuilderService {
     return 45;
   }
 
+  /**
+   * Revenue of the orders received over the month and linked to calls/reservations.
+   * Null when no integration brought orders, so the report keeps the estimate alone.
+   */
+  private static async buildMeasuredRevenue(ctx: BuilderContext): Promise<MbrMeasuredRevenue | null> {
+    const period = { start: ctx.periodStart, end: ctx.periodEnd };
+    await attributeRevenue(ctx.userId, period);
+    const summary = await getRevenueAttributionSummary(ctx.userId, period);
+    if (summary.revenueSources === 0) return null;
+
+    const byConfidence = (level: 'high' | 'medium' | 'low') => ({
+      amount_eur: summary.byConfidence[level].amount,
+      count: summary.byConfidence[level].count
+    });
+
+    return {
+      measured_eur: summary.measuredRevenue,
+      possible_eur: summary.possibleRevenue,
+      by_confidence: { high: byConfidence('high'), medium: byConfidence('medium'), low: byConfidence('low') },
+      attributed_calls: summary.attributedCalls,
+      attributed_reservations: summary.attributedReservations,
+      orders_total: summary.revenueSources
+    };
+  }
+
   private static buildFinance(
     ctx: BuilderContext, 
     callsData: CallsBuilderResult, 
@@ -765,6 +812,7 @@ export class MbrBuilderService {
       total_value_eur: totalValue > 0 ? Math.round(totalValue) : null,
       net_benefit_eur: Math.round(netBenefit),
       roi_x: roiX,
+      measured_revenue: null,
       notes
     };
   }
@@ -793,7 +841,7 @@ export class MbrBuilderService {
   ): { enabled: boolean; discoveries: string[]; alerts: string[]; actions: string[]; strategicMeeting: string; closingNote: string } {
     const discoveries: string[] = [];
     const alerts: string[] = [];
-    const actions: string[] = [];
+    const actions: { action: string; impact: string; effort: string }[] = [];
 
     const metrics = callsData.metrics;
     const noShowRate = reservationsData.reservations.no_show.rate;
@@ -867,9 +915,7 @@ export class MbrBuilderService {
       });
     }
 
-    const formattedActions = actions.map((a: any) => 
-      typeof a === 'string' ? a : `${a.action} | Impact: ${a.impact} | Effort: ${a.effort}`
-    );
+    const formattedActions = actions.map(a => `${a.action} | Impact: ${a.impact} | Effort: ${a.effort}`);
 
     const strategicMeeting = "Nous vous proposons un point stratégique mensuel pour analyser ensemble ces résultats, ajuster les priorités et définir les objectifs du mois à venir.";
 
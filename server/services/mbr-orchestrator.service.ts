@@ -258,6 +258,12 @@ export class MbrOrchestratorService {
           <td style="color: #22c55e; font-weight: 600; text-align: right;">${kpis.estimated_value_eur.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', minimumFractionDigits: 0 })}</td>
         </tr>
         ` : ''}
+        ${kpis.measured_value_eur !== null ? `
+        <tr>
+          <td style="color: #64748b; padding: 4px 0;">Ventes mesurées</td>
+          <td style="color: #22c55e; font-weight: 600; text-align: right;">${kpis.measured_value_eur.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', minimumFractionDigits: 0 })}</td>
+        </tr>
+        ` : ''}
         ${performance_score.global !== null ? `
         <tr>
           <td style="color: #64748b; padding: 4px 0;">Score de performance</td>
@@ -292,6 +298,7 @@ Résumé:
 - Appels totaux: ${kpis.calls_total}
 - Réservations: ${kpis.reservations_total}
 ${kpis.estimated_value_eur !== null ? `- Valeur estimée: ${kpis.estimated_value_eur.toLocaleString('fr-FR')} €` : ''}
+${kpis.measured_value_eur !== null ? `- Ventes mesurées: ${kpis.measured_value_eur.toLocaleString('fr-FR')} €` : ''}
 
 Pour plus de détails, consultez le PDF en pièce jointe.
 
@@ -0,0 +1,240 @@
+// Outbound Webhooks - Delivers platform events to the HTTPS endpoints registered by tenants
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { fetchPublicUrl, isPrivateHost, PRIVATE_HOST_MESSAGE } from '../utils/network-guard';
+import type { Call, GuaranteeSession, OutboundWebhookEvent, WebhookDelivery, WebhookEndpoint } from '@shared/schema';
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Backoff between attempts: 1 min, 2 min, 4 min... about 4h15 of retries in total
+const MAX_ATTEMPTS = 9;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+// Endpoints failing for this many deliveries in a row are disabled
+const MAX_CONSECUTIVE_FAILURES = 50;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+export interface WebhookEventEnvelope {
+  id: string;
+  type: OutboundWebhookEvent;
+  createdAt: string;
+  test?: boolean;
+  data: Record<string, unknown>;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Signature sent in X-SpeedAI-Signature: HMAC SHA-256 of "<timestamp>.<body>" with the endpoint secret.
+ * Signing the timestamp lets receivers reject replayed deliveries.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function getRetryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+}
+
+export function validateWebhookUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:') return "L'URL doit utiliser HTTPS";
+    if (isPrivateHost(parsed.hostname)) return PRIVATE_HOST_MESSAGE;
+    return null;
+  } catch {
+    return "URL invalide";
+  }
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+  const startedAt = Date.now();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    // The host is resolved again on every delivery: its DNS may point elsewhere since the URL was saved
+    const response = await fetchPublicUrl(new URL(endpoint.url), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SpeedAI-Webhooks/1.0',
+        'X-SpeedAI-Event': delivery.event,
+        'X-SpeedAI-Delivery': delivery.id,
+        'X-SpeedAI-Timestamp': String(timestamp),
+        'X-SpeedAI-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH) || null;
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err: any) {
+    error = err?.name === 'TimeoutError' ? `Timeout après ${REQUEST_TIMEOUT_MS / 1000}s` : (err?.message || String(err));
+  }
+
+  const success = error === null;
+  const exhausted = !success && attempts >= MAX_ATTEMPTS;
+
+  const updated = await storage.updateWebhookDelivery(delivery.id, {
+    status: success ? 'success' : exhausted ? 'failed' : 'retrying',
+    attempts,
+    nextAttemptAt: success || exhausted ? null : new Date(Date.now() + getRetryDelayMs(attempts)),
+    responseStatus,
+    responseBody,
+    error,
+    durationMs: Date.now() - startedAt,
+    deliveredAt: success ? new Date() : null,
+  });
+
+  const consecutiveFailures = success ? 0 : endpoint.consecutiveFailures + 1;
+  await storage.updateWebhookEndpoint(endpoint.id, endpoint.userId, {
+    consecutiveFailures,
+    lastDeliveryAt: new Date(),
+    lastDeliveryStatus: success ? 'success' : 'failed',
+    ...(consecutiveFailures >= MAX_CONSECUTIVE_FAILURES ? { isActive: false } : {}),
+  });
+
+  if (consecutiveFailures === MAX_CONSECUTIVE_FAILURES) {
+    console.warn(`[OutboundWebhooks] Endpoint ${endpoint.id} disabled after ${consecutiveFailures} failed deliveries`);
+  }
+
+  return updated || delivery;
+}
+
+async function createAndDeliver(endpoint: WebhookEndpoint, envelope: WebhookEventEnvelope): Promise<WebhookDelivery> {
+  const delivery = await storage.createWebhookDelivery({
+    endpointId: endpoint.id,
+    userId: endpoint.userId,
+    eventId: envelope.id,
+    event: envelope.type,
+    payload: envelope,
+  });
+
+  return attemptDelivery(delivery, endpoint);
+}
+
+function buildEnvelope(event: OutboundWebhookEvent, data: Record<string, unknown>, test: boolean = false): WebhookEventEnvelope {
+  return {
+    id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+    type: event,
+    createdAt: new Date().toISOString(),
+    ...(test ? { test: true } : {}),
+    data,
+  };
+}
+
+/**
+ * Send an event to every active endpoint of the user subscribed to it.
+ * Never throws and does not wait for the deliveries - failures are retried by the cron.
+ */
+export function emitWebhookEvent(userId: string, event: OutboundWebhookEvent, data: Record<string, unknown>): void {
+  (async () => {
+    const endpoints = await storage.getWebhookEndpointsForEvent(userId, event);
+    if (endpoints.length === 0) return;
+
+    const envelope = buildEnvelope(event, data);
+    await Promise.all(endpoints.map(endpoint => createAndDeliver(endpoint, envelope).catch(error => {
+      console.error(`[OutboundWebhooks] Delivery of ${event} to endpoint ${endpoint.id} failed:`, error);
+    })));
+  })().catch(error => {
+    console.error(`[OutboundWebhooks] Error emitting ${event} for user ${userId}:`, error);
+  });
+}
+
+// Payloads of the events, shared by every place emitting them
+export function callEventData(call: Call): Record<string, unknown> {
+  return {
+    callId: call.id,
+    phoneNumber: call.phoneNumber,
+    startTime: call.startTime,
+    endTime: call.endTime,
+    duration: call.duration,
+    status: call.status,
+    eventType: call.eventType,
+    conversionResult: call.conversionResult,
+    outcome: call.outcome,
+    clientName: call.clientName,
+    clientEmail: call.clientEmail,
+    appointmentDate: call.appointmentDate,
+    summary: call.summary,
+    agentId: call.agentId,
+  };
+}
+
+export function guaranteeEventData(session: GuaranteeSession): Record<string, unknown> {
+  return {
+    sessionId: session.id,
+    reservationId: session.reservationId,
+    customerName: session.customerName,
+    customerEmail: session.customerEmail,
+    customerPhone: session.customerPhone,
+    nbPersons: session.nbPersons,
+    reservationDate: session.reservationDate,
+    reservationTime: session.reservationTime,
+    status: session.status,
+    penaltyAmount: session.penaltyAmount,
+    chargedAmount: session.chargedAmount,
+    validatedAt: session.validatedAt,
+    chargedAt: session.chargedAt,
+  };
+}
+
+// Sample data so receivers can build their integration before real events happen
+const TEST_EVENT_DATA: Record<OutboundWebhookEvent, Record<string, unknown>> = {
+  'call.created': { callId: 'test_call', phoneNumber: '+33600000000', startTime: new Date().toISOString(), duration: 95, status: 'completed', eventType: 'reservation', clientName: 'Jean Dupont' },
+  'guarantee.validated': { sessionId: 'test_session', reservationId: 'RES-TEST', customerName: 'Jean Dupont', nbPersons: 2, reservationDate: new Date().toISOString(), status: 'validated' },
+  'guarantee.noshow_charged': { sessionId: 'test_session', reservationId: 'RES-TEST', customerName: 'Jean Dupont', nbPersons: 2, status: 'noshow_charged', penaltyAmount: 30, chargedAmount: 6000 },
+  'review.received': { reviewId: 'test_review', platform: 'google', rating: 5, reviewerName: 'Jean Dupont', content: 'Excellent accueil !' },
+  'waitlist.confirmed': { entryId: 'test_entry', firstName: 'Jean', lastName: 'Dupont', phone: '+33600000000', requestedSlot: new Date().toISOString() },
+  'campaign.sent': { campaignId: 'test_campaign', name: 'Campagne test', channel: 'email', totalSent: 120, totalFailed: 2 },
+};
+
+export async function sendTestWebhookEvent(endpoint: WebhookEndpoint, event?: OutboundWebhookEvent): Promise<WebhookDelivery> {
+  const type = event || (endpoint.events[0] as OutboundWebhookEvent) || 'call.created';
+  return createAndDeliver(endpoint, buildEnvelope(type, TEST_EVENT_DATA[type], true));
+}
+
+/**
+ * Manual retry from the delivery log - the attempt count keeps growing so backoff still applies afterwards
+ */
+export async function redeliverWebhook(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const endpoint = await storage.getWebhookEndpointById(delivery.endpointId, delivery.userId);
+  if (!endpoint) {
+    throw new Error('Endpoint introuvable');
+  }
+  return attemptDelivery(delivery, endpoint);
+}
+
+export async function processDueWebhookDeliveries(): Promise<{ retried: number; succeeded: number; failed: number }> {
+  const stats = { retried: 0, succeeded: 0, failed: 0 };
+  const deliveries = await storage.getDueWebhookDeliveries();
+
+  for (const delivery of deliveries) {
+    const endpoint = await storage.getWebhookEndpointById(delivery.endpointId, delivery.userId);
+    if (!endpoint || !endpoint.isActive) {
+      await storage.updateWebhookDelivery(delivery.id, { status: 'failed', nextAttemptAt: null, error: 'Endpoint désactivé' });
+      stats.failed++;
+      continue;
+    }
+
+    stats.retried++;
+    const result = await attemptDelivery(delivery, endpoint);
+    if (result.status === 'success') {
+      stats.succeeded++;
+    } else if (result.status === 'failed') {
+      stats.failed++;
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,438 @@
+// Revenue attribution - Links calls and reservations to real orders and payments from integrations
+import { db } from '../db';
+import {
+  calls,
+  guaranteeSessions,
+  externalOrders,
+  externalTransactions,
+  externalCustomers,
+  revenueAttributions,
+  REVENUE_ATTRIBUTION_CONFIDENCES,
+  type InsertRevenueAttribution,
+  type RevenueAttributionConfidence,
+  type RevenueAttributionMatch,
+  type RevenueAttributionDetail,
+  type RevenueAttributionSummary,
+} from '@shared/schema';
+import { eq, and, gte, lte, ne, or, isNull, isNotNull, notInArray, sql, count, desc } from 'drizzle-orm';
+import { getPhoneKey, normalizeEmail } from '../utils/customer-identity';
+import type { TimePeriod } from '../call-analytics.utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The order is at the reserved slot: the customer came for the booking
+const RESERVATION_MATCH_HOURS = 3;
+// Orders placed within a week of the contact are likely a consequence of it
+const MEDIUM_WINDOW_DAYS = 7;
+// Beyond a month, the call is unlikely to be the reason of the purchase
+const LOW_WINDOW_DAYS = 30;
+// POS clocks and call timestamps are not perfectly aligned
+const CLOCK_TOLERANCE_HOURS = 1;
+// Integrations sync orders late: the scheduled run recomputes the last weeks every night
+const REFRESH_DAYS = 35;
+
+const CONFIDENCE_SCORES: Record<RevenueAttributionConfidence, number> = { high: 90, medium: 60, low: 30 };
+const BOTH_IDENTIFIERS_BONUS = 10;
+
+// Amounts are shown in euros; orders in other currencies are left out
+const ATTRIBUTION_CURRENCY = 'EUR';
+const EXCLUDED_ORDER_STATUSES = ['cancelled', 'refunded'];
+
+interface Anchor {
+  callId: string | null;
+  guaranteeSessionId: string | null;
+  phoneKey: string | null;
+  email: string | null;
+  contactAt: Date; // When the customer called or booked
+  appointmentAt: Date | null; // Reserved slot, if any
+}
+
+interface RevenueSource {
+  orderId: string | null;
+  transactionId: string | null;
+  phoneKey: string | null;
+  email: string | null;
+  amount: number;
+  revenueAt: Date; // Order or payment date
+  slotAt: Date | null; // Reserved slot of the order, if any
+}
+
+interface AnchorMatch {
+  anchor: Anchor;
+  matchedBy: RevenueAttributionMatch;
+  confidence: RevenueAttributionConfidence;
+  score: number;
+  hoursFromContact: number;
+}
+
+/**
+ * Confidence of an anchor/source pair, or null when they can't be linked:
+ * same customer (phone or email) and an order at the reserved slot or after the contact
+ */
+function scoreMatch(anchor: Anchor, source: RevenueSource): AnchorMatch | null {
+  const phoneMatch = !!anchor.phoneKey && anchor.phoneKey === source.phoneKey;
+  const emailMatch = !!anchor.email && anchor.email === source.email;
+  if (!phoneMatch && !emailMatch) return null;
+
+  const hoursFromContact = (source.revenueAt.getTime() - anchor.contactAt.getTime()) / HOUR_MS;
+  const slotAt = source.slotAt || source.revenueAt;
+  const atReservedSlot = anchor.appointmentAt !== null
+    && Math.abs(slotAt.getTime() - anchor.appointmentAt.getTime()) <= RESERVATION_MATCH_HOURS * HOUR_MS;
+
+  let confidence: RevenueAttributionConfidence;
+  if (atReservedSlot) {
+    confidence = 'high';
+  } else if (hoursFromContact < -CLOCK_TOLERANCE_HOURS) {
+    return null;
+  } else if (hoursFromContact <= MEDIUM_WINDOW_DAYS * 24) {
+    confidence = 'medium';
+  } else if (hoursFromContact <= LOW_WINDOW_DAYS * 24) {
+    confidence = 'low';
+  } else {
+    return null;
+  }
+
+  const bothIdentifiers = phoneMatch && emailMatch;
+  return {
+    anchor,
+    matchedBy: bothIdentifiers ? 'phone_email' : phoneMatch ? 'phone' : 'email',
+    confidence,
+    score: Math.min(100, CONFIDENCE_SCORES[confidence] + (bothIdentifiers ? BOTH_IDENTIFIERS_BONUS : 0)),
+    hoursFromContact: Math.round(hoursFromContact * 10) / 10,
+  };
+}
+
+// Best score first, then the closest contact; calls win ties over reservations
+function isBetterMatch(candidate: AnchorMatch, current: AnchorMatch | null): boolean {
+  if (!current) return true;
+  if (candidate.score !== current.score) return candidate.score > current.score;
+  const candidateGap = Math.abs(candidate.hoursFromContact);
+  const currentGap = Math.abs(current.hoursFromContact);
+  if (candidateGap !== currentGap) return candidateGap < currentGap;
+  return candidate.anchor.callId !== null && current.anchor.callId === null;
+}
+
+async function loadRevenueSources(userId: string, period: TimePeriod): Promise<RevenueSource[]> {
+  const [orders, transactions] = await Promise.all([
+    db.select({
+      id: externalOrders.id,
+      phone: sql<string | null>`coalesce(${externalOrders.customerPhone}, ${externalCustomers.phone})`,
+      email: sql<string | null>`coalesce(${externalOrders.customerEmail}, ${externalCustomers.email})`,
+      amount: externalOrders.totalAmount,
+      orderDate: externalOrders.orderDate,
+      reservationDate: externalOrders.reservationDate,
+    })
+      .from(externalOrders)
+      .leftJoin(externalCustomers, eq(externalOrders.customerId, externalCustomers.id))
+      .where(and(
+        eq(externalOrders.userId, userId),
+        gte(externalOrders.orderDate, period.start),
+        lte(externalOrders.orderDate, period.end),
+        or(isNull(externalOrders.currency), eq(externalOrders.currency, ATTRIBUTION_CURRENCY)),
+        or(isNull(externalOrders.status), notInArray(externalOrders.status, EXCLUDED_ORDER_STATUSES)),
+        or(isNull(externalOrders.orderType), ne(externalOrders.orderType, 'refund')),
+      )),
+    // Payments already linked to an order are counted through the order
+    db.select({
+      id: externalTransactions.id,
+      phone: externalCustomers.phone,
+      email: externalCustomers.email,
+      amount: externalTransactions.amount,
+      transactionDate: externalTransactions.transactionDate,
+    })
+      .from(externalTransactions)
+      .innerJoin(externalCustomers, eq(externalTransactions.customerId, externalCustomers.id))
+      .where(and(
+        eq(externalTransactions.userId, userId),
+        isNull(externalTransactions.orderId),
+        eq(externalTransactions.transactionType, 'payment'),
+        eq(externalTransactions.status, 'completed'),
+        gte(externalTransactions.transactionDate, period.start),
+        lte(externalTransactions.transactionDate, period.end),
+        or(isNull(externalTransactions.currency), eq(externalTransactions.currency, ATTRIBUTION_CURRENCY)),
+      )),
+  ]);
+
+  return [
+    ...orders.map(order => ({
+      orderId: order.id,
+      transactionId: null,
+      phoneKey: getPhoneKey(order.phone),
+      email: normalizeEmail(order.email),
+      amount: Number(order.amount),
+      revenueAt: order.orderDate,
+      slotAt: order.reservationDate,
+    })),
+    ...transactions.map(transaction => ({
+      orderId: null,
+      transactionId: transaction.id,
+      phoneKey: getPhoneKey(transaction.phone),
+      email: normalizeEmail(transaction.email),
+      amount: Number(transaction.amount),
+      revenueAt: transaction.transactionDate,
+      slotAt: null,
+    })),
+  ].filter(source => (source.phoneKey || source.email) && source.amount > 0);
+}
+
+// Calls and reservations that may have led to an order of the period
+async function loadAnchors(userId: string, period: TimePeriod): Promise<Anchor[]> {
+  const since = new Date(period.start.getTime() - LOW_WINDOW_DAYS * 24 * HOUR_MS);
+
+  const [callRows, sessionRows] = await Promise.all([
+    db.select({
+      id: calls.id,
+      phoneNumber: calls.phoneNumber,
+      clientEmail: calls.clientEmail,
+      startTime: calls.startTime,
+      appointmentDate: calls.appointmentDate,
+    })
+      .from(calls)
+      .where(and(eq(calls.userId, userId), gte(calls.startTime, since), lte(calls.startTime, period.end))),
+    db.select({
+      id: guaranteeSessions.id,
+      customerPhone: guaranteeSessions.customerPhone,
+      customerEmail: guaranteeSessions.customerEmail,
+      createdAt: guaranteeSessions.createdAt,
+      reservationDate: guaranteeSessions.reservationDate,
+    })
+      .from(guaranteeSessions)
+      .where(and(
+        eq(guaranteeSessions.userId, userId),
+        ne(guaranteeSessions.status, 'cancelled'),
+        gte(guaranteeSessions.createdAt, since),
+        lte(guaranteeSessions.createdAt, period.end),
+      )),
+  ]);
+
+  return [
+    ...callRows.map(call => ({
+      callId: call.id,
+      guaranteeSessionId: null,
+      phoneKey: getPhoneKey(call.phoneNumber),
+      email: normalizeEmail(call.clientEmail),
+      contactAt: call.startTime,
+      appointmentAt: call.appointmentDate,
+    })),
+    ...sessionRows.map(session => ({
+      callId: null,
+      guaranteeSessionId: session.id,
+      phoneKey: getPhoneKey(session.customerPhone),
+      email: normalizeEmail(session.customerEmail),
+      contactAt: session.createdAt,
+      appointmentAt: session.reservationDate,
+    })),
+  ].filter(anchor => anchor.phoneKey || anchor.email);
+}
+
+// Columns refreshed when an order or payment is attributed again
+const ATTRIBUTION_UPSERT_SET = {
+  callId: sql`excluded.call_id`,
+  guaranteeSessionId: sql`excluded.guarantee_session_id`,
+  amount: sql`excluded.amount`,
+  currency: sql`excluded.currency`,
+  revenueAt: sql`excluded.revenue_at`,
+  matchedBy: sql`excluded.matched_by`,
+  confidence: sql`excluded.confidence`,
+  score: sql`excluded.score`,
+  hoursFromContact: sql`excluded.hours_from_contact`,
+};
+
+/**
+ * Recomputes the attributions of the orders and payments of a period
+ */
+export async function attributeRevenue(userId: string, period: TimePeriod): Promise<{ sources: number; attributed: number }> {
+  const [sources, anchors] = await Promise.all([loadRevenueSources(userId, period), loadAnchors(userId, period)]);
+
+  // Anchors indexed by identifier, so each source is only compared to the same customer
+  const byIdentifier = new Map<string, Anchor[]>();
+  const index = (key: string, anchor: Anchor) => byIdentifier.set(key, [...(byIdentifier.get(key) || []), anchor]);
+  anchors.forEach(anchor => {
+    if (anchor.phoneKey) index(`phone:${anchor.phoneKey}`, anchor);
+    if (anchor.email) index(`email:${anchor.email}`, anchor);
+  });
+
+  const attributions: InsertRevenueAttribution[] = [];
+  for (const source of sources) {
+    const candidates = new Set([
+      ...(source.phoneKey ? byIdentifier.get(`phone:${source.phoneKey}`) || [] : []),
+      ...(source.email ? byIdentifier.get(`email:${source.email}`) || [] : []),
+    ]);
+
+    let best: AnchorMatch | null = null;
+    for (const anchor of Array.from(candidates)) {
+      const match = scoreMatch(anchor, source);
+      if (match && isBetterMatch(match, best)) best = match;
+    }
+    if (!best) continue;
+
+    const { anchor, matchedBy, confidence, score, hoursFromContact } = best;
+    attributions.push({
+      userId,
+      callId: anchor.callId,
+      guaranteeSessionId: anchor.guaranteeSessionId,
+      orderId: source.orderId,
+      transactionId: source.transactionId,
+      amount: source.amount.toFixed(2),
+      currency: ATTRIBUTION_CURRENCY,
+      revenueAt: source.revenueAt,
+      matchedBy,
+      confidence,
+      score,
+      hoursFromContact,
+    });
+  }
+
+  const orderAttributions = attributions.filter(attribution => attribution.orderId);
+  const transactionAttributions = attributions.filter(attribution => attribution.transactionId);
+
+  // Concurrent runs (nightly job, MBR, manual refresh) upsert on the order or payment instead of
+  // racing on a delete and re-insert; only the attributions of the period that no longer match are removed
+  await db.transaction(async (tx) => {
+    await tx.delete(revenueAttributions).where(and(
+      eq(revenueAttributions.userId, userId),
+      gte(revenueAttributions.revenueAt, period.start),
+      lte(revenueAttributions.revenueAt, period.end),
+      or(isNull(revenueAttributions.orderId), notInArray(revenueAttributions.orderId, orderAttributions.map(a => a.orderId!))),
+      or(isNull(revenueAttributions.transactionId), notInArray(revenueAttributions.transactionId, transactionAttributions.map(a => a.transactionId!))),
+    ));
+
+    if (orderAttributions.length > 0) {
+      await tx.insert(revenueAttributions).values(orderAttributions)
+        .onConflictDoUpdate({ target: revenueAttributions.orderId, set: ATTRIBUTION_UPSERT_SET });
+    }
+    if (transactionAttributions.length > 0) {
+      await tx.insert(revenueAttributions).values(transactionAttributions)
+        .onConflictDoUpdate({ target: revenueAttributions.transactionId, set: ATTRIBUTION_UPSERT_SET });
+    }
+  });
+
+  return { sources: sources.length, attributed: attributions.length };
+}
+
+/**
+ * Attributed revenue of a period (all time without period)
+ */
+export async function getRevenueAttributionSummary(userId: string, period: TimePeriod | null): Promise<RevenueAttributionSummary> {
+  const inPeriod = period
+    ? [gte(revenueAttributions.revenueAt, period.start), lte(revenueAttributions.revenueAt, period.end)]
+    : [];
+  const ordersInPeriod = period
+    ? [gte(externalOrders.orderDate, period.start), lte(externalOrders.orderDate, period.end)]
+    : [];
+  const transactionsInPeriod = period
+    ? [gte(externalTransactions.transactionDate, period.start), lte(externalTransactions.transactionDate, period.end)]
+    : [];
+
+  const [rows, [callCount], [sessionCount], [orderCount], [transactionCount]] = await Promise.all([
+    db.select({
+      confidence: revenueAttributions.confidence,
+      amount: sql<string>`coalesce(sum(${revenueAttributions.amount}), 0)`,
+      count: count(),
+    })
+      .from(revenueAttributions)
+      .where(and(eq(revenueAttributions.userId, userId), ...inPeriod))
+      .groupBy(revenueAttributions.confidence),
+    db.select({ value: sql<number>`count(distinct ${revenueAttributions.callId})` })
+      .from(revenueAttributions)
+      .where(and(eq(revenueAttributions.userId, userId), isNotNull(revenueAttributions.callId), ...inPeriod)),
+    db.select({ value: sql<number>`count(distinct ${revenueAttributions.guaranteeSessionId})` })
+      .from(revenueAttributions)
+      .where(and(eq(revenueAttributions.userId, userId), isNotNull(revenueAttributions.guaranteeSessionId), ...inPeriod)),
+    db.select({ value: count() })
+      .from(externalOrders)
+      .where(and(eq(externalOrders.userId, userId), ...ordersInPeriod)),
+    db.select({ value: count() })
+      .from(externalTransactions)
+      .where(and(eq(externalTransactions.userId, userId), isNull(externalTransactions.orderId), ...transactionsInPeriod)),
+  ]);
+
+  const byConfidence = Object.fromEntries(
+    REVENUE_ATTRIBUTION_CONFIDENCES.map(confidence => {
+      const row = rows.find(r => r.confidence === confidence);
+      return [confidence, { amount: Math.round(Number(row?.amount || 0)), count: Number(row?.count || 0) }];
+    })
+  ) as RevenueAttributionSummary['byConfidence'];
+
+  return {
+    measuredRevenue: byConfidence.high.amount + byConfidence.medium.amount,
+    possibleRevenue: byConfidence.low.amount,
+    byConfidence,
+    attributedCalls: Number(callCount.value),
+    attributedReservations: Number(sessionCount.value),
+    revenueSources: Number(orderCount.value) + Number(transactionCount.value),
+  };
+}
+
+export function getDefaultAttributionPeriod(now: Date = new Date()): TimePeriod {
+  return { start: new Date(now.getTime() - REFRESH_DAYS * 24 * HOUR_MS), end: now };
+}
+
+/**
+ * Latest attributions of a period, with what was matched on each side
+ */
+export async function getRevenueAttributions(userId: string, period: TimePeriod | null, limit: number): Promise<RevenueAttributionDetail[]> {
+  const rows = await db.select({
+    attribution: revenueAttributions,
+    callPhoneNumber: calls.phoneNumber,
+    callClientName: calls.clientName,
+    reservationCustomerName: guaranteeSessions.customerName,
+    orderNumber: externalOrders.orderNumber,
+    orderSource: externalOrders.externalSource,
+    transactionSource: externalTransactions.externalSource,
+  })
+    .from(revenueAttributions)
+    .leftJoin(calls, eq(revenueAttributions.callId, calls.id))
+    .leftJoin(guaranteeSessions, eq(revenueAttributions.guaranteeSessionId, guaranteeSessions.id))
+    .leftJoin(externalOrders, eq(revenueAttributions.orderId, externalOrders.id))
+    .leftJoin(externalTransactions, eq(revenueAttributions.transactionId, externalTransactions.id))
+    .where(and(
+      eq(revenueAttributions.userId, userId),
+      ...(period ? [gte(revenueAttributions.revenueAt, period.start), lte(revenueAttributions.revenueAt, period.end)] : []),
+    ))
+    .orderBy(desc(revenueAttributions.revenueAt))
+    .limit(limit);
+
+  return rows.map(row => ({
+    ...row.attribution,
+    callPhoneNumber: row.callPhoneNumber,
+    callClientName: row.callClientName,
+    reservationCustomerName: row.reservationCustomerName,
+    orderNumber: row.orderNumber,
+    externalSource: row.orderSource || row.transactionSource,
+  }));
+}
+
+/**
+ * Users with orders or payments received since a date - the ones worth recomputing
+ */
+async function getUsersWithRevenueSources(since: Date): Promise<string[]> {
+  const [orderUsers, transactionUsers] = await Promise.all([
+    db.selectDistinct({ userId: externalOrders.userId })
+      .from(externalOrders)
+      .where(gte(externalOrders.orderDate, since)),
+    db.selectDistinct({ userId: externalTransactions.userId })
+      .from(externalTransactions)
+      .where(and(gte(externalTransactions.transactionDate, since), isNull(externalTransactions.orderId))),
+  ]);
+  return Array.from(new Set([...orderUsers, ...transactionUsers].map(row => row.userId)));
+}
+
+/**
+ * Nightly run: recomputes the recent attributions of every account with a revenue source
+ */
+export async function runRevenueAttribution(now: Date = new Date()): Promise<{ users: number; attributed: number; failed: number }> {
+  const period = getDefaultAttributionPeriod(now);
+  const userIds = await getUsersWithRevenueSources(period.start);
+
+  const stats = { users: userIds.length, attributed: 0, failed: 0 };
+  for (const userId of userIds) {
+    try {
+      stats.attributed += (await attributeRevenue(userId, period)).attributed;
+    } catch (error) {
+      stats.failed++;
+      console.error(`[RevenueAttribution] Error attributing revenue for user ${userId}:`, error);
+    }
+  }
+  return stats;
+}
@@ -5,6 +5,7 @@ import { TripAdvisorService, createTripAdvisorService } from './tripadvisor';
 import { GoogleBusinessService, refreshGoogleAccessToken } from './google-business';
 import { FacebookPagesService } from './facebook-pages';
 import { generateReviewResponse } from './ai-review-response.service';
+import { emitWebhookEvent } from './outbound-webhook.service';
 
 async function generateAIResponseForNewReview(review: Review, userId: string): Promise<void> {
   try {
@@ -29,6 +30,21 @@ async function generateAIResponseForNewReview(review: Review, userId: string): P
   }
 }
 
+// New reviews get an AI draft response and are pushed to the tenant's webhooks
+async function handleNewReview(review: Review, userId: string): Promise<void> {
+  emitWebhookEvent(userId, 'review.received', {
+    reviewId: review.id,
+    platform: review.platform,
+    rating: review.rating,
+    reviewerName: review.reviewerName,
+    content: review.content,
+    reviewDate: review.reviewDate,
+    reviewUrl: review.reviewUrl,
+  });
+
+  await generateAIResponseForNewReview(review, userId);
+}
+
 export async function syncReviewSource(source: ReviewSource): Promise<{
   success: boolean;
   newCount: number;
@@ -163,7 +179,7 @@ async function syncTripAdvisorReviews(source: ReviewSource): Promise<{
       newCount++;
       
       if (created) {
-        await generateAIResponseForNewReview(created, source.userId);
+        await handleNewReview(created, source.userId);
       }
     }
   }
@@ -247,7 +263,7 @@ async function syncGoogleReviews(source: ReviewSource): Promise<{
       newCount++;
       
       if (created) {
-        await generateAIResponseForNewReview(created, source.userId);
+        await handleNewReview(created, source.userId);
       }
     }
   }
@@ -317,7 +333,7 @@ async function syncFacebookReviews(source: ReviewSource): Promise<{
       newCount++;
       
       if (created) {
-        await generateAIResponseForNewReview(created, source.userId);
+        await handleNewReview(created, source.userId);
       }
     }
   }
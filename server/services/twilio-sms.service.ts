@@ -187,7 +187,9 @@ export async function sendGuaranteeCardRequestSms(
   companyName: string,
   validationUrl: string,
   reservationDate: Date,
-  nbPersons: number
+  nbPersons: number,
+  isReminder: boolean = false,
+  depositAmount: number | null = null // Cents, deposit mode
 ): Promise<SmsResult> {
   const service = getTwilioService();
 
@@ -199,11 +201,13 @@ export async function sendGuaranteeCardRequestSms(
   const dateStr = formatDateShort(reservationDate);
   
   // Professional, concise SMS message
-  const message = `${companyName}\n\n` +
+  const message = `${isReminder ? 'RAPPEL - ' : ''}${companyName}\n\n` +
     `Bonjour ${customerName},\n` +
     `Confirmez votre réservation du ${dateStr} (${nbPersons} pers.) :\n` +
     `${validationUrl}\n\n` +
-    `Sécurisé - Aucun débit`;
+    (depositAmount
+      ? `Acompte ${(depositAmount / 100).toLocaleString('fr-FR', { maximumFractionDigits: 2 })}€ déduit de l'addition`
+      : `Sécurisé - Aucun débit`);
 
   return service.sendSms({ to: phone, message });
 }
@@ -10,6 +10,7 @@ import {
 } from '@shared/schema';
 import { eq, and, inArray, lt, isNull, sql, desc, asc } from 'drizzle-orm';
 import { getTwilioService } from './twilio-sms.service';
+import { emitWebhookEvent } from './outbound-webhook.service';
 import crypto from 'crypto';
 
 const FRONTEND_URL = process.env.REPLIT_DEV_DOMAIN 
@@ -315,7 +316,7 @@ class WaitlistService {
       }
 
       // Update entry with confirmed info
-      await db.update(waitlistEntries)
+      const [entry] = await db.update(waitlistEntries)
         .set({
           firstName: data.firstName,
           lastName: data.lastName,
@@ -324,7 +325,8 @@ class WaitlistService {
           alternativeSlots: data.selectedSlots.map(s => new Date(s)),
           updatedAt: new Date()
         })
-        .where(eq(waitlistEntries.id, tokenRecord[0].entryId));
+        .where(eq(waitlistEntries.id, tokenRecord[0].entryId))
+        .returning();
 
       // Consume token
       await db.update(waitlistTokens)
@@ -333,6 +335,20 @@ class WaitlistService {
 
       console.log(`[Waitlist] Registration confirmed for entry ${tokenRecord[0].entryId}`);
 
+      if (entry) {
+        emitWebhookEvent(entry.userId, 'waitlist.confirmed', {
+          entryId: entry.id,
+          slotId: entry.slotId,
+          firstName: entry.firstName,
+          lastName: entry.lastName,
+          phone: entry.phone,
+          email: entry.email,
+          nbPersons: entry.nbPersons,
+          requestedSlot: entry.requestedSlot,
+          alternativeSlots: entry.alternativeSlots,
+        });
+      }
+
       return { success: true };
     } catch (error: any) {
       console.error('[Waitlist] Error confirming registration:', error);
@@ -1,5 +1,6 @@
 // Reference: javascript_database blueprint - DatabaseStorage implementation
 import { encryptCredentials, decryptCredentials } from "./utils/credential-encryption";
+import { getPhoneKey, normalizeEmail, identityCondition } from "./utils/customer-identity";
 import { 
   users, 
   calls, 
@@ -20,7 +21,9 @@ import {
   reviewSyncLogs,
   reviewAutomations,
   marketingContacts,
+  marketingContactVisits,
   marketingConsentHistory,
+  marketingConfig,
   marketingSegments,
   marketingTemplates,
   marketingCampaigns,
@@ -37,6 +40,17 @@ import {
   externalProducts,
   externalActivities,
   integrationWebhooks,
+  integrationWebhookEvents,
+  webhookEndpoints,
+  webhookDeliveries,
+  apiKeys,
+  apiRateLimitWindows,
+  callExportSchedules,
+  callQaScorecards,
+  callTaxonomies,
+  callQaReviews,
+  callQaAnnotations,
+  callAnomalyAlerts,
   integrationProviderConfigs,
   userOAuthConfig,
   type User, 
@@ -78,6 +92,8 @@ import {
   type MarketingContact,
   type InsertMarketingContact,
   type MarketingConsentHistory,
+  type MarketingConfig,
+  type InsertMarketingConfig,
   type MarketingSegment,
   type InsertMarketingSegment,
   type MarketingTemplate,
@@ -88,6 +104,7 @@ import {
   type MarketingAutomation,
   type InsertMarketingAutomation,
   type MarketingAutomationLog,
+  type InsertMarketingAutomationLog,
   type MarketingClickEvent,
   type SegmentFilters,
   type ExternalConnection,
@@ -101,6 +118,21 @@ import {
   type ExternalProduct,
   type ExternalActivity,
   type IntegrationWebhook,
+  type IntegrationWebhookEvent,
+  type WebhookEndpoint,
+  type WebhookDelivery,
+  type ApiKey,
+  type CallExportSchedule,
+  type InsertCallExportSchedule,
+  type CallQaScorecard,
+  type CallTaxonomy,
+  type CallTaxonomyDefaults,
+  type CallQaReview,
+  type CallQaAnnotation,
+  type CallQaQueueReason,
+  type CallAnomalyAlert,
+  type InsertCallAnomalyAlert,
+  type CallAnomalyMetric,
   type IntegrationProviderConfig,
   type UserOAuthConfig,
   type InsertUserOAuthConfig,
@@ -115,11 +147,28 @@ import {
   type TenantFeature,
   type InsertTenantFeature,
   type TenantUserRole,
-  type InsertTenantUserRole
+  type InsertTenantUserRole,
+  CALL_SEARCH_FACETS,
+  CALL_SEARCH_HIGHLIGHT,
+  type CallSearchFacet,
+  type CallSearchQuery,
+  type CallSearchResponse
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gte, lte, desc, sql, count, isNotNull, or, asc, like, ilike, isNull, inArray, ne, lt, gt } from "drizzle-orm";
+import { eq, and, gte, lte, desc, sql, count, isNotNull, or, asc, like, ilike, isNull, inArray, ne, lt, gt, notInArray, getTableColumns, type SQL } from "drizzle-orm";
+import { unionAll } from "drizzle-orm/pg-core";
 import { generateApiKey } from "./api-key";
+import { resolveTimePeriod, localTimestampSql, FIRST_COLUMN, DEFAULT_TIMEZONE, type AnalyticsRange } from "./call-analytics.utils";
+
+// Filters of the calls list, shared with the export
+export interface CallListFilters {
+  timeFilter?: 'hour' | 'today' | 'two_days' | 'week';
+  statusFilter?: string;
+  appointmentsOnly?: boolean;
+  hidePastAppointments?: boolean;
+  startDate?: Date;
+  endDate?: Date;
+}
 
 export interface IStorage {
   // User management
@@ -170,28 +219,28 @@ export interface IStorage {
   }>;
   
   // Calls management
-  getCalls(userId: string, filters?: {
-    timeFilter?: 'hour' | 'today' | 'two_days' | 'week';
-    statusFilter?: string;
-    appointmentsOnly?: boolean;
-    hidePastAppointments?: boolean;
+  getCalls(userId: string, filters?: CallListFilters & {
     page?: number;
     limit?: number;
   }): Promise<{ calls: Call[]; total: number; page: number; totalPages: number }>;
+  getCallsExportBatch(userId: string, filters: CallListFilters, after: { startTime: Date; id: string } | null, limit: number): Promise<Call[]>;
+  searchCalls(userId: string, query: CallSearchQuery, filters?: CallListFilters): Promise<CallSearchResponse>;
   getCallById(id: string, userId: string): Promise<Call | undefined>;
   createCall(call: InsertCall): Promise<Call>;
-  getStats(userId: string, timeFilter?: 'hour' | 'today' | 'two_days' | 'week'): Promise<{
+  getStats(userId: string, range?: AnalyticsRange, timeZone?: string, taxonomy?: CallTaxonomyDefaults): Promise<{
     totalCalls: number;
     activeCalls: number;
     conversionRate: number;
     averageDuration: number;
   }>;
-  getChartData(userId: string, timeFilter?: 'hour' | 'today' | 'two_days' | 'week'): Promise<{
+  getChartData(userId: string, range?: AnalyticsRange, timeZone?: string): Promise<{
     date: string;
     totalCalls: number;
     completedCalls: number;
     averageDuration: number;
+    outcomes: Record<string, number>;
   }[]>;
+  getCallOutcomeCounts(userId: string, range?: AnalyticsRange, timeZone?: string): Promise<{ outcome: string | null; count: number }[]>;
 
   // Notifications management
   getNotifications(userId: string, filters?: {
@@ -254,12 +303,18 @@ export interface IStorage {
   getGuaranteeSessionByReservationId(reservationId: string): Promise<GuaranteeSession | undefined>;
   getGuaranteeSessionByCheckoutSessionId(checkoutSessionId: string): Promise<GuaranteeSession | undefined>;
   getGuaranteeSessionByShortCode(shortCode: string): Promise<GuaranteeSession | undefined>;
+  getGuaranteeSessionByCalendarEventId(calendarEventId: string): Promise<GuaranteeSession | undefined>;
   createGuaranteeSession(session: InsertGuaranteeSession): Promise<GuaranteeSession>;
   updateGuaranteeSession(id: string, updates: Partial<GuaranteeSession>): Promise<GuaranteeSession | undefined>;
+  updateGuaranteeSessionIfStatus(id: string, expectedStatus: string | string[], updates: Partial<GuaranteeSession>): Promise<GuaranteeSession | undefined>;
+  updateGuaranteeSessionIfDepositPaid(id: string, updates: Partial<GuaranteeSession>): Promise<GuaranteeSession | undefined>;
   
   // No-show charges
   getNoshowCharges(userId: string, period?: 'week' | 'month' | 'year' | 'all'): Promise<NoshowCharge[]>;
   createNoshowCharge(charge: InsertNoshowCharge): Promise<NoshowCharge>;
+  getNoshowChargeById(id: string): Promise<NoshowCharge | undefined>;
+  getDisputableChargeByPaymentIntentId(paymentIntentId: string): Promise<NoshowCharge | undefined>;
+  updateNoshowCharge(id: string, updates: Partial<NoshowCharge>): Promise<NoshowCharge | undefined>;
   getGuaranteeStats(userId: string, period?: 'week' | 'month' | 'year' | 'all'): Promise<{
     noshowCount: number;
     totalRecovered: number;
@@ -271,6 +326,21 @@ export interface IStorage {
   getSessionsForAppointmentReminder(): Promise<Array<GuaranteeSession & { config: ClientGuaranteeConfig }>>;
   markAppointmentReminderSent(sessionId: string): Promise<void>;
   
+  // Card request reminders for pending sessions
+  getPendingSessionsForCardReminder(): Promise<Array<GuaranteeSession & { config: ClientGuaranteeConfig }>>;
+  
+  // Deposit refunds that failed when the reservation was cancelled
+  getCancelledSessionsWithPaidDeposit(cancelledBefore: Date): Promise<Array<GuaranteeSession & { config: ClientGuaranteeConfig }>>;
+  countFailedDepositRefunds(sessionId: string): Promise<number>;
+  
+  // No-show detection: validated sessions to check for an arrival, review queue, POS orders proving an arrival
+  getSessionsForNoshowDetection(): Promise<Array<GuaranteeSession & { config: ClientGuaranteeConfig }>>;
+  getNoshowReviewQueue(userId: string): Promise<GuaranteeSession[]>;
+  findCheckInOrder(userId: string, customer: { email?: string | null; phone?: string | null }, from: Date, to: Date): Promise<ExternalOrder | undefined>;
+  
+  // Guarantee rules: customer who already came for a guaranteed reservation
+  isReturningGuaranteeCustomer(userId: string, customer: { email?: string | null; phone?: string | null }): Promise<boolean>;
+  
   // Appointment reminders for calls and external orders
   getCallsForAppointmentReminder(): Promise<Array<Call & { guaranteeConfig: ClientGuaranteeConfig | null }>>;
   getOrdersForAppointmentReminder(): Promise<Array<ExternalOrder & { guaranteeConfig: ClientGuaranteeConfig | null }>>;
@@ -404,19 +474,30 @@ export interface IStorage {
   getMarketingContactById(id: string, userId: string): Promise<MarketingContact | undefined>;
   getMarketingContactByEmail(userId: string, email: string): Promise<MarketingContact | undefined>;
   getMarketingContactByPhone(userId: string, phone: string): Promise<MarketingContact | undefined>;
+  findMarketingContactByIdentity(userId: string, identity: { phone?: string | null; email?: string | null }): Promise<MarketingContact | undefined>;
   createMarketingContact(contact: InsertMarketingContact): Promise<MarketingContact>;
+  upsertMarketingContactByPhone(contact: InsertMarketingContact): Promise<{ contact: MarketingContact; created: boolean }>;
+  recordMarketingContactVisit(contactId: string, callId: string, visitAt: Date): Promise<boolean>;
   updateMarketingContact(id: string, userId: string, updates: Partial<MarketingContact>): Promise<MarketingContact | undefined>;
   deleteMarketingContact(id: string, userId: string): Promise<void>;
   bulkCreateMarketingContacts(contacts: InsertMarketingContact[]): Promise<{ created: number; updated: number; errors: number }>;
   getMarketingContactsCount(userId: string): Promise<number>;
   getMarketingContactsBySegmentFilters(userId: string, filters: SegmentFilters): Promise<MarketingContact[]>;
+  getMarketingContactsCreatedSince(userId: string, since: Date): Promise<MarketingContact[]>;
+  getMarketingContactsByBirthday(userId: string, month: number, day: number): Promise<MarketingContact[]>;
+  getMarketingContactsByLastVisit(userId: string, range: { after?: Date; before?: Date }): Promise<MarketingContact[]>;
+  getMarketingContactsTaggedSince(userId: string, automationId: string, tag: string, since: Date): Promise<MarketingContact[]>;
   incrementContactEmailStats(contactId: string, stat: 'sent' | 'opened' | 'clicked'): Promise<void>;
   incrementContactSmsStats(contactId: string): Promise<void>;
   
   // Marketing Consent History
-  createConsentHistory(contactId: string, action: string, channel: string, source: string, ipAddress?: string, userAgent?: string): Promise<MarketingConsentHistory>;
+  createConsentHistory(contactId: string, action: string, channel: string, source: string, ipAddress?: string, userAgent?: string, callId?: string): Promise<MarketingConsentHistory>;
   getConsentHistory(contactId: string): Promise<MarketingConsentHistory[]>;
   
+  // Marketing Config
+  getMarketingConfig(userId: string): Promise<MarketingConfig | undefined>;
+  upsertMarketingConfig(userId: string, config: Partial<InsertMarketingConfig>): Promise<MarketingConfig>;
+  
   // Marketing Segments
   getMarketingSegments(userId: string): Promise<MarketingSegment[]>;
   getMarketingSegmentById(id: string, userId: string): Promise<MarketingSegment | undefined>;
@@ -452,6 +533,9 @@ export interface IStorage {
   updateMarketingCampaign(id: string, userId: string, updates: Partial<MarketingCampaign>): Promise<MarketingCampaign | undefined>;
   deleteMarketingCampaign(id: string, userId: string): Promise<void>;
   getScheduledCampaigns(): Promise<MarketingCampaign[]>;
+  claimCampaignForSending(id: string, stalledBefore: Date): Promise<MarketingCampaign | undefined>;
+  getStalledSendingCampaigns(updatedBefore: Date): Promise<MarketingCampaign[]>;
+  getAbTestVariants(parentCampaignId: string): Promise<MarketingCampaign[]>;
   updateCampaignStats(id: string, stats: Partial<{
     totalRecipients: number;
     totalSent: number;
@@ -481,6 +565,7 @@ export interface IStorage {
     bounced: number;
     failed: number;
     unsubscribed: number;
+    converted: number;
   }>;
   
   // Marketing Click Events
@@ -494,13 +579,17 @@ export interface IStorage {
   updateMarketingAutomation(id: string, userId: string, updates: Partial<MarketingAutomation>): Promise<MarketingAutomation | undefined>;
   deleteMarketingAutomation(id: string, userId: string): Promise<void>;
   getActiveAutomationsByTrigger(triggerType: string): Promise<MarketingAutomation[]>;
+  getActiveMarketingAutomations(): Promise<MarketingAutomation[]>;
+  getMarketingAutomationByIdAdmin(id: string): Promise<MarketingAutomation | undefined>;
   incrementAutomationStats(id: string, stat: 'triggered' | 'completed' | 'failed'): Promise<void>;
   
   // Marketing Automation Logs
-  createAutomationLog(log: Partial<MarketingAutomationLog> & { automationId: string; contactId: string; status: string }): Promise<MarketingAutomationLog>;
+  createAutomationLog(log: InsertMarketingAutomationLog): Promise<MarketingAutomationLog>;
   updateAutomationLog(id: string, updates: Partial<MarketingAutomationLog>): Promise<MarketingAutomationLog | undefined>;
-  getPendingAutomationLogs(): Promise<MarketingAutomationLog[]>;
+  claimDueAutomationLogs(leaseUntil: Date): Promise<MarketingAutomationLog[]>;
   getAutomationLogsByContact(contactId: string): Promise<MarketingAutomationLog[]>;
+  getAutomationLogById(id: string): Promise<MarketingAutomationLog | undefined>;
+  getLatestAutomationLogs(automationId: string, contactIds: string[]): Promise<MarketingAutomationLog[]>;
   
   // Marketing Analytics
   getMarketingOverviewStats(userId: string, period?: 'week' | 'month' | 'year'): Promise<{
@@ -545,7 +634,7 @@ export interface IStorage {
   // External Field Mappings
   getFieldMappings(connectionId: string): Promise<ExternalFieldMapping[]>;
   getFieldMappingByEntity(connectionId: string, entityType: string): Promise<ExternalFieldMapping | undefined>;
-  upsertFieldMapping(connectionId: string, entityType: string, mappings: object, customFields?: object): Promise<ExternalFieldMapping>;
+  upsertFieldMapping(connectionId: string, entityType: string, mappings: object, customFields?: object, sourceConfig?: object): Promise<ExternalFieldMapping>;
   deleteFieldMapping(id: string): Promise<void>;
   
   // External Customers
@@ -647,7 +736,9 @@ export interface IStorage {
     limit?: number;
     offset?: number;
   }): Promise<ExternalActivity[]>;
+  getExternalActivityByExternalId(userId: string, externalId: string, source: string): Promise<ExternalActivity | undefined>;
   createExternalActivity(activity: Partial<ExternalActivity> & { userId: string; externalSource: string; activityType: string; activityDate: Date }): Promise<ExternalActivity>;
+  updateExternalActivity(id: string, userId: string, updates: Partial<ExternalActivity>): Promise<ExternalActivity | undefined>;
   getCustomerActivities(customerId: string): Promise<ExternalActivity[]>;
   
   // Integration Webhooks
@@ -656,6 +747,62 @@ export interface IStorage {
   updateIntegrationWebhook(id: string, updates: Partial<IntegrationWebhook>): Promise<IntegrationWebhook | undefined>;
   deleteIntegrationWebhook(id: string): Promise<void>;
   
+  // Incoming Webhook Events
+  createWebhookEvent(event: Partial<IntegrationWebhookEvent> & { connectionId: string; userId: string; payload: unknown }): Promise<IntegrationWebhookEvent>;
+  getWebhookEvents(connectionId: string, userId: string, filters?: { status?: string; limit?: number }): Promise<IntegrationWebhookEvent[]>;
+  getWebhookEventById(id: string, userId: string): Promise<IntegrationWebhookEvent | undefined>;
+  updateWebhookEvent(id: string, updates: Partial<IntegrationWebhookEvent>): Promise<IntegrationWebhookEvent | undefined>;
+  
+  // Outbound Webhooks
+  getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]>;
+  getWebhookEndpointById(id: string, userId: string): Promise<WebhookEndpoint | undefined>;
+  getWebhookEndpointsForEvent(userId: string, event: string): Promise<WebhookEndpoint[]>;
+  createWebhookEndpoint(endpoint: Partial<WebhookEndpoint> & { userId: string; url: string; secret: string; events: string[] }): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(id: string, userId: string, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(id: string, userId: string): Promise<void>;
+  createWebhookDelivery(delivery: Partial<WebhookDelivery> & { endpointId: string; userId: string; eventId: string; event: string; payload: unknown }): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(endpointId: string, userId: string, limit?: number): Promise<WebhookDelivery[]>;
+  getWebhookDeliveryById(id: string, userId: string): Promise<WebhookDelivery | undefined>;
+  getDueWebhookDeliveries(limit?: number): Promise<WebhookDelivery[]>;
+  
+  // Public API keys
+  getApiKeys(userId: string): Promise<ApiKey[]>;
+  getApiKeyById(id: string, userId: string): Promise<ApiKey | undefined>;
+  getActiveApiKeysByPrefix(keyPrefix: string): Promise<ApiKey[]>;
+  createApiKey(apiKey: Partial<ApiKey> & { userId: string; name: string; keyPrefix: string; keyHash: string; scopes: string[] }): Promise<ApiKey>;
+  updateApiKey(id: string, userId: string, updates: Partial<ApiKey>): Promise<ApiKey | undefined>;
+  recordApiKeyUsage(id: string, ip: string | null): Promise<void>;
+  consumeApiRateLimit(key: string, windowMs: number): Promise<{ count: number; windowStart: Date }>;
+  
+  // Scheduled call exports
+  getCallExportSchedules(userId: string): Promise<CallExportSchedule[]>;
+  getCallExportScheduleById(id: string, userId: string): Promise<CallExportSchedule | undefined>;
+  getDueCallExportSchedules(): Promise<CallExportSchedule[]>;
+  createCallExportSchedule(schedule: InsertCallExportSchedule): Promise<CallExportSchedule>;
+  updateCallExportSchedule(id: string, userId: string, updates: Partial<CallExportSchedule>): Promise<CallExportSchedule | undefined>;
+  deleteCallExportSchedule(id: string, userId: string): Promise<void>;
+  getVerifiedTeamEmails(userId: string): Promise<string[]>;
+  
+  // Call QA
+  getCallQaScorecard(owner: { userId: string; tenantId?: string | null }): Promise<CallQaScorecard | undefined>;
+  upsertCallQaScorecard(owner: { userId: string; tenantId?: string | null }, data: Pick<CallQaScorecard, 'criteria'> & Partial<Pick<CallQaScorecard, 'lowConfidenceThreshold'>>): Promise<CallQaScorecard>;
+  getCallQaQueue(userId: string, options: { threshold: number; reason?: CallQaQueueReason; limit: number; offset: number }): Promise<{ calls: Call[]; total: number }>;
+  getCallQaReview(callId: string, userId: string): Promise<CallQaReview | undefined>;
+  upsertCallQaReview(review: Pick<CallQaReview, 'callId' | 'userId' | 'reviewerId' | 'criteria' | 'scores' | 'overallScore' | 'notes'>): Promise<CallQaReview>;
+  getCallQaAnnotations(callId: string, userId: string): Promise<CallQaAnnotation[]>;
+  createCallQaAnnotation(annotation: Omit<CallQaAnnotation, 'id' | 'createdAt'>): Promise<CallQaAnnotation>;
+  deleteCallQaAnnotation(id: string, userId: string): Promise<boolean>;
+  
+  // Call outcome taxonomy
+  getCallTaxonomy(owner: { userId: string; tenantId?: string | null }): Promise<CallTaxonomy | undefined>;
+  upsertCallTaxonomy(owner: { userId: string; tenantId?: string | null }, data: Pick<CallTaxonomy, 'outcomes' | 'serviceTypes'>): Promise<CallTaxonomy>;
+  
+  // Call anomaly alerts
+  getCallAnomalyAlert(userId: string, metric: CallAnomalyMetric, windowStart: Date): Promise<CallAnomalyAlert | undefined>;
+  getLatestCallAnomalyAlert(userId: string, metric: CallAnomalyMetric, direction: string): Promise<CallAnomalyAlert | undefined>;
+  createCallAnomalyAlert(alert: InsertCallAnomalyAlert): Promise<CallAnomalyAlert>;
+  
   // Integration Provider Configs
   getProviderConfigs(): Promise<IntegrationProviderConfig[]>;
   getProviderConfigByProvider(provider: string): Promise<IntegrationProviderConfig | undefined>;
@@ -886,41 +1033,27 @@ export class DatabaseStorage implements IStorage {
 
   // ===== CALLS MANAGEMENT =====
 
-  private getTimeFilterDate(filter?: 'hour' | 'today' | 'two_days' | 'week'): Date | undefined {
-    if (!filter) return undefined;
-    
-    const now = new Date();
-    switch (filter) {
-      case 'hour':
-        return new Date(now.getTime() - 60 * 60 * 1000);
-      case 'today':
-        const startOfDay = new Date(now);
-        startOfDay.setHours(0, 0, 0, 0);
-        return startOfDay;
-      case 'two_days':
-        return new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
-      case 'week':
-        return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      default:
-        return undefined;
-    }
-  }
-
-  async getCalls(userId: string, filters?: {
-    timeFilter?: 'hour' | 'today' | 'two_days' | 'week';
-    statusFilter?: string;
-    appointmentsOnly?: boolean;
-    hidePastAppointments?: boolean;
-    page?: number;
-    limit?: number;
-  }): Promise<{ calls: Call[]; total: number; page: number; totalPages: number }> {
+  // Start/end conditions on calls.startTime for a preset or an explicit period
+  private getCallPeriodConditions(range?: AnalyticsRange, timeZone?: string) {
+    const period = resolveTimePeriod(range, timeZone);
+    if (!period) return [];
+    // Presets end now: no upper bound, as before
+    return typeof range === 'string'
+      ? [gte(calls.startTime, period.start)]
+      : [gte(calls.startTime, period.start), lte(calls.startTime, period.end)];
+  }
+
+  private getCallListConditions(userId: string, filters?: CallListFilters): SQL[] {
     const conditions = [eq(calls.userId, userId)];
     
-    if (filters?.timeFilter) {
-      const timeDate = this.getTimeFilterDate(filters.timeFilter);
-      if (timeDate) {
-        conditions.push(gte(calls.startTime, timeDate));
-      }
+    conditions.push(...this.getCallPeriodConditions(filters?.timeFilter));
+    
+    if (filters?.startDate) {
+      conditions.push(gte(calls.startTime, filters.startDate));
+    }
+    
+    if (filters?.endDate) {
+      conditions.push(lte(calls.startTime, filters.endDate));
     }
     
     if (filters?.statusFilter) {
@@ -942,6 +1075,15 @@ export class DatabaseStorage implements IStorage {
         )!
       );
     }
+
+    return conditions;
+  }
+
+  async getCalls(userId: string, filters?: CallListFilters & {
+    page?: number;
+    limit?: number;
+  }): Promise<{ calls: Call[]; total: number; page: number; totalPages: number }> {
+    const conditions = this.getCallListConditions(userId, filters);
     
     // Get total count
     const [countResult] = await db
@@ -966,6 +1108,110 @@ export class DatabaseStorage implements IStorage {
     return { calls: result, total, page, totalPages };
   }
 
+  // Keyset pagination so exports of any size are read batch by batch
+  async getCallsExportBatch(userId: string, filters: CallListFilters, after: { startTime: Date; id: string } | null, limit: number): Promise<Call[]> {
+    const conditions = this.getCallListConditions(userId, filters);
+    if (after) {
+      conditions.push(or(
+        lt(calls.startTime, after.startTime),
+        and(eq(calls.startTime, after.startTime), lt(calls.id, after.id))
+      )!);
+    }
+
+    return db
+      .select()
+      .from(calls)
+      .where(and(...conditions))
+      .orderBy(desc(calls.startTime), desc(calls.id))
+      .limit(limit);
+  }
+
+  // Calls are indexed in both French and English: the French config stems "réservations" to
+  // "réserv", the English one keeps "gluten-free" searchable. The vector matches calls_search_idx (see db.ts).
+  async searchCalls(userId: string, query: CallSearchQuery, filters?: CallListFilters): Promise<CallSearchResponse> {
+    const document = sql`call_search_document(${calls.summary}, ${calls.transcript}, ${calls.keywords}, ${calls.tags}, ${calls.clientName})`;
+    const vector = sql`(to_tsvector('french', ${document}) || to_tsvector('english', ${document}))`;
+    const tsQuery = sql`(websearch_to_tsquery('french', ${query.q}) || websearch_to_tsquery('english', ${query.q}))`;
+    // A query that reads as a phone number also matches the caller's number by prefix
+    const phonePrefix = query.q.replace(/[\s().-]/g, '');
+    const matchCondition = /^\+?\d{2,}$/.test(phonePrefix)
+      ? or(sql`${vector} @@ ${tsQuery}`, ilike(calls.phoneNumber, `${phonePrefix}%`))!
+      : sql`${vector} @@ ${tsQuery}`;
+
+    const baseConditions = [...this.getCallListConditions(userId, filters), matchCondition];
+    // Same tabs as the calls list: converted outcome, or unanswered call
+    if (query.status === 'converted') {
+      baseConditions.push(eq(calls.conversionResult, 'converted'));
+    } else if (query.status === 'missed') {
+      baseConditions.push(or(eq(calls.status, 'no_answer'), sql`${calls.callAnswered} IS NOT TRUE`)!);
+    }
+
+    const facetConditions: Record<CallSearchFacet, SQL | undefined> = {
+      eventType: query.eventType ? eq(calls.eventType, query.eventType) : undefined,
+      clientMood: query.clientMood ? eq(calls.clientMood, query.clientMood) : undefined,
+      serviceType: query.serviceType ? eq(calls.serviceType, query.serviceType) : undefined,
+      conversionResult: query.conversionResult ? eq(calls.conversionResult, query.conversionResult) : undefined,
+      tags: query.tags ? sql`${query.tags} = ANY(${calls.tags})` : undefined,
+    };
+    const conditionsExcept = (facet?: CallSearchFacet) => [
+      ...baseConditions,
+      ...CALL_SEARCH_FACETS.filter(f => f !== facet && facetConditions[f]).map(f => facetConditions[f]),
+    ];
+
+    const headlineOptions = `StartSel=${CALL_SEARCH_HIGHLIGHT.start}, StopSel=${CALL_SEARCH_HIGHLIGHT.stop}, MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … "`;
+    const rank = sql<number>`ts_rank_cd(${vector}, ${tsQuery})`;
+    const rowsQuery = db
+      .select({
+        call: calls,
+        rank,
+        snippet: sql<string>`ts_headline('french', concat_ws(' ', ${calls.summary}, ${calls.transcript}), ${tsQuery}, ${headlineOptions})`,
+      })
+      .from(calls)
+      .where(and(...conditionsExcept()))
+      .orderBy(desc(rank), desc(calls.startTime))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+
+    // Each facet is counted with the other filters applied, so selecting a value keeps its alternatives visible.
+    // The facets and the total come back from a single UNION ALL; the total is the row without a facet.
+    const facetColumns = {
+      eventType: calls.eventType,
+      clientMood: calls.clientMood,
+      serviceType: calls.serviceType,
+      conversionResult: calls.conversionResult,
+      tags: sql<string>`unnest(${calls.tags})`,
+    };
+    const [totalQuery, ...facetQueries] = [undefined, ...CALL_SEARCH_FACETS].map(facet => db
+      .select({
+        facet: sql<string | null>`${facet ?? null}::text`.as('facet'),
+        value: (facet ? sql<string | null>`${facetColumns[facet]}` : sql<string | null>`NULL::text`).as('value'),
+        count: count(),
+      })
+      .from(calls)
+      .where(and(...conditionsExcept(facet)))
+      .groupBy(sql`value`));
+
+    const [rows, countRows] = await Promise.all([rowsQuery, unionAll(totalQuery, facetQueries[0], ...facetQueries.slice(1))]);
+
+    const total = Number(countRows.find(row => row.facet === null)?.count || 0);
+    const facets = Object.fromEntries(CALL_SEARCH_FACETS.map(facet => [
+      facet,
+      countRows
+        .filter(row => row.facet === facet && row.value)
+        .map(row => ({ value: row.value!, count: Number(row.count) }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 20),
+    ])) as CallSearchResponse['facets'];
+
+    return {
+      results: rows.map(row => ({ call: row.call, rank: Number(row.rank), snippet: row.snippet || '' })),
+      total,
+      page: query.page,
+      totalPages: Math.ceil(total / query.limit),
+      facets,
+    };
+  }
+
   async getCallById(id: string, userId: string): Promise<Call | undefined> {
     const [call] = await db
       .select()
@@ -982,7 +1228,7 @@ export class DatabaseStorage implements IStorage {
     return call;
   }
 
-  async getStats(userId: string, timeFilter?: 'hour' | 'today' | 'two_days' | 'week'): Promise<{
+  async getStats(userId: string, range?: AnalyticsRange, timeZone: string = DEFAULT_TIMEZONE, taxonomy?: CallTaxonomyDefaults): Promise<{
     totalCalls: number;
     activeCalls: number;
     conversionRate: number;
@@ -990,14 +1236,7 @@ export class DatabaseStorage implements IStorage {
     hoursSaved: number;
     estimatedRevenue: number;
   }> {
-    const conditions = [eq(calls.userId, userId)];
-    
-    if (timeFilter) {
-      const timeDate = this.getTimeFilterDate(timeFilter);
-      if (timeDate) {
-        conditions.push(gte(calls.startTime, timeDate));
-      }
-    }
+    const conditions = [eq(calls.userId, userId), ...this.getCallPeriodConditions(range, timeZone)];
 
     // Total calls
     const totalResult = await db
@@ -1013,6 +1252,10 @@ export class DatabaseStorage implements IStorage {
       .where(and(...conditions, eq(calls.status, 'active')));
     const activeCalls = Number(activeResult[0]?.count || 0);
 
+    // With a taxonomy, classified calls convert when their outcome has a value weight;
+    // the rules below only apply to calls not classified yet
+    const legacyConditions = taxonomy ? [...conditions, isNull(calls.outcome)] : conditions;
+
     // Conversion rate - Combines both N8N conversion_result and legacy status data
     // Counts: 1) Calls with conversion_result = 'converted' (N8N data)
     //         2) Calls with status = 'completed' but NO conversion_result set (legacy data)
@@ -1022,7 +1265,7 @@ export class DatabaseStorage implements IStorage {
     const convertedResult = await db
       .select({ count: count() })
       .from(calls)
-      .where(and(...conditions, eq(calls.conversionResult, 'converted')));
+      .where(and(...legacyConditions, eq(calls.conversionResult, 'converted')));
     const convertedCalls = Number(convertedResult[0]?.count || 0);
     
     // Count legacy completed calls that don't have conversion_result set
@@ -1030,14 +1273,33 @@ export class DatabaseStorage implements IStorage {
       .select({ count: count() })
       .from(calls)
       .where(and(
-        ...conditions, 
+        ...legacyConditions, 
         eq(calls.status, 'completed'),
-        sql`${calls.conversionResult} IS NULL OR ${calls.conversionResult} = ''`
+        sql`(${calls.conversionResult} IS NULL OR ${calls.conversionResult} = '')`
       ));
     const legacyCompletedCalls = Number(legacyCompletedResult[0]?.count || 0);
+
+    // Classified calls: value weight of the outcome × multiplier of the service type
+    let classifiedConvertedCalls = 0;
+    let classifiedValue = 0;
+    if (taxonomy) {
+      const outcomeWeights = new Map(taxonomy.outcomes.map(o => [o.key, o.valueWeight]));
+      const serviceWeights = new Map(taxonomy.serviceTypes.map(s => [s.key, s.valueWeight]));
+      const classifiedResult = await db
+        .select({ outcome: calls.outcome, serviceTypeKey: calls.serviceTypeKey, count: count() })
+        .from(calls)
+        .where(and(...conditions, isNotNull(calls.outcome)))
+        .groupBy(calls.outcome, calls.serviceTypeKey);
+      for (const row of classifiedResult) {
+        const weight = outcomeWeights.get(row.outcome!) || 0;
+        if (weight <= 0) continue;
+        classifiedConvertedCalls += Number(row.count);
+        classifiedValue += Number(row.count) * weight * (serviceWeights.get(row.serviceTypeKey || '') ?? 1);
+      }
+    }
     
-    // Total successful calls = N8N converted + legacy completed (no overlap)
-    const successfulCalls = convertedCalls + legacyCompletedCalls;
+    // Total successful calls = N8N converted + legacy completed + classified conversions (no overlap)
+    const successfulCalls = convertedCalls + legacyCompletedCalls + classifiedConvertedCalls;
     const conversionRate = totalCalls > 0 ? (successfulCalls / totalCalls) * 100 : 0;
 
     // Average duration (only for completed calls)
@@ -1055,7 +1317,9 @@ export class DatabaseStorage implements IStorage {
     const hoursSaved = (totalCalls * MINUTES_PER_CALL) / 60;
     
     // Estimated revenue: successful conversions × average client value
-    const estimatedRevenue = successfulCalls * AVERAGE_CLIENT_VALUE;
+    const estimatedRevenue = Math.round(
+      (convertedCalls + legacyCompletedCalls + classifiedValue) * AVERAGE_CLIENT_VALUE
+    );
 
     return {
       totalCalls,
@@ -1067,42 +1331,61 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getChartData(userId: string, timeFilter?: 'hour' | 'today' | 'two_days' | 'week'): Promise<{
+  async getChartData(userId: string, range?: AnalyticsRange, timeZone: string = DEFAULT_TIMEZONE): Promise<{
     date: string;
     totalCalls: number;
     completedCalls: number;
     averageDuration: number;
+    outcomes: Record<string, number>;
   }[]> {
-    const conditions = [eq(calls.userId, userId)];
-    
-    if (timeFilter) {
-      const timeDate = this.getTimeFilterDate(timeFilter);
-      if (timeDate) {
-        conditions.push(gte(calls.startTime, timeDate));
-      }
-    }
+    const conditions = [eq(calls.userId, userId), ...this.getCallPeriodConditions(range, timeZone)];
 
-    // Group by date
+    // Group by calendar day of the tenant (start_time is stored in UTC)
+    const localDate = sql<string>`TO_CHAR(${localTimestampSql(calls.startTime, timeZone)}, 'YYYY-MM-DD')`;
     const result = await db
       .select({
-        date: sql<string>`DATE(${calls.startTime})`,
+        date: localDate,
         totalCalls: count(),
         completedCalls: sql<number>`COUNT(CASE WHEN ${calls.status} = 'completed' THEN 1 END)`,
         averageDuration: sql<number>`COALESCE(AVG(CASE WHEN ${calls.status} = 'completed' THEN ${calls.duration} END), 0)`,
       })
       .from(calls)
       .where(and(...conditions))
-      .groupBy(sql`DATE(${calls.startTime})`)
-      .orderBy(sql`DATE(${calls.startTime})`);
+      .groupBy(FIRST_COLUMN)
+      .orderBy(FIRST_COLUMN);
+
+    // Classified calls per day and canonical outcome
+    const outcomeResult = await db
+      .select({ date: localDate, outcome: calls.outcome, count: count() })
+      .from(calls)
+      .where(and(...conditions, isNotNull(calls.outcome)))
+      .groupBy(FIRST_COLUMN, calls.outcome);
+    const outcomesByDate = new Map<string, Record<string, number>>();
+    for (const row of outcomeResult) {
+      const outcomes = outcomesByDate.get(row.date) || {};
+      outcomes[row.outcome!] = Number(row.count);
+      outcomesByDate.set(row.date, outcomes);
+    }
 
     return result.map(row => ({
       date: row.date,
       totalCalls: Number(row.totalCalls),
       completedCalls: Number(row.completedCalls),
       averageDuration: Math.round(Number(row.averageDuration)),
+      outcomes: outcomesByDate.get(row.date) || {},
     }));
   }
 
+  async getCallOutcomeCounts(userId: string, range?: AnalyticsRange, timeZone: string = DEFAULT_TIMEZONE): Promise<{ outcome: string | null; count: number }[]> {
+    const result = await db
+      .select({ outcome: calls.outcome, count: count() })
+      .from(calls)
+      .where(and(eq(calls.userId, userId), ...this.getCallPeriodConditions(range, timeZone)))
+      .groupBy(calls.outcome)
+      .orderBy(desc(count()));
+    return result.map(row => ({ outcome: row.outcome, count: Number(row.count) }));
+  }
+
   // Notifications management implementations
   async getNotifications(userId: string, filters?: {
     timeFilter?: 'day' | 'two_days' | 'three_days' | 'week' | 'month';
@@ -1774,6 +2057,14 @@ export class DatabaseStorage implements IStorage {
     return session || undefined;
   }
 
+  async getGuaranteeSessionByCalendarEventId(calendarEventId: string): Promise<GuaranteeSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(guaranteeSessions)
+      .where(eq(guaranteeSessions.calendarEventId, calendarEventId));
+    return session || undefined;
+  }
+
   async createGuaranteeSession(session: InsertGuaranteeSession): Promise<GuaranteeSession> {
     const [created] = await db
       .insert(guaranteeSessions)
@@ -1794,6 +2085,38 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  // Only applies when the session is still in one of the expected statuses, undefined when another process changed it first
+  async updateGuaranteeSessionIfStatus(id: string, expectedStatus: string | string[], updates: Partial<GuaranteeSession>): Promise<GuaranteeSession | undefined> {
+    const [updated] = await db
+      .update(guaranteeSessions)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(guaranteeSessions.id, id),
+        Array.isArray(expectedStatus) ? inArray(guaranteeSessions.status, expectedStatus) : eq(guaranteeSessions.status, expectedStatus)
+      ))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Only the first process settling a paid deposit gets the row
+  async updateGuaranteeSessionIfDepositPaid(id: string, updates: Partial<GuaranteeSession>): Promise<GuaranteeSession | undefined> {
+    const [updated] = await db
+      .update(guaranteeSessions)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(guaranteeSessions.id, id),
+        eq(guaranteeSessions.depositStatus, 'paid')
+      ))
+      .returning();
+    return updated || undefined;
+  }
+
   async getSessionsForAppointmentReminder(): Promise<Array<GuaranteeSession & { config: ClientGuaranteeConfig }>> {
     const now = new Date();
     
@@ -1841,6 +2164,159 @@ export class DatabaseStorage implements IStorage {
       .where(eq(guaranteeSessions.id, sessionId));
   }
 
+  async getPendingSessionsForCardReminder(): Promise<Array<GuaranteeSession & { config: ClientGuaranteeConfig }>> {
+    // Reservations of the last day are kept: their time of day may still be ahead
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    
+    const results = await db
+      .select({
+        session: guaranteeSessions,
+        config: clientGuaranteeConfig,
+      })
+      .from(guaranteeSessions)
+      .innerJoin(clientGuaranteeConfig, eq(guaranteeSessions.userId, clientGuaranteeConfig.userId))
+      .where(
+        and(
+          eq(guaranteeSessions.status, 'pending'),
+          eq(clientGuaranteeConfig.enabled, true),
+          or(
+            eq(clientGuaranteeConfig.cardReminderEnabled, true),
+            isNotNull(clientGuaranteeConfig.autoCancelPendingHours)
+          ),
+          gt(guaranteeSessions.reservationDate, since)
+        )
+      );
+    
+    return results.map(({ session, config }) => ({ ...session, config }));
+  }
+
+  async getCancelledSessionsWithPaidDeposit(cancelledBefore: Date): Promise<Array<GuaranteeSession & { config: ClientGuaranteeConfig }>> {
+    const results = await db
+      .select({
+        session: guaranteeSessions,
+        config: clientGuaranteeConfig,
+      })
+      .from(guaranteeSessions)
+      .innerJoin(clientGuaranteeConfig, eq(guaranteeSessions.userId, clientGuaranteeConfig.userId))
+      .where(
+        and(
+          eq(guaranteeSessions.status, 'cancelled'),
+          eq(guaranteeSessions.guaranteeMode, 'deposit'),
+          eq(guaranteeSessions.depositStatus, 'paid'),
+          // Sessions cancelled before cancelledAt existed were last updated by their cancellation
+          or(
+            lte(guaranteeSessions.cancelledAt, cancelledBefore),
+            and(isNull(guaranteeSessions.cancelledAt), lte(guaranteeSessions.updatedAt, cancelledBefore))
+          )
+        )
+      );
+    
+    return results.map(({ session, config }) => ({ ...session, config }));
+  }
+
+  async countFailedDepositRefunds(sessionId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(noshowCharges)
+      .where(and(
+        eq(noshowCharges.guaranteeSessionId, sessionId),
+        eq(noshowCharges.chargeType, 'deposit_refund'),
+        eq(noshowCharges.status, 'failed')
+      ));
+    return result?.count || 0;
+  }
+
+  async getSessionsForNoshowDetection(): Promise<Array<GuaranteeSession & { config: ClientGuaranteeConfig }>> {
+    // Integrations sync orders late: recent reservations are checked for a few days,
+    // older ones only while a no-show is waiting in the review queue
+    const since = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+    
+    const results = await db
+      .select({
+        session: guaranteeSessions,
+        config: clientGuaranteeConfig,
+      })
+      .from(guaranteeSessions)
+      .innerJoin(clientGuaranteeConfig, eq(guaranteeSessions.userId, clientGuaranteeConfig.userId))
+      .where(
+        and(
+          eq(guaranteeSessions.status, 'validated'),
+          eq(clientGuaranteeConfig.enabled, true),
+          ne(clientGuaranteeConfig.noshowDetectionMode, 'off'),
+          lte(guaranteeSessions.reservationDate, new Date()),
+          or(
+            gt(guaranteeSessions.reservationDate, since),
+            isNotNull(guaranteeSessions.noshowDetectedAt)
+          )
+        )
+      );
+    
+    return results.map(({ session, config }) => ({ ...session, config }));
+  }
+
+  async getNoshowReviewQueue(userId: string): Promise<GuaranteeSession[]> {
+    return db
+      .select()
+      .from(guaranteeSessions)
+      .where(
+        and(
+          eq(guaranteeSessions.userId, userId),
+          eq(guaranteeSessions.status, 'validated'),
+          isNotNull(guaranteeSessions.noshowDetectedAt)
+        )
+      )
+      .orderBy(asc(guaranteeSessions.noshowDetectedAt));
+  }
+
+  async findCheckInOrder(userId: string, customer: { email?: string | null; phone?: string | null }, from: Date, to: Date): Promise<ExternalOrder | undefined> {
+    const match = identityCondition(getPhoneKey(customer.phone), normalizeEmail(customer.email), externalOrders.customerPhone, externalOrders.customerEmail);
+    if (!match) return undefined;
+    
+    // A sale rung up at the reserved slot proves the visit; bookings and refunds do not
+    const [order] = await db
+      .select()
+      .from(externalOrders)
+      .where(
+        and(
+          eq(externalOrders.userId, userId),
+          match,
+          // An order without a date of its own is dated by its import, which says nothing about the visit
+          eq(externalOrders.orderDateFromSource, true),
+          gte(externalOrders.orderDate, from),
+          lte(externalOrders.orderDate, to),
+          or(isNull(externalOrders.status), notInArray(externalOrders.status, ['cancelled', 'refunded'])),
+          or(isNull(externalOrders.orderType), notInArray(externalOrders.orderType, ['refund', 'reservation', 'booking']))
+        )
+      )
+      .orderBy(asc(externalOrders.orderDate))
+      .limit(1);
+    return order || undefined;
+  }
+
+  async isReturningGuaranteeCustomer(userId: string, customer: { email?: string | null; phone?: string | null }): Promise<boolean> {
+    const identity = [];
+    if (customer.email) identity.push(sql`lower(${guaranteeSessions.customerEmail}) = ${customer.email.toLowerCase()}`);
+    if (customer.phone) identity.push(eq(guaranteeSessions.customerPhone, customer.phone));
+    if (identity.length === 0) return false;
+    
+    // Attendance is rarely marked: a validated reservation already past counts as a visit
+    const [previous] = await db
+      .select({ id: guaranteeSessions.id })
+      .from(guaranteeSessions)
+      .where(
+        and(
+          eq(guaranteeSessions.userId, userId),
+          or(...identity),
+          or(
+            eq(guaranteeSessions.status, 'completed'),
+            and(eq(guaranteeSessions.status, 'validated'), lt(guaranteeSessions.reservationDate, new Date()))
+          )
+        )
+      )
+      .limit(1);
+    return !!previous;
+  }
+
   async getCallsForAppointmentReminder(): Promise<Array<Call & { guaranteeConfig: ClientGuaranteeConfig | null }>> {
     const now = new Date();
     
@@ -2004,6 +2480,39 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getNoshowChargeById(id: string): Promise<NoshowCharge | undefined> {
+    const [charge] = await db
+      .select()
+      .from(noshowCharges)
+      .where(eq(noshowCharges.id, id));
+    return charge || undefined;
+  }
+
+  async getDisputableChargeByPaymentIntentId(paymentIntentId: string): Promise<NoshowCharge | undefined> {
+    // Refund/retained/applied rows share the deposit's PaymentIntent: the dispute belongs to the payment itself
+    const [charge] = await db
+      .select()
+      .from(noshowCharges)
+      .where(
+        and(
+          eq(noshowCharges.paymentIntentId, paymentIntentId),
+          inArray(noshowCharges.chargeType, ['noshow_penalty', 'deposit'])
+        )
+      )
+      .orderBy(desc(noshowCharges.createdAt))
+      .limit(1);
+    return charge || undefined;
+  }
+
+  async updateNoshowCharge(id: string, updates: Partial<NoshowCharge>): Promise<NoshowCharge | undefined> {
+    const [updated] = await db
+      .update(noshowCharges)
+      .set(updates)
+      .where(eq(noshowCharges.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   async getGuaranteeStats(userId: string, period?: 'week' | 'month' | 'year' | 'all'): Promise<{
     noshowCount: number;
     totalRecovered: number;
@@ -2031,16 +2540,28 @@ export class DatabaseStorage implements IStorage {
       conditions.push(gte(noshowCharges.createdAt, startDate));
     }
     
-    const charges = await db
-      .select()
+    const rows = await db
+      .select({ charge: noshowCharges, sessionStatus: guaranteeSessions.status })
       .from(noshowCharges)
+      .leftJoin(guaranteeSessions, eq(noshowCharges.guaranteeSessionId, guaranteeSessions.id))
       .where(and(...conditions));
     
-    const noshowCount = charges.length;
-    const totalRecovered = charges
-      .filter(c => c.status === 'succeeded')
-      .reduce((sum, c) => sum + c.amount, 0);
-    const failedCharges = charges.filter(c => c.status === 'failed').length;
+    // Deposit payments, refunds and deductions are not no-shows; a deposit kept after
+    // a late cancellation is recovered money but not a no-show either
+    const recoveries = rows.filter(r =>
+      r.charge.chargeType === 'noshow_penalty' || r.charge.chargeType === 'deposit_retained'
+    );
+    const noshowCount = recoveries.filter(r =>
+      r.charge.chargeType === 'noshow_penalty' || r.sessionStatus !== 'cancelled'
+    ).length;
+    // A lost dispute gives the money back to the customer (a kept deposit shares the disputed payment)
+    const lostPayments = new Set(rows
+      .filter(r => r.charge.disputeStatus === 'lost')
+      .map(r => r.charge.paymentIntentId));
+    const totalRecovered = recoveries
+      .filter(r => r.charge.status === 'succeeded' && !lostPayments.has(r.charge.paymentIntentId))
+      .reduce((sum, r) => sum + r.charge.amount, 0);
+    const failedCharges = rows.filter(r => r.charge.status === 'failed').length;
     
     // Estimate avoided no-shows (cancellations after CB validation)
     const sessionConditions = [eq(guaranteeSessions.userId, userId)];
@@ -2067,7 +2588,9 @@ export class DatabaseStorage implements IStorage {
       .where(and(...sessionConditions, eq(guaranteeSessions.status, 'cancelled')));
     
     const totalAvoided = cancelledSessions.reduce(
-      (sum, s) => sum + (s.penaltyAmount * s.nbPersons * 100),
+      (sum, s) => sum + (s.guaranteeMode === 'deposit' && s.depositAmount
+        ? s.depositAmount
+        : s.penaltyAmount * s.nbPersons * 100),
       0
     );
     
@@ -3044,15 +3567,81 @@ export class DatabaseStorage implements IStorage {
     return contact || undefined;
   }
 
+  // Matches on normalized phone/email, so '+33 6 12...' and '0612...' resolve to the same contact
+  async findMarketingContactByIdentity(userId: string, identity: { phone?: string | null; email?: string | null }): Promise<MarketingContact | undefined> {
+    const match = identityCondition(getPhoneKey(identity.phone), normalizeEmail(identity.email), marketingContacts.phone, marketingContacts.email);
+    if (!match) return undefined;
+
+    const [contact] = await db
+      .select()
+      .from(marketingContacts)
+      .where(and(eq(marketingContacts.userId, userId), match))
+      .orderBy(marketingContacts.createdAt)
+      .limit(1);
+    return contact || undefined;
+  }
+
+  // Keeps the first tagging date of the tags still present, dates the new ones now
+  private stampAddedTags(tags: string[] | null | undefined, previous?: Record<string, string> | null): Record<string, string> | null {
+    if (!tags?.length) return null;
+    const now = new Date().toISOString();
+    return Object.fromEntries(tags.map(tag => [tag, previous?.[tag] || now]));
+  }
+
   async createMarketingContact(contact: InsertMarketingContact): Promise<MarketingContact> {
     const [created] = await db
       .insert(marketingContacts)
-      .values(contact as any)
+      .values({ ...contact, tagsAddedAt: this.stampAddedTags(contact.tags) })
       .returning();
     return created;
   }
 
+  // When another sync created the same number in the meantime, its contact is returned untouched
+  async upsertMarketingContactByPhone(contact: InsertMarketingContact): Promise<{ contact: MarketingContact; created: boolean }> {
+    const [row] = await db
+      .insert(marketingContacts)
+      .values({ ...contact, tagsAddedAt: this.stampAddedTags(contact.tags) })
+      .onConflictDoUpdate({
+        target: [marketingContacts.userId, marketingContacts.phone],
+        set: { updatedAt: new Date() },
+      })
+      // xmax is 0 on a freshly inserted row, and set on a row updated by the conflict clause
+      .returning({ ...getTableColumns(marketingContacts), created: sql<boolean>`(xmax = 0)` });
+    const { created, ...upserted } = row;
+    return { contact: upserted, created };
+  }
+
+  // Counts a reservation call once in the contact's visits, however many times the call is synced
+  async recordMarketingContactVisit(contactId: string, callId: string, visitAt: Date): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [visit] = await tx
+        .insert(marketingContactVisits)
+        .values({ contactId, callId, visitAt })
+        .onConflictDoNothing()
+        .returning({ id: marketingContactVisits.id });
+      if (!visit) return false;
+
+      await tx
+        .update(marketingContacts)
+        .set({
+          totalVisits: sql`coalesce(${marketingContacts.totalVisits}, 0) + 1`,
+          lastVisitAt: sql`greatest(${marketingContacts.lastVisitAt}, ${visitAt.toISOString()}::timestamp)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(marketingContacts.id, contactId));
+      return true;
+    });
+  }
+
   async updateMarketingContact(id: string, userId: string, updates: Partial<MarketingContact>): Promise<MarketingContact | undefined> {
+    if (updates.tags !== undefined) {
+      const [current] = await db
+        .select({ tagsAddedAt: marketingContacts.tagsAddedAt })
+        .from(marketingContacts)
+        .where(and(eq(marketingContacts.id, id), eq(marketingContacts.userId, userId)));
+      updates = { ...updates, tagsAddedAt: this.stampAddedTags(updates.tags, current?.tagsAddedAt) };
+    }
+
     const [updated] = await db
       .update(marketingContacts)
       .set({ ...updates, updatedAt: new Date() })
@@ -3149,6 +3738,65 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(marketingContacts.createdAt));
   }
 
+  async getMarketingContactsCreatedSince(userId: string, since: Date): Promise<MarketingContact[]> {
+    return await db
+      .select()
+      .from(marketingContacts)
+      .where(and(
+        eq(marketingContacts.userId, userId),
+        gte(marketingContacts.createdAt, since)
+      ))
+      .orderBy(asc(marketingContacts.createdAt));
+  }
+
+  async getMarketingContactsByBirthday(userId: string, month: number, day: number): Promise<MarketingContact[]> {
+    return await db
+      .select()
+      .from(marketingContacts)
+      .where(and(
+        eq(marketingContacts.userId, userId),
+        sql`EXTRACT(MONTH FROM ${marketingContacts.birthDate}) = ${month}`,
+        sql`EXTRACT(DAY FROM ${marketingContacts.birthDate}) = ${day}`
+      ));
+  }
+
+  async getMarketingContactsByLastVisit(userId: string, range: { after?: Date; before?: Date }): Promise<MarketingContact[]> {
+    const conditions = [
+      eq(marketingContacts.userId, userId),
+      isNotNull(marketingContacts.lastVisitAt),
+    ];
+    if (range.after) {
+      conditions.push(gte(marketingContacts.lastVisitAt, range.after));
+    }
+    if (range.before) {
+      conditions.push(lte(marketingContacts.lastVisitAt, range.before));
+    }
+    
+    return await db
+      .select()
+      .from(marketingContacts)
+      .where(and(...conditions));
+  }
+
+  async getMarketingContactsTaggedSince(userId: string, automationId: string, tag: string, since: Date): Promise<MarketingContact[]> {
+    const addedAt = sql`(${marketingContacts.tagsAddedAt} ->> ${tag})::timestamp`;
+    // Re-tagging after a removal is a new occurrence: only enrollments from that tagging count
+    return await db
+      .select()
+      .from(marketingContacts)
+      .where(and(
+        eq(marketingContacts.userId, userId),
+        sql`${tag} = ANY(${marketingContacts.tags})`,
+        sql`${addedAt} >= ${since}`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${marketingAutomationLogs}
+          WHERE ${marketingAutomationLogs.automationId} = ${automationId}
+            AND ${marketingAutomationLogs.contactId} = ${marketingContacts.id}
+            AND ${marketingAutomationLogs.triggeredAt} >= ${addedAt}
+        )`
+      ));
+  }
+
   async incrementContactEmailStats(contactId: string, stat: 'sent' | 'opened' | 'clicked'): Promise<void> {
     const updates: any = { updatedAt: new Date() };
     if (stat === 'sent') {
@@ -3174,10 +3822,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Marketing Consent History
-  async createConsentHistory(contactId: string, action: string, channel: string, source: string, ipAddress?: string, userAgent?: string): Promise<MarketingConsentHistory> {
+  async createConsentHistory(contactId: string, action: string, channel: string, source: string, ipAddress?: string, userAgent?: string, callId?: string): Promise<MarketingConsentHistory> {
     const [created] = await db
       .insert(marketingConsentHistory)
-      .values({ contactId, action, channel, source, ipAddress, userAgent })
+      .values({ contactId, action, channel, source, ipAddress, userAgent, callId })
       .returning();
     return created;
   }
@@ -3190,6 +3838,34 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(marketingConsentHistory.createdAt));
   }
 
+  // Marketing Config
+  async getMarketingConfig(userId: string): Promise<MarketingConfig | undefined> {
+    const [config] = await db
+      .select()
+      .from(marketingConfig)
+      .where(eq(marketingConfig.userId, userId));
+    return config || undefined;
+  }
+
+  async upsertMarketingConfig(userId: string, config: Partial<InsertMarketingConfig>): Promise<MarketingConfig> {
+    const existing = await this.getMarketingConfig(userId);
+    
+    if (existing) {
+      const [updated] = await db
+        .update(marketingConfig)
+        .set({ ...config, updatedAt: new Date() })
+        .where(eq(marketingConfig.userId, userId))
+        .returning();
+      return updated;
+    } else {
+      const [created] = await db
+        .insert(marketingConfig)
+        .values({ ...config, userId })
+        .returning();
+      return created;
+    }
+  }
+
   // Marketing Segments
   async getMarketingSegments(userId: string): Promise<MarketingSegment[]> {
     return await db
@@ -3348,7 +4024,8 @@ export class DatabaseStorage implements IStorage {
     limit?: number;
     offset?: number;
   }): Promise<MarketingCampaign[]> {
-    const conditions = [eq(marketingCampaigns.userId, userId)];
+    // A/B test variants are shown through their parent campaign
+    const conditions = [eq(marketingCampaigns.userId, userId), isNull(marketingCampaigns.abVariantOf)];
     
     if (filters?.status) {
       conditions.push(eq(marketingCampaigns.status, filters.status));
@@ -3419,6 +4096,45 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(marketingCampaigns.scheduledAt));
   }
 
+  async claimCampaignForSending(id: string, stalledBefore: Date): Promise<MarketingCampaign | undefined> {
+    // Only one dispatcher run gets the row: a due campaign, or a send interrupted long enough ago
+    const [claimed] = await db
+      .update(marketingCampaigns)
+      .set({
+        status: 'sending',
+        sendingStartedAt: sql`COALESCE(${marketingCampaigns.sendingStartedAt}, NOW())`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(marketingCampaigns.id, id),
+        or(
+          eq(marketingCampaigns.status, 'scheduled'),
+          and(eq(marketingCampaigns.status, 'sending'), lte(marketingCampaigns.updatedAt, stalledBefore))
+        )
+      ))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async getStalledSendingCampaigns(updatedBefore: Date): Promise<MarketingCampaign[]> {
+    return await db
+      .select()
+      .from(marketingCampaigns)
+      .where(and(
+        eq(marketingCampaigns.status, 'sending'),
+        lte(marketingCampaigns.updatedAt, updatedBefore)
+      ))
+      .orderBy(asc(marketingCampaigns.updatedAt));
+  }
+
+  async getAbTestVariants(parentCampaignId: string): Promise<MarketingCampaign[]> {
+    return await db
+      .select()
+      .from(marketingCampaigns)
+      .where(eq(marketingCampaigns.abVariantOf, parentCampaignId))
+      .orderBy(asc(marketingCampaigns.createdAt));
+  }
+
   async updateCampaignStats(id: string, stats: Partial<{
     totalRecipients: number;
     totalSent: number;
@@ -3482,6 +4198,7 @@ export class DatabaseStorage implements IStorage {
     bounced: number;
     failed: number;
     unsubscribed: number;
+    converted: number;
   }> {
     const sends = await this.getMarketingSendsByCampaign(campaignId);
     return {
@@ -3492,7 +4209,8 @@ export class DatabaseStorage implements IStorage {
       clicked: sends.filter(s => s.clickedAt).length,
       bounced: sends.filter(s => s.bouncedAt).length,
       failed: sends.filter(s => s.failedAt).length,
-      unsubscribed: sends.filter(s => s.unsubscribedAt).length
+      unsubscribed: sends.filter(s => s.unsubscribedAt).length,
+      converted: sends.filter(s => s.convertedAt).length
     };
   }
 
@@ -3563,6 +4281,22 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  async getActiveMarketingAutomations(): Promise<MarketingAutomation[]> {
+    return await db
+      .select()
+      .from(marketingAutomations)
+      .where(eq(marketingAutomations.isActive, true))
+      .orderBy(asc(marketingAutomations.createdAt));
+  }
+
+  async getMarketingAutomationByIdAdmin(id: string): Promise<MarketingAutomation | undefined> {
+    const [automation] = await db
+      .select()
+      .from(marketingAutomations)
+      .where(eq(marketingAutomations.id, id));
+    return automation || undefined;
+  }
+
   async incrementAutomationStats(id: string, stat: 'triggered' | 'completed' | 'failed'): Promise<void> {
     const updates: any = { updatedAt: new Date() };
     if (stat === 'triggered') {
@@ -3577,10 +4311,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Marketing Automation Logs
-  async createAutomationLog(log: Partial<MarketingAutomationLog> & { automationId: string; contactId: string; status: string }): Promise<MarketingAutomationLog> {
+  async createAutomationLog(log: InsertMarketingAutomationLog): Promise<MarketingAutomationLog> {
     const [created] = await db
       .insert(marketingAutomationLogs)
-      .values(log as any)
+      .values(log)
       .returning();
     return created;
   }
@@ -3594,19 +4328,20 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async getPendingAutomationLogs(): Promise<MarketingAutomationLog[]> {
-    const now = new Date();
-    return await db
-      .select()
-      .from(marketingAutomationLogs)
+  async claimDueAutomationLogs(leaseUntil: Date): Promise<MarketingAutomationLog[]> {
+    // Pushing nextStepAt forward hands each due step to a single engine run; an interrupted run is resumed once the lease expires
+    const claimed = await db
+      .update(marketingAutomationLogs)
+      .set({ nextStepAt: leaseUntil })
       .where(and(
         eq(marketingAutomationLogs.status, 'running'),
         or(
           isNull(marketingAutomationLogs.nextStepAt),
-          lte(marketingAutomationLogs.nextStepAt, now)
-        )!
+          lte(marketingAutomationLogs.nextStepAt, new Date())
+        )
       ))
-      .orderBy(asc(marketingAutomationLogs.triggeredAt));
+      .returning();
+    return claimed.sort((a, b) => a.triggeredAt.getTime() - b.triggeredAt.getTime());
   }
 
   async getAutomationLogsByContact(contactId: string): Promise<MarketingAutomationLog[]> {
@@ -3617,6 +4352,28 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(marketingAutomationLogs.triggeredAt));
   }
 
+  async getAutomationLogById(id: string): Promise<MarketingAutomationLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(marketingAutomationLogs)
+      .where(eq(marketingAutomationLogs.id, id));
+    return log || undefined;
+  }
+
+  async getLatestAutomationLogs(automationId: string, contactIds: string[]): Promise<MarketingAutomationLog[]> {
+    if (contactIds.length === 0) return [];
+    
+    // One row per contact: the most recent enrollment
+    return await db
+      .selectDistinctOn([marketingAutomationLogs.contactId])
+      .from(marketingAutomationLogs)
+      .where(and(
+        eq(marketingAutomationLogs.automationId, automationId),
+        inArray(marketingAutomationLogs.contactId, contactIds)
+      ))
+      .orderBy(marketingAutomationLogs.contactId, desc(marketingAutomationLogs.triggeredAt));
+  }
+
   // Marketing Analytics
   async getMarketingOverviewStats(userId: string, period?: 'week' | 'month' | 'year'): Promise<{
     totalContacts: number;
@@ -3653,11 +4410,11 @@ export class DatabaseStorage implements IStorage {
         gte(marketingContacts.createdAt, periodStart)
       ));
     
-    // Total campaigns
+    // Total campaigns (A/B test variants count with their parent)
     const [campaignsResult] = await db
       .select({ count: count() })
       .from(marketingCampaigns)
-      .where(eq(marketingCampaigns.userId, userId));
+      .where(and(eq(marketingCampaigns.userId, userId), isNull(marketingCampaigns.abVariantOf)));
     
     // Campaigns sent in period
     const [sentCampaignsResult] = await db
@@ -3665,6 +4422,7 @@ export class DatabaseStorage implements IStorage {
       .from(marketingCampaigns)
       .where(and(
         eq(marketingCampaigns.userId, userId),
+        isNull(marketingCampaigns.abVariantOf),
         eq(marketingCampaigns.status, 'sent'),
         gte(marketingCampaigns.sentAt, periodStart)
       ));
@@ -3909,17 +4667,17 @@ export class DatabaseStorage implements IStorage {
     return mapping || undefined;
   }
 
-  async upsertFieldMapping(connectionId: string, entityType: string, mappings: object, customFields?: object): Promise<ExternalFieldMapping> {
+  async upsertFieldMapping(connectionId: string, entityType: string, mappings: object, customFields?: object, sourceConfig?: object): Promise<ExternalFieldMapping> {
     const existing = await this.getFieldMappingByEntity(connectionId, entityType);
     if (existing) {
       const [updated] = await db.update(externalFieldMappings)
-        .set({ mappings, customFields, updatedAt: new Date() })
+        .set({ mappings, customFields, sourceConfig, updatedAt: new Date() })
         .where(eq(externalFieldMappings.id, existing.id))
         .returning();
       return updated;
     }
     const [created] = await db.insert(externalFieldMappings)
-      .values({ connectionId, entityType, mappings, customFields })
+      .values({ connectionId, entityType, mappings, customFields, sourceConfig })
       .returning();
     return created;
   }
@@ -4220,7 +4978,8 @@ export class DatabaseStorage implements IStorage {
       externalId, 
       externalSource: source,
       totalAmount: data.totalAmount || '0',
-      orderDate: data.orderDate || new Date()
+      orderDate: data.orderDate || new Date(),
+      orderDateFromSource: !!data.orderDate
     });
   }
 
@@ -4538,11 +5297,29 @@ export class DatabaseStorage implements IStorage {
     return query;
   }
 
+  async getExternalActivityByExternalId(userId: string, externalId: string, source: string): Promise<ExternalActivity | undefined> {
+    const [activity] = await db.select().from(externalActivities)
+      .where(and(
+        eq(externalActivities.userId, userId),
+        eq(externalActivities.externalId, externalId),
+        eq(externalActivities.externalSource, source)
+      ));
+    return activity || undefined;
+  }
+
   async createExternalActivity(activity: Partial<ExternalActivity> & { userId: string; externalSource: string; activityType: string; activityDate: Date }): Promise<ExternalActivity> {
     const [created] = await db.insert(externalActivities).values(activity).returning();
     return created;
   }
 
+  async updateExternalActivity(id: string, userId: string, updates: Partial<ExternalActivity>): Promise<ExternalActivity | undefined> {
+    const [updated] = await db.update(externalActivities)
+      .set(updates)
+      .where(and(eq(externalActivities.id, id), eq(externalActivities.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
   async getCustomerActivities(customerId: string): Promise<ExternalActivity[]> {
     return db.select().from(externalActivities)
       .where(eq(externalActivities.customerId, customerId))
@@ -4572,6 +5349,370 @@ export class DatabaseStorage implements IStorage {
     await db.delete(integrationWebhooks).where(eq(integrationWebhooks.id, id));
   }
 
+  // Incoming Webhook Events
+  async createWebhookEvent(event: Partial<IntegrationWebhookEvent> & { connectionId: string; userId: string; payload: unknown }): Promise<IntegrationWebhookEvent> {
+    const [created] = await db.insert(integrationWebhookEvents).values(event).returning();
+    return created;
+  }
+
+  async getWebhookEvents(connectionId: string, userId: string, filters?: { status?: string; limit?: number }): Promise<IntegrationWebhookEvent[]> {
+    const conditions = [
+      eq(integrationWebhookEvents.connectionId, connectionId),
+      eq(integrationWebhookEvents.userId, userId)
+    ];
+    if (filters?.status) {
+      conditions.push(eq(integrationWebhookEvents.status, filters.status));
+    }
+
+    return db.select().from(integrationWebhookEvents)
+      .where(and(...conditions))
+      .orderBy(desc(integrationWebhookEvents.receivedAt))
+      .limit(filters?.limit || 50);
+  }
+
+  async getWebhookEventById(id: string, userId: string): Promise<IntegrationWebhookEvent | undefined> {
+    const [event] = await db.select().from(integrationWebhookEvents)
+      .where(and(eq(integrationWebhookEvents.id, id), eq(integrationWebhookEvents.userId, userId)));
+    return event || undefined;
+  }
+
+  async updateWebhookEvent(id: string, updates: Partial<IntegrationWebhookEvent>): Promise<IntegrationWebhookEvent | undefined> {
+    const [updated] = await db.update(integrationWebhookEvents)
+      .set(updates)
+      .where(eq(integrationWebhookEvents.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Outbound Webhooks
+  async getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    return db.select().from(webhookEndpoints)
+      .where(eq(webhookEndpoints.userId, userId))
+      .orderBy(desc(webhookEndpoints.createdAt));
+  }
+
+  async getWebhookEndpointById(id: string, userId: string): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db.select().from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)));
+    return endpoint || undefined;
+  }
+
+  async getWebhookEndpointsForEvent(userId: string, event: string): Promise<WebhookEndpoint[]> {
+    return db.select().from(webhookEndpoints)
+      .where(and(
+        eq(webhookEndpoints.userId, userId),
+        eq(webhookEndpoints.isActive, true),
+        sql`${event} = ANY(${webhookEndpoints.events})`
+      ));
+  }
+
+  async createWebhookEndpoint(endpoint: Partial<WebhookEndpoint> & { userId: string; url: string; secret: string; events: string[] }): Promise<WebhookEndpoint> {
+    const [created] = await db.insert(webhookEndpoints).values(endpoint).returning();
+    return created;
+  }
+
+  async updateWebhookEndpoint(id: string, userId: string, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint | undefined> {
+    const [updated] = await db.update(webhookEndpoints)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWebhookEndpoint(id: string, userId: string): Promise<void> {
+    await db.delete(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)));
+  }
+
+  async createWebhookDelivery(delivery: Partial<WebhookDelivery> & { endpointId: string; userId: string; eventId: string; event: string; payload: unknown }): Promise<WebhookDelivery> {
+    const [created] = await db.insert(webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db.update(webhookDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getWebhookDeliveries(endpointId: string, userId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    return db.select().from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.endpointId, endpointId), eq(webhookDeliveries.userId, userId)))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getWebhookDeliveryById(id: string, userId: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.userId, userId)));
+    return delivery || undefined;
+  }
+
+  async getDueWebhookDeliveries(limit: number = 100): Promise<WebhookDelivery[]> {
+    return db.select().from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, 'retrying'),
+        lte(webhookDeliveries.nextAttemptAt, new Date())
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  // Public API keys
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return db.select().from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKeyById(id: string, userId: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)));
+    return apiKey || undefined;
+  }
+
+  // Expiry is checked by the caller so it can answer with a specific error
+  async getActiveApiKeysByPrefix(keyPrefix: string): Promise<ApiKey[]> {
+    return db.select().from(apiKeys)
+      .where(and(eq(apiKeys.keyPrefix, keyPrefix), isNull(apiKeys.revokedAt)));
+  }
+
+  async createApiKey(apiKey: Partial<ApiKey> & { userId: string; name: string; keyPrefix: string; keyHash: string; scopes: string[] }): Promise<ApiKey> {
+    const [created] = await db.insert(apiKeys).values(apiKey).returning();
+    return created;
+  }
+
+  async updateApiKey(id: string, userId: string, updates: Partial<ApiKey>): Promise<ApiKey | undefined> {
+    const [updated] = await db.update(apiKeys)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async recordApiKeyUsage(id: string, ip: string | null): Promise<void> {
+    await db.update(apiKeys)
+      .set({
+        lastUsedAt: new Date(),
+        lastUsedIp: ip,
+        requestCount: sql`${apiKeys.requestCount} + 1`,
+      })
+      .where(eq(apiKeys.id, id));
+  }
+
+  // Counts the request in the current window, or opens a new one when it has elapsed - atomic across instances
+  async consumeApiRateLimit(key: string, windowMs: number): Promise<{ count: number; windowStart: Date }> {
+    const now = new Date();
+    const elapsed = sql`${apiRateLimitWindows.windowStart} <= ${new Date(now.getTime() - windowMs).toISOString()}::timestamp`;
+    const [window] = await db.insert(apiRateLimitWindows)
+      .values({ key, windowStart: now, count: 1 })
+      .onConflictDoUpdate({
+        target: apiRateLimitWindows.key,
+        set: {
+          count: sql`CASE WHEN ${elapsed} THEN 1 ELSE ${apiRateLimitWindows.count} + 1 END`,
+          windowStart: sql`CASE WHEN ${elapsed} THEN ${now.toISOString()}::timestamp ELSE ${apiRateLimitWindows.windowStart} END`,
+        },
+      })
+      .returning({ count: apiRateLimitWindows.count, windowStart: apiRateLimitWindows.windowStart });
+    return window;
+  }
+
+  // Scheduled call exports
+  async getCallExportSchedules(userId: string): Promise<CallExportSchedule[]> {
+    return db.select().from(callExportSchedules)
+      .where(eq(callExportSchedules.userId, userId))
+      .orderBy(desc(callExportSchedules.createdAt));
+  }
+
+  async getCallExportScheduleById(id: string, userId: string): Promise<CallExportSchedule | undefined> {
+    const [schedule] = await db.select().from(callExportSchedules)
+      .where(and(eq(callExportSchedules.id, id), eq(callExportSchedules.userId, userId)));
+    return schedule || undefined;
+  }
+
+  async getDueCallExportSchedules(): Promise<CallExportSchedule[]> {
+    return db.select().from(callExportSchedules)
+      .where(and(
+        eq(callExportSchedules.isActive, true),
+        lte(callExportSchedules.nextRunAt, new Date())
+      ))
+      .orderBy(asc(callExportSchedules.nextRunAt));
+  }
+
+  async createCallExportSchedule(schedule: InsertCallExportSchedule): Promise<CallExportSchedule> {
+    const [created] = await db.insert(callExportSchedules).values(schedule).returning();
+    return created;
+  }
+
+  async updateCallExportSchedule(id: string, userId: string, updates: Partial<CallExportSchedule>): Promise<CallExportSchedule | undefined> {
+    const [updated] = await db.update(callExportSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(callExportSchedules.id, id), eq(callExportSchedules.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCallExportSchedule(id: string, userId: string): Promise<void> {
+    await db.delete(callExportSchedules)
+      .where(and(eq(callExportSchedules.id, id), eq(callExportSchedules.userId, userId)));
+  }
+
+  // Scheduled exports only go to the account itself or to verified members of its tenants
+  async getVerifiedTeamEmails(userId: string): Promise<string[]> {
+    const userTenants = db.select({ tenantId: tenantUserRoles.tenantId })
+      .from(tenantUserRoles)
+      .where(eq(tenantUserRoles.userId, userId));
+    const teamUsers = db.select({ userId: tenantUserRoles.userId })
+      .from(tenantUserRoles)
+      .where(inArray(tenantUserRoles.tenantId, userTenants));
+
+    const members = await db.select({ email: users.email })
+      .from(users)
+      .where(and(
+        eq(users.isVerified, true),
+        or(eq(users.id, userId), inArray(users.id, teamUsers))
+      ));
+    return members.map(member => member.email.toLowerCase());
+  }
+
+  // Call QA
+  async getCallQaScorecard(owner: { userId: string; tenantId?: string | null }): Promise<CallQaScorecard | undefined> {
+    const [scorecard] = await db.select().from(callQaScorecards)
+      .where(owner.tenantId ? eq(callQaScorecards.tenantId, owner.tenantId) : eq(callQaScorecards.userId, owner.userId))
+      .limit(1);
+    return scorecard || undefined;
+  }
+
+  async upsertCallQaScorecard(owner: { userId: string; tenantId?: string | null }, data: Pick<CallQaScorecard, 'criteria'> & Partial<Pick<CallQaScorecard, 'lowConfidenceThreshold'>>): Promise<CallQaScorecard> {
+    const existing = await this.getCallQaScorecard(owner);
+    if (existing) {
+      const [updated] = await db.update(callQaScorecards)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(callQaScorecards.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(callQaScorecards)
+      .values({ ...data, userId: owner.userId, tenantId: owner.tenantId || null })
+      .returning();
+    return created;
+  }
+
+  // Call outcome taxonomy
+  async getCallTaxonomy(owner: { userId: string; tenantId?: string | null }): Promise<CallTaxonomy | undefined> {
+    const [taxonomy] = await db.select().from(callTaxonomies)
+      .where(owner.tenantId ? eq(callTaxonomies.tenantId, owner.tenantId) : eq(callTaxonomies.userId, owner.userId))
+      .limit(1);
+    return taxonomy || undefined;
+  }
+
+  async upsertCallTaxonomy(owner: { userId: string; tenantId?: string | null }, data: Pick<CallTaxonomy, 'outcomes' | 'serviceTypes'>): Promise<CallTaxonomy> {
+    const existing = await this.getCallTaxonomy(owner);
+    if (existing) {
+      const [updated] = await db.update(callTaxonomies)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(callTaxonomies.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(callTaxonomies)
+      .values({ ...data, userId: owner.userId, tenantId: owner.tenantId || null })
+      .returning();
+    return created;
+  }
+
+  // Calls needing a review: low confidence, failed or rough conversations, not reviewed yet
+  async getCallQaQueue(userId: string, options: { threshold: number; reason?: CallQaQueueReason; limit: number; offset: number }): Promise<{ calls: Call[]; total: number }> {
+    const reasonConditions: Record<CallQaQueueReason, SQL> = {
+      low_confidence: lt(calls.bookingConfidence, options.threshold),
+      failed: or(eq(calls.status, 'failed'), eq(calls.callSuccessful, false))!,
+      difficult: eq(calls.callQuality, 'difficile'),
+      interrupted: eq(calls.callQuality, 'interrompu'),
+    };
+    const where = and(
+      eq(calls.userId, userId),
+      options.reason ? reasonConditions[options.reason] : or(...Object.values(reasonConditions)),
+      sql`not exists (select 1 from ${callQaReviews} where ${callQaReviews.callId} = ${calls.id})`
+    );
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select().from(calls)
+        .where(where)
+        .orderBy(desc(calls.startTime))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ total: count() }).from(calls).where(where),
+    ]);
+    return { calls: rows, total: Number(total) };
+  }
+
+  async getCallQaReview(callId: string, userId: string): Promise<CallQaReview | undefined> {
+    const [review] = await db.select().from(callQaReviews)
+      .where(and(eq(callQaReviews.callId, callId), eq(callQaReviews.userId, userId)));
+    return review || undefined;
+  }
+
+  async upsertCallQaReview(review: Pick<CallQaReview, 'callId' | 'userId' | 'reviewerId' | 'criteria' | 'scores' | 'overallScore' | 'notes'>): Promise<CallQaReview> {
+    const existing = await this.getCallQaReview(review.callId, review.userId);
+    if (existing) {
+      const [updated] = await db.update(callQaReviews)
+        .set({ ...review, updatedAt: new Date() })
+        .where(eq(callQaReviews.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(callQaReviews).values(review).returning();
+    return created;
+  }
+
+  async getCallQaAnnotations(callId: string, userId: string): Promise<CallQaAnnotation[]> {
+    return db.select().from(callQaAnnotations)
+      .where(and(eq(callQaAnnotations.callId, callId), eq(callQaAnnotations.userId, userId)))
+      .orderBy(asc(callQaAnnotations.startOffset));
+  }
+
+  async createCallQaAnnotation(annotation: Omit<CallQaAnnotation, 'id' | 'createdAt'>): Promise<CallQaAnnotation> {
+    const [created] = await db.insert(callQaAnnotations).values(annotation).returning();
+    return created;
+  }
+
+  async deleteCallQaAnnotation(id: string, userId: string): Promise<boolean> {
+    const deleted = await db.delete(callQaAnnotations)
+      .where(and(eq(callQaAnnotations.id, id), eq(callQaAnnotations.userId, userId)))
+      .returning({ id: callQaAnnotations.id });
+    return deleted.length > 0;
+  }
+
+  // Call anomaly alerts
+  async getCallAnomalyAlert(userId: string, metric: CallAnomalyMetric, windowStart: Date): Promise<CallAnomalyAlert | undefined> {
+    const [alert] = await db.select().from(callAnomalyAlerts)
+      .where(and(
+        eq(callAnomalyAlerts.userId, userId),
+        eq(callAnomalyAlerts.metric, metric),
+        eq(callAnomalyAlerts.windowStart, windowStart),
+      ));
+    return alert || undefined;
+  }
+
+  async getLatestCallAnomalyAlert(userId: string, metric: CallAnomalyMetric, direction: string): Promise<CallAnomalyAlert | undefined> {
+    const [alert] = await db.select().from(callAnomalyAlerts)
+      .where(and(
+        eq(callAnomalyAlerts.userId, userId),
+        eq(callAnomalyAlerts.metric, metric),
+        eq(callAnomalyAlerts.direction, direction),
+      ))
+      .orderBy(desc(callAnomalyAlerts.windowStart))
+      .limit(1);
+    return alert || undefined;
+  }
+
+  async createCallAnomalyAlert(alert: InsertCallAnomalyAlert): Promise<CallAnomalyAlert> {
+    const [created] = await db.insert(callAnomalyAlerts).values(alert).returning();
+    return created;
+  }
+
   // Integration Provider Configs
   async getProviderConfigs(): Promise<IntegrationProviderConfig[]> {
     return db.select().from(integrationProviderConfigs)
@@ -4852,13 +5993,6 @@ export class DatabaseStorage implements IStorage {
       if (tenant) {
         return tenant.id;
       }
-      // Fallback: check externalId in tenants table
-      const [tenantByExternalId] = await db.select()
-        .from(tenants)
-        .where(eq(tenants.externalId, agentId));
-      if (tenantByExternalId) {
-        return tenantByExternalId.id;
-      }
     }
 
     // Priority 3: Resolve from userId's default tenant
@@ -4892,6 +6026,15 @@ export class DatabaseStorage implements IStorage {
       userId: params.userId || null
     };
   }
+
+  /**
+   * Time zone used for the user's date ranges - the tenant's, Europe/Paris by default
+   */
+  async getUserTimezone(userId: string): Promise<string> {
+    const tenantId = await this.getEffectiveTenantId({ userId });
+    const tenant = tenantId ? await this.getTenant(tenantId) : undefined;
+    return tenant?.timezone || DEFAULT_TIMEZONE;
+  }
 }
 
 export const storage = new DatabaseStorage();
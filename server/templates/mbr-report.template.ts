@@ -641,6 +641,7 @@ export function generateMbrReportHTML(mbr: MbrV1): string {
       <div class="kpi-card highlight">
         <div class="kpi-label">Valeur estimée</div>
         <div class="kpi-value ${kpis.estimated_value_eur !== null ? 'positive' : ''}">${formatCurrency(kpis.estimated_value_eur)}</div>
+        ${kpis.measured_value_eur !== null && kpis.measured_value_eur !== undefined ? `<div class="kpi-label" style="margin: 6px 0 0;">Mesuré : ${formatCurrency(kpis.measured_value_eur)}</div>` : ''}
       </div>
       <div class="kpi-card">
         <div class="kpi-label">Note moyenne avis</div>
@@ -762,6 +763,28 @@ export function generateMbrReportHTML(mbr: MbrV1): string {
     </table>
     ` : ''}
     
+    ${calls.by_outcome?.length ? `
+    <h2 class="section-subtitle">Répartition par résultat</h2>
+    <table class="data-table">
+      <thead>
+        <tr>
+          <th>Résultat</th>
+          <th class="text-right">Appels</th>
+          <th class="text-right">Part</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${calls.by_outcome.map(row => `
+          <tr>
+            <td><span style="display: inline-block; width: 8px; height: 8px; border-radius: 50%; background: ${row.color}; margin-right: 6px;"></span>${row.label}</td>
+            <td class="text-right">${formatNumber(row.count)}</td>
+            <td class="text-right">${formatPercent(row.percent)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+    ` : ''}
+    
     ${calls.weekly_trend.length > 0 ? `
     <h2 class="section-subtitle">Tendance hebdomadaire</h2>
     <div class="chart-container">
@@ -903,6 +926,54 @@ export function generateMbrReportHTML(mbr: MbrV1): string {
       </div>
     </div>
     
+    ${finance.measured_revenue ? `
+    <h2 class="section-subtitle">Ventes mesurées</h2>
+    <table class="data-table">
+      <thead>
+        <tr>
+          <th>Rattachement</th>
+          <th class="text-right">Commandes</th>
+          <th class="text-right">Montant</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td>Confiance élevée (réservation ou appel du jour)</td>
+          <td class="text-right">${formatNumber(finance.measured_revenue.by_confidence.high.count)}</td>
+          <td class="text-right">${formatCurrency(finance.measured_revenue.by_confidence.high.amount_eur)}</td>
+        </tr>
+        <tr>
+          <td>Confiance moyenne (appel dans les 7 jours)</td>
+          <td class="text-right">${formatNumber(finance.measured_revenue.by_confidence.medium.count)}</td>
+          <td class="text-right">${formatCurrency(finance.measured_revenue.by_confidence.medium.amount_eur)}</td>
+        </tr>
+        <tr>
+          <td>Confiance faible (appel dans les 30 jours, non compté)</td>
+          <td class="text-right">${formatNumber(finance.measured_revenue.by_confidence.low.count)}</td>
+          <td class="text-right">${formatCurrency(finance.measured_revenue.by_confidence.low.amount_eur)}</td>
+        </tr>
+      </tbody>
+    </table>
+    <div class="finance-breakdown">
+      <div class="breakdown-row">
+        <span class="breakdown-label">Commandes reçues sur la période</span>
+        <span class="breakdown-value">${formatNumber(finance.measured_revenue.orders_total)}</span>
+      </div>
+      <div class="breakdown-row">
+        <span class="breakdown-label">Appels ayant généré une vente</span>
+        <span class="breakdown-value">${formatNumber(finance.measured_revenue.attributed_calls)}</span>
+      </div>
+      <div class="breakdown-row">
+        <span class="breakdown-label">Réservations ayant généré une vente</span>
+        <span class="breakdown-value">${formatNumber(finance.measured_revenue.attributed_reservations)}</span>
+      </div>
+      <div class="breakdown-row breakdown-total">
+        <span class="breakdown-label">CA MESURÉ (vs ${formatCurrency(finance.value_breakdown.direct_revenue_eur)} estimé)</span>
+        <span class="breakdown-value">${formatCurrency(finance.measured_revenue.measured_eur)}</span>
+      </div>
+    </div>
+    ` : ''}
+    
     <div class="kpi-grid" style="grid-template-columns: repeat(3, 1fr);">
       <div class="kpi-card">
         <div class="kpi-label">Coût SpeedAI</div>
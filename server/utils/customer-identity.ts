@@ -0,0 +1,32 @@
+/**
+ * Customer identity matching - the same customer appears in calls, reservations, reviews
+ * and marketing with phone numbers and emails written in different ways
+ */
+import { or, sql, type SQL, type AnyColumn } from 'drizzle-orm';
+
+// French numbers are written +33 6..., 0033 6... or 06...: the last 9 digits identify the line
+const PHONE_KEY_LENGTH = 9;
+
+export function getPhoneKey(phone?: string | null): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= PHONE_KEY_LENGTH ? digits.slice(-PHONE_KEY_LENGTH) : null;
+}
+
+export function normalizeEmail(email?: string | null): string | null {
+  const normalized = (email || '').trim().toLowerCase();
+  return normalized.includes('@') ? normalized : null;
+}
+
+/**
+ * SQL counterpart of getPhoneKey / normalizeEmail, so matching happens in the database
+ */
+export function identityCondition(phoneKey: string | null, email: string | null, phoneColumn: AnyColumn, emailColumn?: AnyColumn): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (phoneKey) {
+    conditions.push(sql`right(regexp_replace(coalesce(${phoneColumn}, ''), '\\D', '', 'g'), ${PHONE_KEY_LENGTH}) = ${phoneKey}`);
+  }
+  if (email && emailColumn) {
+    conditions.push(sql`lower(trim(${emailColumn})) = ${email}`);
+  }
+  return conditions.length > 0 ? or(...conditions) : undefined;
+}
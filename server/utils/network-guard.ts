@@ -0,0 +1,135 @@
+/**
+ * Network guard - connectors and webhooks reach hosts chosen by tenants (databases, sheets, endpoints),
+ * which must never point at the platform's own network
+ */
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+
+export const PRIVATE_HOST_MESSAGE = "Les adresses locales ou privées ne sont pas autorisées";
+
+// Statuses whose response cannot carry a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+export interface PublicRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+    || (a === 169 && b === 254) // Link-local, cloud metadata
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19)) // Benchmarking
+    || a >= 224; // Multicast and reserved
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const host = address.toLowerCase();
+  // IPv4-mapped addresses (::ffff:10.0.0.1) reach the IPv4 network
+  const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+
+  return host === '::'
+    || host === '::1'
+    || /^f[cd][0-9a-f]{2}:/.test(host) // Unique local
+    || /^fe[89ab][0-9a-f]:/.test(host) // Link-local
+    || host.startsWith('ff'); // Multicast
+}
+
+export function isPrivateAddress(address: string): boolean {
+  switch (net.isIP(address)) {
+    case 4: return isPrivateIPv4(address);
+    case 6: return isPrivateIPv6(address);
+    default: return false;
+  }
+}
+
+/**
+ * Name-based check, enough to reject a URL when it is saved
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  return host === 'localhost'
+    || host.endsWith('.localhost')
+    || host.endsWith('.internal')
+    || isPrivateAddress(host);
+}
+
+/**
+ * Resolves the host and rejects it when any of its addresses is private. Callers connect to the returned
+ * address rather than the name, so the DNS cannot answer differently between the check and the connection.
+ */
+export async function resolvePublicAddress(hostname: string): Promise<string> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isPrivateHost(host)) {
+    throw new Error(PRIVATE_HOST_MESSAGE);
+  }
+  if (net.isIP(host)) {
+    return host;
+  }
+
+  const addresses = await dns.promises.lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+    throw new Error(PRIVATE_HOST_MESSAGE);
+  }
+  return addresses[0].address;
+}
+
+/**
+ * HTTPS request to a tenant-chosen URL, sent to the address checked by resolvePublicAddress while the
+ * certificate is still verified against the host name. Redirects are returned as is: callers that follow
+ * them make a new call for each hop, so every hop is checked.
+ */
+export async function fetchPublicUrl(url: URL, init: PublicRequestInit = {}): Promise<Response> {
+  if (url.protocol !== 'https:') {
+    throw new Error("L'URL doit utiliser HTTPS");
+  }
+  const address = await resolvePublicAddress(url.hostname);
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) => reject(init.signal?.aborted ? init.signal.reason : error);
+    const request = https.request({
+      host: address,
+      port: url.port || 443,
+      path: `${url.pathname}${url.search}`,
+      method: init.method || 'GET',
+      headers: {
+        ...init.headers,
+        Host: url.host,
+        ...(init.body !== undefined ? { 'Content-Length': String(Buffer.byteLength(init.body)) } : {}),
+      },
+      servername: net.isIP(hostname) ? undefined : hostname,
+      signal: init.signal,
+    }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('error', fail);
+      response.on('end', () => {
+        try {
+          const status = response.statusCode || 502;
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(response.headers)) {
+            for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+              headers.append(name, item);
+            }
+          }
+          const body = NULL_BODY_STATUSES.includes(status) ? null : Buffer.concat(chunks);
+          resolve(new Response(body, { status, statusText: response.statusMessage, headers }));
+        } catch (error) {
+          fail(error as Error);
+        }
+      });
+    });
+    request.on('error', fail);
+    request.end(init.body);
+  });
+}
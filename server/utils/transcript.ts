@@ -0,0 +1,51 @@
+// Normalizes speaker-segmented transcripts received from voice providers
+import type { TranscriptSpeaker, TranscriptTurn, TranscriptTurnInput } from '@shared/schema';
+import { formatTranscriptText } from '@shared/transcript';
+
+const AGENT_ROLES = ['agent', 'assistant', 'ai', 'ia', 'bot'];
+const CUSTOMER_ROLES = ['user', 'customer', 'client', 'caller', 'human'];
+
+function normalizeSpeaker(role?: string | null): TranscriptSpeaker {
+  const value = (role || '').trim().toLowerCase();
+  if (AGENT_ROLES.includes(value)) return 'agent';
+  if (CUSTOMER_ROLES.includes(value)) return 'customer';
+  return 'unknown';
+}
+
+function firstNumber(values: (number | null | undefined)[]): number | null {
+  const found = values.find(v => typeof v === 'number');
+  return found ?? null;
+}
+
+export function normalizeTranscriptTurns(input: TranscriptTurnInput[]): TranscriptTurn[] {
+  return input
+    .map(turn => {
+      const words = turn.words || [];
+      return {
+        speaker: normalizeSpeaker(turn.role ?? turn.speaker),
+        text: (turn.content ?? turn.text ?? '').trim(),
+        // Some providers only time the words of a turn
+        start: turn.start ?? firstNumber(words.map(w => w.start)),
+        end: turn.end ?? firstNumber(words.map(w => w.end).reverse()),
+      };
+    })
+    .filter(turn => turn.text.length > 0);
+}
+
+/**
+ * Plain text and turns of a webhook transcript. Plain text stays as sent;
+ * turns (from `transcript` or `transcript_turns`) also produce the text when none was sent.
+ */
+export function resolveTranscript(
+  transcript: string | TranscriptTurnInput[] | null | undefined,
+  transcriptTurns?: TranscriptTurnInput[] | null
+): { transcript: string | undefined; transcriptTurns: TranscriptTurn[] | undefined } {
+  const rawTurns = Array.isArray(transcript) ? transcript : transcriptTurns;
+  const turns = rawTurns ? normalizeTranscriptTurns(rawTurns) : [];
+  const text = typeof transcript === 'string' ? transcript : undefined;
+
+  return {
+    transcript: text ?? (turns.length > 0 ? formatTranscriptText(turns) : undefined),
+    transcriptTurns: turns.length > 0 ? turns : undefined,
+  };
+}
@@ -33,6 +33,7 @@ export interface MbrKpis {
   calls_total: number;
   reservations_total: number;
   estimated_value_eur: number | null;
+  measured_value_eur: number | null; // Orders linked to calls/reservations - null without a connected POS/CRM
   reviews_avg_rating: number | null;
   no_show_rate: number | null;
   roi_x: number | null;
@@ -75,6 +76,15 @@ export interface MbrWeeklyTrend {
   no_shows?: number | null;
 }
 
+// Calls per canonical outcome of the tenant's taxonomy (outcome null = not classified)
+export interface MbrCallOutcome {
+  outcome: string | null;
+  label: string;
+  color: string;
+  count: number;
+  percent: number;
+}
+
 export interface MbrCalls {
   total: number;
   after_hours: number;
@@ -84,6 +94,7 @@ export interface MbrCalls {
     matrix: number[][];
   };
   by_slot: MbrCallSlot[];
+  by_outcome: MbrCallOutcome[];
   weekly_trend: MbrWeeklyTrend[];
   insights: string[];
 }
@@ -132,6 +143,16 @@ export interface MbrValueBreakdownItem {
   value_eur: number | null;
 }
 
+// Revenue of real orders (integrations) attributed to calls and reservations
+export interface MbrMeasuredRevenue {
+  measured_eur: number; // High and medium confidence
+  possible_eur: number; // Low confidence, not part of the measured revenue
+  by_confidence: Record<'high' | 'medium' | 'low', { amount_eur: number; count: number }>;
+  attributed_calls: number;
+  attributed_reservations: number;
+  orders_total: number; // Orders/payments received over the period, attributed or not
+}
+
 export interface MbrFinance {
   inputs: ReportingInputs;
   value_breakdown: {
@@ -146,6 +167,7 @@ export interface MbrFinance {
   total_value_eur: number | null;
   net_benefit_eur: number | null;
   roi_x: number | null;
+  measured_revenue: MbrMeasuredRevenue | null;
   notes: string[];
 }
 
@@ -244,6 +266,7 @@ export function createEmptyMbrV1(tenant: MbrTenant): MbrV1 {
       calls_total: 0,
       reservations_total: 0,
       estimated_value_eur: null,
+      measured_value_eur: null,
       reviews_avg_rating: null,
       no_show_rate: null,
       roi_x: null,
@@ -276,6 +299,7 @@ export function createEmptyMbrV1(tenant: MbrTenant): MbrV1 {
         matrix: [[0, 0, 0, 0, 0, 0, 0, 0, 0]],
       },
       by_slot: [],
+      by_outcome: [],
       weekly_trend: [],
       insights: [],
     },
@@ -318,6 +342,7 @@ export function createEmptyMbrV1(tenant: MbrTenant): MbrV1 {
       total_value_eur: null,
       net_benefit_eur: null,
       roi_x: null,
+      measured_revenue: null,
       notes: [],
     },
     reputation: {
@@ -1,5 +1,5 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, pgEnum, jsonb, decimal, date } from "drizzle-orm/pg-core";
+import { sql, getTableColumns } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, boolean, integer, pgEnum, jsonb, decimal, date, real, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -33,9 +33,13 @@ export const notificationTypeEnum = pgEnum('notification_type', [
   // CB Guarantee
   'guarantee_noshow_charged',
   'guarantee_card_validated',
+  'guarantee_dispute',
+  'guarantee_noshow_detected',
   // Integrations
   'integration_sync_complete',
-  'integration_error'
+  'integration_error',
+  // Call activity
+  'call_anomaly'
 ]);
 
 // Push notification type enum for PWA notifications
@@ -167,6 +171,19 @@ export const insertSpeedaiClientSchema = createInsertSchema(speedaiClients).omit
 export type InsertSpeedaiClient = z.infer<typeof insertSpeedaiClientSchema>;
 export type SpeedaiClient = typeof speedaiClients.$inferSelect;
 
+// Speaker-segmented transcript, one entry per turn
+export const TRANSCRIPT_SPEAKERS = ['agent', 'customer', 'unknown'] as const;
+export type TranscriptSpeaker = typeof TRANSCRIPT_SPEAKERS[number];
+
+export const transcriptTurnSchema = z.object({
+  speaker: z.enum(TRANSCRIPT_SPEAKERS),
+  text: z.string(),
+  start: z.number().min(0).nullable(), // Seconds from the start of the recording
+  end: z.number().min(0).nullable(),
+});
+
+export type TranscriptTurn = z.infer<typeof transcriptTurnSchema>;
+
 // Calls table for tracking phone calls with rich N8N data
 export const calls = pgTable("calls", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -187,6 +204,7 @@ export const calls = pgTable("calls", {
   
   // Call type and event
   eventType: text("event_type"), // 'reservation', 'inquiry', 'cancellation', 'modification', etc.
+  outcome: text("outcome"), // Canonical outcome key from the tenant's call taxonomy (null = not classified)
   
   // Call outcome
   callAnswered: boolean("call_answered"),
@@ -198,6 +216,7 @@ export const calls = pgTable("calls", {
   // Content
   summary: text("summary"),
   transcript: text("transcript"), // Full conversation transcript
+  transcriptTurns: jsonb("transcript_turns").$type<TranscriptTurn[]>(), // Speaker turns, when the provider segments the transcript
   tags: text("tags").array(), // Array of tags (e.g., ['réservation', 'restaurant', 'dîner'])
   
   // Appointment details
@@ -218,6 +237,7 @@ export const calls = pgTable("calls", {
   agencyName: text("agency_name"),
   companyName: text("company_name"),
   serviceType: text("service_type"), // 'diner', 'dejeuner', 'consultation', etc.
+  serviceTypeKey: text("service_type_key"), // Canonical service type key from the taxonomy, the raw value stays in serviceType (null = unknown)
   nbPersonnes: integer("nb_personnes"), // Number of people for reservation
   
   // Call quality metrics
@@ -247,6 +267,10 @@ export const calls = pgTable("calls", {
   wantsWaitlist: boolean("wants_waitlist"), // Client wants to be on waitlist if slot unavailable
   waitlistSlotRequested: timestamp("waitlist_slot_requested"), // The slot they want to wait for
   
+  // Marketing consent asked by the agent during the call (null: not asked)
+  marketingConsentEmail: boolean("marketing_consent_email"),
+  marketingConsentSms: boolean("marketing_consent_sms"),
+  
   // Technical
   calendarId: text("calendar_id"),
   timezone: text("timezone"),
@@ -268,6 +292,7 @@ export const calls = pgTable("calls", {
 export const insertCallSchema = createInsertSchema(calls, {
   phoneNumber: z.string().min(1, "Numéro de téléphone requis"),
   status: z.enum(['active', 'completed', 'failed', 'canceled', 'no_answer']),
+  transcriptTurns: z.array(transcriptTurnSchema).nullable().optional(),
 }).omit({
   id: true,
   createdAt: true,
@@ -277,6 +302,106 @@ export const insertCallSchema = createInsertSchema(calls, {
 export type InsertCall = z.infer<typeof insertCallSchema>;
 export type Call = typeof calls.$inferSelect;
 
+// Full-text search over calls (transcript, summary, keywords, tags)
+export const CALL_SEARCH_FACETS = ['eventType', 'clientMood', 'serviceType', 'conversionResult', 'tags'] as const;
+export type CallSearchFacet = typeof CALL_SEARCH_FACETS[number];
+
+export const callSearchQuerySchema = z.object({
+  q: z.string().trim().min(2, "La recherche doit contenir au moins 2 caractères").max(200),
+  eventType: z.string().optional(),
+  clientMood: z.string().optional(),
+  serviceType: z.string().optional(),
+  conversionResult: z.string().optional(),
+  tags: z.string().optional(),
+  status: z.enum(['converted', 'missed']).optional(), // Tabs of the calls list
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export type CallSearchQuery = z.infer<typeof callSearchQuerySchema>;
+
+// Markers around matched terms in snippets - the client turns them into <mark>, so snippets never carry HTML
+export const CALL_SEARCH_HIGHLIGHT = { start: '\u27E6', stop: '\u27E7' } as const;
+
+export interface CallSearchResult {
+  call: Call;
+  rank: number;
+  snippet: string;
+}
+
+export interface CallSearchResponse {
+  results: CallSearchResult[];
+  total: number;
+  page: number;
+  totalPages: number;
+  facets: Record<CallSearchFacet, { value: string; count: number }[]>;
+}
+
+// Unified customer profile - records of every module matched on normalized phone/email
+export type CustomerTimelineEventType =
+  | 'call'
+  | 'reservation'
+  | 'no_show'
+  | 'review_request'
+  | 'review'
+  | 'waitlist'
+  | 'marketing_send';
+
+export interface CustomerTimelineEvent {
+  id: string;
+  type: CustomerTimelineEventType;
+  date: string;
+  title: string;
+  description?: string | null;
+  status?: string | null;
+  amount?: number | null; // €
+}
+
+export interface CustomerProfile {
+  identity: {
+    name: string | null;
+    phone: string | null;
+    email: string | null;
+  };
+  stats: {
+    calls: number;
+    reservations: number;
+    noShows: number;
+    reviewRequests: number;
+    reviews: number;
+    averageRating: number | null;
+    waitlistEntries: number;
+    marketingSends: number;
+    firstSeenAt: string | null;
+    lastSeenAt: string | null;
+  };
+  lifetimeValue: {
+    estimated: number; // €
+    visits: number;
+    averageTicket: number;
+    recoveredNoShows: number;
+    marketingConversions: number;
+  };
+  timeline: CustomerTimelineEvent[];
+}
+
+// A transcript turn as sent by voice providers: role/speaker, content/text,
+// offsets in seconds either on the turn or on its words (Retell-style transcript_object)
+export const transcriptTurnInputSchema = z.object({
+  role: z.string().nullable().optional(),
+  speaker: z.string().nullable().optional(),
+  content: z.string().nullable().optional(),
+  text: z.string().nullable().optional(),
+  start: z.number().min(0).nullable().optional(),
+  end: z.number().min(0).nullable().optional(),
+  words: z.array(z.object({
+    start: z.number().min(0).nullable().optional(),
+    end: z.number().min(0).nullable().optional(),
+  }).passthrough()).nullable().optional(),
+}).passthrough();
+
+export type TranscriptTurnInput = z.infer<typeof transcriptTurnInputSchema>;
+
 // N8N Webhook payload schema for call data ingestion (comprehensive)
 // Supports both ISO datetime strings and Unix timestamps (milliseconds or seconds)
 const flexibleDateTime = z.union([
@@ -311,7 +436,8 @@ export const n8nCallWebhookSchema = z.object({
   
   // Content
   summary: z.string().nullable().optional(),
-  transcript: z.string().nullable().optional(),
+  transcript: z.union([z.string(), z.array(transcriptTurnInputSchema)]).nullable().optional(), // Plain text or speaker turns
+  transcript_turns: z.array(transcriptTurnInputSchema).nullable().optional(),
   tags: z.array(z.string()).nullable().optional(),
   
   // Appointment details (all nullable for non-booking calls)
@@ -331,6 +457,10 @@ export const n8nCallWebhookSchema = z.object({
   wants_waitlist: z.boolean().nullable().optional(),
   waitlist_slot_requested: flexibleDateTime, // The slot they want to wait for
   
+  // Marketing consent, only when the agent explicitly asked the caller
+  marketing_consent_email: z.boolean().nullable().optional(),
+  marketing_consent_sms: z.boolean().nullable().optional(),
+  
   // Rich metadata from N8N (all fields extracted)
   metadata: z.object({
     event_type: z.string().nullable().optional(),
@@ -366,6 +496,9 @@ export const n8nCallWebhookSchema = z.object({
     // Waitlist info can also be in metadata
     wants_waitlist: z.boolean().nullable().optional(),
     waitlist_slot_requested: z.union([z.string(), z.number()]).nullable().optional(),
+    // Marketing consent can also be in metadata
+    marketing_consent_email: z.boolean().nullable().optional(),
+    marketing_consent_sms: z.boolean().nullable().optional(),
   }).passthrough().nullable().optional(), // passthrough allows additional unknown fields
 });
 
@@ -385,18 +518,7 @@ export const notifications = pgTable("notifications", {
 
 // Insert schema for notifications
 export const insertNotificationSchema = createInsertSchema(notifications, {
-  type: z.enum([
-    'daily_summary',
-    'failed_calls',
-    'active_call',
-    'password_changed',
-    'payment_updated',
-    'subscription_renewed',
-    'subscription_created',
-    'subscription_expired',
-    'subscription_expiring_soon',
-    'monthly_report_ready'
-  ]),
+  type: z.enum(notificationTypeEnum.enumValues),
   title: z.string().min(1, "Titre requis"),
   message: z.string().min(1, "Message requis"),
 }).omit({
@@ -424,6 +546,8 @@ export const notificationPreferences = pgTable("notification_preferences", {
   guaranteeEnabled: boolean("guarantee_enabled").notNull().default(true),
   // Integrations
   integrationsEnabled: boolean("integrations_enabled").notNull().default(true),
+  // Call activity anomalies (volume, failures, conversion)
+  anomalyAlertsEnabled: boolean("anomaly_alerts_enabled").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -754,6 +878,7 @@ export const guaranteeSessionStatusEnum = pgEnum('guarantee_session_status', [
   'validated',      // CB enregistrée, résa confirmée
   'completed',      // Client venu
   'cancelled',      // Résa annulée
+  'noshow_processing', // No-show en cours de débit
   'noshow_charged', // No-show, débit réussi
   'noshow_failed'   // No-show, débit échoué
 ]);
@@ -765,6 +890,73 @@ export const guaranteeApplyToEnum = pgEnum('guarantee_apply_to', [
   'weekend'         // Weekend seulement
 ]);
 
+// Mode de garantie : empreinte CB débitée en cas de no-show, ou acompte payé à la réservation
+export const GUARANTEE_MODES = ['penalty', 'deposit'] as const;
+export type GuaranteeMode = typeof GUARANTEE_MODES[number];
+
+// Acompte : montant fixe par personne, ou pourcentage du montant estimé de la réservation
+export const GUARANTEE_DEPOSIT_TYPES = ['fixed', 'percentage'] as const;
+export type GuaranteeDepositType = typeof GUARANTEE_DEPOSIT_TYPES[number];
+
+// Cycle de vie de l'acompte d'une session
+export const GUARANTEE_DEPOSIT_STATUSES = ['pending', 'paid', 'refunded', 'partially_refunded', 'retained', 'applied'] as const;
+export type GuaranteeDepositStatus = typeof GUARANTEE_DEPOSIT_STATUSES[number];
+
+// Détection des no-shows : désactivée, proposée en file de vérification, ou débitée après le délai de vérification
+export const NOSHOW_DETECTION_MODES = ['off', 'review', 'auto'] as const;
+export type NoshowDetectionMode = typeof NOSHOW_DETECTION_MODES[number];
+
+// Preuves d'arrivée du client : commande en caisse, événement d'agenda terminé, QR code scanné à l'accueil
+export const GUARANTEE_CHECK_IN_SOURCES = ['pos', 'calendar', 'qr'] as const;
+export type GuaranteeCheckInSource = typeof GUARANTEE_CHECK_IN_SOURCES[number];
+
+// Relance automatique de demande CB : X heures après la demande, ou X heures avant la réservation
+export const GUARANTEE_REMINDER_ANCHORS = ['after_request', 'before_reservation'] as const;
+export type GuaranteeReminderAnchor = typeof GUARANTEE_REMINDER_ANCHORS[number];
+
+export const guaranteeReminderStepSchema = z.object({
+  anchor: z.enum(GUARANTEE_REMINDER_ANCHORS),
+  hours: z.number().int().min(1).max(168),
+});
+export type GuaranteeReminderStep = z.infer<typeof guaranteeReminderStepSchema>;
+
+export const DEFAULT_GUARANTEE_REMINDER_STEPS: GuaranteeReminderStep[] = [
+  { anchor: 'after_request', hours: 2 },
+  { anchor: 'before_reservation', hours: 12 },
+];
+
+// Règles d'application de la garantie : conditions combinées (toutes / au moins une),
+// la première règle active qui correspond fixe la pénalité et le délai d'annulation
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Heure invalide (HH:MM)");
+
+export const guaranteeRuleConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('day_of_week'), days: z.array(z.number().int().min(0).max(6)).min(1) }), // 0 = dimanche
+  z.object({ type: z.literal('time_range'), from: timeOfDaySchema, to: timeOfDaySchema }), // from > to : plage sur minuit
+  z.object({ type: z.literal('party_size'), min: z.number().int().min(1).max(100).optional(), max: z.number().int().min(1).max(100).optional() }),
+  z.object({ type: z.literal('special_date'), dates: z.array(z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/, "Date invalide (MM-JJ ou AAAA-MM-JJ)")).min(1).max(50) }), // MM-JJ : chaque année
+  z.object({ type: z.literal('service_type'), values: z.array(z.string().min(1).max(100)).min(1).max(20) }),
+  z.object({ type: z.literal('customer'), value: z.enum(['new', 'returning']) }),
+]).superRefine((condition, ctx) => {
+  if (condition.type === 'party_size' && condition.min === undefined && condition.max === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Minimum ou maximum requis" });
+  }
+});
+export type GuaranteeRuleCondition = z.infer<typeof guaranteeRuleConditionSchema>;
+export type GuaranteeRuleConditionType = GuaranteeRuleCondition['type'];
+
+export const guaranteeRuleSchema = z.object({
+  id: z.string().min(1).max(50),
+  name: z.string().min(1).max(100),
+  enabled: z.boolean(),
+  match: z.enum(['all', 'any']),
+  conditions: z.array(guaranteeRuleConditionSchema).min(1).max(10),
+  penaltyAmount: z.number().int().min(1).max(200), // € par personne
+  cancellationDelay: z.number().int().min(1).max(72), // heures avant résa
+});
+export type GuaranteeRule = z.infer<typeof guaranteeRuleSchema>;
+
+export const MAX_GUARANTEE_RULES = 20;
+
 // Client guarantee configuration table
 export const clientGuaranteeConfig = pgTable("client_guarantee_config", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -782,9 +974,17 @@ export const clientGuaranteeConfig = pgTable("client_guarantee_config", {
   penaltyAmount: integer("penalty_amount").notNull().default(30), // € par personne
   cancellationDelay: integer("cancellation_delay").notNull().default(24), // heures avant résa
   
+  // Mode acompte (remplace la pénalité no-show)
+  guaranteeMode: text("guarantee_mode").$type<GuaranteeMode>().notNull().default("penalty"),
+  depositType: text("deposit_type").$type<GuaranteeDepositType>().notNull().default("fixed"),
+  depositAmount: integer("deposit_amount").notNull().default(20), // € par personne (montant fixe)
+  depositPercent: integer("deposit_percent").notNull().default(30), // % du montant estimé
+  lateCancellationRefundPercent: integer("late_cancellation_refund_percent").notNull().default(0), // % remboursé si annulation après le délai
+  
   // Conditions d'application
   applyTo: text("apply_to").notNull().default("all"), // 'all', 'min_persons', 'weekend'
   minPersons: integer("min_persons").notNull().default(1),
+  applicationRules: jsonb("application_rules").$type<GuaranteeRule[]>().notNull().default([]), // Remplace applyTo dès qu'une règle est active
   
   // Branding page client
   logoUrl: text("logo_url"),
@@ -812,6 +1012,19 @@ export const clientGuaranteeConfig = pgTable("client_guarantee_config", {
   appointmentReminderEnabled: boolean("appointment_reminder_enabled").notNull().default(false),
   appointmentReminderHours: integer("appointment_reminder_hours").notNull().default(24), // Heures avant le RDV
   
+  // Relances CB automatiques (sessions en attente)
+  cardReminderEnabled: boolean("card_reminder_enabled").notNull().default(false),
+  cardReminderSteps: jsonb("card_reminder_steps").$type<GuaranteeReminderStep[]>().notNull().default(DEFAULT_GUARANTEE_REMINDER_STEPS),
+  cardReminderEmail: boolean("card_reminder_email").notNull().default(true),
+  cardReminderSms: boolean("card_reminder_sms").notNull().default(false),
+  autoCancelPendingHours: integer("auto_cancel_pending_hours"), // Annulation si toujours en attente X heures avant la résa (null = jamais)
+  
+  // Détection automatique des no-shows
+  noshowDetectionMode: text("noshow_detection_mode").$type<NoshowDetectionMode>().notNull().default("off"),
+  noshowDetectionSources: jsonb("noshow_detection_sources").$type<GuaranteeCheckInSource[]>().notNull().default(['qr']),
+  noshowGraceMinutes: integer("noshow_grace_minutes").notNull().default(30), // Délai après l'heure de résa sans arrivée
+  noshowReviewHours: integer("noshow_review_hours").notNull().default(24), // Mode auto : délai de vérification avant le débit
+  
   // CGV
   termsUrl: text("terms_url"),
   
@@ -826,7 +1039,14 @@ export const clientGuaranteeConfig = pgTable("client_guarantee_config", {
 });
 
 // Insert schema for client guarantee config
-export const insertClientGuaranteeConfigSchema = createInsertSchema(clientGuaranteeConfig).omit({
+export const insertClientGuaranteeConfigSchema = createInsertSchema(clientGuaranteeConfig, {
+  guaranteeMode: z.enum(GUARANTEE_MODES).optional(),
+  depositType: z.enum(GUARANTEE_DEPOSIT_TYPES).optional(),
+  cardReminderSteps: z.array(guaranteeReminderStepSchema).max(5),
+  applicationRules: z.array(guaranteeRuleSchema).max(MAX_GUARANTEE_RULES).optional(),
+  noshowDetectionMode: z.enum(NOSHOW_DETECTION_MODES).optional(),
+  noshowDetectionSources: z.array(z.enum(GUARANTEE_CHECK_IN_SOURCES)).optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -877,15 +1097,26 @@ export const guaranteeSessions = pgTable("guarantee_sessions", {
   customerStripeId: text("customer_stripe_id"),
   
   // Statuts
-  status: text("status").notNull().default("pending"), // pending, validated, completed, cancelled, noshow_charged, noshow_failed
+  status: text("status").notNull().default("pending"), // pending, validated, completed, cancelled, noshow_processing, noshow_charged, noshow_failed
   
   // Montants
   penaltyAmount: integer("penalty_amount").notNull(), // € par personne
   chargedAmount: integer("charged_amount"), // Montant réellement débité (centimes)
+  cancellationDelay: integer("cancellation_delay"), // Heures avant résa, fixé par la règle (null = config)
+  matchedRuleId: text("matched_rule_id"), // Règle d'application retenue à la création
+  matchedRuleName: text("matched_rule_name"),
+  
+  // Acompte (mode figé à la création de la session)
+  guaranteeMode: text("guarantee_mode").$type<GuaranteeMode>().notNull().default("penalty"),
+  depositAmount: integer("deposit_amount"), // Centimes
+  depositStatus: text("deposit_status").$type<GuaranteeDepositStatus>(),
+  depositPaymentIntentId: text("deposit_payment_intent_id"),
+  depositRefundedAmount: integer("deposit_refunded_amount"), // Centimes
   
   // Dates
   validatedAt: timestamp("validated_at"),
   chargedAt: timestamp("charged_at"),
+  cancelledAt: timestamp("cancelled_at"), // Base du remboursement de l'acompte, aussi lors d'une nouvelle tentative
   
   // Relances CB
   reminderCount: integer("reminder_count").notNull().default(0),
@@ -895,13 +1126,25 @@ export const guaranteeSessions = pgTable("guarantee_sessions", {
   appointmentReminderSent: boolean("appointment_reminder_sent").notNull().default(false),
   appointmentReminderSentAt: timestamp("appointment_reminder_sent_at"),
   
+  // Arrivée du client et détection des no-shows
+  calendarEventId: text("calendar_event_id"), // Événement créé par N8N après validation
+  checkedInAt: timestamp("checked_in_at"),
+  checkInSource: text("check_in_source").$type<GuaranteeCheckInSource>(),
+  checkInReference: text("check_in_reference"), // Commande en caisse ou événement d'agenda
+  noshowDetectedAt: timestamp("noshow_detected_at"), // No-show proposé, en file de vérification
+  noshowAutoApplyAt: timestamp("noshow_auto_apply_at"), // Mode auto : débit prévu sans correction d'ici là
+  
   // Timestamps
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 // Insert schema for guarantee sessions
-export const insertGuaranteeSessionSchema = createInsertSchema(guaranteeSessions).omit({
+export const insertGuaranteeSessionSchema = createInsertSchema(guaranteeSessions, {
+  guaranteeMode: z.enum(GUARANTEE_MODES).optional(),
+  depositStatus: z.enum(GUARANTEE_DEPOSIT_STATUSES).nullable().optional(),
+  checkInSource: z.enum(GUARANTEE_CHECK_IN_SOURCES).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -911,6 +1154,44 @@ export const insertGuaranteeSessionSchema = createInsertSchema(guaranteeSessions
 export type InsertGuaranteeSession = z.infer<typeof insertGuaranteeSessionSchema>;
 export type GuaranteeSession = typeof guaranteeSessions.$inferSelect;
 
+// Upcoming automatic action on a pending session: card reminder, then auto-cancel
+export interface GuaranteeReminderScheduleItem {
+  type: 'reminder' | 'auto_cancel';
+  dueAt: Date;
+}
+
+// Mouvements enregistrés dans noshow_charges (piste d'audit des débits et remboursements)
+export const GUARANTEE_CHARGE_TYPES = [
+  'noshow_penalty',   // Pénalité débitée après un no-show
+  'deposit',          // Acompte payé à la validation
+  'deposit_refund',   // Remboursement d'acompte (annulation dans les délais)
+  'deposit_retained', // Acompte conservé (no-show ou annulation tardive)
+  'deposit_applied',  // Acompte déduit de l'addition (client venu)
+] as const;
+export type GuaranteeChargeType = typeof GUARANTEE_CHARGE_TYPES[number];
+
+// Statuts Stripe d'un litige (warning_* : demande d'information sans rétrofacturation)
+export type GuaranteeDisputeStatus =
+  | 'warning_needs_response'
+  | 'warning_under_review'
+  | 'warning_closed'
+  | 'needs_response'
+  | 'under_review'
+  | 'won'
+  | 'lost';
+
+// Dossier de preuves d'un litige, aux noms des champs "evidence" de Stripe
+export type GuaranteeDisputeEvidence = Partial<Record<
+  | 'customer_name'
+  | 'customer_email_address'
+  | 'service_date'
+  | 'product_description'
+  | 'cancellation_policy_disclosure'
+  | 'cancellation_rebuttal'
+  | 'uncategorized_text',
+  string
+>>;
+
 // No-show charges table (historique des débits)
 export const noshowCharges = pgTable("noshow_charges", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -918,6 +1199,9 @@ export const noshowCharges = pgTable("noshow_charges", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   tenantId: varchar("tenant_id").references(() => tenants.id, { onDelete: 'cascade' }), // Phase 2: Multi-tenant
   
+  // Nature du mouvement : pénalité no-show, ou étape de l'acompte
+  chargeType: text("charge_type").$type<GuaranteeChargeType>().notNull().default("noshow_penalty"),
+  
   // Stripe PaymentIntent
   paymentIntentId: text("payment_intent_id"),
   amount: integer("amount").notNull(), // Montant en centimes
@@ -928,13 +1212,22 @@ export const noshowCharges = pgTable("noshow_charges", {
   // Litige
   disputed: boolean("disputed").notNull().default(false),
   disputeReason: text("dispute_reason"),
+  disputeId: text("dispute_id"), // Stripe dispute (dp_...)
+  disputeStatus: text("dispute_status").$type<GuaranteeDisputeStatus>(),
+  disputeEvidenceDueBy: timestamp("dispute_evidence_due_by"),
+  disputeEvidence: jsonb("dispute_evidence").$type<GuaranteeDisputeEvidence>(), // Dossier assemblé à l'ouverture du litige
+  disputeEvidenceSubmittedAt: timestamp("dispute_evidence_submitted_at"),
   
   // Timestamps
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Insert schema for noshow charges
-export const insertNoshowChargeSchema = createInsertSchema(noshowCharges).omit({
+export const insertNoshowChargeSchema = createInsertSchema(noshowCharges, {
+  chargeType: z.enum(GUARANTEE_CHARGE_TYPES).optional(),
+  disputeStatus: z.enum(['warning_needs_response', 'warning_under_review', 'warning_closed', 'needs_response', 'under_review', 'won', 'lost']).nullable().optional(),
+  disputeEvidence: z.record(z.string()).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -1706,6 +1999,7 @@ export const marketingContacts = pgTable("marketing_contacts", {
   birthDate: date("birth_date"),
   language: text("language").default("fr"),
   tags: text("tags").array(),
+  tagsAddedAt: jsonb("tags_added_at").$type<Record<string, string>>(), // When each tag was added, for the tag_added trigger
   
   // Behavioral data
   totalVisits: integer("total_visits").default(0),
@@ -1725,13 +2019,17 @@ export const marketingContacts = pgTable("marketing_contacts", {
   // Timestamps
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  // One contact per number: concurrent call syncs upsert on it
+  uniqueIndex("marketing_contacts_user_phone_idx").on(table.userId, table.phone),
+]);
 
 // Insert schema for marketing contacts
 export const insertMarketingContactSchema = createInsertSchema(marketingContacts).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  tagsAddedAt: true,
   totalEmailsSent: true,
   totalEmailsOpened: true,
   totalEmailsClicked: true,
@@ -1746,6 +2044,17 @@ export const insertMarketingContactSchema = createInsertSchema(marketingContacts
 export type InsertMarketingContact = z.infer<typeof insertMarketingContactSchema>;
 export type MarketingContact = typeof marketingContacts.$inferSelect;
 
+// Reservation calls already counted in a contact's visits, so a call synced twice counts once
+export const marketingContactVisits = pgTable("marketing_contact_visits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contactId: varchar("contact_id").notNull().references(() => marketingContacts.id, { onDelete: 'cascade' }),
+  callId: varchar("call_id").notNull().references(() => calls.id, { onDelete: 'cascade' }),
+  visitAt: timestamp("visit_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("marketing_contact_visits_contact_call_idx").on(table.contactId, table.callId),
+]);
+
 // Marketing consent history (RGPD audit trail)
 export const marketingConsentHistory = pgTable("marketing_consent_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1753,7 +2062,8 @@ export const marketingConsentHistory = pgTable("marketing_consent_history", {
   
   action: text("action").notNull(), // 'opt_in', 'opt_out', 'updated'
   channel: text("channel").notNull(), // 'email', 'sms', 'both'
-  source: text("source").notNull(), // 'form', 'import', 'unsubscribe_link', 'admin'
+  source: text("source").notNull(), // 'form', 'import', 'unsubscribe_link', 'admin', 'call'
+  callId: varchar("call_id").references(() => calls.id, { onDelete: 'set null' }), // Call the consent was collected on (source 'call')
   
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
@@ -1764,6 +2074,34 @@ export const marketingConsentHistory = pgTable("marketing_consent_history", {
 // Types for consent history
 export type MarketingConsentHistory = typeof marketingConsentHistory.$inferSelect;
 
+// Marketing configuration per user
+export const marketingConfig = pgTable("marketing_config", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }).unique(),
+  
+  // Automatic contact creation from ingested calls (opt-in)
+  autoCreateContactsFromCalls: boolean("auto_create_contacts_from_calls").notNull().default(false),
+  // Consent collected by the voice agent during the call - off by default (RGPD)
+  callContactsOptInEmail: boolean("call_contacts_opt_in_email").notNull().default(false),
+  callContactsOptInSms: boolean("call_contacts_opt_in_sms").notNull().default(false),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Insert schema for marketing config
+export const insertMarketingConfigSchema = createInsertSchema(marketingConfig).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Types for marketing config
+export type InsertMarketingConfig = z.infer<typeof insertMarketingConfigSchema>;
+export type MarketingConfig = typeof marketingConfig.$inferSelect;
+
 // Marketing segments table
 export const marketingSegments = pgTable("marketing_segments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1859,8 +2197,9 @@ export const marketingCampaigns = pgTable("marketing_campaigns", {
   // Basic info
   name: text("name").notNull(),
   type: text("type").notNull(), // 'promo', 'menu', 'birthday', 'event', 'reactivation', 'welcome', 'custom'
-  status: text("status").notNull().default("draft"), // 'draft', 'scheduled', 'sending', 'sent', 'paused', 'cancelled'
+  status: text("status").notNull().default("draft"), // 'draft', 'scheduled', 'sending', 'sent', 'paused', 'cancelled', 'failed'
   channel: text("channel").notNull(), // 'email', 'sms', 'both'
+  lastError: text("last_error"), // Why the dispatcher gave up on a 'failed' campaign
   
   // Content
   emailSubject: text("email_subject"),
@@ -1885,6 +2224,10 @@ export const marketingCampaigns = pgTable("marketing_campaigns", {
   isAbTest: boolean("is_ab_test").default(false),
   abVariantOf: varchar("ab_variant_of"), // Parent campaign ID for A/B test
   abTestPercentage: integer("ab_test_percentage"), // % of audience for this variant
+  abWinnerMetric: text("ab_winner_metric"), // 'opens', 'clicks', 'conversions' (parent only)
+  abTestDurationHours: integer("ab_test_duration_hours"), // Observation window before picking the winner
+  abTestEndsAt: timestamp("ab_test_ends_at"),
+  abWinnerVariantId: varchar("ab_winner_variant_id"),
   
   // Stats (aggregated)
   totalRecipients: integer("total_recipients").default(0),
@@ -1915,6 +2258,7 @@ export const insertMarketingCampaignSchema = createInsertSchema(marketingCampaig
   updatedAt: true,
   sendingStartedAt: true,
   sentAt: true,
+  lastError: true,
   totalRecipients: true,
   totalSent: true,
   totalDelivered: true,
@@ -1927,6 +2271,10 @@ export const insertMarketingCampaignSchema = createInsertSchema(marketingCampaig
   totalRevenue: true,
   emailCost: true,
   smsCost: true,
+  abTestEndsAt: true,
+  abWinnerVariantId: true,
+}).extend({
+  scheduledAt: z.coerce.date().optional().nullable(),
 });
 
 // Types for campaigns
@@ -2052,6 +2400,7 @@ export const marketingAutomationLogs = pgTable("marketing_automation_logs", {
 
 // Types for automation logs
 export type MarketingAutomationLog = typeof marketingAutomationLogs.$inferSelect;
+export type InsertMarketingAutomationLog = typeof marketingAutomationLogs.$inferInsert;
 
 // Marketing click tracking table (for detailed link tracking)
 export const marketingClickEvents = pgTable("marketing_click_events", {
@@ -2109,6 +2458,26 @@ export const createQuickCampaignSchema = z.object({
   scheduledAt: z.string().datetime().optional(),
 });
 
+// Schema for creating an A/B tested campaign
+export const createAbTestCampaignSchema = z.object({
+  name: z.string().min(1),
+  type: z.string().default("custom"),
+  segmentId: z.string().uuid().optional(),
+  targetAll: z.boolean().default(false),
+  variants: z.array(z.object({
+    name: z.string().optional(),
+    emailSubject: z.string().min(1),
+    emailContent: z.string().min(1),
+    emailPreviewText: z.string().optional(),
+  })).min(2).max(5),
+  testPercentage: z.number().int().min(2).max(90).default(20), // Share of the audience used for the test
+  winnerMetric: z.enum(["opens", "clicks", "conversions"]).default("opens"),
+  testDurationHours: z.number().int().min(1).max(168).default(4),
+  scheduledAt: z.string().datetime().optional(),
+}).refine(data => data.targetAll || data.segmentId, {
+  message: "Un segment ou l'envoi à tous les contacts est requis",
+});
+
 // Schema for segment filters
 export const segmentFiltersSchema = z.object({
   visitsMin: z.number().optional(),
@@ -2126,10 +2495,40 @@ export const segmentFiltersSchema = z.object({
   createdBefore: z.string().datetime().optional(),
 });
 
+// Schema for automation workflow steps (stored in marketingAutomations.actions)
+// Delays use a compact duration format: '30m', '2h', '7d'
+export const marketingAutomationStepSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("email"),
+    templateId: z.string().uuid().optional(),
+    subject: z.string().optional(),
+    content: z.string().optional(),
+    delay: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("sms"),
+    templateId: z.string().uuid().optional(),
+    content: z.string().optional(),
+    delay: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("wait"),
+    delay: z.string(),
+  }),
+  z.object({
+    type: z.literal("tag"),
+    action: z.enum(["add", "remove"]).default("add"),
+    tag: z.string().min(1),
+    delay: z.string().optional(),
+  }),
+]);
+
 // Types
 export type ImportContacts = z.infer<typeof importContactsSchema>;
 export type CreateQuickCampaign = z.infer<typeof createQuickCampaignSchema>;
+export type CreateAbTestCampaign = z.infer<typeof createAbTestCampaignSchema>;
 export type SegmentFilters = z.infer<typeof segmentFiltersSchema>;
+export type MarketingAutomationStep = z.infer<typeof marketingAutomationStepSchema>;
 
 // ===== EXTERNAL INTEGRATIONS SYSTEM =====
 
@@ -2170,6 +2569,7 @@ export const integrationProviderEnum = pgEnum('integration_provider', [
   'mysql',
   'mongodb',
   'google_sheets',
+  'csv_url',
   // Other
   'custom_api',
   'webhook'
@@ -2239,6 +2639,8 @@ export const externalConnections = pgTable("external_connections", {
   dbName: text("db_name"),
   dbUser: text("db_user"),
   dbPassword: text("db_password"),
+  dbSsl: boolean("db_ssl").default(true),
+  dbSslCa: text("db_ssl_ca"), // PEM CA for servers with a private certificate authority
   
   // Webhook config
   webhookUrl: text("webhook_url"),
@@ -2331,6 +2733,9 @@ export const externalFieldMappings = pgTable("external_field_mappings", {
   // Custom fields
   customFields: jsonb("custom_fields"), // Additional fields to capture
   
+  // Database / spreadsheet connectors: where the entity is read from
+  sourceConfig: jsonb("source_config"), // Database: { table | query, idColumn, updatedAtColumn } - Spreadsheet: { url, sheet, keyColumn, headerRow } - Webhook: { recordsPath, idPath, eventPath, eventValues }
+  
   // Status
   isActive: boolean("is_active").notNull().default(true),
   
@@ -2467,6 +2872,7 @@ export const externalOrders = pgTable("external_orders", {
   
   // Timestamps
   orderDate: timestamp("order_date").notNull(),
+  orderDateFromSource: boolean("order_date_from_source").notNull().default(false), // False when the import date stands in for it
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -2623,6 +3029,30 @@ export const integrationWebhooks = pgTable("integration_webhooks", {
 // Types for integration webhooks
 export type IntegrationWebhook = typeof integrationWebhooks.$inferSelect;
 
+// Incoming webhook events - payloads received on "webhook" connections, kept for replay
+export const integrationWebhookEvents = pgTable("integration_webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  connectionId: varchar("connection_id").notNull().references(() => externalConnections.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  
+  // Payload
+  eventType: text("event_type"), // Value of payload.type / payload.event when present
+  payload: jsonb("payload").notNull(),
+  
+  // Processing
+  status: text("status").notNull().default("received"), // 'received', 'processed', 'ignored', 'failed'
+  result: jsonb("result"), // Records imported per entity: { contact: 1, order: 1 }
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  
+  // Timestamps
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at"),
+});
+
+// Types for incoming webhook events
+export type IntegrationWebhookEvent = typeof integrationWebhookEvents.$inferSelect;
+
 // Integration provider configs table - stores provider-specific metadata
 export const integrationProviderConfigs = pgTable("integration_provider_configs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -2705,6 +3135,38 @@ export const databaseConnectionSchema = z.object({
   username: z.string().min(1),
   password: z.string().min(1),
   ssl: z.boolean().default(true),
+  sslCa: z.string().max(20000).optional(),
+});
+
+// Schema for a database connector entity source (one table or one read-only query)
+const sqlIdentifierSchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/, "Identifiant SQL invalide");
+
+export const databaseSourceConfigSchema = z.object({
+  table: sqlIdentifierSchema.optional(),
+  query: z.string().min(1).max(10000).optional(),
+  idColumn: sqlIdentifierSchema.default('id'),
+  updatedAtColumn: sqlIdentifierSchema.optional(),
+}).refine(data => !!data.table !== !!data.query, {
+  message: "Indiquez soit une table, soit une requête",
+});
+
+// Schema for a spreadsheet entity source (Google Sheets tab or published CSV)
+export const spreadsheetSourceConfigSchema = z.object({
+  url: z.string().min(1).optional(), // Defaults to the connection's sheet / CSV URL
+  sheet: z.string().max(100).optional(),
+  keyColumn: z.string().min(1),
+  headerRow: z.number().int().min(1).max(50).optional(), // Auto-detected when omitted
+});
+
+// Dotted JSON path in a webhook payload (data.customer.email, items.0.sku)
+const jsonPathSchema = z.string().max(200).regex(/^[A-Za-z0-9_$@-]+(\.[A-Za-z0-9_$@-]+)*$/, "Chemin JSON invalide");
+
+// Schema for a webhook entity source: which records of the payload feed the entity
+export const webhookSourceConfigSchema = z.object({
+  recordsPath: jsonPathSchema.optional(), // Array (or object) holding the records - the whole payload when omitted
+  idPath: jsonPathSchema, // Relative to a record
+  eventPath: jsonPathSchema.optional(), // Relative to the payload (type, event)
+  eventValues: z.array(z.string().min(1).max(100)).max(50).optional(), // Events feeding the entity - all when omitted
 });
 
 // Types
@@ -2712,6 +3174,574 @@ export type CreateConnection = z.infer<typeof createConnectionSchema>;
 export type OAuthCallback = z.infer<typeof oauthCallbackSchema>;
 export type APIKeyConnection = z.infer<typeof apiKeyConnectionSchema>;
 export type DatabaseConnection = z.infer<typeof databaseConnectionSchema>;
+export type DatabaseSourceConfig = z.infer<typeof databaseSourceConfigSchema>;
+export type SpreadsheetSourceConfig = z.infer<typeof spreadsheetSourceConfigSchema>;
+export type WebhookSourceConfig = z.infer<typeof webhookSourceConfigSchema>;
+
+// ===== OUTBOUND WEBHOOKS =====
+
+// Events a tenant endpoint can subscribe to
+export const OUTBOUND_WEBHOOK_EVENTS = [
+  'call.created',
+  'guarantee.validated',
+  'guarantee.noshow_charged',
+  'review.received',
+  'waitlist.confirmed',
+  'campaign.sent',
+] as const;
+
+export type OutboundWebhookEvent = typeof OUTBOUND_WEBHOOK_EVENTS[number];
+
+// Endpoints registered by tenants to receive platform events
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  
+  // Target
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(), // whsec_... - signs every delivery (HMAC SHA-256)
+  events: text("events").array().notNull(), // Subscribed OutboundWebhookEvent values
+  
+  // Status
+  isActive: boolean("is_active").notNull().default(true),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  lastDeliveryAt: timestamp("last_delivery_at"),
+  lastDeliveryStatus: text("last_delivery_status"), // 'success', 'failed'
+  
+  // Timestamps
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+
+// Delivery log - one row per event and endpoint, updated on every attempt
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  endpointId: varchar("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  
+  // Event
+  eventId: text("event_id").notNull(), // evt_... - shared by the deliveries of a same event
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(),
+  
+  // Delivery
+  status: text("status").notNull().default("pending"), // 'pending', 'success', 'retrying', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // Truncated
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  deliveredAt: timestamp("delivered_at"),
+  
+  // Timestamps
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export const webhookEndpointSchema = z.object({
+  url: z.string().url("URL invalide").refine(url => url.startsWith("https://"), "L'URL doit utiliser HTTPS"),
+  description: z.string().max(200).optional(),
+  events: z.array(z.enum(OUTBOUND_WEBHOOK_EVENTS)).min(1, "Sélectionnez au moins un événement"),
+  isActive: z.boolean().optional(),
+});
+
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+
+// ===== PUBLIC API KEYS =====
+
+// Scopes a key can be granted on the /api/v1 public API
+export const API_KEY_SCOPES = [
+  'read:calls',
+  'write:calls',
+  'read:reservations',
+  'write:reservations',
+  'read:reviews',
+  'write:reviews',
+  'read:contacts',
+  'write:contacts',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Named keys of the public API - several per account, each with its own scopes and limits
+// (users.apiKeyHash stays the single N8N ingest key)
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // First characters of the key - lookup and display
+  keyHash: text("key_hash").notNull(), // bcrypt
+  scopes: text("scopes").array().notNull(), // ApiKeyScope values
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(60),
+
+  // Usage
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  requestCount: integer("request_count").notNull().default(0),
+
+  // Lifecycle
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+
+  // Timestamps
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+// Fixed one-minute request windows of the public API, shared by every server instance
+export const apiRateLimitWindows = pgTable("api_rate_limit_windows", {
+  key: text("key").primaryKey(), // Key prefix
+  windowStart: timestamp("window_start").notNull(),
+  count: integer("count").notNull().default(0),
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1, "Nom requis").max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Sélectionnez au moins une permission"),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).optional(),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), "La date d'expiration doit être dans le futur").optional().nullable(),
+});
+
+export const updateApiKeySchema = createApiKeySchema.pick({ name: true, scopes: true, rateLimitPerMinute: true }).partial();
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+
+// ===== CALL EXPORTS =====
+
+export const CALL_EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type CallExportFormat = typeof CALL_EXPORT_FORMATS[number];
+
+// Every column of the calls table can be exported except the owner
+export const CALL_EXPORT_COLUMNS = Object.keys(getTableColumns(calls)).filter(column => column !== 'userId') as (keyof Call)[];
+
+// Used when the user doesn't pick columns
+export const DEFAULT_CALL_EXPORT_COLUMNS: (keyof Call)[] = [
+  'startTime', 'phoneNumber', 'clientName', 'status', 'eventType', 'conversionResult',
+  'duration', 'appointmentDate', 'nbPersonnes', 'serviceType', 'clientMood', 'summary',
+];
+
+// Filters shared by /api/calls, the export and its schedules
+export const callExportFiltersSchema = z.object({
+  statusFilter: z.string().optional(),
+  appointmentsOnly: z.boolean().optional(),
+  hidePastAppointments: z.boolean().optional(),
+});
+
+export type CallExportFilters = z.infer<typeof callExportFiltersSchema>;
+
+// Weekly email delivery of an export - covers the 7 days before each run
+export const callExportSchedules = pgTable("call_export_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  name: text("name").notNull(),
+  format: text("format").notNull().default("csv"), // CallExportFormat
+  columns: text("columns").array().notNull(),
+  filters: jsonb("filters").$type<CallExportFilters>().notNull().default({}),
+  recipientEmail: text("recipient_email").notNull(),
+
+  // Schedule - in the tenant's time zone
+  dayOfWeek: integer("day_of_week").notNull().default(1), // 0 = Sunday ... 6 = Saturday
+  hour: integer("hour").notNull().default(8),
+  isActive: boolean("is_active").notNull().default(true),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastSentAt: timestamp("last_sent_at"),
+  lastError: text("last_error"),
+
+  // Timestamps
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type CallExportSchedule = typeof callExportSchedules.$inferSelect;
+export type InsertCallExportSchedule = typeof callExportSchedules.$inferInsert;
+
+export const callExportScheduleSchema = z.object({
+  name: z.string().min(1, "Nom requis").max(100),
+  format: z.enum(CALL_EXPORT_FORMATS).default('csv'),
+  columns: z.array(z.string().refine(column => (CALL_EXPORT_COLUMNS as string[]).includes(column), "Colonne inconnue")).min(1, "Sélectionnez au moins une colonne"),
+  filters: callExportFiltersSchema.default({}),
+  recipientEmail: z.string().email("Email invalide"),
+  dayOfWeek: z.number().int().min(0).max(6).default(1),
+  hour: z.number().int().min(0).max(23).default(8),
+  isActive: z.boolean().optional(),
+});
+
+export type CallExportScheduleInput = z.infer<typeof callExportScheduleSchema>;
+
+// ===== CALL QA (voice agent quality review) =====
+
+// Why a call lands in the reviewer queue
+export const CALL_QA_QUEUE_REASONS = ['low_confidence', 'failed', 'difficult', 'interrupted'] as const;
+export type CallQaQueueReason = typeof CALL_QA_QUEUE_REASONS[number];
+
+// Annotation categories on transcript passages
+export const CALL_QA_ANNOTATION_CATEGORIES = ['error', 'missed_opportunity', 'prompt_fix', 'good_practice'] as const;
+export type CallQaAnnotationCategory = typeof CALL_QA_ANNOTATION_CATEGORIES[number];
+
+// Each criterion is scored 0-5 by the reviewer, weights give its share of the overall /100 score
+export const CALL_QA_MAX_CRITERION_SCORE = 5;
+
+export const callQaCriterionSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]{1,50}$/, "Clé invalide (minuscules, chiffres et _)"),
+  label: z.string().min(1, "Libellé requis").max(100),
+  description: z.string().max(500).optional(),
+  weight: z.number().int().min(1).max(10).default(1),
+});
+
+export type CallQaCriterion = z.infer<typeof callQaCriterionSchema>;
+
+export const DEFAULT_CALL_QA_CRITERIA: CallQaCriterion[] = [
+  { key: 'understanding', label: 'Compréhension de la demande', weight: 3 },
+  { key: 'information', label: 'Exactitude des informations données', weight: 3 },
+  { key: 'booking', label: 'Prise de réservation menée à terme', weight: 2 },
+  { key: 'objections', label: 'Gestion des objections', weight: 1 },
+  { key: 'tone', label: 'Ton et politesse', weight: 1 },
+];
+
+// Scorecard rubric - one per tenant (or per user for accounts without tenant)
+export const callQaScorecards = pgTable("call_qa_scorecards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tenantId: varchar("tenant_id").references(() => tenants.id, { onDelete: 'cascade' }),
+
+  criteria: jsonb("criteria").$type<CallQaCriterion[]>().notNull(),
+  // Calls under this booking confidence (0-100) are queued for review
+  lowConfidenceThreshold: integer("low_confidence_threshold").notNull().default(60),
+
+  // Timestamps
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type CallQaScorecard = typeof callQaScorecards.$inferSelect;
+
+export const callQaScorecardSchema = z.object({
+  criteria: z.array(callQaCriterionSchema).min(1, "Au moins un critère est requis").max(20)
+    .refine(criteria => new Set(criteria.map(c => c.key)).size === criteria.length, "Les clés des critères doivent être uniques"),
+  lowConfidenceThreshold: z.number().int().min(0).max(100).optional(),
+});
+
+// Reviewer verdict on a call - the rubric is copied so later rubric edits don't rewrite past scores
+export const callQaReviews = pgTable("call_qa_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  callId: varchar("call_id").notNull().references(() => calls.id, { onDelete: 'cascade' }).unique(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reviewerId: varchar("reviewer_id").references(() => users.id, { onDelete: 'set null' }),
+
+  criteria: jsonb("criteria").$type<CallQaCriterion[]>().notNull(),
+  scores: jsonb("scores").$type<Record<string, number>>().notNull(), // criterion key -> 0-5
+  overallScore: integer("overall_score").notNull(), // 0-100, weighted
+  notes: text("notes"),
+
+  // Timestamps
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type CallQaReview = typeof callQaReviews.$inferSelect;
+
+export const callQaReviewSchema = z.object({
+  scores: z.record(z.number().int().min(0).max(CALL_QA_MAX_CRITERION_SCORE)),
+  notes: z.string().max(5000).optional().nullable(),
+});
+
+// Comment on a passage of the transcript (character offsets in calls.transcript)
+export const callQaAnnotations = pgTable("call_qa_annotations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  callId: varchar("call_id").notNull().references(() => calls.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: 'set null' }),
+
+  startOffset: integer("start_offset").notNull(),
+  endOffset: integer("end_offset").notNull(),
+  quote: text("quote").notNull(), // Passage as it was when annotated
+  category: text("category").notNull(), // 'error', 'missed_opportunity', 'prompt_fix', 'good_practice'
+  comment: text("comment").notNull(),
+
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type CallQaAnnotation = typeof callQaAnnotations.$inferSelect;
+
+export const callQaAnnotationSchema = z.object({
+  startOffset: z.number().int().min(0),
+  endOffset: z.number().int().min(1),
+  category: z.enum(CALL_QA_ANNOTATION_CATEGORIES),
+  comment: z.string().min(1, "Commentaire requis").max(2000),
+}).refine(data => data.endOffset > data.startOffset, {
+  message: "Passage invalide",
+  path: ["endOffset"],
+});
+
+export interface CallQaQueueItem {
+  call: Call;
+  reasons: CallQaQueueReason[];
+}
+
+export interface CallQaTrendPoint {
+  period: string; // YYYY-MM-DD, first day of the bucket
+  calls: number;
+  failedCalls: number;
+  averageConfidence: number | null;
+  reviewedCalls: number;
+  averageScore: number | null;
+  criteria: Record<string, number | null>; // criterion key -> average 0-5
+}
+
+export interface CallQaTrends {
+  granularity: 'day' | 'week';
+  points: CallQaTrendPoint[];
+  annotationsByCategory: Record<CallQaAnnotationCategory, number>;
+  // Most frequent topics of the period, to spot which prompts to fix
+  topObjections: { value: string; count: number }[];
+  topPainPoints: { value: string; count: number }[];
+  topDisconnectionReasons: { value: string; count: number }[];
+}
+
+// ===== CALL ANOMALY ALERTS =====
+
+// Metrics watched by the anomaly detector, compared to the same weekday/hour of past weeks
+export const CALL_ANOMALY_METRICS = ['call_volume', 'failed_calls', 'out_of_scope_calls', 'conversion_rate'] as const;
+export type CallAnomalyMetric = typeof CALL_ANOMALY_METRICS[number];
+
+export type CallAnomalyDirection = 'drop' | 'spike';
+
+// One row per detected anomaly - also prevents alerting twice on the same hour
+export const callAnomalyAlerts = pgTable("call_anomaly_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  notificationId: varchar("notification_id").references(() => notifications.id, { onDelete: 'set null' }),
+
+  metric: text("metric").notNull(), // CallAnomalyMetric
+  direction: text("direction").notNull(), // CallAnomalyDirection
+  severity: text("severity").notNull(), // 'info' | 'warning' | 'critical'
+
+  // Observed hour (UTC bounds of the tenant-local hour)
+  windowStart: timestamp("window_start").notNull(),
+  windowEnd: timestamp("window_end").notNull(),
+
+  // Observed value vs baseline - counts for volume metrics, percentage for conversion_rate
+  observed: real("observed").notNull(),
+  expected: real("expected").notNull(),
+  standardDeviation: real("standard_deviation").notNull(),
+  zScore: real("z_score").notNull(),
+  baselineWeeks: integer("baseline_weeks").notNull(),
+  explanation: text("explanation").notNull(), // Rule and thresholds, in the alert language
+
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type CallAnomalyAlert = typeof callAnomalyAlerts.$inferSelect;
+export type InsertCallAnomalyAlert = typeof callAnomalyAlerts.$inferInsert;
+
+// ===== CALL OUTCOME TAXONOMY =====
+
+// Outcomes and service types are configured per tenant; ingested free-text values
+// (eventType, conversionResult, serviceType) are matched against keys, labels and synonyms
+export const CALL_TAXONOMY_BUSINESS_TYPES = ['restaurant', 'garage', 'kine', 'other'] as const;
+export type CallTaxonomyBusinessType = typeof CALL_TAXONOMY_BUSINESS_TYPES[number];
+
+export const callTaxonomyEntrySchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]{1,50}$/, "Clé invalide (minuscules, chiffres et _)"),
+  label: z.string().min(1, "Libellé requis").max(80),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Couleur invalide"),
+  // Outcomes: share of an average ticket earned (0 = not a conversion)
+  // Service types: multiplier of the average ticket
+  valueWeight: z.number().min(0).max(20),
+  synonyms: z.array(z.string().min(1).max(80)).max(50).default([]),
+});
+
+export type CallTaxonomyEntry = z.infer<typeof callTaxonomyEntrySchema>;
+
+export interface CallTaxonomyDefaults {
+  outcomes: CallTaxonomyEntry[];
+  serviceTypes: CallTaxonomyEntry[];
+}
+
+const CANCELLATION_OUTCOME: CallTaxonomyEntry = {
+  key: 'cancellation', label: 'Annulation', color: '#F87171', valueWeight: 0,
+  synonyms: ['annulation', 'annule', 'cancel', 'canceled', 'cancelled'],
+};
+const INFORMATION_OUTCOME: CallTaxonomyEntry = {
+  key: 'information', label: 'Information', color: '#C8B88A', valueWeight: 0,
+  synonyms: ['info', 'inquiry', 'question', 'renseignement'],
+};
+const COMPLAINT_OUTCOME: CallTaxonomyEntry = {
+  key: 'complaint', label: 'Réclamation', color: '#FB923C', valueWeight: 0,
+  synonyms: ['plainte', 'reclamation', 'litige'],
+};
+const OTHER_OUTCOME: CallTaxonomyEntry = {
+  key: 'other', label: 'Autre', color: '#9A9A9A', valueWeight: 0,
+  synonyms: ['autre', 'not_converted', 'pending'],
+};
+
+export const DEFAULT_CALL_TAXONOMIES: Record<CallTaxonomyBusinessType, CallTaxonomyDefaults> = {
+  restaurant: {
+    outcomes: [
+      { key: 'reservation', label: 'Réservation', color: '#4CEFAD', valueWeight: 1, synonyms: ['booking', 'table', 'converted'] },
+      { key: 'modification', label: 'Modification', color: '#60A5FA', valueWeight: 0, synonyms: ['changement', 'report', 'reschedule'] },
+      CANCELLATION_OUTCOME,
+      INFORMATION_OUTCOME,
+      COMPLAINT_OUTCOME,
+      OTHER_OUTCOME,
+    ],
+    serviceTypes: [
+      { key: 'dejeuner', label: 'Déjeuner', color: '#FBBF24', valueWeight: 1, synonyms: ['lunch', 'midi'] },
+      { key: 'diner', label: 'Dîner', color: '#A78BFA', valueWeight: 1.3, synonyms: ['dinner', 'soir'] },
+      { key: 'brunch', label: 'Brunch', color: '#F472B6', valueWeight: 1, synonyms: [] },
+      { key: 'privatisation', label: 'Privatisation / groupe', color: '#C8B88A', valueWeight: 5, synonyms: ['groupe', 'evenement', 'privatization'] },
+    ],
+  },
+  garage: {
+    outcomes: [
+      { key: 'appointment', label: 'Rendez-vous atelier', color: '#4CEFAD', valueWeight: 1, synonyms: ['rdv', 'rendez_vous', 'reservation', 'booking', 'converted'] },
+      { key: 'quote', label: 'Devis', color: '#60A5FA', valueWeight: 0.5, synonyms: ['devis', 'estimate', 'quotation'] },
+      { key: 'vehicle_status', label: 'Suivi véhicule', color: '#A78BFA', valueWeight: 0, synonyms: ['suivi', 'statut', 'status'] },
+      CANCELLATION_OUTCOME,
+      INFORMATION_OUTCOME,
+      COMPLAINT_OUTCOME,
+      OTHER_OUTCOME,
+    ],
+    serviceTypes: [
+      { key: 'entretien', label: 'Entretien / vidange', color: '#FBBF24', valueWeight: 1, synonyms: ['vidange', 'revision', 'maintenance'] },
+      { key: 'pneus', label: 'Pneumatiques', color: '#60A5FA', valueWeight: 0.8, synonyms: ['pneu', 'tyres', 'tires'] },
+      { key: 'carrosserie', label: 'Carrosserie', color: '#F472B6', valueWeight: 3, synonyms: ['bodywork'] },
+      { key: 'diagnostic', label: 'Diagnostic', color: '#A78BFA', valueWeight: 0.6, synonyms: ['panne'] },
+      { key: 'controle_technique', label: 'Contrôle technique', color: '#C8B88A', valueWeight: 0.7, synonyms: ['ct'] },
+    ],
+  },
+  kine: {
+    outcomes: [
+      { key: 'appointment', label: 'Séance réservée', color: '#4CEFAD', valueWeight: 1, synonyms: ['rdv', 'rendez_vous', 'reservation', 'seance', 'converted'] },
+      { key: 'modification', label: 'Report', color: '#60A5FA', valueWeight: 0, synonyms: ['modification', 'changement', 'reschedule'] },
+      CANCELLATION_OUTCOME,
+      INFORMATION_OUTCOME,
+      OTHER_OUTCOME,
+    ],
+    serviceTypes: [
+      { key: 'seance', label: 'Séance', color: '#FBBF24', valueWeight: 1, synonyms: ['consultation'] },
+      { key: 'bilan', label: 'Bilan', color: '#60A5FA', valueWeight: 1.2, synonyms: [] },
+      { key: 'domicile', label: 'À domicile', color: '#A78BFA', valueWeight: 1.3, synonyms: ['home'] },
+      { key: 'sport', label: 'Rééducation sportive', color: '#F472B6', valueWeight: 1, synonyms: ['sportif'] },
+    ],
+  },
+  other: {
+    outcomes: [
+      { key: 'appointment', label: 'Rendez-vous', color: '#4CEFAD', valueWeight: 1, synonyms: ['rdv', 'rendez_vous', 'reservation', 'booking', 'converted'] },
+      { key: 'quote', label: 'Devis', color: '#60A5FA', valueWeight: 0.5, synonyms: ['devis', 'estimate'] },
+      { key: 'modification', label: 'Modification', color: '#A78BFA', valueWeight: 0, synonyms: ['changement', 'report'] },
+      CANCELLATION_OUTCOME,
+      INFORMATION_OUTCOME,
+      COMPLAINT_OUTCOME,
+      OTHER_OUTCOME,
+    ],
+    serviceTypes: [],
+  },
+};
+
+// Taxonomy - one per tenant (or per user for accounts without tenant)
+export const callTaxonomies = pgTable("call_taxonomies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tenantId: varchar("tenant_id").references(() => tenants.id, { onDelete: 'cascade' }),
+
+  outcomes: jsonb("outcomes").$type<CallTaxonomyEntry[]>().notNull(),
+  serviceTypes: jsonb("service_types").$type<CallTaxonomyEntry[]>().notNull(),
+
+  // Timestamps
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type CallTaxonomy = typeof callTaxonomies.$inferSelect;
+
+const uniqueEntryKeys = (entries: CallTaxonomyEntry[]) => new Set(entries.map(e => e.key)).size === entries.length;
+
+export const callTaxonomySchema = z.object({
+  outcomes: z.array(callTaxonomyEntrySchema).min(1, "Au moins un résultat est requis").max(30)
+    .refine(uniqueEntryKeys, "Les clés des résultats doivent être uniques"),
+  serviceTypes: z.array(callTaxonomyEntrySchema).max(30)
+    .refine(uniqueEntryKeys, "Les clés des prestations doivent être uniques"),
+});
+
+// Effective taxonomy returned to the dashboard (stored one, or the business type defaults)
+export interface EffectiveCallTaxonomy extends CallTaxonomyDefaults {
+  businessType: CallTaxonomyBusinessType;
+  isDefault: boolean;
+}
+
+export interface CallOutcomeCount {
+  outcome: string | null; // null = calls not classified yet
+  label: string;
+  color: string;
+  count: number;
+}
+
+// ===== REVENUE ATTRIBUTION =====
+
+// How sure we are that an order comes from a call or a reservation
+export const REVENUE_ATTRIBUTION_CONFIDENCES = ['high', 'medium', 'low'] as const;
+export type RevenueAttributionConfidence = typeof REVENUE_ATTRIBUTION_CONFIDENCES[number];
+
+// Customer identifiers shared by the order and the call/reservation
+export type RevenueAttributionMatch = 'phone' | 'email' | 'phone_email';
+
+// One row per attributed order or standalone transaction - recomputed for a period on each run
+export const revenueAttributions = pgTable("revenue_attributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+
+  // Origin of the revenue: a call or a reservation (guarantee session)
+  callId: varchar("call_id").references(() => calls.id, { onDelete: 'cascade' }),
+  guaranteeSessionId: varchar("guarantee_session_id").references(() => guaranteeSessions.id, { onDelete: 'cascade' }),
+
+  // Revenue: an order, or a payment not linked to any order
+  orderId: varchar("order_id").references(() => externalOrders.id, { onDelete: 'cascade' }).unique(),
+  transactionId: varchar("transaction_id").references(() => externalTransactions.id, { onDelete: 'cascade' }).unique(),
+
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("EUR"),
+  revenueAt: timestamp("revenue_at").notNull(), // Order or transaction date
+
+  matchedBy: text("matched_by").notNull(), // RevenueAttributionMatch
+  confidence: text("confidence").notNull(), // RevenueAttributionConfidence
+  score: integer("score").notNull(), // 0-100
+  hoursFromContact: real("hours_from_contact"), // Delay between the call/reservation and the order
+
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type RevenueAttribution = typeof revenueAttributions.$inferSelect;
+export type InsertRevenueAttribution = typeof revenueAttributions.$inferInsert;
+
+// Attribution with what was matched on each side, for the dashboard
+export interface RevenueAttributionDetail extends RevenueAttribution {
+  callPhoneNumber: string | null;
+  callClientName: string | null;
+  reservationCustomerName: string | null;
+  orderNumber: string | null;
+  externalSource: string | null;
+}
+
+export interface RevenueAttributionSummary {
+  measuredRevenue: number; // High and medium confidence
+  possibleRevenue: number; // Low confidence, not part of the measured revenue
+  byConfidence: Record<RevenueAttributionConfidence, { amount: number; count: number }>;
+  attributedCalls: number;
+  attributedReservations: number;
+  // Orders/transactions received for the period, attributed or not - 0 means no connected source
+  revenueSources: number;
+}
 
 // ===== MULTI-TENANT ARCHITECTURE =====
 
@@ -0,0 +1,48 @@
+/**
+ * Conversion between speaker turns and the plain-text transcript
+ * The plain text stays the reference for search, exports and QA annotations
+ */
+import type { TranscriptSpeaker, TranscriptTurn } from "./schema";
+
+export const TRANSCRIPT_SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  agent: 'IA',
+  customer: 'Client',
+  unknown: 'Interlocuteur',
+};
+
+// Prefixes found in plain-text transcripts ("Client: ...", "IA: ...")
+const SPEAKER_PREFIXES: Record<string, TranscriptSpeaker> = {
+  ia: 'agent',
+  agent: 'agent',
+  assistant: 'agent',
+  client: 'customer',
+  user: 'customer',
+  utilisateur: 'customer',
+  interlocuteur: 'unknown',
+};
+
+const SPEAKER_LINE = new RegExp(`^\\s*(${Object.keys(SPEAKER_PREFIXES).join('|')})\\s*:\\s?(.*)$`, 'i');
+
+export function formatTranscriptText(turns: TranscriptTurn[]): string {
+  return turns.map(turn => `${TRANSCRIPT_SPEAKER_LABELS[turn.speaker]}: ${turn.text}`).join('\n');
+}
+
+/**
+ * Turns of a legacy plain-text transcript, without offsets.
+ * Returns an empty array when the text has no speaker prefixes.
+ */
+export function parseTranscriptText(transcript: string | null | undefined): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  for (const line of (transcript || '').split('\n')) {
+    const match = SPEAKER_LINE.exec(line);
+    if (match) {
+      turns.push({ speaker: SPEAKER_PREFIXES[match[1].toLowerCase()], text: match[2].trim(), start: null, end: null });
+    } else if (turns.length > 0 && line.trim()) {
+      turns[turns.length - 1].text += `\n${line.trim()}`;
+    } else if (line.trim()) {
+      // Text before the first speaker: not a segmented transcript
+      return [];
+    }
+  }
+  return turns;
+}